@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ReviewVote" AS ENUM ('YES', 'NO', 'ABSTAIN');
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "vote" "ReviewVote";
+
+-- CreateTable
+CREATE TABLE "review_rankings" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "trackId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_rankings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_ranking_entries" (
+    "id" TEXT NOT NULL,
+    "rankingId" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "review_ranking_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_rankings_eventId_reviewerId_idx" ON "review_rankings"("eventId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "review_ranking_entries_submissionId_idx" ON "review_ranking_entries"("submissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_ranking_entries_rankingId_submissionId_key" ON "review_ranking_entries"("rankingId", "submissionId");
+
+-- AddForeignKey
+ALTER TABLE "review_rankings" ADD CONSTRAINT "review_rankings_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_rankings" ADD CONSTRAINT "review_rankings_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_rankings" ADD CONSTRAINT "review_rankings_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "event_tracks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_ranking_entries" ADD CONSTRAINT "review_ranking_entries_rankingId_fkey" FOREIGN KEY ("rankingId") REFERENCES "review_rankings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_ranking_entries" ADD CONSTRAINT "review_ranking_entries_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "weightedScore" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "review_criterion_scores" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "criteriaId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_criterion_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_criterion_scores_criteriaId_idx" ON "review_criterion_scores"("criteriaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_criterion_scores_reviewId_criteriaId_key" ON "review_criterion_scores"("reviewId", "criteriaId");
+
+-- AddForeignKey
+ALTER TABLE "review_criterion_scores" ADD CONSTRAINT "review_criterion_scores_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_criterion_scores" ADD CONSTRAINT "review_criterion_scores_criteriaId_fkey" FOREIGN KEY ("criteriaId") REFERENCES "event_review_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- Data migration: map legacy score columns onto criteria
+-- ============================================================================
+
+-- Events that have legacy scores but no criteria get one criterion per legacy column
+INSERT INTO "event_review_criteria" ("id", "eventId", "name", "description", "weight", "sortOrder", "createdAt", "updatedAt")
+SELECT 'legacy_' || md5(e."id" || c."name"), e."id", c."name", c."description", 3, c."sortOrder", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "events" e
+CROSS JOIN (VALUES
+    ('Content', 'Quality and depth of the proposed content', 0),
+    ('Presentation', 'Speaker background and presentation ability', 1),
+    ('Relevance', 'Relevance to the event themes and audience', 2),
+    ('Overall', 'Overall impression of the submission', 3)
+) AS c("name", "description", "sortOrder")
+WHERE NOT EXISTS (
+    SELECT 1 FROM "event_review_criteria" erc WHERE erc."eventId" = e."id"
+)
+AND EXISTS (
+    SELECT 1 FROM "reviews" r
+    JOIN "submissions" s ON s."id" = r."submissionId"
+    WHERE s."eventId" = e."id"
+    AND COALESCE(r."contentScore", r."presentationScore", r."relevanceScore", r."overallScore") IS NOT NULL
+);
+
+-- Copy each legacy score to the first criterion whose name matches it. With the
+-- default criteria this maps content -> "Content Quality", presentation ->
+-- "Speaker Experience" and relevance -> "Relevance".
+INSERT INTO "review_criterion_scores" ("id", "reviewId", "criteriaId", "score", "createdAt", "updatedAt")
+SELECT 'legacy_' || md5(r."id" || matched."id"), r."id", matched."id", legacy."score", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "reviews" r
+JOIN "submissions" s ON s."id" = r."submissionId"
+CROSS JOIN LATERAL (VALUES
+    (ARRAY['%content%'], r."contentScore"),
+    (ARRAY['%presentation%', '%speaker%', '%delivery%'], r."presentationScore"),
+    (ARRAY['%relevan%'], r."relevanceScore"),
+    (ARRAY['%overall%'], r."overallScore")
+) AS legacy("patterns", "score")
+CROSS JOIN LATERAL (
+    SELECT erc."id" FROM "event_review_criteria" erc
+    WHERE erc."eventId" = s."eventId" AND erc."name" ILIKE ANY (legacy."patterns")
+    ORDER BY erc."sortOrder"
+    LIMIT 1
+) AS matched
+WHERE legacy."score" BETWEEN 1 AND 5
+ON CONFLICT ("reviewId", "criteriaId") DO NOTHING;
+
+-- Weighted total per review
+UPDATE "reviews" r
+SET "weightedScore" = totals."weightedScore"
+FROM (
+    SELECT rcs."reviewId", SUM(rcs."score" * erc."weight")::DOUBLE PRECISION / SUM(erc."weight") AS "weightedScore"
+    FROM "review_criterion_scores" rcs
+    JOIN "event_review_criteria" erc ON erc."id" = rcs."criteriaId"
+    GROUP BY rcs."reviewId"
+) AS totals
+WHERE totals."reviewId" = r."id";
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ReviewAnonymity" AS ENUM ('OPEN', 'SPEAKER_HIDDEN', 'DOUBLE_BLIND');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "reviewAnonymity" "ReviewAnonymity" NOT NULL DEFAULT 'OPEN';
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "review_assignments" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "assignedById" TEXT,
+    "isAutomatic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_conflicts" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_conflicts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_assignments_eventId_idx" ON "review_assignments"("eventId");
+
+-- CreateIndex
+CREATE INDEX "review_assignments_reviewerId_idx" ON "review_assignments"("reviewerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_assignments_submissionId_reviewerId_key" ON "review_assignments"("submissionId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "review_conflicts_reviewerId_idx" ON "review_conflicts"("reviewerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_conflicts_submissionId_reviewerId_key" ON "review_conflicts"("submissionId", "reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "schedulePublishedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "event_rooms" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "capacity" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "schedule_slots" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "talkFormatId" TEXT,
+    "submissionId" TEXT,
+    "title" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schedule_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_rooms_eventId_name_key" ON "event_rooms"("eventId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_slots_submissionId_key" ON "schedule_slots"("submissionId");
+
+-- CreateIndex
+CREATE INDEX "schedule_slots_eventId_startsAt_idx" ON "schedule_slots"("eventId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "schedule_slots_roomId_idx" ON "schedule_slots"("roomId");
+
+-- AddForeignKey
+ALTER TABLE "event_rooms" ADD CONSTRAINT "event_rooms_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_slots" ADD CONSTRAINT "schedule_slots_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_slots" ADD CONSTRAINT "schedule_slots_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "event_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_slots" ADD CONSTRAINT "schedule_slots_talkFormatId_fkey" FOREIGN KEY ("talkFormatId") REFERENCES "event_talk_formats"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_slots" ADD CONSTRAINT "schedule_slots_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
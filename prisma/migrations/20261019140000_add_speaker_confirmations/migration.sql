@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "SpeakerConfirmationStatus" AS ENUM ('PENDING', 'CONFIRMED', 'DECLINED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "confirmationDeadlineDays" INTEGER NOT NULL DEFAULT 14,
+ADD COLUMN "codeOfConductUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "speaker_confirmations" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "status" "SpeakerConfirmationStatus" NOT NULL DEFAULT 'PENDING',
+    "tokenHash" TEXT NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "agreedToCodeOfConduct" BOOLEAN NOT NULL DEFAULT false,
+    "agreedToRecording" BOOLEAN NOT NULL DEFAULT false,
+    "travelNeeds" TEXT,
+    "declineReason" TEXT,
+    "promotedSubmissionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "speaker_confirmations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "speaker_confirmations_submissionId_key" ON "speaker_confirmations"("submissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "speaker_confirmations_tokenHash_key" ON "speaker_confirmations"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "speaker_confirmations_status_deadline_idx" ON "speaker_confirmations"("status", "deadline");
+
+-- AddForeignKey
+ALTER TABLE "speaker_confirmations" ADD CONSTRAINT "speaker_confirmations_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the confirmation request email for existing installs
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_speaker_confirmation',
+    'speaker_confirmation',
+    'Speaker Confirmation Request',
+    'Please confirm your talk at {eventName}',
+    '<h1>Please Confirm Your Talk</h1>
+<p>Hi {userName},</p>
+<p>Congratulations again on being accepted to <strong>{eventName}</strong>! To keep your spot in the program, please confirm that you will attend.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Talk:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Confirm by:</strong> {deadline}</p>
+</div>
+<p>You will be asked to agree to the code of conduct and recording release, and can tell us about any travel needs.</p>
+<p style="text-align: center;">
+  <a href="{confirmUrl}" class="button">Confirm or Decline</a>
+</p>
+<p>If we do not hear from you by the deadline, your slot may be offered to another speaker.</p>',
+    '{"userName": "Speaker''s name", "eventName": "Event name", "submissionTitle": "Talk/paper title", "confirmUrl": "Personal confirmation link", "deadline": "Date the speaker must answer by", "siteName": "Platform name"}',
+    'Sent to accepted speakers asking them to confirm or decline',
+    'submissions',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "BulkOperationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "submission_bulk_operations" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "action" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "submissionIds" TEXT[],
+    "status" "BulkOperationStatus" NOT NULL DEFAULT 'PENDING',
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "submission_bulk_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "submission_bulk_operations_eventId_createdAt_idx" ON "submission_bulk_operations"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "submission_bulk_operations_status_updatedAt_idx" ON "submission_bulk_operations"("status", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "submission_bulk_operations" ADD CONSTRAINT "submission_bulk_operations_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_bulk_operations" ADD CONSTRAINT "submission_bulk_operations_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
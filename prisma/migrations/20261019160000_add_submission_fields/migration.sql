@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SubmissionFieldType" AS ENUM ('TEXT', 'RICH_TEXT', 'SELECT', 'MULTI_SELECT', 'CHECKBOX', 'URL', 'NUMBER');
+
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN "customFields" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "event_submission_fields" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "SubmissionFieldType" NOT NULL DEFAULT 'TEXT',
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "maxLength" INTEGER,
+    "minValue" DOUBLE PRECISION,
+    "maxValue" DOUBLE PRECISION,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_submission_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_submission_fields_eventId_idx" ON "event_submission_fields"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "event_submission_fields" ADD CONSTRAINT "event_submission_fields_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "DataErasureStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "erasedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "data_erasure_requests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" TEXT,
+    "status" "DataErasureStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "scheduledFor" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "data_erasure_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_erasure_requests_userId_idx" ON "data_erasure_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "data_erasure_requests_status_scheduledFor_idx" ON "data_erasure_requests"("status", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "data_erasure_requests" ADD CONSTRAINT "data_erasure_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "data_erasure_requests" ADD CONSTRAINT "data_erasure_requests_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "KeyRotationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "key_rotation_jobs" (
+    "id" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "startedById" TEXT,
+    "status" "KeyRotationStatus" NOT NULL DEFAULT 'PENDING',
+    "targetIndex" INTEGER NOT NULL DEFAULT 0,
+    "cursor" TEXT,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "scanned" INTEGER NOT NULL DEFAULT 0,
+    "rotated" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+    "verification" JSONB,
+    "verifiedAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "key_rotation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "key_rotation_jobs_status_updatedAt_idx" ON "key_rotation_jobs"("status", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "key_rotation_jobs" ADD CONSTRAINT "key_rotation_jobs_startedById_fkey" FOREIGN KEY ("startedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
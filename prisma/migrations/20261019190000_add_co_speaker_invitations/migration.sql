@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "CoSpeakerInvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- Unlink co-speakers whose linked account no longer exists before adding the foreign key
+UPDATE "co_speakers" SET "linkedUserId" = NULL, "isLinked" = false
+WHERE "linkedUserId" IS NOT NULL AND "linkedUserId" NOT IN (SELECT "id" FROM "users");
+
+-- AlterTable
+ALTER TABLE "co_speakers" ADD COLUMN "invitationStatus" "CoSpeakerInvitationStatus",
+ADD COLUMN "invitationTokenHash" TEXT,
+ADD COLUMN "invitedAt" TIMESTAMP(3),
+ADD COLUMN "invitationExpiresAt" TIMESTAMP(3),
+ADD COLUMN "respondedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "co_speakers_invitationTokenHash_key" ON "co_speakers"("invitationTokenHash");
+
+-- CreateIndex
+CREATE INDEX "co_speakers_linkedUserId_idx" ON "co_speakers"("linkedUserId");
+
+-- AddForeignKey
+ALTER TABLE "co_speakers" ADD CONSTRAINT "co_speakers_linkedUserId_fkey" FOREIGN KEY ("linkedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the co-speaker invitation email for existing installs
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_co_speaker_invitation',
+    'co_speaker_invitation',
+    'Co-Speaker Invitation',
+    '{inviterName} added you as a co-speaker for {eventName}',
+    '<h1>You''ve Been Added as a Co-Speaker</h1>
+<p>Hi {userName},</p>
+<p><strong>{inviterName}</strong> added you as a co-speaker on a submission to <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Talk:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Respond by:</strong> {expiresAt}</p>
+</div>
+<p>Once you accept, you can edit the submission, manage its materials and take part in conversations with the organizers. If you don''t have an account yet, you can create one from the invitation page.</p>
+<p style="text-align: center;">
+  <a href="{invitationUrl}" class="button">Accept or Decline</a>
+</p>
+<p>If you weren''t expecting this, you can decline the invitation or ignore this email.</p>',
+    '{"userName": "Co-speaker''s name", "inviterName": "Name of the speaker who added them", "eventName": "Event name", "submissionTitle": "Talk/paper title", "invitationUrl": "Personal invitation link", "expiresAt": "Date the invitation expires", "siteName": "Platform name"}',
+    'Sent when a speaker adds a co-speaker to a submission',
+    'submissions',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "OutboundEmailStatus" AS ENUM ('QUEUED', 'SENDING', 'SENT', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "outbound_emails" (
+    "id" TEXT NOT NULL,
+    "templateType" TEXT,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT,
+    "replyTo" TEXT,
+    "status" "OutboundEmailStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "messageId" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outbound_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbound_emails_status_nextAttemptAt_idx" ON "outbound_emails"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "outbound_emails_recipient_createdAt_idx" ON "outbound_emails"("recipient", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "outbound_emails_createdAt_idx" ON "outbound_emails"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "emailMessageId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_emailMessageId_key" ON "messages"("emailMessageId");
@@ -0,0 +1,156 @@
+-- CreateEnum
+CREATE TYPE "NotificationCategory" AS ENUM ('NEW_SUBMISSION', 'NEW_REVIEW', 'DISCUSSION_REPLY', 'MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('EMAIL');
+
+-- CreateEnum
+CREATE TYPE "NotificationFrequency" AS ENUM ('IMMEDIATE', 'DAILY', 'WEEKLY', 'OFF');
+
+-- AlterTable
+ALTER TABLE "outbound_emails" ADD COLUMN "headers" JSONB;
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "NotificationChannel" NOT NULL DEFAULT 'EMAIL',
+    "category" "NotificationCategory" NOT NULL,
+    "frequency" "NotificationFrequency" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_digest_items" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "category" "NotificationCategory" NOT NULL,
+    "frequency" "NotificationFrequency" NOT NULL,
+    "title" TEXT NOT NULL,
+    "summary" TEXT,
+    "url" TEXT NOT NULL,
+    "eventName" TEXT,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_digest_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_channel_category_key" ON "notification_preferences"("userId", "channel", "category");
+
+-- CreateIndex
+CREATE INDEX "notification_digest_items_dueAt_idx" ON "notification_digest_items"("dueAt");
+
+-- CreateIndex
+CREATE INDEX "notification_digest_items_userId_dueAt_idx" ON "notification_digest_items"("userId", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_digest_items" ADD CONSTRAINT "notification_digest_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the notification emails for existing installs
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_new_submission',
+    'new_submission',
+    'New Submission',
+    'New submission for {eventName}: {submissionTitle}',
+    '<h1>New Submission</h1>
+<p>Hi {userName},</p>
+<p>A new submission has arrived for <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Submission:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Track:</strong> {trackName}</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Submission</a>
+</p>',
+    '{"userName": "Recipient''s name", "eventName": "Event name", "submissionTitle": "Talk/paper title", "trackName": "Track, or \"No track\"", "submissionUrl": "Link to the submission", "siteName": "Platform name"}',
+    'Sent to an event''s review team when a submission arrives, if the event notifies on new submissions',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
+
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_new_review',
+    'new_review',
+    'New Review',
+    'New review for: {submissionTitle}',
+    '<h1>New Review</h1>
+<p>Hi {userName},</p>
+<p>A review has been submitted for a submission to <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Submission:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Reviews so far:</strong> {reviewCount}</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Reviews</a>
+</p>',
+    '{"userName": "Recipient''s name", "eventName": "Event name", "submissionTitle": "Talk/paper title", "reviewCount": "Number of reviews on the submission", "submissionUrl": "Link to the submission", "siteName": "Platform name"}',
+    'Sent to an event''s lead reviewers when a review is submitted, if the event notifies on new reviews',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
+
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_discussion_reply',
+    'discussion_reply',
+    'Review Discussion Reply',
+    'New comment on a review of: {submissionTitle}',
+    '<h1>New Discussion Comment</h1>
+<p>Hi {userName},</p>
+<p>There is a new comment in a review discussion you are part of.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Event:</strong> {eventName}</p>
+  <p style="margin: 0;"><strong>Submission:</strong> {submissionTitle}</p>
+</div>
+<div style="background-color: #f9fafb; border-left: 4px solid #3b82f6; padding: 16px; margin: 16px 0;">
+  <p style="margin: 0; font-style: italic;">"{commentPreview}"</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Discussion</a>
+</p>',
+    '{"userName": "Recipient''s name", "eventName": "Event name", "submissionTitle": "Talk/paper title", "commentPreview": "Preview of the comment", "submissionUrl": "Link to the submission", "siteName": "Platform name"}',
+    'Sent to reviewers taking part in a review discussion when someone adds a comment',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
+
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_notification_digest',
+    'notification_digest',
+    'Notification Digest',
+    'Your {period} summary: {itemCount} updates',
+    '<h1>Your {period} summary</h1>
+<p>Hi {userName},</p>
+<p>Here is what happened since your last summary.</p>
+{digestItems:raw}
+<p style="text-align: center;">
+  <a href="{preferencesUrl}" class="button">Notification Settings</a>
+</p>',
+    '{"userName": "Recipient''s name", "period": "\"daily\" or \"weekly\"", "itemCount": "Number of updates", "digestItems": "The updates, grouped by type (HTML)", "preferencesUrl": "Link to notification settings", "siteName": "Platform name"}',
+    'Daily or weekly summary of the notifications a user chose to receive as a digest',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
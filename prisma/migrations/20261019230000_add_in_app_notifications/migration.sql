@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "NotificationCategory" ADD VALUE 'STATUS_CHANGE';
+ALTER TYPE "NotificationCategory" ADD VALUE 'PLUGIN_NOTICE';
+
+-- AlterEnum
+ALTER TYPE "NotificationChannel" ADD VALUE 'IN_APP';
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "category" "NotificationCategory" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "url" TEXT,
+    "source" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_createdAt_idx" ON "notifications"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_createdAt_idx" ON "notifications"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
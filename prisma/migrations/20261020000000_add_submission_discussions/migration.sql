@@ -0,0 +1,86 @@
+-- AlterEnum
+ALTER TYPE "NotificationCategory" ADD VALUE 'MENTION';
+
+-- CreateTable
+CREATE TABLE "submission_discussions" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "content" TEXT NOT NULL,
+    "isPinned" BOOLEAN NOT NULL DEFAULT false,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "submission_discussions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "submission_discussion_mentions" (
+    "id" TEXT NOT NULL,
+    "discussionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "submission_discussion_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "submission_discussions_submissionId_createdAt_idx" ON "submission_discussions"("submissionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "submission_discussions_parentId_idx" ON "submission_discussions"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "submission_discussion_mentions_discussionId_userId_key" ON "submission_discussion_mentions"("discussionId", "userId");
+
+-- CreateIndex
+CREATE INDEX "submission_discussion_mentions_userId_idx" ON "submission_discussion_mentions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "submission_discussions" ADD CONSTRAINT "submission_discussions_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_discussions" ADD CONSTRAINT "submission_discussions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_discussions" ADD CONSTRAINT "submission_discussions_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_discussions" ADD CONSTRAINT "submission_discussions_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "submission_discussions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_discussion_mentions" ADD CONSTRAINT "submission_discussion_mentions_discussionId_fkey" FOREIGN KEY ("discussionId") REFERENCES "submission_discussions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "submission_discussion_mentions" ADD CONSTRAINT "submission_discussion_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the mention email for existing installs
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_discussion_mention',
+    'discussion_mention',
+    'Discussion Mention',
+    '{authorName} mentioned you on: {submissionTitle}',
+    '<h1>You Were Mentioned</h1>
+<p>Hi {userName},</p>
+<p>{authorName} mentioned you in the review team discussion of a submission.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Event:</strong> {eventName}</p>
+  <p style="margin: 0;"><strong>Submission:</strong> {submissionTitle}</p>
+</div>
+<div style="background-color: #f9fafb; border-left: 4px solid #3b82f6; padding: 16px; margin: 16px 0;">
+  <p style="margin: 0; font-style: italic;">"{commentPreview}"</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Discussion</a>
+</p>',
+    '{"userName": "Recipient''s name", "authorName": "Who mentioned them (an alias under double-blind review)", "eventName": "Event name", "submissionTitle": "Talk/paper title", "commentPreview": "Preview of the comment", "submissionUrl": "Link to the submission", "siteName": "Platform name"}',
+    'Sent to a review team member when someone @mentions them in a submission discussion',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
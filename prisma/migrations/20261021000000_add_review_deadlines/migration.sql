@@ -0,0 +1,81 @@
+-- AlterEnum
+ALTER TYPE "NotificationCategory" ADD VALUE 'REVIEW_DEADLINE';
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "reviewStartDate" TIMESTAMP(3),
+ADD COLUMN     "reviewEndDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "review_reminders" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "pendingCount" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_reminders_eventId_userId_stage_deadline_key" ON "review_reminders"("eventId", "userId", "stage", "deadline");
+
+-- CreateIndex
+CREATE INDEX "review_reminders_userId_idx" ON "review_reminders"("userId");
+
+-- AddForeignKey
+ALTER TABLE "review_reminders" ADD CONSTRAINT "review_reminders_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_reminders" ADD CONSTRAINT "review_reminders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the review deadline emails for existing installs
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_review_deadline_reminder',
+    'review_deadline_reminder',
+    'Review Deadline Reminder',
+    'Reviews due {timeRemaining}: {eventName}',
+    '<h1>Review Deadline Reminder</h1>
+<p>Hi {userName},</p>
+<p>You have <strong>{pendingCount}</strong> assigned submission(s) still waiting for your review for <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Review deadline:</strong> {deadline}</p>
+  <p style="margin: 0;"><strong>Due:</strong> {timeRemaining}</p>
+</div>
+<p style="text-align: center;">
+  <a href="{reviewUrl}" class="button">Continue Reviewing</a>
+</p>',
+    '{"userName": "Reviewer''s name", "eventName": "Event name", "pendingCount": "Number of unfinished assignments", "deadline": "Review deadline, in the event timezone", "timeRemaining": "When reviews are due (e.g., \"in 3 days\" or \"2 days ago\")", "reviewUrl": "Link to the event''s submissions", "siteName": "Platform name"}',
+    'Sent to a reviewer with unfinished assignments as the review deadline approaches or passes',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
+
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_review_deadline_escalation',
+    'review_deadline_escalation',
+    'Review Deadline Escalation',
+    'Review deadline passed with {pendingCount} reviews outstanding: {eventName}',
+    '<h1>Reviews Outstanding</h1>
+<p>Hi {userName},</p>
+<p>The review deadline for <strong>{eventName}</strong> ({deadline}) has passed, and {reviewerCount} reviewer(s) still have {pendingCount} assigned review(s) to finish.</p>
+<div class="info-box">
+  {overdueReviewers:raw}
+</div>
+<p style="text-align: center;">
+  <a href="{progressUrl}" class="button">View Review Progress</a>
+</p>',
+    '{"userName": "Lead reviewer''s name", "eventName": "Event name", "deadline": "Review deadline, in the event timezone", "pendingCount": "Unfinished assignments across the team", "reviewerCount": "Reviewers with unfinished assignments", "overdueReviewers": "HTML list of reviewers and what they have left", "progressUrl": "Link to the event''s review progress", "siteName": "Platform name"}',
+    'Sent to lead reviewers when the review deadline has passed with unfinished assignments',
+    'communication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
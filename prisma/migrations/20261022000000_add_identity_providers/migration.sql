@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "IdentityProviderType" AS ENUM ('OIDC', 'SAML');
+
+-- CreateTable
+CREATE TABLE "identity_providers" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "IdentityProviderType" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "issuer" TEXT,
+    "clientId" TEXT,
+    "clientSecret" TEXT,
+    "scopes" TEXT NOT NULL DEFAULT 'openid email profile',
+    "ssoUrl" TEXT,
+    "idpEntityId" TEXT,
+    "idpCertificate" TEXT,
+    "roleClaim" TEXT,
+    "roleMappings" JSONB NOT NULL DEFAULT '[]',
+    "defaultRole" "UserRole" NOT NULL DEFAULT 'SPEAKER',
+    "allowedDomains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "jitProvisioning" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "identity_providers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "identity_providers_slug_key" ON "identity_providers"("slug");
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "user_sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "location" TEXT,
+    "sessionVersion" INTEGER NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_sessions_userId_revokedAt_idx" ON "user_sessions"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "user_sessions_userId_deviceId_idx" ON "user_sessions"("userId", "deviceId");
+
+-- CreateIndex
+CREATE INDEX "user_sessions_expiresAt_idx" ON "user_sessions"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the new sign-in alert for existing installs
+INSERT INTO "email_templates" ("id", "type", "name", "subject", "content", "variables", "description", "category", "enabled", "createdAt", "updatedAt")
+VALUES (
+    'tmpl_new_sign_in',
+    'new_sign_in',
+    'New Sign-In Alert',
+    'New sign-in to your {siteName} account',
+    '<h1>New Sign-In</h1>
+<p>Hi {userName},</p>
+<p>Your account was just signed in to from a device we haven''t seen before.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Device:</strong> {device}</p>
+  <p style="margin: 0 0 8px 0;"><strong>Location:</strong> {location}</p>
+  <p style="margin: 0;"><strong>Time:</strong> {signedInAt}</p>
+</div>
+<p>If this was you, there''s nothing to do. If not, sign that session out and change your password right away.</p>
+<p style="text-align: center;">
+  <a href="{sessionsUrl}" class="button">Review Sessions</a>
+</p>',
+    '{"userName": "User''s display name", "device": "Browser and operating system (e.g., \"Chrome on macOS\")", "location": "Approximate location and IP address, if known", "signedInAt": "When the sign-in happened (UTC)", "sessionsUrl": "Link to the account''s active sessions", "siteName": "Platform name"}',
+    'Sent when an account signs in from a browser or device it has not used before',
+    'authentication',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("type") DO NOTHING;
@@ -134,6 +134,35 @@ export const EMAIL_TEMPLATES: EmailTemplateSeed[] = [
       siteName: 'Platform name',
     },
   },
+  {
+    type: 'new_sign_in',
+    name: 'New Sign-In Alert',
+    category: 'authentication',
+    description: 'Sent when an account signs in from a browser or device it has not used before',
+    subject: 'New sign-in to your {siteName} account',
+    content: `
+<h1>New Sign-In</h1>
+<p>Hi {userName},</p>
+<p>Your account was just signed in to from a device we haven't seen before.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Device:</strong> {device}</p>
+  <p style="margin: 0 0 8px 0;"><strong>Location:</strong> {location}</p>
+  <p style="margin: 0;"><strong>Time:</strong> {signedInAt}</p>
+</div>
+<p>If this was you, there's nothing to do. If not, sign that session out and change your password right away.</p>
+<p style="text-align: center;">
+  <a href="{sessionsUrl}" class="button">Review Sessions</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'User\'s display name',
+      device: 'Browser and operating system (e.g., "Chrome on macOS")',
+      location: 'Approximate location and IP address, if known',
+      signedInAt: 'When the sign-in happened (UTC)',
+      sessionsUrl: 'Link to the account\'s active sessions',
+      siteName: 'Platform name',
+    },
+  },
 
   // ==========================================================================
   // SUBMISSION TEMPLATES
@@ -282,6 +311,65 @@ export const EMAIL_TEMPLATES: EmailTemplateSeed[] = [
       siteName: 'Platform name',
     },
   },
+  {
+    type: 'speaker_confirmation',
+    name: 'Speaker Confirmation Request',
+    category: 'submissions',
+    description: 'Sent to accepted speakers asking them to confirm or decline',
+    subject: 'Please confirm your talk at {eventName}',
+    content: `
+<h1>Please Confirm Your Talk</h1>
+<p>Hi {userName},</p>
+<p>Congratulations again on being accepted to <strong>{eventName}</strong>! To keep your spot in the program, please confirm that you will attend.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Talk:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Confirm by:</strong> {deadline}</p>
+</div>
+<p>You will be asked to agree to the code of conduct and recording release, and can tell us about any travel needs.</p>
+<p style="text-align: center;">
+  <a href="{confirmUrl}" class="button">Confirm or Decline</a>
+</p>
+<p>If we do not hear from you by the deadline, your slot may be offered to another speaker.</p>
+`.trim(),
+    variables: {
+      userName: 'Speaker\'s name',
+      eventName: 'Event name',
+      submissionTitle: 'Talk/paper title',
+      confirmUrl: 'Personal confirmation link',
+      deadline: 'Date the speaker must answer by',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'co_speaker_invitation',
+    name: 'Co-Speaker Invitation',
+    category: 'submissions',
+    description: 'Sent when a speaker adds a co-speaker to a submission',
+    subject: '{inviterName} added you as a co-speaker for {eventName}',
+    content: `
+<h1>You've Been Added as a Co-Speaker</h1>
+<p>Hi {userName},</p>
+<p><strong>{inviterName}</strong> added you as a co-speaker on a submission to <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Talk:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Respond by:</strong> {expiresAt}</p>
+</div>
+<p>Once you accept, you can edit the submission, manage its materials and take part in conversations with the organizers. If you don't have an account yet, you can create one from the invitation page.</p>
+<p style="text-align: center;">
+  <a href="{invitationUrl}" class="button">Accept or Decline</a>
+</p>
+<p>If you weren't expecting this, you can decline the invitation or ignore this email.</p>
+`.trim(),
+    variables: {
+      userName: 'Co-speaker\'s name',
+      inviterName: 'Name of the speaker who added them',
+      eventName: 'Event name',
+      submissionTitle: 'Talk/paper title',
+      invitationUrl: 'Personal invitation link',
+      expiresAt: 'Date the invitation expires',
+      siteName: 'Platform name',
+    },
+  },
 
   // ==========================================================================
   // COMMUNICATION TEMPLATES
@@ -380,6 +468,201 @@ export const EMAIL_TEMPLATES: EmailTemplateSeed[] = [
       siteName: 'Platform name',
     },
   },
+  {
+    type: 'new_submission',
+    name: 'New Submission',
+    category: 'communication',
+    description: 'Sent to an event\'s review team when a submission arrives, if the event notifies on new submissions',
+    subject: 'New submission for {eventName}: {submissionTitle}',
+    content: `
+<h1>New Submission</h1>
+<p>Hi {userName},</p>
+<p>A new submission has arrived for <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Submission:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Track:</strong> {trackName}</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Submission</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Recipient\'s name',
+      eventName: 'Event name',
+      submissionTitle: 'Talk/paper title',
+      trackName: 'Track, or "No track"',
+      submissionUrl: 'Link to the submission',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'new_review',
+    name: 'New Review',
+    category: 'communication',
+    description: 'Sent to an event\'s lead reviewers when a review is submitted, if the event notifies on new reviews',
+    subject: 'New review for: {submissionTitle}',
+    content: `
+<h1>New Review</h1>
+<p>Hi {userName},</p>
+<p>A review has been submitted for a submission to <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Submission:</strong> {submissionTitle}</p>
+  <p style="margin: 0;"><strong>Reviews so far:</strong> {reviewCount}</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Reviews</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Recipient\'s name',
+      eventName: 'Event name',
+      submissionTitle: 'Talk/paper title',
+      reviewCount: 'Number of reviews on the submission',
+      submissionUrl: 'Link to the submission',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'discussion_reply',
+    name: 'Review Discussion Reply',
+    category: 'communication',
+    description: 'Sent to reviewers taking part in a review discussion when someone adds a comment',
+    subject: 'New comment on a review of: {submissionTitle}',
+    content: `
+<h1>New Discussion Comment</h1>
+<p>Hi {userName},</p>
+<p>There is a new comment in a review discussion you are part of.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Event:</strong> {eventName}</p>
+  <p style="margin: 0;"><strong>Submission:</strong> {submissionTitle}</p>
+</div>
+<div style="background-color: #f9fafb; border-left: 4px solid #3b82f6; padding: 16px; margin: 16px 0;">
+  <p style="margin: 0; font-style: italic;">"{commentPreview}"</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Discussion</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Recipient\'s name',
+      eventName: 'Event name',
+      submissionTitle: 'Talk/paper title',
+      commentPreview: 'Preview of the comment',
+      submissionUrl: 'Link to the submission',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'discussion_mention',
+    name: 'Discussion Mention',
+    category: 'communication',
+    description: 'Sent to a review team member when someone @mentions them in a submission discussion',
+    subject: '{authorName} mentioned you on: {submissionTitle}',
+    content: `
+<h1>You Were Mentioned</h1>
+<p>Hi {userName},</p>
+<p>{authorName} mentioned you in the review team discussion of a submission.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Event:</strong> {eventName}</p>
+  <p style="margin: 0;"><strong>Submission:</strong> {submissionTitle}</p>
+</div>
+<div style="background-color: #f9fafb; border-left: 4px solid #3b82f6; padding: 16px; margin: 16px 0;">
+  <p style="margin: 0; font-style: italic;">"{commentPreview}"</p>
+</div>
+<p style="text-align: center;">
+  <a href="{submissionUrl}" class="button">View Discussion</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Recipient\'s name',
+      authorName: 'Who mentioned them (an alias under double-blind review)',
+      eventName: 'Event name',
+      submissionTitle: 'Talk/paper title',
+      commentPreview: 'Preview of the comment',
+      submissionUrl: 'Link to the submission',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'review_deadline_reminder',
+    name: 'Review Deadline Reminder',
+    category: 'communication',
+    description: 'Sent to a reviewer with unfinished assignments as the review deadline approaches or passes',
+    subject: 'Reviews due {timeRemaining}: {eventName}',
+    content: `
+<h1>Review Deadline Reminder</h1>
+<p>Hi {userName},</p>
+<p>You have <strong>{pendingCount}</strong> assigned submission(s) still waiting for your review for <strong>{eventName}</strong>.</p>
+<div class="info-box">
+  <p style="margin: 0 0 8px 0;"><strong>Review deadline:</strong> {deadline}</p>
+  <p style="margin: 0;"><strong>Due:</strong> {timeRemaining}</p>
+</div>
+<p style="text-align: center;">
+  <a href="{reviewUrl}" class="button">Continue Reviewing</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Reviewer\'s name',
+      eventName: 'Event name',
+      pendingCount: 'Number of unfinished assignments',
+      deadline: 'Review deadline, in the event timezone',
+      timeRemaining: 'When reviews are due (e.g., "in 3 days" or "2 days ago")',
+      reviewUrl: 'Link to the event\'s submissions',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'review_deadline_escalation',
+    name: 'Review Deadline Escalation',
+    category: 'communication',
+    description: 'Sent to lead reviewers when the review deadline has passed with unfinished assignments',
+    subject: 'Review deadline passed with {pendingCount} reviews outstanding: {eventName}',
+    content: `
+<h1>Reviews Outstanding</h1>
+<p>Hi {userName},</p>
+<p>The review deadline for <strong>{eventName}</strong> ({deadline}) has passed, and {reviewerCount} reviewer(s) still have {pendingCount} assigned review(s) to finish.</p>
+<div class="info-box">
+  {overdueReviewers:raw}
+</div>
+<p style="text-align: center;">
+  <a href="{progressUrl}" class="button">View Review Progress</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Lead reviewer\'s name',
+      eventName: 'Event name',
+      deadline: 'Review deadline, in the event timezone',
+      pendingCount: 'Unfinished assignments across the team',
+      reviewerCount: 'Reviewers with unfinished assignments',
+      overdueReviewers: 'HTML list of reviewers and what they have left',
+      progressUrl: 'Link to the event\'s review progress',
+      siteName: 'Platform name',
+    },
+  },
+  {
+    type: 'notification_digest',
+    name: 'Notification Digest',
+    category: 'communication',
+    description: 'Daily or weekly summary of the notifications a user chose to receive as a digest',
+    subject: 'Your {period} summary: {itemCount} updates',
+    content: `
+<h1>Your {period} summary</h1>
+<p>Hi {userName},</p>
+<p>Here is what happened since your last summary.</p>
+{digestItems:raw}
+<p style="text-align: center;">
+  <a href="{preferencesUrl}" class="button">Notification Settings</a>
+</p>
+`.trim(),
+    variables: {
+      userName: 'Recipient\'s name',
+      period: '"daily" or "weekly"',
+      itemCount: 'Number of updates',
+      digestItems: 'The updates, grouped by type (HTML)',
+      preferencesUrl: 'Link to notification settings',
+      siteName: 'Platform name',
+    },
+  },
 
   // ==========================================================================
   // ANNOUNCEMENT TEMPLATES
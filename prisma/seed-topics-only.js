@@ -359,6 +359,16 @@ const EMAIL_TEMPLATES = [
     content: '<h1>Review Started</h1><p>Hi {userName},</p><p>Your submission to <strong>{eventName}</strong> is now being reviewed by our team.</p><div class="info-box"><p><strong>Talk:</strong> {submissionTitle}</p></div><p>We\'ll notify you once a decision has been made.</p>',
     variables: { userName: "Speaker's name", eventName: 'Event name', submissionTitle: 'Talk title', submissionUrl: 'Link to submission', siteName: 'Platform name' },
   },
+  {
+    type: 'speaker_confirmation',
+    name: 'Speaker Confirmation Request',
+    category: 'submissions',
+    description: 'Sent to accepted speakers asking them to confirm or decline',
+    subject: 'Please confirm your talk at {eventName}',
+    content: '<h1>Please Confirm Your Talk</h1><p>Hi {userName},</p><p>Congratulations again on being accepted to <strong>{eventName}</strong>! To keep your spot in the program, please confirm that you will attend.</p><div class="info-box"><p style="margin: 0 0 8px 0;"><strong>Talk:</strong> {submissionTitle}</p><p style="margin: 0;"><strong>Confirm by:</strong> {deadline}</p></div><p>You will be asked to agree to the code of conduct and recording release, and can tell us about any travel needs.</p><p style="text-align: center;"><a href="{confirmUrl}" class="button">Confirm or Decline</a></p><p>If we do not hear from you by the deadline, your slot may be offered to another speaker.</p>',
+    variables: { userName: "Speaker's name", eventName: 'Event name', submissionTitle: 'Talk/paper title', confirmUrl: 'Personal confirmation link', deadline: 'Date the speaker must answer by', siteName: 'Platform name' },
+  },
+
   // Communication
   {
     type: 'new_message',
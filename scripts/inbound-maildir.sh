@@ -0,0 +1,109 @@
+#!/bin/bash
+# =============================================================================
+# CFP Directory Self-Hosted - Inbound Email Delivery Script
+# =============================================================================
+# Posts replies to message notifications to /api/inbound-email.
+#
+# Usage:
+#   ./inbound-maildir.sh <maildir>   Deliver every message in <maildir>/new
+#   ./inbound-maildir.sh -           Deliver one message from stdin (MTA pipe)
+#
+# Maildir mode suits a mailbox fetched over IMAP with fetchmail or getmail;
+# run it from cron every minute or two. Delivered messages move to cur/,
+# rejected ones to rejected/. Messages are retried while the app is down.
+#
+# Pipe mode suits a Postfix alias, e.g. in /etc/aliases:
+#   cfp-replies: "|/opt/cfp/scripts/inbound-maildir.sh -"
+# Exit code 75 (EX_TEMPFAIL) asks the MTA to retry later.
+#
+# Environment:
+#   APP_URL               Base URL of the app (default http://localhost:3000)
+#   INBOUND_EMAIL_SECRET  Must match the app's INBOUND_EMAIL_SECRET
+# =============================================================================
+
+set -e
+
+APP_URL="${APP_URL:-http://localhost:3000}"
+ENDPOINT="${APP_URL%/}/api/inbound-email"
+SOURCE="${1:-}"
+
+if [ -z "${INBOUND_EMAIL_SECRET}" ]; then
+    echo "❌ INBOUND_EMAIL_SECRET environment variable not set" >&2
+    exit 78
+fi
+
+if [ -z "${SOURCE}" ]; then
+    echo "Usage: $0 <maildir> | -" >&2
+    exit 64
+fi
+
+# Post one message file; prints the HTTP status code
+post_message() {
+    curl --silent --show-error --max-time 120 \
+        --output /dev/null --write-out '%{http_code}' \
+        --header "x-inbound-secret: ${INBOUND_EMAIL_SECRET}" \
+        --header "Content-Type: message/rfc822" \
+        --data-binary "@$1" \
+        "${ENDPOINT}" || echo "000"
+}
+
+# Pipe mode
+if [ "${SOURCE}" = "-" ]; then
+    TMP_FILE=$(mktemp)
+    trap 'rm -f "${TMP_FILE}"' EXIT
+    cat > "${TMP_FILE}"
+
+    STATUS=$(post_message "${TMP_FILE}")
+    case "${STATUS}" in
+        401) echo "Unauthorized - check INBOUND_EMAIL_SECRET" >&2; exit 75 ;;
+        2??) exit 0 ;;
+        4??) echo "Reply rejected by ${ENDPOINT} (HTTP ${STATUS})" >&2; exit 0 ;;
+        *) echo "Delivery to ${ENDPOINT} failed (HTTP ${STATUS})" >&2; exit 75 ;;
+    esac
+fi
+
+# Maildir mode
+if [ ! -d "${SOURCE}/new" ]; then
+    echo "❌ ${SOURCE} is not a maildir (missing new/)" >&2
+    exit 66
+fi
+
+mkdir -p "${SOURCE}/cur" "${SOURCE}/rejected"
+
+DELIVERED=0
+REJECTED=0
+FAILED=0
+
+for FILE in "${SOURCE}"/new/*; do
+    [ -f "${FILE}" ] || continue
+    NAME=$(basename "${FILE}")
+
+    STATUS=$(post_message "${FILE}")
+    case "${STATUS}" in
+        401)
+            echo "❌ Unauthorized - check INBOUND_EMAIL_SECRET" >&2
+            exit 77
+            ;;
+        2??)
+            mv "${FILE}" "${SOURCE}/cur/${NAME}:2,S"
+            DELIVERED=$((DELIVERED + 1))
+            ;;
+        4??)
+            mv "${FILE}" "${SOURCE}/rejected/${NAME}"
+            echo "Rejected ${NAME} (HTTP ${STATUS})" >&2
+            REJECTED=$((REJECTED + 1))
+            ;;
+        *)
+            # App unavailable - leave in new/ for the next run
+            FAILED=$((FAILED + 1))
+            ;;
+    esac
+done
+
+if [ $((DELIVERED + REJECTED + FAILED)) -gt 0 ]; then
+    echo "📬 Delivered ${DELIVERED}, rejected ${REJECTED}, will retry ${FAILED}"
+fi
+
+if [ "${FAILED}" -gt 0 ]; then
+    exit 75
+fi
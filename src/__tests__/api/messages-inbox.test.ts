@@ -215,7 +215,7 @@ describe('Messages Inbox API', () => {
     });
 
     describe('Speaker/User Role', () => {
-      it('should return only own submission messages for speaker', async () => {
+      it('should return own and co-presented submission messages for speaker', async () => {
         vi.mocked(getAuthenticatedUser).mockResolvedValue({ user: mockSpeakerUser as any });
         vi.mocked(isOrganizer).mockReturnValue(false);
         vi.mocked(isReviewerRole).mockReturnValue(false);
@@ -230,7 +230,16 @@ describe('Messages Inbox API', () => {
         expect(prisma.message.findMany).toHaveBeenCalledWith(
           expect.objectContaining({
             where: {
-              submission: { speakerId: 'speaker-123' },
+              submission: {
+                OR: [
+                  { speakerId: 'speaker-123' },
+                  {
+                    coSpeakers: {
+                      some: { linkedUserId: 'speaker-123', invitationStatus: 'ACCEPTED' },
+                    },
+                  },
+                ],
+              },
             },
           })
         );
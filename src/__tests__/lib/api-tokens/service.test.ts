@@ -0,0 +1,189 @@
+/**
+ * API Token Service Tests
+ *
+ * Creating tokens within the owner's role, authenticating them and
+ * revoking them.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    apiToken: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+vi.mock('next/headers', () => ({
+  headers: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  ApiTokenError,
+  authenticateApiToken,
+  createApiToken,
+  hashApiToken,
+  revokeApiToken,
+} from '@/lib/api-tokens/service';
+import { MAX_API_TOKENS_PER_USER } from '@/lib/api-tokens/state';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+function storedToken(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    scopes: ['submissions:read', 'events:manage'],
+    expiresAt: new Date('2026-07-01T12:00:00Z'),
+    revokedAt: null,
+    lastUsedAt: NOW,
+    user: {
+      id: 'user-1',
+      email: 'ada@example.com',
+      name: 'Ada',
+      image: null,
+      role: 'ORGANIZER',
+      erasedAt: null,
+    },
+    ...overrides,
+  };
+}
+
+describe('API Token Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.apiToken.count).mockResolvedValue(0);
+    vi.mocked(prisma.apiToken.create).mockImplementation((async ({ data }: { data: Record<string, unknown> }) => ({
+      id: 'token-1',
+      ...data,
+    })) as never);
+  });
+
+  describe('createApiToken', () => {
+    it('should store only the hash and return the token once', async () => {
+      const { token } = await createApiToken(
+        { id: 'user-1', role: 'ORGANIZER' },
+        { name: 'Website build', scopes: ['submissions:read'], expiresInDays: 30 },
+        null,
+        NOW
+      );
+
+      expect(token).toMatch(/^cfp_[A-Za-z0-9_-]{43}$/);
+      expect(prisma.apiToken.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          userId: 'user-1',
+          name: 'Website build',
+          tokenHash: hashApiToken(token),
+          tokenPrefix: token.slice(0, 12),
+          scopes: ['submissions:read'],
+          expiresAt: new Date('2026-07-01T12:00:00Z'),
+        },
+      }));
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({ action: 'API_TOKEN_CREATED' }));
+    });
+
+    it('should refuse scopes the role can\'t grant', async () => {
+      await expect(createApiToken(
+        { id: 'user-1', role: 'SPEAKER' },
+        { name: 'Sneaky', scopes: ['events:manage'], expiresInDays: 7 }
+      )).rejects.toThrow(ApiTokenError);
+      expect(prisma.apiToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should limit the number of active tokens', async () => {
+      vi.mocked(prisma.apiToken.count).mockResolvedValue(MAX_API_TOKENS_PER_USER);
+
+      await expect(createApiToken(
+        { id: 'user-1', role: 'ADMIN' },
+        { name: 'One too many', scopes: ['events:read'], expiresInDays: 7 }
+      )).rejects.toThrow('at most');
+    });
+  });
+
+  describe('authenticateApiToken', () => {
+    it('should return the owner and the scopes their role still allows', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValue(
+        storedToken({ user: { ...storedToken().user, role: 'REVIEWER' } }) as never
+      );
+
+      const principal = await authenticateApiToken('cfp_token', null, NOW);
+
+      expect(prisma.apiToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: hashApiToken('cfp_token') },
+      }));
+      expect(principal).toMatchObject({
+        tokenId: 'token-1',
+        scopes: ['submissions:read'],
+        user: { id: 'user-1', email: 'ada@example.com', role: 'REVIEWER' },
+      });
+    });
+
+    it('should reject unknown, revoked and expired tokens', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(null);
+      expect(await authenticateApiToken('cfp_token', null, NOW)).toBeNull();
+
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(storedToken({ revokedAt: NOW }) as never);
+      expect(await authenticateApiToken('cfp_token', null, NOW)).toBeNull();
+
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(storedToken({ expiresAt: NOW }) as never);
+      expect(await authenticateApiToken('cfp_token', null, NOW)).toBeNull();
+    });
+
+    it('should reject tokens of erased accounts', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValue(
+        storedToken({ user: { ...storedToken().user, erasedAt: NOW } }) as never
+      );
+
+      expect(await authenticateApiToken('cfp_token', null, NOW)).toBeNull();
+    });
+
+    it('should record use at most every few minutes', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(storedToken() as never);
+      await authenticateApiToken('cfp_token', '203.0.113.7', NOW);
+      expect(prisma.apiToken.update).not.toHaveBeenCalled();
+
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(storedToken({ lastUsedAt: null }) as never);
+      await authenticateApiToken('cfp_token', '203.0.113.7', NOW);
+      expect(prisma.apiToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { lastUsedAt: NOW, lastUsedIp: '203.0.113.7' },
+      });
+    });
+  });
+
+  describe('revokeApiToken', () => {
+    it('should revoke the user\'s own token', async () => {
+      vi.mocked(prisma.apiToken.findFirst).mockResolvedValue({ name: 'Website build' } as never);
+
+      expect(await revokeApiToken('user-1', 'token-1')).toBe(true);
+      expect(prisma.apiToken.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'token-1', userId: 'user-1', revokedAt: null },
+      }));
+      expect(prisma.apiToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'API_TOKEN_REVOKED',
+        metadata: { name: 'Website build' },
+      }));
+    });
+
+    it('should not revoke other users\' tokens', async () => {
+      vi.mocked(prisma.apiToken.findFirst).mockResolvedValue(null);
+
+      expect(await revokeApiToken('user-2', 'token-1')).toBe(false);
+      expect(prisma.apiToken.update).not.toHaveBeenCalled();
+    });
+  });
+});
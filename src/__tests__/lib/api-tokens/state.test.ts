@@ -0,0 +1,95 @@
+/**
+ * API Token State Tests
+ *
+ * Which scope each route needs, how scopes imply each other, what each
+ * role can grant and reading tokens from headers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  API_TOKEN_SCOPES,
+  ROLE_API_TOKEN_SCOPES,
+  getApiTokenFromHeader,
+  getEffectiveScopes,
+  getRequiredScope,
+  hasScope,
+} from '@/lib/api-tokens/state';
+
+describe('API Token State', () => {
+  describe('getRequiredScope', () => {
+    it('should need read scopes for reads and write scopes for changes', () => {
+      expect(getRequiredScope('/api/events', 'GET')).toBe('events:read');
+      expect(getRequiredScope('/api/events', 'POST')).toBe('events:manage');
+      expect(getRequiredScope('/api/events/evt1/tracks', 'HEAD')).toBe('events:read');
+    });
+
+    it('should match the most specific resource', () => {
+      expect(getRequiredScope('/api/events/evt1/submissions', 'GET')).toBe('submissions:read');
+      expect(getRequiredScope('/api/events/evt1/submissions/sub1', 'PATCH')).toBe('submissions:manage');
+      expect(getRequiredScope('/api/events/evt1/submissions/sub1/reviews', 'POST')).toBe('reviews:write');
+      expect(getRequiredScope('/api/events/evt1/submissions/sub1/discussions', 'GET')).toBe('reviews:read');
+      expect(getRequiredScope('/api/events/evt1/rankings', 'PUT')).toBe('reviews:write');
+      expect(getRequiredScope('/api/talks/talk1', 'DELETE')).toBe('profile:write');
+      expect(getRequiredScope('/api/admin/users', 'GET')).toBe('users:read');
+    });
+
+    it('should keep account security, settings and plugins out of reach', () => {
+      expect(getRequiredScope('/api/account/api-tokens', 'POST')).toBeNull();
+      expect(getRequiredScope('/api/account/sessions', 'GET')).toBeNull();
+      expect(getRequiredScope('/api/auth/change-password', 'POST')).toBeNull();
+      expect(getRequiredScope('/api/settings', 'PATCH')).toBeNull();
+      expect(getRequiredScope('/api/admin/plugins', 'GET')).toBeNull();
+      expect(getRequiredScope('/api/admin/users/user1/sessions', 'DELETE')).toBeNull();
+      expect(getRequiredScope('/api/admin/users/user1/two-factor', 'DELETE')).toBeNull();
+    });
+
+    it('should not match look-alike paths', () => {
+      expect(getRequiredScope('/api/eventsx', 'GET')).toBeNull();
+      expect(getRequiredScope('/api/admin/users-export', 'GET')).toBeNull();
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should let write scopes read', () => {
+      expect(hasScope(['events:manage'], 'events:read')).toBe(true);
+      expect(hasScope(['reviews:write'], 'reviews:read')).toBe(true);
+    });
+
+    it('should not let read scopes write or cross resources', () => {
+      expect(hasScope(['events:read'], 'events:manage')).toBe(false);
+      expect(hasScope(['events:manage'], 'submissions:read')).toBe(false);
+    });
+  });
+
+  describe('getEffectiveScopes', () => {
+    it('should drop scopes the owner\'s role no longer allows', () => {
+      expect(getEffectiveScopes(['events:manage', 'reviews:write'], 'REVIEWER')).toEqual(['reviews:write']);
+    });
+
+    it('should drop unknown scopes', () => {
+      expect(getEffectiveScopes(['events:read', 'everything'], 'ADMIN')).toEqual(['events:read']);
+    });
+  });
+
+  describe('ROLE_API_TOKEN_SCOPES', () => {
+    it('should give admins every scope and speakers no management scopes', () => {
+      expect(ROLE_API_TOKEN_SCOPES.ADMIN).toEqual(API_TOKEN_SCOPES);
+      expect(ROLE_API_TOKEN_SCOPES.ORGANIZER).not.toContain('users:manage');
+      expect(ROLE_API_TOKEN_SCOPES.SPEAKER).not.toContain('events:manage');
+      expect(ROLE_API_TOKEN_SCOPES.SPEAKER).not.toContain('reviews:read');
+    });
+  });
+
+  describe('getApiTokenFromHeader', () => {
+    it('should read API tokens from bearer headers', () => {
+      expect(getApiTokenFromHeader('Bearer cfp_abc123')).toBe('cfp_abc123');
+      expect(getApiTokenFromHeader('bearer cfp_abc123')).toBe('cfp_abc123');
+    });
+
+    it('should leave other credentials alone', () => {
+      expect(getApiTokenFromHeader('Bearer cron-secret')).toBeNull();
+      expect(getApiTokenFromHeader('Basic Y2ZwOnRlc3Q=')).toBeNull();
+      expect(getApiTokenFromHeader(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Auth Configuration Tests
+ *
+ * Single sign-on hands over a ticket instead of a password; users with
+ * two-factor authentication still have to enter their code.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const nextAuthConfig = vi.hoisted(() => ({
+  providers: [] as Array<{ id?: string; authorize: (credentials: Record<string, unknown>) => Promise<unknown> }>,
+}));
+
+vi.mock('next-auth', () => ({
+  default: vi.fn((config: typeof nextAuthConfig) => {
+    nextAuthConfig.providers = config.providers;
+    return { handlers: {}, auth: vi.fn(), signIn: vi.fn(), signOut: vi.fn() };
+  }),
+  CredentialsSignin: class CredentialsSignin extends Error {
+    code = 'credentials';
+  },
+}));
+
+vi.mock('next-auth/providers/credentials', () => ({
+  default: vi.fn((options: unknown) => options),
+}));
+
+vi.mock('@auth/prisma-adapter', () => ({
+  PrismaAdapter: vi.fn(),
+}));
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/security/encryption', () => ({
+  USER_PII_FIELDS: [],
+  decryptPiiFields: vi.fn((record: unknown) => record),
+}));
+
+vi.mock('@/lib/two-factor/service', () => ({
+  verifySecondFactor: vi.fn(),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(() => ({ allowed: true })),
+}));
+
+vi.mock('@/lib/sessions/service', () => ({
+  getSessionRequestContext: vi.fn(),
+  startUserSession: vi.fn(),
+  validateUserSession: vi.fn(),
+}));
+
+vi.mock('@/lib/api-tokens/service', () => ({
+  getApiTokenSession: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { verifySecondFactor } from '@/lib/two-factor/service';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { createLoginTicket } from '@/lib/sso/flow';
+import '@/lib/auth/auth';
+
+const user = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  image: null,
+  role: 'ADMIN',
+  sessionVersion: 0,
+  passwordHash: null,
+  twoFactorEnabledAt: null,
+};
+
+function authorizeSso(credentials: Record<string, unknown>) {
+  const provider = nextAuthConfig.providers.find(p => p.id === 'sso')!;
+  return provider.authorize(credentials);
+}
+
+describe('Auth Configuration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkRateLimit).mockReturnValue({ allowed: true } as never);
+  });
+
+  describe('sso provider', () => {
+    it('signs in a user without two-factor authentication', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user as never);
+
+      await expect(authorizeSso({ ticket: createLoginTicket('user-1') })).resolves.toMatchObject({ id: 'user-1' });
+    });
+
+    it('rejects an invalid ticket', async () => {
+      await expect(authorizeSso({ ticket: 'user-1.0.forged' })).resolves.toBeNull();
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('asks a user with two-factor authentication for a code', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...user, twoFactorEnabledAt: new Date() } as never);
+
+      await expect(authorizeSso({ ticket: createLoginTicket('user-1') })).rejects.toMatchObject({
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+      expect(verifySecondFactor).not.toHaveBeenCalled();
+    });
+
+    it('rejects a wrong code', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...user, twoFactorEnabledAt: new Date() } as never);
+      vi.mocked(verifySecondFactor).mockResolvedValue(false);
+
+      await expect(authorizeSso({ ticket: createLoginTicket('user-1'), code: '000000' })).rejects.toMatchObject({
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+    });
+
+    it('stops checking codes once the account is rate limited', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...user, twoFactorEnabledAt: new Date() } as never);
+      vi.mocked(checkRateLimit).mockReturnValue({ allowed: false } as never);
+
+      await expect(authorizeSso({ ticket: createLoginTicket('user-1'), code: '123456' })).rejects.toMatchObject({
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+      expect(verifySecondFactor).not.toHaveBeenCalled();
+    });
+
+    it('signs in once the code checks out', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...user, twoFactorEnabledAt: new Date() } as never);
+      vi.mocked(verifySecondFactor).mockResolvedValue(true);
+
+      await expect(authorizeSso({ ticket: createLoginTicket('user-1'), code: ' 123456 ' })).resolves.toMatchObject({
+        id: 'user-1',
+      });
+      expect(verifySecondFactor).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), '123456');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Bulk Operation State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  appendBulkError,
+  getBulkProgress,
+  getStatusEmailTemplate,
+  isBulkOperationActive,
+  isStaleBulkOperation,
+  MAX_STORED_BULK_ERRORS,
+  STALE_BULK_OPERATION_MS,
+} from '@/lib/bulk-operations/state';
+
+describe('Bulk Operation State', () => {
+  describe('getBulkProgress', () => {
+    it('should round progress down to a whole percentage', () => {
+      expect(getBulkProgress({ total: 3, processed: 0 })).toBe(0);
+      expect(getBulkProgress({ total: 3, processed: 2 })).toBe(66);
+      expect(getBulkProgress({ total: 3, processed: 3 })).toBe(100);
+    });
+
+    it('should treat an empty operation as done', () => {
+      expect(getBulkProgress({ total: 0, processed: 0 })).toBe(100);
+    });
+  });
+
+  describe('isBulkOperationActive', () => {
+    it('should be active until completed or failed', () => {
+      expect(isBulkOperationActive('PENDING')).toBe(true);
+      expect(isBulkOperationActive('RUNNING')).toBe(true);
+      expect(isBulkOperationActive('COMPLETED')).toBe(false);
+      expect(isBulkOperationActive('FAILED')).toBe(false);
+    });
+  });
+
+  describe('isStaleBulkOperation', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const longAgo = new Date(now.getTime() - STALE_BULK_OPERATION_MS - 1000);
+
+    it('should flag running operations that stopped updating', () => {
+      expect(isStaleBulkOperation({ status: 'RUNNING', updatedAt: longAgo }, now)).toBe(true);
+      expect(isStaleBulkOperation({ status: 'RUNNING', updatedAt: now }, now)).toBe(false);
+    });
+
+    it('should never flag operations that are not running', () => {
+      expect(isStaleBulkOperation({ status: 'PENDING', updatedAt: longAgo }, now)).toBe(false);
+      expect(isStaleBulkOperation({ status: 'COMPLETED', updatedAt: longAgo }, now)).toBe(false);
+    });
+  });
+
+  describe('getStatusEmailTemplate', () => {
+    it('should map decisions to their email templates', () => {
+      expect(getStatusEmailTemplate('REJECTED')).toBe('submission_rejected');
+      expect(getStatusEmailTemplate('WAITLISTED')).toBe('submission_waitlisted');
+      expect(getStatusEmailTemplate('UNDER_REVIEW')).toBe('submission_under_review');
+    });
+
+    it('should not email accepted speakers, who get the confirmation request', () => {
+      expect(getStatusEmailTemplate('ACCEPTED')).toBeNull();
+      expect(getStatusEmailTemplate('PENDING')).toBeNull();
+    });
+  });
+
+  describe('appendBulkError', () => {
+    it('should stop storing errors at the limit', () => {
+      let errors = Array.from({ length: MAX_STORED_BULK_ERRORS - 1 }, (_, i) => ({
+        submissionId: `sub-${i}`,
+        error: 'Failed',
+      }));
+      errors = appendBulkError(errors, { submissionId: 'last', error: 'Failed' });
+      expect(errors).toHaveLength(MAX_STORED_BULK_ERRORS);
+
+      errors = appendBulkError(errors, { submissionId: 'extra', error: 'Failed' });
+      expect(errors).toHaveLength(MAX_STORED_BULK_ERRORS);
+      expect(errors.some(e => e.submissionId === 'extra')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Co-Speaker Invitation State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeInvitationExpiry,
+  getCoSpeakerInvitationState,
+  canResendInvitation,
+  invitationEmailMatches,
+  speakerSubmissionWhere,
+} from '@/lib/co-speakers/state';
+
+describe('Co-Speaker Invitation State', () => {
+  describe('computeInvitationExpiry', () => {
+    it('should expire two weeks after sending', () => {
+      const expiresAt = computeInvitationExpiry(new Date('2026-10-01T08:30:00Z'));
+      expect(expiresAt.toISOString()).toBe('2026-10-15T08:30:00.000Z');
+    });
+  });
+
+  describe('getCoSpeakerInvitationState', () => {
+    const invitationExpiresAt = new Date('2026-10-15T08:30:00Z');
+    const now = new Date('2026-10-10T00:00:00Z');
+
+    it('should report pending invitations inside the expiry', () => {
+      expect(getCoSpeakerInvitationState({ invitationStatus: 'PENDING', invitationExpiresAt }, now))
+        .toBe('PENDING');
+    });
+
+    it('should report pending invitations past the expiry as expired', () => {
+      expect(getCoSpeakerInvitationState(
+        { invitationStatus: 'PENDING', invitationExpiresAt },
+        new Date('2026-10-16T00:00:00Z')
+      )).toBe('EXPIRED');
+    });
+
+    it('should keep answers after the expiry', () => {
+      const later = new Date('2026-11-01T00:00:00Z');
+      expect(getCoSpeakerInvitationState({ invitationStatus: 'ACCEPTED', invitationExpiresAt }, later))
+        .toBe('ACCEPTED');
+      expect(getCoSpeakerInvitationState({ invitationStatus: 'DECLINED', invitationExpiresAt }, later))
+        .toBe('DECLINED');
+    });
+
+    it('should be null for co-speakers who were never invited', () => {
+      expect(getCoSpeakerInvitationState({ invitationStatus: null, invitationExpiresAt: null }, now))
+        .toBeNull();
+    });
+  });
+
+  describe('canResendInvitation', () => {
+    it('should allow resending unanswered invitations only', () => {
+      expect(canResendInvitation('PENDING')).toBe(true);
+      expect(canResendInvitation('EXPIRED')).toBe(true);
+      expect(canResendInvitation('ACCEPTED')).toBe(false);
+      expect(canResendInvitation('DECLINED')).toBe(false);
+      expect(canResendInvitation(null)).toBe(false);
+    });
+  });
+
+  describe('invitationEmailMatches', () => {
+    it('should compare emails case-insensitively', () => {
+      expect(invitationEmailMatches('Ada@Example.com', 'ada@example.com')).toBe(true);
+      expect(invitationEmailMatches(' ada@example.com', 'ada@example.com ')).toBe(true);
+    });
+
+    it('should not match a different or missing email', () => {
+      expect(invitationEmailMatches('ada@example.com', 'grace@example.com')).toBe(false);
+      expect(invitationEmailMatches(null, 'ada@example.com')).toBe(false);
+    });
+  });
+
+  describe('speakerSubmissionWhere', () => {
+    it('should include own submissions and accepted co-speaker invitations', () => {
+      expect(speakerSubmissionWhere('user-1')).toEqual({
+        OR: [
+          { speakerId: 'user-1' },
+          { coSpeakers: { some: { linkedUserId: 'user-1', invitationStatus: 'ACCEPTED' } } },
+        ],
+      });
+    });
+  });
+});
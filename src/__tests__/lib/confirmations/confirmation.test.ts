@@ -0,0 +1,199 @@
+/**
+ * Speaker Confirmation Tests
+ *
+ * Declining withdraws the talk and accepts a waitlisted one in its place;
+ * both status changes reach plugins, webhooks and in-app notifications.
+ * Each confirmation is answered once, even when answers overlap.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    event: { findUnique: vi.fn() },
+    user: { findUnique: vi.fn() },
+    siteSettings: { findUnique: vi.fn() },
+    scheduleSlot: { updateMany: vi.fn() },
+    submission: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    speakerConfirmation: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+vi.mock('@/lib/email/email-service', () => ({
+  sendSpeakerConfirmationEmail: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@/lib/plugins', () => ({
+  dispatchHookAsync: vi.fn(),
+}));
+
+vi.mock('@/lib/notifications', () => ({
+  notifySubmissionStatusChange: vi.fn(),
+}));
+
+vi.mock('@/lib/reviews/rankings', () => ({
+  getEventRankingStandings: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { notifySubmissionStatusChange } from '@/lib/notifications';
+import { promoteFromWaitlist, respondToConfirmation } from '@/lib/confirmations/confirmation';
+
+const accepted = {
+  id: 'sub-1',
+  eventId: 'event-1',
+  trackId: 'track-1',
+  speakerId: 'speaker-1',
+  title: 'Scaling Postgres',
+  status: 'ACCEPTED',
+};
+
+const waitlisted = {
+  id: 'sub-2',
+  eventId: 'event-1',
+  trackId: 'track-1',
+  speakerId: 'speaker-2',
+  title: 'Zero Downtime Deploys',
+  status: 'WAITLISTED',
+  createdAt: new Date('2026-05-01T00:00:00Z'),
+  statusUpdatedAt: new Date('2026-05-10T00:00:00Z'),
+  reviews: [],
+};
+
+function statusChanges() {
+  return vi.mocked(dispatchHookAsync).mock.calls
+    .filter(([hook]) => hook === 'submission.statusChanged')
+    .map(([, payload]) => payload);
+}
+
+/** An event with one waitlisted submission that can be promoted */
+function mockWaitlist() {
+  vi.mocked(prisma.event.findUnique).mockResolvedValue({ reviewType: 'scoring' } as never);
+  vi.mocked(prisma.submission.findMany).mockResolvedValue([waitlisted] as never);
+  vi.mocked(prisma.submission.updateMany).mockResolvedValue({ count: 1 });
+  // requestSpeakerConfirmation loads the submission before the promotion returns it
+  vi.mocked(prisma.submission.findUnique).mockResolvedValueOnce(null);
+  vi.mocked(prisma.submission.findUnique).mockResolvedValueOnce({ ...waitlisted, status: 'ACCEPTED' } as never);
+}
+
+describe('Speaker Confirmations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('promoteFromWaitlist', () => {
+    it('reports the automatic acceptance as a status change', async () => {
+      mockWaitlist();
+
+      const promoted = await promoteFromWaitlist(accepted);
+
+      expect(promoted?.id).toBe('sub-2');
+      expect(statusChanges()).toEqual([
+        expect.objectContaining({
+          submission: expect.objectContaining({ id: 'sub-2' }),
+          oldStatus: 'WAITLISTED',
+          newStatus: 'ACCEPTED',
+          changedBy: null,
+        }),
+      ]);
+      expect(notifySubmissionStatusChange).toHaveBeenCalledWith('sub-2');
+    });
+
+    it('changes nothing when the waitlist is empty', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue({ reviewType: 'scoring' } as never);
+      vi.mocked(prisma.submission.findMany).mockResolvedValue([]);
+
+      await expect(promoteFromWaitlist(accepted)).resolves.toBeNull();
+      expect(statusChanges()).toEqual([]);
+      expect(notifySubmissionStatusChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('respondToConfirmation', () => {
+    const pending = {
+      id: 'confirmation-1',
+      tokenHash: 'hash',
+      status: 'PENDING',
+      deadline: new Date(Date.now() + 86400000),
+      submission: accepted,
+    };
+
+    beforeEach(() => {
+      vi.mocked(prisma.speakerConfirmation.findUnique).mockResolvedValue(pending as never);
+      vi.mocked(prisma.speakerConfirmation.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.submission.update).mockResolvedValue({ ...accepted, status: 'WITHDRAWN' } as never);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'speaker-1', role: 'SPEAKER', name: 'Ada' } as never);
+    });
+
+    it('reports the withdrawal and the promotion when the speaker declines', async () => {
+      mockWaitlist();
+
+      const result = await respondToConfirmation('token', { action: 'decline', reason: 'Visa' } as never);
+
+      expect(result).toMatchObject({ error: null, status: 'DECLINED' });
+      expect(prisma.speakerConfirmation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'confirmation-1', tokenHash: 'hash', status: 'PENDING', deadline: { gte: expect.any(Date) } },
+        data: expect.objectContaining({ status: 'DECLINED', declineReason: 'Visa' }),
+      });
+      expect(statusChanges()).toEqual([
+        expect.objectContaining({
+          submission: expect.objectContaining({ id: 'sub-1', status: 'WITHDRAWN' }),
+          oldStatus: 'ACCEPTED',
+          newStatus: 'WITHDRAWN',
+          changedBy: { id: 'speaker-1', role: 'SPEAKER', name: 'Ada' },
+        }),
+        expect.objectContaining({ oldStatus: 'WAITLISTED', newStatus: 'ACCEPTED' }),
+      ]);
+      expect(notifySubmissionStatusChange).toHaveBeenCalledWith('sub-1');
+      expect(notifySubmissionStatusChange).toHaveBeenCalledWith('sub-2');
+    });
+
+    it('promotes one talk when two declines arrive at once', async () => {
+      mockWaitlist();
+      // Only the first answer claims the pending row
+      vi.mocked(prisma.speakerConfirmation.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const results = await Promise.all([
+        respondToConfirmation('token', { action: 'decline' } as never),
+        respondToConfirmation('token', { action: 'decline' } as never),
+      ]);
+
+      expect(results.filter(result => result.error === null)).toHaveLength(1);
+      expect(results).toContainEqual({ error: 'This confirmation has already been answered' });
+      expect(prisma.submission.update).toHaveBeenCalledTimes(1);
+      expect(prisma.submission.updateMany).toHaveBeenCalledTimes(1);
+      expect(statusChanges().filter(change => (change as { newStatus: string }).newStatus === 'ACCEPTED')).toHaveLength(1);
+    });
+
+    it('does not confirm a confirmation the expiry task got to first', async () => {
+      vi.mocked(prisma.speakerConfirmation.updateMany).mockResolvedValue({ count: 0 });
+
+      const result = await respondToConfirmation('token', {
+        action: 'confirm',
+        agreedToCodeOfConduct: true,
+        agreedToRecording: true,
+      } as never);
+
+      expect(result).toEqual({ error: 'This confirmation has already been answered' });
+      expect(dispatchHookAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Speaker Confirmation State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeConfirmationDeadline,
+  getConfirmationState,
+  pickWaitlistPromotion,
+  type WaitlistCandidate,
+} from '@/lib/confirmations/state';
+import { aggregateSubmission } from '@/lib/reviews/review-modes';
+
+function candidate(id: string, scores: number[], waitlistedAt: string): WaitlistCandidate {
+  return {
+    id,
+    aggregate: aggregateSubmission('scoring', {
+      reviews: scores.map(overallScore => ({ overallScore })),
+    }),
+    waitlistedAt: new Date(waitlistedAt),
+  };
+}
+
+describe('Speaker Confirmation State', () => {
+  describe('computeConfirmationDeadline', () => {
+    it('should end on the last day of the window (UTC)', () => {
+      const deadline = computeConfirmationDeadline(new Date('2026-10-01T08:30:00Z'), 14);
+      expect(deadline.toISOString()).toBe('2026-10-15T23:59:59.999Z');
+    });
+
+    it('should give at least one day', () => {
+      const deadline = computeConfirmationDeadline(new Date('2026-10-01T08:30:00Z'), 0);
+      expect(deadline.toISOString()).toBe('2026-10-02T23:59:59.999Z');
+    });
+  });
+
+  describe('getConfirmationState', () => {
+    const deadline = new Date('2026-10-15T23:59:59Z');
+
+    it('should report pending answers inside the deadline', () => {
+      expect(getConfirmationState({ status: 'PENDING', deadline }, new Date('2026-10-10T00:00:00Z'))).toBe('PENDING');
+    });
+
+    it('should report pending answers past the deadline as overdue', () => {
+      expect(getConfirmationState({ status: 'PENDING', deadline }, new Date('2026-10-16T00:00:00Z'))).toBe('OVERDUE');
+    });
+
+    it('should keep answered confirmations as they are', () => {
+      const late = new Date('2026-11-01T00:00:00Z');
+      expect(getConfirmationState({ status: 'CONFIRMED', deadline }, late)).toBe('CONFIRMED');
+      expect(getConfirmationState({ status: 'DECLINED', deadline }, late)).toBe('DECLINED');
+      expect(getConfirmationState({ status: 'EXPIRED', deadline }, late)).toBe('EXPIRED');
+    });
+  });
+
+  describe('pickWaitlistPromotion', () => {
+    it('should return null for an empty waitlist', () => {
+      expect(pickWaitlistPromotion([])).toBeNull();
+    });
+
+    it('should pick the best reviewed submission', () => {
+      expect(pickWaitlistPromotion([
+        candidate('a', [3, 3], '2026-09-01T00:00:00Z'),
+        candidate('b', [5, 4], '2026-09-05T00:00:00Z'),
+        candidate('c', [4], '2026-09-02T00:00:00Z'),
+      ])).toBe('b');
+    });
+
+    it('should break ties by time on the waitlist', () => {
+      expect(pickWaitlistPromotion([
+        candidate('late', [4], '2026-09-05T00:00:00Z'),
+        candidate('early', [4], '2026-09-01T00:00:00Z'),
+      ])).toBe('early');
+    });
+
+    it('should rank unreviewed submissions last', () => {
+      expect(pickWaitlistPromotion([
+        candidate('unreviewed', [], '2026-08-01T00:00:00Z'),
+        candidate('reviewed', [2], '2026-09-01T00:00:00Z'),
+      ])).toBe('reviewed');
+    });
+  });
+});
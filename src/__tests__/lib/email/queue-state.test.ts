@@ -0,0 +1,103 @@
+/**
+ * Outbound Email Queue State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_EMAIL_ATTEMPTS,
+  EMAIL_RETRY_DELAYS_MS,
+  EMAIL_RATE_LIMIT_PER_RECIPIENT,
+  EMAIL_RATE_LIMIT_WINDOW_MS,
+  getNextEmailAttemptAt,
+  getRecipientRateLimitedUntil,
+  normalizeEmailRecipients,
+  canResendEmail,
+  canCancelEmail,
+} from '@/lib/email/queue-state';
+
+describe('Outbound Email Queue State', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  describe('getNextEmailAttemptAt', () => {
+    it('should back off further after each failed attempt', () => {
+      const delays = [1, 2, 3, 4].map(attempts =>
+        getNextEmailAttemptAt(attempts, now)!.getTime() - now.getTime()
+      );
+
+      expect(delays).toEqual([...EMAIL_RETRY_DELAYS_MS]);
+    });
+
+    it('should give up after the last attempt', () => {
+      expect(getNextEmailAttemptAt(MAX_EMAIL_ATTEMPTS, now)).toBeNull();
+      expect(getNextEmailAttemptAt(MAX_EMAIL_ATTEMPTS + 1, now)).toBeNull();
+    });
+
+    it('should have a delay for every retry', () => {
+      expect(EMAIL_RETRY_DELAYS_MS).toHaveLength(MAX_EMAIL_ATTEMPTS - 1);
+    });
+  });
+
+  describe('getRecipientRateLimitedUntil', () => {
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+    it('should allow recipients under the limit', () => {
+      const sentAt = Array.from({ length: EMAIL_RATE_LIMIT_PER_RECIPIENT - 1 }, (_, i) => minutesAgo(i));
+
+      expect(getRecipientRateLimitedUntil(sentAt, now)).toBeNull();
+    });
+
+    it('should ignore sends outside the window', () => {
+      const sentAt = Array.from({ length: EMAIL_RATE_LIMIT_PER_RECIPIENT }, (_, i) => minutesAgo(61 + i));
+
+      expect(getRecipientRateLimitedUntil(sentAt, now)).toBeNull();
+    });
+
+    it('should defer until the oldest counted send leaves the window', () => {
+      const sentAt = Array.from({ length: EMAIL_RATE_LIMIT_PER_RECIPIENT }, (_, i) => minutesAgo(i + 1));
+      const oldest = minutesAgo(EMAIL_RATE_LIMIT_PER_RECIPIENT);
+
+      expect(getRecipientRateLimitedUntil(sentAt, now)?.getTime())
+        .toBe(oldest.getTime() + EMAIL_RATE_LIMIT_WINDOW_MS);
+    });
+
+    it('should only count the most recent sends when over the limit', () => {
+      const sentAt = Array.from({ length: EMAIL_RATE_LIMIT_PER_RECIPIENT + 5 }, (_, i) => minutesAgo(i + 1));
+      const limitedUntil = getRecipientRateLimitedUntil(sentAt, now)!;
+
+      expect(limitedUntil.getTime())
+        .toBe(minutesAgo(EMAIL_RATE_LIMIT_PER_RECIPIENT).getTime() + EMAIL_RATE_LIMIT_WINDOW_MS);
+    });
+  });
+
+  describe('normalizeEmailRecipients', () => {
+    it('should accept a single address or a list', () => {
+      expect(normalizeEmailRecipients('a@example.com')).toEqual(['a@example.com']);
+      expect(normalizeEmailRecipients(['a@example.com', 'b@example.com'])).toEqual(['a@example.com', 'b@example.com']);
+    });
+
+    it('should split comma-separated lists and trim addresses', () => {
+      expect(normalizeEmailRecipients(' a@example.com, b@example.com ,')).toEqual(['a@example.com', 'b@example.com']);
+    });
+
+    it('should drop duplicates case-insensitively, keeping the first spelling', () => {
+      expect(normalizeEmailRecipients(['Ada@Example.com', 'ada@example.com'])).toEqual(['Ada@Example.com']);
+    });
+  });
+
+  describe('canResendEmail / canCancelEmail', () => {
+    it('should resend finished emails only', () => {
+      expect(canResendEmail('SENT')).toBe(true);
+      expect(canResendEmail('FAILED')).toBe(true);
+      expect(canResendEmail('CANCELLED')).toBe(true);
+      expect(canResendEmail('QUEUED')).toBe(false);
+      expect(canResendEmail('SENDING')).toBe(false);
+    });
+
+    it('should cancel queued emails only', () => {
+      expect(canCancelEmail('QUEUED')).toBe(true);
+      expect(canCancelEmail('SENDING')).toBe(false);
+      expect(canCancelEmail('SENT')).toBe(false);
+      expect(canCancelEmail('FAILED')).toBe(false);
+    });
+  });
+});
@@ -13,6 +13,14 @@ import {
   decryptPiiFields,
   secureCompare,
   generateSecureToken,
+  getKeyId,
+  getPrimaryKey,
+  getRetiredKeys,
+  getEncryptionKeyId,
+  needsReEncryption,
+  rotateEncryptedString,
+  reEncrypt,
+  LEGACY_KEY_ID,
   FEDERATED_SPEAKER_PII_FIELDS,
   USER_PII_FIELDS,
   SPEAKER_PROFILE_PII_FIELDS,
@@ -115,7 +123,7 @@ describe('Encryption Module', () => {
       const decrypted = decryptString(encoded);
       
       expect(decrypted).toBe(plaintext);
-      expect(encoded.startsWith('enc:v1:')).toBe(true);
+      expect(encoded.startsWith('enc:v2:')).toBe(true);
     });
 
     it('should return empty string as-is', () => {
@@ -158,7 +166,7 @@ describe('Encryption Module', () => {
       expect(isEncrypted('plain text')).toBe(false);
       expect(isEncrypted('')).toBe(false);
       expect(isEncrypted('enc:')).toBe(false);
-      expect(isEncrypted('enc:v2:')).toBe(false);
+      expect(isEncrypted('enc:v9:')).toBe(false);
     });
 
     it('should handle null/undefined', () => {
@@ -417,6 +425,88 @@ describe('Encryption Module', () => {
     });
   });
 
+  describe('Key rotation', () => {
+    const oldKey = 'old-encryption-key-that-is-at-least-32-characters';
+    const newKey = 'new-encryption-key-that-is-at-least-32-characters';
+
+    function legacyEncrypt(plaintext: string): string {
+      const { salt, iv, authTag, ciphertext } = encrypt(plaintext);
+      return `enc:v1:${salt}:${iv}:${authTag}:${ciphertext}`;
+    }
+
+    it('should record the primary key ID in new ciphertexts', () => {
+      vi.stubEnv('ENCRYPTION_KEY', newKey);
+
+      const encrypted = encryptString('secret');
+      expect(getEncryptionKeyId(encrypted)).toBe(getKeyId(newKey));
+      expect(getPrimaryKey().id).toBe(getKeyId(newKey));
+      expect(needsReEncryption(encrypted)).toBe(false);
+    });
+
+    it('should decrypt values on a retired key', () => {
+      vi.stubEnv('ENCRYPTION_KEY', oldKey);
+      const encrypted = encryptString('secret');
+
+      vi.stubEnv('ENCRYPTION_KEY', newKey);
+      vi.stubEnv('ENCRYPTION_RETIRED_KEYS', `short, ${oldKey}, ${newKey}`);
+
+      expect(getRetiredKeys().map(key => key.id)).toEqual([getKeyId(oldKey)]);
+      expect(decryptString(encrypted)).toBe('secret');
+      expect(needsReEncryption(encrypted)).toBe(true);
+    });
+
+    it('should name the missing key when it is not configured', () => {
+      vi.stubEnv('ENCRYPTION_KEY', oldKey);
+      const encrypted = encryptString('secret');
+
+      vi.stubEnv('ENCRYPTION_KEY', newKey);
+      expect(() => decryptString(encrypted)).toThrow(getKeyId(oldKey));
+    });
+
+    it('should try every key for legacy values', () => {
+      vi.stubEnv('ENCRYPTION_KEY', oldKey);
+      const legacy = legacyEncrypt('legacy secret');
+
+      vi.stubEnv('ENCRYPTION_KEY', newKey);
+      vi.stubEnv('ENCRYPTION_RETIRED_KEYS', oldKey);
+
+      expect(getEncryptionKeyId(legacy)).toBe(LEGACY_KEY_ID);
+      expect(needsReEncryption(legacy)).toBe(true);
+      expect(decryptString(legacy)).toBe('legacy secret');
+    });
+
+    it('should move values onto the primary key', () => {
+      vi.stubEnv('ENCRYPTION_KEY', oldKey);
+      const encrypted = encryptString('secret');
+      const legacy = legacyEncrypt('legacy secret');
+
+      vi.stubEnv('ENCRYPTION_KEY', newKey);
+      vi.stubEnv('ENCRYPTION_RETIRED_KEYS', oldKey);
+
+      const rotated = rotateEncryptedString(encrypted);
+      expect(getEncryptionKeyId(rotated)).toBe(getKeyId(newKey));
+      expect(getEncryptionKeyId(rotateEncryptedString(legacy))).toBe(getKeyId(newKey));
+      expect(rotateEncryptedString(rotated)).toBe(rotated);
+      expect(rotateEncryptedString('plain text')).toBe('plain text');
+
+      // Once rotated, the old key is no longer needed
+      vi.stubEnv('ENCRYPTION_RETIRED_KEYS', '');
+      expect(decryptString(rotated)).toBe('secret');
+    });
+
+    it('should re-encrypt with explicit secrets', () => {
+      vi.stubEnv('ENCRYPTION_KEY', oldKey);
+      const encrypted = encryptString('secret');
+
+      const rotated = reEncrypt(encrypted, oldKey, newKey);
+      expect(getEncryptionKeyId(rotated)).toBe(getKeyId(newKey));
+      expect(() => reEncrypt(encrypted, newKey, oldKey)).toThrow();
+
+      vi.stubEnv('ENCRYPTION_KEY', newKey);
+      expect(decryptString(rotated)).toBe('secret');
+    });
+  });
+
   describe('Real-world federated speaker data', () => {
     it('should encrypt and decrypt a full speaker profile', () => {
       const speakerData = {
@@ -0,0 +1,94 @@
+/**
+ * Spreadsheet Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import AdmZip from 'adm-zip';
+import {
+  buildCsv,
+  buildXlsx,
+  columnLetter,
+  neutralizeFormula,
+  type SpreadsheetColumn,
+} from '@/lib/exports/spreadsheet';
+
+type Key = 'name' | 'score';
+
+const columns: SpreadsheetColumn<Key>[] = [
+  { key: 'name', header: 'Name' },
+  { key: 'score', header: 'Score' },
+];
+
+describe('Spreadsheet Writers', () => {
+  describe('neutralizeFormula', () => {
+    it('should prefix values that start like a formula', () => {
+      expect(neutralizeFormula('=HYPERLINK("x")')).toBe('\'=HYPERLINK("x")');
+      expect(neutralizeFormula('+1')).toBe("'+1");
+      expect(neutralizeFormula('-2')).toBe("'-2");
+      expect(neutralizeFormula('@SUM(A1)')).toBe("'@SUM(A1)");
+    });
+
+    it('should leave ordinary text alone', () => {
+      expect(neutralizeFormula('Kubernetes at scale')).toBe('Kubernetes at scale');
+    });
+  });
+
+  describe('columnLetter', () => {
+    it('should convert indexes to spreadsheet column letters', () => {
+      expect(columnLetter(0)).toBe('A');
+      expect(columnLetter(25)).toBe('Z');
+      expect(columnLetter(26)).toBe('AA');
+      expect(columnLetter(701)).toBe('ZZ');
+      expect(columnLetter(702)).toBe('AAA');
+    });
+  });
+
+  describe('buildCsv', () => {
+    it('should write a BOM, header and CRLF rows', () => {
+      const csv = buildCsv(columns, [{ name: 'Ada', score: 4.5 }]);
+      expect(csv).toBe('\uFEFFName,Score\r\nAda,4.5\r\n');
+    });
+
+    it('should quote fields with commas, quotes and newlines', () => {
+      const csv = buildCsv(columns, [{ name: 'Smith, "Jo"\nJr', score: null }]);
+      expect(csv).toContain('"Smith, ""Jo""\nJr",');
+    });
+
+    it('should neutralize formulas in text cells but not numbers', () => {
+      const csv = buildCsv(columns, [{ name: '=1+1', score: -3 }]);
+      expect(csv).toContain("'=1+1,-3");
+    });
+  });
+
+  describe('buildXlsx', () => {
+    it('should produce a workbook with inline strings and numbers', () => {
+      const buffer = buildXlsx(columns, [
+        { name: 'Ada & <Grace>', score: 4 },
+        { name: null, score: null },
+      ], 'Submissions');
+
+      const zip = new AdmZip(buffer);
+      const names = zip.getEntries().map(entry => entry.entryName);
+      expect(names).toEqual(expect.arrayContaining([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/styles.xml',
+        'xl/worksheets/sheet1.xml',
+      ]));
+
+      const sheet = zip.readAsText('xl/worksheets/sheet1.xml');
+      expect(sheet).toContain('<dimension ref="A1:B3"/>');
+      expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+      expect(sheet).toContain('Ada &amp; &lt;Grace&gt;');
+      expect(sheet).toContain('<c r="B2"><v>4</v></c>');
+      expect(sheet).toContain('<row r="3"></row>');
+      expect(zip.readAsText('xl/workbook.xml')).toContain('name="Submissions"');
+    });
+
+    it('should strip characters that are invalid in XML', () => {
+      const zip = new AdmZip(buildXlsx(columns, [{ name: 'a\u0001b', score: 1 }]));
+      expect(zip.readAsText('xl/worksheets/sheet1.xml')).toContain('>ab<');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Submission Export Column Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  flattenSubmissionRecord,
+  getSubmissionExportColumns,
+  type SubmissionExportRecord,
+} from '@/lib/exports/submission-columns';
+
+function record(overrides: Partial<SubmissionExportRecord> = {}): SubmissionExportRecord {
+  return {
+    id: 'sub-1',
+    title: 'Scaling Postgres',
+    status: 'ACCEPTED',
+    track: 'Databases',
+    format: 'Talk',
+    submittedAt: '2026-09-01T10:00:00.000Z',
+    updatedAt: '2026-09-02T10:00:00.000Z',
+    abstract: 'How we sharded.',
+    outline: null,
+    targetAudience: null,
+    prerequisites: null,
+    customFields: [],
+    reviews: {
+      count: 3,
+      averageScore: 4.333333,
+      result: '4.3',
+      detail: '3 reviews',
+      recommendations: { ACCEPT: 2, NEUTRAL: 1 },
+    },
+    materials: [
+      { type: 'slides', title: 'Slides', url: 'https://example.com/slides.pdf' },
+      { type: 'other', title: 'Notes', url: null },
+    ],
+    ...overrides,
+  };
+}
+
+describe('Submission Export Columns', () => {
+  describe('getSubmissionExportColumns', () => {
+    const keys = (access: 'full' | 'names' | 'none') =>
+      getSubmissionExportColumns(access).map(column => column.key);
+
+    it('should include contact details only for full access', () => {
+      expect(keys('full')).toEqual(expect.arrayContaining(['speakerName', 'speakerEmail', 'speakerBio', 'coSpeakers']));
+      expect(keys('names')).toEqual(expect.arrayContaining(['speakerName', 'speakerCompany', 'coSpeakers']));
+      expect(keys('names')).not.toContain('speakerEmail');
+      expect(keys('names')).not.toContain('speakerLocation');
+    });
+
+    it('should leave out all speaker columns without access', () => {
+      expect(keys('none').some(key => key.startsWith('speaker') || key === 'coSpeakers')).toBe(false);
+      expect(keys('none')).toEqual(expect.arrayContaining(['title', 'averageScore', 'recommendations', 'materials']));
+    });
+
+    it('should append a column per submission field', () => {
+      const columns = getSubmissionExportColumns('none', [
+        { id: 'f1', label: 'Given before?' },
+        { id: 'f2', label: 'Languages' },
+      ]);
+
+      expect(columns.slice(-2)).toEqual([
+        { key: 'field:f1', header: 'Given before?' },
+        { key: 'field:f2', header: 'Languages' },
+      ]);
+    });
+
+    it('should add calibration columns only when asked for', () => {
+      const calibrated = getSubmissionExportColumns('none', [], { calibration: true }).map(column => column.key);
+
+      expect(keys('none')).not.toContain('normalizedScore');
+      expect(calibrated).toEqual(expect.arrayContaining(['normalizedScore', 'scoreSpread', 'highDisagreement']));
+      expect(calibrated.indexOf('normalizedScore')).toBeGreaterThan(calibrated.indexOf('recommendations'));
+    });
+  });
+
+  describe('flattenSubmissionRecord', () => {
+    it('should join lists and round scores', () => {
+      const row = flattenSubmissionRecord(record({
+        speaker: { name: 'Ada', company: 'Acme', position: null, email: 'ada@example.com', expertiseTags: ['sql', 'go'] },
+        coSpeakers: [{ name: 'Grace', email: 'grace@example.com' }, { name: 'Linus' }],
+      }));
+
+      expect(row.averageScore).toBe(4.33);
+      expect(row.recommendations).toBe('ACCEPT: 2; NEUTRAL: 1');
+      expect(row.materials).toBe('Slides (https://example.com/slides.pdf); Notes');
+      expect(row.coSpeakers).toBe('Grace <grace@example.com>; Linus');
+      expect(row.speakerExpertise).toBe('sql; go');
+      expect(row.speakerEmail).toBe('ada@example.com');
+    });
+
+    it('should put field answers in their own cells', () => {
+      const row = flattenSubmissionRecord(record({
+        customFields: [
+          { fieldId: 'f1', label: 'Given before?', value: 'Yes' },
+          { fieldId: 'f2', label: 'Languages', value: '' },
+        ],
+      }));
+
+      expect(row['field:f1']).toBe('Yes');
+      expect(row['field:f2']).toBeNull();
+    });
+
+    it('should leave speaker cells empty when speaker data is withheld', () => {
+      const row = flattenSubmissionRecord(record({
+        reviews: { count: 0, averageScore: null, result: '-', detail: 'No reviews', recommendations: {} },
+        materials: [],
+      }));
+
+      expect(row.speakerName).toBeNull();
+      expect(row.coSpeakers).toBeNull();
+      expect(row.averageScore).toBeNull();
+      expect(row.recommendations).toBeNull();
+      expect(row.materials).toBeNull();
+      expect(row.normalizedScore).toBeNull();
+      expect(row.highDisagreement).toBeNull();
+    });
+
+    it('should round calibration and flag disagreement', () => {
+      const row = flattenSubmissionRecord(record({
+        reviews: {
+          count: 2,
+          averageScore: 3.5,
+          result: '3.5',
+          detail: '2 reviews',
+          recommendations: {},
+          calibration: { normalizedScore: -0.4567, spread: 1.5, highDisagreement: true },
+        },
+      }));
+
+      expect(row.normalizedScore).toBe(-0.46);
+      expect(row.scoreSpread).toBe(1.5);
+      expect(row.highDisagreement).toBe('Yes');
+    });
+  });
+});
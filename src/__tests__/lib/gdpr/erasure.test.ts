@@ -0,0 +1,113 @@
+/**
+ * Account Erasure Tests
+ *
+ * What eraseUserData deletes and what it keeps on the anonymized user row.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    user: { findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    submission: { findMany: vi.fn(), deleteMany: vi.fn() },
+    submissionMaterial: { findMany: vi.fn() },
+    federatedSpeaker: { findMany: vi.fn(), deleteMany: vi.fn() },
+    talk: { deleteMany: vi.fn() },
+    speakerProfile: { deleteMany: vi.fn() },
+    reviewerProfile: { deleteMany: vi.fn() },
+    account: { deleteMany: vi.fn() },
+    session: { deleteMany: vi.fn() },
+    userSession: { deleteMany: vi.fn() },
+    apiToken: { deleteMany: vi.fn() },
+    reviewTeamMember: { deleteMany: vi.fn() },
+    reviewAssignment: { deleteMany: vi.fn() },
+    reviewConflict: { deleteMany: vi.fn() },
+    userInvitation: { deleteMany: vi.fn() },
+    notificationPreference: { deleteMany: vi.fn() },
+    notificationDigestItem: { deleteMany: vi.fn() },
+    notification: { deleteMany: vi.fn() },
+    activityLog: { updateMany: vi.fn() },
+    submissionBulkOperation: { updateMany: vi.fn() },
+    coSpeaker: { updateMany: vi.fn() },
+    outboundEmail: { deleteMany: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+vi.mock('@/lib/storage', () => ({
+  getStorage: vi.fn(() => ({ delete: vi.fn() })),
+  StoragePaths: { fromUrl: vi.fn(() => null) },
+}));
+
+vi.mock('@/lib/federation/webhook-sender', () => ({
+  sendConsentRevokedWebhook: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { eraseUserData } from '@/lib/gdpr/erasure';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+describe('Account Erasure', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.user.findUniqueOrThrow).mockResolvedValue({
+      email: 'ada@example.com',
+      image: null,
+      speakerProfile: null,
+      reviewerProfile: null,
+    } as never);
+    vi.mocked(prisma.submission.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.submissionMaterial.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.federatedSpeaker.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.submission.deleteMany).mockResolvedValue({ count: 2 });
+    vi.mocked(prisma.talk.deleteMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe('eraseUserData', () => {
+    it('summarizes what was deleted', async () => {
+      await expect(eraseUserData('user-1', NOW)).resolves.toEqual({
+        submissionsDeleted: 2,
+        talksDeleted: 1,
+        filesDeleted: 0,
+        federatedSpeakersRevoked: 0,
+      });
+    });
+
+    it('signs the user out everywhere', async () => {
+      await eraseUserData('user-1', NOW);
+
+      expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(prisma.userSession.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    });
+
+    it('deletes API tokens', async () => {
+      await eraseUserData('user-1', NOW);
+
+      expect(prisma.apiToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    });
+
+    it('anonymizes the user row', async () => {
+      await eraseUserData('user-1', NOW);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({
+          email: expect.not.stringContaining('ada'),
+          name: expect.any(String),
+          passwordHash: null,
+          twoFactorSecret: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+          sessionVersion: { increment: 1 },
+          erasedAt: NOW,
+        }),
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Personal Data Export Tests
+ *
+ * What the "Download my data" export includes, and the secrets it leaves
+ * out.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    user: { findUniqueOrThrow: vi.fn() },
+    submission: { findMany: vi.fn() },
+    message: { findMany: vi.fn() },
+    review: { findMany: vi.fn() },
+    reviewDiscussion: { findMany: vi.fn() },
+    submissionDiscussion: { findMany: vi.fn() },
+    activityLog: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/storage', () => ({
+  getStorage: vi.fn(),
+  StoragePaths: { fromUrl: vi.fn(() => null) },
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { buildUserDataExport } from '@/lib/gdpr/export';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+const session = {
+  userAgent: 'Mozilla/5.0 (Macintosh) Firefox/140.0',
+  ipAddress: '203.0.113.7',
+  location: 'Lisbon, Portugal',
+  lastSeenAt: NOW,
+  expiresAt: NOW,
+  revokedAt: null,
+  createdAt: NOW,
+};
+
+const apiToken = {
+  name: 'Deploy script',
+  tokenPrefix: 'cfp_1a2b',
+  scopes: ['submissions:read'],
+  expiresAt: NOW,
+  lastUsedAt: null,
+  lastUsedIp: null,
+  revokedAt: null,
+  createdAt: NOW,
+};
+
+const user = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  emailVerified: NOW,
+  name: 'Ada',
+  image: null,
+  role: 'USER',
+  createdAt: NOW,
+  updatedAt: NOW,
+  accounts: [],
+  speakerProfile: null,
+  reviewerProfile: null,
+  talks: [],
+  reviewTeamEvents: [],
+  reviewConflicts: [],
+  reviewAssignments: [],
+  erasureRequests: [],
+  notificationPreferences: [],
+  userSessions: [session],
+  apiTokens: [apiToken],
+};
+
+function userSelect() {
+  return vi.mocked(prisma.user.findUniqueOrThrow).mock.calls[0][0].select!;
+}
+
+describe('Personal Data Export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.user.findUniqueOrThrow).mockResolvedValue(user as never);
+    vi.mocked(prisma.submission.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.message.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.review.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.reviewDiscussion.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.submissionDiscussion.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.activityLog.findMany).mockResolvedValue([]);
+  });
+
+  describe('buildUserDataExport', () => {
+    it('includes the profile', async () => {
+      const { data } = await buildUserDataExport('user-1');
+
+      expect(data.user).toMatchObject({ id: 'user-1', email: 'ada@example.com', name: 'Ada' });
+      expect(userSelect()).not.toHaveProperty('passwordHash');
+    });
+
+    it('includes signed-in devices without their device IDs', async () => {
+      const { data } = await buildUserDataExport('user-1');
+
+      expect(data.sessions).toEqual([session]);
+      const sessionSelect = (userSelect().userSessions as { select: Record<string, boolean> }).select;
+      expect(sessionSelect).toMatchObject({ userAgent: true, ipAddress: true, location: true });
+      expect(sessionSelect).not.toHaveProperty('deviceId');
+    });
+
+    it('lists API tokens without their hashes', async () => {
+      const { data } = await buildUserDataExport('user-1');
+
+      expect(data.apiTokens).toEqual([apiToken]);
+      const tokenSelect = (userSelect().apiTokens as { select: Record<string, boolean> }).select;
+      expect(tokenSelect).toMatchObject({ name: true, tokenPrefix: true, scopes: true });
+      expect(tokenSelect).not.toHaveProperty('tokenHash');
+    });
+  });
+});
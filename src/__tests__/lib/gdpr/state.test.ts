@@ -0,0 +1,59 @@
+/**
+ * Data Erasure State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ERASURE_GRACE_PERIOD_DAYS,
+  getErasedEmail,
+  getErasureScheduledFor,
+  isOpenErasureRequest,
+  isErasureDue,
+} from '@/lib/gdpr/state';
+
+describe('Data Erasure State', () => {
+  describe('getErasureScheduledFor', () => {
+    it('should schedule erasure after the grace period', () => {
+      const approvedAt = new Date('2026-03-01T10:00:00Z');
+      const scheduledFor = getErasureScheduledFor(approvedAt);
+
+      expect(scheduledFor.getTime() - approvedAt.getTime()).toBe(ERASURE_GRACE_PERIOD_DAYS * 86400000);
+    });
+
+    it('should allow a custom grace period', () => {
+      expect(getErasureScheduledFor(new Date('2026-03-01T10:00:00Z'), 1).toISOString())
+        .toBe('2026-03-02T10:00:00.000Z');
+    });
+  });
+
+  describe('isOpenErasureRequest', () => {
+    it('should treat pending and approved requests as open', () => {
+      expect(isOpenErasureRequest('PENDING')).toBe(true);
+      expect(isOpenErasureRequest('APPROVED')).toBe(true);
+      expect(isOpenErasureRequest('REJECTED')).toBe(false);
+      expect(isOpenErasureRequest('CANCELLED')).toBe(false);
+      expect(isOpenErasureRequest('COMPLETED')).toBe(false);
+    });
+  });
+
+  describe('isErasureDue', () => {
+    const now = new Date('2026-03-15T12:00:00Z');
+
+    it('should be due once an approved request reaches its date', () => {
+      expect(isErasureDue({ status: 'APPROVED', scheduledFor: new Date('2026-03-15T11:00:00Z') }, now)).toBe(true);
+      expect(isErasureDue({ status: 'APPROVED', scheduledFor: new Date('2026-03-16T11:00:00Z') }, now)).toBe(false);
+    });
+
+    it('should never be due for requests that are not approved', () => {
+      expect(isErasureDue({ status: 'PENDING', scheduledFor: null }, now)).toBe(false);
+      expect(isErasureDue({ status: 'CANCELLED', scheduledFor: new Date('2026-03-01T00:00:00Z') }, now)).toBe(false);
+    });
+  });
+
+  describe('getErasedEmail', () => {
+    it('should produce a unique, undeliverable address', () => {
+      expect(getErasedEmail('user-1')).toBe('erased-user-1@erased.invalid');
+      expect(getErasedEmail('user-1')).not.toBe(getErasedEmail('user-2'));
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Inbound Email MIME Parsing Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseEmail,
+  parseAddressList,
+  parseHeaderValue,
+  decodeEncodedWords,
+} from '@/lib/inbound-email/mime';
+
+function crlf(lines: string[]): string {
+  return lines.join('\r\n');
+}
+
+describe('Inbound Email MIME Parsing', () => {
+  describe('parseAddressList', () => {
+    it('should parse display names and bare addresses', () => {
+      expect(parseAddressList('"Lovelace, Ada" <ada@example.com>, bob@example.com')).toEqual([
+        { address: 'ada@example.com', name: 'Lovelace, Ada' },
+        { address: 'bob@example.com', name: null },
+      ]);
+    });
+
+    it('should decode encoded display names', () => {
+      expect(parseAddressList('=?UTF-8?B?SsO8cmdlbg==?= <j@example.com>')).toEqual([
+        { address: 'j@example.com', name: 'Jürgen' },
+      ]);
+    });
+
+    it('should skip entries without an address', () => {
+      expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+    });
+  });
+
+  describe('decodeEncodedWords', () => {
+    it('should decode Q and B encoded words and join adjacent ones', () => {
+      expect(decodeEncodedWords('Re: =?utf-8?Q?Caf=C3=A9?= =?utf-8?B?IHRhbGs=?=')).toBe('Re: Café talk');
+    });
+
+    it('should leave plain headers alone', () => {
+      expect(decodeEncodedWords('Re: Your talk')).toBe('Re: Your talk');
+    });
+  });
+
+  describe('parseHeaderValue', () => {
+    it('should split the value and quoted parameters', () => {
+      expect(parseHeaderValue('multipart/mixed; boundary="a;b"; charset=UTF-8')).toEqual({
+        value: 'multipart/mixed',
+        params: { boundary: 'a;b', charset: 'UTF-8' },
+      });
+    });
+
+    it('should join RFC 2231 continuations and decode charsets', () => {
+      const { params } = parseHeaderValue(
+        "attachment; filename*0*=UTF-8''Pr%C3%A9sentation; filename*1=\" final.pdf\""
+      );
+      expect(params.filename).toBe('Présentation final.pdf');
+    });
+  });
+
+  describe('parseEmail', () => {
+    it('should read headers and a plain text body', () => {
+      const email = parseEmail(crlf([
+        'Message-ID: <abc@mail.example.com>',
+        'From: Ada <ada@example.com>',
+        'To: reply+token@replies.example.com',
+        'Cc: bob@example.com',
+        'Subject: =?utf-8?Q?Re:_Caf=C3=A9?=',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Thanks =E2=80=94 see you=',
+        ' there',
+      ]));
+
+      expect(email.messageId).toBe('abc@mail.example.com');
+      expect(email.from).toEqual({ address: 'ada@example.com', name: 'Ada' });
+      expect(email.recipients).toEqual(['reply+token@replies.example.com', 'bob@example.com']);
+      expect(email.subject).toBe('Re: Café');
+      expect(email.text).toBe('Thanks — see you there');
+      expect(email.attachments).toEqual([]);
+    });
+
+    it('should walk nested multiparts and collect attachments', () => {
+      const pdf = Buffer.from('%PDF-1.4 test');
+      const email = parseEmail(Buffer.from(crlf([
+        'From: ada@example.com',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary="inner"',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=iso-8859-1',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Voil=E0',
+        '--inner',
+        'Content-Type: text/html',
+        '',
+        '<p>Voilà</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: application/octet-stream; name="slides.pdf"',
+        'Content-Disposition: attachment; filename="slides.pdf"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        pdf.toString('base64'),
+        '--outer--',
+        '',
+      ]), 'utf-8'));
+
+      expect(email.text).toBe('Voilà');
+      expect(email.html).toBe('<p>Voilà</p>');
+      expect(email.attachments).toHaveLength(1);
+      expect(email.attachments[0]).toMatchObject({
+        filename: 'slides.pdf',
+        contentType: 'application/octet-stream',
+      });
+      expect(email.attachments[0].content.equals(pdf)).toBe(true);
+    });
+
+    it('should collect delivery headers as recipients', () => {
+      const email = parseEmail(crlf([
+        'Delivered-To: reply+abc@replies.example.com',
+        'To: undisclosed-recipients:;',
+        '',
+        'Hi',
+      ]));
+
+      expect(email.recipients).toEqual(['reply+abc@replies.example.com']);
+    });
+  });
+});
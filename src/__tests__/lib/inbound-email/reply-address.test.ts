@@ -0,0 +1,62 @@
+/**
+ * Inbound Email Reply Address Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/env', () => ({
+  config: {
+    nextAuthSecret: 'test-secret-with-enough-length-for-hmac',
+    inboundEmail: {
+      enabled: true,
+      domain: 'replies.example.com',
+      secret: 'inbound-secret',
+    },
+  },
+}));
+
+import {
+  createReplyToken,
+  getMessageReplyAddress,
+  findReplyToken,
+  verifyReplyToken,
+} from '@/lib/inbound-email/reply-address';
+
+describe('Inbound Email Reply Addresses', () => {
+  const messageId = 'cmgx1y2z30000abcdefghijk';
+
+  it('should build a lowercase reply address on the inbound domain', () => {
+    const address = getMessageReplyAddress(messageId, 'Ada@Example.com');
+
+    expect(address).toMatch(/^reply\+[a-z0-9]+\.[a-f0-9]{20}@replies\.example\.com$/);
+    expect(address!.split('@')[0].length).toBeLessThanOrEqual(64);
+  });
+
+  it('should find the token among recipients on the inbound domain', () => {
+    const token = createReplyToken(messageId, 'ada@example.com');
+
+    expect(findReplyToken([
+      'team@example.com',
+      `reply+${token}@other.example.com`,
+      `REPLY+${token.toUpperCase()}@Replies.Example.com`,
+    ])).toBe(token);
+    expect(findReplyToken(['team@example.com'])).toBeNull();
+  });
+
+  it('should verify a token for the address it was issued to', () => {
+    const token = createReplyToken(messageId, 'ada@example.com');
+
+    expect(verifyReplyToken(token, 'ADA@example.com')).toBe(messageId);
+    expect(verifyReplyToken(token.toUpperCase(), 'ada@example.com')).toBe(messageId);
+  });
+
+  it('should reject other senders, other threads and malformed tokens', () => {
+    const token = createReplyToken(messageId, 'ada@example.com');
+    const [, signature] = token.split('.');
+
+    expect(verifyReplyToken(token, 'mallory@example.com')).toBeNull();
+    expect(verifyReplyToken(`cmgx1y2z30000zzzzzzzzzzz.${signature}`, 'ada@example.com')).toBeNull();
+    expect(verifyReplyToken(token.slice(0, -1), 'ada@example.com')).toBeNull();
+    expect(verifyReplyToken('not-a-token', 'ada@example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Inbound Email Reply Text Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractReplyText, htmlToText, isAutoReply } from '@/lib/inbound-email/reply-text';
+
+describe('Inbound Email Reply Text', () => {
+  describe('extractReplyText', () => {
+    it('should cut quoted history after an "On ... wrote:" line', () => {
+      const text = [
+        'Sounds good, I can do Thursday.',
+        '',
+        'On Mon, 19 Oct 2026 at 10:00, CFP Team <noreply@example.com> wrote:',
+        '> Could you present on Thursday?',
+      ].join('\n');
+
+      expect(extractReplyText(text)).toBe('Sounds good, I can do Thursday.');
+    });
+
+    it('should handle quote headers wrapped over two lines', () => {
+      const text = [
+        'Yes.',
+        '',
+        'On Mon, 19 Oct 2026 at 10:00, CFP Team',
+        '<noreply@example.com> wrote:',
+        '> Question',
+      ].join('\n');
+
+      expect(extractReplyText(text)).toBe('Yes.');
+    });
+
+    it('should cut Outlook header blocks and signatures', () => {
+      expect(extractReplyText([
+        'Attached the slides.',
+        '',
+        'From: CFP Team <noreply@example.com>',
+        'Sent: Monday, October 19, 2026 10:00 AM',
+        'Subject: New message',
+      ].join('\n'))).toBe('Attached the slides.');
+
+      expect(extractReplyText('Thanks!\n-- \nAda Lovelace\nAnalytical Engines Ltd')).toBe('Thanks!');
+      expect(extractReplyText('Thanks!\n\nSent from my iPhone')).toBe('Thanks!');
+    });
+
+    it('should drop interleaved quoted lines', () => {
+      expect(extractReplyText('> Can you come?\nYes\n> Slides?\nAttached')).toBe('Yes\nAttached');
+    });
+
+    it('should keep lines that only mention "from"', () => {
+      expect(extractReplyText('From: the start of the talk, I will demo live.')).toBe(
+        'From: the start of the talk, I will demo live.'
+      );
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should drop Gmail quotes and convert markup to text', () => {
+      const html = '<div>Works for me &amp; my co-speaker<br>See you</div>'
+        + '<div class="gmail_quote">On Mon wrote:<blockquote>old</blockquote></div>';
+
+      expect(htmlToText(html).trim()).toBe('Works for me & my co-speaker\nSee you');
+    });
+  });
+
+  describe('isAutoReply', () => {
+    it('should detect automatic replies', () => {
+      expect(isAutoReply(new Map([['auto-submitted', ['auto-replied']]]))).toBe(true);
+      expect(isAutoReply(new Map([['precedence', ['bulk']]]))).toBe(true);
+      expect(isAutoReply(new Map([['x-autoreply', ['yes']]]))).toBe(true);
+    });
+
+    it('should accept personal replies', () => {
+      expect(isAutoReply(new Map([['auto-submitted', ['no']]]))).toBe(false);
+      expect(isAutoReply(new Map())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Key Rotation State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  appendKeyRotationError,
+  getKeyRotationProgress,
+  isKeyRotationActive,
+  isStaleKeyRotation,
+  KEY_ROTATION_TARGETS,
+  KEY_ROTATION_TARGET_LABELS,
+  MAX_STORED_KEY_ROTATION_ERRORS,
+  STALE_KEY_ROTATION_MS,
+} from '@/lib/key-rotation/state';
+
+describe('Key Rotation State', () => {
+  describe('KEY_ROTATION_TARGETS', () => {
+    it('should label every target', () => {
+      for (const target of KEY_ROTATION_TARGETS) {
+        expect(KEY_ROTATION_TARGET_LABELS[target]).toBeTruthy();
+      }
+    });
+  });
+
+  describe('getKeyRotationProgress', () => {
+    it('should round progress down to a whole percentage', () => {
+      expect(getKeyRotationProgress({ total: 3, scanned: 0 })).toBe(0);
+      expect(getKeyRotationProgress({ total: 3, scanned: 2 })).toBe(66);
+      expect(getKeyRotationProgress({ total: 3, scanned: 3 })).toBe(100);
+    });
+
+    it('should cap progress when records were added after the count', () => {
+      expect(getKeyRotationProgress({ total: 3, scanned: 5 })).toBe(100);
+    });
+
+    it('should treat an empty database as done', () => {
+      expect(getKeyRotationProgress({ total: 0, scanned: 0 })).toBe(100);
+    });
+  });
+
+  describe('isKeyRotationActive', () => {
+    it('should be active until completed or failed', () => {
+      expect(isKeyRotationActive('PENDING')).toBe(true);
+      expect(isKeyRotationActive('RUNNING')).toBe(true);
+      expect(isKeyRotationActive('COMPLETED')).toBe(false);
+      expect(isKeyRotationActive('FAILED')).toBe(false);
+    });
+  });
+
+  describe('isStaleKeyRotation', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const longAgo = new Date(now.getTime() - STALE_KEY_ROTATION_MS - 1000);
+    const recently = new Date(now.getTime() - 1000);
+
+    it('should flag running jobs that stopped updating', () => {
+      expect(isStaleKeyRotation({ status: 'RUNNING', updatedAt: longAgo }, now)).toBe(true);
+      expect(isStaleKeyRotation({ status: 'RUNNING', updatedAt: recently }, now)).toBe(false);
+    });
+
+    it('should never flag jobs that are not running', () => {
+      expect(isStaleKeyRotation({ status: 'PENDING', updatedAt: longAgo }, now)).toBe(false);
+      expect(isStaleKeyRotation({ status: 'COMPLETED', updatedAt: longAgo }, now)).toBe(false);
+    });
+  });
+
+  describe('appendKeyRotationError', () => {
+    it('should append errors up to the limit', () => {
+      const error = { target: 'users' as const, recordId: 'u1', field: 'name', error: 'Bad key' };
+      expect(appendKeyRotationError([], error)).toEqual([error]);
+
+      const full = Array.from({ length: MAX_STORED_KEY_ROTATION_ERRORS }, (_, i) => ({
+        ...error,
+        recordId: `u${i}`,
+      }));
+      expect(appendKeyRotationError(full, error)).toHaveLength(MAX_STORED_KEY_ROTATION_ERRORS);
+    });
+  });
+});
@@ -47,7 +47,7 @@ describe('RSA Keypair Module', () => {
       expect(result.publicKey).toContain('-----END PUBLIC KEY-----');
       
       // Private key should be encrypted
-      expect(result.privateKeyEncrypted).toContain('enc:v1:');
+      expect(result.privateKeyEncrypted).toContain('enc:v2:');
     });
 
     it('should generate different keypairs each time', () => {
@@ -0,0 +1,158 @@
+/**
+ * Notification Preference State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isValidNotificationSetting,
+  getNotificationFrequencyLabel,
+  resolveNotificationPreferences,
+  getDigestDueAt,
+  getDigestPeriod,
+  renderDigestItems,
+  type DigestEntry,
+} from '@/lib/notifications/state';
+
+describe('Notification Preference State', () => {
+  describe('isValidNotificationSetting', () => {
+    it('should offer digests by email only', () => {
+      expect(isValidNotificationSetting('EMAIL', 'NEW_REVIEW', 'WEEKLY')).toBe(true);
+      expect(isValidNotificationSetting('IN_APP', 'NEW_REVIEW', 'WEEKLY')).toBe(false);
+      expect(isValidNotificationSetting('IN_APP', 'NEW_REVIEW', 'OFF')).toBe(true);
+    });
+
+    it('should keep status changes and plugin notices in-app', () => {
+      expect(isValidNotificationSetting('IN_APP', 'STATUS_CHANGE', 'IMMEDIATE')).toBe(true);
+      expect(isValidNotificationSetting('IN_APP', 'PLUGIN_NOTICE', 'OFF')).toBe(true);
+      expect(isValidNotificationSetting('EMAIL', 'STATUS_CHANGE', 'OFF')).toBe(false);
+      expect(isValidNotificationSetting('EMAIL', 'PLUGIN_NOTICE', 'IMMEDIATE')).toBe(false);
+    });
+
+    it('should label in-app notifications as on or off', () => {
+      expect(getNotificationFrequencyLabel('IN_APP', 'IMMEDIATE')).toBe('On');
+      expect(getNotificationFrequencyLabel('EMAIL', 'IMMEDIATE')).toBe('Immediately');
+    });
+  });
+
+  describe('resolveNotificationPreferences', () => {
+    it('should default every category to immediate', () => {
+      const map = resolveNotificationPreferences([]);
+
+      expect(map.EMAIL).toEqual({
+        NEW_SUBMISSION: 'IMMEDIATE',
+        NEW_REVIEW: 'IMMEDIATE',
+        DISCUSSION_REPLY: 'IMMEDIATE',
+        MENTION: 'IMMEDIATE',
+        REVIEW_DEADLINE: 'IMMEDIATE',
+        MESSAGE: 'IMMEDIATE',
+      });
+    });
+
+    it('should apply stored preferences over the defaults', () => {
+      const map = resolveNotificationPreferences([
+        { channel: 'EMAIL', category: 'NEW_SUBMISSION', frequency: 'DAILY' },
+        { channel: 'EMAIL', category: 'MESSAGE', frequency: 'OFF' },
+      ]);
+
+      expect(map.EMAIL.NEW_SUBMISSION).toBe('DAILY');
+      expect(map.EMAIL.MESSAGE).toBe('OFF');
+      expect(map.EMAIL.NEW_REVIEW).toBe('IMMEDIATE');
+    });
+
+    it('should cover every category in-app', () => {
+      const map = resolveNotificationPreferences([
+        { channel: 'IN_APP', category: 'PLUGIN_NOTICE', frequency: 'OFF' },
+      ]);
+
+      expect(Object.keys(map.IN_APP)).toHaveLength(8);
+      expect(map.IN_APP.PLUGIN_NOTICE).toBe('OFF');
+      expect(map.IN_APP.STATUS_CHANGE).toBe('IMMEDIATE');
+    });
+
+    it('should ignore stored settings the channel does not offer', () => {
+      const map = resolveNotificationPreferences([
+        { channel: 'IN_APP', category: 'MESSAGE', frequency: 'DAILY' },
+        { channel: 'EMAIL', category: 'STATUS_CHANGE', frequency: 'OFF' },
+      ]);
+
+      expect(map.IN_APP.MESSAGE).toBe('IMMEDIATE');
+      expect(map.EMAIL).not.toHaveProperty('STATUS_CHANGE');
+    });
+  });
+
+  describe('getDigestDueAt', () => {
+    it('should schedule daily digests for 08:00 UTC the same day when before it', () => {
+      const due = getDigestDueAt('DAILY', new Date('2026-10-14T06:30:00Z'));
+      expect(due.toISOString()).toBe('2026-10-14T08:00:00.000Z');
+    });
+
+    it('should schedule daily digests for the next day once 08:00 has passed', () => {
+      expect(getDigestDueAt('DAILY', new Date('2026-10-14T08:00:00Z')).toISOString())
+        .toBe('2026-10-15T08:00:00.000Z');
+      expect(getDigestDueAt('DAILY', new Date('2026-10-14T23:59:00Z')).toISOString())
+        .toBe('2026-10-15T08:00:00.000Z');
+    });
+
+    it('should schedule weekly digests for the next Monday', () => {
+      // Wednesday
+      expect(getDigestDueAt('WEEKLY', new Date('2026-10-14T12:00:00Z')).toISOString())
+        .toBe('2026-10-19T08:00:00.000Z');
+      // Monday before and after 08:00
+      expect(getDigestDueAt('WEEKLY', new Date('2026-10-19T07:00:00Z')).toISOString())
+        .toBe('2026-10-19T08:00:00.000Z');
+      expect(getDigestDueAt('WEEKLY', new Date('2026-10-19T09:00:00Z')).toISOString())
+        .toBe('2026-10-26T08:00:00.000Z');
+    });
+  });
+
+  describe('getDigestPeriod', () => {
+    it('should be weekly only when every entry is weekly', () => {
+      expect(getDigestPeriod([{ frequency: 'WEEKLY' }, { frequency: 'WEEKLY' }])).toBe('weekly');
+      expect(getDigestPeriod([{ frequency: 'WEEKLY' }, { frequency: 'DAILY' }])).toBe('daily');
+      expect(getDigestPeriod([])).toBe('daily');
+    });
+  });
+
+  describe('renderDigestItems', () => {
+    const entry = (overrides: Partial<DigestEntry>): DigestEntry => ({
+      category: 'NEW_SUBMISSION',
+      frequency: 'DAILY',
+      title: 'Talk',
+      summary: null,
+      url: 'https://cfp.example.com/events/conf/submissions/1',
+      eventName: 'Conf',
+      ...overrides,
+    });
+
+    it('should group entries by category with counts', () => {
+      const html = renderDigestItems([
+        entry({ category: 'MESSAGE', title: 'Message' }),
+        entry({ title: 'First' }),
+        entry({ title: 'Second' }),
+      ]);
+
+      expect(html).toContain('New submissions (2)');
+      expect(html).toContain('Submission messages (1)');
+      expect(html).not.toContain('New reviews');
+      expect(html.indexOf('New submissions')).toBeLessThan(html.indexOf('Submission messages'));
+    });
+
+    it('should escape user content', () => {
+      const html = renderDigestItems([
+        entry({ title: '<script>alert(1)</script>', summary: 'Tom & "Jerry"', eventName: '<b>Conf</b>' }),
+      ]);
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;');
+      expect(html).toContain('Tom &amp; &quot;Jerry&quot;');
+      expect(html).toContain('&lt;b&gt;Conf&lt;/b&gt;');
+    });
+
+    it('should truncate long summaries', () => {
+      const html = renderDigestItems([entry({ summary: 'x'.repeat(300) })]);
+
+      expect(html).toContain(`${'x'.repeat(200)}...`);
+      expect(html).not.toContain('x'.repeat(201));
+    });
+  });
+});
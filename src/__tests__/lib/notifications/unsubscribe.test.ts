@@ -0,0 +1,74 @@
+/**
+ * Notification Unsubscribe Link Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/env', () => ({
+  config: {
+    nextAuthSecret: 'test-secret-with-enough-length-for-hmac',
+    app: { url: 'https://cfp.example.com' },
+  },
+}));
+
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  getUnsubscribeLinks,
+  getListUnsubscribeHeaders,
+} from '@/lib/notifications/unsubscribe';
+
+describe('Notification Unsubscribe Links', () => {
+  const userId = 'cmgx1y2z30000abcdefghijk';
+
+  it('should round-trip a category token', () => {
+    const token = createUnsubscribeToken(userId, 'NEW_REVIEW');
+
+    expect(verifyUnsubscribeToken(token)).toEqual({ userId, category: 'NEW_REVIEW' });
+  });
+
+  it('should round-trip an all-categories token', () => {
+    const token = createUnsubscribeToken(userId, null);
+
+    expect(verifyUnsubscribeToken(token)).toEqual({ userId, category: null });
+  });
+
+  it('should reject a token whose category was changed', () => {
+    const token = createUnsubscribeToken(userId, 'NEW_REVIEW');
+
+    expect(verifyUnsubscribeToken(token.replace('NEW_REVIEW', 'MESSAGE'))).toBeNull();
+    expect(verifyUnsubscribeToken(token.replace('NEW_REVIEW', 'all'))).toBeNull();
+  });
+
+  it('should reject a token for another user', () => {
+    const token = createUnsubscribeToken(userId, 'MESSAGE');
+
+    expect(verifyUnsubscribeToken(token.replace(userId, 'someoneelse'))).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyUnsubscribeToken('')).toBeNull();
+    expect(verifyUnsubscribeToken('abc')).toBeNull();
+    expect(verifyUnsubscribeToken(`${userId}.UNKNOWN.${'0'.repeat(32)}`)).toBeNull();
+  });
+
+  it('should build page, one-click and preference links', () => {
+    const links = getUnsubscribeLinks(userId, 'MESSAGE');
+
+    expect(links.unsubscribeUrl).toMatch(/^https:\/\/cfp\.example\.com\/unsubscribe\?token=/);
+    expect(links.oneClickUrl).toMatch(/^https:\/\/cfp\.example\.com\/api\/public\/notifications\/unsubscribe\?token=/);
+    expect(links.preferencesUrl).toBe('https://cfp.example.com/account?tab=notifications');
+
+    const token = new URL(links.oneClickUrl).searchParams.get('token')!;
+    expect(verifyUnsubscribeToken(token)).toEqual({ userId, category: 'MESSAGE' });
+  });
+
+  it('should produce RFC 8058 one-click headers', () => {
+    const links = getUnsubscribeLinks(userId, null);
+
+    expect(getListUnsubscribeHeaders(links)).toEqual({
+      'List-Unsubscribe': `<${links.oneClickUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * OpenAPI Spec Tests
+ *
+ * The generated spec documents every operation with the scope middleware
+ * enforces for it and with request schemas from the validations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiSpec, API_OPERATIONS } from '@/lib/openapi';
+
+type Operation = {
+  operationId: string;
+  'x-required-scope': string | null;
+  parameters?: Array<{ name: string; in: string; required: boolean }>;
+  requestBody?: { content: { 'application/json': { schema: Record<string, unknown> } } };
+};
+
+const spec = buildOpenApiSpec({ serverUrl: 'https://cfp.example.com', version: '1.2.3' }) as {
+  openapi: string;
+  info: { version: string };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, Operation>>;
+};
+
+const operations = Object.values(spec.paths).flatMap(methods => Object.values(methods));
+
+describe('OpenAPI Spec', () => {
+  it('should describe the instance', () => {
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.info.version).toBe('1.2.3');
+    expect(spec.servers).toEqual([{ url: 'https://cfp.example.com' }]);
+  });
+
+  it('should document every operation once, with a unique ID', () => {
+    expect(operations).toHaveLength(API_OPERATIONS.length);
+    expect(new Set(operations.map(op => op.operationId)).size).toBe(operations.length);
+  });
+
+  it('should only document operations API tokens can reach', () => {
+    for (const operation of operations) {
+      expect(operation['x-required-scope'], operation.operationId).toBeTruthy();
+    }
+  });
+
+  it('should take the required scope from the route rules', () => {
+    expect(spec.paths['/api/events'].get['x-required-scope']).toBe('events:read');
+    expect(spec.paths['/api/events'].post['x-required-scope']).toBe('events:manage');
+    expect(spec.paths['/api/events/{id}/submissions/{submissionId}/reviews'].post['x-required-scope'])
+      .toBe('reviews:write');
+  });
+
+  it('should convert request bodies and query strings from the zod schemas', () => {
+    const createEvent = spec.paths['/api/events'].post.requestBody!.content['application/json'].schema;
+    expect(createEvent).toMatchObject({ type: 'object', required: ['name'] });
+    expect(createEvent).not.toHaveProperty('$schema');
+
+    const listSubmissions = spec.paths['/api/events/{id}/submissions'].get.parameters!;
+    expect(listSubmissions).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'id', in: 'path', required: true }),
+      expect.objectContaining({ name: 'status', in: 'query', required: false }),
+      expect.objectContaining({ name: 'limit', in: 'query', required: false }),
+    ]));
+  });
+
+  it('should offer either body when a handler accepts more than one', () => {
+    const patch = spec.paths['/api/events/{id}/submissions/{submissionId}'].patch;
+    expect(patch.requestBody!.content['application/json'].schema.oneOf).toHaveLength(2);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Notification Capability Tests
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { createInAppNotifications } = vi.hoisted(() => ({
+  createInAppNotifications: vi.fn(),
+}));
+
+vi.mock('@/lib/notifications/in-app', () => ({
+  createInAppNotifications,
+}));
+
+import { NotificationCapabilityImpl } from '@/lib/plugins/capabilities/notifications';
+import { PluginPermissionError } from '@/lib/plugins/types';
+
+function createMockPrisma() {
+  return {
+    user: {
+      findMany: vi.fn().mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]),
+    },
+  } as any;
+}
+
+describe('NotificationCapability', () => {
+  let prisma: ReturnType<typeof createMockPrisma>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma = createMockPrisma();
+    createInAppNotifications.mockResolvedValue(2);
+  });
+
+  function capability(permissions: string[] = ['notifications:send']) {
+    return new NotificationCapabilityImpl(prisma, new Set(permissions as any), 'scan-plugin');
+  }
+
+  it('should throw without the notifications:send permission', async () => {
+    await expect(capability([]).send({ userIds: ['user-1'], title: 'Hi' }))
+      .rejects.toThrow(PluginPermissionError);
+    expect(createInAppNotifications).not.toHaveBeenCalled();
+  });
+
+  it('should post a plugin notice labelled with the plugin name', async () => {
+    const result = await capability().send({
+      userIds: ['user-1'],
+      roles: ['ADMIN'],
+      title: 'Scan finished',
+      body: 'Details',
+      url: '/events/conf/submissions',
+    });
+
+    expect(result).toEqual({ count: 2 });
+    expect(prisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { OR: [{ id: { in: ['user-1'] } }, { role: { in: ['ADMIN'] } }] },
+    }));
+    expect(createInAppNotifications).toHaveBeenCalledWith(['user-1', 'user-2'], {
+      category: 'PLUGIN_NOTICE',
+      title: 'Scan finished',
+      body: 'Details',
+      url: '/events/conf/submissions',
+      source: 'scan-plugin',
+    });
+  });
+
+  it('should require recipients', async () => {
+    await expect(capability().send({ title: 'Hi' })).rejects.toThrow('userIds or roles');
+  });
+
+  it('should reject empty or overlong titles', async () => {
+    await expect(capability().send({ userIds: ['user-1'], title: '  ' })).rejects.toThrow('title');
+    await expect(capability().send({ userIds: ['user-1'], title: 'x'.repeat(201) })).rejects.toThrow('title');
+  });
+
+  it('should only allow site paths and http(s) links', async () => {
+    for (const url of ['javascript:alert(1)', '//evil.example.com', 'data:text/html,hi']) {
+      await expect(capability().send({ userIds: ['user-1'], title: 'Hi', url })).rejects.toThrow('URL');
+    }
+    await expect(capability().send({ userIds: ['user-1'], title: 'Hi', url: 'https://example.com/report' }))
+      .resolves.toEqual({ count: 2 });
+  });
+
+  it('should refuse to reach more than 1000 users', async () => {
+    prisma.user.findMany.mockResolvedValue(Array.from({ length: 1001 }, (_, i) => ({ id: `user-${i}` })));
+
+    await expect(capability().send({ roles: ['USER'], title: 'Hi' })).rejects.toThrow('more than 1000');
+    expect(createInAppNotifications).not.toHaveBeenCalled();
+  });
+});
@@ -14,6 +14,15 @@ const mockPrisma = {
     create: vi.fn(),
     update: vi.fn(),
   },
+  submission: {
+    findUnique: vi.fn(),
+  },
+  eventReviewCriteria: {
+    findMany: vi.fn(),
+  },
+  reviewCriterionScore: {
+    findMany: vi.fn(),
+  },
 };
 
 vi.mock('@/lib/db/prisma', () => ({
@@ -32,6 +41,8 @@ describe('ReviewCapability', () => {
     presentationScore: 3,
     relevanceScore: 5,
     overallScore: 4,
+    weightedScore: null,
+    vote: null,
     privateNotes: 'Internal notes',
     publicNotes: 'Feedback for speaker',
     recommendation: 'ACCEPT',
@@ -142,6 +153,38 @@ describe('ReviewCapability', () => {
     });
   });
 
+  describe('getCriterionScores', () => {
+    it('should return scores with criterion name and weight in criteria order', async () => {
+      const capability = new ReviewCapabilityImpl(
+        mockPrisma as any,
+        new Set(['reviews:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.reviewCriterionScore.findMany.mockResolvedValue([
+        { criteriaId: 'c-2', score: 2, criteria: { name: 'Relevance', weight: 1, sortOrder: 1 } },
+        { criteriaId: 'c-1', score: 5, criteria: { name: 'Content', weight: 3, sortOrder: 0 } },
+      ]);
+      
+      const result = await capability.getCriterionScores('review-1');
+      
+      expect(result).toEqual([
+        { criteriaId: 'c-1', score: 5, name: 'Content', weight: 3 },
+        { criteriaId: 'c-2', score: 2, name: 'Relevance', weight: 1 },
+      ]);
+    });
+
+    it('should throw without read permission', async () => {
+      const capability = new ReviewCapabilityImpl(
+        mockPrisma as any,
+        new Set([]),
+        'test-plugin'
+      );
+      
+      await expect(capability.getCriterionScores('review-1')).rejects.toThrow(PluginPermissionError);
+    });
+  });
+
   describe('create', () => {
     it('should create review with write permission', async () => {
       const capability = new ReviewCapabilityImpl(
@@ -175,6 +218,63 @@ describe('ReviewCapability', () => {
       });
     });
 
+    it('should store criterion scores with the weighted total', async () => {
+      const capability = new ReviewCapabilityImpl(
+        mockPrisma as any,
+        new Set(['reviews:write']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue({ eventId: 'event-1' });
+      mockPrisma.eventReviewCriteria.findMany.mockResolvedValue([
+        { id: 'c-1', name: 'Content', weight: 3 },
+        { id: 'c-2', name: 'Relevance', weight: 1 },
+      ]);
+      mockPrisma.review.create.mockResolvedValue(mockReview);
+      
+      await capability.create({
+        submissionId: 'sub-1',
+        reviewerId: 'user-1',
+        criterionScores: [
+          { criteriaId: 'c-1', score: 5 },
+          { criteriaId: 'c-2', score: 1 },
+        ],
+      });
+      
+      expect(mockPrisma.review.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          weightedScore: 4,
+          overallScore: 4,
+          criterionScores: {
+            create: [
+              { criteriaId: 'c-1', score: 5 },
+              { criteriaId: 'c-2', score: 1 },
+            ],
+          },
+        }),
+      });
+    });
+
+    it('should reject criteria from another event', async () => {
+      const capability = new ReviewCapabilityImpl(
+        mockPrisma as any,
+        new Set(['reviews:write']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue({ eventId: 'event-1' });
+      mockPrisma.eventReviewCriteria.findMany.mockResolvedValue([
+        { id: 'c-1', name: 'Content', weight: 3 },
+      ]);
+      
+      await expect(capability.create({
+        submissionId: 'sub-1',
+        reviewerId: 'user-1',
+        criterionScores: [{ criteriaId: 'c-other', score: 5 }],
+      })).rejects.toThrow();
+      expect(mockPrisma.review.create).not.toHaveBeenCalled();
+    });
+
     it('should throw without write permission', async () => {
       const capability = new ReviewCapabilityImpl(
         mockPrisma as any,
@@ -13,6 +13,9 @@ const mockPrisma = {
     findMany: vi.fn(),
     update: vi.fn(),
   },
+  eventSubmissionField: {
+    findMany: vi.fn(),
+  },
 };
 
 vi.mock('@/lib/db/prisma', () => ({
@@ -40,6 +43,7 @@ describe('SubmissionCapability', () => {
     isFederated: false,
     federatedSpeakerId: null,
     externalSubmissionId: null,
+    customFields: {},
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -56,16 +60,35 @@ describe('SubmissionCapability', () => {
         'test-plugin'
       );
       
-      mockPrisma.submission.findUnique.mockResolvedValue(mockSubmission);
+      mockPrisma.submission.findUnique.mockResolvedValue({ ...mockSubmission, event: { reviewAnonymity: 'OPEN' } });
       
       const result = await capability.get('sub-1');
       
       expect(result).toEqual(mockSubmission);
       expect(mockPrisma.submission.findUnique).toHaveBeenCalledWith({
         where: { id: 'sub-1' },
+        include: { event: { select: { reviewAnonymity: true } } },
       });
     });
 
+    it.each(['SPEAKER_HIDDEN', 'DOUBLE_BLIND'])('should hide the speaker for %s events', async (reviewAnonymity) => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue({
+        ...mockSubmission,
+        federatedSpeakerId: 'fed-1',
+        event: { reviewAnonymity },
+      });
+      
+      const result = await capability.get('sub-1');
+      
+      expect(result).toEqual({ ...mockSubmission, speakerId: 'anonymous-speaker', federatedSpeakerId: null });
+    });
+
     it('should throw without read permission', async () => {
       const capability = new SubmissionCapabilityImpl(
         mockPrisma as any,
@@ -91,6 +114,86 @@ describe('SubmissionCapability', () => {
     });
   });
 
+  describe('getWithSpeakers', () => {
+    const submissionWithSpeakers = (reviewAnonymity: string) => ({
+      ...mockSubmission,
+      federatedSpeakerId: 'fed-1',
+      event: { reviewAnonymity },
+      speaker: {
+        id: 'user-1',
+        name: 'Ada Lovelace',
+        speakerProfile: { fullName: 'Ada Lovelace', bio: 'Mathematician' },
+      },
+      coSpeakers: [{ id: 'cs-1', name: 'Charles Babbage', bio: 'Engineer' }],
+    });
+
+    it('should include speaker details for open events', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue(submissionWithSpeakers('OPEN'));
+      
+      const result = await capability.getWithSpeakers('sub-1');
+      
+      expect(result?.speaker).toEqual({
+        id: 'user-1',
+        name: 'Ada Lovelace',
+        profile: { fullName: 'Ada Lovelace', bio: 'Mathematician' },
+      });
+      expect(result?.coSpeakers[0].name).toBe('Charles Babbage');
+      expect(result).not.toHaveProperty('event');
+    });
+
+    it('should redact speakers for blind review events', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue(submissionWithSpeakers('SPEAKER_HIDDEN'));
+      
+      const result = await capability.getWithSpeakers('sub-1');
+      
+      expect(result?.speakerId).toBe('anonymous-speaker');
+      expect(result?.federatedSpeakerId).toBeNull();
+      expect(result?.speaker).toEqual({
+        id: 'anonymous-speaker',
+        name: 'Anonymous Speaker',
+        profile: null,
+      });
+      expect(result?.coSpeakers).toEqual([{ id: 'cs-1', name: 'Co-speaker 1', bio: null }]);
+      expect(result?.title).toBe('Test Submission');
+    });
+
+    it('should redact speakers for double-blind events', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue(submissionWithSpeakers('DOUBLE_BLIND'));
+      
+      const result = await capability.getWithSpeakers('sub-1');
+      
+      expect(result?.speaker.name).toBe('Anonymous Speaker');
+    });
+
+    it('should throw without read permission', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set([]),
+        'test-plugin'
+      );
+      
+      await expect(capability.getWithSpeakers('sub-1')).rejects.toThrow(PluginPermissionError);
+    });
+  });
+
   describe('list', () => {
     it('should list submissions with read permission', async () => {
       const capability = new SubmissionCapabilityImpl(
@@ -99,17 +202,60 @@ describe('SubmissionCapability', () => {
         'test-plugin'
       );
       
-      mockPrisma.submission.findMany.mockResolvedValue([mockSubmission]);
+      mockPrisma.submission.findMany.mockResolvedValue([{ ...mockSubmission, event: { reviewAnonymity: 'OPEN' } }]);
       
       const result = await capability.list();
       
       expect(result).toEqual([mockSubmission]);
       expect(mockPrisma.submission.findMany).toHaveBeenCalledWith({
         where: {},
+        include: { event: { select: { reviewAnonymity: true } } },
         orderBy: { createdAt: 'desc' },
       });
     });
 
+    it('should hide speakers of blind review events', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findMany.mockResolvedValue([
+        { ...mockSubmission, event: { reviewAnonymity: 'OPEN' } },
+        { ...mockSubmission, id: 'sub-2', federatedSpeakerId: 'fed-1', event: { reviewAnonymity: 'SPEAKER_HIDDEN' } },
+        { ...mockSubmission, id: 'sub-3', event: { reviewAnonymity: 'DOUBLE_BLIND' } },
+      ]);
+      
+      const result = await capability.list();
+      
+      expect(result.map(s => [s.speakerId, s.federatedSpeakerId])).toEqual([
+        ['user-1', null],
+        ['anonymous-speaker', null],
+        ['anonymous-speaker', null],
+      ]);
+      expect(result[0]).not.toHaveProperty('event');
+    });
+
+    it('should ignore the speaker filter for blind review events', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findMany.mockResolvedValue([]);
+      
+      await capability.list({ speakerId: 'user-1' });
+      
+      expect(mockPrisma.submission.findMany.mock.calls[0][0].where).toEqual({
+        OR: [
+          { speakerId: 'user-1' },
+          { event: { reviewAnonymity: { in: ['SPEAKER_HIDDEN', 'DOUBLE_BLIND'] } } },
+        ],
+      });
+    });
+
     it('should filter by eventId', async () => {
       const capability = new SubmissionCapabilityImpl(
         mockPrisma as any,
@@ -123,6 +269,7 @@ describe('SubmissionCapability', () => {
       
       expect(mockPrisma.submission.findMany).toHaveBeenCalledWith({
         where: { eventId: 'event-1' },
+        include: { event: { select: { reviewAnonymity: true } } },
         orderBy: { createdAt: 'desc' },
       });
     });
@@ -140,6 +287,7 @@ describe('SubmissionCapability', () => {
       
       expect(mockPrisma.submission.findMany).toHaveBeenCalledWith({
         where: { status: 'ACCEPTED' },
+        include: { event: { select: { reviewAnonymity: true } } },
         orderBy: { createdAt: 'desc' },
       });
     });
@@ -163,10 +311,14 @@ describe('SubmissionCapability', () => {
       expect(mockPrisma.submission.findMany).toHaveBeenCalledWith({
         where: {
           eventId: 'event-1',
-          speakerId: 'user-1',
+          OR: [
+            { speakerId: 'user-1' },
+            { event: { reviewAnonymity: { in: ['SPEAKER_HIDDEN', 'DOUBLE_BLIND'] } } },
+          ],
           status: 'PENDING',
           trackId: 'track-1',
         },
+        include: { event: { select: { reviewAnonymity: true } } },
         orderBy: { createdAt: 'desc' },
       });
     });
@@ -182,7 +334,60 @@ describe('SubmissionCapability', () => {
     });
   });
 
-  describe('updateStatus', () => {
+  describe('getCustomFields', () => {
+    it('should return answers in field order', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue({
+        eventId: 'event-1',
+        customFields: { 'field-2': ['Go', 'Rust'], 'removed-field': 'stale' },
+      });
+      mockPrisma.eventSubmissionField.findMany.mockResolvedValue([
+        { id: 'field-1', label: 'Given before?', type: 'CHECKBOX', required: false, options: [] },
+        { id: 'field-2', label: 'Languages', type: 'MULTI_SELECT', required: false, options: ['Go', 'Rust'] },
+      ]);
+      
+      const result = await capability.getCustomFields('sub-1');
+      
+      expect(result).toEqual([
+        { fieldId: 'field-1', label: 'Given before?', type: 'CHECKBOX', value: null },
+        { fieldId: 'field-2', label: 'Languages', type: 'MULTI_SELECT', value: ['Go', 'Rust'] },
+      ]);
+      expect(mockPrisma.eventSubmissionField.findMany).toHaveBeenCalledWith({
+        where: { eventId: 'event-1' },
+        orderBy: { sortOrder: 'asc' },
+      });
+    });
+
+    it('should return null for non-existent submission', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set(['submissions:read']),
+        'test-plugin'
+      );
+      
+      mockPrisma.submission.findUnique.mockResolvedValue(null);
+      
+      expect(await capability.getCustomFields('missing')).toBeNull();
+      expect(mockPrisma.eventSubmissionField.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw without read permission', async () => {
+      const capability = new SubmissionCapabilityImpl(
+        mockPrisma as any,
+        new Set([]),
+        'test-plugin'
+      );
+      
+      await expect(capability.getCustomFields('sub-1')).rejects.toThrow(PluginPermissionError);
+    });
+  });
+
+    describe('updateStatus', () => {
     it('should update status with manage permission', async () => {
       const capability = new SubmissionCapabilityImpl(
         mockPrisma as any,
@@ -131,6 +131,7 @@ describe('Plugin Context', () => {
       mockPrisma.submission.findUnique.mockResolvedValue({
         id: 'sub-1',
         title: 'Test',
+        event: { reviewAnonymity: 'OPEN' },
       });
       
       const result = await ctx.submissions.get('sub-1');
@@ -157,7 +158,7 @@ describe('Plugin Context', () => {
         permissions: ['submissions:read'], // Only read, not manage
       });
       
-      mockPrisma.submission.findUnique.mockResolvedValue({ id: 'sub-1' });
+      mockPrisma.submission.findUnique.mockResolvedValue({ id: 'sub-1', event: { reviewAnonymity: 'OPEN' } });
       
       // Read should work
       await expect(ctx.submissions.get('sub-1')).resolves.toBeDefined();
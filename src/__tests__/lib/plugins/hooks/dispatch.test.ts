@@ -49,6 +49,11 @@ vi.mock('@/lib/email/email-service', () => ({
   },
 }));
 
+// Mock webhooks
+vi.mock('@/lib/webhooks', () => ({
+  queueHookWebhooks: vi.fn().mockResolvedValue(0),
+}));
+
 // Import after mocking
 import {
   dispatchHook,
@@ -57,6 +62,7 @@ import {
   getHookHandlerCount,
 } from '@/lib/plugins/hooks/dispatch';
 import { getPluginRegistry, resetPluginRegistry } from '@/lib/plugins/registry';
+import { queueHookWebhooks } from '@/lib/webhooks';
 import type { Plugin, PluginContext } from '@/lib/plugins/types';
 import type { HookPayloads } from '@/lib/plugins/hooks/types';
 
@@ -111,6 +117,16 @@ describe('Hook Dispatch', () => {
       );
     });
 
+    it('should queue webhooks for the hook', async () => {
+      const payload = { user: { id: 'user-1', email: 'test@test.com', name: 'Test' } };
+
+      await dispatchHook('user.registered', payload as HookPayloads['user.registered']);
+
+      await vi.waitFor(() => {
+        expect(queueHookWebhooks).toHaveBeenCalledWith('user.registered', payload);
+      });
+    });
+
     it('should not dispatch to disabled plugins', async () => {
       const registry = getPluginRegistry();
       const handler = vi.fn().mockResolvedValue(undefined);
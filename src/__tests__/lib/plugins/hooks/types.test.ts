@@ -19,6 +19,10 @@ describe('Hook Types', () => {
         'submission.statusChanged',
         'submission.updated',
         'submission.deleted',
+        'submission.confirmationRequested',
+        'submission.confirmed',
+        'submission.declined',
+        'submission.confirmationExpired',
         'user.registered',
         'user.roleChanged',
         'user.profileUpdated',
@@ -29,8 +33,10 @@ describe('Hook Types', () => {
         'event.cfpOpened',
         'event.cfpClosed',
         'event.updated',
+        'event.schedulePublished',
         'email.beforeSend',
         'email.sent',
+        'email.failed',
       ];
 
       expect(HOOK_NAMES).toEqual(expect.arrayContaining(expectedHooks));
@@ -67,11 +73,11 @@ describe('Hook Types', () => {
       const eventHooks = HOOK_METADATA.filter(h => h.category === 'event');
       const emailHooks = HOOK_METADATA.filter(h => h.category === 'email');
 
-      expect(submissionHooks.length).toBe(4);
+      expect(submissionHooks.length).toBe(8);
       expect(userHooks.length).toBe(3);
       expect(reviewHooks.length).toBe(3);
-      expect(eventHooks.length).toBe(4);
-      expect(emailHooks.length).toBe(2);
+      expect(eventHooks.length).toBe(5);
+      expect(emailHooks.length).toBe(3);
     });
 
     it('should mark email.beforeSend as modifiable', () => {
@@ -99,7 +105,7 @@ describe('Hook Types', () => {
     it('should return hooks for submission category', () => {
       const hooks = getHooksByCategory('submission');
       
-      expect(hooks.length).toBe(4);
+      expect(hooks.length).toBe(8);
       expect(hooks.every(h => h.category === 'submission')).toBe(true);
     });
 
@@ -113,9 +119,10 @@ describe('Hook Types', () => {
     it('should return hooks for email category', () => {
       const hooks = getHooksByCategory('email');
       
-      expect(hooks.length).toBe(2);
+      expect(hooks.length).toBe(3);
       expect(hooks.map(h => h.name)).toContain('email.beforeSend');
       expect(hooks.map(h => h.name)).toContain('email.sent');
+      expect(hooks.map(h => h.name)).toContain('email.failed');
     });
 
     it('should return empty array for invalid category', () => {
@@ -69,6 +69,7 @@ describe('Plugin Types', () => {
         'storage:read',
         'storage:write',
         'email:send',
+        'notifications:send',
       ];
 
       for (const permission of expectedPermissions) {
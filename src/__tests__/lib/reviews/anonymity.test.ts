@@ -0,0 +1,235 @@
+/**
+ * Review Anonymity Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ANONYMOUS_SPEAKER_ID,
+  ANONYMOUS_SPEAKER_NAME,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  redactSubmission,
+  redactCoSpeakers,
+  createReviewerAliases,
+  applyReviewerAnonymity,
+  applyMessageAnonymity,
+} from '@/lib/reviews/anonymity';
+
+describe('Review Anonymity', () => {
+  const reviewer = { id: 'reviewer-me', role: 'REVIEWER' };
+  const organizer = { id: 'organizer-1', role: 'ORGANIZER' };
+  const admin = { id: 'admin-1', role: 'ADMIN' };
+
+  describe('getReviewAnonymity', () => {
+    it('should accept known modes', () => {
+      expect(getReviewAnonymity('SPEAKER_HIDDEN')).toBe('SPEAKER_HIDDEN');
+      expect(getReviewAnonymity('DOUBLE_BLIND')).toBe('DOUBLE_BLIND');
+    });
+
+    it('should default to OPEN', () => {
+      expect(getReviewAnonymity(null)).toBe('OPEN');
+      expect(getReviewAnonymity('secret')).toBe('OPEN');
+    });
+  });
+
+  describe('resolveAnonymityView', () => {
+    it('should hide nothing for open events', () => {
+      const view = resolveAnonymityView('OPEN', reviewer);
+      expect(view.hideSpeaker).toBe(false);
+      expect(view.hideReviewers).toBe(false);
+      expect(view.revealsIdentities).toBe(false);
+    });
+
+    it('should hide only speakers from reviewers in blind events', () => {
+      const view = resolveAnonymityView('SPEAKER_HIDDEN', reviewer);
+      expect(view.hideSpeaker).toBe(true);
+      expect(view.hideReviewers).toBe(false);
+    });
+
+    it('should hide speakers and reviewers from reviewers in double-blind events', () => {
+      const view = resolveAnonymityView('DOUBLE_BLIND', reviewer);
+      expect(view.hideSpeaker).toBe(true);
+      expect(view.hideReviewers).toBe(true);
+      expect(view.revealsIdentities).toBe(false);
+    });
+
+    it('should give organizers and admins full visibility and flag the reveal', () => {
+      for (const viewer of [organizer, admin]) {
+        const view = resolveAnonymityView('DOUBLE_BLIND', viewer);
+        expect(view.hideSpeaker).toBe(false);
+        expect(view.hideReviewers).toBe(false);
+        expect(view.revealsIdentities).toBe(true);
+      }
+    });
+
+    it('should not flag a reveal for open events', () => {
+      expect(resolveAnonymityView('OPEN', admin).revealsIdentities).toBe(false);
+    });
+  });
+
+  describe('redactSubmission', () => {
+    const submission = {
+      id: 'sub-1',
+      title: 'Talk',
+      speakerId: 'user-1',
+      federatedSpeakerId: 'fed-1',
+      speaker: {
+        id: 'user-1',
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        image: 'https://example.com/ada.png',
+        speakerProfile: { fullName: 'Ada Lovelace', company: 'Analytical' },
+      },
+      coSpeakers: [
+        { id: 'cs-1', name: 'Charles', email: 'charles@example.com', bio: 'Engines', avatarUrl: null },
+      ],
+    };
+
+    it('should replace the speaker with an anonymous placeholder', () => {
+      const redacted = redactSubmission(submission);
+
+      expect(redacted.speakerId).toBe(ANONYMOUS_SPEAKER_ID);
+      expect(redacted.federatedSpeakerId).toBeNull();
+      expect(redacted.speaker).toEqual({
+        id: ANONYMOUS_SPEAKER_ID,
+        name: ANONYMOUS_SPEAKER_NAME,
+        email: null,
+        image: null,
+        speakerProfile: null,
+      });
+    });
+
+    it('should keep non-identifying submission fields', () => {
+      const redacted = redactSubmission(submission);
+      expect(redacted.id).toBe('sub-1');
+      expect(redacted.title).toBe('Talk');
+    });
+
+    it('should number co-speakers and clear their details', () => {
+      expect(redactCoSpeakers(submission.coSpeakers)).toEqual([
+        { id: 'cs-1', name: 'Co-speaker 1', email: null, bio: null, avatarUrl: null },
+      ]);
+    });
+
+    it('should not add fields that were not loaded', () => {
+      const redacted = redactSubmission({ id: 'sub-2', speakerId: 'user-2' });
+      expect(redacted).toEqual({ id: 'sub-2', speakerId: ANONYMOUS_SPEAKER_ID });
+    });
+  });
+
+  describe('createReviewerAliases', () => {
+    it('should number reviewers in seed order', () => {
+      const aliasFor = createReviewerAliases('reviewer-me', ['r-a', 'r-b']);
+      expect(aliasFor('r-b')).toEqual({ id: 'anonymous-reviewer-2', name: 'Reviewer 2' });
+      expect(aliasFor('r-a')).toEqual({ id: 'anonymous-reviewer-1', name: 'Reviewer 1' });
+    });
+
+    it('should never alias the viewer', () => {
+      const aliasFor = createReviewerAliases('reviewer-me', ['r-a', 'reviewer-me', 'r-b']);
+      expect(aliasFor('reviewer-me')).toBeNull();
+      expect(aliasFor('r-b')?.name).toBe('Reviewer 2');
+    });
+
+    it('should assign new numbers to participants outside the seed', () => {
+      const aliasFor = createReviewerAliases('reviewer-me', ['r-a']);
+      expect(aliasFor('organizer-1')?.name).toBe('Reviewer 2');
+      expect(aliasFor('organizer-1')?.name).toBe('Reviewer 2');
+    });
+  });
+
+  describe('applyReviewerAnonymity', () => {
+    const reviews = [
+      {
+        id: 'rev-1',
+        reviewerId: 'r-a',
+        reviewer: { id: 'r-a', name: 'Alice', email: 'alice@example.com', image: null },
+        discussions: [
+          { id: 'd-1', authorId: 'reviewer-me', author: { id: 'reviewer-me', name: 'Me', image: null } },
+          { id: 'd-2', authorId: 'r-b', author: { id: 'r-b', name: 'Bob', image: null } },
+        ],
+      },
+      {
+        id: 'rev-2',
+        reviewerId: 'reviewer-me',
+        reviewer: { id: 'reviewer-me', name: 'Me', email: 'me@example.com', image: null },
+        discussions: [],
+      },
+      {
+        id: 'rev-3',
+        reviewerId: 'r-b',
+        reviewer: { id: 'r-b', name: 'Bob', email: 'bob@example.com', image: null },
+        discussions: [],
+      },
+    ];
+
+    it('should leave reviews untouched unless reviewers are hidden', () => {
+      const view = resolveAnonymityView('SPEAKER_HIDDEN', reviewer);
+      expect(applyReviewerAnonymity(reviews, view)).toBe(reviews);
+    });
+
+    it('should alias other reviewers and keep the viewer', () => {
+      const view = resolveAnonymityView('DOUBLE_BLIND', reviewer);
+      const result = applyReviewerAnonymity(reviews, view);
+
+      expect(result[0].reviewerId).toBe('anonymous-reviewer-1');
+      expect(result[0].reviewer).toEqual({
+        id: 'anonymous-reviewer-1',
+        name: 'Reviewer 1',
+        email: null,
+        image: null,
+      });
+      expect(result[1].reviewer.name).toBe('Me');
+      expect(result[2].reviewer.name).toBe('Reviewer 2');
+    });
+
+    it('should alias discussion authors consistently with reviewers', () => {
+      const view = resolveAnonymityView('DOUBLE_BLIND', reviewer);
+      const [first] = applyReviewerAnonymity(reviews, view);
+
+      expect(first.discussions[0].author.name).toBe('Me');
+      expect(first.discussions[1].authorId).toBe('anonymous-reviewer-2');
+      expect(first.discussions[1].author.name).toBe('Reviewer 2');
+    });
+
+    it('should show organizers real names', () => {
+      const view = resolveAnonymityView('DOUBLE_BLIND', organizer);
+      expect(applyReviewerAnonymity(reviews, view)).toBe(reviews);
+    });
+  });
+
+  describe('applyMessageAnonymity', () => {
+    const messages = [
+      {
+        id: 'm-1',
+        senderId: 'user-1',
+        senderType: 'SPEAKER',
+        sender: { id: 'user-1', name: 'Ada Lovelace', email: 'ada@example.com', image: null },
+        replies: [
+          {
+            id: 'm-2',
+            senderId: 'r-a',
+            senderType: 'REVIEWER',
+            sender: { id: 'r-a', name: 'Alice', email: 'alice@example.com', image: null },
+          },
+        ],
+      },
+    ];
+
+    it('should hide speaker senders from blind reviewers', () => {
+      const view = resolveAnonymityView('SPEAKER_HIDDEN', reviewer);
+      const [message] = applyMessageAnonymity(messages, view, createReviewerAliases(reviewer.id));
+
+      expect(message.senderId).toBeNull();
+      expect(message.sender?.name).toBe(ANONYMOUS_SPEAKER_NAME);
+      expect(message.replies?.[0].sender?.name).toBe('Alice');
+    });
+
+    it('should alias reviewer senders in double-blind events', () => {
+      const view = resolveAnonymityView('DOUBLE_BLIND', reviewer);
+      const [message] = applyMessageAnonymity(messages, view, createReviewerAliases(reviewer.id, ['r-a']));
+
+      expect(message.replies?.[0].senderId).toBe('anonymous-reviewer-1');
+      expect(message.replies?.[0].sender?.name).toBe('Reviewer 1');
+    });
+  });
+});
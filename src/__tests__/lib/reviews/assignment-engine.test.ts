@@ -0,0 +1,252 @@
+/**
+ * Review Assignment Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  reviewerCapacityHours,
+  normalizeCompany,
+  matchExpertise,
+  findConflict,
+  conflictKey,
+  generateAssignmentPlan,
+  type AssignmentReviewer,
+  type AssignmentSubmission,
+} from '@/lib/reviews/assignment-engine';
+
+function reviewer(id: string, overrides: Partial<AssignmentReviewer> = {}): AssignmentReviewer {
+  return {
+    id,
+    name: id,
+    company: null,
+    expertiseAreas: [],
+    hoursPerWeek: '2-5',
+    currentLoad: 0,
+    ...overrides,
+  };
+}
+
+function submission(id: string, overrides: Partial<AssignmentSubmission> = {}): AssignmentSubmission {
+  return {
+    id,
+    title: id,
+    speakerId: `speaker-${id}`,
+    coSpeakerIds: [],
+    topics: [],
+    speakerCompanies: [],
+    reviewedBy: [],
+    assignedTo: [],
+    ...overrides,
+  };
+}
+
+function assignedTo(plan: ReturnType<typeof generateAssignmentPlan>, submissionId: string) {
+  return plan.assignments.filter(a => a.submissionId === submissionId).map(a => a.reviewerId).sort();
+}
+
+describe('Review Assignment Engine', () => {
+  describe('reviewerCapacityHours', () => {
+    it('should map hoursPerWeek options to hours', () => {
+      expect(reviewerCapacityHours('1-2')).toBe(1.5);
+      expect(reviewerCapacityHours('5-10')).toBe(7.5);
+      expect(reviewerCapacityHours('10+')).toBe(12);
+    });
+
+    it('should fall back to the onboarding default', () => {
+      expect(reviewerCapacityHours(null)).toBe(3.5);
+      expect(reviewerCapacityHours('lots')).toBe(3.5);
+    });
+  });
+
+  describe('normalizeCompany', () => {
+    it('should ignore case, punctuation and legal suffixes', () => {
+      expect(normalizeCompany('Acme, Inc.')).toBe('acme');
+      expect(normalizeCompany('ACME GmbH')).toBe('acme');
+      expect(normalizeCompany('  Globex   Corporation ')).toBe('globex');
+    });
+
+    it('should return an empty string for missing companies', () => {
+      expect(normalizeCompany(null)).toBe('');
+      expect(normalizeCompany('')).toBe('');
+    });
+  });
+
+  describe('matchExpertise', () => {
+    it('should match labels case-insensitively', () => {
+      expect(matchExpertise(['Security', 'Frontend'], ['security'])).toEqual(['Security']);
+    });
+
+    it('should match when one label contains the other', () => {
+      expect(matchExpertise(['Cloud Security'], ['Security'])).toEqual(['Cloud Security']);
+      expect(matchExpertise(['Rust'], ['Rust in production'])).toEqual(['Rust']);
+    });
+
+    it('should ignore blank labels', () => {
+      expect(matchExpertise(['  '], ['Security'])).toEqual([]);
+      expect(matchExpertise(['Security'], [''])).toEqual([]);
+    });
+  });
+
+  describe('findConflict', () => {
+    const none = new Set<string>();
+
+    it('should flag the speaker', () => {
+      expect(findConflict(reviewer('speaker-s1'), submission('s1'), none)).toBe('SPEAKER');
+    });
+
+    it('should flag linked co-speakers as speakers', () => {
+      const s = submission('s1', { coSpeakerIds: ['r1'] });
+      expect(findConflict(reviewer('r1'), s, none)).toBe('SPEAKER');
+      expect(findConflict(reviewer('r2'), s, none)).toBeNull();
+    });
+
+    it('should flag reviewers from a speaker or co-speaker company', () => {
+      const s = submission('s1', { speakerCompanies: ['Initech', 'Acme Inc.'] });
+      expect(findConflict(reviewer('r1', { company: 'ACME' }), s, none)).toBe('SAME_COMPANY');
+      expect(findConflict(reviewer('r2', { company: 'Globex' }), s, none)).toBeNull();
+    });
+
+    it('should flag declared conflicts', () => {
+      const declared = new Set([conflictKey('s1', 'r1')]);
+      expect(findConflict(reviewer('r1'), submission('s1'), declared)).toBe('DECLARED');
+      expect(findConflict(reviewer('r1'), submission('s2'), declared)).toBeNull();
+    });
+
+    it('should not treat missing companies as a match', () => {
+      const s = submission('s1', { speakerCompanies: [] });
+      expect(findConflict(reviewer('r1', { company: null }), s, none)).toBeNull();
+    });
+  });
+
+  describe('generateAssignmentPlan', () => {
+    it('should fill every submission up to the minimum', () => {
+      const plan = generateAssignmentPlan({
+        submissions: [submission('s1'), submission('s2')],
+        reviewers: [reviewer('r1'), reviewer('r2'), reviewer('r3')],
+        minReviews: 2,
+        declaredConflicts: new Set(),
+      });
+
+      expect(assignedTo(plan, 's1')).toHaveLength(2);
+      expect(assignedTo(plan, 's2')).toHaveLength(2);
+      expect(plan.unfilled).toEqual([]);
+    });
+
+    it('should count existing reviews and assignments toward the minimum', () => {
+      const plan = generateAssignmentPlan({
+        submissions: [
+          submission('s1', { reviewedBy: ['r1'], assignedTo: ['r2'] }),
+          submission('s2', { reviewedBy: ['r1'] }),
+        ],
+        reviewers: [reviewer('r1'), reviewer('r2'), reviewer('r3')],
+        minReviews: 2,
+        declaredConflicts: new Set(),
+      });
+
+      expect(assignedTo(plan, 's1')).toEqual([]);
+      expect(assignedTo(plan, 's2')).toHaveLength(1);
+      expect(assignedTo(plan, 's2')).not.toContain('r1');
+    });
+
+    it('should never assign conflicted reviewers', () => {
+      const plan = generateAssignmentPlan({
+        submissions: [submission('s1', { speakerCompanies: ['Acme'], coSpeakerIds: ['r4'] })],
+        reviewers: [
+          reviewer('speaker-s1'),
+          reviewer('r1', { company: 'Acme Ltd' }),
+          reviewer('r2'),
+          reviewer('r3'),
+          reviewer('r4'),
+        ],
+        minReviews: 2,
+        declaredConflicts: new Set([conflictKey('s1', 'r2')]),
+      });
+
+      expect(assignedTo(plan, 's1')).toEqual(['r3']);
+      expect(plan.unfilled).toEqual([{ submissionId: 's1', missing: 1 }]);
+      expect(plan.conflicts.map(c => [c.reviewerId, c.reason])).toEqual([
+        ['speaker-s1', 'SPEAKER'],
+        ['r1', 'SAME_COMPANY'],
+        ['r2', 'DECLARED'],
+        ['r4', 'SPEAKER'],
+      ]);
+    });
+
+    it('should give reviewers with more hours more assignments', () => {
+      const plan = generateAssignmentPlan({
+        submissions: ['s1', 's2', 's3', 's4', 's5', 's6'].map(id => submission(id)),
+        reviewers: [
+          reviewer('busy', { hoursPerWeek: '1-2' }),
+          reviewer('free', { hoursPerWeek: '10+' }),
+        ],
+        minReviews: 1,
+        declaredConflicts: new Set(),
+      });
+
+      const load = new Map(plan.load.map(l => [l.reviewerId, l.proposed]));
+      expect(load.get('free')).toBeGreaterThan(load.get('busy')!);
+      expect(load.get('free')! + load.get('busy')!).toBe(6);
+    });
+
+    it('should account for existing load', () => {
+      const plan = generateAssignmentPlan({
+        submissions: [submission('s1'), submission('s2')],
+        reviewers: [reviewer('r1', { currentLoad: 10 }), reviewer('r2')],
+        minReviews: 1,
+        declaredConflicts: new Set(),
+      });
+
+      expect(plan.assignments.every(a => a.reviewerId === 'r2')).toBe(true);
+    });
+
+    it('should prefer reviewers whose expertise matches', () => {
+      const plan = generateAssignmentPlan({
+        submissions: [
+          submission('s1', { topics: ['Security'] }),
+          submission('s2', { topics: ['Frontend'] }),
+        ],
+        reviewers: [
+          reviewer('r1', { expertiseAreas: ['Frontend'] }),
+          reviewer('r2', { expertiseAreas: ['Application Security'] }),
+        ],
+        minReviews: 1,
+        declaredConflicts: new Set(),
+      });
+
+      expect(assignedTo(plan, 's1')).toEqual(['r2']);
+      expect(assignedTo(plan, 's2')).toEqual(['r1']);
+      expect(plan.assignments.find(a => a.submissionId === 's1')?.matchedExpertise)
+        .toEqual(['Application Security']);
+    });
+
+    it('should fill submissions with the fewest eligible reviewers first', () => {
+      // Only r1 can review s2, so s1 must not use r1 up when capacity is tight
+      const plan = generateAssignmentPlan({
+        submissions: [
+          submission('s1'),
+          submission('s2', { speakerCompanies: ['Acme'] }),
+        ],
+        reviewers: [
+          reviewer('r1', { hoursPerWeek: '1-2' }),
+          reviewer('r2', { company: 'Acme' }),
+        ],
+        minReviews: 1,
+        declaredConflicts: new Set(),
+      });
+
+      expect(assignedTo(plan, 's2')).toEqual(['r1']);
+      expect(assignedTo(plan, 's1')).toEqual(['r2']);
+    });
+
+    it('should be deterministic', () => {
+      const input = {
+        submissions: ['s1', 's2', 's3'].map(id => submission(id)),
+        reviewers: [reviewer('r1'), reviewer('r2'), reviewer('r3')],
+        minReviews: 2,
+        declaredConflicts: new Set<string>(),
+      };
+
+      expect(generateAssignmentPlan(input)).toEqual(generateAssignmentPlan(input));
+    });
+  });
+});
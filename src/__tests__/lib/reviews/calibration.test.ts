@@ -0,0 +1,110 @@
+/**
+ * Review Calibration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toCalibrationReviews,
+  getReviewerCalibration,
+  getSubmissionCalibration,
+  formatNormalizedScore,
+  type CalibrationReview,
+} from '@/lib/reviews/calibration';
+
+function reviews(scores: Record<string, Record<string, number>>): CalibrationReview[] {
+  return Object.entries(scores).flatMap(([reviewerId, bySubmission]) =>
+    Object.entries(bySubmission).map(([submissionId, score]) => ({ reviewerId, submissionId, score }))
+  );
+}
+
+describe('Review Calibration', () => {
+  describe('toCalibrationReviews', () => {
+    it('should keep only reviews with a score', () => {
+      const result = toCalibrationReviews([
+        { reviewerId: 'r1', submissionId: 's1', overallScore: 4, weightedScore: null },
+        { reviewerId: 'r1', submissionId: 's2', overallScore: 0, weightedScore: 3.5 },
+        { reviewerId: 'r1', submissionId: 's3', overallScore: 0, weightedScore: null },
+      ]);
+
+      expect(result).toEqual([
+        { reviewerId: 'r1', submissionId: 's1', score: 4 },
+        { reviewerId: 'r1', submissionId: 's2', score: 3.5 },
+      ]);
+    });
+  });
+
+  describe('getReviewerCalibration', () => {
+    const panel = reviews({
+      lenient: { s1: 5, s2: 4, s3: 5 },
+      b: { s1: 3, s2: 2, s3: 4 },
+      c: { s1: 3, s2: 2, s3: 4 },
+    });
+
+    it('should report mean and spread of each reviewer', () => {
+      const stats = getReviewerCalibration(panel).get('lenient')!;
+
+      expect(stats.reviewCount).toBe(3);
+      expect(stats.mean).toBeCloseTo(14 / 3);
+      expect(stats.spread).toBeCloseTo(Math.sqrt(2 / 9));
+    });
+
+    it('should compare each reviewer with the rest of the panel', () => {
+      const stats = getReviewerCalibration(panel);
+
+      expect(stats.get('lenient')!.bias).toBeCloseTo(5 / 3);
+      expect(stats.get('lenient')!.agreement).toBeCloseTo(Math.sqrt(3) / 2);
+      expect(stats.get('b')!.bias).toBeCloseTo(-5 / 6);
+      expect(stats.get('b')!.sharedCount).toBe(3);
+    });
+
+    it('should leave bias and agreement empty without shared submissions', () => {
+      const stats = getReviewerCalibration(reviews({ solo: { s1: 4, s2: 2 }, other: { s3: 5 } })).get('solo')!;
+
+      expect(stats.bias).toBeNull();
+      expect(stats.agreement).toBeNull();
+      expect(stats.sharedCount).toBe(0);
+    });
+  });
+
+  describe('getSubmissionCalibration', () => {
+    it('should even out lenient and harsh reviewers', () => {
+      const calibration = getSubmissionCalibration(reviews({
+        lenient: { s1: 5, s2: 4, s3: 3 },
+        harsh: { s4: 3, s5: 2, s6: 1 },
+      }));
+
+      expect(calibration.get('s1')!.normalizedScore).toBeCloseTo(calibration.get('s4')!.normalizedScore!);
+      expect(calibration.get('s2')!.normalizedScore).toBeCloseTo(0);
+      expect(calibration.get('s3')!.normalizedScore).toBeLessThan(0);
+    });
+
+    it('should count scores of a reviewer who never varies as average', () => {
+      const calibration = getSubmissionCalibration(reviews({
+        steady: { s1: 4, s2: 4, s3: 4 },
+        other: { s4: 1, s5: 5 },
+      }));
+
+      expect(calibration.get('s1')!.normalizedScore).toBe(0);
+    });
+
+    it('should flag submissions whose reviewers disagree', () => {
+      const calibration = getSubmissionCalibration(reviews({
+        a: { s1: 1, s2: 4, s3: 3 },
+        b: { s1: 5, s2: 4 },
+      }));
+
+      expect(calibration.get('s1')).toMatchObject({ spread: 2, highDisagreement: true });
+      expect(calibration.get('s2')).toMatchObject({ spread: 0, highDisagreement: false });
+      expect(calibration.get('s3')).toMatchObject({ spread: null, highDisagreement: false });
+    });
+  });
+
+  describe('formatNormalizedScore', () => {
+    it('should sign and round scores', () => {
+      expect(formatNormalizedScore(0.421)).toBe('+0.42');
+      expect(formatNormalizedScore(-1.1)).toBe('-1.10');
+      expect(formatNormalizedScore(0.001)).toBe('0.00');
+      expect(formatNormalizedScore(null)).toBe('-');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Criteria Scoring Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeWeightedScore,
+  matchCriterionScores,
+  averageCriterionScores,
+} from '@/lib/reviews/criteria-scoring';
+
+describe('Criteria Scoring', () => {
+  const criteria = [
+    { id: 'c-content', name: 'Content Quality', weight: 5 },
+    { id: 'c-relevance', name: 'Relevance', weight: 4 },
+    { id: 'c-speaker', name: 'Speaker Experience', weight: 1 },
+  ];
+
+  describe('computeWeightedScore', () => {
+    it('should weight each score by its criterion weight', () => {
+      // (5*5 + 3*4 + 1*1) / (5 + 4 + 1) = 38 / 10
+      expect(computeWeightedScore([
+        { score: 5, weight: 5 },
+        { score: 3, weight: 4 },
+        { score: 1, weight: 1 },
+      ])).toBeCloseTo(3.8);
+    });
+
+    it('should equal the plain average when weights are equal', () => {
+      expect(computeWeightedScore([
+        { score: 4, weight: 3 },
+        { score: 2, weight: 3 },
+      ])).toBe(3);
+    });
+
+    it('should return null without scores', () => {
+      expect(computeWeightedScore([])).toBeNull();
+    });
+  });
+
+  describe('matchCriterionScores', () => {
+    it('should attach names and weights to scores', () => {
+      const { scores, error } = matchCriterionScores(criteria, [
+        { criteriaId: 'c-relevance', score: 4 },
+      ]);
+
+      expect(error).toBeNull();
+      expect(scores).toEqual([
+        { criteriaId: 'c-relevance', score: 4, name: 'Relevance', weight: 4 },
+      ]);
+    });
+
+    it('should reject criteria from another event', () => {
+      const { scores, error } = matchCriterionScores(criteria, [
+        { criteriaId: 'c-content', score: 4 },
+        { criteriaId: 'other-event-criterion', score: 5 },
+      ]);
+
+      expect(error).not.toBeNull();
+      expect(scores).toEqual([]);
+    });
+  });
+
+  describe('averageCriterionScores', () => {
+    it('should average scores per criterion across reviews', () => {
+      const averages = averageCriterionScores([
+        { criterionScores: [
+          { score: 5, criteria: { name: 'Content Quality' } },
+          { score: 2, criteria: { name: 'Relevance' } },
+        ] },
+        { criterionScores: [
+          { score: 3, criteria: { name: 'Content Quality' } },
+        ] },
+      ]);
+
+      expect(averages).toEqual({ 'Content Quality': 4, Relevance: 2 });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Review Deadline Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getReviewPeriod,
+  formatReviewDeadline,
+  getReviewPeriodState,
+  getDueReminderStage,
+  computeReviewerProgress,
+  type ReviewPeriod,
+} from '@/lib/reviews/deadlines';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Deadline: end of October 31, 2026 in UTC
+const period: ReviewPeriod = {
+  startsAt: new Date('2026-10-01T00:00:00Z'),
+  endsAt: new Date('2026-11-01T00:00:00Z'),
+};
+
+function before(ms: number): Date {
+  return new Date(period.endsAt.getTime() - ms);
+}
+
+describe('Review Deadlines', () => {
+  describe('getReviewPeriod', () => {
+    it('should return null without an end date', () => {
+      expect(getReviewPeriod({
+        timezone: 'UTC',
+        reviewStartDate: new Date('2026-10-01T00:00:00Z'),
+        reviewEndDate: null,
+      })).toBeNull();
+    });
+
+    it('should read review dates as whole days in the event timezone', () => {
+      const result = getReviewPeriod({
+        timezone: 'America/New_York',
+        reviewStartDate: new Date('2026-10-01T00:00:00Z'),
+        reviewEndDate: new Date('2026-10-31T00:00:00Z'),
+      });
+
+      expect(result).toEqual({
+        startsAt: new Date('2026-10-01T04:00:00Z'),
+        endsAt: new Date('2026-11-01T04:00:00Z'),
+      });
+    });
+
+    it('should leave the start open when not set', () => {
+      const result = getReviewPeriod({
+        timezone: 'UTC',
+        reviewStartDate: null,
+        reviewEndDate: new Date('2026-10-31T00:00:00Z'),
+      });
+
+      expect(result?.startsAt).toBeNull();
+    });
+  });
+
+  describe('formatReviewDeadline', () => {
+    it('should show the last review day with the timezone', () => {
+      expect(formatReviewDeadline(period, 'UTC')).toBe('October 31, 2026, end of day (UTC)');
+    });
+  });
+
+  describe('getReviewPeriodState', () => {
+    it('should follow the period from start to deadline', () => {
+      expect(getReviewPeriodState(period, new Date('2026-09-30T12:00:00Z'))).toBe('upcoming');
+      expect(getReviewPeriodState(period, new Date('2026-10-10T00:00:00Z'))).toBe('open');
+      expect(getReviewPeriodState(period, before(2 * DAY_MS))).toBe('closing');
+      expect(getReviewPeriodState(period, period.endsAt)).toBe('overdue');
+    });
+  });
+
+  describe('getDueReminderStage', () => {
+    it('should return nothing well before the deadline', () => {
+      expect(getDueReminderStage(period, before(10 * DAY_MS))).toBeNull();
+    });
+
+    it('should return the latest stage reached', () => {
+      expect(getDueReminderStage(period, before(6 * DAY_MS))).toBe('days-7');
+      expect(getDueReminderStage(period, before(3 * DAY_MS))).toBe('days-3');
+      expect(getDueReminderStage(period, before(2 * HOUR_MS))).toBe('days-1');
+    });
+
+    it('should return overdue only within the grace period', () => {
+      expect(getDueReminderStage(period, new Date(period.endsAt.getTime() + DAY_MS))).toBe('overdue');
+      expect(getDueReminderStage(period, new Date(period.endsAt.getTime() + 8 * DAY_MS))).toBeNull();
+    });
+
+    it('should not remind before the review period starts', () => {
+      const short: ReviewPeriod = { startsAt: before(2 * DAY_MS), endsAt: period.endsAt };
+
+      expect(getDueReminderStage(short, before(5 * DAY_MS))).toBeNull();
+      expect(getDueReminderStage(short, before(DAY_MS))).toBe('days-1');
+    });
+  });
+
+  describe('computeReviewerProgress', () => {
+    it('should count completed and pending assignments per reviewer', () => {
+      const progress = computeReviewerProgress(
+        [
+          { reviewerId: 'r1', submissionId: 's1' },
+          { reviewerId: 'r1', submissionId: 's2' },
+          { reviewerId: 'r2', submissionId: 's1' },
+        ],
+        new Set(['r1:s1', 'r2:s2'])
+      );
+
+      expect(progress).toEqual([
+        { reviewerId: 'r1', assigned: 2, completed: 1, pending: 1 },
+        { reviewerId: 'r2', assigned: 1, completed: 0, pending: 1 },
+      ]);
+    });
+  });
+});
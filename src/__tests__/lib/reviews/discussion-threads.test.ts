@@ -0,0 +1,117 @@
+/**
+ * Discussion Thread Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_DISCUSSION_DEPTH,
+  buildDiscussionThreads,
+  getDiscussionDepth,
+  getThreadRootId,
+  mentionToken,
+  tokenizeMentions,
+  renderMentions,
+} from '@/lib/reviews/discussion-threads';
+
+describe('Discussion Threads', () => {
+  const post = (id: string, parentId: string | null, minute: number, isPinned = false) => ({
+    id,
+    parentId,
+    isPinned,
+    createdAt: new Date(Date.UTC(2026, 9, 20, 12, minute)),
+  });
+
+  describe('buildDiscussionThreads', () => {
+    it('should nest replies under their parents in order', () => {
+      const threads = buildDiscussionThreads([
+        post('reply-2', 'root', 3),
+        post('root', null, 0),
+        post('reply-1', 'root', 1),
+        post('nested', 'reply-1', 2),
+      ]);
+
+      expect(threads).toHaveLength(1);
+      expect(threads[0].replies.map(r => r.id)).toEqual(['reply-1', 'reply-2']);
+      expect(threads[0].replies[0].replies.map(r => r.id)).toEqual(['nested']);
+    });
+
+    it('should put pinned threads first', () => {
+      const threads = buildDiscussionThreads([
+        post('first', null, 0),
+        post('second', null, 1),
+        post('pinned', null, 2, true),
+      ]);
+
+      expect(threads.map(t => t.id)).toEqual(['pinned', 'first', 'second']);
+    });
+
+    it('should start a thread for a reply whose parent is missing', () => {
+      const threads = buildDiscussionThreads([post('orphan', 'gone', 0)]);
+
+      expect(threads.map(t => t.id)).toEqual(['orphan']);
+    });
+  });
+
+  describe('depth and roots', () => {
+    const parentOf = new Map<string, string | null>([
+      ['root', null],
+      ['a', 'root'],
+      ['b', 'a'],
+      ['c', 'b'],
+    ]);
+
+    it('should measure depth below the first post', () => {
+      expect(getDiscussionDepth('root', parentOf)).toBe(0);
+      expect(getDiscussionDepth('c', parentOf)).toBe(3);
+    });
+
+    it('should find the first post of the thread', () => {
+      expect(getThreadRootId('c', parentOf)).toBe('root');
+      expect(getThreadRootId('root', parentOf)).toBe('root');
+    });
+
+    it('should stop on a cycle', () => {
+      const cycle = new Map<string, string | null>([['x', 'y'], ['y', 'x']]);
+
+      expect(getDiscussionDepth('x', cycle)).toBe(MAX_DISCUSSION_DEPTH + 1);
+    });
+  });
+
+  describe('mentions', () => {
+    const candidates = [
+      { userId: 'u1', handle: 'Reviewer 1' },
+      { userId: 'u12', handle: 'Reviewer 12' },
+      { userId: 'jane', handle: 'Jane Doe' },
+    ];
+
+    it('should tokenize mentioned handles', () => {
+      const result = tokenizeMentions('<p>@jane doe and @Reviewer 12, thoughts?</p>', candidates);
+
+      expect(result.content).toBe(`<p>${mentionToken('jane')} and ${mentionToken('u12')}, thoughts?</p>`);
+      expect(result.mentionedUserIds.sort()).toEqual(['jane', 'u12']);
+    });
+
+    it('should not match a handle that runs into another word', () => {
+      const result = tokenizeMentions('<p>@Jane Doesmith</p>', candidates);
+
+      expect(result.mentionedUserIds).toEqual([]);
+    });
+
+    it('should match handles as escaped by the sanitizer', () => {
+      const result = tokenizeMentions('<p>@Tom &amp; Jerry</p>', [{ userId: 't', handle: 'Tom & Jerry' }]);
+
+      expect(result.mentionedUserIds).toEqual(['t']);
+    });
+
+    it('should render tokens as escaped names', () => {
+      const content = `<p>${mentionToken('u1')} see ${mentionToken('other')}</p>`;
+      const html = renderMentions(content, id => (id === 'u1' ? '<b>Reviewer 1</b>' : null));
+
+      expect(html).toBe(`<p><strong>@&lt;b&gt;Reviewer 1&lt;/b&gt;</strong> see ${mentionToken('other')}</p>`);
+    });
+
+    it('should render tokens as plain text', () => {
+      expect(renderMentions(`${mentionToken('u1')} agreed`, () => 'Reviewer 1', 'text')).toBe('@Reviewer 1 agreed');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Review Mode Helper Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getReviewMode,
+  validateReviewForMode,
+  averageReviewScore,
+  tallyVotes,
+  computeRankingStandings,
+  aggregateSubmission,
+  compareAggregates,
+} from '@/lib/reviews/review-modes';
+
+describe('Review Modes', () => {
+  describe('getReviewMode', () => {
+    it('should return known modes unchanged', () => {
+      expect(getReviewMode('scoring')).toBe('scoring');
+      expect(getReviewMode('voting')).toBe('voting');
+      expect(getReviewMode('ranking')).toBe('ranking');
+    });
+
+    it('should fall back to scoring for unknown values', () => {
+      expect(getReviewMode('something-else')).toBe('scoring');
+      expect(getReviewMode(null)).toBe('scoring');
+      expect(getReviewMode(undefined)).toBe('scoring');
+    });
+  });
+
+  describe('validateReviewForMode', () => {
+    it('should require a vote in voting mode', () => {
+      expect(validateReviewForMode('voting', {})).not.toBeNull();
+      expect(validateReviewForMode('voting', { vote: 'YES' })).toBeNull();
+    });
+
+    it('should allow partial updates to leave the vote untouched', () => {
+      expect(validateReviewForMode('voting', {}, { partial: true })).toBeNull();
+      expect(validateReviewForMode('voting', { vote: null }, { partial: true })).not.toBeNull();
+    });
+
+    it('should reject votes in scoring mode', () => {
+      expect(validateReviewForMode('scoring', { vote: 'NO' })).not.toBeNull();
+      expect(validateReviewForMode('scoring', {})).toBeNull();
+    });
+
+    it('should only accept criterion scores in scoring mode', () => {
+      const criterionScores = [{ criteriaId: 'c-1', score: 4 }];
+      expect(validateReviewForMode('scoring', { criterionScores })).toBeNull();
+      expect(validateReviewForMode('voting', { vote: 'YES', criterionScores })).not.toBeNull();
+    });
+
+    it('should reject individual reviews in ranking mode', () => {
+      expect(validateReviewForMode('ranking', {})).not.toBeNull();
+    });
+  });
+
+  describe('averageReviewScore', () => {
+    it('should ignore missing scores', () => {
+      expect(averageReviewScore([
+        { overallScore: 4 },
+        { overallScore: null },
+        { overallScore: 2 },
+      ])).toBe(3);
+    });
+
+    it('should prefer the weighted criteria score over the overall score', () => {
+      expect(averageReviewScore([
+        { overallScore: 4, weightedScore: 3.5 },
+        { overallScore: 5 },
+      ])).toBe(4.25);
+    });
+
+    it('should return null without scores', () => {
+      expect(averageReviewScore([])).toBeNull();
+      expect(averageReviewScore([{ overallScore: null }])).toBeNull();
+    });
+  });
+
+  describe('tallyVotes', () => {
+    it('should count votes and compute approval without abstentions', () => {
+      const tally = tallyVotes([
+        { vote: 'YES' },
+        { vote: 'YES' },
+        { vote: 'YES' },
+        { vote: 'NO' },
+        { vote: 'ABSTAIN' },
+        { vote: null },
+      ]);
+
+      expect(tally).toEqual({ yes: 3, no: 1, abstain: 1, total: 5, approval: 0.75 });
+    });
+
+    it('should return null approval when everyone abstained', () => {
+      expect(tallyVotes([{ vote: 'ABSTAIN' }]).approval).toBeNull();
+    });
+  });
+
+  describe('computeRankingStandings', () => {
+    it('should combine rankings into average positions and scores', () => {
+      const standings = computeRankingStandings([
+        { entries: [
+          { submissionId: 'a', position: 0 },
+          { submissionId: 'b', position: 1 },
+          { submissionId: 'c', position: 2 },
+        ] },
+        { entries: [
+          { submissionId: 'b', position: 0 },
+          { submissionId: 'a', position: 1 },
+          { submissionId: 'c', position: 2 },
+        ] },
+      ]);
+
+      expect(standings.get('a')).toEqual({ averagePosition: 1.5, score: 0.75, rankCount: 2 });
+      expect(standings.get('b')).toEqual({ averagePosition: 1.5, score: 0.75, rankCount: 2 });
+      expect(standings.get('c')).toEqual({ averagePosition: 3, score: 0, rankCount: 2 });
+    });
+
+    it('should order entries by position rather than array order', () => {
+      const standings = computeRankingStandings([
+        { entries: [
+          { submissionId: 'b', position: 1 },
+          { submissionId: 'a', position: 0 },
+        ] },
+      ]);
+
+      expect(standings.get('a')?.score).toBe(1);
+      expect(standings.get('b')?.score).toBe(0);
+    });
+
+    it('should give equal weight to rankings of different lengths', () => {
+      const standings = computeRankingStandings([
+        { entries: [
+          { submissionId: 'a', position: 0 },
+          { submissionId: 'b', position: 1 },
+        ] },
+        { entries: [
+          { submissionId: 'c', position: 0 },
+          { submissionId: 'd', position: 1 },
+          { submissionId: 'e', position: 2 },
+          { submissionId: 'f', position: 3 },
+        ] },
+      ]);
+
+      expect(standings.get('a')?.score).toBe(1);
+      expect(standings.get('c')?.score).toBe(1);
+    });
+  });
+
+  describe('aggregateSubmission', () => {
+    it('should summarize scoring reviews', () => {
+      const aggregate = aggregateSubmission('scoring', {
+        reviews: [{ overallScore: 4 }, { overallScore: 5 }],
+      });
+
+      expect(aggregate.sortValue).toBe(4.5);
+      expect(aggregate.label).toBe('4.5');
+      expect(aggregate.detail).toBe('2 reviews');
+    });
+
+    it('should summarize voting reviews', () => {
+      const aggregate = aggregateSubmission('voting', {
+        reviews: [{ vote: 'YES' }, { vote: 'NO' }, { vote: 'ABSTAIN' }],
+      });
+
+      expect(aggregate.sortValue).toBe(0.5);
+      expect(aggregate.label).toBe('50%');
+      expect(aggregate.detail).toBe('1 yes · 1 no · 1 abstain');
+    });
+
+    it('should summarize ranking standings', () => {
+      const aggregate = aggregateSubmission('ranking', {
+        reviews: [],
+        standing: { averagePosition: 2, score: 0.5, rankCount: 1 },
+      });
+
+      expect(aggregate.sortValue).toBe(0.5);
+      expect(aggregate.label).toBe('#2.0');
+      expect(aggregate.detail).toBe('Ranked by 1 reviewer');
+    });
+
+    it('should report missing data', () => {
+      expect(aggregateSubmission('voting', { reviews: [] }).sortValue).toBeNull();
+      expect(aggregateSubmission('ranking', { reviews: [] }).detail).toBe('Not ranked');
+    });
+  });
+
+  describe('compareAggregates', () => {
+    it('should sort best first with missing data last', () => {
+      const aggregates = [
+        aggregateSubmission('voting', { reviews: [] }),
+        aggregateSubmission('voting', { reviews: [{ vote: 'NO' }] }),
+        aggregateSubmission('voting', { reviews: [{ vote: 'YES' }] }),
+      ];
+
+      const sorted = [...aggregates].sort(compareAggregates);
+      expect(sorted.map(a => a.sortValue)).toEqual([1, 0, null]);
+    });
+  });
+});
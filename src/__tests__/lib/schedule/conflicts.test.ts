@@ -0,0 +1,92 @@
+/**
+ * Schedule Conflict Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectScheduleConflicts,
+  slotDurationMinutes,
+  type ConflictCheckSlot,
+} from '@/lib/schedule/conflicts';
+
+function slot(
+  id: string,
+  roomId: string,
+  start: string,
+  end: string,
+  submission: Partial<NonNullable<ConflictCheckSlot['submission']>> | null = null
+): ConflictCheckSlot {
+  return {
+    id,
+    roomId,
+    startsAt: new Date(`2026-11-20T${start}:00Z`),
+    endsAt: new Date(`2026-11-20T${end}:00Z`),
+    submission: submission
+      ? { id: `sub-${id}`, title: `Talk ${id}`, durationMin: null, speakerKeys: [], ...submission }
+      : null,
+  };
+}
+
+describe('Schedule Conflict Detection', () => {
+  it('should measure slot length in minutes', () => {
+    expect(slotDurationMinutes(slot('a', 'r1', '09:00', '09:45'))).toBe(45);
+  });
+
+  it('should find nothing in a clean schedule', () => {
+    expect(detectScheduleConflicts([
+      slot('a', 'r1', '09:00', '09:30', { speakerKeys: ['u1'], durationMin: 30 }),
+      slot('b', 'r1', '09:30', '10:00', { speakerKeys: ['u1'] }),
+      slot('c', 'r2', '09:00', '09:30', { speakerKeys: ['u2'] }),
+    ])).toEqual([]);
+  });
+
+  it('should flag overlapping slots in one room', () => {
+    const conflicts = detectScheduleConflicts([
+      slot('a', 'r1', '09:00', '10:00'),
+      slot('b', 'r1', '09:30', '10:30'),
+      slot('c', 'r2', '09:30', '10:30'),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'ROOM_OVERLAP', slotIds: ['a', 'b'] });
+  });
+
+  it('should flag a speaker booked into overlapping slots', () => {
+    const conflicts = detectScheduleConflicts([
+      slot('a', 'r1', '09:00', '10:00', { speakerKeys: ['u1', 'email:co@example.com'] }),
+      slot('b', 'r2', '09:45', '10:30', { speakerKeys: ['u2', 'email:co@example.com'] }),
+    ]);
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        type: 'SPEAKER_DOUBLE_BOOKED',
+        slotIds: ['a', 'b'],
+        speakerKey: 'email:co@example.com',
+      }),
+    ]);
+  });
+
+  it('should flag talks longer than their slot', () => {
+    const conflicts = detectScheduleConflicts([
+      slot('a', 'r1', '09:00', '09:30', { durationMin: 45 }),
+      slot('b', 'r1', '10:00', '10:45', { durationMin: 45 }),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'TALK_TOO_LONG', slotIds: ['a'] });
+    expect(conflicts[0].message).toContain('45 min');
+  });
+
+  it('should ignore talks of unknown length', () => {
+    expect(detectScheduleConflicts([slot('a', 'r1', '09:00', '09:10', { durationMin: null })])).toEqual([]);
+  });
+
+  it('should order conflicts by slot start time', () => {
+    const conflicts = detectScheduleConflicts([
+      slot('late', 'r1', '14:00', '14:30', { durationMin: 60 }),
+      slot('early', 'r2', '09:00', '09:30', { durationMin: 60 }),
+    ]);
+
+    expect(conflicts.map(c => c.slotIds[0])).toEqual(['early', 'late']);
+  });
+});
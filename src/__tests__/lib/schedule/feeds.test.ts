@@ -0,0 +1,213 @@
+/**
+ * Schedule Feed Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  sessionGuid,
+  toZonedIso,
+  escapeIcsText,
+  foldIcsLine,
+  buildScheduleIcs,
+  buildFrabSchedule,
+} from '@/lib/schedule/feeds';
+import type { PublishedSchedule, PublishedSession } from '@/lib/schedule/public';
+import { formatUtcOffset, getTimezoneOffsetMinutes, getTimezoneOptions, getUtcOffsetAt } from '@/lib/timezone-utils';
+
+const options = { baseUrl: 'https://cfp.example.com/' };
+
+function session(overrides: Partial<PublishedSession> = {}): PublishedSession {
+  return {
+    id: 'slot-1',
+    submissionId: 'sub-1',
+    title: 'Scaling Postgres',
+    abstract: 'Replication, sharding; and more',
+    // 10:00-10:45 in Berlin (UTC+2 in June)
+    startsAt: new Date('2026-06-10T08:00:00Z'),
+    endsAt: new Date('2026-06-10T08:45:00Z'),
+    date: '2026-06-10',
+    startTime: '10:00',
+    endTime: '10:45',
+    durationMin: 45,
+    room: { id: 'room-a', name: 'Main Hall' },
+    track: { id: 'track-1', name: 'Databases', color: '#0ea5e9' },
+    formatName: 'Talk',
+    speakers: [{ name: 'Ada Lovelace' }],
+    ...overrides,
+  };
+}
+
+function schedule(sessions: PublishedSession[]): PublishedSchedule {
+  return {
+    event: {
+      id: 'event-1',
+      slug: 'devconf',
+      name: 'DevConf, 2026',
+      websiteUrl: null,
+      venueName: 'Congress Center',
+      venueCity: 'Berlin',
+      isVirtual: false,
+    },
+    timezone: 'Europe/Berlin',
+    days: ['2026-06-10', '2026-06-11'],
+    hours: { start: '09:00', end: '17:00' },
+    publishedAt: new Date('2026-05-01T12:00:00Z'),
+    rooms: [{ id: 'room-a', name: 'Main Hall' }, { id: 'room-b', name: 'Workshop Room' }],
+    tracks: [{ id: 'track-1', name: 'Databases', color: '#0ea5e9' }],
+    sessions,
+  };
+}
+
+describe('Timezone offsets', () => {
+  it('should compute offsets at a given instant', () => {
+    expect(getTimezoneOffsetMinutes('Europe/Berlin', new Date('2026-01-15T12:00:00Z'))).toBe(60);
+    expect(getTimezoneOffsetMinutes('Europe/Berlin', new Date('2026-06-15T12:00:00Z'))).toBe(120);
+    expect(getTimezoneOffsetMinutes('Asia/Kolkata', new Date('2026-06-15T12:00:00Z'))).toBe(330);
+  });
+
+  it('should format offsets with sign and padding', () => {
+    expect(formatUtcOffset(330)).toBe('+05:30');
+    expect(formatUtcOffset(-480)).toBe('-08:00');
+    expect(formatUtcOffset(0)).toBe('+00:00');
+    expect(getUtcOffsetAt('America/Los_Angeles', new Date('2026-01-15T12:00:00Z'))).toBe('-08:00');
+    expect(getUtcOffsetAt('UTC', new Date('2026-01-15T12:00:00Z'))).toBe('+00:00');
+    expect(getUtcOffsetAt('Not/AZone', new Date())).toBe('');
+  });
+
+  it('should keep timezone picker offsets empty for UTC', () => {
+    const timezones = getTimezoneOptions();
+    expect(timezones.find(o => o.value === 'UTC')?.offset).toBe('');
+    expect(timezones.find(o => o.value === 'UTC')?.label).toBe('UTC (Coordinated Universal Time)');
+  });
+});
+
+describe('Schedule Feeds', () => {
+  describe('sessionGuid', () => {
+    it('should be a stable version 5 UUID per talk', () => {
+      const guid = sessionGuid('event-1', { id: 'slot-1', submissionId: 'sub-1' });
+      expect(guid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      // Moving the talk to another slot keeps its guid
+      expect(sessionGuid('event-1', { id: 'slot-2', submissionId: 'sub-1' })).toBe(guid);
+      expect(sessionGuid('event-1', { id: 'slot-1', submissionId: 'sub-2' })).not.toBe(guid);
+    });
+  });
+
+  describe('toZonedIso', () => {
+    it('should write local time with the offset in effect', () => {
+      expect(toZonedIso(new Date('2026-06-10T08:00:00Z'), 'Europe/Berlin')).toBe('2026-06-10T10:00:00+02:00');
+      expect(toZonedIso(new Date('2026-01-10T08:00:00Z'), 'Europe/Berlin')).toBe('2026-01-10T09:00:00+01:00');
+      expect(toZonedIso(new Date('2026-06-10T08:00:00Z'), 'Asia/Kolkata')).toBe('2026-06-10T13:30:00+05:30');
+    });
+  });
+
+  describe('iCalendar', () => {
+    it('should escape text values', () => {
+      expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+      const lines = folded.split('\r\n');
+      expect(lines.length).toBeGreaterThan(1);
+      for (const line of lines) {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      }
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+    });
+
+    it('should build a calendar with one event per session in UTC', () => {
+      const ics = buildScheduleIcs(schedule([session()]), options);
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('X-WR-CALNAME:DevConf\\, 2026');
+      expect(ics).toContain('X-WR-TIMEZONE:Europe/Berlin');
+      expect(ics).toContain('DTSTART:20260610T080000Z');
+      expect(ics).toContain('DTEND:20260610T084500Z');
+      expect(ics).toContain('DTSTAMP:20260501T120000Z');
+      expect(ics).toContain('LOCATION:Main Hall\\, Congress Center\\, Berlin');
+      expect(ics).toContain('CATEGORIES:Databases');
+      expect(ics).toContain('URL:https://cfp.example.com/e/devconf/schedule#session-slot-1');
+      expect(ics).toContain(`UID:${sessionGuid('event-1', session())}@cfp.example.com`);
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+
+    it('should only include the given sessions', () => {
+      const talks = [session(), session({ id: 'slot-2', submissionId: 'sub-2', title: 'Other' })];
+      const ics = buildScheduleIcs(schedule(talks), options, [talks[1]]);
+
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+      expect(ics).toContain('SUMMARY:Other');
+    });
+  });
+
+  describe('Frab JSON', () => {
+    it('should describe the conference in the event timezone', () => {
+      const { conference, version, base_url } = buildFrabSchedule(schedule([session()]), options).schedule;
+
+      expect(version).toBe('2026-05-01T12:00:00.000Z');
+      expect(base_url).toBe('https://cfp.example.com/e/devconf/');
+      expect(conference.acronym).toBe('devconf');
+      expect(conference.start).toBe('2026-06-10');
+      expect(conference.end).toBe('2026-06-11');
+      expect(conference.daysCount).toBe(2);
+      expect(conference.time_zone_name).toBe('Europe/Berlin');
+      expect(conference.rooms.map(r => r.name)).toEqual(['Main Hall', 'Workshop Room']);
+      expect(conference.tracks).toEqual([{ name: 'Databases', color: '#0ea5e9' }]);
+    });
+
+    it('should group talks by day and room', () => {
+      const breakSession = session({
+        id: 'slot-3',
+        submissionId: null,
+        title: 'Lunch',
+        abstract: null,
+        track: null,
+        speakers: [],
+        startsAt: new Date('2026-06-11T10:00:00Z'),
+        endsAt: new Date('2026-06-11T11:00:00Z'),
+        date: '2026-06-11',
+        startTime: '12:00',
+        endTime: '13:00',
+        durationMin: 60,
+        room: { id: 'room-b', name: 'Workshop Room' },
+      });
+      const { days } = buildFrabSchedule(schedule([session(), breakSession]), options).schedule.conference;
+
+      expect(days).toHaveLength(2);
+      expect(days[0].index).toBe(1);
+      expect(days[0].day_start).toBe('2026-06-10T09:00:00+02:00');
+      expect(days[0].day_end).toBe('2026-06-10T17:00:00+02:00');
+      expect(days[0].rooms['Workshop Room']).toEqual([]);
+
+      const [talk] = days[0].rooms['Main Hall'];
+      expect(talk.date).toBe('2026-06-10T10:00:00+02:00');
+      expect(talk.start).toBe('10:00');
+      expect(talk.duration).toBe('00:45');
+      expect(talk.room).toBe('Main Hall');
+      expect(talk.slug).toBe('devconf-scaling-postgres');
+      expect(talk.track).toBe('Databases');
+      expect(talk.type).toBe('Talk');
+      expect(talk.persons).toEqual([{ public_name: 'Ada Lovelace' }]);
+
+      const [lunch] = days[1].rooms['Workshop Room'];
+      expect(lunch.type).toBe('Break');
+      expect(lunch.duration).toBe('01:00');
+      expect(lunch.persons).toEqual([]);
+    });
+
+    it('should stretch the day to cover sessions outside daily hours', () => {
+      const late = session({
+        startsAt: new Date('2026-06-10T16:00:00Z'),
+        endsAt: new Date('2026-06-10T17:30:00Z'),
+        startTime: '18:00',
+        endTime: '19:30',
+        durationMin: 90,
+      });
+      const [day] = buildFrabSchedule(schedule([late]), options).schedule.conference.days;
+
+      expect(day.day_start).toBe('2026-06-10T09:00:00+02:00');
+      expect(day.day_end).toBe('2026-06-10T19:30:00+02:00');
+    });
+  });
+});
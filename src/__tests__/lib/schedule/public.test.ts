@@ -0,0 +1,95 @@
+/**
+ * Published Schedule Tests
+ *
+ * The public agenda only shows published schedules and only public
+ * speaker details.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    event: {
+      findUnique: vi.fn(),
+    },
+    scheduleSlot: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { getPublishedSchedule } from '@/lib/schedule/public';
+
+const event = {
+  id: 'event-1',
+  slug: 'devconf',
+  name: 'DevConf',
+  websiteUrl: null,
+  venueName: null,
+  venueCity: null,
+  isVirtual: false,
+  isPublished: true,
+  timezone: 'UTC',
+  startDate: new Date('2026-06-10T00:00:00Z'),
+  endDate: new Date('2026-06-10T00:00:00Z'),
+  startTime: '09:00',
+  endTime: '17:00',
+  schedulePublishedAt: new Date('2026-06-01T00:00:00Z'),
+  rooms: [{ id: 'room-a', name: 'Main Hall' }],
+  tracks: [],
+};
+
+const talk = {
+  id: 'slot-1',
+  roomId: 'room-a',
+  title: null,
+  startsAt: new Date('2026-06-10T10:00:00Z'),
+  endsAt: new Date('2026-06-10T10:45:00Z'),
+  talkFormat: null,
+  submission: {
+    id: 'sub-1',
+    title: 'Scaling Postgres',
+    abstract: null,
+    speaker: { name: 'Ada Lovelace' },
+    track: null,
+    format: null,
+    coSpeakers: [{ name: 'Grace Hopper' }],
+  },
+};
+
+describe('Published Schedule', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.event.findUnique).mockResolvedValue(event as never);
+    vi.mocked(prisma.scheduleSlot.findMany).mockResolvedValue([talk] as never);
+  });
+
+  it('returns null until the schedule is published', async () => {
+    vi.mocked(prisma.event.findUnique).mockResolvedValue({ ...event, schedulePublishedAt: null } as never);
+
+    await expect(getPublishedSchedule('devconf')).resolves.toBeNull();
+    expect(prisma.scheduleSlot.findMany).not.toHaveBeenCalled();
+  });
+
+  it('lists speakers by name without their ids', async () => {
+    const schedule = await getPublishedSchedule('devconf');
+
+    expect(schedule?.sessions[0].speakers).toEqual([{ name: 'Ada Lovelace' }, { name: 'Grace Hopper' }]);
+
+    const { select } = vi.mocked(prisma.scheduleSlot.findMany).mock.calls[0][0]!;
+    const submission = (select as { submission: { select: Record<string, unknown> } }).submission.select;
+    expect(submission).not.toHaveProperty('speakerId');
+    expect(submission.coSpeakers).toMatchObject({ select: { name: true } });
+  });
+
+  it('leaves out co-speakers who have not accepted their invitation', async () => {
+    await getPublishedSchedule('devconf');
+
+    const { select } = vi.mocked(prisma.scheduleSlot.findMany).mock.calls[0][0]!;
+    const submission = (select as { submission: { select: Record<string, unknown> } }).submission.select;
+    expect(submission.coSpeakers).toMatchObject({
+      where: { OR: [{ invitationStatus: 'ACCEPTED' }, { invitationStatus: null }] },
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Schedule Time Helper Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SCHEDULE_DAYS,
+  isValidTime,
+  isValidDate,
+  zonedTimeToUtc,
+  utcToZonedTime,
+  getEventDays,
+  getDailyHours,
+  checkSlotWithinEvent,
+} from '@/lib/schedule/time';
+
+describe('Schedule Time Helpers', () => {
+  describe('isValidTime / isValidDate', () => {
+    it('should accept 24h times', () => {
+      expect(isValidTime('09:00')).toBe(true);
+      expect(isValidTime('23:59')).toBe(true);
+      expect(isValidTime('24:00')).toBe(false);
+      expect(isValidTime('9:00')).toBe(false);
+    });
+
+    it('should accept real calendar dates', () => {
+      expect(isValidDate('2026-11-20')).toBe(true);
+      expect(isValidDate('2026-13-01')).toBe(false);
+      expect(isValidDate('20-11-2026')).toBe(false);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should treat UTC as identity', () => {
+      expect(zonedTimeToUtc('2026-11-20', '09:30', 'UTC').toISOString()).toBe('2026-11-20T09:30:00.000Z');
+    });
+
+    it('should apply the offset in effect on that date', () => {
+      // Berlin is UTC+1 in winter and UTC+2 in summer
+      expect(zonedTimeToUtc('2026-01-15', '09:00', 'Europe/Berlin').toISOString()).toBe('2026-01-15T08:00:00.000Z');
+      expect(zonedTimeToUtc('2026-07-15', '09:00', 'Europe/Berlin').toISOString()).toBe('2026-07-15T07:00:00.000Z');
+      expect(zonedTimeToUtc('2026-07-15', '09:00', 'America/New_York').toISOString()).toBe('2026-07-15T13:00:00.000Z');
+    });
+
+    it('should handle fractional offsets', () => {
+      expect(zonedTimeToUtc('2026-03-10', '10:00', 'Asia/Kolkata').toISOString()).toBe('2026-03-10T04:30:00.000Z');
+    });
+
+    it('should move times skipped by DST forward', () => {
+      // 02:30 does not exist in New York on 2026-03-08
+      const instant = zonedTimeToUtc('2026-03-08', '02:30', 'America/New_York');
+      expect(utcToZonedTime(instant, 'America/New_York')).toEqual({ date: '2026-03-08', time: '03:30' });
+    });
+
+    it('should fall back to UTC for unknown timezones', () => {
+      expect(zonedTimeToUtc('2026-11-20', '09:00', 'Mars/Olympus').toISOString()).toBe('2026-11-20T09:00:00.000Z');
+    });
+  });
+
+  describe('utcToZonedTime', () => {
+    it('should round-trip with zonedTimeToUtc', () => {
+      const instant = zonedTimeToUtc('2026-10-31', '23:45', 'Australia/Sydney');
+      expect(utcToZonedTime(instant, 'Australia/Sydney')).toEqual({ date: '2026-10-31', time: '23:45' });
+    });
+
+    it('should cross the date line', () => {
+      expect(utcToZonedTime(new Date('2026-11-20T23:00:00Z'), 'Asia/Tokyo')).toEqual({ date: '2026-11-21', time: '08:00' });
+    });
+  });
+
+  describe('getEventDays', () => {
+    it('should list every day from start to end', () => {
+      expect(getEventDays({
+        startDate: new Date('2026-11-20T00:00:00Z'),
+        endDate: new Date('2026-11-22T00:00:00Z'),
+      })).toEqual(['2026-11-20', '2026-11-21', '2026-11-22']);
+    });
+
+    it('should treat a missing or earlier end date as a one-day event', () => {
+      expect(getEventDays({ startDate: new Date('2026-11-20T00:00:00Z'), endDate: null })).toEqual(['2026-11-20']);
+      expect(getEventDays({
+        startDate: new Date('2026-11-20T00:00:00Z'),
+        endDate: new Date('2026-11-01T00:00:00Z'),
+      })).toEqual(['2026-11-20']);
+    });
+
+    it('should return no days without a start date', () => {
+      expect(getEventDays({ startDate: null, endDate: null })).toEqual([]);
+    });
+
+    it('should cap very long events', () => {
+      expect(getEventDays({
+        startDate: new Date('2026-01-01T00:00:00Z'),
+        endDate: new Date('2026-12-31T00:00:00Z'),
+      })).toHaveLength(MAX_SCHEDULE_DAYS);
+    });
+  });
+
+  describe('getDailyHours', () => {
+    it('should use the event hours', () => {
+      expect(getDailyHours({ startTime: '08:30', endTime: '18:00' })).toEqual({ start: '08:30', end: '18:00' });
+    });
+
+    it('should fall back to defaults for missing or inverted hours', () => {
+      expect(getDailyHours({ startTime: null, endTime: null })).toEqual({ start: '09:00', end: '17:00' });
+      expect(getDailyHours({ startTime: '18:00', endTime: '09:00' })).toEqual({ start: '09:00', end: '17:00' });
+    });
+  });
+
+  describe('checkSlotWithinEvent', () => {
+    const window = {
+      timezone: 'Europe/Berlin',
+      startDate: new Date('2026-07-15T00:00:00Z'),
+      endDate: new Date('2026-07-16T00:00:00Z'),
+      startTime: '09:00',
+      endTime: '17:00',
+    };
+    const at = (date: string, time: string) => zonedTimeToUtc(date, time, window.timezone);
+
+    it('should accept slots inside the event hours', () => {
+      expect(checkSlotWithinEvent(window, at('2026-07-15', '09:00'), at('2026-07-15', '09:45'))).toBeNull();
+      expect(checkSlotWithinEvent(window, at('2026-07-16', '16:30'), at('2026-07-16', '17:00'))).toBeNull();
+    });
+
+    it('should reject slots outside the event days', () => {
+      expect(checkSlotWithinEvent(window, at('2026-07-17', '10:00'), at('2026-07-17', '10:30')))
+        .toContain('event days');
+    });
+
+    it('should reject slots outside the daily hours', () => {
+      expect(checkSlotWithinEvent(window, at('2026-07-15', '08:30'), at('2026-07-15', '09:30')))
+        .toContain('between 09:00 and 17:00');
+      expect(checkSlotWithinEvent(window, at('2026-07-15', '16:45'), at('2026-07-15', '17:15')))
+        .toContain('between 09:00 and 17:00');
+    });
+
+    it('should reject empty slots and events without dates', () => {
+      expect(checkSlotWithinEvent(window, at('2026-07-15', '10:00'), at('2026-07-15', '10:00')))
+        .toBe('A slot must end after it starts');
+      expect(checkSlotWithinEvent({ ...window, startDate: null }, at('2026-07-15', '10:00'), at('2026-07-15', '10:30')))
+        .toContain('event dates');
+    });
+  });
+});
@@ -26,7 +26,7 @@ describe('SMTP Password Encryption', () => {
     
     expect(encrypted).not.toBe(password);
     expect(isEncrypted(encrypted)).toBe(true);
-    expect(encrypted.startsWith('enc:v1:')).toBe(true);
+    expect(encrypted.startsWith('enc:v2:')).toBe(true);
   });
 
   it('should decrypt encrypted passwords correctly', () => {
@@ -0,0 +1,55 @@
+/**
+ * Emailed Links Tests
+ */
+
+import { createHash } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    siteSettings: { findUnique: vi.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { encryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { decryptUserName, getLinkBaseUrl, hashLinkToken } from '@/lib/security/emailed-links';
+
+describe('Emailed Links', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getLinkBaseUrl', () => {
+    it('should prefer the site URL from settings', async () => {
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue({ websiteUrl: 'https://cfp.example.com' } as never);
+
+      await expect(getLinkBaseUrl()).resolves.toBe('https://cfp.example.com');
+    });
+
+    it('should fall back to the app URL', async () => {
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue(null);
+
+      await expect(getLinkBaseUrl()).resolves.toMatch(/^https?:\/\//);
+    });
+  });
+
+  describe('hashLinkToken', () => {
+    it('should store tokens as SHA-256 hashes', () => {
+      expect(hashLinkToken('token')).toBe(createHash('sha256').update('token').digest('hex'));
+    });
+  });
+
+  describe('decryptUserName', () => {
+    it('should decrypt stored names', () => {
+      const { name } = encryptPiiFields({ name: 'Ada Lovelace' }, USER_PII_FIELDS) as { name: string };
+
+      expect(name).not.toBe('Ada Lovelace');
+      expect(decryptUserName(name)).toBe('Ada Lovelace');
+    });
+
+    it('should keep missing names missing', () => {
+      expect(decryptUserName(null)).toBeNull();
+    });
+  });
+});
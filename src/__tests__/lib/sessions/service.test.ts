@@ -0,0 +1,290 @@
+/**
+ * Session Service Tests
+ *
+ * Recording sign-ins with new device alerts, validating sessions on each
+ * request and signing sessions out.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    userSession: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+vi.mock('@/lib/email/email-service', () => ({
+  emailService: { sendTemplatedEmail: vi.fn() },
+}));
+
+vi.mock('@/lib/sessions/geoip', () => ({
+  lookupLocation: vi.fn(async (ip: string | null) => (ip ? 'Berlin, Germany' : null)),
+}));
+
+const cookieStore = { get: vi.fn(), set: vi.fn() };
+vi.mock('next/headers', () => ({
+  headers: vi.fn(async () => new Headers({ 'user-agent': 'Mozilla/5.0 (Windows NT 10.0) Firefox/129.0' })),
+  cookies: vi.fn(async () => cookieStore),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { emailService } from '@/lib/email/email-service';
+import {
+  keepUserSession,
+  listUserSessions,
+  purgeUserSessions,
+  revokeAllUserSessions,
+  revokeOtherUserSessions,
+  revokeUserSession,
+  startUserSession,
+  validateUserSession,
+} from '@/lib/sessions/service';
+import { DEVICE_COOKIE, SESSION_TOUCH_INTERVAL_MS } from '@/lib/sessions/state';
+
+const CHROME_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/128.0.0.0 Safari/537.36';
+const NOW = new Date('2026-06-01T12:00:00Z');
+const OWNER = { id: 'user-1', email: 'ada@example.com', name: 'Ada', sessionVersion: 2 };
+
+function sessionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    revokedAt: null,
+    expiresAt: new Date('2026-07-01T12:00:00Z'),
+    sessionVersion: 2,
+    lastSeenAt: NOW,
+    ipAddress: '203.0.113.7',
+    ...overrides,
+  };
+}
+
+describe('Session Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.userSession.create).mockResolvedValue({ id: 'session-1' } as never);
+    vi.mocked(prisma.userSession.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.userSession.count).mockResolvedValue(0);
+  });
+
+  describe('startUserSession', () => {
+    it('should record the session and give a new browser a device cookie', async () => {
+      const id = await startUserSession(
+        OWNER,
+        { userAgent: CHROME_MAC, ipAddress: '203.0.113.7', deviceId: null },
+        NOW
+      );
+
+      expect(id).toBe('session-1');
+      expect(prisma.userSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          deviceId: expect.any(String),
+          ipAddress: '203.0.113.7',
+          location: 'Berlin, Germany',
+          sessionVersion: 2,
+          expiresAt: new Date('2026-07-01T12:00:00Z'),
+        }),
+        select: { id: true },
+      });
+      expect(cookieStore.set).toHaveBeenCalledWith(DEVICE_COOKIE, expect.any(String), expect.any(Object));
+    });
+
+    it('should not alert on the account\'s first session', async () => {
+      await startUserSession(OWNER, { userAgent: CHROME_MAC, ipAddress: null, deviceId: null }, NOW);
+
+      expect(emailService.sendTemplatedEmail).not.toHaveBeenCalled();
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'USER_LOGIN',
+        metadata: { device: 'Chrome on macOS', location: null, newDevice: false },
+      }));
+    });
+
+    it('should email the user about a sign-in from an unknown device', async () => {
+      vi.mocked(prisma.userSession.count).mockResolvedValue(3);
+
+      await startUserSession(
+        OWNER,
+        { userAgent: CHROME_MAC, ipAddress: '203.0.113.7', deviceId: 'unknown-device' },
+        NOW
+      );
+
+      expect(emailService.sendTemplatedEmail).toHaveBeenCalledWith({
+        to: 'ada@example.com',
+        templateType: 'new_sign_in',
+        variables: expect.objectContaining({
+          userName: 'Ada',
+          device: 'Chrome on macOS',
+          location: 'Berlin, Germany (203.0.113.7)',
+          signedInAt: '2026-06-01 12:00 UTC',
+        }),
+      });
+    });
+
+    it('should not alert on a device the account has used before', async () => {
+      vi.mocked(prisma.userSession.count).mockResolvedValue(3);
+      vi.mocked(prisma.userSession.findFirst).mockResolvedValue({ id: 'old-session' } as never);
+
+      await startUserSession(OWNER, { userAgent: CHROME_MAC, ipAddress: null, deviceId: 'known-device' }, NOW);
+
+      expect(emailService.sendTemplatedEmail).not.toHaveBeenCalled();
+      expect(cookieStore.set).not.toHaveBeenCalled();
+    });
+
+    it('should not fail sign-in when the alert cannot be sent', async () => {
+      vi.mocked(prisma.userSession.count).mockResolvedValue(1);
+      vi.mocked(emailService.sendTemplatedEmail).mockRejectedValue(new Error('SMTP down'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(
+        startUserSession(OWNER, { userAgent: CHROME_MAC, ipAddress: null, deviceId: null }, NOW)
+      ).resolves.toBe('session-1');
+    });
+  });
+
+  describe('validateUserSession', () => {
+    it('should return the role for an active session', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        { role: 'REVIEWER', sessionVersion: 2, userSessions: [sessionRow()] } as never
+      );
+
+      expect(await validateUserSession('user-1', 'session-1', NOW)).toEqual({ role: 'REVIEWER' });
+      expect(prisma.userSession.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked sessions', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        { role: 'REVIEWER', sessionVersion: 2, userSessions: [sessionRow({ revokedAt: NOW })] } as never
+      );
+
+      expect(await validateUserSession('user-1', 'session-1', NOW)).toBeNull();
+    });
+
+    it('should reject sessions from an older session version', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        { role: 'REVIEWER', sessionVersion: 3, userSessions: [sessionRow()] } as never
+      );
+
+      expect(await validateUserSession('user-1', 'session-1', NOW)).toBeNull();
+    });
+
+    it('should reject sessions that no longer exist', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        { role: 'REVIEWER', sessionVersion: 2, userSessions: [] } as never
+      );
+
+      expect(await validateUserSession('user-1', 'session-1', NOW)).toBeNull();
+    });
+
+    it('should extend sessions that haven\'t been seen for a while', async () => {
+      const lastSeenAt = new Date(NOW.getTime() - SESSION_TOUCH_INTERVAL_MS);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        { role: 'REVIEWER', sessionVersion: 2, userSessions: [sessionRow({ lastSeenAt })] } as never
+      );
+
+      await validateUserSession('user-1', 'session-1', NOW);
+
+      expect(prisma.userSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { lastSeenAt: NOW, expiresAt: new Date('2026-07-01T12:00:00Z') },
+      });
+    });
+  });
+
+  describe('listUserSessions', () => {
+    it('should describe active sessions and mark the current one', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ sessionVersion: 2 } as never);
+      vi.mocked(prisma.userSession.findMany).mockResolvedValue([
+        { id: 'session-1', userAgent: CHROME_MAC, ipAddress: null, location: null, createdAt: NOW, lastSeenAt: NOW },
+        { id: 'session-2', userAgent: null, ipAddress: '203.0.113.7', location: 'Berlin, Germany', createdAt: NOW, lastSeenAt: NOW },
+      ] as never);
+
+      const sessions = await listUserSessions('user-1', 'session-2', NOW);
+
+      expect(prisma.userSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-1', revokedAt: null, expiresAt: { gt: NOW }, sessionVersion: 2 },
+      }));
+      expect(sessions.map(s => [s.device, s.current])).toEqual([
+        ['Chrome on macOS', false],
+        ['Unknown device', true],
+      ]);
+    });
+  });
+
+  describe('sign-out', () => {
+    it('should revoke one of the user\'s sessions and log the admin', async () => {
+      vi.mocked(prisma.userSession.findFirst).mockResolvedValue({ userAgent: CHROME_MAC } as never);
+
+      expect(await revokeUserSession('user-1', 'session-1', { actorId: 'admin-1' })).toBe(true);
+      expect(prisma.userSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'admin-1',
+        action: 'SESSION_INVALIDATED',
+        entityId: 'user-1',
+        metadata: { scope: 'one', device: 'Chrome on macOS' },
+      }));
+    });
+
+    it('should not revoke another user\'s session', async () => {
+      expect(await revokeUserSession('user-1', 'session-9')).toBe(false);
+      expect(prisma.userSession.update).not.toHaveBeenCalled();
+    });
+
+    it('should revoke every other session', async () => {
+      vi.mocked(prisma.userSession.updateMany).mockResolvedValue({ count: 2 });
+
+      expect(await revokeOtherUserSessions('user-1', 'session-1')).toBe(2);
+      expect(prisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, id: { not: 'session-1' } },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should sign the user out everywhere by bumping the session version', async () => {
+      await revokeAllUserSessions('user-1', { actorId: 'admin-1' });
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { sessionVersion: { increment: 1 } },
+      });
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({ metadata: { scope: 'all' } }));
+    });
+
+    it('should move the kept session onto the new session version', async () => {
+      await keepUserSession('user-1', 'session-1', 3);
+
+      expect(prisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', userId: 'user-1', revokedAt: null },
+        data: { sessionVersion: 3 },
+      });
+    });
+  });
+
+  describe('purgeUserSessions', () => {
+    it('should delete sessions that ended before the retention period', async () => {
+      vi.mocked(prisma.userSession.deleteMany).mockResolvedValue({ count: 4 });
+
+      expect(await purgeUserSessions(NOW)).toBe(4);
+      const cutoff = new Date('2025-12-03T12:00:00Z');
+      expect(prisma.userSession.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+      });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Session State Tests
+ *
+ * Device descriptions from User-Agent headers, session locations and
+ * when sessions stop signing their user in.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SESSION_TOUCH_INTERVAL_MS,
+  formatSessionLocation,
+  getDeviceLabel,
+  getSessionExpiry,
+  isSessionActive,
+  parseUserAgent,
+  shouldTouchSession,
+} from '@/lib/sessions/state';
+
+const CHROME_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36';
+const EDGE_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36 Edg/128.0.0.0';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const FIREFOX_ANDROID = 'Mozilla/5.0 (Android 14; Mobile; rv:129.0) Gecko/129.0 Firefox/129.0';
+const CHROME_ANDROID_TABLET = 'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36';
+const SAFARI_IPAD = 'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+describe('Session State', () => {
+  describe('parseUserAgent', () => {
+    it('should recognize desktop browsers', () => {
+      expect(parseUserAgent(CHROME_MAC)).toEqual({ browser: 'Chrome', os: 'macOS', type: 'desktop' });
+      expect(parseUserAgent(EDGE_WINDOWS)).toEqual({ browser: 'Edge', os: 'Windows', type: 'desktop' });
+    });
+
+    it('should recognize phones', () => {
+      expect(parseUserAgent(SAFARI_IPHONE)).toEqual({ browser: 'Safari', os: 'iOS', type: 'mobile' });
+      expect(parseUserAgent(FIREFOX_ANDROID)).toEqual({ browser: 'Firefox', os: 'Android', type: 'mobile' });
+    });
+
+    it('should recognize tablets', () => {
+      expect(parseUserAgent(CHROME_ANDROID_TABLET).type).toBe('tablet');
+      expect(parseUserAgent(SAFARI_IPAD).type).toBe('tablet');
+    });
+
+    it('should handle missing headers', () => {
+      expect(parseUserAgent(null)).toEqual({ browser: null, os: null, type: 'desktop' });
+    });
+  });
+
+  describe('getDeviceLabel', () => {
+    it('should combine browser and operating system', () => {
+      expect(getDeviceLabel(CHROME_MAC)).toBe('Chrome on macOS');
+      expect(getDeviceLabel(SAFARI_IPHONE)).toBe('Safari on iOS');
+    });
+
+    it('should fall back for unrecognized clients', () => {
+      expect(getDeviceLabel('curl/8.4.0')).toBe('Unknown device');
+      expect(getDeviceLabel(undefined)).toBe('Unknown device');
+    });
+  });
+
+  describe('formatSessionLocation', () => {
+    it('should show the location with the address', () => {
+      expect(formatSessionLocation('Berlin, Germany', '203.0.113.7')).toBe('Berlin, Germany (203.0.113.7)');
+    });
+
+    it('should show whichever is known', () => {
+      expect(formatSessionLocation(null, '203.0.113.7')).toBe('203.0.113.7');
+      expect(formatSessionLocation('Germany', null)).toBe('Germany');
+      expect(formatSessionLocation(null, null)).toBe('Unknown location');
+    });
+  });
+
+  describe('isSessionActive', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+    const session = {
+      revokedAt: null as Date | null,
+      expiresAt: getSessionExpiry(now),
+      sessionVersion: 2,
+    };
+
+    it('should accept a current session', () => {
+      expect(isSessionActive(session, 2, now)).toBe(true);
+    });
+
+    it('should reject revoked sessions', () => {
+      expect(isSessionActive({ ...session, revokedAt: now }, 2, now)).toBe(false);
+    });
+
+    it('should reject expired sessions', () => {
+      expect(isSessionActive({ ...session, expiresAt: now }, 2, now)).toBe(false);
+    });
+
+    it('should reject sessions from before the session version was bumped', () => {
+      expect(isSessionActive(session, 3, now)).toBe(false);
+    });
+  });
+
+  describe('shouldTouchSession', () => {
+    it('should wait for the touch interval', () => {
+      const lastSeenAt = new Date('2026-06-01T12:00:00Z');
+
+      expect(shouldTouchSession(lastSeenAt, new Date(lastSeenAt.getTime() + 1000))).toBe(false);
+      expect(shouldTouchSession(lastSeenAt, new Date(lastSeenAt.getTime() + SESSION_TOUCH_INTERVAL_MS))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Single Sign-On Account Resolution Tests
+ *
+ * Linking, role mapping and just-in-time accounts, and the rules that keep
+ * an identity provider from taking over an existing account by email.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IdentityProvider } from '@prisma/client';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    account: { findUnique: vi.fn(), create: vi.fn() },
+    user: { findUnique: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    siteSettings: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { resolveSsoUser } from '@/lib/sso/accounts';
+import type { SsoIdentity } from '@/lib/sso/state';
+
+function provider(overrides: Partial<IdentityProvider> = {}): IdentityProvider {
+  return {
+    id: 'idp-1',
+    slug: 'corp',
+    name: 'Corp SSO',
+    type: 'OIDC',
+    enabled: true,
+    issuer: 'https://idp.example.com',
+    clientId: 'client',
+    clientSecret: 'secret',
+    scopes: 'openid email profile',
+    ssoUrl: null,
+    idpEntityId: null,
+    idpCertificate: null,
+    roleClaim: 'groups',
+    roleMappings: [{ value: 'cfp-reviewers', role: 'REVIEWER' }],
+    defaultRole: 'SPEAKER',
+    allowedDomains: [],
+    jitProvisioning: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function identity(overrides: Partial<SsoIdentity> = {}): SsoIdentity {
+  return {
+    subject: 'sub-1',
+    email: 'ada@example.com',
+    emailVerified: true,
+    name: 'Ada',
+    claims: {},
+    ...overrides,
+  };
+}
+
+const existingUser = { id: 'user-1', role: 'SPEAKER' as const };
+
+describe('resolveSsoUser', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.account.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.user.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue({ allowPublicSignup: true } as never);
+    vi.mocked(prisma.user.create).mockResolvedValue({ id: 'new-user', role: 'SPEAKER' } as never);
+  });
+
+  describe('linked identities', () => {
+    it('should sign in the linked user', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({ user: existingUser } as never);
+
+      await expect(resolveSsoUser(provider(), identity())).resolves.toEqual(existingUser);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply a matching role mapping', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({ user: existingUser } as never);
+
+      const user = await resolveSsoUser(provider(), identity({ claims: { groups: ['cfp-reviewers'] } }));
+
+      expect(user.role).toBe('REVIEWER');
+      expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { role: 'REVIEWER' } });
+    });
+
+    it('should enforce allowed domains on every sign-in', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({ user: existingUser } as never);
+
+      await expect(resolveSsoUser(provider({ allowedDomains: ['corp.test'] }), identity()))
+        .rejects.toMatchObject({ code: 'SsoDomainNotAllowed' });
+    });
+  });
+
+  describe('existing accounts', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.user.findFirst).mockResolvedValue(existingUser as never);
+    });
+
+    it('should not link by email for a provider open to any domain', async () => {
+      await expect(resolveSsoUser(provider(), identity()))
+        .rejects.toMatchObject({ code: 'SsoAccountExists' });
+      expect(prisma.account.create).not.toHaveBeenCalled();
+    });
+
+    it('should not link by an unverified email', async () => {
+      await expect(resolveSsoUser(
+        provider({ allowedDomains: ['example.com'] }),
+        identity({ emailVerified: false })
+      )).rejects.toMatchObject({ code: 'SsoAccountExists' });
+      expect(prisma.account.create).not.toHaveBeenCalled();
+    });
+
+    it('should link by verified email for a domain-restricted provider', async () => {
+      const user = await resolveSsoUser(provider({ allowedDomains: ['example.com'] }), identity());
+
+      expect(user).toEqual(existingUser);
+      expect(prisma.account.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', provider: 'sso:idp-1', providerAccountId: 'sub-1' }),
+      });
+    });
+  });
+
+  describe('connecting from account settings', () => {
+    it('should link the signed-in user whatever the email', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(existingUser as never);
+
+      await resolveSsoUser(provider(), identity({ email: 'other@example.com' }), { linkUserId: 'user-1' });
+
+      expect(prisma.account.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', providerAccountId: 'sub-1' }),
+      });
+    });
+
+    it('should refuse an identity linked to someone else', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({ user: { id: 'user-2', role: 'ADMIN' } } as never);
+
+      await expect(resolveSsoUser(provider(), identity(), { linkUserId: 'user-1' }))
+        .rejects.toMatchObject({ code: 'SsoAlreadyLinked' });
+    });
+  });
+
+  describe('new accounts', () => {
+    it('should create the user with the mapped role', async () => {
+      await resolveSsoUser(provider(), identity({ claims: { groups: ['cfp-reviewers'] } }));
+
+      expect(prisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ email: 'ada@example.com', role: 'REVIEWER' }),
+      }));
+    });
+
+    it('should fall back to the default role', async () => {
+      await resolveSsoUser(provider(), identity());
+
+      expect(prisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ role: 'SPEAKER' }),
+      }));
+    });
+
+    it('should respect the public signup setting', async () => {
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue({ allowPublicSignup: false } as never);
+
+      await expect(resolveSsoUser(provider(), identity()))
+        .rejects.toMatchObject({ code: 'SsoSignupDisabled' });
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create accounts when provisioning is off', async () => {
+      await expect(resolveSsoUser(provider({ jitProvisioning: false }), identity()))
+        .rejects.toMatchObject({ code: 'SsoSignupDisabled' });
+    });
+
+    it('should require an email address', async () => {
+      await expect(resolveSsoUser(provider(), identity({ email: null })))
+        .rejects.toMatchObject({ code: 'SsoEmailMissing' });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * OIDC Client Tests
+ *
+ * Runs the authorization code flow against a mock identity provider:
+ * fetch is stubbed to serve discovery, the token endpoint, the JWKS and
+ * userinfo, with ID tokens signed by a locally generated key.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { exportJWK, generateKeyPair, SignJWT, type JWK } from 'jose';
+import {
+  createCodeChallenge,
+  exchangeOidcCode,
+  getOidcAuthorizationUrl,
+  type OidcClient,
+} from '@/lib/sso/oidc';
+import { SsoError } from '@/lib/sso/state';
+
+type KeyPair = Awaited<ReturnType<typeof generateKeyPair>>;
+
+let signingKey: KeyPair;
+let otherKey: KeyPair;
+let publicJwk: JWK;
+let issuerCount = 0;
+
+interface MockIdp {
+  issuer: string;
+  client: OidcClient;
+  idTokenClaims: Record<string, unknown>;
+  userinfo: Record<string, unknown> | null;
+  key: KeyPair;
+  tokenRequests: Array<{ headers: Headers; body: URLSearchParams }>;
+}
+
+/**
+ * A provider with a unique issuer so discovery and JWKS caches don't leak
+ * between tests
+ */
+function createMockIdp(): MockIdp {
+  issuerCount++;
+  const issuer = `https://idp${issuerCount}.example.test`;
+  const idp: MockIdp = {
+    issuer,
+    client: {
+      issuer,
+      clientId: 'cfp-client',
+      clientSecret: 'cfp-secret',
+      scopes: 'openid email profile',
+      redirectUri: 'http://localhost:3000/api/auth/sso/corp/callback',
+    },
+    idTokenClaims: { sub: 'user-123', nonce: 'nonce-1', email: 'ada@example.com', email_verified: true },
+    userinfo: null,
+    key: signingKey,
+    tokenRequests: [],
+  };
+
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (url === `${issuer}/.well-known/openid-configuration`) {
+      return json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+      });
+    }
+    if (url === `${issuer}/jwks`) {
+      return json({ keys: [publicJwk] });
+    }
+    if (url === `${issuer}/token`) {
+      idp.tokenRequests.push({
+        headers: new Headers(init?.headers),
+        body: new URLSearchParams(init?.body as URLSearchParams),
+      });
+      const idToken = await new SignJWT(idp.idTokenClaims)
+        .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+        .setIssuer(issuer)
+        .setAudience('cfp-client')
+        .setIssuedAt()
+        .setExpirationTime('5m')
+        .sign(idp.key.privateKey);
+      return json({ id_token: idToken, access_token: 'access-token', token_type: 'Bearer' });
+    }
+    if (url === `${issuer}/userinfo`) {
+      return idp.userinfo ? json(idp.userinfo) : json({ error: 'not_found' }, 404);
+    }
+    return json({ error: 'unknown endpoint' }, 404);
+  }));
+
+  return idp;
+}
+
+function exchange(idp: MockIdp, nonce = 'nonce-1') {
+  return exchangeOidcCode(idp.client, { code: 'auth-code', codeVerifier: 'verifier', nonce });
+}
+
+describe('OIDC Client', () => {
+  beforeAll(async () => {
+    signingKey = await generateKeyPair('RS256');
+    otherKey = await generateKeyPair('RS256');
+    publicJwk = { ...(await exportJWK(signingKey.publicKey)), kid: 'test-key', alg: 'RS256', use: 'sig' };
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getOidcAuthorizationUrl', () => {
+    it('should build a PKCE authorization request from discovery', async () => {
+      const idp = createMockIdp();
+
+      const url = new URL(await getOidcAuthorizationUrl(idp.client, {
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeVerifier: 'verifier',
+      }));
+
+      expect(url.origin + url.pathname).toBe(`${idp.issuer}/authorize`);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('client_id')).toBe('cfp-client');
+      expect(url.searchParams.get('redirect_uri')).toBe(idp.client.redirectUri);
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('state')).toBe('state-1');
+      expect(url.searchParams.get('nonce')).toBe('nonce-1');
+      expect(url.searchParams.get('code_challenge')).toBe(createCodeChallenge('verifier'));
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should refuse a discovery document for another issuer', async () => {
+      const idp = createMockIdp();
+      const client = { ...idp.client, issuer: `${idp.issuer}/tenant` };
+      vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+        issuer: idp.issuer,
+        authorization_endpoint: `${idp.issuer}/authorize`,
+        token_endpoint: `${idp.issuer}/token`,
+        jwks_uri: `${idp.issuer}/jwks`,
+      })));
+
+      await expect(getOidcAuthorizationUrl(client, {
+        state: 's', nonce: 'n', codeVerifier: 'v',
+      })).rejects.toMatchObject({ code: 'SsoUnavailable' });
+    });
+  });
+
+  describe('exchangeOidcCode', () => {
+    it('should exchange the code and return the verified identity', async () => {
+      const idp = createMockIdp();
+      idp.idTokenClaims = { ...idp.idTokenClaims, name: 'Ada Lovelace', groups: ['cfp-reviewers'] };
+
+      const identity = await exchange(idp);
+
+      expect(identity).toMatchObject({
+        subject: 'user-123',
+        email: 'ada@example.com',
+        emailVerified: true,
+        name: 'Ada Lovelace',
+      });
+      expect(identity.claims.groups).toEqual(['cfp-reviewers']);
+
+      const [request] = idp.tokenRequests;
+      expect(request.body.get('grant_type')).toBe('authorization_code');
+      expect(request.body.get('code_verifier')).toBe('verifier');
+      expect(request.headers.get('Authorization'))
+        .toBe(`Basic ${Buffer.from('cfp-client:cfp-secret').toString('base64')}`);
+    });
+
+    it('should reject a nonce from another sign-in', async () => {
+      const idp = createMockIdp();
+
+      await expect(exchange(idp, 'nonce-2')).rejects.toBeInstanceOf(SsoError);
+    });
+
+    it('should reject an ID token not signed by the provider', async () => {
+      const idp = createMockIdp();
+      idp.key = otherKey;
+
+      await expect(exchange(idp)).rejects.toMatchObject({ code: 'SsoFailed' });
+    });
+
+    it('should treat an unverified email as unverified', async () => {
+      const idp = createMockIdp();
+      idp.idTokenClaims = { ...idp.idTokenClaims, email_verified: false };
+
+      const identity = await exchange(idp);
+
+      expect(identity.emailVerified).toBe(false);
+    });
+
+    it('should merge userinfo claims for the same subject', async () => {
+      const idp = createMockIdp();
+      idp.idTokenClaims = { sub: 'user-123', nonce: 'nonce-1' };
+      idp.userinfo = { sub: 'user-123', email: 'ada@example.com', email_verified: 'true', given_name: 'Ada', family_name: 'Lovelace' };
+
+      const identity = await exchange(idp);
+
+      expect(identity).toMatchObject({ email: 'ada@example.com', emailVerified: true, name: 'Ada Lovelace' });
+    });
+
+    it('should ignore userinfo for another subject', async () => {
+      const idp = createMockIdp();
+      idp.idTokenClaims = { sub: 'user-123', nonce: 'nonce-1' };
+      idp.userinfo = { sub: 'someone-else', email: 'admin@example.com', email_verified: true };
+
+      const identity = await exchange(idp);
+
+      expect(identity.email).toBeNull();
+    });
+
+    it('should not let userinfo override ID token claims', async () => {
+      const idp = createMockIdp();
+      idp.userinfo = { sub: 'user-123', email: 'admin@example.com', email_verified: true };
+
+      const identity = await exchange(idp);
+
+      expect(identity.email).toBe('ada@example.com');
+    });
+  });
+});
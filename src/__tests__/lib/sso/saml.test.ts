@@ -0,0 +1,84 @@
+/**
+ * SAML Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Profile } from '@node-saml/node-saml';
+import { samlProfileToIdentity, getSamlMetadata, validateSamlResponse } from '@/lib/sso/saml';
+
+const CERT = 'MIIBszCCAVmgAwIBAgIUFakeCertificateForTests';
+
+function profile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    issuer: 'https://idp.example.com',
+    nameID: 'ada-123',
+    nameIDFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+    ...overrides,
+  } as Profile;
+}
+
+describe('SAML', () => {
+  describe('samlProfileToIdentity', () => {
+    it('should read email, name and attributes', () => {
+      const identity = samlProfileToIdentity(profile({
+        attributes: {
+          'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress': 'ada@example.com',
+          displayName: 'Ada Lovelace',
+          memberOf: ['cfp-reviewers', 'staff'],
+        },
+      }));
+
+      expect(identity).toEqual({
+        subject: 'ada-123',
+        email: 'ada@example.com',
+        emailVerified: true,
+        name: 'Ada Lovelace',
+        claims: expect.objectContaining({ memberOf: ['cfp-reviewers', 'staff'] }),
+      });
+    });
+
+    it('should use an email-format NameID when there is no email attribute', () => {
+      const identity = samlProfileToIdentity(profile({
+        nameID: 'ada@example.com',
+        nameIDFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+      }));
+
+      expect(identity.email).toBe('ada@example.com');
+    });
+
+    it('should not treat an opaque NameID as an email', () => {
+      const identity = samlProfileToIdentity(profile());
+
+      expect(identity).toMatchObject({ email: null, emailVerified: false });
+    });
+  });
+
+  describe('validateSamlResponse', () => {
+    it('should reject a response that is not a signed assertion', async () => {
+      const unsigned = Buffer.from(
+        '<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_1" Version="2.0" IssueInstant="2026-10-19T12:00:00Z" InResponseTo="_req"/>'
+      ).toString('base64');
+
+      await expect(validateSamlResponse({
+        ssoUrl: 'https://idp.example.com/sso',
+        idpEntityId: null,
+        idpCertificate: CERT,
+        spEntityId: 'http://localhost:3000/api/auth/sso/corp/metadata',
+        callbackUrl: 'http://localhost:3000/api/auth/sso/corp/callback',
+      }, { samlResponse: unsigned, requestId: '_req' })).rejects.toMatchObject({ code: 'SsoFailed' });
+    });
+  });
+
+  describe('getSamlMetadata', () => {
+    it('should describe this service provider', () => {
+      const xml = getSamlMetadata({
+        spEntityId: 'http://localhost:3000/api/auth/sso/corp/metadata',
+        callbackUrl: 'http://localhost:3000/api/auth/sso/corp/callback',
+      });
+
+      expect(xml).toContain('entityID="http://localhost:3000/api/auth/sso/corp/metadata"');
+      expect(xml).toContain('Location="http://localhost:3000/api/auth/sso/corp/callback"');
+      expect(xml).toContain('WantAssertionsSigned="true"');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Single Sign-On State and Flow Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getClaimValues,
+  mapClaimsToRole,
+  normalizeDomains,
+  isEmailDomainAllowed,
+  getMissingProviderFields,
+} from '@/lib/sso/state';
+import {
+  safeCallbackUrl,
+  encodeFlowState,
+  decodeFlowState,
+  createLoginTicket,
+  verifyLoginTicket,
+  SSO_STATE_MAX_AGE_SECONDS,
+  SSO_TWO_FACTOR_MAX_AGE_SECONDS,
+  type SsoFlowState,
+} from '@/lib/sso/flow';
+
+const MAPPINGS = [
+  { value: 'cfp-reviewers', role: 'REVIEWER' as const },
+  { value: 'cfp-organizers', role: 'ORGANIZER' as const },
+];
+
+describe('Single Sign-On', () => {
+  describe('getClaimValues', () => {
+    it('should read strings and arrays', () => {
+      expect(getClaimValues({ groups: ['a', 'b'] }, 'groups')).toEqual(['a', 'b']);
+      expect(getClaimValues({ role: 'a' }, 'role')).toEqual(['a']);
+    });
+
+    it('should read nested claims by dotted name', () => {
+      const claims = { realm_access: { roles: ['cfp-organizers'] } };
+      expect(getClaimValues(claims, 'realm_access.roles')).toEqual(['cfp-organizers']);
+    });
+
+    it('should return nothing for missing claims', () => {
+      expect(getClaimValues({}, 'groups')).toEqual([]);
+    });
+  });
+
+  describe('mapClaimsToRole', () => {
+    it('should apply the highest matching role', () => {
+      const claims = { groups: ['cfp-reviewers', 'cfp-organizers'] };
+      expect(mapClaimsToRole(claims, 'groups', MAPPINGS)).toBe('ORGANIZER');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(mapClaimsToRole({ groups: ['staff'] }, 'groups', MAPPINGS)).toBeNull();
+    });
+
+    it('should return null without a role claim', () => {
+      expect(mapClaimsToRole({ groups: ['cfp-reviewers'] }, null, MAPPINGS)).toBeNull();
+    });
+  });
+
+  describe('email domains', () => {
+    it('should normalize domains', () => {
+      expect(normalizeDomains([' Example.com', '@example.com', '', 'corp.example'])).toEqual([
+        'example.com',
+        'corp.example',
+      ]);
+    });
+
+    it('should allow any domain without a restriction', () => {
+      expect(isEmailDomainAllowed('ada@anywhere.test', [])).toBe(true);
+    });
+
+    it('should match the exact domain only', () => {
+      expect(isEmailDomainAllowed('ada@Example.com', ['example.com'])).toBe(true);
+      expect(isEmailDomainAllowed('ada@evil-example.com', ['example.com'])).toBe(false);
+      expect(isEmailDomainAllowed('ada@example.com.evil.test', ['example.com'])).toBe(false);
+    });
+  });
+
+  describe('getMissingProviderFields', () => {
+    it('should list missing OIDC settings', () => {
+      expect(getMissingProviderFields('OIDC', { issuer: 'https://idp.test', clientId: ' ' }))
+        .toEqual(['Client ID', 'Client secret']);
+    });
+
+    it('should list missing SAML settings', () => {
+      expect(getMissingProviderFields('SAML', { ssoUrl: 'https://idp.test/sso', idpCertificate: 'MII...' }))
+        .toEqual([]);
+    });
+  });
+
+  describe('safeCallbackUrl', () => {
+    it('should keep paths on this site', () => {
+      expect(safeCallbackUrl('/events/summit?tab=reviews')).toBe('/events/summit?tab=reviews');
+    });
+
+    it('should refuse other sites', () => {
+      expect(safeCallbackUrl('https://evil.test')).toBe('/dashboard');
+      expect(safeCallbackUrl('//evil.test')).toBe('/dashboard');
+      expect(safeCallbackUrl('/\\evil.test')).toBe('/dashboard');
+      expect(safeCallbackUrl(null)).toBe('/dashboard');
+    });
+  });
+
+  describe('flow state', () => {
+    const flow: SsoFlowState = {
+      providerId: 'idp-1',
+      state: 'state-1',
+      nonce: 'nonce-1',
+      codeVerifier: 'verifier',
+      callbackUrl: '/dashboard',
+    };
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should round-trip', () => {
+      expect(decodeFlowState(encodeFlowState(flow, now), now)).toEqual(flow);
+    });
+
+    it('should reject a tampered cookie', () => {
+      const [, signature] = encodeFlowState(flow, now).split('.');
+      const forged = Buffer.from(JSON.stringify({ ...flow, linkUserId: 'victim', expiresAt: now.getTime() + 1000 }))
+        .toString('base64url');
+      expect(decodeFlowState(`${forged}.${signature}`, now)).toBeNull();
+    });
+
+    it('should expire', () => {
+      const later = new Date(now.getTime() + (SSO_STATE_MAX_AGE_SECONDS + 1) * 1000);
+      expect(decodeFlowState(encodeFlowState(flow, now), later)).toBeNull();
+    });
+  });
+
+  describe('login tickets', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should verify a fresh ticket', () => {
+      expect(verifyLoginTicket(createLoginTicket('user-1', now), now)).toBe('user-1');
+    });
+
+    it('should reject a ticket for another user', () => {
+      const [, expiresAt, signature] = createLoginTicket('user-1', now).split('.');
+      expect(verifyLoginTicket(`user-2.${expiresAt}.${signature}`, now)).toBeNull();
+    });
+
+    it('should reject an expired ticket', () => {
+      const later = new Date(now.getTime() + 61 * 1000);
+      expect(verifyLoginTicket(createLoginTicket('user-1', now), later)).toBeNull();
+    });
+
+    it('should keep a two-factor ticket while the user enters their code', () => {
+      const later = new Date(now.getTime() + 61 * 1000);
+      const ticket = createLoginTicket('user-1', now, SSO_TWO_FACTOR_MAX_AGE_SECONDS * 1000);
+      expect(verifyLoginTicket(ticket, later)).toBe('user-1');
+    });
+  });
+});
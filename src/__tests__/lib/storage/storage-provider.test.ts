@@ -56,6 +56,16 @@ describe('Storage Provider Utilities', () => {
       const path = StoragePaths.temp('upload.tmp');
       expect(path).toBe('temp/upload.tmp');
     });
+
+    it('should read the storage path from a files URL', () => {
+      expect(StoragePaths.fromUrl('/api/files/avatars/user-123.png')).toBe('avatars/user-123.png');
+      expect(StoragePaths.fromUrl('https://cfp.example.com/api/files/submissions/sub-1/materials/my%20slides.pdf'))
+        .toBe('submissions/sub-1/materials/my slides.pdf');
+    });
+
+    it('should return null for external URLs', () => {
+      expect(StoragePaths.fromUrl('https://avatars.githubusercontent.com/u/1')).toBeNull();
+    });
   });
 
   describe('MIME_EXTENSIONS', () => {
@@ -0,0 +1,137 @@
+/**
+ * Submission Field Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatSubmissionFieldValue,
+  getSubmissionFieldAnswers,
+  toSubmissionFieldData,
+  validateSubmissionFieldValues,
+  type SubmissionFieldDefinition,
+} from '@/lib/submission-fields/fields';
+
+function field(overrides: Partial<SubmissionFieldDefinition> & Pick<SubmissionFieldDefinition, 'id' | 'type'>): SubmissionFieldDefinition {
+  return {
+    label: overrides.id,
+    required: false,
+    options: [],
+    ...overrides,
+  };
+}
+
+describe('Submission Fields', () => {
+  describe('validateSubmissionFieldValues', () => {
+    it('should keep valid answers and drop unknown keys', () => {
+      const fields = [
+        field({ id: 'company', type: 'TEXT' }),
+        field({ id: 'level', type: 'SELECT', options: ['Beginner', 'Advanced'] }),
+        field({ id: 'langs', type: 'MULTI_SELECT', options: ['Go', 'Rust', 'Zig'] }),
+        field({ id: 'years', type: 'NUMBER' }),
+        field({ id: 'repo', type: 'URL' }),
+      ];
+
+      const result = validateSubmissionFieldValues(fields, {
+        company: '  Acme  ',
+        level: 'Advanced',
+        langs: ['Zig', 'Go'],
+        years: '7',
+        repo: 'https://example.com/repo',
+        extra: 'ignored',
+      });
+
+      expect(result.errors).toEqual({});
+      expect(result.values).toEqual({
+        company: 'Acme',
+        level: 'Advanced',
+        langs: ['Go', 'Zig'],
+        years: 7,
+        repo: 'https://example.com/repo',
+      });
+    });
+
+    it('should report missing required answers', () => {
+      const fields = [
+        field({ id: 'company', label: 'Company', type: 'TEXT', required: true }),
+        field({ id: 'bio', label: 'Longer bio', type: 'RICH_TEXT', required: true }),
+        field({ id: 'coc', label: 'Code of conduct', type: 'CHECKBOX', required: true }),
+      ];
+
+      const result = validateSubmissionFieldValues(fields, { company: '   ', bio: '<p> </p>', coc: false });
+
+      expect(result.errors).toEqual({
+        company: 'Company is required',
+        bio: 'Longer bio is required',
+        coc: 'Code of conduct is required',
+      });
+    });
+
+    it('should reject answers that break the field rules', () => {
+      const fields = [
+        field({ id: 'level', label: 'Level', type: 'SELECT', options: ['Beginner'] }),
+        field({ id: 'years', label: 'Years', type: 'NUMBER', minValue: 0, maxValue: 50 }),
+        field({ id: 'repo', label: 'Repository', type: 'URL' }),
+        field({ id: 'tagline', label: 'Tagline', type: 'TEXT', maxLength: 5 }),
+      ];
+
+      const result = validateSubmissionFieldValues(fields, {
+        level: 'Expert',
+        years: 80,
+        repo: 'javascript:alert(1)',
+        tagline: 'Too long',
+      });
+
+      expect(result.errors).toEqual({
+        level: 'Level: Choose one of the listed options',
+        years: 'Years: Must be at most 50',
+        repo: 'Repository: Must be a valid http(s) URL',
+        tagline: 'Tagline: Must be at most 5 characters',
+      });
+    });
+
+    it('should count visible characters for rich text limits', () => {
+      const fields = [field({ id: 'bio', type: 'RICH_TEXT', maxLength: 5 })];
+
+      expect(validateSubmissionFieldValues(fields, { bio: '<p><strong>Hello</strong></p>' }).errors).toEqual({});
+    });
+
+    it('should store unticked optional checkboxes as false', () => {
+      const fields = [field({ id: 'remote', type: 'CHECKBOX' })];
+
+      expect(validateSubmissionFieldValues(fields, undefined).values).toEqual({ remote: false });
+    });
+  });
+
+  describe('getSubmissionFieldAnswers', () => {
+    it('should follow field order and skip removed fields', () => {
+      const fields = [field({ id: 'a', type: 'TEXT' }), field({ id: 'b', type: 'NUMBER' })];
+
+      expect(getSubmissionFieldAnswers(fields, { b: 3, removed: 'x' })).toEqual([
+        { fieldId: 'a', label: 'a', type: 'TEXT', value: null },
+        { fieldId: 'b', label: 'b', type: 'NUMBER', value: 3 },
+      ]);
+    });
+  });
+
+  describe('formatSubmissionFieldValue', () => {
+    it('should format answers as plain text', () => {
+      expect(formatSubmissionFieldValue('CHECKBOX', true)).toBe('Yes');
+      expect(formatSubmissionFieldValue('CHECKBOX', null)).toBe('No');
+      expect(formatSubmissionFieldValue('MULTI_SELECT', ['Go', 'Rust'])).toBe('Go; Rust');
+      expect(formatSubmissionFieldValue('RICH_TEXT', '<p>Hello&nbsp;<em>world</em></p>')).toBe('Hello world');
+      expect(formatSubmissionFieldValue('NUMBER', 4.5)).toBe('4.5');
+      expect(formatSubmissionFieldValue('TEXT', null)).toBe('');
+    });
+  });
+
+  describe('toSubmissionFieldData', () => {
+    it('should drop settings the field type ignores', () => {
+      const data = toSubmissionFieldData(
+        { label: 'Years', type: 'NUMBER', required: true, options: ['x'], maxLength: 10, minValue: 0, maxValue: 40 },
+        2
+      );
+
+      expect(data).toMatchObject({ options: [], maxLength: null, minValue: 0, maxValue: 40, sortOrder: 2 });
+    });
+  });
+});
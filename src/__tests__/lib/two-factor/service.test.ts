@@ -0,0 +1,232 @@
+/**
+ * Two-Factor Service Tests
+ *
+ * Enrollment, the sign-in check with replay protection, recovery codes,
+ * turning two-factor off and admin resets.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    siteSettings: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  TwoFactorError,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  needsTwoFactorSetup,
+  resetTwoFactor,
+  verifySecondFactor,
+} from '@/lib/two-factor/service';
+import { generateTotp, getTotpStep } from '@/lib/two-factor/totp';
+import { generateRecoveryCodes } from '@/lib/two-factor/recovery-codes';
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+function user(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    email: 'ada@example.com',
+    role: 'REVIEWER',
+    twoFactorSecret: SECRET,
+    twoFactorEnabledAt: new Date('2026-01-01'),
+    twoFactorLastUsedStep: null as number | null,
+    twoFactorRecoveryCodes: [] as string[],
+    ...overrides,
+  };
+}
+
+function currentCode() {
+  return generateTotp(SECRET, getTotpStep());
+}
+
+describe('Two-Factor Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue(
+      { twoFactorRequiredRoles: [], name: 'CFP' } as never
+    );
+    vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should accept a current code and record its step', async () => {
+      const ok = await verifySecondFactor(user(), currentCode());
+
+      expect(ok).toBe(true);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', twoFactorLastUsedStep: null },
+        data: { twoFactorLastUsedStep: expect.any(Number) },
+      });
+    });
+
+    it('should refuse a code whose step was already used', async () => {
+      const ok = await verifySecondFactor(
+        user({ twoFactorLastUsedStep: getTotpStep() + 1 }),
+        currentCode()
+      );
+
+      expect(ok).toBe(false);
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a code another sign-in used first', async () => {
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await verifySecondFactor(user(), currentCode())).toBe(false);
+    });
+
+    it('should use up a recovery code and log it', async () => {
+      const { codes, hashes } = generateRecoveryCodes(2);
+
+      const ok = await verifySecondFactor(user({ twoFactorRecoveryCodes: hashes }), codes[0], '1.2.3.4');
+
+      expect(ok).toBe(true);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', twoFactorRecoveryCodes: { equals: hashes } },
+        data: { twoFactorRecoveryCodes: [hashes[1]] },
+      });
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'USER_TWO_FACTOR_RECOVERY_CODE_USED',
+        metadata: { remaining: 1 },
+      }));
+    });
+
+    it('should refuse codes for users without two-factor enabled', async () => {
+      expect(await verifySecondFactor(user({ twoFactorEnabledAt: null }), currentCode())).toBe(false);
+    });
+  });
+
+  describe('confirmTwoFactorEnrollment', () => {
+    it('should enable two-factor and return recovery codes', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user({ twoFactorEnabledAt: null }) as never);
+
+      const codes = await confirmTwoFactorEnrollment('user-1', currentCode());
+
+      expect(codes).toHaveLength(10);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({
+          twoFactorEnabledAt: expect.any(Date),
+          twoFactorRecoveryCodes: expect.arrayContaining([expect.stringMatching(/^[0-9a-f]{64}$/)]),
+        }),
+      });
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({ action: 'USER_TWO_FACTOR_ENABLED' }));
+    });
+
+    it('should refuse a wrong code', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user({ twoFactorEnabledAt: null }) as never);
+
+      await expect(confirmTwoFactorEnrollment('user-1', '000000')).rejects.toThrow(TwoFactorError);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse before enrollment has started', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        user({ twoFactorEnabledAt: null, twoFactorSecret: null }) as never
+      );
+
+      await expect(confirmTwoFactorEnrollment('user-1', currentCode())).rejects.toThrow('Start setting up');
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should turn two-factor off with a valid code', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user() as never);
+
+      await disableTwoFactor('user-1', currentCode());
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({ twoFactorSecret: null, twoFactorEnabledAt: null }),
+      });
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({ action: 'USER_TWO_FACTOR_DISABLED' }));
+    });
+
+    it('should refuse while the role requires two-factor', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user() as never);
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue(
+        { twoFactorRequiredRoles: ['REVIEWER'], name: 'CFP' } as never
+      );
+
+      await expect(disableTwoFactor('user-1', currentCode())).rejects.toThrow('required for your role');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetTwoFactor', () => {
+    it('should clear two-factor, sign the user out and log the admin', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user() as never);
+
+      await resetTwoFactor('user-1', 'admin-1');
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          sessionVersion: { increment: 1 },
+        }),
+      });
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'admin-1',
+        action: 'USER_TWO_FACTOR_RESET',
+        entityId: 'user-1',
+      }));
+    });
+
+    it('should refuse users without two-factor enabled', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user({ twoFactorEnabledAt: null }) as never);
+
+      await expect(resetTwoFactor('user-1', 'admin-1')).rejects.toThrow('not enabled');
+    });
+  });
+
+  describe('status', () => {
+    it('should report enrollment and whether the role requires it', async () => {
+      const { hashes } = generateRecoveryCodes(4);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user({ twoFactorRecoveryCodes: hashes }) as never);
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue(
+        { twoFactorRequiredRoles: ['REVIEWER'], name: 'CFP' } as never
+      );
+
+      expect(await getTwoFactorStatus('user-1')).toEqual({
+        enabled: true,
+        enabledAt: new Date('2026-01-01'),
+        recoveryCodesRemaining: 4,
+        required: true,
+      });
+    });
+
+    it('should send required roles without two-factor to setup', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(user({ twoFactorEnabledAt: null }) as never);
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue(
+        { twoFactorRequiredRoles: ['REVIEWER'], name: 'CFP' } as never
+      );
+
+      expect(await needsTwoFactorSetup('user-1')).toBe(true);
+    });
+
+    it('should require setup from single sign-on accounts too', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(
+        user({ passwordHash: null, twoFactorEnabledAt: null }) as never
+      );
+      vi.mocked(prisma.siteSettings.findUnique).mockResolvedValue(
+        { twoFactorRequiredRoles: ['REVIEWER'], name: 'CFP' } as never
+      );
+
+      expect(await needsTwoFactorSetup('user-1')).toBe(true);
+    });
+  });
+});
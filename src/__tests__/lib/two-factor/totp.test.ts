@@ -0,0 +1,181 @@
+/**
+ * Two-Factor Codes Tests
+ *
+ * TOTP against the RFC 6238 test vector, clock drift and replay, recovery
+ * codes, and which users have to set up two-factor authentication and
+ * what they can still reach until they do.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  getTotpUri,
+  verifyTotp,
+} from '@/lib/two-factor/totp';
+import {
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '@/lib/two-factor/recovery-codes';
+import {
+  formatRecoveryCode,
+  isTotpCode,
+  isTwoFactorSetupApiRoute,
+  isTwoFactorSetupRequired,
+  normalizeCode,
+} from '@/lib/two-factor/state';
+
+// RFC 6238 Appendix B SHA-1 seed "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('Two-Factor Authentication', () => {
+  describe('base32', () => {
+    it('should encode the RFC seed', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    });
+
+    it('should round-trip random secrets', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Encode(base32Decode(secret))).toBe(secret);
+    });
+
+    it('should accept lowercase, spaces and padding', () => {
+      expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe('12345678901234567890');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      // Last six digits of the published eight-digit codes
+      expect(generateTotp(RFC_SECRET, getTotpStep(new Date(59 * 1000)))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, getTotpStep(new Date(1111111109 * 1000)))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, getTotpStep(new Date(2000000000 * 1000)))).toBe('279037');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = new Date(1111111109 * 1000);
+    const step = getTotpStep(now);
+
+    it('should return the step of a valid code', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', { now })).toBe(step);
+    });
+
+    it('should accept codes one step either side for clock drift', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now })).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now })).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), { now })).toBeNull();
+    });
+
+    it('should refuse steps already used', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', { now, lastUsedStep: step })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '081804', { now, lastUsedStep: step - 1 })).toBe(step);
+    });
+
+    it('should refuse malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '81804', { now })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull();
+    });
+  });
+
+  describe('getTotpUri', () => {
+    it('should label the account with the issuer', () => {
+      const uri = getTotpUri({ secret: RFC_SECRET, accountName: 'ada@example.com', issuer: 'My CFP' });
+      expect(uri).toMatch(/^otpauth:\/\/totp\/My%20CFP%3Aada%40example\.com\?/);
+      const params = new URL(uri).searchParams;
+      expect(params.get('secret')).toBe(RFC_SECRET);
+      expect(params.get('issuer')).toBe('My CFP');
+      expect(params.get('digits')).toBe('6');
+      expect(params.get('period')).toBe('30');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate distinct codes with matching hashes', () => {
+      const { codes, hashes } = generateRecoveryCodes();
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[a-z2-9]{10}$/));
+      expect(hashes).toEqual(codes.map(hashRecoveryCode));
+    });
+
+    it('should use up a code once, however it is typed', () => {
+      const { codes, hashes } = generateRecoveryCodes(3);
+      const typed = formatRecoveryCode(codes[1]).toUpperCase();
+
+      const remaining = consumeRecoveryCode(hashes, typed);
+      expect(remaining).toEqual([hashes[0], hashes[2]]);
+      expect(consumeRecoveryCode(remaining!, typed)).toBeNull();
+    });
+
+    it('should refuse unknown codes', () => {
+      const { hashes } = generateRecoveryCodes(3);
+      expect(consumeRecoveryCode(hashes, 'aaaaa-aaaaa')).toBeNull();
+    });
+  });
+
+  describe('codes as typed', () => {
+    it('should normalize spaces, dashes and case', () => {
+      expect(normalizeCode(' 123 456 ')).toBe('123456');
+      expect(normalizeCode('ABCDE-FGHJK')).toBe('abcdefghjk');
+    });
+
+    it('should tell authenticator codes from recovery codes', () => {
+      expect(isTotpCode('123 456')).toBe(true);
+      expect(isTotpCode('abcde-fghjk')).toBe(false);
+      expect(isTotpCode('1234567')).toBe(false);
+    });
+
+    it('should split recovery codes for reading', () => {
+      expect(formatRecoveryCode('abcdefghjk')).toBe('abcde-fghjk');
+    });
+  });
+
+  describe('isTwoFactorSetupRequired', () => {
+    const required = ['ADMIN', 'REVIEWER'] as const;
+
+    it('should require setup for users in a required role', () => {
+      expect(isTwoFactorSetupRequired(
+        { role: 'REVIEWER', twoFactorEnabled: false },
+        [...required]
+      )).toBe(true);
+    });
+
+    it('should not require setup once enabled', () => {
+      expect(isTwoFactorSetupRequired(
+        { role: 'ADMIN', twoFactorEnabled: true },
+        [...required]
+      )).toBe(false);
+    });
+
+    it('should leave other roles alone', () => {
+      expect(isTwoFactorSetupRequired(
+        { role: 'ORGANIZER', twoFactorEnabled: false },
+        [...required]
+      )).toBe(false);
+    });
+  });
+
+  describe('isTwoFactorSetupApiRoute', () => {
+    it('should leave enrollment and sign-out open', () => {
+      expect(isTwoFactorSetupApiRoute('/api/account/two-factor')).toBe(true);
+      expect(isTwoFactorSetupApiRoute('/api/account/two-factor/confirm')).toBe(true);
+      expect(isTwoFactorSetupApiRoute('/api/auth/signout')).toBe(true);
+    });
+
+    it('should close everything else', () => {
+      expect(isTwoFactorSetupApiRoute('/api/submissions')).toBe(false);
+      expect(isTwoFactorSetupApiRoute('/api/account/two-factor-reset')).toBe(false);
+      expect(isTwoFactorSetupApiRoute('/api/admin/users/user-1/two-factor')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Webhook Service Tests
+ *
+ * Registering endpoints, fanning hooks out to subscribed endpoints,
+ * signing and retrying deliveries, test events and redelivery. Sending
+ * itself is covered by the transport tests.
+ */
+
+import { createHmac } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    event: {
+      findUnique: vi.fn(),
+    },
+    webhookEndpoint: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    webhookDelivery: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('@/lib/activity-logger', () => ({
+  logActivity: vi.fn(),
+}));
+
+vi.mock('@/lib/api/auth', () => ({
+  canManageEvent: vi.fn(),
+  isAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/webhooks/transport', () => ({
+  postWebhook: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { postWebhook } from '@/lib/webhooks/transport';
+import { encryptString, decryptString } from '@/lib/security/encryption';
+import {
+  WebhookError,
+  createWebhookEndpoint,
+  processWebhookQueue,
+  purgeWebhookLog,
+  queueHookWebhooks,
+  redeliverWebhook,
+  sendTestWebhook,
+  sendWebhookDelivery,
+} from '@/lib/webhooks/service';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOK_ENDPOINTS,
+  WEBHOOK_RETRY_DELAYS_MS,
+  WEBHOOK_TEST_HOOK,
+} from '@/lib/webhooks/state';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+const SECRET = 'whsec_test';
+
+const endpoint = {
+  id: 'endpoint-1',
+  eventId: null,
+  url: 'https://hooks.example.com/cfp',
+  description: null,
+  hooks: ['submission.created'],
+  enabled: true,
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+function storedDelivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'delivery-1',
+    endpointId: endpoint.id,
+    hookName: 'submission.created',
+    requestBody: encryptString('{"type":"submission.created"}'),
+    status: 'DELIVERING',
+    attempts: 0,
+    nextAttemptAt: NOW,
+    lastAttemptAt: null,
+    responseStatus: null,
+    responseBody: null,
+    durationMs: null,
+    lastError: null,
+    deliveredAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    endpoint: { ...endpoint, secret: encryptString(SECRET) },
+    ...overrides,
+  };
+}
+
+/** Let every claim succeed and load the given delivery */
+function claimDelivery(delivery = storedDelivery()) {
+  vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 });
+  vi.mocked(prisma.webhookDelivery.findUniqueOrThrow).mockResolvedValue(delivery as never);
+}
+
+function lastUpdateData() {
+  return vi.mocked(prisma.webhookDelivery.update).mock.calls.at(-1)![0].data;
+}
+
+describe('Webhook Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(postWebhook).mockResolvedValue({ status: 200, body: 'ok' });
+  });
+
+  describe('createWebhookEndpoint', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.webhookEndpoint.count).mockResolvedValue(0);
+      vi.mocked(prisma.webhookEndpoint.create).mockImplementation(
+        (async ({ data }: { data: Record<string, unknown> }) => ({ ...endpoint, ...data, id: 'endpoint-2' })) as never
+      );
+    });
+
+    it('returns the secret once and stores it encrypted', async () => {
+      const { secret } = await createWebhookEndpoint({ id: 'admin-1' }, {
+        url: endpoint.url,
+        hooks: ['submission.created', 'user.registered'],
+        enabled: true,
+      });
+
+      expect(secret).toMatch(/^whsec_/);
+      const stored = vi.mocked(prisma.webhookEndpoint.create).mock.calls[0][0].data.secret as string;
+      expect(stored).not.toBe(secret);
+      expect(decryptString(stored)).toBe(secret);
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'WEBHOOK_CREATED',
+        entityType: 'Settings',
+      }));
+    });
+
+    it("rejects hooks that don't belong to an event for event endpoints", async () => {
+      await expect(createWebhookEndpoint({ id: 'organizer-1' }, {
+        url: endpoint.url,
+        hooks: ['user.registered'],
+        enabled: true,
+        eventId: 'event-1',
+      })).rejects.toThrow(WebhookError);
+
+      expect(prisma.webhookEndpoint.create).not.toHaveBeenCalled();
+    });
+
+    it('keeps event endpoints off the local network', async () => {
+      await expect(createWebhookEndpoint({ id: 'organizer-1' }, {
+        url: 'http://192.168.1.20/hook',
+        hooks: ['submission.created'],
+        enabled: true,
+        eventId: 'event-1',
+      })).rejects.toThrow('instance-wide');
+
+      expect(prisma.webhookEndpoint.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects endpoints for an event that does not exist', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(null);
+
+      await expect(createWebhookEndpoint({ id: 'organizer-1' }, {
+        url: endpoint.url,
+        hooks: ['submission.created'],
+        enabled: true,
+        eventId: 'missing',
+      })).rejects.toThrow('Event not found');
+    });
+
+    it('limits the number of endpoints', async () => {
+      vi.mocked(prisma.webhookEndpoint.count).mockResolvedValue(MAX_WEBHOOK_ENDPOINTS);
+
+      await expect(createWebhookEndpoint({ id: 'admin-1' }, {
+        url: endpoint.url,
+        hooks: ['submission.created'],
+        enabled: true,
+      })).rejects.toThrow(WebhookError);
+    });
+  });
+
+  describe('queueHookWebhooks', () => {
+    it('does nothing without subscribed endpoints', async () => {
+      vi.mocked(prisma.webhookEndpoint.findMany).mockResolvedValue([]);
+
+      await expect(queueHookWebhooks('user.registered', { user: { id: 'user-1' } }, NOW)).resolves.toBe(0);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("targets instance endpoints and the hook's event", async () => {
+      vi.mocked(prisma.webhookEndpoint.findMany).mockResolvedValue([]);
+
+      await queueHookWebhooks('submission.created', { submission: { id: 'sub-1', eventId: 'event-1' } }, NOW);
+
+      expect(prisma.webhookEndpoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          enabled: true,
+          hooks: { has: 'submission.created' },
+          OR: [{ eventId: null }, { eventId: 'event-1' }],
+        },
+      }));
+    });
+
+    it('stores one encrypted delivery per endpoint and sends it signed', async () => {
+      vi.mocked(prisma.webhookEndpoint.findMany).mockResolvedValue([{ id: 'endpoint-1' }] as never);
+      vi.mocked(prisma.webhookDelivery.create).mockImplementation(
+        (({ data }: { data: Record<string, unknown> }) => Promise.resolve({ ...storedDelivery(), ...data })) as never
+      );
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.webhookDelivery.findUniqueOrThrow).mockImplementation((async () => {
+        const { data } = vi.mocked(prisma.webhookDelivery.create).mock.calls[0][0];
+        return storedDelivery({ requestBody: data.requestBody });
+      }) as never);
+
+      const count = await queueHookWebhooks('submission.created', {
+        submission: { id: 'sub-1', eventId: 'event-1' },
+      }, NOW);
+
+      expect(count).toBe(1);
+      const body = JSON.parse(decryptString(
+        vi.mocked(prisma.webhookDelivery.create).mock.calls[0][0].data.requestBody as string
+      ));
+      expect(body).toMatchObject({
+        type: 'submission.created',
+        eventId: 'event-1',
+        data: { submission: { id: 'sub-1', eventId: 'event-1' } },
+      });
+
+      const [url, request] = vi.mocked(postWebhook).mock.calls[0];
+      expect(url).toBe(endpoint.url);
+      const timestamp = request.headers['X-Webhook-Timestamp'];
+      const expected = createHmac('sha256', SECRET).update(`${timestamp}.${request.body}`).digest('hex');
+      expect(request.headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+      expect(request.headers['X-Webhook-Event']).toBe('submission.created');
+      expect(request.scope).toBe('instance');
+    });
+  });
+
+  describe('sendWebhookDelivery', () => {
+    it('skips deliveries claimed elsewhere', async () => {
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(sendWebhookDelivery('delivery-1', NOW)).resolves.toBeNull();
+      expect(postWebhook).not.toHaveBeenCalled();
+    });
+
+    it('records a successful delivery and its response', async () => {
+      claimDelivery();
+
+      const result = await sendWebhookDelivery('delivery-1', NOW);
+
+      expect(result).toEqual({ success: true, statusCode: 200 });
+      expect(lastUpdateData()).toMatchObject({
+        status: 'SUCCEEDED',
+        attempts: 1,
+        responseStatus: 200,
+        responseBody: 'ok',
+      });
+    });
+
+    it('schedules a retry when the endpoint fails', async () => {
+      claimDelivery();
+      vi.mocked(postWebhook).mockResolvedValue({ status: 500, body: 'nope' });
+
+      const result = await sendWebhookDelivery('delivery-1', NOW);
+
+      expect(result).toMatchObject({ success: false, queued: true, statusCode: 500 });
+      expect(lastUpdateData()).toMatchObject({
+        status: 'PENDING',
+        attempts: 1,
+        nextAttemptAt: new Date(NOW.getTime() + WEBHOOK_RETRY_DELAYS_MS[0]),
+        lastError: 'Endpoint responded with 500',
+        responseBody: 'nope',
+      });
+    });
+
+    it('gives up after the last attempt', async () => {
+      claimDelivery(storedDelivery({ attempts: MAX_WEBHOOK_ATTEMPTS - 1 }));
+      vi.mocked(postWebhook).mockRejectedValue(new Error('connect ECONNREFUSED'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await sendWebhookDelivery('delivery-1', NOW);
+
+      expect(result).toMatchObject({ success: false, queued: false, error: 'connect ECONNREFUSED' });
+      expect(lastUpdateData()).toMatchObject({ status: 'FAILED', attempts: MAX_WEBHOOK_ATTEMPTS });
+    });
+
+    it('keeps event endpoints to public addresses', async () => {
+      claimDelivery(storedDelivery({ endpoint: { ...endpoint, eventId: 'event-1', secret: encryptString(SECRET) } }));
+      vi.mocked(postWebhook).mockRejectedValue(
+        new Error('hooks.example.com resolves to 10.0.0.5. Local network addresses can only receive instance-wide webhooks')
+      );
+
+      await expect(sendWebhookDelivery('delivery-1', NOW)).resolves.toMatchObject({
+        success: false,
+        error: expect.stringMatching(/instance-wide/),
+      });
+      expect(vi.mocked(postWebhook).mock.calls[0][1].scope).toBe('event');
+    });
+
+    it('does not retry test events', async () => {
+      claimDelivery(storedDelivery({ hookName: WEBHOOK_TEST_HOOK }));
+      vi.mocked(postWebhook).mockResolvedValue({ status: 404, body: '' });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await sendWebhookDelivery('delivery-1', NOW);
+
+      expect(result).toMatchObject({ success: false, queued: false });
+      expect(lastUpdateData()).toMatchObject({ status: 'FAILED' });
+    });
+  });
+
+  describe('sendTestWebhook', () => {
+    it('sends a test event and returns the decrypted log entry', async () => {
+      vi.mocked(prisma.webhookDelivery.create).mockImplementation(
+        (({ data }: { data: Record<string, unknown> }) => Promise.resolve({ ...storedDelivery(), ...data })) as never
+      );
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.webhookDelivery.findUniqueOrThrow).mockImplementation((async () => {
+        const { data } = vi.mocked(prisma.webhookDelivery.create).mock.calls[0][0];
+        return storedDelivery({ hookName: WEBHOOK_TEST_HOOK, requestBody: data.requestBody, status: 'SUCCEEDED' });
+      }) as never);
+
+      const { delivery, result } = await sendTestWebhook({ ...endpoint, enabled: false }, NOW);
+
+      expect(result?.success).toBe(true);
+      expect(JSON.parse(delivery.requestBody)).toMatchObject({
+        type: WEBHOOK_TEST_HOOK,
+        test: true,
+        data: { endpointId: endpoint.id },
+      });
+    });
+  });
+
+  describe('redeliverWebhook', () => {
+    it('returns null for deliveries of another endpoint', async () => {
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue(null);
+
+      await expect(redeliverWebhook(endpoint, 'delivery-9', { id: 'admin-1' })).resolves.toBeNull();
+    });
+
+    it('refuses deliveries that are still in flight', async () => {
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue(storedDelivery({ status: 'PENDING' }) as never);
+
+      await expect(redeliverWebhook(endpoint, 'delivery-1', { id: 'admin-1' })).rejects.toThrow(WebhookError);
+    });
+
+    it('copies succeeded deliveries so the log keeps the original', async () => {
+      const original = storedDelivery({ status: 'SUCCEEDED' });
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue(original as never);
+      vi.mocked(prisma.webhookDelivery.create).mockResolvedValue(
+        storedDelivery({ id: 'delivery-2', status: 'PENDING' }) as never
+      );
+
+      const delivery = await redeliverWebhook(endpoint, 'delivery-1', { id: 'admin-1' });
+
+      expect(delivery?.id).toBe('delivery-2');
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ hookName: original.hookName, requestBody: original.requestBody }),
+      });
+      expect(prisma.webhookDelivery.updateMany).not.toHaveBeenCalled();
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({ action: 'WEBHOOK_REDELIVERED' }));
+    });
+
+    it('requeues failed deliveries with fresh attempts', async () => {
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue(storedDelivery({ status: 'FAILED' }) as never);
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.webhookDelivery.findUniqueOrThrow).mockResolvedValue(
+        storedDelivery({ status: 'PENDING' }) as never
+      );
+
+      const delivery = await redeliverWebhook(endpoint, 'delivery-1', { id: 'admin-1' });
+
+      expect(delivery?.requestBody).toBe('{"type":"submission.created"}');
+      expect(prisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: { id: 'delivery-1', status: 'FAILED' },
+        data: expect.objectContaining({ status: 'PENDING', attempts: 0 }),
+      });
+    });
+  });
+
+  describe('processWebhookQueue', () => {
+    it('requeues stale deliveries and summarizes the batch', async () => {
+      vi.mocked(prisma.webhookDelivery.updateMany)
+        .mockResolvedValueOnce({ count: 2 })
+        .mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([{ id: 'a' }, { id: 'b' }] as never);
+      vi.mocked(prisma.webhookDelivery.findUniqueOrThrow).mockResolvedValue(storedDelivery() as never);
+      vi.mocked(postWebhook)
+        .mockResolvedValueOnce({ status: 200, body: 'ok' })
+        .mockResolvedValueOnce({ status: 503, body: '' });
+
+      const summary = await processWebhookQueue(NOW);
+
+      expect(summary).toEqual({ requeued: 2, delivered: 1, retrying: 1, failed: 0 });
+      expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'PENDING', nextAttemptAt: { lte: NOW }, endpoint: { enabled: true } },
+      }));
+    });
+  });
+
+  describe('purgeWebhookLog', () => {
+    it('deletes finished deliveries past the retention period', async () => {
+      vi.mocked(prisma.webhookDelivery.deleteMany).mockResolvedValue({ count: 4 });
+
+      await expect(purgeWebhookLog(NOW)).resolves.toBe(4);
+      expect(prisma.webhookDelivery.deleteMany).toHaveBeenCalledWith({
+        where: {
+          status: { in: ['SUCCEEDED', 'FAILED'] },
+          createdAt: { lt: new Date('2026-05-02T12:00:00Z') },
+        },
+      });
+    });
+  });
+});
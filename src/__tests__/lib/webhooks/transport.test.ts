@@ -0,0 +1,140 @@
+/**
+ * Webhook Transport Tests
+ *
+ * Deliveries go to a local server; DNS answers are mocked so a name can
+ * point at the server, or at an address the endpoint may not reach.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+
+vi.mock('dns', () => ({
+  lookup: vi.fn(),
+}));
+
+import { lookup } from 'dns';
+import { postWebhook, type WebhookRequest } from '@/lib/webhooks/transport';
+import { WEBHOOK_RESPONSE_BODY_LIMIT } from '@/lib/webhooks/state';
+
+type LookupCallback = (error: null, addresses: Array<{ address: string; family: number }>) => void;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const received: ReceivedRequest[] = [];
+let respond: (response: http.ServerResponse) => void;
+let server: http.Server;
+let port: number;
+
+const request: WebhookRequest = {
+  headers: { 'Content-Type': 'application/json', 'X-Webhook-Event': 'submission.created' },
+  body: '{"type":"submission.created","title":"Café"}',
+  scope: 'instance',
+};
+
+/** Answer the next lookups with these addresses, one per lookup */
+function resolveTo(...addresses: string[]) {
+  for (const address of addresses) {
+    vi.mocked(lookup).mockImplementationOnce(((_hostname: string, _options: unknown, callback: LookupCallback) => {
+      callback(null, [{ address, family: address.includes(':') ? 6 : 4 }]);
+    }) as never);
+  }
+}
+
+function hookUrl() {
+  return `http://hooks.example.com:${port}/cfp`;
+}
+
+describe('Webhook Transport', () => {
+  beforeAll(async () => {
+    server = http.createServer((incoming, response) => {
+      let body = '';
+      incoming.setEncoding('utf8');
+      incoming.on('data', chunk => { body += chunk; });
+      incoming.on('end', () => {
+        received.push({ headers: incoming.headers, body });
+        respond(response);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(lookup).mockReset();
+    received.length = 0;
+    respond = response => response.writeHead(200).end('ok');
+  });
+
+  it('sends the headers and body and returns the response', async () => {
+    resolveTo('127.0.0.1');
+
+    await expect(postWebhook(hookUrl(), request)).resolves.toEqual({ status: 200, body: 'ok' });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toBe(request.body);
+    expect(received[0].headers['x-webhook-event']).toBe('submission.created');
+    expect(received[0].headers['content-length']).toBe(Buffer.byteLength(request.body).toString());
+    expect(lookup).toHaveBeenCalledWith('hooks.example.com', expect.objectContaining({ all: true }), expect.any(Function));
+  });
+
+  it('connects to the address it checked, not a later answer', async () => {
+    resolveTo('127.0.0.1', '169.254.169.254');
+
+    await expect(postWebhook(hookUrl(), request)).resolves.toMatchObject({ status: 200 });
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    // The name now points at the metadata service; the next delivery checks it again
+    await expect(postWebhook(hookUrl(), request)).rejects.toThrow(
+      'hooks.example.com resolves to 169.254.169.254. Link-local and cloud metadata addresses are not allowed'
+    );
+    expect(lookup).toHaveBeenCalledTimes(2);
+    expect(received).toHaveLength(1);
+  });
+
+  it('refuses names that resolve to a metadata address', async () => {
+    resolveTo('::ffff:169.254.169.254');
+
+    await expect(postWebhook(hookUrl(), request)).rejects.toThrow(/metadata/);
+    expect(received).toHaveLength(0);
+  });
+
+  it('only sends to the local network from instance-wide endpoints', async () => {
+    resolveTo('127.0.0.1');
+
+    await expect(postWebhook(hookUrl(), { ...request, scope: 'event' })).rejects.toThrow(/instance-wide/);
+    expect(received).toHaveLength(0);
+  });
+
+  it('refuses metadata addresses written into the URL', async () => {
+    await expect(postWebhook('http://169.254.169.254/latest/meta-data', request)).rejects.toThrow(/metadata/);
+    await expect(postWebhook(`http://[::ffff:a9fe:a9fe]:${port}/`, request)).rejects.toThrow(/metadata/);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('stops reading the response once the log has enough of it', async () => {
+    resolveTo('127.0.0.1');
+    const chunk = 'x'.repeat(1000);
+    respond = response => {
+      response.writeHead(200);
+      const write = () => {
+        if (response.destroyed) return;
+        response.write(chunk, () => setImmediate(write));
+      };
+      write();
+    };
+
+    const { body } = await postWebhook(hookUrl(), request);
+
+    expect(body).toHaveLength(WEBHOOK_RESPONSE_BODY_LIMIT + 1);
+    expect(body.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Bulk Submission Operation Validation Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bulkOperationSchema,
+  bulkEmailPreviewSchema,
+  MAX_BULK_SUBMISSIONS,
+} from '@/lib/validations/bulk-operation';
+
+describe('Bulk Operation Validation Schemas', () => {
+  describe('bulkOperationSchema', () => {
+    it('should accept a status change and default to emailing speakers', () => {
+      const result = bulkOperationSchema.parse({
+        action: 'status',
+        submissionIds: ['sub-1', 'sub-2'],
+        status: 'REJECTED',
+      });
+      expect(result.action === 'status' && result.notifySpeakers).toBe(true);
+      expect(result.action === 'status' && result.includeFeedback).toBe(false);
+    });
+
+    it('should remove duplicate submission IDs', () => {
+      const result = bulkOperationSchema.parse({
+        action: 'track',
+        submissionIds: ['sub-1', 'sub-1', 'sub-2'],
+        trackId: 'track-1',
+      });
+      expect(result.submissionIds).toEqual(['sub-1', 'sub-2']);
+    });
+
+    it('should allow clearing the track or format', () => {
+      expect(bulkOperationSchema.safeParse({ action: 'track', submissionIds: ['sub-1'], trackId: null }).success).toBe(true);
+      expect(bulkOperationSchema.safeParse({ action: 'format', submissionIds: ['sub-1'], formatId: null }).success).toBe(true);
+    });
+
+    it('should require at least one and at most the maximum submissions', () => {
+      expect(bulkOperationSchema.safeParse({ action: 'track', submissionIds: [], trackId: null }).success).toBe(false);
+      expect(bulkOperationSchema.safeParse({
+        action: 'track',
+        submissionIds: Array.from({ length: MAX_BULK_SUBMISSIONS + 1 }, (_, i) => `sub-${i}`),
+        trackId: null,
+      }).success).toBe(false);
+    });
+
+    it('should only send decision email templates', () => {
+      expect(bulkOperationSchema.safeParse({
+        action: 'notify',
+        submissionIds: ['sub-1'],
+        templateType: 'submission_waitlisted',
+      }).success).toBe(true);
+      expect(bulkOperationSchema.safeParse({
+        action: 'notify',
+        submissionIds: ['sub-1'],
+        templateType: 'password_reset',
+      }).success).toBe(false);
+    });
+
+    it('should reject unknown actions', () => {
+      expect(bulkOperationSchema.safeParse({ action: 'delete', submissionIds: ['sub-1'] }).success).toBe(false);
+    });
+  });
+
+  describe('bulkEmailPreviewSchema', () => {
+    it('should accept a template and selection', () => {
+      const result = bulkEmailPreviewSchema.parse({
+        submissionIds: ['sub-1'],
+        templateType: 'submission_accepted',
+      });
+      expect(result.includeFeedback).toBe(false);
+    });
+  });
+});
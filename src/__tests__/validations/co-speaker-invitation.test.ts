@@ -0,0 +1,41 @@
+/**
+ * Co-Speaker Invitation Validation Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { respondCoSpeakerInvitationSchema } from '@/lib/validations/co-speaker-invitation';
+
+describe('Co-Speaker Invitation Validation Schemas', () => {
+  describe('respondCoSpeakerInvitationSchema', () => {
+    it('should accept accept and decline answers', () => {
+      expect(respondCoSpeakerInvitationSchema.safeParse({ action: 'accept' }).success).toBe(true);
+      expect(respondCoSpeakerInvitationSchema.safeParse({ action: 'decline' }).success).toBe(true);
+    });
+
+    it('should accept a registration with a name and strong password', () => {
+      const result = respondCoSpeakerInvitationSchema.safeParse({
+        action: 'register',
+        name: 'Ada Lovelace',
+        password: 'Analytical1',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a name and a strong password to register', () => {
+      expect(respondCoSpeakerInvitationSchema.safeParse({
+        action: 'register',
+        name: 'A',
+        password: 'Analytical1',
+      }).success).toBe(false);
+      expect(respondCoSpeakerInvitationSchema.safeParse({
+        action: 'register',
+        name: 'Ada Lovelace',
+        password: 'weak',
+      }).success).toBe(false);
+    });
+
+    it('should reject unknown actions', () => {
+      expect(respondCoSpeakerInvitationSchema.safeParse({ action: 'maybe' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Speaker Confirmation Validation Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { respondConfirmationSchema } from '@/lib/validations/confirmation';
+
+describe('Speaker Confirmation Validation Schemas', () => {
+  describe('respondConfirmationSchema', () => {
+    it('should accept a confirmation with agreements and travel needs', () => {
+      const result = respondConfirmationSchema.safeParse({
+        action: 'confirm',
+        agreedToCodeOfConduct: true,
+        agreedToRecording: true,
+        travelNeeds: 'Flight from Berlin',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should default the recording agreement to false', () => {
+      const result = respondConfirmationSchema.parse({
+        action: 'confirm',
+        agreedToCodeOfConduct: true,
+      });
+      expect(result.action === 'confirm' && result.agreedToRecording).toBe(false);
+    });
+
+    it('should require agreeing to the code of conduct', () => {
+      const result = respondConfirmationSchema.safeParse({
+        action: 'confirm',
+        agreedToCodeOfConduct: false,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept a decline with an optional reason', () => {
+      expect(respondConfirmationSchema.safeParse({ action: 'decline' }).success).toBe(true);
+      expect(respondConfirmationSchema.safeParse({ action: 'decline', reason: 'Schedule clash' }).success).toBe(true);
+    });
+
+    it('should reject unknown actions and overly long text', () => {
+      expect(respondConfirmationSchema.safeParse({ action: 'maybe' }).success).toBe(false);
+      expect(respondConfirmationSchema.safeParse({
+        action: 'decline',
+        reason: 'x'.repeat(2001),
+      }).success).toBe(false);
+    });
+  });
+});
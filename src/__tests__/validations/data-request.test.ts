@@ -0,0 +1,45 @@
+/**
+ * Data Request Validation Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createErasureRequestSchema,
+  reviewErasureRequestSchema,
+} from '@/lib/validations/data-request';
+
+describe('Data Request Validation Schemas', () => {
+  describe('createErasureRequestSchema', () => {
+    it('should accept an email confirmation with an optional reason', () => {
+      expect(createErasureRequestSchema.safeParse({ confirmEmail: 'me@example.com' }).success).toBe(true);
+      expect(createErasureRequestSchema.safeParse({
+        confirmEmail: 'me@example.com',
+        reason: 'No longer speaking at conferences',
+      }).success).toBe(true);
+    });
+
+    it('should require the email confirmation', () => {
+      expect(createErasureRequestSchema.safeParse({}).success).toBe(false);
+      expect(createErasureRequestSchema.safeParse({ confirmEmail: '' }).success).toBe(false);
+    });
+
+    it('should reject overly long reasons', () => {
+      const result = createErasureRequestSchema.safeParse({
+        confirmEmail: 'me@example.com',
+        reason: 'x'.repeat(2001),
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('reviewErasureRequestSchema', () => {
+    it('should accept approve and reject decisions', () => {
+      expect(reviewErasureRequestSchema.safeParse({ decision: 'approve' }).success).toBe(true);
+      expect(reviewErasureRequestSchema.safeParse({ decision: 'reject', note: 'Legal hold' }).success).toBe(true);
+    });
+
+    it('should reject unknown decisions', () => {
+      expect(reviewErasureRequestSchema.safeParse({ decision: 'delete' }).success).toBe(false);
+    });
+  });
+});
@@ -14,6 +14,7 @@ import {
   addReviewerSchema,
   talkFormatSchema,
   reviewCriteriaSchema,
+  submissionFieldSchema,
 } from '@/lib/validations/event';
 
 describe('Event Validation Schemas', () => {
@@ -64,6 +65,32 @@ describe('Event Validation Schemas', () => {
     });
   });
 
+  describe('submissionFieldSchema', () => {
+    it('should validate a text field with defaults', () => {
+      const result = submissionFieldSchema.safeParse({ label: 'Company', type: 'TEXT' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.required).toBe(false);
+        expect(result.data.options).toEqual([]);
+      }
+    });
+    
+    it('should require options for choice fields', () => {
+      expect(submissionFieldSchema.safeParse({ label: 'Level', type: 'SELECT' }).success).toBe(false);
+      expect(submissionFieldSchema.safeParse({ label: 'Level', type: 'MULTI_SELECT', options: ['A'] }).success).toBe(true);
+    });
+    
+    it('should reject duplicate options', () => {
+      const result = submissionFieldSchema.safeParse({ label: 'Level', type: 'SELECT', options: ['A', ' A'] });
+      expect(result.success).toBe(false);
+    });
+    
+    it('should reject a minimum above the maximum', () => {
+      expect(submissionFieldSchema.safeParse({ label: 'Years', type: 'NUMBER', minValue: 10, maxValue: 1 }).success).toBe(false);
+      expect(submissionFieldSchema.safeParse({ label: 'Years', type: 'NUMBER', minValue: 0, maxValue: 50 }).success).toBe(true);
+    });
+  });
+  
   describe('createEventSchema', () => {
     it('should validate a valid event with all fields', () => {
       const validEvent = {
@@ -209,6 +236,19 @@ describe('Event Validation Schemas', () => {
       expect(result.enableSpeakerFeedback).toBe(false);
     });
     
+    it('should only accept known review types', () => {
+      expect(createEventSchema.safeParse({ name: 'Test Event', reviewType: 'voting' }).success).toBe(true);
+      expect(createEventSchema.safeParse({ name: 'Test Event', reviewType: 'ranking' }).success).toBe(true);
+      expect(createEventSchema.safeParse({ name: 'Test Event', reviewType: 'lottery' }).success).toBe(false);
+    });
+    
+    it('should default review anonymity to open and only accept known modes', () => {
+      expect(createEventSchema.parse({ name: 'Test Event' }).reviewAnonymity).toBe('OPEN');
+      expect(createEventSchema.safeParse({ name: 'Test Event', reviewAnonymity: 'SPEAKER_HIDDEN' }).success).toBe(true);
+      expect(createEventSchema.safeParse({ name: 'Test Event', reviewAnonymity: 'DOUBLE_BLIND' }).success).toBe(true);
+      expect(createEventSchema.safeParse({ name: 'Test Event', reviewAnonymity: 'TRIPLE_BLIND' }).success).toBe(false);
+    });
+    
     it('should default notification settings', () => {
       const event = {
         name: 'Test Event',
@@ -269,6 +309,14 @@ describe('Event Validation Schemas', () => {
       const result = updateEventSchema.safeParse({});
       expect(result.success).toBe(true);
     });
+
+    it('should leave submission fields untouched when omitted', () => {
+      const result = updateEventSchema.safeParse({ name: 'Updated Name' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.submissionFields).toBeUndefined();
+      }
+    });
   });
 
   describe('eventFiltersSchema', () => {
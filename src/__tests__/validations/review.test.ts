@@ -7,6 +7,9 @@ import {
   createReviewSchema,
   updateReviewSchema,
   createDiscussionSchema,
+  saveRankingSchema,
+  commitAssignmentsSchema,
+  declareConflictSchema,
 } from '@/lib/validations/review';
 
 describe('Review Validation Schemas', () => {
@@ -177,4 +180,116 @@ describe('Review Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('vote', () => {
+    it('should accept yes, no and abstain votes', () => {
+      for (const vote of ['YES', 'NO', 'ABSTAIN']) {
+        const result = createReviewSchema.safeParse({ vote });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it('should reject unknown votes', () => {
+      const result = createReviewSchema.safeParse({ vote: 'MAYBE' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('criterionScores', () => {
+    it('should accept one score per criterion', () => {
+      const result = createReviewSchema.safeParse({
+        criterionScores: [
+          { criteriaId: 'c-1', score: 4 },
+          { criteriaId: 'c-2', score: 2 },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject scores outside 1-5', () => {
+      const result = createReviewSchema.safeParse({
+        criterionScores: [{ criteriaId: 'c-1', score: 6 }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject scoring the same criterion twice', () => {
+      const result = createReviewSchema.safeParse({
+        criterionScores: [
+          { criteriaId: 'c-1', score: 4 },
+          { criteriaId: 'c-1', score: 2 },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('saveRankingSchema', () => {
+    it('should validate an ordered list of submissions', () => {
+      const result = saveRankingSchema.safeParse({
+        trackId: 'track-1',
+        submissionIds: ['sub-1', 'sub-2', 'sub-3'],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should allow an event-wide ranking without a track', () => {
+      const result = saveRankingSchema.safeParse({
+        trackId: null,
+        submissionIds: ['sub-1'],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject duplicate submissions', () => {
+      const result = saveRankingSchema.safeParse({
+        submissionIds: ['sub-1', 'sub-2', 'sub-1'],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require submissionIds', () => {
+      const result = saveRankingSchema.safeParse({ trackId: 'track-1' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('commitAssignmentsSchema', () => {
+    it('should default pairs to automatic', () => {
+      const result = commitAssignmentsSchema.parse({
+        assignments: [
+          { submissionId: 'sub-1', reviewerId: 'rev-1' },
+          { submissionId: 'sub-1', reviewerId: 'rev-2', isAutomatic: false },
+        ],
+      });
+      expect(result.assignments.map(a => a.isAutomatic)).toEqual([true, false]);
+    });
+
+    it('should reject duplicate pairs', () => {
+      const result = commitAssignmentsSchema.safeParse({
+        assignments: [
+          { submissionId: 'sub-1', reviewerId: 'rev-1' },
+          { submissionId: 'sub-1', reviewerId: 'rev-1' },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require at least one pair', () => {
+      const result = commitAssignmentsSchema.safeParse({ assignments: [] });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('declareConflictSchema', () => {
+    it('should allow a conflict without a reason', () => {
+      expect(declareConflictSchema.safeParse({}).success).toBe(true);
+      expect(declareConflictSchema.safeParse({ reason: null }).success).toBe(true);
+    });
+
+    it('should limit the reason length', () => {
+      const result = declareConflictSchema.safeParse({ reason: 'a'.repeat(1001) });
+      expect(result.success).toBe(false);
+    });
+  });
 });
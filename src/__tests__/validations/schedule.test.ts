@@ -0,0 +1,60 @@
+/**
+ * Schedule Validation Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createRoomSchema,
+  createSlotSchema,
+  updateSlotSchema,
+} from '@/lib/validations/schedule';
+
+describe('Schedule Validation Schemas', () => {
+  describe('createRoomSchema', () => {
+    it('should validate a room', () => {
+      expect(createRoomSchema.safeParse({ name: 'Main Hall', capacity: 400 }).success).toBe(true);
+    });
+
+    it('should require a name', () => {
+      expect(createRoomSchema.safeParse({ name: '' }).success).toBe(false);
+    });
+  });
+
+  describe('createSlotSchema', () => {
+    const base = { roomId: 'room-1', date: '2026-11-20', startTime: '09:00' };
+
+    it('should size slots from a talk format', () => {
+      const result = createSlotSchema.parse({ ...base, talkFormatId: 'format-1' });
+      expect(result.count).toBe(1);
+    });
+
+    it('should accept an explicit duration', () => {
+      expect(createSlotSchema.safeParse({ ...base, durationMin: 60, title: 'Lunch' }).success).toBe(true);
+    });
+
+    it('should require a format or a duration', () => {
+      expect(createSlotSchema.safeParse(base).success).toBe(false);
+    });
+
+    it('should reject malformed dates and times', () => {
+      expect(createSlotSchema.safeParse({ ...base, date: '2026-02-30x', durationMin: 30 }).success).toBe(false);
+      expect(createSlotSchema.safeParse({ ...base, startTime: '9am', durationMin: 30 }).success).toBe(false);
+    });
+
+    it('should not place one submission in several slots', () => {
+      const result = createSlotSchema.safeParse({ ...base, durationMin: 30, submissionId: 'sub-1', count: 3 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateSlotSchema', () => {
+    it('should allow clearing the submission', () => {
+      expect(updateSlotSchema.safeParse({ submissionId: null }).success).toBe(true);
+    });
+
+    it('should require date and start time together', () => {
+      expect(updateSlotSchema.safeParse({ date: '2026-11-20' }).success).toBe(false);
+      expect(updateSlotSchema.safeParse({ date: '2026-11-20', startTime: '10:00' }).success).toBe(true);
+    });
+  });
+});
@@ -7,6 +7,7 @@
 import Link from 'next/link';
 import { AlertCircle, Home } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { SSO_ERROR_MESSAGES } from '@/lib/sso/state';
 
 export const metadata = {
   title: 'Authentication Error',
@@ -33,6 +34,8 @@ const errorMessages: Record<string, string> = {
   TokenExpired: 'This verification link has expired. Please request a new one.',
   UserNotFound: 'The user associated with this verification link was not found.',
   VerificationFailed: 'An error occurred while verifying your email. Please try again.',
+  // Single sign-on errors
+  ...SSO_ERROR_MESSAGES,
 };
 
 export default async function AuthErrorPage({
@@ -5,13 +5,19 @@
 import { Suspense } from 'react';
 import { SignInForm } from './signin-form';
 import { LogIn } from 'lucide-react';
+import { getEnabledSsoProviders } from '@/lib/sso';
+
+// Force dynamic rendering - the single sign-on buttons come from the database
+export const dynamic = 'force-dynamic';
 
 export const metadata = {
   title: 'Sign In',
   description: 'Sign in to your account',
 };
 
-export default function SignInPage() {
+export default async function SignInPage() {
+  const ssoProviders = await getEnabledSsoProviders();
+
   return (
     <div>
       <div className="flex items-center gap-3 mb-6">
@@ -32,7 +38,7 @@ export default function SignInPage() {
           <div className="w-6 h-6 border-2 border-violet-500/30 border-t-violet-500 rounded-full animate-spin" />
         </div>
       }>
-        <SignInForm />
+        <SignInForm ssoProviders={ssoProviders} />
       </Suspense>
     </div>
   );
@@ -4,7 +4,10 @@
  * Sign In Form Component
  * 
  * Handles email verification messages and redirects speakers
- * to onboarding if they haven't completed it.
+ * to onboarding if they haven't completed it. Users with two-factor
+ * authentication are asked for a code once their password checks out.
+ * Enabled single sign-on providers are offered below the password form;
+ * single sign-ons that still need a code come back to the code step.
  */
 
 import { useState } from 'react';
@@ -19,8 +22,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { signInSchema, type SignInInput } from '@/lib/auth/validation';
+import type { SsoProviderOption } from '@/lib/sso/providers';
+import { SsoTwoFactorForm } from './sso-two-factor-form';
 
-export function SignInForm() {
+interface SignInFormProps {
+  ssoProviders?: SsoProviderOption[];
+}
+
+export function SignInForm({ ssoProviders = [] }: SignInFormProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get('callbackUrl') || '/dashboard';
@@ -33,6 +42,8 @@ export function SignInForm() {
     error === 'CredentialsSignin' ? 'Invalid email or password' : null
   );
   const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState('');
   
   const {
     register,
@@ -42,6 +53,10 @@ export function SignInForm() {
     resolver: zodResolver(signInSchema),
   });
   
+  if (searchParams.get('sso') === 'two-factor') {
+    return <SsoTwoFactorForm callbackUrl={callbackUrl} />;
+  }
+  
   const onSubmit = async (data: SignInInput) => {
     setIsLoading(true);
     setAuthError(null);
@@ -51,12 +66,19 @@ export function SignInForm() {
       const result = await signIn('credentials', {
         email: data.email,
         password: data.password,
+        ...(needsCode && { code }),
         redirect: false,
       });
       
       if (result?.error) {
+        // Second step: ask for the authenticator or recovery code
+        if (result.code === 'TWO_FACTOR_REQUIRED') {
+          setNeedsCode(true);
+        } else if (result.code === 'INVALID_TWO_FACTOR_CODE') {
+          setAuthError('Invalid authentication code');
+          setCode('');
         // Handle specific error for unverified email
-        if (result.error === 'EMAIL_NOT_VERIFIED') {
+        } else if (result.error === 'EMAIL_NOT_VERIFIED') {
           setUnverifiedEmail(data.email);
           setAuthError('Please verify your email before signing in.');
         } else {
@@ -189,6 +211,26 @@ export function SignInForm() {
         )}
       </div>
       
+      {needsCode && (
+        <div className="space-y-2">
+          <Label htmlFor="code" className="text-slate-700 dark:text-white/70">Authentication code</Label>
+          <Input
+            id="code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isLoading}
+            autoFocus
+            className="bg-white dark:bg-slate-800/50 border-slate-200 dark:border-white/10 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-white/30 focus:border-violet-500/50 focus:ring-violet-500/20"
+          />
+          <p className="text-xs text-slate-500 dark:text-white/50">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+          </p>
+        </div>
+      )}
+      
       <Button 
         type="submit" 
         className="w-full bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white border-0 shadow-lg shadow-violet-500/25" 
@@ -207,6 +249,18 @@ export function SignInForm() {
         </div>
       </div>
       
+      {ssoProviders.length > 0 && (
+        <div className="space-y-2">
+          {ssoProviders.map(provider => (
+            <Button key={provider.slug} variant="outline" className="w-full" asChild>
+              <a href={`/api/auth/sso/${provider.slug}/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}>
+                Continue with {provider.name}
+              </a>
+            </Button>
+          ))}
+        </div>
+      )}
+      
       <p className="text-center text-sm text-slate-500 dark:text-white/50">
         Don&apos;t have an account?{' '}
         <Link
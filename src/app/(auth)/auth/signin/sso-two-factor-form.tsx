@@ -0,0 +1,109 @@
+'use client';
+
+/**
+ * SSO Two-Factor Form Component
+ *
+ * Second step of a single sign-on for users with two-factor
+ * authentication. The identity provider has already confirmed the user;
+ * the login ticket waits in a cookie until they enter their code.
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Loader2, AlertCircle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface SsoTwoFactorFormProps {
+  callbackUrl: string;
+}
+
+export function SsoTwoFactorForm({ callbackUrl }: SsoTwoFactorFormProps) {
+  const router = useRouter();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [expired, setExpired] = useState(false);
+  const [code, setCode] = useState('');
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setAuthError(null);
+
+    try {
+      const response = await fetch('/api/auth/sso/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+
+      if (response.ok) {
+        router.push(callbackUrl);
+        router.refresh();
+        return;
+      }
+
+      const data = await response.json().catch(() => ({}));
+      setExpired(data.code === 'SSO_EXPIRED');
+      setAuthError(data.error || 'An unexpected error occurred');
+      setCode('');
+    } catch {
+      setAuthError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-5">
+      {authError && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 text-red-500 dark:text-red-400" />
+            <p className="text-sm text-red-600 dark:text-red-300">{authError}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="code" className="text-slate-700 dark:text-white/70">Authentication code</Label>
+        <Input
+          id="code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isLoading || expired}
+          autoFocus
+          className="bg-white dark:bg-slate-800/50 border-slate-200 dark:border-white/10 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-white/30 focus:border-violet-500/50 focus:ring-violet-500/20"
+        />
+        <p className="text-xs text-slate-500 dark:text-white/50">
+          Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+        </p>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white border-0 shadow-lg shadow-violet-500/25"
+        disabled={isLoading || expired || !code.trim()}
+      >
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+
+      <p className="text-center text-sm text-slate-500 dark:text-white/50">
+        <Link
+          href={`/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+          className="text-violet-600 dark:text-violet-400 hover:text-violet-500 dark:hover:text-violet-300 font-medium transition-colors"
+        >
+          Back to sign in
+        </Link>
+      </p>
+    </form>
+  );
+}
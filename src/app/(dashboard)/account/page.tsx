@@ -1,11 +1,15 @@
 /**
  * Account Settings Page
  * 
- * User account settings including password change.
+ * User account settings including password change, two-factor
+ * authentication, signed-in sessions, connected single sign-on providers,
+ * notification preferences, personal API tokens, personal data download
+ * and account erasure requests.
  * Available to all authenticated users.
  */
 
-import { getCurrentUser } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth';
 import { prisma } from '@/lib/db/prisma';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,15 +20,47 @@ import {
   Sparkles,
   Mail,
   Calendar,
+  Download,
+  Lock,
+  UserX,
+  Bell,
+  LogIn,
+  Smartphone,
+  MonitorSmartphone,
+  KeyRound,
 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { ChangePasswordForm } from '@/components/auth/change-password-form';
+import { DataErasureCard } from '@/components/account/data-erasure-card';
+import { NotificationPreferencesForm } from '@/components/account/notification-preferences-form';
+import { ConnectedIdentitiesCard } from '@/components/account/connected-identities-card';
+import { TwoFactorCard } from '@/components/account/two-factor-card';
+import { SessionsCard } from '@/components/account/sessions-card';
+import { ApiTokensCard } from '@/components/account/api-tokens-card';
+import { getUserErasureRequest } from '@/lib/gdpr';
+import { getNotificationPreferences } from '@/lib/notifications';
+import { getSsoConnections } from '@/lib/sso';
+import { getTwoFactorStatus } from '@/lib/two-factor';
+import { listUserSessions } from '@/lib/sessions';
+import { listApiTokens, ROLE_API_TOKEN_SCOPES } from '@/lib/api-tokens';
 
 export const metadata = {
   title: 'Account Settings',
 };
 
-export default async function AccountPage() {
-  const user = await getCurrentUser();
+const ACCOUNT_TABS = ['overview', 'security', 'notifications', 'api', 'privacy'];
+
+interface PageProps {
+  searchParams: Promise<{ tab?: string }>;
+}
+
+export default async function AccountPage({ searchParams }: PageProps) {
+  const session = await getSession();
+  if (!session?.user) {
+    redirect('/auth/signin');
+  }
+  const user = session.user;
+  const { tab } = await searchParams;
   
   // Get full user details
   const userDetails = await prisma.user.findUnique({
@@ -39,6 +75,22 @@ export default async function AccountPage() {
     },
   });
 
+  const [
+    latestErasureRequest,
+    notificationPreferences,
+    ssoConnections,
+    twoFactorStatus,
+    sessions,
+    apiTokens,
+  ] = await Promise.all([
+    getUserErasureRequest(user.id),
+    getNotificationPreferences(user.id),
+    getSsoConnections(user.id),
+    getTwoFactorStatus(user.id),
+    listUserSessions(user.id, session.sessionId),
+    listApiTokens(user.id),
+  ]);
+
   const hasPassword = !!userDetails?.passwordHash;
   const memberSince = userDetails?.createdAt 
     ? new Intl.DateTimeFormat('en-US', { 
@@ -76,8 +128,8 @@ export default async function AccountPage() {
         </div>
       </div>
       
-      <Tabs defaultValue="security" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2 h-auto p-1 bg-slate-100/80 dark:bg-slate-800/80">
+      <Tabs defaultValue={tab && ACCOUNT_TABS.includes(tab) ? tab : 'security'} className="space-y-6">
+        <TabsList className="grid w-full grid-cols-2 sm:grid-cols-5 h-auto p-1 bg-slate-100/80 dark:bg-slate-800/80">
           <TabsTrigger value="overview" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
             <User className="h-4 w-4" />
             <span>Overview</span>
@@ -86,6 +138,18 @@ export default async function AccountPage() {
             <Shield className="h-4 w-4" />
             <span>Security</span>
           </TabsTrigger>
+          <TabsTrigger value="notifications" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
+            <Bell className="h-4 w-4" />
+            <span>Notifications</span>
+          </TabsTrigger>
+          <TabsTrigger value="api" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
+            <KeyRound className="h-4 w-4" />
+            <span>API</span>
+          </TabsTrigger>
+          <TabsTrigger value="privacy" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
+            <Lock className="h-4 w-4" />
+            <span>Privacy</span>
+          </TabsTrigger>
         </TabsList>
         
         {/* Account Overview */}
@@ -183,6 +247,70 @@ export default async function AccountPage() {
             </CardContent>
           </Card>
           
+          <Card className="mt-6 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-green-100 dark:bg-green-900/30">
+                  <Smartphone className="h-5 w-5 text-green-600 dark:text-green-400" />
+                </div>
+                <div>
+                  <CardTitle>Two-Factor Authentication</CardTitle>
+                  <CardDescription>
+                    Require a code from your authenticator app when signing in
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorCard
+                enabled={twoFactorStatus.enabled}
+                enabledAt={twoFactorStatus.enabledAt?.toISOString() ?? null}
+                recoveryCodesRemaining={twoFactorStatus.recoveryCodesRemaining}
+                required={twoFactorStatus.required}
+              />
+            </CardContent>
+          </Card>
+          
+          <Card className="mt-6 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-indigo-100 dark:bg-indigo-900/30">
+                  <MonitorSmartphone className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+                </div>
+                <div>
+                  <CardTitle>Where You&apos;re Signed In</CardTitle>
+                  <CardDescription>
+                    Sign out any browser or device you don&apos;t recognize
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <SessionsCard sessions={sessions} apiPath="/api/account/sessions" />
+            </CardContent>
+          </Card>
+          
+          {ssoConnections.length > 0 && (
+            <Card className="mt-6 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-sky-100 dark:bg-sky-900/30">
+                    <LogIn className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+                  </div>
+                  <div>
+                    <CardTitle>Single Sign-On</CardTitle>
+                    <CardDescription>
+                      Sign in with your organization&apos;s identity provider
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ConnectedIdentitiesCard connections={ssoConnections} />
+              </CardContent>
+            </Card>
+          )}
+          
           {/* Security Tips */}
           <div className="mt-6 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 p-4">
             <h3 className="text-sm font-medium text-slate-900 dark:text-white mb-2">
@@ -196,6 +324,110 @@ export default async function AccountPage() {
             </ul>
           </div>
         </TabsContent>
+        
+        {/* Notification preferences */}
+        <TabsContent value="notifications">
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-sky-100 dark:bg-sky-900/30">
+                  <Bell className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+                </div>
+                <div>
+                  <CardTitle>Notifications</CardTitle>
+                  <CardDescription>
+                    Choose what shows up in the notification bell and how often you get
+                    emails about it. Account emails such as password resets are always sent.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <NotificationPreferencesForm initialPreferences={notificationPreferences} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        {/* Personal API tokens */}
+        <TabsContent value="api">
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-violet-100 dark:bg-violet-900/30">
+                  <KeyRound className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+                </div>
+                <div>
+                  <CardTitle>API Tokens</CardTitle>
+                  <CardDescription>
+                    Tokens for scripts and integrations that use the REST API as you
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ApiTokensCard tokens={apiTokens} allowedScopes={ROLE_API_TOKEN_SCOPES[user.role]} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        {/* Privacy: personal data download and erasure */}
+        <TabsContent value="privacy" className="space-y-6">
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-indigo-100 dark:bg-indigo-900/30">
+                  <Download className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+                </div>
+                <div>
+                  <CardTitle>Download My Data</CardTitle>
+                  <CardDescription>
+                    Get a copy of everything stored about you
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                The download is a zip archive with a machine-readable <code>data.json</code> (your
+                account, profiles, talks, submissions, messages, reviews and activity) and the
+                files you uploaded.
+              </p>
+              <Button asChild variant="outline">
+                <a href="/api/account/data-export" download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download My Data
+                </a>
+              </Button>
+            </CardContent>
+          </Card>
+          
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-red-100 dark:bg-red-900/30">
+                  <UserX className="h-5 w-5 text-red-600 dark:text-red-400" />
+                </div>
+                <div>
+                  <CardTitle>Erase My Account</CardTitle>
+                  <CardDescription>
+                    Ask for your account and personal data to be erased
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <DataErasureCard
+                email={user.email}
+                latestRequest={latestErasureRequest ? {
+                  status: latestErasureRequest.status,
+                  createdAt: latestErasureRequest.createdAt.toISOString(),
+                  scheduledFor: latestErasureRequest.scheduledFor?.toISOString() ?? null,
+                  reviewNote: latestErasureRequest.reviewNote,
+                } : null}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
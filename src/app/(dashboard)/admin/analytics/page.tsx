@@ -1,7 +1,7 @@
 /**
  * Admin Analytics Page
  * 
- * Platform analytics and activity log.
+ * Platform analytics, activity log and per-event review results.
  */
 
 import { prisma } from '@/lib/db/prisma';
@@ -10,9 +10,10 @@ import { redirect } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { BarChart3, TrendingUp, Activity, Users, Calendar, FileText } from 'lucide-react';
+import { BarChart3, TrendingUp, Activity, Users, Calendar, FileText, Trophy } from 'lucide-react';
 import { ActivityLog } from '@/components/admin/activity-log';
 import { getActivitySummary, getActivityLogs } from '@/lib/activity-logger';
+import { getEventReviewResults } from '@/lib/reviews';
 import { subDays } from 'date-fns';
 
 export const metadata = {
@@ -29,7 +30,7 @@ export default async function AdminAnalyticsPage() {
   }
   
   // Fetch analytics data
-  const [activitySummary, recentLogs, stats] = await Promise.all([
+  const [activitySummary, recentLogs, stats, reviewResults] = await Promise.all([
     getActivitySummary(7),
     getActivityLogs({ limit: 50 }),
     // Platform stats
@@ -53,8 +54,25 @@ export default async function AdminAnalyticsPage() {
       newUsers,
       newSubmissions,
     })),
+    // Review results for the most recent events
+    prisma.event.findMany({
+      select: { id: true, name: true, slug: true, reviewType: true },
+      orderBy: { createdAt: 'desc' },
+      take: 6,
+    }).then(events => Promise.all(
+      events.map(async (event) => ({
+        event,
+        results: await getEventReviewResults(event),
+      }))
+    )),
   ]);
   
+  const reviewModeLabels: Record<string, string> = {
+    scoring: 'Scoring',
+    voting: 'Voting',
+    ranking: 'Ranking',
+  };
+  
   return (
     <div className="container mx-auto px-4 py-8 max-w-7xl">
       {/* Header Section */}
@@ -156,6 +174,10 @@ export default async function AdminAnalyticsPage() {
             <BarChart3 className="h-4 w-4" />
             Action Breakdown
           </TabsTrigger>
+          <TabsTrigger value="results" className="flex items-center gap-2">
+            <Trophy className="h-4 w-4" />
+            Review Results
+          </TabsTrigger>
         </TabsList>
         
         {/* Activity Log Tab */}
@@ -230,6 +252,55 @@ export default async function AdminAnalyticsPage() {
             </Card>
           </div>
         </TabsContent>
+        
+        {/* Review Results Tab */}
+        <TabsContent value="results">
+          {reviewResults.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-8 text-slate-500">
+                No events yet
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2">
+              {reviewResults.map(({ event, results }) => (
+                <Card key={event.id}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="text-lg truncate">{event.name}</CardTitle>
+                      <Badge variant="outline">{reviewModeLabels[results.mode]}</Badge>
+                    </div>
+                    <CardDescription>
+                      {results.reviewedCount} of {results.totalCount} submissions reviewed
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {results.top.length === 0 ? (
+                      <p className="text-center py-4 text-slate-500">No review results yet</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {results.top.map((submission, index) => (
+                          <div key={submission.id} className="flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <span className="text-sm font-medium text-slate-500 w-6">
+                                #{index + 1}
+                              </span>
+                              <div className="min-w-0">
+                                <p className="text-sm truncate">{submission.title}</p>
+                                <p className="text-xs text-slate-500">{submission.aggregate.detail}</p>
+                              </div>
+                            </div>
+                            <Badge variant="secondary">{submission.aggregate.label}</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
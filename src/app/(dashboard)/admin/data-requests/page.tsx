@@ -0,0 +1,130 @@
+/**
+ * Admin Data Requests Page
+ *
+ * Queue of account erasure requests. Admins approve or reject pending
+ * requests; approved ones are erased by the data-erasure job once the
+ * grace period ends.
+ */
+
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { format } from 'date-fns';
+import { getCurrentUser } from '@/lib/auth';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ErasureRequestActions } from '@/components/admin/erasure-request-actions';
+import {
+  listErasureRequests,
+  DATA_ERASURE_STATUS_LABELS,
+  ERASURE_GRACE_PERIOD_DAYS,
+} from '@/lib/gdpr';
+import { UserX, ShieldCheck } from 'lucide-react';
+import type { DataErasureStatus } from '@prisma/client';
+
+export const metadata: Metadata = {
+  title: 'Data Requests',
+  description: 'Review account erasure requests',
+};
+
+const STATUS_VARIANTS: Record<DataErasureStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'default',
+  APPROVED: 'destructive',
+  REJECTED: 'outline',
+  CANCELLED: 'outline',
+  COMPLETED: 'secondary',
+};
+
+function formatDate(date: Date | null): string {
+  return date ? format(date, 'MMM d, yyyy HH:mm') : '-';
+}
+
+export default async function AdminDataRequestsPage() {
+  const user = await getCurrentUser();
+
+  if (user.role !== 'ADMIN') {
+    redirect('/dashboard?error=unauthorized');
+  }
+
+  const requests = await listErasureRequests();
+  const pendingCount = requests.filter(r => r.status === 'PENDING').length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Data Requests
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          Account erasure requests (GDPR Article 17). Approved accounts are anonymized
+          {' '}{ERASURE_GRACE_PERIOD_DAYS} days after approval unless the user cancels.
+          Users download their own data from their account page.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Erasure Requests</CardTitle>
+          <CardDescription>
+            {pendingCount === 0
+              ? 'No requests are waiting for review'
+              : `${pendingCount} request${pendingCount === 1 ? '' : 's'} waiting for review`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+              <ShieldCheck className="h-10 w-10 mx-auto mb-3 text-slate-400" />
+              <p>No erasure requests yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-200 dark:divide-slate-800">
+              {requests.map((request) => {
+                const userLabel = request.user.erasedAt
+                  ? 'an erased account'
+                  : request.user.name || request.user.email;
+
+                return (
+                  <div key={request.id} className="py-4 flex flex-col sm:flex-row sm:items-start gap-4">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <UserX className="h-4 w-4 text-slate-400" />
+                        <span className="font-medium text-slate-900 dark:text-white">
+                          {request.user.erasedAt ? 'Erased account' : request.user.name || request.user.email}
+                        </span>
+                        {!request.user.erasedAt && request.user.name && (
+                          <span className="text-sm text-slate-500 dark:text-slate-400">{request.user.email}</span>
+                        )}
+                        <Badge variant={STATUS_VARIANTS[request.status]}>
+                          {DATA_ERASURE_STATUS_LABELS[request.status]}
+                        </Badge>
+                      </div>
+                      {request.reason && (
+                        <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
+                          {request.reason}
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        Requested {formatDate(request.createdAt)}
+                        {request.reviewedAt && ` · Reviewed ${formatDate(request.reviewedAt)}${request.reviewedBy?.name ? ` by ${request.reviewedBy.name}` : ''}`}
+                        {request.status === 'APPROVED' && ` · Erasure on ${formatDate(request.scheduledFor)}`}
+                        {request.completedAt && ` · Erased ${formatDate(request.completedAt)}`}
+                      </p>
+                      {request.reviewNote && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400 italic">
+                          Note: {request.reviewNote}
+                        </p>
+                      )}
+                    </div>
+                    {request.status === 'PENDING' && request.user.id !== user.id && (
+                      <ErasureRequestActions requestId={request.id} userLabel={userLabel} />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Admin Email Log Page
+ *
+ * Every email the app sends is queued and logged here with its delivery
+ * status. Admins search the log, resend failed or lost mail and cancel
+ * queued messages.
+ */
+
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db/prisma';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmailLog } from '@/components/admin/email-log';
+import {
+  MAX_EMAIL_ATTEMPTS,
+  EMAIL_RATE_LIMIT_PER_RECIPIENT,
+  EMAIL_LOG_RETENTION_DAYS,
+} from '@/lib/email';
+
+export const metadata: Metadata = {
+  title: 'Email Log',
+  description: 'Outbound email delivery log',
+};
+
+export default async function AdminEmailsPage() {
+  const user = await getCurrentUser();
+
+  if (user.role !== 'ADMIN') {
+    redirect('/dashboard?error=unauthorized');
+  }
+
+  const [queued, failed] = await Promise.all([
+    prisma.outboundEmail.count({ where: { status: { in: ['QUEUED', 'SENDING'] } } }),
+    prisma.outboundEmail.count({ where: { status: 'FAILED' } }),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Email Log
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          Emails that cannot be delivered are retried with increasing delays, up to
+          {' '}{MAX_EMAIL_ATTEMPTS} attempts. Each recipient gets at most
+          {' '}{EMAIL_RATE_LIMIT_PER_RECIPIENT} emails an hour; the rest wait in the queue.
+          Entries are kept for {EMAIL_LOG_RETENTION_DAYS} days.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outbound Email</CardTitle>
+          <CardDescription>
+            {queued} waiting in the queue · {failed} failed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EmailLog />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
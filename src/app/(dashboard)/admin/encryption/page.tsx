@@ -0,0 +1,107 @@
+/**
+ * Admin Encryption Page
+ *
+ * Shows which encryption keys are configured and re-encrypts stored data
+ * with the primary key after ENCRYPTION_KEY is rotated.
+ */
+
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRotationPanel } from '@/components/admin/key-rotation-panel';
+import { getPrimaryKey, getRetiredKeys } from '@/lib/security/encryption';
+import { listKeyRotations } from '@/lib/key-rotation';
+import { KeyRound } from 'lucide-react';
+
+export const metadata: Metadata = {
+  title: 'Encryption',
+  description: 'Encryption keys and key rotation',
+};
+
+export default async function AdminEncryptionPage() {
+  const user = await getCurrentUser();
+
+  if (user.role !== 'ADMIN') {
+    redirect('/dashboard?error=unauthorized');
+  }
+
+  const primaryKey = getPrimaryKey();
+  const retiredKeys = getRetiredKeys();
+  const [latestJob] = await listKeyRotations(1);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Encryption
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          Personal data, the SMTP password, the federation private key and plugin secrets are
+          encrypted with ENCRYPTION_KEY. To rotate it, set the new key as ENCRYPTION_KEY, add the
+          old one to ENCRYPTION_RETIRED_KEYS, re-encrypt all data here and remove the retired key
+          once verification passes.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Keys</CardTitle>
+            <CardDescription>
+              Key IDs are derived from the key and are safe to share; the keys themselves are never shown
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4 text-slate-400" />
+              <code className="text-sm">{primaryKey.id}</code>
+              <Badge>Primary</Badge>
+            </div>
+            {retiredKeys.map(key => (
+              <div key={key.id} className="flex items-center gap-2">
+                <KeyRound className="h-4 w-4 text-slate-400" />
+                <code className="text-sm">{key.id}</code>
+                <Badge variant="outline">Retired - decrypt only</Badge>
+              </div>
+            ))}
+            {retiredKeys.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                No retired keys configured
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Key Rotation</CardTitle>
+            <CardDescription>
+              Re-encrypt every stored value with the primary key, then verify nothing is left on an old key
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <KeyRotationPanel
+              primaryKeyId={primaryKey.id}
+              retiredKeyCount={retiredKeys.length}
+              latestJob={latestJob ? {
+                id: latestJob.id,
+                keyId: latestJob.keyId,
+                status: latestJob.status,
+                total: latestJob.total,
+                scanned: latestJob.scanned,
+                rotated: latestJob.rotated,
+                failed: latestJob.failed,
+                errors: latestJob.errors,
+                verification: latestJob.verification,
+                createdAt: latestJob.createdAt.toISOString(),
+                completedAt: latestJob.completedAt?.toISOString() ?? null,
+              } : null}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
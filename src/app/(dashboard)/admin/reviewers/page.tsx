@@ -1,7 +1,7 @@
 /**
  * Admin Reviewers Page
  * 
- * Reviewer management and workload overview.
+ * Reviewer management, workload overview and scoring calibration.
  */
 
 import { prisma } from '@/lib/db/prisma';
@@ -9,6 +9,7 @@ import { getCurrentUser } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { UserCheck, TrendingUp } from 'lucide-react';
 import { ReviewerWorkload } from '@/components/admin/reviewer-workload';
+import { getReviewerCalibrationStats } from '@/lib/reviews';
 import { 
   decryptPiiFields, 
   USER_PII_FIELDS,
@@ -60,6 +61,9 @@ export default async function AdminReviewersPage() {
     orderBy: { createdAt: 'desc' },
   });
   
+  // Mean, spread and agreement with the panel, across all events
+  const calibration = await getReviewerCalibrationStats();
+  
   // Calculate stats for each reviewer
   const reviewersWithStats = await Promise.all(
     reviewers.map(async (reviewer) => {
@@ -78,11 +82,7 @@ export default async function AdminReviewersPage() {
         },
       }) : 0;
       
-      // Calculate average score
-      const avgScoreResult = await prisma.review.aggregate({
-        where: { reviewerId: reviewer.id },
-        _avg: { overallScore: true },
-      });
+      const reviewerCalibration = calibration.get(reviewer.id) ?? null;
       
       // Decrypt user PII fields
       const decryptedUser = decryptPiiFields(
@@ -110,8 +110,9 @@ export default async function AdminReviewersPage() {
         } : null,
         reviewCount: reviewer.reviews.length,
         eventsAssigned,
-        avgScore: avgScoreResult._avg.overallScore,
+        avgScore: reviewerCalibration?.mean ?? null,
         pendingReviews,
+        calibration: reviewerCalibration,
       };
     })
   );
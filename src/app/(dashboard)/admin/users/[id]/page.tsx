@@ -2,7 +2,8 @@
  * Admin User Detail Page
  * 
  * Detailed view of a user with management options.
- * Shows role-contextual information (submissions for speakers, reviews for reviewers).
+ * Shows role-contextual information (submissions for speakers, reviews for reviewers)
+ * and where the user is signed in.
  */
 
 import { prisma } from '@/lib/db/prisma';
@@ -19,6 +20,8 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UserActionButtons } from '@/components/admin/user-action-buttons';
+import { SessionsCard } from '@/components/account/sessions-card';
+import { listUserSessions } from '@/lib/sessions';
 import Link from 'next/link';
 import { 
   ArrowLeft, 
@@ -37,7 +40,8 @@ import {
   Building,
   Briefcase,
   MapPin,
-  Clock
+  Clock,
+  MonitorSmartphone
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { UserRole } from '@prisma/client';
@@ -133,6 +137,7 @@ export default async function AdminUserDetailPage({
     : userEmail[0].toUpperCase();
   
   const isCurrentUser = user.id === currentUser.id;
+  const sessions = isCurrentUser ? [] : await listUserSessions(user.id);
   
   // Determine which tabs to show based on role and data
   const isReviewer = user.role === 'REVIEWER' || user.reviewerProfile !== null;
@@ -280,6 +285,7 @@ export default async function AdminUserDetailPage({
           userId={user.id} 
           currentRole={user.role}
           userName={userName || userEmail}
+          twoFactorEnabled={!!user.twoFactorEnabledAt}
         />
       )}
       
@@ -301,6 +307,13 @@ export default async function AdminUserDetailPage({
             </TabsTrigger>
           )}
           <TabsTrigger value="profile">Profile Details</TabsTrigger>
+          {/* Admins manage their own sessions from their account page */}
+          {!isCurrentUser && (
+            <TabsTrigger value="sessions" className="flex items-center gap-2">
+              <MonitorSmartphone className="h-4 w-4" />
+              Sessions ({sessions.length})
+            </TabsTrigger>
+          )}
         </TabsList>
         
         {/* Submissions Tab - Only for speakers */}
@@ -697,6 +710,27 @@ export default async function AdminUserDetailPage({
             )}
           </div>
         </TabsContent>
+        
+        {/* Sessions Tab */}
+        {!isCurrentUser && (
+          <TabsContent value="sessions">
+            <Card>
+              <CardHeader>
+                <CardTitle>Active Sessions</CardTitle>
+                <CardDescription>
+                  Browsers and devices this user is signed in on
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SessionsCard
+                  sessions={sessions}
+                  apiPath={`/api/admin/users/${user.id}/sessions`}
+                  admin
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,56 @@
+/**
+ * Admin Webhooks Page
+ *
+ * Instance-wide outbound webhooks. Endpoints receive the hooks they
+ * subscribe to as signed POST requests; each has a delivery log with
+ * request and response bodies, a test event and manual redelivery.
+ * Event organizers manage their event's webhooks on the event page.
+ */
+
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { WebhookEndpoints } from '@/components/webhooks/webhook-endpoints';
+import { MAX_WEBHOOK_ATTEMPTS, WEBHOOK_LOG_RETENTION_DAYS } from '@/lib/webhooks';
+
+export const metadata: Metadata = {
+  title: 'Webhooks',
+  description: 'Outbound webhooks for local integrations',
+};
+
+export default async function AdminWebhooksPage() {
+  const user = await getCurrentUser();
+
+  if (user.role !== 'ADMIN') {
+    redirect('/dashboard?error=unauthorized');
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Webhooks
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          Send hooks to your own services as they happen. Requests are signed with the
+          endpoint&apos;s secret in the <code className="text-sm">X-Webhook-Signature</code> header.
+          Failed deliveries are retried with increasing delays, up to {MAX_WEBHOOK_ATTEMPTS} attempts,
+          and kept in the log for {WEBHOOK_LOG_RETENTION_DAYS} days.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Instance Webhooks</CardTitle>
+          <CardDescription>
+            Receive hooks from every event, plus user and email hooks
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WebhookEndpoints />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
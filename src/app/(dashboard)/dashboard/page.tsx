@@ -9,6 +9,7 @@
 import { prisma } from '@/lib/db/prisma';
 import { getCurrentUser } from '@/lib/auth';
 import { getSiteSettings } from '@/lib/api/auth';
+import { speakerSubmissionWhere } from '@/lib/co-speakers';
 import { format } from 'date-fns';
 import { type ActivityItem } from '@/components/dashboard';
 import { DashboardClient } from './dashboard-client';
@@ -32,9 +33,9 @@ export default async function DashboardPage() {
   const isOrganizerUser = ['ADMIN', 'ORGANIZER'].includes(userRole);
   const isReviewerUser = ['ADMIN', 'ORGANIZER', 'REVIEWER'].includes(userRole);
   
-  // Get user's submissions
+  // Get user's submissions, including those they co-present
   const userSubmissions = await prisma.submission.findMany({
-    where: { speakerId: user.id },
+    where: speakerSubmissionWhere(user.id),
     include: {
       event: {
         select: { name: true, slug: true },
@@ -47,7 +48,7 @@ export default async function DashboardPage() {
   // Get submission stats for user
   const submissionStats = await prisma.submission.groupBy({
     by: ['status'],
-    where: { speakerId: user.id },
+    where: speakerSubmissionWhere(user.id),
     _count: true,
   });
   
@@ -40,6 +40,9 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
       reviewCriteria: {
         orderBy: { sortOrder: 'asc' },
       },
+      submissionFields: {
+        orderBy: { sortOrder: 'asc' },
+      },
       // SECURITY: Fetch review team role to check LEAD status
       reviewTeam: {
         where: { userId: user.id },
@@ -110,6 +113,8 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
     cfpEndTime: event.cfpEndTime || '23:59',
     cfpGuidelines: event.cfpGuidelines || '',
     speakerBenefits: event.speakerBenefits || '',
+    confirmationDeadlineDays: event.confirmationDeadlineDays,
+    codeOfConductUrl: event.codeOfConductUrl || '',
     
     // Talk Formats
     talkFormats: event.talkFormats.map(f => ({
@@ -119,10 +124,26 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
       durationMin: f.durationMin,
     })),
     
+    // Submission Form Fields
+    submissionFields: event.submissionFields.map(f => ({
+      id: f.id,
+      label: f.label,
+      description: f.description || '',
+      type: f.type,
+      required: f.required,
+      options: f.options,
+      maxLength: f.maxLength,
+      minValue: f.minValue,
+      maxValue: f.maxValue,
+    })),
+    
     // Review Settings
     reviewType: event.reviewType,
+    reviewAnonymity: event.reviewAnonymity,
     minReviewsPerTalk: event.minReviewsPerTalk,
     enableSpeakerFeedback: event.enableSpeakerFeedback,
+    reviewStartDate: formatDateForInput(event.reviewStartDate),
+    reviewEndDate: formatDateForInput(event.reviewEndDate),
     reviewCriteria: event.reviewCriteria.map(c => ({
       id: c.id,
       name: c.name,
@@ -36,13 +36,25 @@ import {
   Timer,
   ListChecks,
   BarChart3,
-  Eye
+  Eye,
+  CalendarClock,
+  Webhook
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { EventTracksSection } from './event-tracks-section';
 import { EventFormatsSection } from './event-formats-section';
 import { EventReviewTeamSection } from './event-review-team-section';
 import { EventFederationSection } from './event-federation-section';
+import { WebhookEndpoints } from '@/components/webhooks/webhook-endpoints';
+import { ReviewProgress } from '@/components/events/review-progress';
+import {
+  ANONYMOUS_SPEAKER_NAME,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  redactSpeaker,
+  logIdentityReveal,
+  getEventReviewProgress,
+} from '@/lib/reviews';
 
 interface EventDetailPageProps {
   params: Promise<{ slug: string }>;
@@ -154,8 +166,28 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
       })
     : [];
   
+  // Blind review: reviewers see anonymous speakers
+  const anonymity = resolveAnonymityView(getReviewAnonymity(event.reviewAnonymity), user);
+  if (event.submissions.length > 0) {
+    await logIdentityReveal(anonymity, {
+      entityType: 'Event',
+      entityId: event.id,
+      eventId: event.id,
+      scope: 'recent-submissions',
+      count: event.submissions.length,
+    });
+  }
+  
   // Decrypt recent submissions speaker names
   const recentSubmissions = event.submissions.map((submission) => {
+    if (anonymity.hideSpeaker && submission.speakerId !== user.id) {
+      return {
+        ...submission,
+        speaker: redactSpeaker(submission.speaker),
+        speakerName: ANONYMOUS_SPEAKER_NAME,
+      };
+    }
+    
     const decryptedUser = decryptPiiFields(
       submission.speaker as unknown as Record<string, unknown>,
       USER_PII_FIELDS
@@ -185,6 +217,9 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
     },
   });
   
+  // Review progress against the deadline, for organizers
+  const reviewProgress = canManage ? await getEventReviewProgress(event) : null;
+  
   // Calculate stats
   const stats = {
     submissions: event._count.submissions,
@@ -403,6 +438,10 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                       <Globe2 className="h-3 w-3" />
                       Federation
                     </TabsTrigger>
+                    <TabsTrigger value="webhooks" className="flex items-center gap-1">
+                      <Webhook className="h-3 w-3" />
+                      Webhooks
+                    </TabsTrigger>
                   </>
                 )}
               </TabsList>
@@ -424,6 +463,27 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                   </Card>
                 )}
                 
+                {/* Review Progress */}
+                {reviewProgress && (
+                  <ReviewProgress
+                    totalSubmissions={reviewProgress.totalSubmissions}
+                    reviewedSubmissions={reviewProgress.reviewedSubmissions}
+                    totalReviews={reviewProgress.totalReviews}
+                    targetReviewsPerSubmission={event.minReviewsPerTalk}
+                    deadline={reviewProgress.deadlineLabel && reviewProgress.state
+                      ? { label: reviewProgress.deadlineLabel, state: reviewProgress.state }
+                      : null}
+                    reviewersWorkload={reviewProgress.reviewers.map(reviewer => ({
+                      id: reviewer.reviewerId,
+                      name: reviewer.name,
+                      image: reviewer.image,
+                      reviewCount: reviewer.reviewCount,
+                      assignedCount: reviewer.assigned,
+                      completedCount: reviewer.completed,
+                    }))}
+                  />
+                )}
+                
                 {/* Recent Submissions */}
                 {canReview && recentSubmissions.length > 0 && (
                   <Card>
@@ -602,6 +662,23 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                   <EventFederationSection eventId={event.id} />
                 </TabsContent>
               )}
+
+              {/* Webhooks Tab */}
+              {canManage && (
+                <TabsContent value="webhooks">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Webhooks</CardTitle>
+                      <CardDescription>
+                        Send this event&apos;s submission, review and event hooks to your own services
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <WebhookEndpoints eventId={event.id} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
             </Tabs>
           </div>
 
@@ -629,6 +706,13 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                     </Link>
                   </Button>
                   
+                  <Button asChild variant="outline" className="w-full justify-start">
+                    <Link href={`/events/${event.slug}/schedule`}>
+                      <CalendarClock className="h-4 w-4 mr-2" />
+                      Build Schedule
+                    </Link>
+                  </Button>
+                  
                   <Button asChild variant="outline" className="w-full justify-start">
                     <Link href={`/events/${event.slug}/edit`}>
                       <Edit className="h-4 w-4 mr-2" />
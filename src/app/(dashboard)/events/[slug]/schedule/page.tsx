@@ -0,0 +1,86 @@
+/**
+ * Event Schedule Builder Page
+ *
+ * Organizers lay out rooms and time slots for the event days and drag
+ * accepted submissions into them, then publish the schedule.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getEventSchedule } from '@/lib/schedule';
+import { ScheduleBuilder } from './schedule-builder';
+
+interface SchedulePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: SchedulePageProps) {
+  const { slug } = await params;
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: { name: true },
+  });
+
+  return {
+    title: event ? `${event.name} Schedule` : 'Schedule',
+  };
+}
+
+export default async function SchedulePage({ params }: SchedulePageProps) {
+  const { slug } = await params;
+  const user = await getCurrentUser();
+  const userRole = user.role as string;
+
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      name: true,
+      reviewTeam: {
+        where: { userId: user.id },
+        select: { role: true },
+      },
+    },
+  });
+
+  if (!event) {
+    notFound();
+  }
+
+  // Same rule as canManageEvent: admins, or organizers leading the review team
+  const canManage = userRole === 'ADMIN' ||
+    (userRole === 'ORGANIZER' && event.reviewTeam[0]?.role === 'LEAD');
+
+  if (!canManage) {
+    redirect(`/events/${slug}`);
+  }
+
+  const schedule = await getEventSchedule(event.id);
+  if (!schedule) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href={`/events/${slug}`}
+          className="text-sm text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white mb-2 inline-block"
+        >
+          ← Back to {event.name}
+        </Link>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Schedule
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          {event.name} · Times are in {schedule.timezone}
+        </p>
+      </div>
+
+      <ScheduleBuilder eventId={event.id} eventSlug={slug} initialSchedule={schedule} />
+    </div>
+  );
+}
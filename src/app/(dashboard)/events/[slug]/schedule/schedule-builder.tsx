@@ -0,0 +1,673 @@
+'use client';
+
+/**
+ * Schedule Builder (Client Component)
+ *
+ * Day-by-day grid with one column per room. Organizers add rooms and
+ * slots, drag accepted submissions from the unscheduled list into slots
+ * (or between slots), and publish once there are no conflicts.
+ */
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { utcToZonedTime, timeToMinutes } from '@/lib/schedule/time';
+import { SCHEDULE_CONFLICT_LABELS, type ScheduleConflictType } from '@/lib/schedule/conflicts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertTriangle,
+  CalendarClock,
+  ExternalLink,
+  Globe,
+  GripVertical,
+  Loader2,
+  Plus,
+  Trash2,
+  X,
+} from 'lucide-react';
+
+/** Grid height per minute, in pixels */
+const PX_PER_MINUTE = 1.6;
+
+interface ScheduleSubmission {
+  id: string;
+  title: string;
+  speakerNames: string[];
+  trackName: string | null;
+  trackColor: string | null;
+  durationMin: number | null;
+}
+
+interface ScheduleSlot {
+  id: string;
+  roomId: string;
+  talkFormatId: string | null;
+  title: string | null;
+  startsAt: string | Date;
+  endsAt: string | Date;
+  submission: ScheduleSubmission | null;
+}
+
+interface ScheduleData {
+  eventId: string;
+  timezone: string;
+  days: string[];
+  hours: { start: string; end: string };
+  publishedAt: string | Date | null;
+  rooms: Array<{ id: string; name: string; capacity: number | null }>;
+  talkFormats: Array<{ id: string; name: string; durationMin: number }>;
+  slots: ScheduleSlot[];
+  unscheduled: ScheduleSubmission[];
+  conflicts: Array<{ type: ScheduleConflictType; slotIds: string[]; message: string }>;
+}
+
+interface ScheduleBuilderProps {
+  eventId: string;
+  eventSlug: string;
+  initialSchedule: ScheduleData;
+}
+
+// ============================================================================
+// Draggable submission card
+// ============================================================================
+
+interface SubmissionCardProps {
+  submission: ScheduleSubmission;
+  fromSlotId: string | null;
+  compact?: boolean;
+}
+
+function SubmissionCard({ submission, fromSlotId, compact }: SubmissionCardProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `submission:${submission.id}`,
+    data: { submissionId: submission.id, fromSlotId },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      className={cn(
+        'flex items-start gap-1 rounded border bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-xs',
+        compact ? 'p-1' : 'p-2',
+        isDragging && 'opacity-60 shadow-lg z-50 relative'
+      )}
+    >
+      <button
+        {...attributes}
+        {...listeners}
+        className="cursor-grab active:cursor-grabbing text-slate-400 shrink-0"
+        aria-label="Drag to schedule"
+      >
+        <GripVertical className="h-3.5 w-3.5" />
+      </button>
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-slate-900 dark:text-white truncate">{submission.title}</p>
+        <p className="text-slate-500 truncate">{submission.speakerNames.join(', ')}</p>
+        {!compact && (
+          <div className="flex items-center gap-1 mt-1">
+            {submission.trackName && (
+              <Badge
+                variant="outline"
+                className="text-[10px] px-1 py-0"
+                style={{ borderColor: submission.trackColor || undefined }}
+              >
+                {submission.trackName}
+              </Badge>
+            )}
+            {submission.durationMin && (
+              <span className="text-slate-500">{submission.durationMin} min</span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Droppable slot
+// ============================================================================
+
+interface SlotCellProps {
+  slot: ScheduleSlot;
+  top: number;
+  height: number;
+  timeLabel: string;
+  hasConflict: boolean;
+  eventSlug: string;
+  onDelete: (slot: ScheduleSlot) => void;
+  onClear: (slot: ScheduleSlot) => void;
+}
+
+function SlotCell({ slot, top, height, timeLabel, hasConflict, eventSlug, onDelete, onClear }: SlotCellProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: `slot:${slot.id}`, data: { slotId: slot.id } });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ top, height }}
+      className={cn(
+        'absolute inset-x-1 rounded-md border p-1 overflow-hidden text-xs group',
+        slot.submission
+          ? 'bg-blue-50 dark:bg-blue-950/40 border-blue-200 dark:border-blue-800'
+          : 'bg-slate-50 dark:bg-slate-800/50 border-dashed border-slate-300 dark:border-slate-600',
+        isOver && 'ring-2 ring-blue-500',
+        hasConflict && 'border-red-500 dark:border-red-500 border-2'
+      )}
+    >
+      <div className="flex items-center justify-between gap-1 text-slate-500">
+        <span className="truncate">
+          {timeLabel}
+          {slot.title && !slot.submission && ` · ${slot.title}`}
+        </span>
+        <span className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100">
+          {slot.submission && (
+            <>
+              <Link
+                href={`/events/${eventSlug}/submissions/${slot.submission.id}`}
+                target="_blank"
+                className="p-0.5 hover:text-blue-600"
+                title="Open submission"
+              >
+                <ExternalLink className="h-3 w-3" />
+              </Link>
+              <button
+                type="button"
+                onClick={() => onClear(slot)}
+                className="p-0.5 hover:text-amber-600"
+                title="Unschedule talk"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => onDelete(slot)}
+            className="p-0.5 hover:text-red-600"
+            title="Delete slot"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </span>
+      </div>
+      {slot.submission ? (
+        <div className="mt-0.5">
+          <SubmissionCard submission={slot.submission} fromSlotId={slot.id} compact />
+        </div>
+      ) : !slot.title && (
+        <p className="text-slate-400 mt-0.5">Drop a talk here</p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Unscheduled list (also a drop target for removing talks from slots)
+// ============================================================================
+
+function UnscheduledList({ submissions }: { submissions: ScheduleSubmission[] }) {
+  const { setNodeRef, isOver } = useDroppable({ id: 'unscheduled' });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn('space-y-2 min-h-24 rounded-md p-1', isOver && 'ring-2 ring-blue-500')}
+    >
+      {submissions.map(submission => (
+        <SubmissionCard key={submission.id} submission={submission} fromSlotId={null} />
+      ))}
+      {submissions.length === 0 && (
+        <p className="text-sm text-slate-500 py-6 text-center">
+          All accepted submissions are scheduled
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+export function ScheduleBuilder({ eventId, eventSlug, initialSchedule }: ScheduleBuilderProps) {
+  const scheduleApi = useApi<ScheduleData>();
+  const mutationApi = useApi();
+  const [schedule, setSchedule] = useState(initialSchedule);
+  const [day, setDay] = useState(initialSchedule.days[0] ?? '');
+  const [roomName, setRoomName] = useState('');
+  const [slotForm, setSlotForm] = useState({
+    roomId: initialSchedule.rooms[0]?.id ?? '',
+    startTime: initialSchedule.hours.start,
+    talkFormatId: initialSchedule.talkFormats[0]?.id ?? 'custom',
+    durationMin: '30',
+    title: '',
+    count: '1',
+  });
+
+  const sensors = useSensors(useSensor(PointerSensor), useSensor(KeyboardSensor));
+
+  const dayStart = timeToMinutes(schedule.hours.start);
+  const dayEnd = timeToMinutes(schedule.hours.end);
+
+  const conflictedSlots = useMemo(
+    () => new Set(schedule.conflicts.flatMap(c => c.slotIds)),
+    [schedule.conflicts]
+  );
+
+  const slotsForDay = useMemo(() => schedule.slots
+    .map(slot => {
+      const start = utcToZonedTime(new Date(slot.startsAt), schedule.timezone);
+      const end = utcToZonedTime(new Date(slot.endsAt), schedule.timezone);
+      return { slot, start, end };
+    })
+    .filter(({ start }) => start.date === day), [schedule.slots, schedule.timezone, day]);
+
+  const refresh = async () => {
+    const { data } = await scheduleApi.get(`/api/events/${eventId}/schedule`);
+    if (data) {
+      setSchedule(data);
+      if (!data.rooms.some(r => r.id === slotForm.roomId)) {
+        setSlotForm(form => ({ ...form, roomId: data.rooms[0]?.id ?? '' }));
+      }
+    }
+  };
+
+  const updateSlot = async (slotId: string, body: Record<string, unknown>) => {
+    const { error } = await mutationApi.patch(`/api/events/${eventId}/schedule/slots/${slotId}`, body);
+    if (!error) await refresh();
+  };
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    const { submissionId, fromSlotId } = active.data.current as { submissionId: string; fromSlotId: string | null };
+
+    if (over.id === 'unscheduled') {
+      if (fromSlotId) await updateSlot(fromSlotId, { submissionId: null });
+      return;
+    }
+
+    const targetSlotId = (over.data.current as { slotId?: string } | undefined)?.slotId;
+    if (targetSlotId && targetSlotId !== fromSlotId) {
+      await updateSlot(targetSlotId, { submissionId });
+    }
+  };
+
+  const handleAddRoom = async () => {
+    if (!roomName.trim()) return;
+    const { error } = await mutationApi.post(`/api/events/${eventId}/rooms`, { name: roomName.trim() });
+    if (!error) {
+      setRoomName('');
+      await refresh();
+    }
+  };
+
+  const handleDeleteRoom = async (room: { id: string; name: string }) => {
+    if (!confirm(`Delete ${room.name} and all of its slots?`)) return;
+    const { error } = await mutationApi.delete(`/api/events/${eventId}/rooms/${room.id}`);
+    if (!error) await refresh();
+  };
+
+  const handleAddSlots = async () => {
+    const isCustom = slotForm.talkFormatId === 'custom';
+    const { error } = await mutationApi.post(`/api/events/${eventId}/schedule/slots`, {
+      roomId: slotForm.roomId,
+      date: day,
+      startTime: slotForm.startTime,
+      talkFormatId: isCustom ? null : slotForm.talkFormatId,
+      durationMin: isCustom ? Number(slotForm.durationMin) : null,
+      title: slotForm.title.trim() || null,
+      count: Number(slotForm.count) || 1,
+    });
+
+    if (!error) {
+      toast.success('Slots added');
+      await refresh();
+    }
+  };
+
+  const handleDeleteSlot = async (slot: ScheduleSlot) => {
+    if (slot.submission && !confirm(`Delete this slot? "${slot.submission.title}" will be unscheduled.`)) return;
+    const { error } = await mutationApi.delete(`/api/events/${eventId}/schedule/slots/${slot.id}`);
+    if (!error) await refresh();
+  };
+
+  const handlePublish = async () => {
+    const { error } = await mutationApi.post(`/api/events/${eventId}/schedule/publish`, {});
+    if (!error) {
+      toast.success(schedule.publishedAt ? 'Schedule republished' : 'Schedule published');
+      await refresh();
+    }
+  };
+
+  const handleUnpublish = async () => {
+    if (!confirm('Unpublish the schedule?')) return;
+    const { error } = await mutationApi.delete(`/api/events/${eventId}/schedule/publish`);
+    if (!error) {
+      toast.success('Schedule unpublished');
+      await refresh();
+    }
+  };
+
+  if (schedule.days.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <CalendarClock className="h-8 w-8 text-slate-400 mb-3" />
+          <p className="text-sm text-slate-500 mb-4">
+            Set the event&apos;s start and end dates before building the schedule
+          </p>
+          <Button asChild variant="outline">
+            <Link href={`/events/${eventSlug}/edit`}>Edit Event Settings</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const hourMarks: number[] = [];
+  for (let minute = Math.ceil(dayStart / 60) * 60; minute <= dayEnd; minute += 60) {
+    hourMarks.push(minute);
+  }
+  const gridHeight = (dayEnd - dayStart) * PX_PER_MINUTE;
+  const isBusy = mutationApi.isLoading || scheduleApi.isLoading;
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+      <div className="space-y-4">
+        {/* Toolbar */}
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-2 flex-wrap">
+            {schedule.publishedAt ? (
+              <Badge className="bg-green-600">
+                Published {format(new Date(schedule.publishedAt), 'MMM d, HH:mm')}
+              </Badge>
+            ) : (
+              <Badge variant="outline">Draft</Badge>
+            )}
+            {schedule.conflicts.length > 0 && (
+              <Badge variant="outline" className="text-red-600 border-red-300">
+                {schedule.conflicts.length} conflict{schedule.conflicts.length === 1 ? '' : 's'}
+              </Badge>
+            )}
+            {isBusy && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+          </div>
+          <div className="flex items-center gap-2">
+            {schedule.publishedAt && (
+              <Button variant="outline" onClick={handleUnpublish} disabled={isBusy}>
+                Unpublish
+              </Button>
+            )}
+            <Button
+              onClick={handlePublish}
+              disabled={isBusy || schedule.conflicts.length > 0 || schedule.slots.length === 0}
+              className="gap-2"
+            >
+              <Globe className="h-4 w-4" />
+              {schedule.publishedAt ? 'Republish' : 'Publish Schedule'}
+            </Button>
+          </div>
+        </div>
+
+        {/* Conflicts */}
+        {schedule.conflicts.length > 0 && (
+          <Card className="border-red-200 dark:border-red-900">
+            <CardContent className="pt-4 space-y-1">
+              {schedule.conflicts.map((conflict, index) => (
+                <p key={index} className="flex items-start gap-2 text-sm text-red-700 dark:text-red-400">
+                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <span>
+                    <span className="font-medium">{SCHEDULE_CONFLICT_LABELS[conflict.type]}:</span>{' '}
+                    {conflict.message}
+                  </span>
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_300px]">
+          {/* Grid */}
+          <div className="space-y-4 min-w-0">
+            {schedule.days.length > 1 && (
+              <Tabs value={day} onValueChange={setDay}>
+                <TabsList>
+                  {schedule.days.map(d => (
+                    <TabsTrigger key={d} value={d}>
+                      {format(new Date(`${d}T00:00:00`), 'EEE, MMM d')}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            )}
+
+            {schedule.rooms.length > 0 ? (
+              <Card>
+                <CardContent className="pt-4 overflow-x-auto">
+                  <div className="flex min-w-fit">
+                    {/* Time axis */}
+                    <div className="w-14 shrink-0">
+                      <div className="h-8" />
+                      <div className="relative" style={{ height: gridHeight }}>
+                        {hourMarks.map(minute => (
+                          <span
+                            key={minute}
+                            className="absolute -translate-y-1/2 text-xs text-slate-500"
+                            style={{ top: (minute - dayStart) * PX_PER_MINUTE }}
+                          >
+                            {String(Math.floor(minute / 60)).padStart(2, '0')}:00
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Room columns */}
+                    {schedule.rooms.map(room => (
+                      <div key={room.id} className="w-48 shrink-0 border-l border-slate-200 dark:border-slate-700">
+                        <div className="h-8 px-2 flex items-center justify-between gap-1 text-sm font-medium">
+                          <span className="truncate" title={room.capacity ? `${room.capacity} seats` : undefined}>
+                            {room.name}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteRoom(room)}
+                            className="text-slate-400 hover:text-red-600"
+                            title="Delete room"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                        <div className="relative" style={{ height: gridHeight }}>
+                          {hourMarks.map(minute => (
+                            <div
+                              key={minute}
+                              className="absolute inset-x-0 border-t border-slate-100 dark:border-slate-800"
+                              style={{ top: (minute - dayStart) * PX_PER_MINUTE }}
+                            />
+                          ))}
+                          {slotsForDay
+                            .filter(({ slot }) => slot.roomId === room.id)
+                            .map(({ slot, start, end }) => (
+                              <SlotCell
+                                key={slot.id}
+                                slot={slot}
+                                top={(timeToMinutes(start.time) - dayStart) * PX_PER_MINUTE}
+                                height={Math.max(
+                                  (timeToMinutes(end.time) - timeToMinutes(start.time)) * PX_PER_MINUTE,
+                                  24
+                                )}
+                                timeLabel={`${start.time}–${end.time}`}
+                                hasConflict={conflictedSlots.has(slot.id)}
+                                eventSlug={eventSlug}
+                                onDelete={handleDeleteSlot}
+                                onClear={(s) => updateSlot(s.id, { submissionId: null })}
+                              />
+                            ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-sm text-slate-500">
+                  Add a room to start building the schedule
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  Unscheduled ({schedule.unscheduled.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <UnscheduledList submissions={schedule.unscheduled} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Rooms</CardTitle>
+              </CardHeader>
+              <CardContent className="flex gap-2">
+                <Input
+                  value={roomName}
+                  onChange={(e) => setRoomName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddRoom()}
+                  placeholder="Room name"
+                  maxLength={100}
+                />
+                <Button variant="outline" size="icon" onClick={handleAddRoom} disabled={isBusy || !roomName.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </CardContent>
+            </Card>
+
+            {schedule.rooms.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Add Slots</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-1">
+                    <Label>Room</Label>
+                    <Select
+                      value={slotForm.roomId}
+                      onValueChange={(roomId) => setSlotForm(form => ({ ...form, roomId }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select room" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {schedule.rooms.map(room => (
+                          <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label>Starts</Label>
+                      <Input
+                        type="time"
+                        value={slotForm.startTime}
+                        min={schedule.hours.start}
+                        max={schedule.hours.end}
+                        onChange={(e) => setSlotForm(form => ({ ...form, startTime: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Slots</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={50}
+                        value={slotForm.count}
+                        onChange={(e) => setSlotForm(form => ({ ...form, count: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Length</Label>
+                    <Select
+                      value={slotForm.talkFormatId}
+                      onValueChange={(talkFormatId) => setSlotForm(form => ({ ...form, talkFormatId }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {schedule.talkFormats.map(talkFormat => (
+                          <SelectItem key={talkFormat.id} value={talkFormat.id}>
+                            {talkFormat.name} ({talkFormat.durationMin} min)
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="custom">Custom length</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {slotForm.talkFormatId === 'custom' && (
+                      <Input
+                        type="number"
+                        min={5}
+                        max={600}
+                        value={slotForm.durationMin}
+                        onChange={(e) => setSlotForm(form => ({ ...form, durationMin: e.target.value }))}
+                        placeholder="Minutes"
+                      />
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Label (breaks)</Label>
+                    <Input
+                      value={slotForm.title}
+                      onChange={(e) => setSlotForm(form => ({ ...form, title: e.target.value }))}
+                      placeholder="e.g. Lunch"
+                      maxLength={200}
+                    />
+                  </div>
+                  <Button className="w-full gap-2" onClick={handleAddSlots} disabled={isBusy || !slotForm.roomId}>
+                    <Plus className="h-4 w-4" />
+                    Add to {day ? format(new Date(`${day}T00:00:00`), 'MMM d') : 'day'}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </DndContext>
+  );
+}
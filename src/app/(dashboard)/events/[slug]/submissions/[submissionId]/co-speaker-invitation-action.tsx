@@ -0,0 +1,53 @@
+/**
+ * Co-Speaker Invitation Action
+ *
+ * Client component that lets the speaker send a co-speaker a new
+ * invitation link. The old link stops working and the expiry restarts.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Send, Loader2 } from 'lucide-react';
+
+interface CoSpeakerInvitationActionProps {
+  submissionId: string;
+  eventId: string;
+  coSpeakerId: string;
+  invited: boolean;
+}
+
+export function CoSpeakerInvitationAction({
+  submissionId,
+  eventId,
+  coSpeakerId,
+  invited,
+}: CoSpeakerInvitationActionProps) {
+  const router = useRouter();
+  const api = useApi();
+
+  const handleSend = async () => {
+    const { error } = await api.patch(
+      `/api/events/${eventId}/submissions/${submissionId}/co-speakers?coSpeakerId=${coSpeakerId}`,
+      {}
+    );
+    if (error) return;
+
+    toast.success('Invitation sent to the co-speaker');
+    router.refresh();
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleSend} disabled={api.isLoading}>
+      {api.isLoading ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <Send className="h-4 w-4 mr-2" />
+      )}
+      {invited ? 'Resend Invitation' : 'Send Invitation'}
+    </Button>
+  );
+}
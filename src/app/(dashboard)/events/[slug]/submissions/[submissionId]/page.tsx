@@ -42,17 +42,58 @@ import {
   Linkedin,
   Twitter,
   Github,
-  MessageSquare
+  MessageSquare,
+  Vote,
+  ListOrdered,
+  CheckCircle2,
+  Plane
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { SubmissionStatusActions } from './submission-status-actions';
+import { SubmissionConflictAction } from './submission-conflict-action';
 import { SubmissionReviewSection } from './submission-review-section';
 import { SubmissionMessagesSection } from './submission-messages-section';
+import { SubmissionDiscussionSection } from './submission-discussion-section';
+import { SubmissionConfirmationAction } from './submission-confirmation-action';
+import { CoSpeakerInvitationAction } from './co-speaker-invitation-action';
+import { getConfirmationDetails, CONFIRMATION_STATE_LABELS } from '@/lib/confirmations';
+import {
+  withSpeakerProfiles,
+  getCoSpeakerInvitationState,
+  canResendInvitation,
+  CO_SPEAKER_INVITATION_STATE_LABELS,
+} from '@/lib/co-speakers';
+import {
+  SUBMISSION_FIELD_SELECT,
+  getSubmissionFieldAnswers,
+  formatSubmissionFieldValue,
+} from '@/lib/submission-fields';
+import { sanitizeUserHtml } from '@/lib/security/html-sanitizer';
+import {
+  getReviewMode,
+  aggregateSubmission,
+  getEventRankingStandings,
+  averageReviewScore,
+  averageCriterionScores,
+  ANONYMOUS_SPEAKER_NAME,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  redactCoSpeakers,
+  applyReviewerAnonymity,
+  applyMessageAnonymity,
+  createReviewerAliases,
+  logIdentityReveal,
+  getDiscussionContext,
+  getSubmissionDiscussion,
+} from '@/lib/reviews';
 
 interface SubmissionDetailPageProps {
   params: Promise<{ slug: string; submissionId: string }>;
+  searchParams: Promise<{ tab?: string }>;
 }
 
+const SUBMISSION_TABS = ['details', 'reviews', 'discussion', 'messages'];
+
 const statusColors: Record<string, string> = {
   PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
   UNDER_REVIEW: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
@@ -80,8 +121,9 @@ export async function generateMetadata() {
   };
 }
 
-export default async function SubmissionDetailPage({ params }: SubmissionDetailPageProps) {
+export default async function SubmissionDetailPage({ params, searchParams }: SubmissionDetailPageProps) {
   const { slug, submissionId } = await params;
+  const { tab } = await searchParams;
   const user = await getCurrentUser();
   
   const submission = await prisma.submission.findFirst({
@@ -96,6 +138,16 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
           name: true,
           slug: true,
           allowReviewerMessages: true,
+          reviewType: true,
+          reviewAnonymity: true,
+          reviewCriteria: {
+            select: { id: true, name: true, description: true, weight: true },
+            orderBy: { sortOrder: 'asc' },
+          },
+          submissionFields: {
+            select: SUBMISSION_FIELD_SELECT,
+            orderBy: { sortOrder: 'asc' },
+          },
           reviewTeam: {
             where: { userId: user.id },
             select: { role: true },
@@ -149,9 +201,24 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
             },
             orderBy: { createdAt: 'asc' },
           },
+          criterionScores: {
+            select: {
+              criteriaId: true,
+              score: true,
+              criteria: { select: { name: true } },
+            },
+          },
         },
         orderBy: { createdAt: 'asc' },
       },
+      conflicts: {
+        where: { reviewerId: user.id },
+        select: { reason: true },
+      },
+      assignments: {
+        where: { reviewerId: user.id },
+        select: { id: true },
+      },
       messages: {
         include: {
           sender: {
@@ -182,33 +249,52 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
   const isLead = userReviewTeamRole === 'LEAD';
   const isReviewTeamMember = submission.event.reviewTeam.length > 0;
   const isOwner = submission.speakerId === user.id;
+  // Accepted co-speakers see the submission as the speaker does
+  const isSpeaker = isOwner || submission.coSpeakers.some(
+    coSpeaker => coSpeaker.linkedUserId === user.id && coSpeaker.invitationStatus === 'ACCEPTED'
+  );
   
   const canManage = isAdmin || isLead;
   // Reviewers can access all submissions in single-org architecture
   const canReview = canManage || isReviewTeamMember || isOrganizerRole || isReviewerRole;
   
-  if (!isOwner && !canReview) {
+  if (!isSpeaker && !canReview) {
     redirect(`/events/${slug}`);
   }
   
+  // Blind review: reviewers see an anonymous speaker and, for double-blind
+  // events, aliased reviewers. Speakers always see their own submission.
+  const anonymity = resolveAnonymityView(getReviewAnonymity(submission.event.reviewAnonymity), user);
+  const hideSpeaker = anonymity.hideSpeaker && !isSpeaker;
+  
+  if (!isSpeaker) {
+    await logIdentityReveal(anonymity, {
+      entityType: 'Submission',
+      entityId: submission.id,
+      eventId: submission.event.id,
+      scope: 'submission',
+    });
+  }
+  
   // Decrypt speaker data
   const decryptedSpeaker = decryptPiiFields(
     submission.speaker as unknown as Record<string, unknown>,
     USER_PII_FIELDS
   );
-  const speakerName = decryptedSpeaker.name as string | null;
-  const speakerEmail = submission.speaker.email;
+  const speakerName = hideSpeaker ? ANONYMOUS_SPEAKER_NAME : decryptedSpeaker.name as string | null;
+  const speakerEmail = hideSpeaker ? null : submission.speaker.email;
+  const speakerImage = hideSpeaker ? null : submission.speaker.image;
   
   // Decrypt speaker profile if exists
-  const decryptedSpeakerProfile = submission.speaker.speakerProfile
+  const decryptedSpeakerProfile = submission.speaker.speakerProfile && !hideSpeaker
     ? decryptPiiFields(
         submission.speaker.speakerProfile as unknown as Record<string, unknown>,
         SPEAKER_PROFILE_PII_FIELDS
       )
     : null;
   
-  // Decrypt co-speaker PII
-  const decryptedCoSpeakers = submission.coSpeakers.map(coSpeaker => {
+  // Decrypt co-speaker PII; accepted co-speakers show their speaker profile
+  const coSpeakers = await withSpeakerProfiles(submission.coSpeakers.map(coSpeaker => {
     const decrypted = decryptPiiFields(
       coSpeaker as unknown as Record<string, unknown>,
       CO_SPEAKER_PII_FIELDS
@@ -218,14 +304,40 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
       name: decrypted.name as string,
       email: decrypted.email as string | null,
       bio: decrypted.bio as string | null,
+      invitationState: getCoSpeakerInvitationState(coSpeaker),
     };
-  });
+  }));
+  const decryptedCoSpeakers = hideSpeaker ? redactCoSpeakers(coSpeakers) : coSpeakers;
   
-  // Calculate review statistics
-  const reviewsWithScores = submission.reviews.filter(r => r.overallScore);
-  const avgScore = reviewsWithScores.length > 0
-    ? reviewsWithScores.reduce((sum, r) => sum + (r.overallScore || 0), 0) / reviewsWithScores.length
+  // Answers to the event's own questions, skipping unanswered optional ones
+  const fieldAnswers = getSubmissionFieldAnswers(submission.event.submissionFields, submission.customFields)
+    .filter(answer => answer.value !== null || answer.type === 'CHECKBOX');
+  
+  // Voting and ranking events summarize reviews differently
+  const reviewMode = getReviewMode(submission.event.reviewType);
+  const rankingStanding = canReview && reviewMode === 'ranking'
+    ? (await getEventRankingStandings(submission.event.id)).get(submission.id) ?? null
+    : null;
+  const modeAggregate = reviewMode !== 'scoring'
+    ? aggregateSubmission(reviewMode, { reviews: submission.reviews, standing: rankingStanding })
+    : null;
+  
+  // The review team's discussion; speakers never see it, even on the team
+  const discussionContext = canReview && !isSpeaker
+    ? await getDiscussionContext(submission.event.id, submission.id, user)
     : null;
+  const discussion = discussionContext ? await getSubmissionDiscussion(discussionContext) : null;
+  const visibleTabs = SUBMISSION_TABS.filter(t =>
+    (t !== 'reviews' || canReview) && (t !== 'discussion' || discussion !== null)
+  );
+  
+  // Speaker confirmation answers are for organizers only
+  const confirmation = canManage ? await getConfirmationDetails(submission.id) : null;
+  const showConfirmation = canManage && !submission.isFederated &&
+    (confirmation !== null || submission.status === 'ACCEPTED');
+  
+  // Calculate review statistics
+  const avgScore = averageReviewScore(submission.reviews);
   
   // Prepare scores for visualization
   const aggregatedScores: Record<string, number[]> = {
@@ -249,6 +361,10 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
     }
   });
   
+  // Criteria-scored reviews chart the event's own criteria instead
+  const criteriaAverages = averageCriterionScores(submission.reviews);
+  const chartScores = Object.keys(criteriaAverages).length > 0 ? criteriaAverages : averageScores;
+  
   // Decrypt reviewer names for all reviews
   const decryptedReviews = submission.reviews.map(review => {
     if (review.reviewer) {
@@ -267,8 +383,18 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
     return review;
   });
   
+  const visibleReviews = applyReviewerAnonymity(decryptedReviews, anonymity);
+  
   // Get decrypted user review
-  const decryptedUserReview = decryptedReviews.find(r => r.reviewerId === user.id);
+  const decryptedUserReview = visibleReviews.find(r => r.reviewerId === user.id);
+  
+  const visibleMessages = isSpeaker
+    ? submission.messages
+    : applyMessageAnonymity(
+        submission.messages,
+        anonymity,
+        createReviewerAliases(user.id, submission.reviews.map(r => r.reviewerId))
+      );
   
   const getInitials = (name?: string | null, email?: string) => {
     if (name) {
@@ -352,7 +478,15 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
               {submission.format.name} ({submission.format.durationMin}m)
             </Badge>
           )}
-          {canReview && avgScore !== null && (
+          {canReview && modeAggregate && (
+            <Badge variant="outline">
+              {reviewMode === 'voting' ? <Vote className="h-3 w-3 mr-1" /> : <ListOrdered className="h-3 w-3 mr-1" />}
+              {modeAggregate.sortValue !== null
+                ? `${modeAggregate.label}${reviewMode === 'voting' ? ' approval' : ' avg. rank'}`
+                : modeAggregate.detail}
+            </Badge>
+          )}
+          {canReview && !modeAggregate && avgScore !== null && (
             <Badge 
               variant="outline" 
               className={
@@ -366,7 +500,7 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
               {avgScore.toFixed(1)}/5
             </Badge>
           )}
-          {canReview && avgScore === null && (
+          {canReview && !modeAggregate && avgScore === null && (
             <Badge variant="outline" className="text-muted-foreground">
               <Star className="h-3 w-3 mr-1" />
               No ratings yet
@@ -379,14 +513,19 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Content - 2/3 width */}
         <div className="lg:col-span-2 space-y-6">
-          <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 h-auto">
+          <Tabs defaultValue={tab && visibleTabs.includes(tab) ? tab : 'details'} className="w-full">
+            <TabsList className={`grid w-full h-auto ${visibleTabs.length > 3 ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-3'}`}>
               <TabsTrigger value="details" className="text-xs sm:text-sm">Details</TabsTrigger>
               {canReview && (
                 <TabsTrigger value="reviews" className="text-xs sm:text-sm">
                   Reviews ({submission.reviews.length})
                 </TabsTrigger>
               )}
+              {discussion && (
+                <TabsTrigger value="discussion" className="text-xs sm:text-sm">
+                  Discussion
+                </TabsTrigger>
+              )}
               <TabsTrigger value="messages" className="text-xs sm:text-sm">
                 Messages ({submission.messages.length})
               </TabsTrigger>
@@ -445,6 +584,41 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                 </Card>
               )}
               
+              {/* Event Questions */}
+              {fieldAnswers.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Event Questions</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {fieldAnswers.map((answer) => (
+                      <div key={answer.fieldId}>
+                        <h4 className="font-medium mb-2">{answer.label}</h4>
+                        {answer.type === 'RICH_TEXT' && typeof answer.value === 'string' ? (
+                          <div
+                            className="prose prose-sm prose-slate dark:prose-invert max-w-none text-slate-600 dark:text-slate-400"
+                            dangerouslySetInnerHTML={{ __html: sanitizeUserHtml(answer.value) }}
+                          />
+                        ) : answer.type === 'URL' && typeof answer.value === 'string' ? (
+                          <a
+                            href={answer.value}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline break-all"
+                          >
+                            {answer.value}
+                          </a>
+                        ) : (
+                          <p className="text-slate-600 dark:text-slate-400 whitespace-pre-wrap">
+                            {formatSubmissionFieldValue(answer.type, answer.value)}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+              
               {/* Speaker Information */}
               <Card>
                 <CardHeader>
@@ -453,9 +627,9 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                 <CardContent className="space-y-4">
                   <div className="flex items-center gap-4">
                     <Avatar className="h-16 w-16">
-                      <AvatarImage src={submission.speaker.image || undefined} />
+                      <AvatarImage src={speakerImage || undefined} />
                       <AvatarFallback className="text-lg">
-                        {getInitials(speakerName, speakerEmail)}
+                        {getInitials(speakerName, speakerEmail || undefined)}
                       </AvatarFallback>
                     </Avatar>
                     <div>
@@ -464,7 +638,14 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                           ? String(decryptedSpeakerProfile.fullName) 
                           : speakerName || 'No name'}
                       </p>
-                      <p className="text-sm text-muted-foreground">{speakerEmail}</p>
+                      {speakerEmail && (
+                        <p className="text-sm text-muted-foreground">{speakerEmail}</p>
+                      )}
+                      {hideSpeaker && (
+                        <p className="text-sm text-muted-foreground">
+                          Speaker details are hidden for this event&apos;s blind review
+                        </p>
+                      )}
                       {decryptedSpeakerProfile?.position && decryptedSpeakerProfile?.company ? (
                         <p className="text-sm text-muted-foreground">
                           {String(decryptedSpeakerProfile.position)} at {String(decryptedSpeakerProfile.company)}
@@ -557,8 +738,15 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                               {getInitials(coSpeaker.name, coSpeaker.email || undefined)}
                             </AvatarFallback>
                           </Avatar>
-                          <div>
-                            <p className="font-medium">{coSpeaker.name}</p>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <p className="font-medium">{coSpeaker.name}</p>
+                              {isSpeaker && coSpeaker.invitationState && (
+                                <Badge variant={coSpeaker.invitationState === 'ACCEPTED' ? 'secondary' : 'outline'}>
+                                  {CO_SPEAKER_INVITATION_STATE_LABELS[coSpeaker.invitationState]}
+                                </Badge>
+                              )}
+                            </div>
                             {coSpeaker.email && (
                               <p className="text-sm text-muted-foreground">{coSpeaker.email}</p>
                             )}
@@ -566,6 +754,16 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                               <p className="text-sm text-muted-foreground mt-1">{coSpeaker.bio}</p>
                             )}
                           </div>
+                          {isOwner && coSpeaker.email && (
+                            coSpeaker.invitationState === null || canResendInvitation(coSpeaker.invitationState)
+                          ) && (
+                            <CoSpeakerInvitationAction
+                              submissionId={submission.id}
+                              eventId={submission.event.id}
+                              coSpeakerId={coSpeaker.id}
+                              invited={coSpeaker.invitationState !== null}
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
@@ -577,8 +775,30 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
             {/* Reviews Tab */}
             {canReview && (
               <TabsContent value="reviews" className="space-y-6">
+                {/* Voting / Ranking Summary */}
+                {modeAggregate && (
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="text-lg font-semibold">
+                            {reviewMode === 'voting' ? 'Voting Result' : 'Ranking Result'}
+                          </h3>
+                          <p className="text-sm text-muted-foreground">{modeAggregate.detail}</p>
+                        </div>
+                        <div className="text-right">
+                          <span className="text-2xl font-bold">{modeAggregate.label}</span>
+                          <p className="text-xs text-muted-foreground">
+                            {reviewMode === 'voting' ? 'approval (yes vs. no)' : 'average position'}
+                          </p>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+                
                 {/* Review Summary */}
-                {submission.reviews.length > 0 && Object.keys(averageScores).length > 0 && (
+                {!modeAggregate && submission.reviews.length > 0 && Object.keys(chartScores).length > 0 && (
                   <Card>
                     <CardContent className="pt-6">
                       <div className="space-y-4">
@@ -592,7 +812,7 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                           </div>
                         </div>
                         <RatingBarChart 
-                          criteria={averageScores} 
+                          criteria={chartScores} 
                           maxScore={5}
                           colorScheme="performance"
                         />
@@ -605,12 +825,15 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                 )}
                 
                 {/* Scoring System Explanation */}
+                {!modeAggregate && (
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-sm text-muted-foreground">
                       <p className="mb-2">
                         <strong>How ratings work:</strong> Each reviewer scores multiple criteria (1-5 scale). 
-                        The individual review score is the average of all criteria. 
+                        {submission.event.reviewCriteria.length > 0
+                          ? ' The individual review score is the average of all criteria, weighted by each criterion\'s weight. '
+                          : ' The individual review score is the average of all criteria. '}
                         The overall submission rating is the average of all review scores.
                       </p>
                       <p>
@@ -620,15 +843,32 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                     </div>
                   </CardContent>
                 </Card>
+                )}
                 
                 {/* Review Section Component */}
                 <SubmissionReviewSection
                   submissionId={submission.id}
                   submissionTitle={submission.title}
                   eventId={submission.event.id}
-                  reviews={decryptedReviews}
+                  reviews={visibleReviews}
                   userReview={decryptedUserReview}
                   currentUserId={user.id}
+                  reviewType={reviewMode}
+                  criteria={submission.event.reviewCriteria}
+                  rankingHref={`/events/${slug}/submissions/ranking`}
+                />
+              </TabsContent>
+            )}
+            
+            {/* Team Discussion Tab */}
+            {discussionContext && discussion && (
+              <TabsContent value="discussion">
+                <SubmissionDiscussionSection
+                  eventId={submission.event.id}
+                  submissionId={submission.id}
+                  initialThreads={discussion.threads}
+                  mentionOptions={discussion.mentionOptions}
+                  canModerate={discussionContext.canModerate}
                 />
               </TabsContent>
             )}
@@ -641,9 +881,9 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
               <SubmissionMessagesSection
                 submissionId={submission.id}
                 eventId={submission.event.id}
-                messages={submission.messages}
+                messages={visibleMessages}
                 currentUserId={user.id}
-                isOwner={isOwner}
+                isOwner={isSpeaker}
                 isReviewer={canReview && !canManage}
                 allowReviewerMessages={submission.event.allowReviewerMessages}
               />
@@ -669,6 +909,86 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
             </Card>
           )}
           
+          {/* Speaker Confirmation */}
+          {showConfirmation && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Speaker Confirmation</CardTitle>
+                {confirmation && (
+                  <CardDescription>
+                    {CONFIRMATION_STATE_LABELS[confirmation.status]}
+                    {confirmation.respondedAt
+                      ? ` on ${format(confirmation.respondedAt, 'PP')}`
+                      : ` · due ${format(confirmation.deadline, 'PP')}`}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {confirmation?.status === 'CONFIRMED' && (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      <span>Agreed to the code of conduct</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Video className="h-4 w-4 text-muted-foreground" />
+                      <span>{confirmation.agreedToRecording ? 'Agreed to recording' : 'Did not agree to recording'}</span>
+                    </div>
+                    {confirmation.travelNeeds && (
+                      <div className="flex items-start gap-2">
+                        <Plane className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                        <p className="whitespace-pre-wrap">{confirmation.travelNeeds}</p>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {confirmation?.declineReason && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                    {confirmation.declineReason}
+                  </p>
+                )}
+                {confirmation?.promotedSubmission && (
+                  <p className="text-sm">
+                    Promoted from waitlist:{' '}
+                    <Link
+                      href={`/events/${slug}/submissions/${confirmation.promotedSubmission.id}`}
+                      className="text-primary hover:underline"
+                    >
+                      {confirmation.promotedSubmission.title}
+                    </Link>
+                  </p>
+                )}
+                {submission.status === 'ACCEPTED' && confirmation?.status !== 'CONFIRMED' && (
+                  <SubmissionConfirmationAction
+                    submissionId={submission.id}
+                    eventId={submission.event.id}
+                    hasConfirmation={confirmation !== null}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+          
+          {/* Conflict of Interest */}
+          {canReview && !isSpeaker && submission.status !== 'WITHDRAWN' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Conflict of Interest</CardTitle>
+                {submission.assignments.length > 0 && (
+                  <CardDescription>This submission is assigned to you for review.</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <SubmissionConflictAction
+                  submissionId={submission.id}
+                  eventId={submission.event.id}
+                  hasConflict={submission.conflicts.length > 0}
+                  conflictReason={submission.conflicts[0]?.reason ?? null}
+                />
+              </CardContent>
+            </Card>
+          )}
+          
           {/* Submission Meta */}
           <Card>
             <CardHeader>
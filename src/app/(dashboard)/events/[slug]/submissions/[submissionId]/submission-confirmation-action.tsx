@@ -0,0 +1,56 @@
+/**
+ * Submission Confirmation Action
+ *
+ * Client component that lets organizers send the speaker a new
+ * confirmation link. The old link stops working and the deadline restarts.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Send, Loader2 } from 'lucide-react';
+
+interface SubmissionConfirmationActionProps {
+  submissionId: string;
+  eventId: string;
+  hasConfirmation: boolean;
+}
+
+export function SubmissionConfirmationAction({
+  submissionId,
+  eventId,
+  hasConfirmation,
+}: SubmissionConfirmationActionProps) {
+  const router = useRouter();
+  const api = useApi();
+
+  const handleSend = async () => {
+    const { error } = await api.post(
+      `/api/events/${eventId}/submissions/${submissionId}/confirmation`,
+      {}
+    );
+    if (error) return;
+
+    toast.success('Confirmation request sent to the speaker');
+    router.refresh();
+  };
+
+  return (
+    <Button
+      variant="outline"
+      className="w-full justify-start"
+      onClick={handleSend}
+      disabled={api.isLoading}
+    >
+      {api.isLoading ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <Send className="h-4 w-4 mr-2" />
+      )}
+      {hasConfirmation ? 'Resend Confirmation Request' : 'Request Confirmation'}
+    </Button>
+  );
+}
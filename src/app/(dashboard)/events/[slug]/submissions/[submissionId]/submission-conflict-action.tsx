@@ -0,0 +1,114 @@
+/**
+ * Submission Conflict Action
+ *
+ * Client component that lets a reviewer declare (or withdraw) a conflict
+ * of interest with a submission. Declaring removes any assignment and keeps
+ * the reviewer out of automatic assignment for this submission.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { ShieldAlert, Undo2, Loader2 } from 'lucide-react';
+
+interface SubmissionConflictActionProps {
+  submissionId: string;
+  eventId: string;
+  hasConflict: boolean;
+  conflictReason: string | null;
+}
+
+export function SubmissionConflictAction({
+  submissionId,
+  eventId,
+  hasConflict,
+  conflictReason,
+}: SubmissionConflictActionProps) {
+  const router = useRouter();
+  const api = useApi();
+  const [isDeclaring, setIsDeclaring] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const url = `/api/events/${eventId}/submissions/${submissionId}/conflict`;
+
+  const handleDeclare = async () => {
+    const { error } = await api.post(url, { reason: reason.trim() || null });
+    if (error) return;
+
+    toast.success('Conflict of interest declared');
+    setIsDeclaring(false);
+    setReason('');
+    router.refresh();
+  };
+
+  const handleWithdraw = async () => {
+    const { error } = await api.delete(url);
+    if (error) return;
+
+    toast.success('Conflict of interest withdrawn');
+    router.refresh();
+  };
+
+  if (hasConflict) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          You declared a conflict of interest with this submission
+          {conflictReason ? `: ${conflictReason}` : '.'}
+        </p>
+        <Button
+          variant="outline"
+          className="w-full justify-start"
+          onClick={handleWithdraw}
+          disabled={api.isLoading}
+        >
+          {api.isLoading ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Undo2 className="h-4 w-4 mr-2" />
+          )}
+          Withdraw Conflict
+        </Button>
+      </div>
+    );
+  }
+
+  if (isDeclaring) {
+    return (
+      <div className="space-y-3">
+        <Textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional, visible to organizers)"
+          maxLength={1000}
+          rows={3}
+        />
+        <div className="flex gap-2">
+          <Button onClick={handleDeclare} disabled={api.isLoading} className="flex-1">
+            {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Declare
+          </Button>
+          <Button variant="outline" onClick={() => setIsDeclaring(false)} disabled={api.isLoading}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="outline"
+      className="w-full justify-start"
+      onClick={() => setIsDeclaring(true)}
+    >
+      <ShieldAlert className="h-4 w-4 mr-2" />
+      Declare Conflict of Interest
+    </Button>
+  );
+}
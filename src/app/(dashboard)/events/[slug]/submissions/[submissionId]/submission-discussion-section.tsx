@@ -0,0 +1,410 @@
+/**
+ * Submission Discussion Section (Client Component)
+ *
+ * The review team's threaded discussion of a submission. Comments are rich
+ * text with @mentions; replies nest under the comment they answer. Leads
+ * can pin threads to the top and resolve them. Never rendered for the
+ * submission's speakers.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import {
+  AtSign,
+  CheckCircle2,
+  Loader2,
+  MessagesSquare,
+  Pin,
+  PinOff,
+  Reply,
+  RotateCcw,
+  Send,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { MAX_DISCUSSION_DEPTH } from '@/lib/reviews/discussion-threads';
+
+// Dynamically import RichTextEditor to avoid SSR issues
+const RichTextEditor = dynamic(
+  () => import('@/components/editors/rich-text-editor').then(mod => mod.RichTextEditor),
+  {
+    ssr: false,
+    loading: () => <div className="h-[100px] border rounded-md animate-pulse bg-slate-100 dark:bg-slate-800" />
+  }
+);
+
+interface DiscussionPerson {
+  id: string;
+  name: string | null;
+  image: string | null;
+}
+
+interface DiscussionPost {
+  id: string;
+  parentId: string | null;
+  content: string;
+  isPinned: boolean;
+  resolvedAt: Date | string | null;
+  resolvedBy: DiscussionPerson | null;
+  createdAt: Date | string;
+  author: DiscussionPerson;
+  isOwn: boolean;
+  replies: DiscussionPost[];
+}
+
+interface MentionOption {
+  id: string;
+  handle: string;
+}
+
+interface DiscussionData {
+  threads: DiscussionPost[];
+  mentionOptions: MentionOption[];
+  canModerate: boolean;
+}
+
+interface SubmissionDiscussionSectionProps {
+  eventId: string;
+  submissionId: string;
+  initialThreads: DiscussionPost[];
+  mentionOptions: MentionOption[];
+  canModerate: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Add "@handle" to the end of the editor's last paragraph
+ */
+function insertMention(content: string, handle: string): string {
+  const mention = `@${escapeHtml(handle)}&nbsp;`;
+  return content.endsWith('</p>')
+    ? `${content.slice(0, -4)} ${mention}</p>`
+    : `${content}<p>${mention}</p>`;
+}
+
+function isEmptyHtml(content: string): boolean {
+  return content.replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim().length === 0;
+}
+
+// =============================================================================
+// COMPOSER
+// =============================================================================
+
+interface ComposerProps {
+  mentionOptions: MentionOption[];
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function DiscussionComposer({
+  mentionOptions,
+  placeholder,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: ComposerProps) {
+  const [content, setContent] = useState('');
+  const [mentionKey, setMentionKey] = useState(0);
+
+  const handleSubmit = async () => {
+    if (isEmptyHtml(content)) {
+      toast.error('Please enter a comment');
+      return;
+    }
+    if (await onSubmit(content)) {
+      setContent('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <RichTextEditor
+        content={content}
+        onChange={setContent}
+        placeholder={placeholder}
+        minHeight={100}
+        disabled={isSubmitting}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {mentionOptions.length > 0 ? (
+          <Select
+            key={mentionKey}
+            onValueChange={(id) => {
+              const option = mentionOptions.find(o => o.id === id);
+              if (option) setContent(current => insertMention(current, option.handle));
+              setMentionKey(key => key + 1);
+            }}
+          >
+            <SelectTrigger className="w-[200px] h-8 text-xs">
+              <AtSign className="h-3.5 w-3.5 mr-1" />
+              <SelectValue placeholder="Mention someone" />
+            </SelectTrigger>
+            <SelectContent>
+              {mentionOptions.map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.handle}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || isEmptyHtml(content)}>
+            {isSubmitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// SECTION
+// =============================================================================
+
+export function SubmissionDiscussionSection({
+  eventId,
+  submissionId,
+  initialThreads,
+  mentionOptions: initialMentionOptions,
+  canModerate,
+}: SubmissionDiscussionSectionProps) {
+  const api = useApi<DiscussionData>();
+  const [threads, setThreads] = useState(initialThreads);
+  const [mentionOptions, setMentionOptions] = useState(initialMentionOptions);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const baseUrl = `/api/events/${eventId}/submissions/${submissionId}/discussions`;
+
+  const refresh = async () => {
+    const { data } = await api.get(baseUrl);
+    if (data) {
+      setThreads(data.threads);
+      setMentionOptions(data.mentionOptions);
+    }
+  };
+
+  const handlePost = async (content: string, parentId: string | null) => {
+    const { error } = await api.post(baseUrl, { content, parentId });
+    if (error) return false;
+
+    toast.success(parentId ? 'Reply posted' : 'Thread started');
+    setReplyingTo(null);
+    await refresh();
+    return true;
+  };
+
+  const handleModerate = async (threadId: string, changes: { isPinned?: boolean; resolved?: boolean }) => {
+    const { error } = await api.patch(`${baseUrl}/${threadId}`, changes);
+    if (error) return;
+
+    if (changes.isPinned !== undefined) toast.success(changes.isPinned ? 'Thread pinned' : 'Thread unpinned');
+    if (changes.resolved !== undefined) toast.success(changes.resolved ? 'Thread resolved' : 'Thread reopened');
+    await refresh();
+  };
+
+  const toggleExpanded = (threadId: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(threadId)) {
+        next.delete(threadId);
+      } else {
+        next.add(threadId);
+      }
+      return next;
+    });
+  };
+
+  const countReplies = (post: DiscussionPost): number =>
+    post.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+
+  const renderPost = (post: DiscussionPost, depth: number) => (
+    <div key={post.id} className={depth > 0 ? 'ml-4 sm:ml-6 border-l-2 border-slate-200 dark:border-slate-700 pl-3 sm:pl-4' : ''}>
+      <div className="py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{post.author.name || 'Team member'}</span>
+          {post.isOwn && <Badge variant="outline" className="text-xs">You</Badge>}
+          <span className="text-xs text-muted-foreground">
+            {format(new Date(post.createdAt), 'MMM d, yyyy h:mm a')}
+          </span>
+        </div>
+        <div
+          className="prose prose-sm dark:prose-invert max-w-none mt-1"
+          // Sanitized on the server when posted
+          dangerouslySetInnerHTML={{ __html: post.content }}
+        />
+        {depth < MAX_DISCUSSION_DEPTH && replyingTo !== post.id && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs mt-1"
+            onClick={() => setReplyingTo(post.id)}
+          >
+            <Reply className="h-3.5 w-3.5 mr-1" />
+            Reply
+          </Button>
+        )}
+        {replyingTo === post.id && (
+          <div className="mt-2">
+            <DiscussionComposer
+              mentionOptions={mentionOptions}
+              placeholder="Write a reply..."
+              submitLabel="Reply"
+              isSubmitting={api.isLoading}
+              onSubmit={(content) => handlePost(content, post.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+      </div>
+      {post.replies.map(reply => renderPost(reply, depth + 1))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MessagesSquare className="h-5 w-5" />
+            Team Discussion
+          </CardTitle>
+          <CardDescription>
+            Only the review team can see this discussion; the speaker never does.
+            Type @ and a name, or pick someone below, to notify them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DiscussionComposer
+            mentionOptions={mentionOptions}
+            placeholder="Start a new thread..."
+            submitLabel="Post"
+            isSubmitting={api.isLoading && replyingTo === null}
+            onSubmit={(content) => handlePost(content, null)}
+          />
+        </CardContent>
+      </Card>
+
+      {threads.length === 0 ? (
+        <div className="text-center py-8 text-slate-500">
+          No discussion yet. Start a thread to talk this submission over with the team.
+        </div>
+      ) : (
+        threads.map(thread => {
+          const resolved = thread.resolvedAt !== null;
+          const replyCount = countReplies(thread);
+          const showReplies = !resolved || expanded.has(thread.id);
+
+          return (
+            <Card
+              key={thread.id}
+              className={resolved ? 'opacity-80' : thread.isPinned ? 'border-blue-300 dark:border-blue-800' : ''}
+            >
+              <CardContent className="pt-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                  <div className="flex flex-wrap gap-2">
+                    {thread.isPinned && (
+                      <Badge variant="secondary" className="text-xs">
+                        <Pin className="h-3 w-3 mr-1" />
+                        Pinned
+                      </Badge>
+                    )}
+                    {resolved && (
+                      <Badge variant="secondary" className="text-xs">
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Resolved{thread.resolvedBy?.name ? ` by ${thread.resolvedBy.name}` : ''}
+                      </Badge>
+                    )}
+                  </div>
+                  {canModerate && (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleModerate(thread.id, { isPinned: !thread.isPinned })}
+                        disabled={api.isLoading}
+                      >
+                        {thread.isPinned ? (
+                          <PinOff className="h-3.5 w-3.5 mr-1" />
+                        ) : (
+                          <Pin className="h-3.5 w-3.5 mr-1" />
+                        )}
+                        {thread.isPinned ? 'Unpin' : 'Pin'}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleModerate(thread.id, { resolved: !resolved })}
+                        disabled={api.isLoading}
+                      >
+                        {resolved ? (
+                          <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                        ) : (
+                          <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                        )}
+                        {resolved ? 'Reopen' : 'Resolve'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {showReplies ? (
+                  renderPost(thread, 0)
+                ) : (
+                  <div className="py-2">
+                    <div
+                      className="prose prose-sm dark:prose-invert max-w-none line-clamp-2"
+                      dangerouslySetInnerHTML={{ __html: thread.content }}
+                    />
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-7 px-0 text-xs"
+                      onClick={() => toggleExpanded(thread.id)}
+                    >
+                      Show thread{replyCount > 0 ? ` (${replyCount} ${replyCount === 1 ? 'reply' : 'replies'})` : ''}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,15 @@
  * 
  * Displays reviews for a submission and allows reviewers to add/edit reviews.
  * Features detailed scoring criteria, recommendation options, and visual bar charts.
+ * Events with review criteria are scored per criterion with a weighted total.
+ * Voting events collect a yes/no/abstain vote instead of scores; ranking
+ * events send reviewers to the ranking board.
  */
 
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -31,6 +35,8 @@ import {
   Trash2,
   Send,
   Check,
+  ListOrdered,
+  Vote,
 } from 'lucide-react';
 import {
   Dialog,
@@ -42,6 +48,8 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { format } from 'date-fns';
+import type { ReviewMode } from '@/lib/reviews/review-modes';
+import { computeWeightedScore } from '@/lib/reviews/criteria-scoring';
 
 interface Review {
   id: string;
@@ -49,9 +57,12 @@ interface Review {
   presentationScore?: number | null;
   relevanceScore?: number | null;
   overallScore?: number | null;
+  weightedScore?: number | null;
+  criterionScores?: Array<{ criteriaId: string; score: number }>;
   privateNotes?: string | null;
   publicNotes?: string | null;
   recommendation?: string | null;
+  vote?: string | null;
   createdAt: Date;
   reviewer?: {
     id: string;
@@ -69,6 +80,16 @@ interface SubmissionReviewSectionProps {
   reviews: Review[];
   userReview?: Review;
   currentUserId: string;
+  reviewType?: ReviewMode;
+  rankingHref?: string;
+  criteria?: ReviewCriterion[];
+}
+
+interface ReviewCriterion {
+  id: string;
+  name: string;
+  description?: string | null;
+  weight: number;
 }
 
 // Scoring criteria definitions
@@ -129,16 +150,48 @@ const recommendationOptions = [
   },
 ];
 
+const voteOptions = [
+  {
+    value: 'YES',
+    label: 'Yes',
+    icon: ThumbsUp,
+    color: 'bg-green-600 hover:bg-green-700',
+    description: 'Include this talk',
+  },
+  {
+    value: 'NO',
+    label: 'No',
+    icon: ThumbsDown,
+    color: 'bg-red-600 hover:bg-red-700',
+    description: 'Do not include this talk',
+  },
+  {
+    value: 'ABSTAIN',
+    label: 'Abstain',
+    icon: Minus,
+    color: 'bg-slate-500 hover:bg-slate-600',
+    description: 'No opinion or conflict of interest',
+  },
+];
+
+const voteLabels: Record<string, { label: string; color: string }> = {
+  YES: { label: 'Voted Yes', color: 'bg-green-600' },
+  NO: { label: 'Voted No', color: 'bg-red-600' },
+  ABSTAIN: { label: 'Abstained', color: 'bg-slate-500' },
+};
+
 function ScoreSelector({ 
   value, 
   onChange, 
   label, 
-  description 
+  description,
+  weight,
 }: { 
   value: number; 
   onChange: (v: number) => void; 
   label: string; 
   description: string;
+  weight?: number;
 }) {
   const isRated = value > 0;
   
@@ -146,7 +199,14 @@ function ScoreSelector({
     <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
       <div className="flex items-start justify-between mb-3">
         <div className="flex-1">
-          <Label className="font-semibold text-slate-900 dark:text-white">{label}</Label>
+          <Label className="font-semibold text-slate-900 dark:text-white">
+            {label}
+            {weight !== undefined && (
+              <span className="ml-2 text-xs font-normal text-slate-500" title="Criterion weight">
+                ×{weight}
+              </span>
+            )}
+          </Label>
           <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{description}</p>
         </div>
         <div className={`
@@ -192,6 +252,9 @@ export function SubmissionReviewSection({
   reviews,
   userReview,
   currentUserId,
+  reviewType = 'scoring',
+  rankingHref,
+  criteria = [],
 }: SubmissionReviewSectionProps) {
   const api = useApi();
   const [isAddingReview, setIsAddingReview] = useState(false);
@@ -212,18 +275,53 @@ export function SubmissionReviewSection({
     privateNotes: userReview?.privateNotes || '',
     publicNotes: userReview?.publicNotes || '',
     recommendation: userReview?.recommendation || '',
+    vote: userReview?.vote || '',
   });
+  
+  // Per-criterion scores, keyed by criterion id
+  const [criterionValues, setCriterionValues] = useState<Record<string, number>>(
+    Object.fromEntries((userReview?.criterionScores ?? []).map(s => [s.criteriaId, s.score]))
+  );
+  const usesCriteria = criteria.length > 0;
+  const weightedPreview = computeWeightedScore(
+    criteria
+      .filter(c => (criterionValues[c.id] ?? 0) > 0)
+      .map(c => ({ score: criterionValues[c.id], weight: c.weight }))
+  );
+  
+  // Scores for a review's bar chart: per criterion when available, else the legacy columns
+  const getReviewScores = (review: Review): Record<string, number> => {
+    const scores: Record<string, number> = {};
+    if (review.criterionScores?.length) {
+      for (const criterion of criteria) {
+        const entry = review.criterionScores.find(s => s.criteriaId === criterion.id);
+        if (entry) scores[criterion.name] = entry.score;
+      }
+      return scores;
+    }
+    if (review.contentScore) scores['Content'] = review.contentScore;
+    if (review.presentationScore) scores['Presentation'] = review.presentationScore;
+    if (review.relevanceScore) scores['Relevance'] = review.relevanceScore;
+    if (review.overallScore) scores['Overall'] = review.overallScore;
+    return scores;
+  };
 
   const hasExistingReview = Boolean(userReview);
+  const isVoting = reviewType === 'voting';
+  const isRanking = reviewType === 'ranking';
   
   // Check if all scores are filled
-  const allScoresFilled = newReview.contentScore > 0 && 
-    newReview.presentationScore > 0 && 
-    newReview.relevanceScore > 0 && 
-    newReview.overallScore > 0;
+  const remainingScores = usesCriteria
+    ? criteria.filter(c => !(criterionValues[c.id] > 0)).length
+    : 4 - [newReview.contentScore, newReview.presentationScore, newReview.relevanceScore, newReview.overallScore].filter(s => s > 0).length;
+  const allScoresFilled = remainingScores === 0;
   
   // Check if recommendation is selected
   const hasRecommendation = newReview.recommendation !== '';
+  
+  // Voting mode only needs a vote; scoring needs every score and a recommendation
+  const hasVote = newReview.vote !== '';
+  const canSubmitReview = isVoting ? hasVote : allScoresFilled && hasRecommendation;
 
   const handleSubmitReview = async () => {
     const endpoint = hasExistingReview && isEditing
@@ -232,9 +330,26 @@ export function SubmissionReviewSection({
     
     const method = hasExistingReview && isEditing ? 'PATCH' : 'POST';
 
+    const { vote, recommendation, ...scores } = newReview;
+    const payload = isVoting
+      ? {
+          vote,
+          privateNotes: newReview.privateNotes,
+          publicNotes: newReview.publicNotes,
+          ...(recommendation && { recommendation }),
+        }
+      : usesCriteria
+        ? {
+            criterionScores: criteria.map(c => ({ criteriaId: c.id, score: criterionValues[c.id] })),
+            privateNotes: newReview.privateNotes,
+            publicNotes: newReview.publicNotes,
+            recommendation,
+          }
+        : { ...scores, recommendation };
+
     const response = method === 'POST' 
-      ? await api.post(endpoint, newReview)
-      : await api.patch(endpoint, newReview);
+      ? await api.post(endpoint, payload)
+      : await api.patch(endpoint, payload);
 
     if (response.error) return;
 
@@ -440,8 +555,33 @@ export function SubmissionReviewSection({
 
   return (
     <div className="space-y-6">
+      {/* Ranking Mode Prompt */}
+      {isRanking && (
+        <Card className="border-2 border-dashed border-blue-300 dark:border-blue-700 bg-blue-50/50 dark:bg-blue-950/20">
+          <CardContent className="flex flex-col items-center justify-center py-8">
+            <div className="w-14 h-14 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-4">
+              <ListOrdered className="h-7 w-7 text-blue-500" />
+            </div>
+            <h3 className="font-semibold text-lg text-slate-900 dark:text-white mb-1">
+              This event uses ranking
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-4 text-center max-w-md">
+              Instead of scoring each talk, reviewers drag all submissions into their preferred order
+            </p>
+            {rankingHref && (
+              <Button asChild size="lg" className="gap-2">
+                <Link href={rankingHref}>
+                  <ListOrdered className="h-4 w-4" />
+                  Open Ranking Board
+                </Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Add Review Prompt */}
-      {!hasExistingReview && !isAddingReview && (
+      {!isRanking && !hasExistingReview && !isAddingReview && (
         <Card className="border-2 border-dashed border-blue-300 dark:border-blue-700 bg-blue-50/50 dark:bg-blue-950/20">
           <CardContent className="flex flex-col items-center justify-center py-8">
             <div className="w-14 h-14 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-4">
@@ -455,7 +595,7 @@ export function SubmissionReviewSection({
             </p>
             <Button onClick={() => setIsAddingReview(true)} size="lg" className="gap-2">
               <Plus className="h-4 w-4" />
-              Add Your Review
+              {isVoting ? 'Cast Your Vote' : 'Add Your Review'}
             </Button>
           </CardContent>
         </Card>
@@ -474,16 +614,18 @@ export function SubmissionReviewSection({
                   {hasExistingReview ? 'Edit Your Review' : 'Add Your Review'}
                 </CardTitle>
                 <CardDescription>
-                  {hasExistingReview 
-                    ? 'Update your scores and feedback below'
-                    : 'Rate this submission on each criteria (click the stars)'}
+                  {isVoting
+                    ? 'Vote on whether this submission should be included'
+                    : hasExistingReview 
+                      ? 'Update your scores and feedback below'
+                      : 'Rate this submission on each criteria (click the stars)'}
                 </CardDescription>
               </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6 pt-6">
             {/* Progress indicator */}
-            {!hasExistingReview && (
+            {!isVoting && !hasExistingReview && (
               <div className="flex items-center gap-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800">
                 <div className="flex-shrink-0">
                   <HelpCircle className="h-5 w-5 text-amber-600 dark:text-amber-400" />
@@ -493,19 +635,79 @@ export function SubmissionReviewSection({
                     <strong>Review progress:</strong>{' '}
                     {allScoresFilled && hasRecommendation 
                       ? 'All criteria rated! Ready to submit.'
-                      : `Rate all ${4 - [newReview.contentScore, newReview.presentationScore, newReview.relevanceScore, newReview.overallScore].filter(s => s > 0).length} remaining criteria and select a recommendation`
+                      : `Rate all ${remainingScores} remaining criteria and select a recommendation`
                     }
                   </p>
                 </div>
               </div>
             )}
             
+            {/* Vote */}
+            {isVoting && (
+              <div className="space-y-3">
+                <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+                  <Vote className="h-4 w-4 text-blue-500" />
+                  Your Vote
+                  {!hasVote && (
+                    <Badge variant="outline" className="text-amber-600 border-amber-300 ml-2">
+                      Required
+                    </Badge>
+                  )}
+                </h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {voteOptions.map((opt) => {
+                    const Icon = opt.icon;
+                    const isSelected = newReview.vote === opt.value;
+                    return (
+                      <button
+                        key={opt.value}
+                        type="button"
+                        onClick={() => setNewReview({ ...newReview, vote: opt.value })}
+                        className={`p-4 rounded-xl border-2 text-center transition-all duration-200 ${
+                          isSelected 
+                            ? `${opt.color} text-white border-transparent shadow-lg scale-105` 
+                            : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-800'
+                        }`}
+                      >
+                        <Icon className={`h-6 w-6 mx-auto mb-1 ${isSelected ? 'text-white' : 'text-slate-500'}`} />
+                        <span className="text-sm font-semibold block">{opt.label}</span>
+                        <span className={`text-xs block ${isSelected ? 'text-white/80' : 'text-slate-500'}`}>
+                          {opt.description}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {!isVoting && (
+            <>
             {/* Scoring Criteria */}
             <div className="space-y-4">
               <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2">
                 <Star className="h-4 w-4 text-amber-500" />
                 Scoring Criteria
+                {usesCriteria && weightedPreview !== null && (
+                  <Badge variant="outline" className="ml-auto">
+                    Weighted total: {weightedPreview.toFixed(1)}/5
+                  </Badge>
+                )}
               </h3>
+              {usesCriteria ? (
+              <div className="grid gap-4 md:grid-cols-2">
+                {criteria.map((criterion) => (
+                  <ScoreSelector
+                    key={criterion.id}
+                    value={criterionValues[criterion.id] ?? 0}
+                    onChange={(v) => setCriterionValues({ ...criterionValues, [criterion.id]: v })}
+                    label={criterion.name}
+                    description={criterion.description || ''}
+                    weight={criterion.weight}
+                  />
+                ))}
+              </div>
+              ) : (
               <div className="grid gap-4 md:grid-cols-2">
                 <ScoreSelector
                   value={newReview.contentScore}
@@ -532,6 +734,7 @@ export function SubmissionReviewSection({
                   description={scoringCriteria.overall.description}
                 />
               </div>
+              )}
             </div>
 
             <Separator />
@@ -569,6 +772,8 @@ export function SubmissionReviewSection({
                 })}
               </div>
             </div>
+            </>
+            )}
 
             <Separator />
 
@@ -612,12 +817,14 @@ export function SubmissionReviewSection({
             <div className="flex items-center gap-3 pt-4 border-t">
               <Button 
                 onClick={handleSubmitReview} 
-                disabled={api.isLoading || !allScoresFilled || !hasRecommendation}
+                disabled={api.isLoading || !canSubmitReview}
                 size="lg"
                 className="gap-2"
               >
                 {api.isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
-                {hasExistingReview ? 'Update Review' : 'Submit Review'}
+                {isVoting
+                  ? (hasExistingReview ? 'Update Vote' : 'Submit Vote')
+                  : (hasExistingReview ? 'Update Review' : 'Submit Review')}
               </Button>
               <Button 
                 variant="outline" 
@@ -629,11 +836,16 @@ export function SubmissionReviewSection({
               >
                 Cancel
               </Button>
-              {!allScoresFilled && (
+              {!isVoting && !allScoresFilled && (
                 <span className="text-sm text-amber-600 dark:text-amber-400">
                   Please rate all criteria to submit
                 </span>
               )}
+              {isVoting && !hasVote && (
+                <span className="text-sm text-amber-600 dark:text-amber-400">
+                  Please choose yes, no or abstain to submit
+                </span>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -644,20 +856,16 @@ export function SubmissionReviewSection({
         <Card className="border-2 border-blue-500">
           <CardHeader className="pb-2">
             <div className="flex items-center justify-between">
-              <CardTitle className="text-base">Your Review</CardTitle>
+              <CardTitle className="text-base">{isVoting ? 'Your Vote' : 'Your Review'}</CardTitle>
               <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
-                Edit Review
+                {isVoting ? 'Change Vote' : 'Edit Review'}
               </Button>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Scores with bar chart */}
             {(() => {
-              const userScores: Record<string, number> = {};
-              if (userReview.contentScore) userScores['Content'] = userReview.contentScore;
-              if (userReview.presentationScore) userScores['Presentation'] = userReview.presentationScore;
-              if (userReview.relevanceScore) userScores['Relevance'] = userReview.relevanceScore;
-              if (userReview.overallScore) userScores['Overall'] = userReview.overallScore;
+              const userScores = getReviewScores(userReview);
               
               return Object.keys(userScores).length > 0 ? (
                 <div>
@@ -671,6 +879,16 @@ export function SubmissionReviewSection({
               ) : null;
             })()}
 
+            {/* Vote */}
+            {userReview.vote && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Vote:</span>
+                <Badge className={`${voteLabels[userReview.vote]?.color} text-white`}>
+                  {voteLabels[userReview.vote]?.label}
+                </Badge>
+              </div>
+            )}
+
             {/* Recommendation */}
             {userReview.recommendation && (
               <div className="flex items-center gap-2">
@@ -712,15 +930,13 @@ export function SubmissionReviewSection({
           </div>
           {otherReviews.map((review) => {
             // Build scores object for the bar chart
-            const reviewScores: Record<string, number> = {};
-            if (review.contentScore) reviewScores['Content'] = review.contentScore;
-            if (review.presentationScore) reviewScores['Presentation'] = review.presentationScore;
-            if (review.relevanceScore) reviewScores['Relevance'] = review.relevanceScore;
-            if (review.overallScore) reviewScores['Overall'] = review.overallScore;
+            const reviewScores = getReviewScores(review);
 
-            // Use the overall score directly instead of calculating an average
+            // Use the review's own total (weighted when scored against criteria)
             // This ensures consistency between the badge display and the criteria breakdown
-            const avgScore = review.overallScore ?? null;
+            const avgScore = review.weightedScore != null
+              ? Math.round(review.weightedScore * 10) / 10
+              : review.overallScore ?? null;
             
             return (
               <Card key={review.id} className="overflow-hidden">
@@ -755,6 +971,11 @@ export function SubmissionReviewSection({
                           {avgScore}/5
                         </Badge>
                       )}
+                      {review.vote && (
+                        <Badge className={`${voteLabels[review.vote]?.color} text-white`}>
+                          {voteLabels[review.vote]?.label}
+                        </Badge>
+                      )}
                       {review.recommendation && (
                         <Badge className={`${recommendationLabels[review.recommendation]?.color} text-white`}>
                           {recommendationLabels[review.recommendation]?.label}
@@ -906,7 +1127,7 @@ export function SubmissionReviewSection({
                     </div>
                   )}
 
-                  {!review.privateNotes && !review.publicNotes && Object.keys(reviewScores).length === 0 && (
+                  {!review.privateNotes && !review.publicNotes && !review.vote && Object.keys(reviewScores).length === 0 && (
                     <p className="text-sm text-muted-foreground">No review notes provided.</p>
                   )}
                 </CardContent>
@@ -917,7 +1138,7 @@ export function SubmissionReviewSection({
       )}
 
       {/* Empty State */}
-      {reviews.length === 0 && !isAddingReview && !userReview && (
+      {!isRanking && reviews.length === 0 && !isAddingReview && !userReview && (
         <div className="text-center py-8 text-muted-foreground">
           <HelpCircle className="h-12 w-12 mx-auto mb-4 text-slate-300" />
           <p>No reviews yet. Be the first to review this submission!</p>
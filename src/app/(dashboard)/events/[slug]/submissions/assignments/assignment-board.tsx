@@ -0,0 +1,462 @@
+'use client';
+
+/**
+ * Assignment Board (Client Component)
+ *
+ * Shows the generated reviewer assignment for each open submission next to
+ * what is already saved. Organizers can drop or add proposed reviewers
+ * before committing; reviewers with a conflict of interest cannot be picked.
+ */
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertTriangle,
+  Check,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  Save,
+  Sparkles,
+  UserCheck,
+  X,
+} from 'lucide-react';
+
+type ConflictReason = 'SPEAKER' | 'SAME_COMPANY' | 'DECLARED';
+
+interface PreviewReviewer {
+  id: string;
+  name: string;
+  expertiseAreas: string[];
+  hoursPerWeek: string | null;
+  currentLoad: number;
+}
+
+interface PreviewSubmission {
+  id: string;
+  title: string;
+  topics: string[];
+  reviewedBy: string[];
+  assignedTo: string[];
+}
+
+interface AssignmentPreviewData {
+  minReviews: number;
+  reviewers: PreviewReviewer[];
+  submissions: PreviewSubmission[];
+  plan: {
+    assignments: Array<{ submissionId: string; reviewerId: string; matchedExpertise: string[] }>;
+    conflicts: Array<{ submissionId: string; reviewerId: string; reason: ConflictReason }>;
+    unfilled: Array<{ submissionId: string; missing: number }>;
+    load: Array<{ reviewerId: string; currentLoad: number; proposed: number; capacityHours: number }>;
+  };
+}
+
+interface SavedAssignment {
+  id: string;
+  submissionId: string;
+  reviewerId: string;
+  reviewerName: string;
+  isAutomatic: boolean;
+  isReviewed: boolean;
+}
+
+interface ProposedPair {
+  submissionId: string;
+  reviewerId: string;
+  isAutomatic: boolean;
+  matchedExpertise: string[];
+}
+
+interface AssignmentBoardProps {
+  eventId: string;
+  eventSlug: string;
+  initialPreview: AssignmentPreviewData;
+  initialAssignments: SavedAssignment[];
+}
+
+const conflictLabels: Record<ConflictReason, string> = {
+  SPEAKER: 'Speaker',
+  SAME_COMPANY: 'Same company',
+  DECLARED: 'Declared conflict',
+};
+
+function proposalFromPlan(preview: AssignmentPreviewData): ProposedPair[] {
+  return preview.plan.assignments.map(a => ({ ...a, isAutomatic: true }));
+}
+
+export function AssignmentBoard({
+  eventId,
+  eventSlug,
+  initialPreview,
+  initialAssignments,
+}: AssignmentBoardProps) {
+  const previewApi = useApi<AssignmentPreviewData>();
+  const assignmentsApi = useApi<SavedAssignment[]>();
+  const mutationApi = useApi();
+  const [preview, setPreview] = useState(initialPreview);
+  const [saved, setSaved] = useState(initialAssignments);
+  const [proposed, setProposed] = useState(() => proposalFromPlan(initialPreview));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const reviewersById = useMemo(
+    () => new Map(preview.reviewers.map(r => [r.id, r])),
+    [preview.reviewers]
+  );
+
+  const conflicts = useMemo(
+    () => new Map(preview.plan.conflicts.map(c => [`${c.submissionId}:${c.reviewerId}`, c.reason])),
+    [preview.plan.conflicts]
+  );
+
+  const capacityById = useMemo(
+    () => new Map(preview.plan.load.map(l => [l.reviewerId, l.capacityHours])),
+    [preview.plan.load]
+  );
+
+  const reviewerName = (reviewerId: string) =>
+    reviewersById.get(reviewerId)?.name ?? 'Unknown reviewer';
+
+  const coverage = (submission: PreviewSubmission) =>
+    new Set([
+      ...submission.reviewedBy,
+      ...saved.filter(a => a.submissionId === submission.id).map(a => a.reviewerId),
+      ...proposed.filter(p => p.submissionId === submission.id).map(p => p.reviewerId),
+    ]);
+
+  const refresh = async () => {
+    const [previewResult, assignmentsResult] = await Promise.all([
+      previewApi.get(`/api/events/${eventId}/assignments/preview`),
+      assignmentsApi.get(`/api/events/${eventId}/assignments`),
+    ]);
+
+    if (previewResult.data) {
+      setPreview(previewResult.data);
+      setProposed(proposalFromPlan(previewResult.data));
+      setIsDirty(false);
+    }
+    if (assignmentsResult.data) {
+      setSaved(assignmentsResult.data);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (isDirty && !confirm('Regenerating discards your changes to the proposal. Continue?')) {
+      return;
+    }
+    await refresh();
+  };
+
+  const handleRemoveProposed = (pair: ProposedPair) => {
+    setProposed(current => current.filter(
+      p => !(p.submissionId === pair.submissionId && p.reviewerId === pair.reviewerId)
+    ));
+    setIsDirty(true);
+  };
+
+  const handleAddProposed = (submissionId: string, reviewerId: string) => {
+    setProposed(current => [
+      ...current,
+      { submissionId, reviewerId, isAutomatic: false, matchedExpertise: [] },
+    ]);
+    setIsDirty(true);
+  };
+
+  const handleRemoveSaved = async (assignment: SavedAssignment) => {
+    const { error } = await mutationApi.delete(
+      `/api/events/${eventId}/assignments/${assignment.id}`
+    );
+
+    if (!error) {
+      setSaved(current => current.filter(a => a.id !== assignment.id));
+      if (!assignment.isReviewed) {
+        setPreview(current => ({
+          ...current,
+          reviewers: current.reviewers.map(r =>
+            r.id === assignment.reviewerId ? { ...r, currentLoad: Math.max(0, r.currentLoad - 1) } : r
+          ),
+        }));
+      }
+      toast.success(`Removed ${assignment.reviewerName}`);
+    }
+  };
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+
+    const { error } = await mutationApi.post(`/api/events/${eventId}/assignments`, {
+      assignments: proposed.map(({ submissionId, reviewerId, isAutomatic }) => ({
+        submissionId,
+        reviewerId,
+        isAutomatic,
+      })),
+    });
+
+    if (!error) {
+      toast.success(`Saved ${proposed.length} assignment${proposed.length === 1 ? '' : 's'}`);
+      await refresh();
+    }
+
+    setIsCommitting(false);
+  };
+
+  const proposedCount = new Map<string, number>();
+  for (const pair of proposed) {
+    proposedCount.set(pair.reviewerId, (proposedCount.get(pair.reviewerId) ?? 0) + 1);
+  }
+
+  const unfilledCount = preview.submissions.filter(
+    s => coverage(s).size < preview.minReviews
+  ).length;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_280px]">
+      <div className="space-y-4">
+        {/* Toolbar */}
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant="outline">
+              {proposed.length} proposed
+            </Badge>
+            {unfilledCount > 0 && (
+              <Badge variant="outline" className="text-amber-600 border-amber-300">
+                {unfilledCount} below minimum
+              </Badge>
+            )}
+            {isDirty && (
+              <Badge variant="outline" className="text-blue-600 border-blue-300">
+                Edited
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={handleRegenerate}
+              disabled={previewApi.isLoading || isCommitting}
+              className="gap-2"
+            >
+              {previewApi.isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              Regenerate
+            </Button>
+            <Button
+              onClick={handleCommit}
+              disabled={isCommitting || proposed.length === 0}
+              className="gap-2"
+            >
+              {isCommitting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4" />
+              )}
+              Commit Assignments
+            </Button>
+          </div>
+        </div>
+
+        {preview.reviewers.length === 0 && (
+          <Card>
+            <CardContent className="flex items-center gap-3 py-4 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              This event has no review team yet. Add reviewers in the event settings first.
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Submissions */}
+        {preview.submissions.length > 0 ? (
+          <div className="space-y-3">
+            {preview.submissions.map((submission) => {
+              const covered = coverage(submission);
+              const savedForSubmission = saved.filter(a => a.submissionId === submission.id);
+              const proposedForSubmission = proposed.filter(p => p.submissionId === submission.id);
+              const submissionConflicts = preview.plan.conflicts.filter(c => c.submissionId === submission.id);
+              const addable = preview.reviewers.filter(r => !covered.has(r.id));
+
+              return (
+                <Card key={submission.id}>
+                  <CardContent className="pt-4 space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                            {submission.title}
+                          </span>
+                          <Link
+                            href={`/events/${eventSlug}/submissions/${submission.id}`}
+                            target="_blank"
+                            className="p-1 text-slate-400 hover:text-blue-500"
+                            title="Open submission"
+                          >
+                            <ExternalLink className="h-3.5 w-3.5" />
+                          </Link>
+                        </div>
+                        {submission.topics.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {submission.topics.map(topic => (
+                              <Badge key={topic} variant="secondary" className="text-xs">
+                                {topic}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          'shrink-0',
+                          covered.size < preview.minReviews
+                            ? 'text-amber-600 border-amber-300'
+                            : 'text-green-600 border-green-300'
+                        )}
+                      >
+                        {covered.size} / {preview.minReviews}
+                      </Badge>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {savedForSubmission.map(assignment => (
+                        <Badge key={assignment.id} variant="secondary" className="gap-1">
+                          {assignment.isReviewed ? (
+                            <Check className="h-3 w-3 text-green-600" />
+                          ) : (
+                            <UserCheck className="h-3 w-3" />
+                          )}
+                          {assignment.reviewerName}
+                          {!assignment.isReviewed && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveSaved(assignment)}
+                              disabled={mutationApi.isLoading}
+                              className="ml-1 hover:text-red-600"
+                              aria-label={`Remove ${assignment.reviewerName}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </Badge>
+                      ))}
+
+                      {proposedForSubmission.map(pair => (
+                        <Badge
+                          key={pair.reviewerId}
+                          variant="outline"
+                          className="gap-1 border-dashed border-blue-300 text-blue-700 dark:text-blue-300"
+                          title={pair.matchedExpertise.length > 0
+                            ? `Expertise: ${pair.matchedExpertise.join(', ')}`
+                            : undefined}
+                        >
+                          {pair.isAutomatic && <Sparkles className="h-3 w-3" />}
+                          {reviewerName(pair.reviewerId)}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveProposed(pair)}
+                            className="ml-1 hover:text-red-600"
+                            aria-label={`Remove ${reviewerName(pair.reviewerId)}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+
+                      {addable.length > 0 && (
+                        <Select
+                          value=""
+                          onValueChange={(reviewerId) => handleAddProposed(submission.id, reviewerId)}
+                        >
+                          <SelectTrigger className="h-7 w-[170px] text-xs">
+                            <SelectValue placeholder="Add reviewer" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {addable.map(reviewer => {
+                              const conflict = conflicts.get(`${submission.id}:${reviewer.id}`);
+                              return (
+                                <SelectItem key={reviewer.id} value={reviewer.id} disabled={!!conflict}>
+                                  {reviewer.name}
+                                  {conflict && ` (${conflictLabels[conflict]})`}
+                                </SelectItem>
+                              );
+                            })}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+
+                    {submissionConflicts.length > 0 && (
+                      <p className="text-xs text-slate-500">
+                        Excluded:{' '}
+                        {submissionConflicts
+                          .map(c => `${reviewerName(c.reviewerId)} (${conflictLabels[c.reason].toLowerCase()})`)
+                          .join(', ')}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <UserCheck className="h-8 w-8 text-slate-400 mb-3" />
+              <p className="text-sm text-slate-500">
+                There are no open submissions to assign
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Reviewer load */}
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle className="text-base">Reviewer Load</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {preview.reviewers.map(reviewer => {
+            const extra = proposedCount.get(reviewer.id) ?? 0;
+            return (
+              <div key={reviewer.id} className="text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-slate-900 dark:text-white truncate">
+                    {reviewer.name}
+                  </span>
+                  <span className="text-slate-600 dark:text-slate-400 shrink-0">
+                    {reviewer.currentLoad}
+                    {extra > 0 && <span className="text-blue-600"> +{extra}</span>}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500">
+                  ~{capacityById.get(reviewer.id) ?? 0}h/week
+                  {reviewer.expertiseAreas.length > 0 && ` · ${reviewer.expertiseAreas.join(', ')}`}
+                </p>
+              </div>
+            );
+          })}
+          {preview.reviewers.length === 0 && (
+            <p className="text-sm text-slate-500">No reviewers</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Reviewer Assignments Page
+ *
+ * Organizers generate a per-submission reviewer assignment that meets the
+ * event's minimum reviews per talk, adjust it, and commit it.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import {
+  previewReviewAssignments,
+  summarizeAssignmentPreview,
+  getEventAssignments,
+} from '@/lib/reviews';
+import { AssignmentBoard } from './assignment-board';
+
+interface AssignmentsPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: AssignmentsPageProps) {
+  const { slug } = await params;
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: { name: true },
+  });
+
+  return {
+    title: event ? `${event.name} Reviewer Assignments` : 'Reviewer Assignments',
+  };
+}
+
+export default async function AssignmentsPage({ params }: AssignmentsPageProps) {
+  const { slug } = await params;
+  const user = await getCurrentUser();
+  const userRole = user.role as string;
+
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      name: true,
+      reviewTeam: {
+        where: { userId: user.id },
+        select: { role: true },
+      },
+    },
+  });
+
+  if (!event) {
+    notFound();
+  }
+
+  // Same rule as canManageEvent: admins, or organizers leading the review team
+  const canManage = userRole === 'ADMIN' ||
+    (userRole === 'ORGANIZER' && event.reviewTeam[0]?.role === 'LEAD');
+
+  if (!canManage) {
+    redirect(`/events/${slug}/submissions`);
+  }
+
+  const [preview, assignments] = await Promise.all([
+    previewReviewAssignments(event.id),
+    getEventAssignments(event.id),
+  ]);
+
+  if (!preview) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href={`/events/${slug}/submissions`}
+          className="text-sm text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white mb-2 inline-block"
+        >
+          ← Back to Submissions
+        </Link>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Reviewer Assignments
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          {event.name} · At least {preview.minReviews} reviewer{preview.minReviews === 1 ? '' : 's'} per submission
+        </p>
+      </div>
+
+      <AssignmentBoard
+        eventId={event.id}
+        eventSlug={slug}
+        initialPreview={summarizeAssignmentPreview(preview)}
+        initialAssignments={assignments.map(a => ({
+          id: a.id,
+          submissionId: a.submissionId,
+          reviewerId: a.reviewerId,
+          reviewerName: a.reviewerName,
+          isAutomatic: a.isAutomatic,
+          isReviewed: a.isReviewed,
+        }))}
+      />
+    </div>
+  );
+}
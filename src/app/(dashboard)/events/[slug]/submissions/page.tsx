@@ -2,6 +2,9 @@
  * Event Submissions Page
  * 
  * Lists all submissions for an event (for organizers/reviewers).
+ * Can be sorted by review result, following the event's review mode.
+ * Organizers of scoring events can switch to normalized scores, and see
+ * which submissions their reviewers strongly disagree on.
  */
 
 import { prisma } from '@/lib/db/prisma';
@@ -26,13 +29,43 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import Link from 'next/link';
-import { FileText, Search, ChevronRight, Star, MessageSquare } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FileText, Search, ChevronRight, Star, MessageSquare, Vote, ListOrdered, UserCheck, Download, Scale, AlertTriangle } from 'lucide-react';
 import { format } from 'date-fns';
 import type { SubmissionStatus } from '@prisma/client';
+import {
+  getReviewMode,
+  aggregateSubmission,
+  compareAggregates,
+  averageReviewScore,
+  getEventRankingStandings,
+  getEventScoreCalibration,
+  formatNormalizedScore,
+  ANONYMOUS_SPEAKER_NAME,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  redactCoSpeakers,
+  logIdentityReveal,
+} from '@/lib/reviews';
+import {
+  getConfirmationState,
+  CONFIRMATION_STATE_LABELS,
+  type ConfirmationState,
+} from '@/lib/confirmations/state';
+import {
+  SubmissionSelectionProvider,
+  SubmissionSelectCheckbox,
+  SubmissionBulkToolbar,
+} from './submission-bulk-actions';
 
 interface EventSubmissionsPageProps {
   params: Promise<{ slug: string }>;
-  searchParams: Promise<{ status?: string; trackId?: string; q?: string }>;
+  searchParams: Promise<{ status?: string; trackId?: string; q?: string; sort?: string; normalized?: string }>;
 }
 
 const statusColors: Record<string, string> = {
@@ -53,6 +86,20 @@ const statusLabels: Record<string, string> = {
   WITHDRAWN: 'Withdrawn',
 };
 
+const confirmationColors: Record<ConfirmationState, string> = {
+  PENDING: 'border-sky-300 text-sky-700 dark:border-sky-700 dark:text-sky-300',
+  OVERDUE: 'border-red-300 text-red-700 dark:border-red-700 dark:text-red-300',
+  CONFIRMED: 'border-green-300 text-green-700 dark:border-green-700 dark:text-green-300',
+  DECLINED: 'border-slate-300 text-slate-600 dark:border-slate-700 dark:text-slate-400',
+  EXPIRED: 'border-red-300 text-red-700 dark:border-red-700 dark:text-red-300',
+};
+
+const sortLabels: Record<string, string> = {
+  scoring: 'Highest score',
+  voting: 'Most approved',
+  ranking: 'Best ranked',
+};
+
 const validStatuses: SubmissionStatus[] = ['PENDING', 'UNDER_REVIEW', 'ACCEPTED', 'REJECTED', 'WAITLISTED', 'WITHDRAWN'];
 
 export async function generateMetadata({ params }: EventSubmissionsPageProps) {
@@ -69,7 +116,7 @@ export async function generateMetadata({ params }: EventSubmissionsPageProps) {
 
 export default async function EventSubmissionsPage({ params, searchParams }: EventSubmissionsPageProps) {
   const { slug } = await params;
-  const { status, trackId, q: searchQuery } = await searchParams;
+  const { status, trackId, q: searchQuery, sort, normalized } = await searchParams;
   const user = await getCurrentUser();
   const userRole = user.role as string;
   
@@ -79,6 +126,9 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
       tracks: {
         orderBy: { name: 'asc' },
       },
+      formats: {
+        orderBy: { name: 'asc' },
+      },
       reviewTeam: {
         where: { userId: user.id },
         select: { role: true },
@@ -95,11 +145,17 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
   const isReviewerRole = userRole === 'REVIEWER';
   const isReviewerOnTeam = event.reviewTeam.length > 0;
   const canView = isOrganizerUser || isReviewerRole || isReviewerOnTeam;
+  // Same rule as canManageEvent: admins, or organizers leading the review team
+  const canManage = userRole === 'ADMIN' ||
+    (userRole === 'ORGANIZER' && event.reviewTeam[0]?.role === 'LEAD');
   
   if (!canView) {
     redirect(`/events/${slug}`);
   }
   
+  // Blind review: reviewers see anonymous speakers
+  const anonymity = resolveAnonymityView(getReviewAnonymity(event.reviewAnonymity), user);
+  
   // Build query with proper typing
   const where: {
     eventId: string;
@@ -127,7 +183,10 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
     where.OR = [
       { title: { contains: searchQuery, mode: 'insensitive' } },
       { abstract: { contains: searchQuery, mode: 'insensitive' } },
-      { speaker: { name: { contains: searchQuery, mode: 'insensitive' } } },
+      // Searching by speaker name would let reviewers unmask blind submissions
+      ...(anonymity.hideSpeaker
+        ? []
+        : [{ speaker: { name: { contains: searchQuery, mode: 'insensitive' as const } } }]),
     ];
   }
   
@@ -164,9 +223,14 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
         select: {
           id: true,
           overallScore: true,
+          weightedScore: true,
           recommendation: true,
+          vote: true,
         },
       },
+      confirmation: {
+        select: { status: true, deadline: true },
+      },
       _count: {
         select: {
           messages: true,
@@ -176,8 +240,44 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
     orderBy: { createdAt: 'desc' },
   });
   
+  const reviewMode = getReviewMode(event.reviewType);
+  const rankingStandings = reviewMode === 'ranking'
+    ? await getEventRankingStandings(event.id)
+    : null;
+  // Calibration compares reviewers with each other, so only organizers see it
+  const calibration = isOrganizerUser && reviewMode === 'scoring'
+    ? await getEventScoreCalibration(event.id)
+    : null;
+  const showNormalized = calibration !== null && normalized === 'true';
+  
+  await logIdentityReveal(anonymity, {
+    entityType: 'Event',
+    entityId: event.id,
+    eventId: event.id,
+    scope: 'submission-list',
+    count: submissions.length,
+  });
+  
   // Decrypt speaker information
   const decryptedSubmissions = submissions.map((submission) => {
+    if (anonymity.hideSpeaker) {
+      return {
+        ...submission,
+        decryptedSpeaker: {
+          name: ANONYMOUS_SPEAKER_NAME,
+          email: null,
+          image: null,
+          company: '',
+          position: '',
+        },
+        decryptedCoSpeakers: redactCoSpeakers(submission.coSpeakers),
+        aggregate: aggregateSubmission(reviewMode, {
+          reviews: submission.reviews,
+          standing: rankingStandings?.get(submission.id),
+        }),
+      };
+    }
+    
     const decryptedUser = decryptPiiFields(
       submission.speaker as unknown as Record<string, unknown>,
       USER_PII_FIELDS
@@ -224,9 +324,37 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
         position: speakerPosition,
       },
       decryptedCoSpeakers,
+      aggregate: aggregateSubmission(reviewMode, {
+        reviews: submission.reviews,
+        standing: rankingStandings?.get(submission.id),
+      }),
     };
   });
   
+  if (sort === 'score' && showNormalized) {
+    // Unscored submissions go last
+    const normalizedScore = (submissionId: string) =>
+      calibration?.get(submissionId)?.normalizedScore ?? null;
+    decryptedSubmissions.sort((a, b) => {
+      const scoreA = normalizedScore(a.id);
+      const scoreB = normalizedScore(b.id);
+      if (scoreA === null || scoreB === null) return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+      return scoreB - scoreA;
+    });
+  } else if (sort === 'score') {
+    decryptedSubmissions.sort((a, b) => compareAggregates(a.aggregate, b.aggregate));
+  }
+  
+  // Exports honour the current filters
+  const exportHref = (fileFormat: 'csv' | 'xlsx' | 'json') => {
+    const query = new URLSearchParams({ format: fileFormat });
+    if (where.status) query.set('status', where.status);
+    if (trackId) query.set('trackId', trackId);
+    if (searchQuery) query.set('search', searchQuery);
+    if (showNormalized) query.set('normalized', 'true');
+    return `/api/events/${event.id}/submissions/export?${query.toString()}`;
+  };
+  
   // Calculate stats
   const stats = {
     total: decryptedSubmissions.length,
@@ -250,9 +378,48 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
         <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
           Submissions
         </h1>
-        <p className="text-slate-600 dark:text-slate-400 mt-1">
-          {event.name}
-        </p>
+        <div className="flex items-center justify-between gap-4 flex-wrap mt-1">
+          <p className="text-slate-600 dark:text-slate-400">
+            {event.name}
+          </p>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={exportHref('xlsx')}>Excel (.xlsx)</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportHref('csv')}>CSV</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportHref('json')}>JSON</a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {canManage && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/events/${slug}/submissions/assignments`}>
+                  <UserCheck className="h-4 w-4 mr-2" />
+                  Assign Reviewers
+                </Link>
+              </Button>
+            )}
+            {reviewMode === 'ranking' && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/events/${slug}/submissions/ranking`}>
+                  <ListOrdered className="h-4 w-4 mr-2" />
+                  Ranking Board
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
       </div>
       
       {/* Stats */}
@@ -331,6 +498,28 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
           </Select>
         )}
         
+        <Select name="sort" defaultValue={sort === 'score' ? 'score' : 'newest'}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest first</SelectItem>
+            <SelectItem value="score">{sortLabels[reviewMode]}</SelectItem>
+          </SelectContent>
+        </Select>
+        
+        {calibration && (
+          <Select name="normalized" defaultValue={showNormalized ? 'true' : 'false'}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Scores" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="false">Raw scores</SelectItem>
+              <SelectItem value="true">Normalized scores</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        
         <Button type="submit" variant="secondary">
           Filter
         </Button>
@@ -338,166 +527,225 @@ export default async function EventSubmissionsPage({ params, searchParams }: Eve
       
       {/* Submissions List */}
       {decryptedSubmissions.length > 0 ? (
-        <div className="space-y-3">
-          {decryptedSubmissions.map((submission) => {
-            const avgScore = submission.reviews.length > 0
-              ? submission.reviews.reduce((sum, r) => sum + (r.overallScore || 0), 0) / submission.reviews.length
-              : null;
-            
-            const speakerInitials = submission.decryptedSpeaker.name
-              .split(' ')
-              .map(n => n[0])
-              .join('')
-              .toUpperCase()
-              .slice(0, 2);
-            
-            // Determine border color based on status
-            const borderColor = {
-              ACCEPTED: 'border-l-green-500',
-              REJECTED: 'border-l-red-500',
-              WAITLISTED: 'border-l-purple-500',
-              PENDING: 'border-l-amber-500',
-              UNDER_REVIEW: 'border-l-blue-500',
-              WITHDRAWN: 'border-l-slate-400',
-            }[submission.status] || 'border-l-slate-400';
-            
-            // Score color based on value
-            const getScoreColor = (score: number | null) => {
-              if (score === null) return 'text-slate-400';
-              if (score >= 4) return 'text-green-600 dark:text-green-400';
-              if (score >= 3) return 'text-amber-600 dark:text-amber-400';
-              return 'text-red-600 dark:text-red-400';
-            };
-            
-            return (
-              <Link
-                key={submission.id}
-                href={`/events/${slug}/submissions/${submission.id}`}
-                className="block group"
-              >
-                <Card className={`hover:shadow-lg transition-all duration-200 hover:-translate-y-0.5 border-l-4 ${borderColor}`}>
-                  <CardContent className="p-4">
-                    <div className="flex items-start gap-4">
-                      {/* Speaker Avatar */}
-                      <Avatar className="h-10 w-10 flex-shrink-0">
-                        <AvatarImage src={submission.decryptedSpeaker.image || undefined} />
-                        <AvatarFallback className="bg-slate-100 dark:bg-slate-700 text-sm">
-                          {speakerInitials}
-                        </AvatarFallback>
-                      </Avatar>
-                      
-                      {/* Content */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between gap-4">
+        <SubmissionSelectionProvider>
+          {canManage && (
+            <SubmissionBulkToolbar
+              eventId={event.id}
+              submissionIds={decryptedSubmissions.map(s => s.id)}
+              tracks={event.tracks.map(track => ({ id: track.id, name: track.name }))}
+              formats={event.formats.map(eventFormat => ({ id: eventFormat.id, name: eventFormat.name }))}
+            />
+          )}
+          <div className="space-y-3">
+            {decryptedSubmissions.map((submission) => {
+              // Weighted criteria total when reviews were scored per criterion
+              const avgScore = averageReviewScore(submission.reviews);
+              const submissionCalibration = calibration?.get(submission.id);
+              
+              const speakerInitials = submission.decryptedSpeaker.name
+                .split(' ')
+                .map(n => n[0])
+                .join('')
+                .toUpperCase()
+                .slice(0, 2);
+              
+              // Determine border color based on status
+              const borderColor = {
+                ACCEPTED: 'border-l-green-500',
+                REJECTED: 'border-l-red-500',
+                WAITLISTED: 'border-l-purple-500',
+                PENDING: 'border-l-amber-500',
+                UNDER_REVIEW: 'border-l-blue-500',
+                WITHDRAWN: 'border-l-slate-400',
+              }[submission.status] || 'border-l-slate-400';
+              
+              // Score color based on value
+              const getScoreColor = (score: number | null) => {
+                if (score === null) return 'text-slate-400';
+                if (score >= 4) return 'text-green-600 dark:text-green-400';
+                if (score >= 3) return 'text-amber-600 dark:text-amber-400';
+                return 'text-red-600 dark:text-red-400';
+              };
+              
+              return (
+                <div key={submission.id} className="flex items-start gap-3">
+                  {canManage && (
+                    <SubmissionSelectCheckbox submissionId={submission.id} title={submission.title} />
+                  )}
+                  <Link
+                    href={`/events/${slug}/submissions/${submission.id}`}
+                    className="block group flex-1 min-w-0"
+                  >
+                    <Card className={`hover:shadow-lg transition-all duration-200 hover:-translate-y-0.5 border-l-4 ${borderColor}`}>
+                      <CardContent className="p-4">
+                        <div className="flex items-start gap-4">
+                          {/* Speaker Avatar */}
+                          <Avatar className="h-10 w-10 flex-shrink-0">
+                            <AvatarImage src={submission.decryptedSpeaker.image || undefined} />
+                            <AvatarFallback className="bg-slate-100 dark:bg-slate-700 text-sm">
+                              {speakerInitials}
+                            </AvatarFallback>
+                          </Avatar>
+                          
+                          {/* Content */}
                           <div className="flex-1 min-w-0">
-                            {/* Title and Status */}
-                            <div className="flex items-center gap-2 mb-1 flex-wrap">
-                              <h3 className="font-semibold text-slate-900 dark:text-white line-clamp-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-                                {submission.title}
-                              </h3>
-                              <Badge className={statusColors[submission.status]}>
-                                {statusLabels[submission.status]}
-                              </Badge>
-                            </div>
-                            
-                            {/* Abstract */}
-                            <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2 mb-2">
-                              {submission.abstract}
-                            </p>
-                            
-                            {/* Speaker Info */}
-                            <div className="flex items-center gap-2 mb-2 flex-wrap">
-                              <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                                {submission.decryptedSpeaker.name}
-                              </span>
-                              {submission.decryptedSpeaker.position && submission.decryptedSpeaker.company && (
-                                <span className="text-xs text-slate-500">
-                                  {submission.decryptedSpeaker.position} at {submission.decryptedSpeaker.company}
-                                </span>
-                              )}
-                              {submission.decryptedCoSpeakers.length > 0 && (
-                                <div className="flex items-center gap-1">
-                                  <span className="text-xs text-slate-500">+</span>
-                                  <div className="flex items-center -space-x-2">
-                                    {submission.decryptedCoSpeakers.slice(0, 3).map((coSpeaker) => {
-                                      const initials = coSpeaker.name
-                                        .split(' ')
-                                        .map(n => n[0])
-                                        .join('')
-                                        .toUpperCase()
-                                        .slice(0, 2);
-                                      return (
-                                        <Avatar key={coSpeaker.id} className="h-6 w-6 border-2 border-white dark:border-slate-800">
-                                          <AvatarImage src={coSpeaker.avatarUrl || undefined} />
-                                          <AvatarFallback className="bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 text-[10px]">
-                                            {initials}
-                                          </AvatarFallback>
-                                        </Avatar>
-                                      );
-                                    })}
-                                  </div>
-                                  <span className="text-xs text-slate-600 dark:text-slate-400 ml-1">
-                                    {submission.decryptedCoSpeakers.map(cs => cs.name).join(', ')}
+                            <div className="flex items-start justify-between gap-4">
+                              <div className="flex-1 min-w-0">
+                                {/* Title and Status */}
+                                <div className="flex items-center gap-2 mb-1 flex-wrap">
+                                  <h3 className="font-semibold text-slate-900 dark:text-white line-clamp-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                                    {submission.title}
+                                  </h3>
+                                  <Badge className={statusColors[submission.status]}>
+                                    {statusLabels[submission.status]}
+                                  </Badge>
+                                  {isOrganizerUser && submission.confirmation && (
+                                    <Badge
+                                      variant="outline"
+                                      className={confirmationColors[getConfirmationState(submission.confirmation)]}
+                                    >
+                                      {CONFIRMATION_STATE_LABELS[getConfirmationState(submission.confirmation)]}
+                                    </Badge>
+                                  )}
+                                  {submissionCalibration?.highDisagreement && (
+                                    <Badge
+                                      variant="outline"
+                                      className="border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-300"
+                                      title={`Reviewer scores spread by ${submissionCalibration.spread?.toFixed(1)}`}
+                                    >
+                                      <AlertTriangle className="h-3 w-3 mr-1" />
+                                      High disagreement
+                                    </Badge>
+                                  )}
+                                </div>
+                                
+                                {/* Abstract */}
+                                <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2 mb-2">
+                                  {submission.abstract}
+                                </p>
+                                
+                                {/* Speaker Info */}
+                                <div className="flex items-center gap-2 mb-2 flex-wrap">
+                                  <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                    {submission.decryptedSpeaker.name}
                                   </span>
+                                  {submission.decryptedSpeaker.position && submission.decryptedSpeaker.company && (
+                                    <span className="text-xs text-slate-500">
+                                      {submission.decryptedSpeaker.position} at {submission.decryptedSpeaker.company}
+                                    </span>
+                                  )}
+                                  {submission.decryptedCoSpeakers.length > 0 && (
+                                    <div className="flex items-center gap-1">
+                                      <span className="text-xs text-slate-500">+</span>
+                                      <div className="flex items-center -space-x-2">
+                                        {submission.decryptedCoSpeakers.slice(0, 3).map((coSpeaker) => {
+                                          const initials = coSpeaker.name
+                                            .split(' ')
+                                            .map(n => n[0])
+                                            .join('')
+                                            .toUpperCase()
+                                            .slice(0, 2);
+                                          return (
+                                            <Avatar key={coSpeaker.id} className="h-6 w-6 border-2 border-white dark:border-slate-800">
+                                              <AvatarImage src={coSpeaker.avatarUrl || undefined} />
+                                              <AvatarFallback className="bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 text-[10px]">
+                                                {initials}
+                                              </AvatarFallback>
+                                            </Avatar>
+                                          );
+                                        })}
+                                      </div>
+                                      <span className="text-xs text-slate-600 dark:text-slate-400 ml-1">
+                                        {submission.decryptedCoSpeakers.map(cs => cs.name).join(', ')}
+                                      </span>
+                                    </div>
+                                  )}
+                                </div>
+                                
+                                {/* Metadata */}
+                                <div className="flex items-center gap-3 flex-wrap">
+                                  {submission.track && (
+                                    <Badge 
+                                      variant="outline" 
+                                      className="text-xs"
+                                      style={{ 
+                                        borderColor: submission.track.color || undefined,
+                                        backgroundColor: submission.track.color ? `${submission.track.color}20` : undefined,
+                                      }}
+                                    >
+                                      {submission.track.name}
+                                    </Badge>
+                                  )}
+                                  {submission.format && (
+                                    <span className="text-xs text-slate-500">
+                                      {submission.format.name}
+                                    </span>
+                                  )}
+                                  <span className="text-xs text-slate-500">
+                                    {format(submission.createdAt, 'MMM d, yyyy')}
+                                  </span>
+                                  {submission._count.messages > 0 && (
+                                    <span className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
+                                      <MessageSquare className="h-3 w-3" />
+                                      {submission._count.messages}
+                                    </span>
+                                  )}
                                 </div>
-                              )}
-                            </div>
-                            
-                            {/* Metadata */}
-                            <div className="flex items-center gap-3 flex-wrap">
-                              {submission.track && (
-                                <Badge 
-                                  variant="outline" 
-                                  className="text-xs"
-                                  style={{ 
-                                    borderColor: submission.track.color || undefined,
-                                    backgroundColor: submission.track.color ? `${submission.track.color}20` : undefined,
-                                  }}
-                                >
-                                  {submission.track.name}
-                                </Badge>
-                              )}
-                              {submission.format && (
-                                <span className="text-xs text-slate-500">
-                                  {submission.format.name}
-                                </span>
-                              )}
-                              <span className="text-xs text-slate-500">
-                                {format(submission.createdAt, 'MMM d, yyyy')}
-                              </span>
-                              {submission._count.messages > 0 && (
-                                <span className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
-                                  <MessageSquare className="h-3 w-3" />
-                                  {submission._count.messages}
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                          
-                          {/* Score Column */}
-                          <div className="flex items-center gap-3 flex-shrink-0">
-                            <div className="text-right">
-                              <div className={`flex items-center gap-1 ${getScoreColor(avgScore)}`}>
-                                <Star className={`h-4 w-4 ${avgScore !== null && avgScore >= 4 ? 'fill-current' : ''}`} />
-                                <span className="font-semibold text-lg">
-                                  {avgScore !== null ? avgScore.toFixed(1) : '-'}
-                                </span>
                               </div>
-                              <p className="text-xs text-slate-500">
-                                {submission.reviews.length} review{submission.reviews.length !== 1 ? 's' : ''}
-                              </p>
+                              
+                              {/* Score Column */}
+                              <div className="flex items-center gap-3 flex-shrink-0">
+                                {reviewMode !== 'scoring' ? (
+                                <div className="text-right">
+                                  <div className={`flex items-center gap-1 ${submission.aggregate.sortValue === null ? 'text-slate-400' : 'text-slate-900 dark:text-white'}`}>
+                                    {reviewMode === 'voting' ? <Vote className="h-4 w-4" /> : <ListOrdered className="h-4 w-4" />}
+                                    <span className="font-semibold text-lg">
+                                      {submission.aggregate.label}
+                                    </span>
+                                  </div>
+                                  <p className="text-xs text-slate-500">
+                                    {submission.aggregate.detail}
+                                  </p>
+                                </div>
+                                ) : showNormalized ? (
+                                <div className="text-right">
+                                  <div className={`flex items-center gap-1 ${submissionCalibration ? 'text-slate-900 dark:text-white' : 'text-slate-400'}`}>
+                                    <Scale className="h-4 w-4" />
+                                    <span className="font-semibold text-lg">
+                                      {formatNormalizedScore(submissionCalibration?.normalizedScore)}
+                                    </span>
+                                  </div>
+                                  <p className="text-xs text-slate-500">
+                                    {avgScore !== null ? `raw ${avgScore.toFixed(1)} · ` : ''}
+                                    {submission.reviews.length} review{submission.reviews.length !== 1 ? 's' : ''}
+                                  </p>
+                                </div>
+                                ) : (
+                                <div className="text-right">
+                                  <div className={`flex items-center gap-1 ${getScoreColor(avgScore)}`}>
+                                    <Star className={`h-4 w-4 ${avgScore !== null && avgScore >= 4 ? 'fill-current' : ''}`} />
+                                    <span className="font-semibold text-lg">
+                                      {avgScore !== null ? avgScore.toFixed(1) : '-'}
+                                    </span>
+                                  </div>
+                                  <p className="text-xs text-slate-500">
+                                    {submission.reviews.length} review{submission.reviews.length !== 1 ? 's' : ''}
+                                  </p>
+                                </div>
+                                )}
+                                <ChevronRight className="h-5 w-5 text-slate-400 group-hover:text-blue-500 transition-colors" />
+                              </div>
                             </div>
-                            <ChevronRight className="h-5 w-5 text-slate-400 group-hover:text-blue-500 transition-colors" />
                           </div>
                         </div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </Link>
-            );
-          })}
-        </div>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                </div>
+              );
+            })}
+          </div>
+        </SubmissionSelectionProvider>
       ) : (
         <div className="text-center py-12">
           <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
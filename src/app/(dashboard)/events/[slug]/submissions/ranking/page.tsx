@@ -0,0 +1,113 @@
+/**
+ * Event Ranking Board Page
+ * 
+ * For events that use ranking reviews: each reviewer drags the event's
+ * submissions (or one track's submissions) into their preferred order.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import {
+  getReviewMode,
+  getRankingCandidates,
+  getReviewerRankingOrder,
+} from '@/lib/reviews';
+import { RankingBoard } from './ranking-board';
+
+interface RankingPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: RankingPageProps) {
+  const { slug } = await params;
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: { name: true },
+  });
+  
+  return {
+    title: event ? `${event.name} Ranking` : 'Ranking',
+  };
+}
+
+export default async function RankingPage({ params }: RankingPageProps) {
+  const { slug } = await params;
+  const user = await getCurrentUser();
+  const userRole = user.role as string;
+  
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      name: true,
+      reviewType: true,
+      tracks: {
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      },
+      reviewTeam: {
+        where: { userId: user.id },
+        select: { role: true },
+      },
+    },
+  });
+  
+  if (!event) {
+    notFound();
+  }
+  
+  // Same access rules as the submissions list
+  const isOrganizerUser = ['ADMIN', 'ORGANIZER'].includes(userRole);
+  const isReviewerRole = userRole === 'REVIEWER';
+  const isReviewerOnTeam = event.reviewTeam.length > 0;
+  
+  if (!isOrganizerUser && !isReviewerRole && !isReviewerOnTeam) {
+    redirect(`/events/${slug}`);
+  }
+  
+  if (getReviewMode(event.reviewType) !== 'ranking') {
+    redirect(`/events/${slug}/submissions`);
+  }
+  
+  const [candidates, savedOrder] = await Promise.all([
+    getRankingCandidates(event.id, null),
+    getReviewerRankingOrder(event.id, user.id, null),
+  ]);
+  
+  const position = new Map(savedOrder.map((id, index) => [id, index]));
+  const initialSubmissions = [...candidates].sort((a, b) => {
+    const pa = position.get(a.id) ?? Number.MAX_SAFE_INTEGER;
+    const pb = position.get(b.id) ?? Number.MAX_SAFE_INTEGER;
+    return pa - pb;
+  });
+  
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-8">
+        <Link 
+          href={`/events/${slug}/submissions`}
+          className="text-sm text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white mb-2 inline-block"
+        >
+          ← Back to Submissions
+        </Link>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          Ranking Board
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">
+          {event.name} · Drag submissions into order, best first
+        </p>
+      </div>
+      
+      <RankingBoard
+        eventId={event.id}
+        eventSlug={slug}
+        tracks={event.tracks}
+        initialSubmissions={initialSubmissions}
+        initialHasSavedRanking={savedOrder.length > 0}
+      />
+    </div>
+  );
+}
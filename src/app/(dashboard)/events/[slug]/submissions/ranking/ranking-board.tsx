@@ -0,0 +1,280 @@
+'use client';
+
+/**
+ * Ranking Board (Client Component)
+ *
+ * Drag-and-drop list of submissions. The reviewer orders them best-first
+ * and saves; rankings can cover the whole event or a single track.
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { cn } from '@/lib/utils';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GripVertical, Loader2, Save, ExternalLink, ListOrdered } from 'lucide-react';
+
+interface RankingSubmission {
+  id: string;
+  title: string;
+  status: string;
+  track: { id: string; name: string; color: string | null } | null;
+}
+
+interface RankingBoardProps {
+  eventId: string;
+  eventSlug: string;
+  tracks: Array<{ id: string; name: string }>;
+  initialSubmissions: RankingSubmission[];
+  initialHasSavedRanking: boolean;
+}
+
+interface RankingResponse {
+  submissions: RankingSubmission[];
+  rankedIds: string[];
+}
+
+interface SortableSubmissionRowProps {
+  submission: RankingSubmission;
+  position: number;
+  eventSlug: string;
+}
+
+function SortableSubmissionRow({ submission, position, eventSlug }: SortableSubmissionRowProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: submission.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        "flex items-center gap-3 p-3 rounded-lg border bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700",
+        isDragging && "opacity-50 shadow-lg"
+      )}
+    >
+      <button
+        {...attributes}
+        {...listeners}
+        className="cursor-grab active:cursor-grabbing p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+        aria-label="Drag to reorder"
+      >
+        <GripVertical className="h-4 w-4 text-slate-400" />
+      </button>
+
+      <span className="w-8 text-center font-semibold text-slate-500">
+        {position}
+      </span>
+
+      <span className="flex-1 min-w-0 text-sm font-medium text-slate-900 dark:text-white truncate">
+        {submission.title}
+      </span>
+
+      {submission.track && (
+        <Badge
+          variant="outline"
+          className="text-xs hidden sm:inline-flex"
+          style={{
+            borderColor: submission.track.color || undefined,
+            backgroundColor: submission.track.color ? `${submission.track.color}20` : undefined,
+          }}
+        >
+          {submission.track.name}
+        </Badge>
+      )}
+
+      <Link
+        href={`/events/${eventSlug}/submissions/${submission.id}`}
+        target="_blank"
+        className="p-1 text-slate-400 hover:text-blue-500"
+        title="Open submission"
+      >
+        <ExternalLink className="h-4 w-4" />
+      </Link>
+    </div>
+  );
+}
+
+export function RankingBoard({
+  eventId,
+  eventSlug,
+  tracks,
+  initialSubmissions,
+  initialHasSavedRanking,
+}: RankingBoardProps) {
+  const api = useApi<RankingResponse>();
+  const [trackId, setTrackId] = useState<string>('all');
+  const [submissions, setSubmissions] = useState(initialSubmissions);
+  const [hasSavedRanking, setHasSavedRanking] = useState(initialHasSavedRanking);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      const oldIndex = submissions.findIndex(s => s.id === active.id);
+      const newIndex = submissions.findIndex(s => s.id === over.id);
+      setSubmissions(arrayMove(submissions, oldIndex, newIndex));
+      setIsDirty(true);
+    }
+  };
+
+  const handleTrackChange = async (value: string) => {
+    if (isDirty && !confirm('You have unsaved changes. Switch track anyway?')) {
+      return;
+    }
+
+    const query = value === 'all' ? '' : `?trackId=${encodeURIComponent(value)}`;
+    const { data } = await api.get(`/api/events/${eventId}/rankings${query}`);
+
+    if (data) {
+      setTrackId(value);
+      setSubmissions(data.submissions);
+      setHasSavedRanking(data.rankedIds.length > 0);
+      setIsDirty(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    const { error } = await api.execute(`/api/events/${eventId}/rankings`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        trackId: trackId === 'all' ? null : trackId,
+        submissionIds: submissions.map(s => s.id),
+      }),
+    });
+
+    setIsSaving(false);
+
+    if (!error) {
+      toast.success('Ranking saved');
+      setHasSavedRanking(true);
+      setIsDirty(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          {tracks.length > 0 && (
+            <Select value={trackId} onValueChange={handleTrackChange} disabled={api.isLoading}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Whole event" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Whole event</SelectItem>
+                {tracks.map((track) => (
+                  <SelectItem key={track.id} value={track.id}>
+                    {track.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {!hasSavedRanking && (
+            <Badge variant="outline" className="text-amber-600 border-amber-300">
+              Not saved yet
+            </Badge>
+          )}
+          {isDirty && (
+            <Badge variant="outline" className="text-blue-600 border-blue-300">
+              Unsaved changes
+            </Badge>
+          )}
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving || submissions.length === 0} className="gap-2">
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4" />
+          )}
+          Save Ranking
+        </Button>
+      </div>
+
+      {/* List */}
+      {submissions.length > 0 ? (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext
+            items={submissions.map(s => s.id)}
+            strategy={verticalListSortingStrategy}
+          >
+            <div className="space-y-2">
+              {submissions.map((submission, index) => (
+                <SortableSubmissionRow
+                  key={submission.id}
+                  submission={submission}
+                  position={index + 1}
+                  eventSlug={eventSlug}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ListOrdered className="h-8 w-8 text-slate-400 mb-3" />
+            <p className="text-sm text-slate-500">
+              There are no submissions to rank{trackId !== 'all' ? ' in this track' : ''}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
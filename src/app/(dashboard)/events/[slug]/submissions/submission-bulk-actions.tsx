@@ -0,0 +1,525 @@
+/**
+ * Submission Bulk Actions
+ *
+ * Client components for selecting submissions on the submissions page and
+ * changing their status, track or format, or sending decision emails, in
+ * one background operation. Decision emails can be previewed per speaker
+ * before they are sent, and the operation's progress is polled until it
+ * finishes.
+ */
+
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { BulkOperationStatus, SubmissionStatus } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { ChevronDown, Eye, Loader2, X } from 'lucide-react';
+import {
+  BULK_ACTION_LABELS,
+  BULK_OPERATION_STATUS_LABELS,
+  getBulkProgress,
+  getStatusEmailTemplate,
+  isBulkOperationActive,
+  type BulkOperationError,
+} from '@/lib/bulk-operations/state';
+import {
+  BULK_DECISION_TEMPLATES,
+  type BulkOperationAction,
+  type BulkDecisionTemplate,
+} from '@/lib/validations/bulk-operation';
+import { EMAIL_TEMPLATE_TYPE_LABELS } from '@/types/email-templates';
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+interface SelectionContextValue {
+  selected: Set<string>;
+  toggle: (submissionId: string, checked: boolean) => void;
+  setSelected: (submissionIds: string[]) => void;
+}
+
+const SelectionContext = createContext<SelectionContextValue | null>(null);
+
+function useSelection(): SelectionContextValue {
+  const context = useContext(SelectionContext);
+  if (!context) {
+    throw new Error('Submission selection components must be inside SubmissionSelectionProvider');
+  }
+  return context;
+}
+
+export function SubmissionSelectionProvider({ children }: { children: React.ReactNode }) {
+  const [selected, setSelectedState] = useState<Set<string>>(new Set());
+
+  const toggle = useCallback((submissionId: string, checked: boolean) => {
+    setSelectedState(previous => {
+      const next = new Set(previous);
+      if (checked) {
+        next.add(submissionId);
+      } else {
+        next.delete(submissionId);
+      }
+      return next;
+    });
+  }, []);
+
+  const setSelected = useCallback((submissionIds: string[]) => {
+    setSelectedState(new Set(submissionIds));
+  }, []);
+
+  return (
+    <SelectionContext.Provider value={{ selected, toggle, setSelected }}>
+      {children}
+    </SelectionContext.Provider>
+  );
+}
+
+export function SubmissionSelectCheckbox({ submissionId, title }: { submissionId: string; title: string }) {
+  const { selected, toggle } = useSelection();
+
+  return (
+    <Checkbox
+      checked={selected.has(submissionId)}
+      onCheckedChange={checked => toggle(submissionId, checked === true)}
+      aria-label={`Select "${title}"`}
+      className="mt-5"
+    />
+  );
+}
+
+// ============================================================================
+// Toolbar
+// ============================================================================
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface BulkOperation {
+  id: string;
+  action: BulkOperationAction;
+  status: BulkOperationStatus;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  errors: BulkOperationError[];
+}
+
+interface EmailPreview {
+  submissionId: string;
+  submissionTitle: string;
+  speakerName: string;
+  to: string | null;
+  subject: string | null;
+  html: string | null;
+  skipReason: string | null;
+}
+
+interface SubmissionBulkToolbarProps {
+  eventId: string;
+  /** Submissions currently listed, for "select all" */
+  submissionIds: string[];
+  tracks: Option[];
+  formats: Option[];
+}
+
+const STATUS_OPTIONS: Array<{ value: SubmissionStatus; label: string }> = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'UNDER_REVIEW', label: 'Under Review' },
+  { value: 'ACCEPTED', label: 'Accepted' },
+  { value: 'REJECTED', label: 'Not Selected' },
+  { value: 'WAITLISTED', label: 'Waitlisted' },
+];
+
+const NONE = 'none';
+const POLL_INTERVAL_MS = 1500;
+
+export function SubmissionBulkToolbar({ eventId, submissionIds, tracks, formats }: SubmissionBulkToolbarProps) {
+  const router = useRouter();
+  const api = useApi<BulkOperation>();
+  const previewApi = useApi<EmailPreview[]>();
+  const { selected, setSelected } = useSelection();
+
+  const [action, setAction] = useState<BulkOperationAction | null>(null);
+  const [status, setStatus] = useState<SubmissionStatus>('ACCEPTED');
+  const [notifySpeakers, setNotifySpeakers] = useState(true);
+  const [includeFeedback, setIncludeFeedback] = useState(false);
+  const [trackId, setTrackId] = useState(NONE);
+  const [formatId, setFormatId] = useState(NONE);
+  const [templateType, setTemplateType] = useState<BulkDecisionTemplate>('submission_accepted');
+  const [previews, setPreviews] = useState<EmailPreview[] | null>(null);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [operation, setOperation] = useState<BulkOperation | null>(null);
+
+  const selectedIds = submissionIds.filter(id => selected.has(id));
+  const allSelected = submissionIds.length > 0 && selectedIds.length === submissionIds.length;
+
+  // Template the chosen action would send, if any
+  const emailTemplate: BulkDecisionTemplate | null =
+    action === 'notify'
+      ? templateType
+      : action === 'status' && notifySpeakers
+        ? getStatusEmailTemplate(status)
+        : null;
+
+  // Poll the running operation until it finishes
+  useEffect(() => {
+    if (!operation || !isBulkOperationActive(operation.status)) return;
+
+    const timer = setTimeout(async () => {
+      const response = await fetch(`/api/events/${eventId}/submissions/bulk/${operation.id}`);
+      if (!response.ok) return;
+      const result = await response.json();
+      const next = result.data as BulkOperation;
+      setOperation(next);
+
+      if (!isBulkOperationActive(next.status)) {
+        if (next.status === 'COMPLETED' && next.failed === 0) {
+          toast.success(`${BULK_ACTION_LABELS[next.action]}: ${next.succeeded} updated, ${next.skipped} skipped`);
+        } else {
+          toast.error(`${BULK_ACTION_LABELS[next.action]} finished with ${next.failed} failed`);
+        }
+        setSelected([]);
+        router.refresh();
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [operation, eventId, router, setSelected]);
+
+  const openAction = (next: BulkOperationAction) => {
+    setAction(next);
+    setPreviews(null);
+    setPreviewIndex(0);
+    setOperation(null);
+  };
+
+  const closeDialog = () => {
+    setAction(null);
+    setPreviews(null);
+    if (operation && !isBulkOperationActive(operation.status)) {
+      setOperation(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!emailTemplate) return;
+    const { data } = await previewApi.post(`/api/events/${eventId}/submissions/bulk/preview`, {
+      submissionIds: selectedIds,
+      templateType: emailTemplate,
+      includeFeedback,
+    });
+    if (data) {
+      setPreviews(data);
+      setPreviewIndex(0);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+
+    const body = (() => {
+      switch (action) {
+        case 'status':
+          return { action, status, notifySpeakers, includeFeedback };
+        case 'track':
+          return { action, trackId: trackId === NONE ? null : trackId };
+        case 'format':
+          return { action, formatId: formatId === NONE ? null : formatId };
+        case 'notify':
+          return { action, templateType, includeFeedback };
+      }
+    })();
+
+    const { data } = await api.post(`/api/events/${eventId}/submissions/bulk`, {
+      ...body,
+      submissionIds: selectedIds,
+    });
+    if (data) {
+      setOperation(data);
+      setPreviews(null);
+    }
+  };
+
+  const preview = previews?.[previewIndex];
+  const running = operation !== null && isBulkOperationActive(operation.status);
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4 mb-3 px-1">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            id="select-all-submissions"
+            checked={allSelected ? true : selectedIds.length > 0 ? 'indeterminate' : false}
+            onCheckedChange={checked => setSelected(checked === true ? submissionIds : [])}
+            aria-label="Select all submissions"
+          />
+          <Label htmlFor="select-all-submissions" className="text-sm text-slate-600 dark:text-slate-400">
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}
+          </Label>
+          {selectedIds.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {selectedIds.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm">
+                Bulk Actions
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => openAction('status')}>
+                {BULK_ACTION_LABELS.status}
+              </DropdownMenuItem>
+              {tracks.length > 0 && (
+                <DropdownMenuItem onClick={() => openAction('track')}>
+                  {BULK_ACTION_LABELS.track}
+                </DropdownMenuItem>
+              )}
+              {formats.length > 0 && (
+                <DropdownMenuItem onClick={() => openAction('format')}>
+                  {BULK_ACTION_LABELS.format}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => openAction('notify')}>
+                {BULK_ACTION_LABELS.notify}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={open => !open && !running && closeDialog()}>
+        <DialogContent className={previews ? 'max-w-4xl max-h-[90vh] overflow-y-auto' : 'max-w-lg'}>
+          <DialogHeader>
+            <DialogTitle>{action ? BULK_ACTION_LABELS[action] : ''}</DialogTitle>
+            <DialogDescription>
+              Applies to {operation?.total ?? selectedIds.length} selected submission
+              {(operation?.total ?? selectedIds.length) === 1 ? '' : 's'}. Runs in the background.
+            </DialogDescription>
+          </DialogHeader>
+
+          {operation ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span>{BULK_OPERATION_STATUS_LABELS[operation.status]}</span>
+                <span className="text-slate-500">
+                  {operation.processed} / {operation.total}
+                </span>
+              </div>
+              <Progress value={getBulkProgress(operation)} className="h-2" />
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {operation.succeeded} updated · {operation.skipped} skipped · {operation.failed} failed
+              </p>
+              {operation.errors.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto text-sm text-red-600 dark:text-red-400 space-y-1">
+                  {operation.errors.map((entry, index) => (
+                    <li key={`${entry.submissionId}-${index}`}>{entry.error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {action === 'status' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>New status</Label>
+                    <Select value={status} onValueChange={value => { setStatus(value as SubmissionStatus); setPreviews(null); }}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATUS_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="bulk-notify-speakers"
+                      checked={notifySpeakers}
+                      onCheckedChange={checked => { setNotifySpeakers(checked === true); setPreviews(null); }}
+                    />
+                    <Label htmlFor="bulk-notify-speakers">Email speakers about the decision</Label>
+                  </div>
+                  {status === 'ACCEPTED' && notifySpeakers && (
+                    <p className="text-sm text-slate-500">
+                      Accepted speakers are sent the confirmation request.
+                    </p>
+                  )}
+                </>
+              )}
+
+              {action === 'track' && (
+                <div className="space-y-2">
+                  <Label>Track</Label>
+                  <Select value={trackId} onValueChange={setTrackId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No track</SelectItem>
+                      {tracks.map(track => (
+                        <SelectItem key={track.id} value={track.id}>{track.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {action === 'format' && (
+                <div className="space-y-2">
+                  <Label>Format</Label>
+                  <Select value={formatId} onValueChange={setFormatId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No format</SelectItem>
+                      {formats.map(eventFormat => (
+                        <SelectItem key={eventFormat.id} value={eventFormat.id}>{eventFormat.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {action === 'notify' && (
+                <div className="space-y-2">
+                  <Label>Email template</Label>
+                  <Select
+                    value={templateType}
+                    onValueChange={value => { setTemplateType(value as BulkDecisionTemplate); setPreviews(null); }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BULK_DECISION_TEMPLATES.map(type => (
+                        <SelectItem key={type} value={type}>{EMAIL_TEMPLATE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {emailTemplate && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="bulk-include-feedback"
+                    checked={includeFeedback}
+                    onCheckedChange={checked => { setIncludeFeedback(checked === true); setPreviews(null); }}
+                  />
+                  <Label htmlFor="bulk-include-feedback">Include reviewers&apos; public feedback</Label>
+                </div>
+              )}
+
+              {preview && previews && (
+                <div className="space-y-3 border-t pt-4">
+                  <Select value={String(previewIndex)} onValueChange={value => setPreviewIndex(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {previews.map((entry, index) => (
+                        <SelectItem key={entry.submissionId} value={String(index)}>
+                          {entry.speakerName} - {entry.submissionTitle}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {preview.skipReason ? (
+                    <p className="text-sm text-slate-500">{preview.skipReason}</p>
+                  ) : (
+                    <>
+                      <div className="text-sm space-y-1">
+                        <p><span className="text-slate-500">To:</span> {preview.to}</p>
+                        <p><span className="text-slate-500">Subject:</span> {preview.subject}</p>
+                      </div>
+                      <div className="border rounded-lg overflow-hidden h-[400px] bg-gray-50">
+                        <iframe
+                          srcDoc={preview.html ?? ''}
+                          className="w-full h-full border-0"
+                          title="Email Preview"
+                          sandbox="allow-same-origin"
+                          style={{ backgroundColor: 'white' }}
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {operation ? (
+              <Button variant="outline" onClick={closeDialog} disabled={running}>
+                {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {running ? 'Working...' : 'Close'}
+              </Button>
+            ) : (
+              <>
+                {emailTemplate && (
+                  <Button variant="outline" onClick={handlePreview} disabled={previewApi.isLoading}>
+                    {previewApi.isLoading ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Eye className="h-4 w-4 mr-2" />
+                    )}
+                    Preview Emails
+                  </Button>
+                )}
+                <Button onClick={handleRun} disabled={api.isLoading}>
+                  {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {action === 'notify' ? 'Send Emails' : 'Apply'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -10,6 +10,7 @@
 import { prisma } from '@/lib/db/prisma';
 import { getCurrentUser } from '@/lib/auth';
 import { notFound, redirect } from 'next/navigation';
+import { SUBMISSION_FIELD_SELECT } from '@/lib/submission-fields';
 import { SubmitTalkForm } from './submit-talk-form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -73,6 +74,10 @@ export default async function SubmitTalkPage({ params }: SubmitTalkPageProps) {
       formats: {
         orderBy: { durationMin: 'asc' },
       },
+      submissionFields: {
+        select: SUBMISSION_FIELD_SELECT,
+        orderBy: { sortOrder: 'asc' },
+      },
     },
   });
   
@@ -172,6 +177,7 @@ export default async function SubmitTalkPage({ params }: SubmitTalkPageProps) {
             eventSlug={event.slug}
             tracks={event.tracks}
             formats={event.formats}
+            fields={event.submissionFields}
             topics={event.topics}
             audienceLevels={event.audienceLevel}
           />
@@ -3,7 +3,8 @@
  * 
  * Form for submitting a talk to an event.
  * Supports selecting from the talks library or creating a new submission.
- * Features rich text editing, topic guidance, and audience selection.
+ * Features rich text editing, topic guidance, audience selection and the
+ * event's own extra questions.
  */
 
 'use client';
@@ -41,6 +42,12 @@ import { Loader2, Library, PenLine, Clock, Mic2, Tag, Users, Info, UserPlus, X,
 import { formatDuration, getTalkTypeLabel } from '@/lib/validations/talk';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { PhotoUpload } from '@/components/ui/photo-upload';
+import { SubmissionFieldInputs } from '@/components/forms/submission-field-inputs';
+import {
+  validateSubmissionFieldValues,
+  type SubmissionFieldDefinition,
+  type SubmissionFieldValue,
+} from '@/lib/submission-fields/fields';
 
 // Dynamically import RichTextEditor to avoid SSR issues
 const RichTextEditor = dynamic(
@@ -103,11 +110,12 @@ interface SubmitTalkFormProps {
   eventSlug: string;
   tracks: Track[];
   formats: Format[];
+  fields?: SubmissionFieldDefinition[];
   topics?: string[];
   audienceLevels?: string[];
 }
 
-export function SubmitTalkForm({ eventId, eventSlug, tracks, formats, topics = [], audienceLevels = [] }: SubmitTalkFormProps) {
+export function SubmitTalkForm({ eventId, eventSlug, tracks, formats, fields = [], topics = [], audienceLevels = [] }: SubmitTalkFormProps) {
   const router = useRouter();
   const api = useApi();
   const [talks, setTalks] = useState<Talk[]>([]);
@@ -118,6 +126,8 @@ export function SubmitTalkForm({ eventId, eventSlug, tracks, formats, topics = [
   const [coSpeakers, setCoSpeakers] = useState<CoSpeaker[]>([]);
   const [showCoSpeakerForm, setShowCoSpeakerForm] = useState(false);
   const [newCoSpeaker, setNewCoSpeaker] = useState({ name: '', email: '', bio: '', avatarUrl: null as string | null });
+  const [customFields, setCustomFields] = useState<Record<string, SubmissionFieldValue | undefined>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
   
   const form = useForm<SubmissionFormValues>({
     resolver: zodResolver(submissionFormSchema),
@@ -224,7 +234,23 @@ export function SubmitTalkForm({ eventId, eventSlug, tracks, formats, topics = [
       .slice(0, 2);
   };
   
+  const handleCustomFieldChange = (fieldId: string, value: SubmissionFieldValue | undefined) => {
+    setCustomFields(prev => ({ ...prev, [fieldId]: value }));
+    setCustomFieldErrors(prev => {
+      const next = { ...prev };
+      delete next[fieldId];
+      return next;
+    });
+  };
+  
   const handleSubmit = async (data: SubmissionFormValues) => {
+    const { values: customFieldValues, errors: fieldErrors } = validateSubmissionFieldValues(fields, customFields);
+    if (Object.keys(fieldErrors).length > 0) {
+      setCustomFieldErrors(fieldErrors);
+      toast.error('Please complete the event questions');
+      return;
+    }
+    
     const submitData = {
       ...data,
       eventId,
@@ -239,6 +265,7 @@ export function SubmitTalkForm({ eventId, eventSlug, tracks, formats, topics = [
             avatarUrl: cs.avatarUrl || undefined,
           }))
         : undefined,
+      customFields: fields.length > 0 ? customFieldValues : undefined,
     };
     
     const { data: submission, error } = await api.post(`/api/events/${eventId}/submissions`, submitData);
@@ -615,6 +642,24 @@ export function SubmitTalkForm({ eventId, eventSlug, tracks, formats, topics = [
           )}
         />
         
+        {/* Event Questions */}
+        {fields.length > 0 && (
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="text-base font-medium">Event Questions</h3>
+              <p className="text-sm text-muted-foreground">
+                The organizers would like to know a bit more about your talk
+              </p>
+            </div>
+            <SubmissionFieldInputs
+              fields={fields}
+              values={customFields}
+              onChange={handleCustomFieldChange}
+              errors={customFieldErrors}
+            />
+          </div>
+        )}
+        
         {/* Co-Speakers Section */}
         <Card className="border-dashed">
           <CardHeader className="pb-3">
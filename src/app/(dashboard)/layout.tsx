@@ -3,7 +3,8 @@
  * 
  * Layout for authenticated pages with role-specific navigation.
  * Includes header, sidebar, and footer components.
- * Redirects users to onboarding if they haven't completed their speaker profile.
+ * Redirects users to onboarding if they haven't completed their speaker profile,
+ * or haven't set up two-factor authentication that their role requires.
  */
 
 import { redirect } from 'next/navigation';
@@ -11,6 +12,7 @@ import { config } from '@/lib/env';
 import { getSiteSettings } from '@/lib/api/auth';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/db/prisma';
+import { needsTwoFactorSetup, TWO_FACTOR_SETUP_PATH } from '@/lib/two-factor';
 import { DashboardLayoutClient } from './dashboard-layout-client';
 import { PoweredByFooter } from '@/components/ui/powered-by-footer';
 
@@ -44,6 +46,11 @@ export default async function DashboardLayout({
     }
   }
   
+  // Admins can require two-factor authentication for staff roles
+  if (await needsTwoFactorSetup(session.user.id)) {
+    redirect(TWO_FACTOR_SETUP_PATH);
+  }
+  
   const settings = await getSiteSettings();
   
   const siteName = settings?.name || config.app.name;
@@ -33,6 +33,13 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import {
+  ANONYMOUS_SPEAKER_ID,
+  ANONYMOUS_SPEAKER_NAME,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  getAssignedSubmissionIds,
+} from '@/lib/reviews';
 
 export const metadata = {
   title: 'Review Queue',
@@ -56,8 +63,9 @@ export default async function ReviewsPage() {
   const baseWhere = canReviewAll ? {} : { id: 'none' }; // Non-reviewers see nothing
 
   // Get submissions by review status
-  const [pendingSubmissions, inProgressSubmissions, completedReviews] = await Promise.all([
+  const [pendingSubmissions, inProgressSubmissions, completedReviews, assignedIds] = await Promise.all([
     // Pending - no review from this user, submission is pending/under_review
+    // and the user has not declared a conflict of interest with it
     prisma.submission.findMany({
       where: {
         ...baseWhere,
@@ -65,9 +73,12 @@ export default async function ReviewsPage() {
         reviews: {
           none: { reviewerId: user.id },
         },
+        conflicts: {
+          none: { reviewerId: user.id },
+        },
       },
       include: {
-        event: { select: { name: true, slug: true } },
+        event: { select: { name: true, slug: true, reviewAnonymity: true } },
         speaker: { select: { id: true, name: true, email: true, image: true } },
         _count: { select: { reviews: true } },
       },
@@ -86,7 +97,7 @@ export default async function ReviewsPage() {
       include: {
         submission: {
           include: {
-            event: { select: { name: true, slug: true } },
+            event: { select: { name: true, slug: true, reviewAnonymity: true } },
             speaker: { select: { name: true, email: true } },
           },
         },
@@ -94,10 +105,26 @@ export default async function ReviewsPage() {
       orderBy: { createdAt: 'desc' },
       take: 50,
     }),
+    
+    // Submissions an organizer assigned to this user
+    getAssignedSubmissionIds(user.id),
   ]);
 
+  // Blind review: hide speakers for events that anonymize them
+  const hidesSpeakerFor = (event: { reviewAnonymity: string }) =>
+    resolveAnonymityView(getReviewAnonymity(event.reviewAnonymity), user).hideSpeaker;
+  const anonymousSpeaker = { id: ANONYMOUS_SPEAKER_ID, name: ANONYMOUS_SPEAKER_NAME, email: '', image: null };
+
+  // Assigned submissions come first, otherwise oldest first
+  const sortedPendingSubmissions = [...pendingSubmissions].sort(
+    (a, b) => Number(assignedIds.has(b.id)) - Number(assignedIds.has(a.id))
+  );
+
   // Decrypt speaker names for pending submissions
-  const decryptedPendingSubmissions = pendingSubmissions.map((submission) => {
+  const decryptedPendingSubmissions = sortedPendingSubmissions.map((submission) => {
+    if (hidesSpeakerFor(submission.event)) {
+      return { ...submission, speaker: anonymousSpeaker };
+    }
     const decryptedUser = decryptPiiFields(
       submission.speaker as unknown as Record<string, unknown>,
       USER_PII_FIELDS
@@ -113,6 +140,12 @@ export default async function ReviewsPage() {
 
   // Decrypt speaker names for completed reviews
   const decryptedCompletedReviews = completedReviews.map((review) => {
+    if (hidesSpeakerFor(review.submission.event)) {
+      return {
+        ...review,
+        submission: { ...review.submission, speaker: { name: ANONYMOUS_SPEAKER_NAME, email: '' } },
+      };
+    }
     const decryptedUser = decryptPiiFields(
       review.submission.speaker as unknown as Record<string, unknown>,
       USER_PII_FIELDS
@@ -132,6 +165,7 @@ export default async function ReviewsPage() {
   // Calculate stats
   const stats = {
     pending: decryptedPendingSubmissions.length,
+    assigned: decryptedPendingSubmissions.filter(s => assignedIds.has(s.id)).length,
     inProgress: inProgressSubmissions.length,
     completed: decryptedCompletedReviews.length,
     assignedEvents: 'All Events', // Single-org: all reviewers can access all events
@@ -255,7 +289,9 @@ export default async function ReviewsPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.pending}</div>
-            <p className="text-xs text-muted-foreground">Awaiting your review</p>
+            <p className="text-xs text-muted-foreground">
+              {stats.assigned > 0 ? `${stats.assigned} assigned to you` : 'Awaiting your review'}
+            </p>
           </CardContent>
         </Card>
         <Card>
@@ -348,9 +384,14 @@ export default async function ReviewsPage() {
                           </span>
                         </CardDescription>
                       </div>
-                      <Badge variant="outline">
-                        {submission.status.replace('_', ' ')}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {assignedIds.has(submission.id) && (
+                          <Badge>Assigned to you</Badge>
+                        )}
+                        <Badge variant="outline">
+                          {submission.status.replace('_', ' ')}
+                        </Badge>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
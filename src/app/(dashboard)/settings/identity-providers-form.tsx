@@ -0,0 +1,535 @@
+'use client';
+
+/**
+ * Identity Providers Form
+ *
+ * Lists the single sign-on providers and adds or edits one: OIDC or SAML
+ * connection details, role mapping, allowed domains and just-in-time
+ * account creation. Client secrets are write-only.
+ */
+
+import { useState } from 'react';
+import type { IdentityProviderType, UserRole } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Loader2, Pencil, Plus, Trash2, Info } from 'lucide-react';
+import {
+  IDENTITY_PROVIDER_TYPE_LABELS,
+  SSO_ROLE_PRIORITY,
+  type RoleMapping,
+} from '@/lib/sso/state';
+
+export interface IdentityProviderSummary {
+  id: string;
+  slug: string;
+  name: string;
+  type: IdentityProviderType;
+  enabled: boolean;
+  issuer: string | null;
+  clientId: string | null;
+  clientSecretSet: boolean;
+  scopes: string;
+  ssoUrl: string | null;
+  idpEntityId: string | null;
+  idpCertificate: string | null;
+  roleClaim: string | null;
+  roleMappings: RoleMapping[];
+  defaultRole: UserRole;
+  allowedDomains: string[];
+  jitProvisioning: boolean;
+  urls: { loginUrl: string; callbackUrl: string; metadataUrl: string };
+}
+
+interface IdentityProvidersFormProps {
+  providers: IdentityProviderSummary[];
+  allowPublicSignup: boolean;
+}
+
+interface ProviderFormState {
+  slug: string;
+  name: string;
+  type: IdentityProviderType;
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  ssoUrl: string;
+  idpEntityId: string;
+  idpCertificate: string;
+  roleClaim: string;
+  roleMappings: string;
+  defaultRole: UserRole;
+  allowedDomains: string;
+  jitProvisioning: boolean;
+}
+
+const EMPTY_FORM: ProviderFormState = {
+  slug: '',
+  name: '',
+  type: 'OIDC',
+  enabled: false,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: 'openid email profile',
+  ssoUrl: '',
+  idpEntityId: '',
+  idpCertificate: '',
+  roleClaim: '',
+  roleMappings: '',
+  defaultRole: 'SPEAKER',
+  allowedDomains: '',
+  jitProvisioning: false,
+};
+
+function toFormState(provider: IdentityProviderSummary): ProviderFormState {
+  return {
+    slug: provider.slug,
+    name: provider.name,
+    type: provider.type,
+    enabled: provider.enabled,
+    issuer: provider.issuer ?? '',
+    clientId: provider.clientId ?? '',
+    clientSecret: '',
+    scopes: provider.scopes,
+    ssoUrl: provider.ssoUrl ?? '',
+    idpEntityId: provider.idpEntityId ?? '',
+    idpCertificate: provider.idpCertificate ?? '',
+    roleClaim: provider.roleClaim ?? '',
+    roleMappings: provider.roleMappings.map(m => `${m.value} = ${m.role}`).join('\n'),
+    defaultRole: provider.defaultRole,
+    allowedDomains: provider.allowedDomains.join(', '),
+    jitProvisioning: provider.jitProvisioning,
+  };
+}
+
+/**
+ * "value = ROLE" lines; unknown roles are left for the API to reject
+ */
+function parseRoleMappings(text: string): Array<{ value: string; role: string }> {
+  return text.split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const at = line.lastIndexOf('=');
+      return at === -1
+        ? { value: line, role: '' }
+        : { value: line.slice(0, at).trim(), role: line.slice(at + 1).trim().toUpperCase() };
+    });
+}
+
+export function IdentityProvidersForm({ providers: initialProviders, allowPublicSignup }: IdentityProvidersFormProps) {
+  const [providers, setProviders] = useState(initialProviders);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [formData, setFormData] = useState<ProviderFormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const editing = providers.find(p => p.id === editingId) ?? null;
+  const isOidc = formData.type === 'OIDC';
+
+  const update = <K extends keyof ProviderFormState>(key: K, value: ProviderFormState[K]) => {
+    setFormData(prev => ({ ...prev, [key]: value }));
+  };
+
+  const startEditing = (provider: IdentityProviderSummary | null) => {
+    setEditingId(provider ? provider.id : 'new');
+    setFormData(provider ? toFormState(provider) : EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const { slug, type, clientSecret, roleMappings, allowedDomains, ...rest } = formData;
+    const payload = {
+      ...rest,
+      ...(editing ? {} : { slug, type }),
+      ...(clientSecret && { clientSecret }),
+      roleMappings: parseRoleMappings(roleMappings),
+      allowedDomains: allowedDomains.split(/[\s,]+/).filter(Boolean),
+    };
+
+    try {
+      const res = await fetch(
+        editing ? `/api/settings/identity-providers/${editing.id}` : '/api/settings/identity-providers',
+        {
+          method: editing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save identity provider');
+      }
+
+      setProviders(prev => {
+        const others = prev.filter(p => p.id !== data.provider.id);
+        return [...others, data.provider].sort((a, b) => a.name.localeCompare(b.name));
+      });
+      setEditingId(null);
+      toast.success(editing ? 'Identity provider updated' : 'Identity provider added');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save identity provider');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (provider: IdentityProviderSummary) => {
+    setDeletingId(provider.id);
+    try {
+      const res = await fetch(`/api/settings/identity-providers/${provider.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to delete identity provider');
+      }
+      setProviders(prev => prev.filter(p => p.id !== provider.id));
+      if (editingId === provider.id) setEditingId(null);
+      toast.success('Identity provider removed');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete identity provider');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Provider List */}
+      {providers.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          No identity providers yet. Users sign in with email and password only.
+        </p>
+      ) : (
+        <div className="divide-y rounded-lg border border-slate-200 dark:border-slate-700">
+          {providers.map(provider => (
+            <div key={provider.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{provider.name}</span>
+                  <Badge variant="outline">{IDENTITY_PROVIDER_TYPE_LABELS[provider.type]}</Badge>
+                  {provider.enabled ? (
+                    <Badge className="bg-green-500">Enabled</Badge>
+                  ) : (
+                    <Badge variant="secondary">Disabled</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                  {provider.allowedDomains.length > 0
+                    ? `Restricted to ${provider.allowedDomains.join(', ')}`
+                    : 'Any email domain'}
+                  {provider.jitProvisioning && ' · Creates accounts on first sign-in'}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => startEditing(provider)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-slate-400 hover:text-red-600"
+                      disabled={deletingId === provider.id}
+                    >
+                      {deletingId === provider.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Remove {provider.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Every account connected to this provider will be disconnected.
+                        Users without a password will need to reset it to sign in again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(provider)}>
+                        Remove
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId === null && (
+        <Button variant="outline" onClick={() => startEditing(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Identity Provider
+        </Button>
+      )}
+
+      {/* Add / Edit Form */}
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="space-y-6 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          <h3 className="font-semibold">{editing ? `Edit ${editing.name}` : 'New Identity Provider'}</h3>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="idpName">Name</Label>
+              <Input
+                id="idpName"
+                value={formData.name}
+                onChange={e => update('name', e.target.value)}
+                placeholder="Company SSO"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="idpSlug">Slug</Label>
+              <Input
+                id="idpSlug"
+                value={formData.slug}
+                onChange={e => update('slug', e.target.value.toLowerCase())}
+                placeholder="company"
+                disabled={!!editing}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Protocol</Label>
+              <Select
+                value={formData.type}
+                onValueChange={value => update('type', value as IdentityProviderType)}
+                disabled={!!editing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="OIDC">{IDENTITY_PROVIDER_TYPE_LABELS.OIDC}</SelectItem>
+                  <SelectItem value="SAML">{IDENTITY_PROVIDER_TYPE_LABELS.SAML}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {editing && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription className="space-y-1 text-xs break-all">
+                {isOidc ? (
+                  <p>Redirect URI: <code>{editing.urls.callbackUrl}</code></p>
+                ) : (
+                  <>
+                    <p>ACS URL: <code>{editing.urls.callbackUrl}</code></p>
+                    <p>SP entity ID / metadata: <code>{editing.urls.metadataUrl}</code></p>
+                  </>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isOidc ? (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="idpIssuer">Issuer URL</Label>
+                <Input
+                  id="idpIssuer"
+                  type="url"
+                  value={formData.issuer}
+                  onChange={e => update('issuer', e.target.value)}
+                  placeholder="https://login.example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="idpClientId">Client ID</Label>
+                <Input
+                  id="idpClientId"
+                  value={formData.clientId}
+                  onChange={e => update('clientId', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="idpClientSecret">Client Secret</Label>
+                <Input
+                  id="idpClientSecret"
+                  type="password"
+                  value={formData.clientSecret}
+                  onChange={e => update('clientSecret', e.target.value)}
+                  placeholder={editing?.clientSecretSet ? '•••••••• (unchanged)' : ''}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="idpScopes">Scopes</Label>
+                <Input
+                  id="idpScopes"
+                  value={formData.scopes}
+                  onChange={e => update('scopes', e.target.value)}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="idpSsoUrl">SSO URL</Label>
+                <Input
+                  id="idpSsoUrl"
+                  type="url"
+                  value={formData.ssoUrl}
+                  onChange={e => update('ssoUrl', e.target.value)}
+                  placeholder="https://idp.example.com/sso/saml"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="idpEntityId">IdP Entity ID</Label>
+                <Input
+                  id="idpEntityId"
+                  value={formData.idpEntityId}
+                  onChange={e => update('idpEntityId', e.target.value)}
+                  placeholder="Optional; checked against the response issuer"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="idpCertificate">IdP Signing Certificate</Label>
+                <Textarea
+                  id="idpCertificate"
+                  value={formData.idpCertificate}
+                  onChange={e => update('idpCertificate', e.target.value)}
+                  placeholder="-----BEGIN CERTIFICATE-----"
+                  rows={5}
+                  className="font-mono text-xs"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Access */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="idpRoleClaim">Role Claim</Label>
+              <Input
+                id="idpRoleClaim"
+                value={formData.roleClaim}
+                onChange={e => update('roleClaim', e.target.value)}
+                placeholder={isOidc ? 'groups' : 'memberOf'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Default Role for New Accounts</Label>
+              <Select
+                value={formData.defaultRole}
+                onValueChange={value => update('defaultRole', value as UserRole)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SSO_ROLE_PRIORITY.filter(role => role !== 'ADMIN').map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="idpRoleMappings">Role Mappings</Label>
+              <Textarea
+                id="idpRoleMappings"
+                value={formData.roleMappings}
+                onChange={e => update('roleMappings', e.target.value)}
+                placeholder={'cfp-reviewers = REVIEWER\ncfp-organizers = ORGANIZER'}
+                rows={3}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                One &quot;claim value = ROLE&quot; per line. The highest matching role is applied
+                at every sign-in; users with no match keep their role.
+              </p>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="idpDomains">Allowed Email Domains</Label>
+              <Input
+                id="idpDomains"
+                value={formData.allowedDomains}
+                onChange={e => update('allowedDomains', e.target.value)}
+                placeholder="example.com, example.org"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Leave empty to allow any domain. Only a domain-restricted provider may sign in
+                to an existing account with the same email; otherwise users connect it from
+                their account settings.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label>Create Accounts on First Sign-In</Label>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {allowPublicSignup
+                  ? 'New users are created with their mapped or default role.'
+                  : 'Has no effect while public signup is disabled under General.'}
+              </p>
+            </div>
+            <Switch
+              checked={formData.jitProvisioning}
+              onCheckedChange={checked => update('jitProvisioning', checked)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label>Enabled</Label>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Show this provider on the sign-in page
+              </p>
+            </div>
+            <Switch
+              checked={formData.enabled}
+              onCheckedChange={checked => update('enabled', checked)}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Provider' : 'Add Provider'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
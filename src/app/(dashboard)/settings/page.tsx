@@ -22,13 +22,16 @@ import {
   FileText,
   ExternalLink,
   Scale,
+  LogIn,
 } from 'lucide-react';
 import { SiteSettingsForm } from './site-settings-form';
 import { FederationSettingsForm } from './federation/federation-settings-form';
 import { LandingPageForm } from './landing-page-form';
 import { LegalPagesForm } from './legal-pages-form';
 import { SmtpSettingsForm } from './smtp-settings-form';
+import { IdentityProvidersForm } from './identity-providers-form';
 import { EmailTemplateManagement } from '@/components/admin/email-template-management';
+import { getRoleMappings, toIdentityProviderResponse } from '@/lib/sso';
 
 export const metadata = {
   title: 'Settings',
@@ -58,6 +61,13 @@ export default async function SettingsPage() {
   
   const settings = await getSiteSettings();
 
+  const identityProviders = (await prisma.identityProvider.findMany({
+    orderBy: { name: 'asc' },
+  })).map(provider => ({
+    ...toIdentityProviderResponse(provider),
+    roleMappings: getRoleMappings(provider),
+  }));
+
   // Get all email templates grouped by category
   const rawTemplates = await prisma.emailTemplate.findMany({
     orderBy: [
@@ -109,7 +119,7 @@ export default async function SettingsPage() {
       </div>
       
       <Tabs defaultValue="general" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6 h-auto p-1 bg-slate-100/80 dark:bg-slate-800/80">
+        <TabsList className="grid w-full grid-cols-7 h-auto p-1 bg-slate-100/80 dark:bg-slate-800/80">
           <TabsTrigger value="general" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
             <Building2 className="h-4 w-4" />
             <span className="hidden sm:inline">General</span>
@@ -130,6 +140,10 @@ export default async function SettingsPage() {
             <Scale className="h-4 w-4" />
             <span className="hidden sm:inline">Legal</span>
           </TabsTrigger>
+          <TabsTrigger value="sso" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
+            <LogIn className="h-4 w-4" />
+            <span className="hidden sm:inline">SSO</span>
+          </TabsTrigger>
           <TabsTrigger value="federation" className="flex items-center gap-2 py-2.5 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900">
             <Key className="h-4 w-4" />
             <span className="hidden sm:inline">Federation</span>
@@ -239,6 +253,31 @@ export default async function SettingsPage() {
           </Card>
         </TabsContent>
         
+        {/* Single Sign-On */}
+        <TabsContent value="sso">
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-sky-100 dark:bg-sky-900/30">
+                  <LogIn className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+                </div>
+                <div>
+                  <CardTitle>Single Sign-On</CardTitle>
+                  <CardDescription>
+                    Let users sign in through your organization&apos;s OpenID Connect or SAML identity provider
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <IdentityProvidersForm
+                providers={identityProviders}
+                allowPublicSignup={settings.allowPublicSignup}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
         {/* Federation Settings */}
         <TabsContent value="federation" className="space-y-6">
           {/* Federation Info Banner */}
@@ -1,7 +1,8 @@
 /**
  * Site Settings Form (Client Component)
  * 
- * Form for updating organization/site settings including registration settings.
+ * Form for updating organization/site settings including registration settings
+ * and the roles that must use two-factor authentication.
  */
 
 'use client';
@@ -15,6 +16,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Form,
@@ -27,7 +29,12 @@ import {
 } from '@/components/ui/form';
 import { useApi } from '@/hooks/use-api';
 import { toast } from 'sonner';
-import { Loader2, UserPlus, Building2 } from 'lucide-react';
+import { Loader2, UserPlus, Building2, Smartphone } from 'lucide-react';
+import {
+  TWO_FACTOR_ENFORCEABLE_ROLES,
+  TWO_FACTOR_ROLE_LABELS,
+  type TwoFactorEnforceableRole,
+} from '@/lib/two-factor/state';
 
 const siteSettingsFormSchema = z.object({
   name: z.string().min(1, 'Site name is required').max(200),
@@ -37,6 +44,7 @@ const siteSettingsFormSchema = z.object({
   contactEmail: z.string().email('Must be a valid email').optional().or(z.literal('')),
   supportUrl: z.string().url('Must be a valid URL').optional().or(z.literal('')),
   allowPublicSignup: z.boolean(),
+  twoFactorRequiredRoles: z.array(z.enum(TWO_FACTOR_ENFORCEABLE_ROLES)),
 });
 
 type SiteSettingsFormValues = z.infer<typeof siteSettingsFormSchema>;
@@ -50,6 +58,7 @@ interface SiteSettings {
   contactEmail?: string | null;
   supportUrl?: string | null;
   allowPublicSignup?: boolean;
+  twoFactorRequiredRoles?: string[];
 }
 
 interface SiteSettingsFormProps {
@@ -70,6 +79,10 @@ export function SiteSettingsForm({ settings }: SiteSettingsFormProps) {
       contactEmail: settings.contactEmail || '',
       supportUrl: settings.supportUrl || '',
       allowPublicSignup: settings.allowPublicSignup ?? false,
+      twoFactorRequiredRoles: (settings.twoFactorRequiredRoles ?? []).filter(
+        (role): role is TwoFactorEnforceableRole =>
+          (TWO_FACTOR_ENFORCEABLE_ROLES as readonly string[]).includes(role)
+      ),
     },
   });
   
@@ -264,6 +277,52 @@ export function SiteSettingsForm({ settings }: SiteSettingsFormProps) {
           </CardContent>
         </Card>
         
+        {/* Two-Factor Authentication Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Smartphone className="h-5 w-5" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription>
+              Require an authenticator app code for password sign-ins
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="twoFactorRequiredRoles"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Required for</FormLabel>
+                  <div className="space-y-2">
+                    {TWO_FACTOR_ENFORCEABLE_ROLES.map((role) => (
+                      <label key={role} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(role)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, role]
+                                : field.value.filter((r) => r !== role)
+                            )
+                          }
+                        />
+                        {TWO_FACTOR_ROLE_LABELS[role]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>
+                    Users in these roles must set up two-factor authentication before using the
+                    dashboard. Accounts that sign in only through single sign-on are not affected.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+        
         <div className="flex justify-end">
           <Button type="submit" disabled={api.isLoading}>
             {api.isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -38,6 +38,15 @@ import {
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import type { SubmissionStatus } from '@prisma/client';
+import { speakerSubmissionWhere } from '@/lib/co-speakers';
+import {
+  averageReviewScore,
+  ANONYMOUS_SPEAKER_NAME,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  redactSpeaker,
+  logIdentityReveal,
+} from '@/lib/reviews';
 
 export const metadata = {
   title: 'Submissions Management',
@@ -104,6 +113,7 @@ export default async function SubmissionsPage({ searchParams }: SubmissionsPageP
       slug: true,
       startDate: true,
       cfpClosesAt: true,
+      reviewAnonymity: true,
       _count: {
         select: { submissions: true },
       },
@@ -205,6 +215,7 @@ export default async function SubmissionsPage({ searchParams }: SubmissionsPageP
         select: {
           id: true,
           overallScore: true,
+          weightedScore: true,
           reviewerId: true,
         },
       },
@@ -212,8 +223,43 @@ export default async function SubmissionsPage({ searchParams }: SubmissionsPageP
     orderBy: { createdAt: 'desc' },
   });
   
+  // Blind review: reviewers see anonymous speakers, per event
+  const anonymityViews = new Map(
+    events.map(e => [e.id, resolveAnonymityView(getReviewAnonymity(e.reviewAnonymity), user)])
+  );
+  
+  for (const event of events) {
+    const anonymity = anonymityViews.get(event.id);
+    const count = submissions.filter(s => s.eventId === event.id).length;
+    if (anonymity && count > 0) {
+      await logIdentityReveal(anonymity, {
+        entityType: 'Event',
+        entityId: event.id,
+        eventId: event.id,
+        scope: 'submission-list',
+        count,
+      });
+    }
+  }
+  
   // Decrypt speaker names and calculate review stats
   const processedSubmissions = submissions.map((submission) => {
+    const reviewCount = submission.reviews.length;
+    const avgScore = averageReviewScore(submission.reviews);
+    const userHasReviewed = submission.reviews.some(r => r.reviewerId === user.id);
+    
+    if (anonymityViews.get(submission.eventId)?.hideSpeaker) {
+      return {
+        ...submission,
+        speaker: redactSpeaker(submission.speaker),
+        speakerName: ANONYMOUS_SPEAKER_NAME,
+        speakerInitials: '?',
+        reviewCount,
+        avgScore,
+        userHasReviewed,
+      };
+    }
+    
     const decryptedUser = decryptPiiFields(
       submission.speaker as unknown as Record<string, unknown>,
       USER_PII_FIELDS
@@ -229,12 +275,6 @@ export default async function SubmissionsPage({ searchParams }: SubmissionsPageP
       }
     }
     
-    const reviewCount = submission.reviews.length;
-    const avgScore = reviewCount > 0
-      ? submission.reviews.reduce((sum, r) => sum + (r.overallScore || 0), 0) / reviewCount
-      : null;
-    const userHasReviewed = submission.reviews.some(r => r.reviewerId === user.id);
-    
     return {
       ...submission,
       speakerName,
@@ -676,10 +716,11 @@ export default async function SubmissionsPage({ searchParams }: SubmissionsPageP
   );
 }
 
-// Speaker-specific view showing their own submissions
+// Speaker-specific view showing their own submissions and those they
+// accepted a co-speaker invitation for
 async function SpeakerSubmissionsView({ userId }: { userId: string }) {
   const submissions = await prisma.submission.findMany({
-    where: { speakerId: userId },
+    where: speakerSubmissionWhere(userId),
     include: {
       event: {
         select: {
@@ -779,6 +820,11 @@ async function SpeakerSubmissionsView({ userId }: { userId: string }) {
                               {submission.track.name}
                             </Badge>
                           )}
+                          {submission.speakerId !== userId && (
+                            <Badge variant="secondary" className="text-xs">
+                              Co-speaker
+                            </Badge>
+                          )}
                         </div>
                         
                         <h3 className="font-semibold text-slate-900 dark:text-white line-clamp-1">
@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * Co-Speaker Invitation Form
+ *
+ * Accept as the signed-in user, sign in or create an account for the
+ * invited email first, or decline.
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signOut } from 'next-auth/react';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/use-api';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Users } from 'lucide-react';
+
+interface CoSpeakerInvitationFormProps {
+  token: string;
+  eventName: string;
+  submissionTitle: string;
+  inviterName: string | null;
+  invitedEmail: string;
+  coSpeakerName: string;
+  expiresAt: string | null;
+  hasAccount: boolean;
+  signedInEmail: string | null;
+  emailMatches: boolean;
+  submissionPath: string;
+}
+
+export function CoSpeakerInvitationForm({
+  token,
+  eventName,
+  submissionTitle,
+  inviterName,
+  invitedEmail,
+  coSpeakerName,
+  expiresAt,
+  hasAccount,
+  signedInEmail,
+  emailMatches,
+  submissionPath,
+}: CoSpeakerInvitationFormProps) {
+  const router = useRouter();
+  const api = useApi<{ status: string }>();
+  const [name, setName] = useState(coSpeakerName);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const invitationPath = `/co-speaker/${token}`;
+  const signInPath = (callbackUrl: string) =>
+    `/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+
+  const handleAccept = async () => {
+    const { error } = await api.post(`/api/public/co-speaker-invitations/${token}`, { action: 'accept' });
+    if (!error) {
+      toast.success('You are now a co-speaker on this submission');
+      router.push(submissionPath);
+    }
+  };
+
+  const handleRegister = async () => {
+    const { error } = await api.post(`/api/public/co-speaker-invitations/${token}`, {
+      action: 'register',
+      name,
+      password,
+    });
+    if (!error) {
+      toast.success('Account created. Sign in to see the submission.');
+      router.push(signInPath(submissionPath));
+    }
+  };
+
+  const handleDecline = async () => {
+    const { error } = await api.post(`/api/public/co-speaker-invitations/${token}`, { action: 'decline' });
+    if (!error) {
+      toast.success('Invitation declined');
+      router.refresh();
+    }
+  };
+
+  const passwordsMatch = password.length > 0 && password === confirmPassword;
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <Users className="w-10 h-10 mb-2 text-primary" />
+        <CardTitle>Co-speaker invitation</CardTitle>
+        <CardDescription>
+          {inviterName ?? 'A speaker'} added you as a co-speaker on &ldquo;{submissionTitle}&rdquo;
+          for {eventName}.
+          {expiresAt && ` This invitation expires on ${expiresAt}.`}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Co-speakers can edit the submission, manage its materials and take part in
+          conversations with the organizers.
+        </p>
+
+        {signedInEmail && !emailMatches && (
+          <Alert>
+            <AlertDescription>
+              This invitation was sent to {invitedEmail}, but you are signed in as {signedInEmail}.
+              Sign out and sign in with {invitedEmail} to accept.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!signedInEmail && !hasAccount && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Create an account for <span className="font-medium">{invitedEmail}</span> to accept.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="name">Your name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-muted-foreground">
+                At least 8 characters with an uppercase letter, a lowercase letter and a number.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+          </div>
+        )}
+
+        {!signedInEmail && hasAccount && (
+          <p className="text-sm">
+            Sign in as <span className="font-medium">{invitedEmail}</span> to accept.
+          </p>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-between gap-2">
+        <Button variant="ghost" onClick={handleDecline} disabled={api.isLoading}>
+          Decline
+        </Button>
+
+        {signedInEmail && emailMatches && (
+          <Button onClick={handleAccept} disabled={api.isLoading}>
+            {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Accept invitation
+          </Button>
+        )}
+        {signedInEmail && !emailMatches && (
+          <Button onClick={() => signOut({ callbackUrl: signInPath(invitationPath) })}>
+            Sign out
+          </Button>
+        )}
+        {!signedInEmail && hasAccount && (
+          <Button onClick={() => router.push(signInPath(invitationPath))}>
+            Sign in to accept
+          </Button>
+        )}
+        {!signedInEmail && !hasAccount && (
+          <Button onClick={handleRegister} disabled={!passwordsMatch || name.trim().length < 2 || api.isLoading}>
+            {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create account &amp; accept
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
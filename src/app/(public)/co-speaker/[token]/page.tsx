@@ -0,0 +1,98 @@
+/**
+ * Co-Speaker Invitation Page
+ *
+ * Landing page for the link emailed to co-speakers. Shows the talk and
+ * who added them, and lets them accept - signed in with the invited email,
+ * or by creating an account for it - or decline.
+ */
+
+import { format } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { getCoSpeakerInvitationByToken, CO_SPEAKER_INVITATION_STATE_LABELS } from '@/lib/co-speakers';
+import { invitationEmailMatches } from '@/lib/co-speakers/state';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { CoSpeakerInvitationForm } from './invitation-form';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export const metadata = {
+  title: 'Co-Speaker Invitation',
+};
+
+export default async function CoSpeakerInvitationPage({ params }: PageProps) {
+  const { token } = await params;
+  const [invitation, session] = await Promise.all([
+    getCoSpeakerInvitationByToken(token),
+    auth(),
+  ]);
+
+  const signedInEmail = session?.user?.email ?? null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      {!invitation ? (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="w-12 h-12 mx-auto mb-4 text-yellow-500" />
+            <CardTitle>Invalid Link</CardTitle>
+            <CardDescription>
+              This invitation link is invalid or has been replaced by a newer one.
+              Please use the latest email you received.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : invitation.state === 'PENDING' ? (
+        <CoSpeakerInvitationForm
+          token={token}
+          eventName={invitation.event.name}
+          submissionTitle={invitation.submission.title}
+          inviterName={invitation.inviterName}
+          invitedEmail={invitation.invitedEmail}
+          coSpeakerName={invitation.coSpeakerName}
+          expiresAt={invitation.expiresAt ? format(invitation.expiresAt, 'MMMM d, yyyy') : null}
+          hasAccount={invitation.hasAccount}
+          signedInEmail={signedInEmail}
+          emailMatches={signedInEmail !== null && invitationEmailMatches(invitation.invitedEmail, signedInEmail)}
+          submissionPath={`/events/${invitation.event.slug}/submissions/${invitation.submission.id}`}
+        />
+      ) : (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            {invitation.state === 'ACCEPTED' ? (
+              <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+            ) : invitation.state === 'DECLINED' ? (
+              <XCircle className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            ) : (
+              <Clock className="w-12 h-12 mx-auto mb-4 text-yellow-500" />
+            )}
+            <CardTitle>{CO_SPEAKER_INVITATION_STATE_LABELS[invitation.state]}</CardTitle>
+            <CardDescription>
+              &ldquo;{invitation.submission.title}&rdquo; at {invitation.event.name}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground text-center">
+              {invitation.state === 'ACCEPTED' && (
+                <>
+                  You are a co-speaker on this submission.{' '}
+                  <a
+                    href={`/events/${invitation.event.slug}/submissions/${invitation.submission.id}`}
+                    className="underline"
+                  >View the submission</a>
+                </>
+              )}
+              {invitation.state === 'DECLINED' && 'You declined this invitation.'}
+              {invitation.state === 'EXPIRED' &&
+                'This invitation has expired. Ask the speaker who added you to send a new one.'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+/**
+ * Speaker Confirmation Form
+ *
+ * Confirm attendance with the code of conduct and recording agreements
+ * and optional travel needs, or decline with an optional reason.
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/use-api';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Mic } from 'lucide-react';
+
+interface ConfirmationFormProps {
+  token: string;
+  eventName: string;
+  submissionTitle: string;
+  speakerName: string | null;
+  deadline: string;
+  codeOfConductUrl: string | null;
+}
+
+export function ConfirmationForm({
+  token,
+  eventName,
+  submissionTitle,
+  speakerName,
+  deadline,
+  codeOfConductUrl,
+}: ConfirmationFormProps) {
+  const router = useRouter();
+  const api = useApi<{ status: string }>();
+  const [agreedToCodeOfConduct, setAgreedToCodeOfConduct] = useState(false);
+  const [agreedToRecording, setAgreedToRecording] = useState(false);
+  const [travelNeeds, setTravelNeeds] = useState('');
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const respond = async (body: Record<string, unknown>, message: string) => {
+    const { error } = await api.post(`/api/public/confirmations/${token}`, body);
+    if (!error) {
+      toast.success(message);
+      router.refresh();
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <Mic className="w-10 h-10 mb-2 text-primary" />
+        <CardTitle>Confirm your talk</CardTitle>
+        <CardDescription>
+          {speakerName ? `${speakerName}, your` : 'Your'} talk &ldquo;{submissionTitle}&rdquo; was
+          accepted for {eventName}. Please confirm by {deadline}.
+        </CardDescription>
+      </CardHeader>
+
+      {!declining ? (
+        <>
+          <CardContent className="space-y-5">
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="codeOfConduct"
+                checked={agreedToCodeOfConduct}
+                onCheckedChange={(checked) => setAgreedToCodeOfConduct(checked === true)}
+              />
+              <Label htmlFor="codeOfConduct" className="font-normal leading-snug">
+                <span>
+                  I agree to the event&apos;s{' '}
+                  {codeOfConductUrl ? (
+                    <a href={codeOfConductUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                      code of conduct
+                    </a>
+                  ) : (
+                    'code of conduct'
+                  )}
+                </span>
+              </Label>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="recording"
+                checked={agreedToRecording}
+                onCheckedChange={(checked) => setAgreedToRecording(checked === true)}
+              />
+              <Label htmlFor="recording" className="font-normal leading-snug">
+                I agree to my talk being recorded and published
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="travelNeeds">Travel or accessibility needs (optional)</Label>
+              <Textarea
+                id="travelNeeds"
+                value={travelNeeds}
+                onChange={(e) => setTravelNeeds(e.target.value)}
+                placeholder="Flights, accommodation, visa letter, accessibility requirements..."
+                maxLength={2000}
+                rows={4}
+              />
+              <p className="text-xs text-muted-foreground">
+                Only shared with the event organizers.
+              </p>
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-between gap-2">
+            <Button variant="ghost" onClick={() => setDeclining(true)} disabled={api.isLoading}>
+              I can&apos;t make it
+            </Button>
+            <Button
+              onClick={() => respond(
+                { action: 'confirm', agreedToCodeOfConduct, agreedToRecording, travelNeeds },
+                'Thank you for confirming!'
+              )}
+              disabled={!agreedToCodeOfConduct || api.isLoading}
+            >
+              {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm attendance
+            </Button>
+          </CardFooter>
+        </>
+      ) : (
+        <>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Declining withdraws your talk from {eventName}. This cannot be undone.
+            </p>
+            <Label htmlFor="reason">Reason (optional)</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={2000}
+              rows={3}
+            />
+          </CardContent>
+          <CardFooter className="flex justify-between gap-2">
+            <Button variant="ghost" onClick={() => setDeclining(false)} disabled={api.isLoading}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => respond({ action: 'decline', reason }, 'Your talk has been withdrawn')}
+              disabled={api.isLoading}
+            >
+              {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Decline talk
+            </Button>
+          </CardFooter>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Speaker Confirmation Page
+ *
+ * Landing page for the link emailed to accepted speakers. Shows the talk
+ * and deadline and lets the speaker confirm or decline. No sign-in is
+ * needed; the link itself identifies the talk.
+ */
+
+import { format } from 'date-fns';
+import { getConfirmationByToken, CONFIRMATION_STATE_LABELS } from '@/lib/confirmations';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { ConfirmationForm } from './confirmation-form';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export const metadata = {
+  title: 'Confirm Your Talk',
+};
+
+export default async function SpeakerConfirmationPage({ params }: PageProps) {
+  const { token } = await params;
+  const confirmation = await getConfirmationByToken(token);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      {!confirmation ? (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="w-12 h-12 mx-auto mb-4 text-yellow-500" />
+            <CardTitle>Invalid Link</CardTitle>
+            <CardDescription>
+              This confirmation link is invalid or has been replaced by a newer one.
+              Please use the latest email from the organizers.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : confirmation.status === 'PENDING' ? (
+        <ConfirmationForm
+          token={token}
+          eventName={confirmation.event.name}
+          submissionTitle={confirmation.submissionTitle}
+          speakerName={confirmation.speakerName}
+          deadline={format(confirmation.deadline, 'MMMM d, yyyy')}
+          codeOfConductUrl={confirmation.event.codeOfConductUrl}
+        />
+      ) : (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            {confirmation.status === 'CONFIRMED' ? (
+              <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+            ) : confirmation.status === 'DECLINED' ? (
+              <XCircle className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            ) : (
+              <Clock className="w-12 h-12 mx-auto mb-4 text-yellow-500" />
+            )}
+            <CardTitle>{CONFIRMATION_STATE_LABELS[confirmation.status]}</CardTitle>
+            <CardDescription>
+              &ldquo;{confirmation.submissionTitle}&rdquo; at {confirmation.event.name}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground text-center">
+              {confirmation.status === 'CONFIRMED' && 'Thank you for confirming. The organizers will be in touch with the details.'}
+              {confirmation.status === 'DECLINED' && 'You declined this talk. Thank you for letting the organizers know.'}
+              {(confirmation.status === 'OVERDUE' || confirmation.status === 'EXPIRED') &&
+                `The deadline of ${format(confirmation.deadline, 'MMMM d, yyyy')} has passed. Please contact the organizers if you still plan to speak.`}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
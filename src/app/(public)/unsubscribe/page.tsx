@@ -0,0 +1,49 @@
+/**
+ * Unsubscribe Page
+ *
+ * Landing page for the unsubscribe link in notification emails. The link
+ * only identifies what to turn off; the user confirms with a button, so
+ * mail scanners following links do not unsubscribe anyone.
+ */
+
+import { verifyUnsubscribeToken, NOTIFICATION_CATEGORY_LABELS } from '@/lib/notifications';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle } from 'lucide-react';
+import { UnsubscribeForm } from './unsubscribe-form';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export const metadata = {
+  title: 'Unsubscribe',
+};
+
+export default async function UnsubscribePage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+  const payload = token ? verifyUnsubscribeToken(token) : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      {!token || !payload ? (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="w-12 h-12 mx-auto mb-4 text-yellow-500" />
+            <CardTitle>Invalid Link</CardTitle>
+            <CardDescription>
+              This unsubscribe link is invalid. You can change which emails you get
+              from the Notifications tab of your account settings.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <UnsubscribeForm
+          token={token}
+          categoryLabel={payload.category ? NOTIFICATION_CATEGORY_LABELS[payload.category] : null}
+        />
+      )}
+    </div>
+  );
+}
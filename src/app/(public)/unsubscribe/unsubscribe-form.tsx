@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * Unsubscribe Form
+ *
+ * Confirm turning off one category of notification emails, or all of them.
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useApi } from '@/hooks/use-api';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BellOff, CheckCircle, Loader2 } from 'lucide-react';
+
+interface UnsubscribeFormProps {
+  token: string;
+  /** Null when the link turns off every category */
+  categoryLabel: string | null;
+}
+
+export function UnsubscribeForm({ token, categoryLabel }: UnsubscribeFormProps) {
+  const api = useApi<{ category: string | null }>();
+  const [done, setDone] = useState(false);
+
+  const handleUnsubscribe = async () => {
+    const { error } = await api.post('/api/public/notifications/unsubscribe', { token });
+    if (!error) {
+      setDone(true);
+    }
+  };
+
+  const what = categoryLabel
+    ? <>&ldquo;{categoryLabel}&rdquo; emails</>
+    : 'all notification emails';
+
+  if (done) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+          <CardTitle>You have been unsubscribed</CardTitle>
+          <CardDescription>
+            You will no longer get {what}. Account emails such as password resets
+            are still sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Link href="/account?tab=notifications" className="text-sm underline">
+            Manage notification settings
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <BellOff className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+        <CardTitle>Unsubscribe</CardTitle>
+        <CardDescription>
+          Stop getting {what}? Account emails such as password resets are always sent.
+        </CardDescription>
+      </CardHeader>
+      <CardFooter className="flex justify-center">
+        <Button onClick={handleUnsubscribe} disabled={api.isLoading}>
+          {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Unsubscribe
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
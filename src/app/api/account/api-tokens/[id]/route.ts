@@ -0,0 +1,45 @@
+/**
+ * Account API Token API
+ *
+ * DELETE /api/account/api-tokens/[id] - Revoke one of the account's tokens
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { revokeApiToken } from '@/lib/api-tokens';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { id } = await params;
+    const revoked = await revokeApiToken(user.id, id, getClientIdentifier(request));
+    if (!revoked) {
+      return notFoundResponse('API token');
+    }
+
+    return successResponse({ revoked: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
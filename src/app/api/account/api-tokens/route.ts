@@ -0,0 +1,61 @@
+/**
+ * Account API Tokens API
+ *
+ * GET  /api/account/api-tokens - The account's personal API tokens
+ * POST /api/account/api-tokens - Create a token (returned once, in full)
+ *
+ * Tokens can't be managed with a token; middleware rejects them here.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  badRequestResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { createApiTokenSchema } from '@/lib/validations/api-token';
+import { ApiTokenError, createApiToken, listApiTokens } from '@/lib/api-tokens';
+
+export async function GET() {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    return successResponse(await listApiTokens(user.id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'authStrict');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const data = createApiTokenSchema.parse(body);
+
+    const result = await createApiToken(user, data, getClientIdentifier(request));
+    return createdResponse(result);
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Personal Data Export API
+ *
+ * GET /api/account/data-export - Download everything stored about the
+ *   current user as a zip (data.json plus uploaded files)
+ *
+ * Covers GDPR access and portability requests (Articles 15 and 20).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { unauthorizedResponse, handleApiError } from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { logActivity } from '@/lib/activity-logger';
+import { buildUserDataArchive } from '@/lib/gdpr';
+
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'dataExport');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const archive = await buildUserDataArchive(user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: 'USER_DATA_EXPORTED',
+      entityType: 'User',
+      entityId: user.id,
+      metadata: { size: archive.length },
+      ipAddress: getClientIdentifier(request),
+    });
+
+    const filename = `my-data-${format(new Date(), 'yyyy-MM-dd')}.zip`;
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
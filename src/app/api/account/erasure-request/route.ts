@@ -0,0 +1,105 @@
+/**
+ * Account Erasure Request API
+ *
+ * GET    /api/account/erasure-request - The current user's latest request
+ * POST   /api/account/erasure-request - Ask for the account to be erased
+ * DELETE /api/account/erasure-request - Cancel the open request
+ *
+ * Requests are reviewed by an admin; approved ones are carried out by the
+ * data-erasure cron job after the grace period.
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  errorResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { createErasureRequestSchema } from '@/lib/validations/data-request';
+import {
+  getUserErasureRequest,
+  createErasureRequest,
+  cancelErasureRequest,
+  isOpenErasureRequest,
+} from '@/lib/gdpr';
+
+export async function GET() {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const request = await getUserErasureRequest(user.id);
+    return successResponse({ request });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    // Compare against the stored account, not the session copy
+    const account = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { id: true, email: true, role: true },
+    });
+    if (!account) {
+      return notFoundResponse('User');
+    }
+
+    const body = await request.json();
+    const data = createErasureRequestSchema.parse(body);
+
+    const result = await createErasureRequest(account, data, getClientIdentifier(request));
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return createdResponse({ request: result.request });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const existing = await getUserErasureRequest(user.id);
+    if (!existing || !isOpenErasureRequest(existing.status)) {
+      return notFoundResponse('Open erasure request');
+    }
+
+    const result = await cancelErasureRequest(user.id, existing.id, getClientIdentifier(request));
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return successResponse({ request: result.request });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Account Notification Preferences API
+ *
+ * GET   /api/account/notification-preferences - The current user's settings
+ * PATCH /api/account/notification-preferences - Change some of them
+ *
+ * Settings cover notification emails only; account emails such as
+ * password resets are always sent.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { updateNotificationPreferencesSchema } from '@/lib/validations/notification-preferences';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/lib/notifications';
+
+export async function GET() {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const preferences = await getNotificationPreferences(user.id);
+    return successResponse({ preferences });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const data = updateNotificationPreferencesSchema.parse(body);
+
+    const preferences = await updateNotificationPreferences(
+      user.id,
+      data.preferences,
+      getClientIdentifier(request)
+    );
+    return successResponse({ preferences });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
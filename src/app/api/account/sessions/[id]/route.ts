@@ -0,0 +1,47 @@
+/**
+ * Account Session API
+ *
+ * DELETE /api/account/sessions/[id] - Sign out one of the account's sessions
+ */
+
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import {
+  successResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { revokeUserSession } from '@/lib/sessions';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const revoked = await revokeUserSession(session.user.id, id, {
+      ipAddress: getClientIdentifier(request),
+    });
+    if (!revoked) {
+      return notFoundResponse('Session');
+    }
+
+    return successResponse({ revoked: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Account Sessions API
+ *
+ * GET    /api/account/sessions - Browsers and devices signed in to the account
+ * DELETE /api/account/sessions - Sign out every session except this one
+ */
+
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { listUserSessions, revokeOtherUserSessions } from '@/lib/sessions';
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return unauthorizedResponse();
+    }
+
+    return successResponse(await listUserSessions(session.user.id, session.sessionId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return unauthorizedResponse();
+    }
+
+    const revoked = await revokeOtherUserSessions(session.user.id, session.sessionId ?? null, {
+      ipAddress: getClientIdentifier(request),
+    });
+    return successResponse({ revoked });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Account Single Sign-On Connection API
+ *
+ * DELETE /api/account/sso/[slug] - Disconnect an identity provider
+ *
+ * Connecting goes through /api/auth/sso/[slug]/login?link=1, since the
+ * user has to sign in at the provider. Disconnecting is refused when it
+ * would leave the user with no way to sign in.
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { logActivity } from '@/lib/activity-logger';
+import { canDisconnectAccount, getSsoAccountProvider } from '@/lib/sso';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { slug } = await params;
+    const provider = await prisma.identityProvider.findUnique({
+      where: { slug },
+      select: { id: true, slug: true, name: true },
+    });
+    if (!provider) {
+      return notFoundResponse('Identity provider');
+    }
+
+    const accountProvider = getSsoAccountProvider(provider.id);
+    if (!(await canDisconnectAccount(user.id, accountProvider))) {
+      return badRequestResponse(
+        'This is your only way to sign in. Set a password with "Forgot password" before disconnecting it.'
+      );
+    }
+
+    const { count } = await prisma.account.deleteMany({
+      where: { userId: user.id, provider: accountProvider },
+    });
+    if (count === 0) {
+      return notFoundResponse('Connection');
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: 'USER_SSO_DISCONNECTED',
+      entityType: 'User',
+      entityId: user.id,
+      metadata: { provider: provider.slug, name: provider.name },
+      ipAddress: getClientIdentifier(request),
+    });
+
+    return successResponse({ disconnected: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Two-Factor Enrollment Confirmation API
+ *
+ * POST /api/account/two-factor/confirm - Turn two-factor on with a code
+ * from the authenticator app. Returns the recovery codes, shown once.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  badRequestResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { twoFactorCodeSchema } from '@/lib/validations/two-factor';
+import { TwoFactorError, confirmTwoFactorEnrollment } from '@/lib/two-factor';
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'auth');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const { code } = twoFactorCodeSchema.parse(body);
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user.id, code, getClientIdentifier(request));
+    return successResponse({ enabled: true, recoveryCodes });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Two-Factor Recovery Codes API
+ *
+ * POST /api/account/two-factor/recovery-codes - Replace the recovery codes
+ * (needs a current code). The old codes stop working immediately.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  badRequestResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { twoFactorCodeSchema } from '@/lib/validations/two-factor';
+import { TwoFactorError, regenerateRecoveryCodes } from '@/lib/two-factor';
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'authStrict');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const { code } = twoFactorCodeSchema.parse(body);
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id, code, getClientIdentifier(request));
+    return successResponse({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
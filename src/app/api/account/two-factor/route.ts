@@ -0,0 +1,88 @@
+/**
+ * Account Two-Factor Authentication API
+ *
+ * GET    /api/account/two-factor - Whether two-factor is on, and required
+ * POST   /api/account/two-factor - Start enrollment (secret and QR code)
+ * DELETE /api/account/two-factor - Turn two-factor off (needs a current code)
+ *
+ * Enrollment is finished at /api/account/two-factor/confirm.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  badRequestResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { twoFactorCodeSchema } from '@/lib/validations/two-factor';
+import {
+  TwoFactorError,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  startTwoFactorEnrollment,
+} from '@/lib/two-factor';
+
+export async function GET() {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    return successResponse(await getTwoFactorStatus(user.id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'auth');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    return successResponse(await startTwoFactorEnrollment(user.id));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'authStrict');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const { code } = twoFactorCodeSchema.parse(body);
+
+    await disableTwoFactor(user.id, code, getClientIdentifier(request));
+    return successResponse({ enabled: false });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Admin Data Request Review API
+ *
+ * PATCH /api/admin/data-requests/[id] - Approve or reject a pending
+ *   erasure request. Approved requests are erased after the grace period.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { reviewErasureRequestSchema } from '@/lib/validations/data-request';
+import { reviewErasureRequest } from '@/lib/gdpr';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const body = await request.json();
+    const data = reviewErasureRequestSchema.parse(body);
+
+    const result = await reviewErasureRequest(id, user, data);
+    if (result.error !== null) {
+      return errorResponse(result.error, result.error === 'Erasure request not found' ? 404 : 400);
+    }
+
+    return successResponse({ request: result.request });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Admin Data Requests API
+ *
+ * GET /api/admin/data-requests - Account erasure requests, open ones first
+ *
+ * Query: status=PENDING|APPROVED|REJECTED|CANCELLED|COMPLETED (optional)
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { listErasureRequests } from '@/lib/gdpr';
+
+const statusSchema = z
+  .enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED'])
+  .optional();
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const status = statusSchema.parse(request.nextUrl.searchParams.get('status') || undefined);
+    const requests = await listErasureRequests(status);
+
+    return successResponse({ requests });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -49,6 +49,20 @@ const SAMPLE_DATA: Record<string, string> = {
   deadline: 'April 1, 2026',
   feedbackSection: '<h2>Feedback</h2><p>Great proposal! We especially liked the practical examples you included.</p>',
   topicsList: '<li>Cloud Architecture</li><li>DevOps</li><li>Security</li>',
+  trackName: 'Backend Engineering',
+  reviewCount: '3',
+  commentPreview: 'I agree on the content, but the abstract could be tighter...',
+  authorName: 'Reviewer 2',
+  pendingCount: '4',
+  timeRemaining: 'in 3 days',
+  reviewerCount: '2',
+  overdueReviewers: '<ul><li>Alex Reviewer: 3 of 8 left</li><li>Sam Reviewer: 1 of 6 left</li></ul>',
+  progressUrl: 'https://example.com/events/techconf-2026',
+  period: 'daily',
+  itemCount: '2',
+  digestItems: '<h2>New submissions (2)</h2><ul><li><a href="https://example.com/submissions/abc123">Building Scalable APIs with GraphQL</a></li><li><a href="https://example.com/submissions/def456">Zero-Downtime Deploys</a></li></ul>',
+  preferencesUrl: 'https://example.com/account?tab=notifications',
+  unsubscribeUrl: 'https://example.com/unsubscribe?token=abc123',
 };
 
 export async function POST(request: NextRequest) {
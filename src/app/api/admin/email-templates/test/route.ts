@@ -47,6 +47,18 @@ const SAMPLE_DATA: Record<string, string> = {
   deadline: 'April 1, 2026',
   feedbackSection: '',
   topicsList: '<li>Technology</li><li>Innovation</li>',
+  trackName: 'Sample Track',
+  reviewCount: '3',
+  commentPreview: 'This is a sample discussion comment...',
+  authorName: 'Test Reviewer',
+  pendingCount: '2',
+  timeRemaining: 'in 3 days',
+  reviewerCount: '1',
+  overdueReviewers: '<ul><li>Test Reviewer: 2 of 5 left</li></ul>',
+  progressUrl: '',
+  period: 'daily',
+  itemCount: '1',
+  digestItems: '<h2>New submissions (1)</h2><ul><li>Sample Talk Title</li></ul>',
 };
 
 export async function POST(request: NextRequest) {
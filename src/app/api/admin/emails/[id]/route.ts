@@ -0,0 +1,84 @@
+/**
+ * Admin Email Actions API
+ *
+ * POST /api/admin/emails/[id] - Resend an email. Failed and cancelled
+ *   emails are requeued; sent ones are copied. Delivery is attempted
+ *   straight away.
+ * DELETE /api/admin/emails/[id] - Cancel an email still in the queue
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import { emailService, resendEmail, cancelEmail } from '@/lib/email';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const result = await resendEmail(id, user, getClientIdentifier(request));
+    if (result.error !== null) {
+      return errorResponse(result.error, result.error === 'Email not found' ? 404 : 400);
+    }
+
+    const delivery = await emailService.sendQueued(result.email.id);
+
+    return successResponse({
+      email: result.email,
+      delivered: delivery?.success ?? false,
+      error: delivery && !delivery.success ? delivery.error ?? null : null,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const result = await cancelEmail(id, user, getClientIdentifier(request));
+    if (result.error !== null) {
+      return errorResponse(result.error, result.error === 'Email not found' ? 404 : 400);
+    }
+
+    return successResponse({ email: result.email });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
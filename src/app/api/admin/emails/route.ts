@@ -0,0 +1,55 @@
+/**
+ * Admin Email Log API
+ *
+ * GET /api/admin/emails - Search the outbound email log, newest first
+ *
+ * Query: search (recipient or subject), status, templateType, limit, offset
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  paginatedResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { listOutboundEmails } from '@/lib/email';
+
+const filtersSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  status: z.enum(['QUEUED', 'SENDING', 'SENT', 'FAILED', 'CANCELLED']).optional(),
+  templateType: z.string().max(100).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters = filtersSchema.parse({
+      search: searchParams.get('search') || undefined,
+      status: searchParams.get('status') || undefined,
+      templateType: searchParams.get('templateType') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+    });
+
+    const { emails, total } = await listOutboundEmails(filters);
+
+    return paginatedResponse(emails, total, filters.limit, filters.offset);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Encryption Key Rotation Progress API
+ *
+ * GET /api/admin/encryption/rotations/[jobId] - Progress, errors and
+ *   verification result of a rotation job
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getKeyRotation } from '@/lib/key-rotation';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { jobId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const job = await getKeyRotation(jobId);
+    if (!job) {
+      return notFoundResponse('Key rotation');
+    }
+
+    return successResponse(job);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
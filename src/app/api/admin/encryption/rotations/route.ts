@@ -0,0 +1,94 @@
+/**
+ * Encryption Key Rotation API
+ *
+ * GET /api/admin/encryption/rotations - Configured key IDs and recent
+ *   rotation jobs
+ * POST /api/admin/encryption/rotations - Re-encrypt every stored value with
+ *   the primary key in the background
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier, rateLimitMiddleware } from '@/lib/rate-limit';
+import { getPrimaryKey, getRetiredKeys } from '@/lib/security/encryption';
+import {
+  startKeyRotation,
+  runKeyRotation,
+  getKeyRotation,
+  listKeyRotations,
+} from '@/lib/key-rotation';
+
+// ============================================================================
+// GET /api/admin/encryption/rotations
+// ============================================================================
+
+export async function GET() {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    return successResponse({
+      primaryKeyId: getPrimaryKey().id,
+      retiredKeyIds: getRetiredKeys().map(key => key.id),
+      jobs: await listKeyRotations(),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// POST /api/admin/encryption/rotations
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const rateLimited = rateLimitMiddleware(request, 'api');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const result = await startKeyRotation({
+      startedById: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+    if (result.error !== null) {
+      return errorResponse(result.error, 409);
+    }
+
+    // Process in the background; the page polls for progress and the
+    // cron job resumes the rotation if this process stops
+    runKeyRotation(result.job.id).catch(err => {
+      console.error('Failed to run key rotation:', err);
+    });
+
+    return createdResponse(await getKeyRotation(result.job.id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Encryption Key Verification API
+ *
+ * POST /api/admin/encryption/verify - Scan every encrypted value and count
+ *   those still on a retired or legacy key
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier, rateLimitMiddleware } from '@/lib/rate-limit';
+import { verifyKeyRotation } from '@/lib/key-rotation';
+
+export async function POST(request: NextRequest) {
+  const rateLimited = rateLimitMiddleware(request, 'api');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (user.role !== 'ADMIN') {
+      return forbiddenResponse('Admin access required');
+    }
+
+    const verification = await verifyKeyRotation({
+      verifiedById: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+
+    return successResponse(verification);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Admin User Session API
+ *
+ * DELETE /api/admin/users/[id]/sessions/[sessionId] - Sign out one of the user's sessions
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageSettings } from '@/lib/api/auth';
+import {
+  successResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import { revokeUserSession } from '@/lib/sessions';
+
+interface RouteParams {
+  params: Promise<{ id: string; sessionId: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: userId, sessionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!canManageSettings(user)) {
+      return forbiddenResponse('Only administrators can sign users out');
+    }
+
+    const revoked = await revokeUserSession(userId, sessionId, {
+      actorId: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+    if (!revoked) {
+      return notFoundResponse('Session');
+    }
+
+    return successResponse({ revoked: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Admin User Sessions API
+ *
+ * GET    /api/admin/users/[id]/sessions - Browsers and devices the user is signed in on
+ * DELETE /api/admin/users/[id]/sessions - Sign the user out everywhere
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageSettings } from '@/lib/api/auth';
+import {
+  successResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import { listUserSessions, revokeAllUserSessions } from '@/lib/sessions';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: userId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!canManageSettings(user)) {
+      return forbiddenResponse('Only administrators can view user sessions');
+    }
+
+    return successResponse(await listUserSessions(userId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: userId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!canManageSettings(user)) {
+      return forbiddenResponse('Only administrators can sign users out');
+    }
+
+    const target = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!target) {
+      return notFoundResponse('User');
+    }
+
+    await revokeAllUserSessions(userId, {
+      actorId: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+    return successResponse({ revoked: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
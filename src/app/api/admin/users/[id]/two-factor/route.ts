@@ -0,0 +1,51 @@
+/**
+ * Admin Two-Factor Reset API
+ *
+ * DELETE /api/admin/users/[id]/two-factor - Turn off a user's two-factor
+ * authentication when they have lost their authenticator and recovery
+ * codes. Signs the user out of every session.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageSettings } from '@/lib/api/auth';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import {
+  successResponse,
+  badRequestResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { TwoFactorError, resetTwoFactor } from '@/lib/two-factor';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: userId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!canManageSettings(user)) {
+      return forbiddenResponse('Only administrators can reset two-factor authentication');
+    }
+
+    // Admins turn their own off from account settings, with a code
+    if (userId === user.id) {
+      return badRequestResponse('You cannot reset your own two-factor authentication');
+    }
+
+    await resetTwoFactor(userId, user.id, getClientIdentifier(request));
+    return successResponse({ reset: true });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
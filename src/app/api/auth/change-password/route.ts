@@ -4,7 +4,8 @@
  * POST /api/auth/change-password
  * 
  * Allows authenticated users to change their password.
- * Requires the current password for verification.
+ * Requires the current password for verification. Every other session is
+ * signed out; the one that changed the password stays signed in.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,6 +14,7 @@ import { prisma } from '@/lib/db/prisma';
 import { hashPassword, verifyPassword, changePasswordSchema } from '@/lib/auth';
 import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
 import { logActivity } from '@/lib/activity-logger';
+import { keepUserSession } from '@/lib/sessions';
 import { config } from '@/lib/env';
 
 // Minimum response time to prevent timing attacks
@@ -109,14 +111,20 @@ export async function POST(request: NextRequest) {
     const newPasswordHash = await hashPassword(newPassword);
     
     // Update password and increment sessionVersion to invalidate other sessions
-    await prisma.user.update({
+    const updated = await prisma.user.update({
       where: { id: user.id },
       data: {
         passwordHash: newPasswordHash,
         sessionVersion: { increment: 1 },
       },
+      select: { sessionVersion: true },
     });
     
+    // Move this session onto the new version so it stays signed in
+    if (session.sessionId) {
+      await keepUserSession(user.id, session.sessionId, updated.sessionVersion);
+    }
+    
     // Log successful password change
     await logActivity({
       userId: user.id,
@@ -133,7 +141,9 @@ export async function POST(request: NextRequest) {
     }
     
     return ensureMinResponseTime(startTime, NextResponse.json({
-      message: 'Your password has been changed successfully. You may need to sign in again on other devices.',
+      message: session.sessionId
+        ? 'Your password has been changed successfully. Your other sessions have been signed out.'
+        : 'Your password has been changed successfully. You may need to sign in again on other devices.',
     }));
   } catch (error) {
     console.error('Change password error:', error);
@@ -0,0 +1,179 @@
+/**
+ * SSO Sign-In Callback
+ *
+ * GET  /api/auth/sso/[slug]/callback?code=...&state=...  (OIDC)
+ * POST /api/auth/sso/[slug]/callback  SAMLResponse, RelayState  (SAML)
+ *
+ * Checks the response against the sign-in this browser started, resolves
+ * the local user and signs them in through the "sso" credentials
+ * provider. Users with two-factor authentication are sent to the sign-in
+ * page for their code, with the login ticket kept in a cookie. When
+ * connecting a provider from account settings, the user is returned to
+ * where they came from instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CredentialsSignin } from 'next-auth';
+import { signIn } from '@/lib/auth';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  SSO_STATE_COOKIE,
+  SSO_TWO_FACTOR_COOKIE,
+  SSO_TWO_FACTOR_MAX_AGE_SECONDS,
+  SsoError,
+  createLoginTicket,
+  decodeFlowState,
+  exchangeOidcCode,
+  flowCookieOptions,
+  getEnabledIdentityProvider,
+  getSsoErrorUrl,
+  resolveSsoUser,
+  toOidcClient,
+  toSamlClient,
+  validateSamlResponse,
+} from '@/lib/sso';
+import { config } from '@/lib/env';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+interface ProviderResponse {
+  state: string | null;
+  code?: string | null;
+  samlResponse?: string | null;
+}
+
+interface SignInResult {
+  location: string;
+  /** Login ticket to keep while the user enters their two-factor code */
+  twoFactorTicket?: string;
+}
+
+async function completeSignIn(
+  request: NextRequest,
+  slug: string,
+  received: ProviderResponse
+): Promise<SignInResult> {
+  const flow = decodeFlowState(request.cookies.get(SSO_STATE_COOKIE)?.value);
+  if (!flow || !received.state || flow.state !== received.state) {
+    throw new SsoError('SsoFailed', 'Sign-in state is missing, expired or does not match');
+  }
+
+  const provider = await getEnabledIdentityProvider(slug);
+  if (!provider || provider.id !== flow.providerId) {
+    throw new SsoError('SsoUnavailable', `No enabled identity provider "${slug}"`);
+  }
+
+  let identity;
+  if (provider.type === 'OIDC') {
+    if (!received.code || !flow.codeVerifier || !flow.nonce) {
+      throw new SsoError('SsoFailed', 'OIDC callback is missing the authorization code');
+    }
+    identity = await exchangeOidcCode(toOidcClient(provider), {
+      code: received.code,
+      codeVerifier: flow.codeVerifier,
+      nonce: flow.nonce,
+    });
+  } else {
+    if (!received.samlResponse || !flow.requestId) {
+      throw new SsoError('SsoFailed', 'SAML callback is missing the response');
+    }
+    identity = await validateSamlResponse(toSamlClient(provider), {
+      samlResponse: received.samlResponse,
+      requestId: flow.requestId,
+    });
+  }
+
+  const user = await resolveSsoUser(provider, identity, { linkUserId: flow.linkUserId });
+
+  if (flow.linkUserId) {
+    await logActivity({
+      userId: user.id,
+      action: 'USER_SSO_CONNECTED',
+      entityType: 'User',
+      entityId: user.id,
+      metadata: { provider: provider.slug, name: provider.name },
+    });
+    return { location: `${config.app.url}${flow.callbackUrl}` };
+  }
+
+  try {
+    const location = await signIn('sso', {
+      ticket: createLoginTicket(user.id),
+      redirect: false,
+      redirectTo: flow.callbackUrl,
+    });
+    return { location: typeof location === 'string' ? location : `${config.app.url}${flow.callbackUrl}` };
+  } catch (error) {
+    if (!(error instanceof CredentialsSignin) || error.code !== 'TWO_FACTOR_REQUIRED') {
+      throw error;
+    }
+    const query = new URLSearchParams({ sso: 'two-factor', callbackUrl: flow.callbackUrl });
+    return {
+      location: `${config.app.url}/auth/signin?${query}`,
+      twoFactorTicket: createLoginTicket(user.id, new Date(), SSO_TWO_FACTOR_MAX_AGE_SECONDS * 1000),
+    };
+  }
+}
+
+async function handleCallback(
+  request: NextRequest,
+  { params }: RouteParams,
+  received: ProviderResponse
+) {
+  let result: SignInResult;
+  try {
+    const { slug } = await params;
+    result = await completeSignIn(request, slug, received);
+  } catch (error) {
+    result = { location: getSsoErrorUrl(error) };
+  }
+
+  // 303 so a SAML POST is followed with a GET
+  const response = NextResponse.redirect(result.location, 303);
+  response.cookies.set(SSO_STATE_COOKIE, '', { ...flowCookieOptions(), maxAge: 0 });
+  if (result.twoFactorTicket) {
+    response.cookies.set(SSO_TWO_FACTOR_COOKIE, result.twoFactorTicket, {
+      ...flowCookieOptions(),
+      maxAge: SSO_TWO_FACTOR_MAX_AGE_SECONDS,
+    });
+  }
+  return response;
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  const rateLimited = rateLimitMiddleware(request, 'auth');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  if (searchParams.get('error')) {
+    return handleCallback(request, context, { state: null });
+  }
+  return handleCallback(request, context, {
+    state: searchParams.get('state'),
+    code: searchParams.get('code'),
+  });
+}
+
+export async function POST(request: NextRequest, context: RouteParams) {
+  const rateLimited = rateLimitMiddleware(request, 'auth');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  let received: ProviderResponse = { state: null };
+  try {
+    const form = await request.formData();
+    received = {
+      state: form.get('RelayState') as string | null,
+      samlResponse: form.get('SAMLResponse') as string | null,
+    };
+  } catch {
+    // Not a form post; rejected below as a state mismatch
+  }
+  return handleCallback(request, context, received);
+}
@@ -0,0 +1,86 @@
+/**
+ * SSO Sign-In Start
+ *
+ * GET /api/auth/sso/[slug]/login?callbackUrl=/dashboard
+ *
+ * Sends the browser to the identity provider. The state, nonce and PKCE
+ * verifier (OIDC) or request ID (SAML) travel in a signed cookie until
+ * the provider sends the user back to the callback route. With ?link=1 a
+ * signed-in user connects the provider to their own account instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import {
+  SSO_STATE_COOKIE,
+  SsoError,
+  createSamlRequestId,
+  encodeFlowState,
+  flowCookieOptions,
+  getEnabledIdentityProvider,
+  getOidcAuthorizationUrl,
+  getSamlAuthorizationUrl,
+  getSsoErrorUrl,
+  randomToken,
+  safeCallbackUrl,
+  toOidcClient,
+  toSamlClient,
+  type SsoFlowState,
+} from '@/lib/sso';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const rateLimited = rateLimitMiddleware(request, 'auth');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  try {
+    const { slug } = await params;
+    const provider = await getEnabledIdentityProvider(slug);
+    if (!provider) {
+      throw new SsoError('SsoUnavailable', `No enabled identity provider "${slug}"`);
+    }
+
+    const flow: SsoFlowState = {
+      providerId: provider.id,
+      state: randomToken(),
+      callbackUrl: safeCallbackUrl(request.nextUrl.searchParams.get('callbackUrl')),
+    };
+
+    if (request.nextUrl.searchParams.get('link') === '1') {
+      const session = await getSession();
+      if (!session?.user?.id) {
+        return NextResponse.redirect(new URL('/auth/signin', request.url));
+      }
+      flow.linkUserId = session.user.id;
+    }
+
+    let location: string;
+    if (provider.type === 'OIDC') {
+      flow.nonce = randomToken();
+      flow.codeVerifier = randomToken();
+      location = await getOidcAuthorizationUrl(toOidcClient(provider), {
+        state: flow.state,
+        nonce: flow.nonce,
+        codeVerifier: flow.codeVerifier,
+      });
+    } else {
+      flow.requestId = createSamlRequestId(randomToken());
+      location = await getSamlAuthorizationUrl(toSamlClient(provider), {
+        relayState: flow.state,
+        requestId: flow.requestId,
+      });
+    }
+
+    const response = NextResponse.redirect(location);
+    response.cookies.set(SSO_STATE_COOKIE, encodeFlowState(flow), flowCookieOptions());
+    return response;
+  } catch (error) {
+    return NextResponse.redirect(getSsoErrorUrl(error));
+  }
+}
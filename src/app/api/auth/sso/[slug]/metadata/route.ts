@@ -0,0 +1,34 @@
+/**
+ * SAML Service Provider Metadata
+ *
+ * GET /api/auth/sso/[slug]/metadata
+ *
+ * Metadata XML for registering this site with a SAML identity provider.
+ * Its URL is also the service provider's entity ID.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSamlMetadata, getSsoProviderUrls } from '@/lib/sso';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { slug } = await params;
+  const provider = await prisma.identityProvider.findUnique({
+    where: { slug },
+    select: { type: true },
+  });
+
+  if (!provider || provider.type !== 'SAML') {
+    return NextResponse.json({ error: 'Identity provider not found' }, { status: 404 });
+  }
+
+  const urls = getSsoProviderUrls(slug);
+  return new NextResponse(
+    getSamlMetadata({ spEntityId: urls.metadataUrl, callbackUrl: urls.callbackUrl }),
+    { headers: { 'Content-Type': 'application/xml; charset=utf-8' } }
+  );
+}
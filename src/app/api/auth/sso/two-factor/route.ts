@@ -0,0 +1,71 @@
+/**
+ * SSO Two-Factor Step
+ *
+ * POST /api/auth/sso/two-factor  { code }
+ *
+ * Finishes a single sign-on for a user with two-factor authentication.
+ * The callback keeps the login ticket in a short-lived httpOnly cookie and
+ * sends the user to the sign-in page, which posts their authenticator or
+ * recovery code here.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CredentialsSignin } from 'next-auth';
+import { z } from 'zod';
+import { signIn } from '@/lib/auth';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { SSO_TWO_FACTOR_COOKIE, flowCookieOptions } from '@/lib/sso';
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1).max(64),
+});
+
+function clearTicket(response: NextResponse): NextResponse {
+  response.cookies.set(SSO_TWO_FACTOR_COOKIE, '', { ...flowCookieOptions(), maxAge: 0 });
+  return response;
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimited = rateLimitMiddleware(request, 'auth');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  const ticket = request.cookies.get(SSO_TWO_FACTOR_COOKIE)?.value;
+  if (!ticket) {
+    return NextResponse.json(
+      { error: 'Your sign-in has expired. Please sign in again.', code: 'SSO_EXPIRED' },
+      { status: 401 }
+    );
+  }
+
+  const result = codeSchema.safeParse(await request.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Enter your authentication code' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await signIn('sso', { ticket, code: result.data.code, redirect: false });
+  } catch (error) {
+    if (!(error instanceof CredentialsSignin)) {
+      console.error('[SSO] Two-factor sign-in failed:', error);
+      return NextResponse.json({ error: 'Sign-in failed' }, { status: 500 });
+    }
+    if (error.code === 'INVALID_TWO_FACTOR_CODE') {
+      return NextResponse.json(
+        { error: 'Invalid authentication code', code: error.code },
+        { status: 401 }
+      );
+    }
+    // The ticket expired or its user is gone
+    return clearTicket(NextResponse.json(
+      { error: 'Your sign-in has expired. Please sign in again.', code: 'SSO_EXPIRED' },
+      { status: 401 }
+    ));
+  }
+
+  return clearTicket(NextResponse.json({ success: true }));
+}
@@ -0,0 +1,98 @@
+/**
+ * Bulk Submission Operations Cron Endpoint
+ * 
+ * Runs queued bulk submission operations and resumes ones interrupted by
+ * a server restart. Operations normally start as soon as they are
+ * created; this is the safety net. The job worker runs it every 10 minutes
+ * as the `bulk-operations` scheduled task, so no cron needs to be set up;
+ * POST runs it on demand.
+ * 
+ * Security:
+ * - Protected by CRON_SECRET environment variable
+ * - Returns minimal information to prevent info leakage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronAuth } from '@/lib/api/cron-auth';
+import { prisma } from '@/lib/db/prisma';
+import { resumeBulkOperations } from '@/lib/bulk-operations';
+
+/**
+ * GET - Read-only status check
+ * 
+ * Returns how many operations are queued and running without
+ * changing anything.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Bulk Operations')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const [pending, running] = await Promise.all([
+      prisma.submissionBulkOperation.count({ where: { status: 'PENDING' } }),
+      prisma.submissionBulkOperation.count({ where: { status: 'RUNNING' } }),
+    ]);
+    
+    return NextResponse.json({
+      status: 'ok',
+      pending,
+      running,
+      message: 'Use POST to run queued operations',
+    });
+    
+  } catch (error) {
+    console.error('[Bulk Operations] Error getting status:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to get bulk operation status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Requeue stalled operations and run everything queued
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Bulk Operations')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  
+  try {
+    const { requeued, processed } = await resumeBulkOperations();
+    
+    if (requeued > 0 || processed > 0) {
+      console.log(`[Bulk Operations] Requeued ${requeued}, processed ${processed} operations`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      requeued,
+      processed,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('[Bulk Operations] Error processing operations:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Bulk operation processing failed',
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
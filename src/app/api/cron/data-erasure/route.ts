@@ -0,0 +1,96 @@
+/**
+ * Data Erasure Cron Endpoint
+ * 
+ * Carries out approved account erasure requests whose grace period has
+ * ended. The job worker runs it hourly as the `data-erasure` scheduled
+ * task, so no cron needs to be set up; POST runs it on demand.
+ * 
+ * Security:
+ * - Protected by CRON_SECRET environment variable
+ * - Returns minimal information to prevent info leakage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronAuth } from '@/lib/api/cron-auth';
+import { prisma } from '@/lib/db/prisma';
+import { processDueErasures } from '@/lib/gdpr';
+
+/**
+ * GET - Read-only status check
+ * 
+ * Returns how many erasure requests are awaiting review and due without
+ * changing anything.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Data Erasure')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const now = new Date();
+    const [pending, due] = await Promise.all([
+      prisma.dataErasureRequest.count({ where: { status: 'PENDING' } }),
+      prisma.dataErasureRequest.count({ where: { status: 'APPROVED', scheduledFor: { lte: now } } }),
+    ]);
+    
+    return NextResponse.json({
+      status: 'ok',
+      pending,
+      due,
+      message: 'Use POST to process due erasure requests',
+    });
+    
+  } catch (error) {
+    console.error('[Data Erasure] Error getting status:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to get erasure status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Erase accounts whose approved requests are due
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Data Erasure')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  
+  try {
+    const erased = await processDueErasures();
+    
+    if (erased > 0) {
+      console.log(`[Data Erasure] Erased ${erased} accounts`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      erased,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('[Data Erasure] Error processing erasures:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Data erasure failed',
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Email Queue Cron Endpoint
+ * 
+ * Retries emails whose first delivery failed or was deferred by the
+ * per-recipient rate limit, and deletes delivery log entries past the
+ * retention period. The job worker does both as the `email-queue` (every
+ * 5 minutes) and `email-log-cleanup` (daily) scheduled tasks, so no cron
+ * needs to be set up; POST runs them on demand.
+ * 
+ * Security:
+ * - Protected by CRON_SECRET environment variable
+ * - Returns minimal information to prevent info leakage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronAuth } from '@/lib/api/cron-auth';
+import { prisma } from '@/lib/db/prisma';
+import { emailService, purgeEmailLog } from '@/lib/email';
+
+/**
+ * GET - Read-only status check
+ * 
+ * Returns how many emails are waiting and due without sending anything.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Email Queue')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const [queued, due, failed] = await Promise.all([
+      prisma.outboundEmail.count({ where: { status: 'QUEUED' } }),
+      prisma.outboundEmail.count({ where: { status: 'QUEUED', nextAttemptAt: { lte: new Date() } } }),
+      prisma.outboundEmail.count({ where: { status: 'FAILED' } }),
+    ]);
+    
+    return NextResponse.json({
+      status: 'ok',
+      queued,
+      due,
+      failed,
+      message: 'Use POST to deliver due emails',
+    });
+    
+  } catch (error) {
+    console.error('[Email Queue] Error getting status:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to get email queue status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Deliver due emails and purge old log entries
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Email Queue')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  
+  try {
+    // Null when SMTP is not configured - emails stay queued until it is
+    const summary = await emailService.processQueue();
+    const purged = await purgeEmailLog();
+    
+    if (summary && (summary.sent > 0 || summary.retrying > 0 || summary.failed > 0)) {
+      console.log(`[Email Queue] Sent ${summary.sent}, retrying ${summary.retrying}, failed ${summary.failed}`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      smtpConfigured: summary !== null,
+      requeued: summary?.requeued ?? 0,
+      sent: summary?.sent ?? 0,
+      retrying: summary?.retrying ?? 0,
+      failed: summary?.failed ?? 0,
+      purged,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('[Email Queue] Error processing queue:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Email queue processing failed',
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
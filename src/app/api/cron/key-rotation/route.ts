@@ -0,0 +1,98 @@
+/**
+ * Key Rotation Cron Endpoint
+ * 
+ * Runs queued encryption key rotations and resumes ones interrupted by a
+ * server restart. Rotations normally start as soon as an admin starts
+ * them; this is the safety net. The job worker runs it every 10 minutes
+ * as the `key-rotation` scheduled task, so no cron needs to be set up;
+ * POST runs it on demand.
+ * 
+ * Security:
+ * - Protected by CRON_SECRET environment variable
+ * - Returns minimal information to prevent info leakage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronAuth } from '@/lib/api/cron-auth';
+import { prisma } from '@/lib/db/prisma';
+import { resumeKeyRotations } from '@/lib/key-rotation';
+
+/**
+ * GET - Read-only status check
+ * 
+ * Returns how many rotations are queued and running without
+ * changing anything.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Key Rotation')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const [pending, running] = await Promise.all([
+      prisma.keyRotationJob.count({ where: { status: 'PENDING' } }),
+      prisma.keyRotationJob.count({ where: { status: 'RUNNING' } }),
+    ]);
+    
+    return NextResponse.json({
+      status: 'ok',
+      pending,
+      running,
+      message: 'Use POST to run queued rotations',
+    });
+    
+  } catch (error) {
+    console.error('[Key Rotation] Error getting status:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to get key rotation status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Requeue stalled rotations and run everything queued
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Key Rotation')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  
+  try {
+    const { requeued, processed } = await resumeKeyRotations();
+    
+    if (requeued > 0 || processed > 0) {
+      console.log(`[Key Rotation] Requeued ${requeued}, processed ${processed} rotations`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      requeued,
+      processed,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('[Key Rotation] Error processing rotations:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Key rotation processing failed',
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
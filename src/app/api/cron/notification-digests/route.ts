@@ -0,0 +1,99 @@
+/**
+ * Notification Digests Cron Endpoint
+ * 
+ * Sends daily and weekly notification digests that have come due, drops
+ * held notifications too old to send, and deletes in-app notifications
+ * past the retention period. The job worker does this as the
+ * `notification-digests` (hourly) and `notification-cleanup` (daily)
+ * scheduled tasks, so no cron needs to be set up; POST runs them on
+ * demand.
+ * 
+ * Security:
+ * - Protected by CRON_SECRET environment variable
+ * - Returns minimal information to prevent info leakage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronAuth } from '@/lib/api/cron-auth';
+import { prisma } from '@/lib/db/prisma';
+import { processNotificationDigests, purgeNotifications } from '@/lib/notifications';
+
+/**
+ * GET - Read-only status check
+ * 
+ * Returns how many notifications are held and due without sending anything.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Notification Digests')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const [pending, due] = await Promise.all([
+      prisma.notificationDigestItem.count(),
+      prisma.notificationDigestItem.count({ where: { dueAt: { lte: new Date() } } }),
+    ]);
+    
+    return NextResponse.json({
+      status: 'ok',
+      pending,
+      due,
+      message: 'Use POST to send due digests',
+    });
+    
+  } catch (error) {
+    console.error('[Notification Digests] Error getting status:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to get notification digest status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Send due digests and purge stale items and old notifications
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Notification Digests')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  
+  try {
+    const summary = await processNotificationDigests();
+    const notificationsPurged = await purgeNotifications();
+    
+    if (summary.sent > 0 || summary.failed > 0) {
+      console.log(`[Notification Digests] Sent ${summary.sent} digest(s) with ${summary.items} item(s), failed ${summary.failed}`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      notificationsPurged,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('[Notification Digests] Error sending digests:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Notification digest processing failed',
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 /**
  * Plugin Job Processing Cron Endpoint
- * @version 1.2.0
+ * @version 1.3.0
  * 
- * This endpoint is called periodically to process background plugin jobs.
+ * This endpoint is called periodically to process background plugin jobs
+ * and run scheduled core tasks such as review deadline reminders.
  * 
  * Deployment Options:
  * - Vercel Cron: Add to vercel.json (recommended: every 1-5 minutes)
@@ -23,6 +24,7 @@ import {
   getJobStats,
   cleanupOldJobs,
   recoverStaleLocks,
+  runScheduledTasks,
   JOB_DEFAULTS,
 } from '@/lib/plugins/jobs';
 
@@ -179,6 +181,9 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Run scheduled core tasks whose interval has passed
+    const scheduledTasks = await runScheduledTasks();
+    
     // Get final stats
     const statsAfter = await getJobStats();
     
@@ -191,6 +196,7 @@ export async function POST(request: NextRequest) {
       iterations,
       recoveredLocks,
       cleanedUp: cleanup ? cleanedUp : undefined,
+      scheduledTasks: scheduledTasks.map(({ name, success }) => ({ name, success })),
       durationMs,
       stats: {
         before: statsBefore,
@@ -0,0 +1,97 @@
+/**
+ * Speaker Confirmation Expiry Cron Endpoint
+ * 
+ * Expires speaker confirmations past their deadline and promotes
+ * waitlisted submissions in their place. The job worker runs this hourly
+ * as the `speaker-confirmations` scheduled task, so no cron needs to be
+ * set up; POST runs it on demand.
+ * 
+ * Security:
+ * - Protected by CRON_SECRET environment variable
+ * - Returns minimal information to prevent info leakage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronAuth } from '@/lib/api/cron-auth';
+import { prisma } from '@/lib/db/prisma';
+import { expireOverdueConfirmations } from '@/lib/confirmations';
+
+/**
+ * GET - Read-only status check
+ * 
+ * Returns how many confirmations are pending and overdue without
+ * changing anything.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Speaker Confirmations')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const now = new Date();
+    const [pending, overdue] = await Promise.all([
+      prisma.speakerConfirmation.count({ where: { status: 'PENDING' } }),
+      prisma.speakerConfirmation.count({ where: { status: 'PENDING', deadline: { lt: now } } }),
+    ]);
+    
+    return NextResponse.json({
+      status: 'ok',
+      pending,
+      overdue,
+      message: 'Use POST to expire overdue confirmations',
+    });
+    
+  } catch (error) {
+    console.error('[Speaker Confirmations] Error getting status:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to get confirmation status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Expire overdue confirmations and promote from the waitlist
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronAuth(request, 'Speaker Confirmations')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  
+  try {
+    const expired = await expireOverdueConfirmations();
+    
+    if (expired > 0) {
+      console.log(`[Speaker Confirmations] Expired ${expired} overdue confirmations`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      expired,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('[Speaker Confirmations] Error expiring confirmations:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Confirmation expiry failed',
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Single Review Assignment API
+ *
+ * DELETE /api/events/[id]/assignments/[assignmentId] - Remove an assignment
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  noContentResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { logActivity } from '@/lib/activity-logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; assignmentId: string }>;
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, assignmentId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can remove reviewer assignments');
+    }
+
+    const assignment = await prisma.reviewAssignment.findFirst({
+      where: { id: assignmentId, eventId },
+    });
+
+    if (!assignment) {
+      return notFoundResponse('Assignment');
+    }
+
+    await prisma.reviewAssignment.delete({
+      where: { id: assignmentId },
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: 'REVIEWER_REMOVED',
+      entityType: 'Submission',
+      entityId: assignment.submissionId,
+      metadata: {
+        reviewerId: assignment.reviewerId,
+      },
+    });
+
+    return noContentResponse();
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
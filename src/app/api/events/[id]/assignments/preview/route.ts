@@ -0,0 +1,50 @@
+/**
+ * Review Assignment Preview API
+ *
+ * GET /api/events/[id]/assignments/preview - Generate an assignment plan
+ * without saving it. The plan fills every open submission up to the event's
+ * minReviewsPerTalk, excluding reviewers with a conflict of interest.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { previewReviewAssignments, summarizeAssignmentPreview } from '@/lib/reviews';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can assign reviewers');
+    }
+
+    const preview = await previewReviewAssignments(eventId);
+    if (!preview) {
+      return notFoundResponse('Event');
+    }
+
+    return successResponse(summarizeAssignmentPreview(preview));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Review Assignments API
+ *
+ * Per-submission reviewer assignments. Organizers generate a preview
+ * (see ./preview), adjust it, then commit the pairs they want here.
+ *
+ * GET /api/events/[id]/assignments - List saved assignments
+ * POST /api/events/[id]/assignments - Commit assignments
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { commitAssignmentsSchema } from '@/lib/validations/review';
+import { logActivity } from '@/lib/activity-logger';
+import { getEventAssignments, commitReviewAssignments } from '@/lib/reviews';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/events/[id]/assignments
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can view reviewer assignments');
+    }
+
+    const assignments = await getEventAssignments(eventId);
+
+    return successResponse(assignments);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// POST /api/events/[id]/assignments
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can assign reviewers');
+    }
+
+    const body = await request.json();
+    const data = commitAssignmentsSchema.parse(body);
+
+    const result = await commitReviewAssignments(eventId, data.assignments, user.id);
+
+    if (result.error) {
+      return errorResponse(result.error, 400);
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: 'REVIEWER_ASSIGNED',
+      entityType: 'Event',
+      entityId: eventId,
+      metadata: {
+        count: result.created,
+        automaticCount: data.assignments.filter(a => a.isAutomatic).length,
+      },
+    });
+
+    return createdResponse({ created: result.created });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
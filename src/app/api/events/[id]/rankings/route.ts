@@ -0,0 +1,196 @@
+/**
+ * Review Rankings API
+ *
+ * Used when an event's reviewType is "ranking". Each reviewer orders the
+ * event's submissions (or one track's submissions) from best to worst.
+ *
+ * GET /api/events/[id]/rankings?trackId= - Get the current user's ranking
+ * PUT /api/events/[id]/rankings - Save the current user's ranking
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canReviewEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { saveRankingSchema } from '@/lib/validations/review';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  getReviewMode,
+  getRankingCandidates,
+  getReviewerRankingOrder,
+  saveReviewerRanking,
+} from '@/lib/reviews';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load the event and make sure a requested track belongs to it
+ */
+async function loadEventScope(eventId: string, trackId: string | null) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, reviewType: true },
+  });
+
+  if (!event) {
+    return { event: null, trackValid: false };
+  }
+
+  if (!trackId) {
+    return { event, trackValid: true };
+  }
+
+  const track = await prisma.eventTrack.findFirst({
+    where: { id: trackId, eventId },
+    select: { id: true },
+  });
+
+  return { event, trackValid: track !== null };
+}
+
+// ============================================================================
+// GET /api/events/[id]/rankings
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canReview = await canReviewEvent(user, eventId);
+    if (!canReview) {
+      return forbiddenResponse('You are not on the review team for this event');
+    }
+
+    const trackId = request.nextUrl.searchParams.get('trackId') || null;
+    const { event, trackValid } = await loadEventScope(eventId, trackId);
+
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    if (!trackValid) {
+      return errorResponse('Invalid track for this event', 400);
+    }
+
+    const [candidates, savedOrder] = await Promise.all([
+      getRankingCandidates(eventId, trackId),
+      getReviewerRankingOrder(eventId, user.id, trackId),
+    ]);
+
+    // Saved order first, then anything submitted since the ranking was saved
+    const candidateIds = new Set(candidates.map(c => c.id));
+    const position = new Map(savedOrder.map((id, index) => [id, index]));
+    const submissions = [...candidates].sort((a, b) => {
+      const pa = position.get(a.id) ?? Number.MAX_SAFE_INTEGER;
+      const pb = position.get(b.id) ?? Number.MAX_SAFE_INTEGER;
+      return pa - pb;
+    });
+
+    return successResponse({
+      reviewType: getReviewMode(event.reviewType),
+      trackId,
+      submissions,
+      rankedIds: savedOrder.filter(id => candidateIds.has(id)),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// PUT /api/events/[id]/rankings
+// ============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canReview = await canReviewEvent(user, eventId);
+    if (!canReview) {
+      return forbiddenResponse('You are not on the review team for this event');
+    }
+
+    const body = await request.json();
+    const data = saveRankingSchema.parse(body);
+    const trackId = data.trackId || null;
+
+    const { event, trackValid } = await loadEventScope(eventId, trackId);
+
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    if (getReviewMode(event.reviewType) !== 'ranking') {
+      return errorResponse('This event does not use ranking reviews', 400);
+    }
+
+    if (!trackValid) {
+      return errorResponse('Invalid track for this event', 400);
+    }
+
+    // Every ranked submission must belong to the requested scope
+    const candidates = await getRankingCandidates(eventId, trackId);
+    const candidateIds = new Set(candidates.map(c => c.id));
+    const invalid = data.submissionIds.filter(id => !candidateIds.has(id));
+
+    if (invalid.length > 0) {
+      return errorResponse('Ranking contains submissions that are not part of this event or track', 400);
+    }
+
+    const ranking = await saveReviewerRanking(eventId, user.id, trackId, data.submissionIds);
+
+    // Ranking counts as reviewing: move pending submissions into review
+    if (data.submissionIds.length > 0) {
+      await prisma.submission.updateMany({
+        where: {
+          id: { in: data.submissionIds },
+          status: 'PENDING',
+        },
+        data: {
+          status: 'UNDER_REVIEW',
+          statusUpdatedAt: new Date(),
+        },
+      });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: 'REVIEW_RANKING_SAVED',
+      entityType: 'Event',
+      entityId: eventId,
+      metadata: {
+        trackId,
+        rankedCount: data.submissionIds.length,
+      },
+    });
+
+    return successResponse(ranking);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
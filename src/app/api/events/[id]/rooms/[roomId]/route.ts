@@ -0,0 +1,112 @@
+/**
+ * Single Event Room API Routes
+ * 
+ * PATCH /api/events/[id]/rooms/[roomId] - Update a room
+ * DELETE /api/events/[id]/rooms/[roomId] - Delete a room and its slots
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  noContentResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { updateRoomSchema } from '@/lib/validations/schedule';
+
+interface RouteParams {
+  params: Promise<{ id: string; roomId: string }>;
+}
+
+// ============================================================================
+// PATCH /api/events/[id]/rooms/[roomId]
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, roomId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+    
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+    
+    const canManage = await canManageEvent(user, id);
+    if (!canManage) {
+      return forbiddenResponse('You do not have permission to manage this event');
+    }
+    
+    const room = await prisma.eventRoom.findFirst({
+      where: { id: roomId, eventId: id },
+      select: { id: true },
+    });
+    
+    if (!room) {
+      return notFoundResponse('Room');
+    }
+    
+    const body = await request.json();
+    const data = updateRoomSchema.parse(body);
+    
+    const updated = await prisma.eventRoom.update({
+      where: { id: roomId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.capacity !== undefined && { capacity: data.capacity }),
+        ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+      },
+    });
+    
+    return successResponse(updated);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// DELETE /api/events/[id]/rooms/[roomId]
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, roomId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+    
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+    
+    const canManage = await canManageEvent(user, id);
+    if (!canManage) {
+      return forbiddenResponse('You do not have permission to manage this event');
+    }
+    
+    const room = await prisma.eventRoom.findFirst({
+      where: { id: roomId, eventId: id },
+      select: { id: true },
+    });
+    
+    if (!room) {
+      return notFoundResponse('Room');
+    }
+    
+    // Slots cascade; their submissions return to the unscheduled list
+    await prisma.eventRoom.delete({
+      where: { id: roomId },
+    });
+    
+    return noContentResponse();
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Event Rooms API Routes
+ * 
+ * GET /api/events/[id]/rooms - List rooms for an event
+ * POST /api/events/[id]/rooms - Create a new room
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent, canViewEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { createRoomSchema } from '@/lib/validations/schedule';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/events/[id]/rooms - List rooms
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const { user } = await getAuthenticatedUser();
+    
+    const canView = await canViewEvent(user, id);
+    if (!canView) {
+      return notFoundResponse('Event');
+    }
+    
+    const rooms = await prisma.eventRoom.findMany({
+      where: { eventId: id },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      include: {
+        _count: {
+          select: {
+            slots: true,
+          },
+        },
+      },
+    });
+    
+    return successResponse(rooms);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// POST /api/events/[id]/rooms - Create room
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await getAuthenticatedUser();
+    
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+    
+    const canManage = await canManageEvent(user, id);
+    if (!canManage) {
+      return forbiddenResponse('You do not have permission to manage this event');
+    }
+    
+    const event = await prisma.event.findUnique({
+      where: { id },
+      select: { id: true, _count: { select: { rooms: true } } },
+    });
+    
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+    
+    const body = await request.json();
+    const data = createRoomSchema.parse(body);
+    
+    const room = await prisma.eventRoom.create({
+      data: {
+        eventId: id,
+        name: data.name,
+        capacity: data.capacity ?? null,
+        // New rooms go last unless placed explicitly
+        sortOrder: data.sortOrder ?? event._count.rooms,
+      },
+    });
+    
+    return createdResponse(room);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -11,6 +11,7 @@ import { prisma } from '@/lib/db/prisma';
 import { getAuthenticatedUser, canManageEvent, canViewEvent } from '@/lib/api/auth';
 import {
   successResponse,
+  errorResponse,
   unauthorizedResponse,
   forbiddenResponse,
   notFoundResponse,
@@ -19,6 +20,8 @@ import {
 } from '@/lib/api/response';
 import { updateEventSchema } from '@/lib/validations/event';
 import { EventStatus } from '@prisma/client';
+import { recalculateWeightedScores } from '@/lib/reviews';
+import { toSubmissionFieldData } from '@/lib/submission-fields';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -57,6 +60,9 @@ export async function GET(
         reviewCriteria: {
           orderBy: { sortOrder: 'asc' },
         },
+        submissionFields: {
+          orderBy: { sortOrder: 'asc' },
+        },
         reviewTeam: true,
         _count: {
           select: {
@@ -112,7 +118,7 @@ export async function PATCH(
     // Check if event exists first
     const existingEvent = await prisma.event.findUnique({
       where: { id },
-      select: { id: true },
+      select: { id: true, reviewStartDate: true, reviewEndDate: true },
     });
     
     if (!existingEvent) {
@@ -129,6 +135,16 @@ export async function PATCH(
     const body = await request.json();
     const data = updateEventSchema.parse(body);
     
+    const reviewStartDate = data.reviewStartDate !== undefined
+      ? (data.reviewStartDate ? new Date(data.reviewStartDate) : null)
+      : existingEvent.reviewStartDate;
+    const reviewEndDate = data.reviewEndDate !== undefined
+      ? (data.reviewEndDate ? new Date(data.reviewEndDate) : null)
+      : existingEvent.reviewEndDate;
+    if (reviewStartDate && reviewEndDate && reviewStartDate > reviewEndDate) {
+      return errorResponse('Review period must start before it ends', 400);
+    }
+    
     // Determine status
     const status = data.status === 'PUBLISHED' ? EventStatus.PUBLISHED : 
                    data.status === 'DRAFT' ? EventStatus.DRAFT : undefined;
@@ -171,10 +187,17 @@ export async function PATCH(
     if (data.cfpGuidelines !== undefined) updateData.cfpGuidelines = data.cfpGuidelines || null;
     if (data.speakerBenefits !== undefined) updateData.speakerBenefits = data.speakerBenefits || null;
     
+    // Speaker Confirmation
+    if (data.confirmationDeadlineDays !== undefined) updateData.confirmationDeadlineDays = data.confirmationDeadlineDays;
+    if (data.codeOfConductUrl !== undefined) updateData.codeOfConductUrl = data.codeOfConductUrl || null;
+    
     // Review Settings
     if (data.reviewType !== undefined) updateData.reviewType = data.reviewType;
+    if (data.reviewAnonymity !== undefined) updateData.reviewAnonymity = data.reviewAnonymity;
     if (data.minReviewsPerTalk !== undefined) updateData.minReviewsPerTalk = data.minReviewsPerTalk;
     if (data.enableSpeakerFeedback !== undefined) updateData.enableSpeakerFeedback = data.enableSpeakerFeedback;
+    if (data.reviewStartDate !== undefined) updateData.reviewStartDate = reviewStartDate;
+    if (data.reviewEndDate !== undefined) updateData.reviewEndDate = reviewEndDate;
     
     // Notification Settings
     if (data.notifyOnNewSubmission !== undefined) updateData.notifyOnNewSubmission = data.notifyOnNewSubmission;
@@ -219,22 +242,81 @@ export async function PATCH(
       }
     }
     
-    // Handle review criteria update (delete and recreate)
+    // Handle review criteria update. Criteria are updated in place (matched
+    // by id) so reviews keep their per-criterion scores; removed criteria
+    // take their scores with them.
     if (data.reviewCriteria !== undefined) {
+      const existingCriteria = await prisma.eventReviewCriteria.findMany({
+        where: { eventId: id },
+        select: { id: true },
+      });
+      const existingIds = new Set(existingCriteria.map(c => c.id));
+      const keptIds = new Set(
+        data.reviewCriteria
+          .map(c => c.id)
+          .filter((criteriaId): criteriaId is string => !!criteriaId && existingIds.has(criteriaId))
+      );
+      
       await prisma.eventReviewCriteria.deleteMany({
+        where: { eventId: id, id: { notIn: [...keptIds] } },
+      });
+      
+      for (const [index, criteria] of data.reviewCriteria.entries()) {
+        const values = {
+          name: criteria.name,
+          description: criteria.description || null,
+          weight: criteria.weight,
+          sortOrder: index,
+        };
+        
+        if (criteria.id && keptIds.has(criteria.id)) {
+          await prisma.eventReviewCriteria.update({
+            where: { id: criteria.id },
+            data: values,
+          });
+        } else {
+          await prisma.eventReviewCriteria.create({
+            data: { eventId: id, ...values },
+          });
+        }
+      }
+      
+      // Weights or the set of criteria may have changed
+      await recalculateWeightedScores(id);
+    }
+    
+    // Handle submission fields update. Fields are updated in place (matched
+    // by id) so existing answers stay attached; answers to removed fields
+    // are no longer shown.
+    if (data.submissionFields !== undefined) {
+      const existingFields = await prisma.eventSubmissionField.findMany({
         where: { eventId: id },
+        select: { id: true },
       });
+      const existingIds = new Set(existingFields.map(f => f.id));
+      const keptIds = new Set(
+        data.submissionFields
+          .map(f => f.id)
+          .filter((fieldId): fieldId is string => !!fieldId && existingIds.has(fieldId))
+      );
       
-      if (data.reviewCriteria.length > 0) {
-        await prisma.eventReviewCriteria.createMany({
-          data: data.reviewCriteria.map((criteria, index) => ({
-            eventId: id,
-            name: criteria.name,
-            description: criteria.description || null,
-            weight: criteria.weight,
-            sortOrder: index,
-          })),
-        });
+      await prisma.eventSubmissionField.deleteMany({
+        where: { eventId: id, id: { notIn: [...keptIds] } },
+      });
+      
+      for (const [index, field] of data.submissionFields.entries()) {
+        const values = toSubmissionFieldData(field, index);
+        
+        if (field.id && keptIds.has(field.id)) {
+          await prisma.eventSubmissionField.update({
+            where: { id: field.id },
+            data: values,
+          });
+        } else {
+          await prisma.eventSubmissionField.create({
+            data: { eventId: id, ...values },
+          });
+        }
       }
     }
     
@@ -244,6 +326,7 @@ export async function PATCH(
       include: {
         talkFormats: { orderBy: { sortOrder: 'asc' } },
         reviewCriteria: { orderBy: { sortOrder: 'asc' } },
+        submissionFields: { orderBy: { sortOrder: 'asc' } },
       },
     });
     
@@ -0,0 +1,150 @@
+/**
+ * Schedule Publication API
+ *
+ * POST /api/events/[id]/schedule/publish - Publish (or republish) the
+ *   schedule. Refused while the schedule has conflicts.
+ * DELETE /api/events/[id]/schedule/publish - Unpublish the schedule
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { logActivity } from '@/lib/activity-logger';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { getEventSchedule } from '@/lib/schedule';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/events/[id]/schedule/publish
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can publish the schedule');
+    }
+
+    const schedule = await getEventSchedule(eventId);
+    if (!schedule) {
+      return notFoundResponse('Event');
+    }
+
+    if (schedule.slots.length === 0) {
+      return errorResponse('Add slots to the schedule before publishing it', 400);
+    }
+
+    if (schedule.conflicts.length > 0) {
+      return errorResponse(
+        `Resolve ${schedule.conflicts.length} schedule conflict${schedule.conflicts.length === 1 ? '' : 's'} before publishing`,
+        400
+      );
+    }
+
+    const event = await prisma.event.update({
+      where: { id: eventId },
+      data: { schedulePublishedAt: new Date() },
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: 'SCHEDULE_PUBLISHED',
+      entityType: 'Event',
+      entityId: eventId,
+      metadata: {
+        slotCount: schedule.slots.length,
+        isUpdate: schedule.publishedAt !== null,
+      },
+    });
+
+    const roomNames = new Map(schedule.rooms.map(room => [room.id, room.name]));
+    dispatchHookAsync('event.schedulePublished', {
+      event,
+      slots: schedule.slots.map(slot => ({
+        id: slot.id,
+        roomId: slot.roomId,
+        roomName: roomNames.get(slot.roomId) ?? '',
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        title: slot.title,
+        submissionId: slot.submission?.id ?? null,
+        submissionTitle: slot.submission?.title ?? null,
+      })),
+      publishedBy: { id: user.id, name: user.name ?? null },
+      isUpdate: schedule.publishedAt !== null,
+    });
+
+    return successResponse({ publishedAt: event.schedulePublishedAt });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// DELETE /api/events/[id]/schedule/publish
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can publish the schedule');
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true },
+    });
+
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    await prisma.event.update({
+      where: { id: eventId },
+      data: { schedulePublishedAt: null },
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: 'SCHEDULE_UNPUBLISHED',
+      entityType: 'Event',
+      entityId: eventId,
+    });
+
+    return successResponse({ publishedAt: null });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Event Schedule API
+ *
+ * GET /api/events/[id]/schedule - The event's rooms, slots, unscheduled
+ * accepted submissions and schedule conflicts, for the schedule builder.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getEventSchedule } from '@/lib/schedule';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can build the schedule');
+    }
+
+    const schedule = await getEventSchedule(eventId);
+    if (!schedule) {
+      return notFoundResponse('Event');
+    }
+
+    return successResponse(schedule);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
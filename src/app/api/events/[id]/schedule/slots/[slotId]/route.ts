@@ -0,0 +1,104 @@
+/**
+ * Single Schedule Slot API
+ *
+ * PATCH /api/events/[id]/schedule/slots/[slotId] - Move or resize a slot,
+ *   or place (submissionId) / remove (submissionId: null) a submission
+ * DELETE /api/events/[id]/schedule/slots/[slotId] - Delete a slot
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  noContentResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { updateSlotSchema } from '@/lib/validations/schedule';
+import { updateScheduleSlot } from '@/lib/schedule';
+
+interface RouteParams {
+  params: Promise<{ id: string; slotId: string }>;
+}
+
+// ============================================================================
+// PATCH /api/events/[id]/schedule/slots/[slotId]
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, slotId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can build the schedule');
+    }
+
+    const body = await request.json();
+    const data = updateSlotSchema.parse(body);
+
+    const result = await updateScheduleSlot(eventId, slotId, data);
+    if (result.error === 'Slot not found') {
+      return notFoundResponse('Slot');
+    }
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return successResponse(result.slot);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// DELETE /api/events/[id]/schedule/slots/[slotId]
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, slotId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can build the schedule');
+    }
+
+    const slot = await prisma.scheduleSlot.findFirst({
+      where: { id: slotId, eventId },
+      select: { id: true },
+    });
+
+    if (!slot) {
+      return notFoundResponse('Slot');
+    }
+
+    await prisma.scheduleSlot.delete({
+      where: { id: slotId },
+    });
+
+    return noContentResponse();
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
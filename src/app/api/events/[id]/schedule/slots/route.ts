@@ -0,0 +1,54 @@
+/**
+ * Schedule Slots API
+ *
+ * POST /api/events/[id]/schedule/slots - Create a slot (or several
+ * back-to-back slots) in a room. Times are in the event's timezone and
+ * the length comes from the chosen talk format unless given explicitly.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  createdResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { createSlotSchema } from '@/lib/validations/schedule';
+import { createScheduleSlots } from '@/lib/schedule';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canManage = await canManageEvent(user, eventId);
+    if (!canManage) {
+      return forbiddenResponse('Only event organizers can build the schedule');
+    }
+
+    const body = await request.json();
+    const data = createSlotSchema.parse(body);
+
+    const result = await createScheduleSlots(eventId, data);
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return createdResponse(result.slots);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -3,6 +3,7 @@
  * 
  * GET /api/events/[id]/submissions/[submissionId]/co-speakers - List co-speakers
  * POST /api/events/[id]/submissions/[submissionId]/co-speakers - Add a co-speaker
+ * PATCH /api/events/[id]/submissions/[submissionId]/co-speakers - Resend a co-speaker's invitation
  * DELETE /api/events/[id]/submissions/[submissionId]/co-speakers - Remove a co-speaker
  */
 
@@ -20,7 +21,16 @@ import {
   handleApiError,
 } from '@/lib/api/response';
 import { createCoSpeakerSchema } from '@/lib/validations/submission';
+import { getAnonymityView, redactCoSpeakers } from '@/lib/reviews';
 import { encryptPiiFields, decryptPiiFields, CO_SPEAKER_PII_FIELDS } from '@/lib/security/encryption';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import {
+  inviteCoSpeaker,
+  isAcceptedCoSpeaker,
+  withSpeakerProfiles,
+  getCoSpeakerInvitationState,
+  canResendInvitation,
+} from '@/lib/co-speakers';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string }>;
@@ -59,21 +69,33 @@ export async function GET(
     }
     
     const isOwner = submission.speakerId === user.id;
+    const isSpeaker = isOwner || await isAcceptedCoSpeaker(submissionId, user.id);
     const canReview = await canReviewEvent(user, eventId);
     
-    if (!isOwner && !canReview) {
+    if (!isSpeaker && !canReview) {
       return forbiddenResponse('You do not have access to this submission');
     }
     
     const coSpeakers = await prisma.coSpeaker.findMany({
       where: { submissionId },
       orderBy: { createdAt: 'asc' },
+      omit: { invitationTokenHash: true },
     });
     
-    // Decrypt PII fields before returning
-    const decryptedCoSpeakers = coSpeakers.map(cs => 
-      decryptPiiFields(cs as unknown as Record<string, unknown>, CO_SPEAKER_PII_FIELDS)
-    );
+    // Decrypt PII fields before returning; accepted co-speakers show
+    // their own speaker profile
+    const decryptedCoSpeakers = await withSpeakerProfiles(coSpeakers.map(cs => ({
+      ...decryptPiiFields(cs, CO_SPEAKER_PII_FIELDS),
+      invitationState: getCoSpeakerInvitationState(cs),
+    })));
+    
+    // Blind review: co-speakers are part of the speaker's identity
+    if (!isSpeaker) {
+      const anonymity = await getAnonymityView(eventId, user);
+      if (anonymity.hideSpeaker) {
+        return successResponse(redactCoSpeakers(decryptedCoSpeakers));
+      }
+    }
     
     return successResponse(decryptedCoSpeakers);
   } catch (error) {
@@ -153,6 +175,14 @@ export async function POST(
       },
     });
     
+    // Co-speakers with an email are invited to accept and share access
+    const invited = data.email
+      ? await inviteCoSpeaker(coSpeaker.id, {
+          invitedById: user.id,
+          ipAddress: getClientIdentifier(request),
+        })
+      : null;
+    
     // SECURITY: Don't expose isLinked or linkedUserId in response to prevent email enumeration
     // The linking happens internally but shouldn't reveal user existence to the caller
     // Return decrypted values in response
@@ -163,6 +193,7 @@ export async function POST(
       email: data.email || null,
       bio: data.bio || null,
       avatarUrl: coSpeaker.avatarUrl,
+      invitationState: invited ? getCoSpeakerInvitationState(invited) : null,
       createdAt: coSpeaker.createdAt,
     });
   } catch (error) {
@@ -170,6 +201,86 @@ export async function POST(
   }
 }
 
+// ============================================================================
+// PATCH /api/events/[id]/submissions/[submissionId]/co-speakers
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+    
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+    
+    const coSpeakerId = request.nextUrl.searchParams.get('coSpeakerId');
+    
+    if (!coSpeakerId) {
+      return errorResponse('coSpeakerId query parameter is required', 400);
+    }
+    
+    const submission = await prisma.submission.findFirst({
+      where: {
+        id: submissionId,
+        eventId,
+      },
+      select: {
+        id: true,
+        speakerId: true,
+      },
+    });
+    
+    if (!submission) {
+      return notFoundResponse('Submission');
+    }
+    
+    if (submission.speakerId !== user.id) {
+      return forbiddenResponse('Only the primary speaker can invite co-speakers');
+    }
+    
+    const coSpeaker = await prisma.coSpeaker.findFirst({
+      where: {
+        id: coSpeakerId,
+        submissionId,
+      },
+    });
+    
+    if (!coSpeaker) {
+      return notFoundResponse('Co-speaker');
+    }
+    
+    if (!coSpeaker.email) {
+      return errorResponse('Add an email to invite this co-speaker', 400);
+    }
+    
+    const state = getCoSpeakerInvitationState(coSpeaker);
+    if (state !== null && !canResendInvitation(state)) {
+      return errorResponse('This co-speaker has already answered the invitation', 400);
+    }
+    
+    const invited = await inviteCoSpeaker(coSpeakerId, {
+      invitedById: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+    
+    if (!invited) {
+      return errorResponse('Failed to send the invitation', 400);
+    }
+    
+    return successResponse({
+      id: invited.id,
+      invitationState: getCoSpeakerInvitationState(invited),
+      invitationExpiresAt: invited.invitationExpiresAt,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
 // ============================================================================
 // DELETE /api/events/[id]/submissions/[submissionId]/co-speakers
 // ============================================================================
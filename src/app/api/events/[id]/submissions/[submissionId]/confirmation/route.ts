@@ -0,0 +1,108 @@
+/**
+ * Speaker Confirmation API
+ *
+ * GET /api/events/[id]/submissions/[submissionId]/confirmation - The
+ *   speaker's confirmation answers
+ * POST /api/events/[id]/submissions/[submissionId]/confirmation - Send a
+ *   new confirmation link with a fresh deadline
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import { getConfirmationDetails, requestSpeakerConfirmation } from '@/lib/confirmations';
+
+interface RouteParams {
+  params: Promise<{ id: string; submissionId: string }>;
+}
+
+// ============================================================================
+// GET /api/events/[id]/submissions/[submissionId]/confirmation
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canManageEvent(user, eventId)) {
+      return forbiddenResponse('Only event organizers can view speaker confirmations');
+    }
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: submissionId, eventId },
+      select: { id: true },
+    });
+    if (!submission) {
+      return notFoundResponse('Submission');
+    }
+
+    const confirmation = await getConfirmationDetails(submissionId);
+    if (!confirmation) {
+      return notFoundResponse('Confirmation');
+    }
+
+    return successResponse(confirmation);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// POST /api/events/[id]/submissions/[submissionId]/confirmation
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canManageEvent(user, eventId)) {
+      return forbiddenResponse('Only event organizers can request speaker confirmations');
+    }
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: submissionId, eventId },
+      select: { status: true, isFederated: true },
+    });
+    if (!submission) {
+      return notFoundResponse('Submission');
+    }
+
+    if (submission.status !== 'ACCEPTED' || submission.isFederated) {
+      return errorResponse('Confirmation can only be requested for accepted local submissions', 400);
+    }
+
+    await requestSpeakerConfirmation(submissionId, {
+      requestedById: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+
+    return successResponse(await getConfirmationDetails(submissionId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
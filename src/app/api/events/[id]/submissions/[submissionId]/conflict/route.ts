@@ -0,0 +1,122 @@
+/**
+ * Review Conflict API
+ *
+ * Lets the current reviewer declare (or withdraw) a conflict of interest
+ * with a submission. Declared conflicts remove any assignment and exclude
+ * the reviewer from future automatic assignment to the submission.
+ *
+ * POST /api/events/[id]/submissions/[submissionId]/conflict - Declare conflict
+ * DELETE /api/events/[id]/submissions/[submissionId]/conflict - Withdraw conflict
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canReviewEvent } from '@/lib/api/auth';
+import {
+  createdResponse,
+  noContentResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { declareConflictSchema } from '@/lib/validations/review';
+import { logActivity } from '@/lib/activity-logger';
+import { declareReviewConflict, withdrawReviewConflict } from '@/lib/reviews';
+
+interface RouteParams {
+  params: Promise<{ id: string; submissionId: string }>;
+}
+
+// ============================================================================
+// POST /api/events/[id]/submissions/[submissionId]/conflict
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canReview = await canReviewEvent(user, eventId);
+    if (!canReview) {
+      return forbiddenResponse('You are not on the review team for this event');
+    }
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: submissionId, eventId },
+      select: { id: true },
+    });
+
+    if (!submission) {
+      return notFoundResponse('Submission');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const data = declareConflictSchema.parse(body);
+
+    const conflict = await declareReviewConflict(submissionId, user.id, data.reason || null);
+
+    await logActivity({
+      userId: user.id,
+      action: 'REVIEW_CONFLICT_DECLARED',
+      entityType: 'Submission',
+      entityId: submissionId,
+      metadata: { eventId },
+    });
+
+    return createdResponse(conflict);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// DELETE /api/events/[id]/submissions/[submissionId]/conflict
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: submissionId, eventId },
+      select: { id: true },
+    });
+
+    if (!submission) {
+      return notFoundResponse('Submission');
+    }
+
+    const withdrawn = await withdrawReviewConflict(submissionId, user.id);
+    if (!withdrawn) {
+      return notFoundResponse('Conflict');
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: 'REVIEW_CONFLICT_WITHDRAWN',
+      entityType: 'Submission',
+      entityId: submissionId,
+      metadata: { eventId },
+    });
+
+    return noContentResponse();
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
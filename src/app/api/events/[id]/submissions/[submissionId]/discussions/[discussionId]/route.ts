@@ -0,0 +1,70 @@
+/**
+ * Submission Discussion Thread API
+ *
+ * Lets admins and review team leads pin and resolve threads.
+ *
+ * PATCH /api/events/[id]/submissions/[submissionId]/discussions/[discussionId] - Pin, unpin, resolve or reopen
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canReviewEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import { updateDiscussionThreadSchema } from '@/lib/validations/review';
+import { getDiscussionContext, updateDiscussionThread } from '@/lib/reviews';
+
+interface RouteParams {
+  params: Promise<{ id: string; submissionId: string; discussionId: string }>;
+}
+
+// ============================================================================
+// PATCH /api/events/[id]/submissions/[submissionId]/discussions/[discussionId]
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId, discussionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canReview = await canReviewEvent(user, eventId);
+    if (!canReview) {
+      return forbiddenResponse('You do not have access to this discussion');
+    }
+
+    const context = await getDiscussionContext(eventId, submissionId, user);
+    if (!context) {
+      return notFoundResponse('Submission');
+    }
+    if (context.isSpeaker || !context.canModerate) {
+      return forbiddenResponse('Only review team leads can pin or resolve threads');
+    }
+
+    const body = await request.json();
+    const data = updateDiscussionThreadSchema.parse(body);
+
+    const result = await updateDiscussionThread(context, discussionId, data, getClientIdentifier(request));
+    if (result.error !== null) {
+      return result.error === 'Discussion thread not found'
+        ? notFoundResponse('Discussion thread')
+        : errorResponse(result.error, 400);
+    }
+
+    return successResponse({ id: discussionId, ...data });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Submission Discussion API
+ *
+ * The review team's threaded discussion of a submission. Speakers and
+ * accepted co-speakers never have access, even when they are on the
+ * review team.
+ *
+ * GET /api/events/[id]/submissions/[submissionId]/discussions - List threads
+ * POST /api/events/[id]/submissions/[submissionId]/discussions - Add a comment or reply
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canReviewEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { createSubmissionDiscussionSchema } from '@/lib/validations/review';
+import {
+  getDiscussionContext,
+  getSubmissionDiscussion,
+  createDiscussionPost,
+} from '@/lib/reviews';
+import { notifySubmissionDiscussion } from '@/lib/notifications';
+
+interface RouteParams {
+  params: Promise<{ id: string; submissionId: string }>;
+}
+
+// ============================================================================
+// GET /api/events/[id]/submissions/[submissionId]/discussions
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canReview = await canReviewEvent(user, eventId);
+    if (!canReview) {
+      return forbiddenResponse('You do not have access to this discussion');
+    }
+
+    const context = await getDiscussionContext(eventId, submissionId, user);
+    if (!context) {
+      return notFoundResponse('Submission');
+    }
+    if (context.isSpeaker) {
+      return forbiddenResponse('Speakers cannot see the review team discussion of their own submission');
+    }
+
+    const discussion = await getSubmissionDiscussion(context);
+
+    return successResponse({ ...discussion, canModerate: context.canModerate });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// POST /api/events/[id]/submissions/[submissionId]/discussions
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, submissionId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const canReview = await canReviewEvent(user, eventId);
+    if (!canReview) {
+      return forbiddenResponse('You must be on the review team to take part in discussions');
+    }
+
+    const context = await getDiscussionContext(eventId, submissionId, user);
+    if (!context) {
+      return notFoundResponse('Submission');
+    }
+    if (context.isSpeaker) {
+      return forbiddenResponse('Speakers cannot take part in the review team discussion of their own submission');
+    }
+
+    const body = await request.json();
+    const data = createSubmissionDiscussionSchema.parse(body);
+
+    const result = await createDiscussionPost(context, data);
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    await notifySubmissionDiscussion(result.postId);
+
+    return createdResponse({ id: result.postId, mentions: result.mentionedUserIds.length });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -20,6 +20,7 @@ import {
   handleApiError,
 } from '@/lib/api/response';
 import { createMaterialSchema } from '@/lib/validations/submission';
+import { isAcceptedCoSpeaker } from '@/lib/co-speakers';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string }>;
@@ -57,10 +58,11 @@ export async function GET(
       return notFoundResponse('Submission');
     }
     
-    const isOwner = submission.speakerId === user.id;
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submissionId, user.id);
     const canReview = await canReviewEvent(user, eventId);
     
-    if (!isOwner && !canReview) {
+    if (!isSpeaker && !canReview) {
       return forbiddenResponse('You do not have access to this submission');
     }
     
@@ -107,8 +109,9 @@ export async function POST(
       return notFoundResponse('Submission');
     }
     
-    if (submission.speakerId !== user.id) {
-      return forbiddenResponse('Only the speaker can add materials');
+    // Accepted co-speakers manage materials alongside the speaker
+    if (submission.speakerId !== user.id && !await isAcceptedCoSpeaker(submissionId, user.id)) {
+      return forbiddenResponse('Only the speakers can add materials');
     }
     
     const body = await request.json();
@@ -178,8 +181,9 @@ export async function DELETE(
       return notFoundResponse('Submission');
     }
     
-    if (submission.speakerId !== user.id) {
-      return forbiddenResponse('Only the speaker can delete materials');
+    // Accepted co-speakers manage materials alongside the speaker
+    if (submission.speakerId !== user.id && !await isAcceptedCoSpeaker(submissionId, user.id)) {
+      return forbiddenResponse('Only the speakers can delete materials');
     }
     
     // Check if material exists
@@ -19,6 +19,12 @@ import {
 } from '@/lib/api/response';
 import { createMessageSchema, markReadSchema } from '@/lib/validations/message';
 import { sendMessageSentWebhook, sendMessageReadWebhook } from '@/lib/federation';
+import { isAcceptedCoSpeaker } from '@/lib/co-speakers';
+import {
+  getAnonymityView,
+  getSubmissionReviewerAliases,
+  applyMessageAnonymity,
+} from '@/lib/reviews';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string }>;
@@ -56,12 +62,13 @@ export async function GET(
       return notFoundResponse('Submission');
     }
     
-    // Check permissions - speaker, event manager, or reviewer
-    const isOwner = submission.speakerId === user.id;
+    // Check permissions - speaker or accepted co-speaker, event manager, or reviewer
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submissionId, user.id);
     const canManage = await canManageEvent(user, eventId);
     const canReview = await canReviewEvent(user, eventId);
     
-    if (!isOwner && !canManage && !canReview) {
+    if (!isSpeaker && !canManage && !canReview) {
       return forbiddenResponse('You do not have access to messages for this submission');
     }
     
@@ -96,6 +103,13 @@ export async function GET(
       orderBy: { createdAt: 'desc' },
     });
     
+    // Blind review: reviewers must not learn who the speaker is from threads
+    if (!isSpeaker && !canManage) {
+      const anonymity = await getAnonymityView(eventId, user);
+      const aliasFor = await getSubmissionReviewerAliases(submissionId, user.id);
+      return successResponse(applyMessageAnonymity(messages, anonymity, aliasFor));
+    }
+    
     return successResponse(messages);
   } catch (error) {
     return handleApiError(error);
@@ -139,18 +153,19 @@ export async function POST(
       return notFoundResponse('Submission');
     }
     
-    // Check permissions - speaker, event manager, or reviewer
-    const isOwner = submission.speakerId === user.id;
+    // Check permissions - speaker or accepted co-speaker, event manager, or reviewer
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submissionId, user.id);
     const canManage = await canManageEvent(user, eventId);
     const canReview = await canReviewEvent(user, eventId);
     
     // Reviewers can only message if event allows it
-    const isReviewerOnly = canReview && !canManage && !isOwner;
+    const isReviewerOnly = canReview && !canManage && !isSpeaker;
     if (isReviewerOnly && !submission.event.allowReviewerMessages) {
       return forbiddenResponse('Reviewers are not allowed to message speakers for this event');
     }
     
-    if (!isOwner && !canManage && !canReview) {
+    if (!isSpeaker && !canManage && !canReview) {
       return forbiddenResponse('You do not have permission to send messages');
     }
     
@@ -159,7 +174,7 @@ export async function POST(
     
     // Determine sender type
     let senderType: 'SPEAKER' | 'ORGANIZER' | 'REVIEWER' = 'ORGANIZER';
-    if (isOwner) {
+    if (isSpeaker) {
       senderType = 'SPEAKER';
     } else if (canManage) {
       senderType = 'ORGANIZER';
@@ -253,12 +268,13 @@ export async function PATCH(
       return notFoundResponse('Submission');
     }
     
-    // Check permissions - speaker, event manager, or reviewer
-    const isOwner = submission.speakerId === user.id;
+    // Check permissions - speaker or accepted co-speaker, event manager, or reviewer
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submissionId, user.id);
     const canManage = await canManageEvent(user, eventId);
     const canReview = await canReviewEvent(user, eventId);
     
-    if (!isOwner && !canManage && !canReview) {
+    if (!isSpeaker && !canManage && !canReview) {
       return forbiddenResponse('You do not have access to messages for this submission');
     }
     
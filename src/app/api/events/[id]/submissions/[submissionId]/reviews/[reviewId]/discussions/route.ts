@@ -17,6 +17,13 @@ import {
   handleApiError,
 } from '@/lib/api/response';
 import { createDiscussionSchema } from '@/lib/validations/review';
+import {
+  getAnonymityView,
+  getSubmissionReviewerAliases,
+  aliasDiscussionAuthors,
+  logIdentityReveal,
+} from '@/lib/reviews';
+import { notifyDiscussionReply } from '@/lib/notifications';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string; reviewId: string }>;
@@ -72,6 +79,22 @@ export async function GET(
       orderBy: { createdAt: 'asc' },
     });
     
+    // Double-blind review: alias other participants, numbered the same way
+    // as the submission's reviews API
+    const anonymity = await getAnonymityView(eventId, user);
+    if (anonymity.hideReviewers) {
+      const aliasFor = await getSubmissionReviewerAliases(submissionId, user.id);
+      return successResponse(aliasDiscussionAuthors(discussions, aliasFor));
+    }
+    
+    await logIdentityReveal(anonymity, {
+      entityType: 'Review',
+      entityId: reviewId,
+      eventId,
+      scope: 'discussions',
+      count: discussions.length,
+    });
+    
     return successResponse(discussions);
   } catch (error) {
     return handleApiError(error);
@@ -134,6 +157,8 @@ export async function POST(
       },
     });
     
+    await notifyDiscussionReply(discussion.id);
+    
     return createdResponse(discussion);
   } catch (error) {
     return handleApiError(error);
@@ -15,9 +15,22 @@ import {
   forbiddenResponse,
   notFoundResponse,
   noContentResponse,
+  errorResponse,
   handleApiError,
 } from '@/lib/api/response';
 import { updateReviewSchema } from '@/lib/validations/review';
+import {
+  getReviewMode,
+  validateReviewForMode,
+  resolveCriterionScores,
+  replaceCriterionScores,
+  getAnonymityView,
+  getSubmissionReviewerAliases,
+  aliasReviewers,
+  logIdentityReveal,
+} from '@/lib/reviews';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string; reviewId: string }>;
@@ -72,6 +85,9 @@ export async function GET(
           },
           orderBy: { createdAt: 'asc' },
         },
+        criterionScores: {
+          select: { criteriaId: true, score: true },
+        },
       },
     });
     
@@ -79,6 +95,20 @@ export async function GET(
       return notFoundResponse('Review');
     }
     
+    // Double-blind review: alias other participants
+    const anonymity = await getAnonymityView(eventId, user);
+    if (anonymity.hideReviewers) {
+      const aliasFor = await getSubmissionReviewerAliases(submissionId, user.id);
+      return successResponse(aliasReviewers([review], aliasFor)[0]);
+    }
+    
+    await logIdentityReveal(anonymity, {
+      entityType: 'Review',
+      entityId: reviewId,
+      eventId,
+      scope: 'review',
+    });
+    
     return successResponse(review);
   } catch (error) {
     return handleApiError(error);
@@ -108,6 +138,11 @@ export async function PATCH(
         submissionId,
         submission: { eventId },
       },
+      include: {
+        submission: {
+          include: { event: { select: { reviewType: true } } },
+        },
+      },
     });
     
     if (!review) {
@@ -123,6 +158,24 @@ export async function PATCH(
     const body = await request.json();
     const data = updateReviewSchema.parse(body);
     
+    const modeError = validateReviewForMode(
+      getReviewMode(review.submission.event.reviewType),
+      data,
+      { partial: true }
+    );
+    if (modeError) {
+      return errorResponse(modeError, 400);
+    }
+    
+    // Replacing criterion scores also recomputes the weighted total
+    if (data.criterionScores !== undefined) {
+      const criteria = await resolveCriterionScores(eventId, data.criterionScores);
+      if (criteria.error) {
+        return errorResponse(criteria.error, 400);
+      }
+      await replaceCriterionScores(reviewId, criteria.scores);
+    }
+    
     const updated = await prisma.review.update({
       where: { id: reviewId },
       data: {
@@ -133,6 +186,7 @@ export async function PATCH(
         ...(data.privateNotes !== undefined && { privateNotes: data.privateNotes }),
         ...(data.publicNotes !== undefined && { publicNotes: data.publicNotes }),
         ...(data.recommendation !== undefined && { recommendation: data.recommendation }),
+        ...(data.vote !== undefined && { vote: data.vote }),
       },
       include: {
         reviewer: {
@@ -143,7 +197,36 @@ export async function PATCH(
             image: true,
           },
         },
+        criterionScores: {
+          select: {
+            criteriaId: true,
+            score: true,
+            criteria: { select: { name: true, weight: true } },
+          },
+        },
+      },
+    });
+    
+    const reviewer = decryptPiiFields(
+      updated.reviewer as unknown as Record<string, unknown>,
+      USER_PII_FIELDS
+    );
+    dispatchHookAsync('review.submitted', {
+      review: updated,
+      submission: review.submission,
+      reviewer: {
+        id: updated.reviewer.id,
+        name: (reviewer.name as string | null) ?? null,
+        email: updated.reviewer.email,
       },
+      isUpdate: true,
+      criterionScores: updated.criterionScores.map(s => ({
+        criteriaId: s.criteriaId,
+        score: s.score,
+        name: s.criteria.name,
+        weight: s.criteria.weight,
+      })),
+      weightedScore: updated.weightedScore,
     });
     
     return successResponse(updated);
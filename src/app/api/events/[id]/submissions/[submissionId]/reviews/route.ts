@@ -19,6 +19,16 @@ import {
 } from '@/lib/api/response';
 import { createReviewSchema } from '@/lib/validations/review';
 import { logActivity } from '@/lib/activity-logger';
+import {
+  getReviewMode,
+  validateReviewForMode,
+  resolveCriterionScores,
+  getAnonymityView,
+  applyReviewerAnonymity,
+  logIdentityReveal,
+} from '@/lib/reviews';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { notifyNewReview } from '@/lib/notifications';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string }>;
@@ -81,11 +91,24 @@ export async function GET(
           },
           orderBy: { createdAt: 'asc' },
         },
+        criterionScores: {
+          select: { criteriaId: true, score: true },
+        },
       },
       orderBy: { createdAt: 'asc' },
     });
     
-    return successResponse(reviews);
+    // Double-blind review: other reviewers appear as "Reviewer N"
+    const anonymity = await getAnonymityView(eventId, user);
+    await logIdentityReveal(anonymity, {
+      entityType: 'Submission',
+      entityId: submissionId,
+      eventId,
+      scope: 'reviews',
+      count: reviews.length,
+    });
+    
+    return successResponse(applyReviewerAnonymity(reviews, anonymity));
   } catch (error) {
     return handleApiError(error);
   }
@@ -119,6 +142,11 @@ export async function POST(
         id: submissionId,
         eventId,
       },
+      include: {
+        event: {
+          select: { reviewType: true },
+        },
+      },
     });
     
     if (!submission) {
@@ -142,6 +170,22 @@ export async function POST(
     const body = await request.json();
     const data = createReviewSchema.parse(body);
     
+    // The shape of a review depends on the event's review mode
+    const modeError = validateReviewForMode(getReviewMode(submission.event.reviewType), data);
+    if (modeError) {
+      return errorResponse(modeError, 400);
+    }
+    
+    // Per-criterion scores must match the event's review criteria
+    const criteria = data.criterionScores?.length
+      ? await resolveCriterionScores(eventId, data.criterionScores)
+      : { scores: [], weightedScore: null, error: null };
+    if (criteria.error) {
+      return errorResponse(criteria.error, 400);
+    }
+    
+    const { weightedScore } = criteria;
+    
     const review = await prisma.review.create({
       data: {
         submissionId,
@@ -149,10 +193,15 @@ export async function POST(
         contentScore: data.contentScore,
         presentationScore: data.presentationScore,
         relevanceScore: data.relevanceScore,
-        overallScore: data.overallScore,
+        overallScore: data.overallScore ?? (weightedScore !== null ? Math.round(weightedScore) : undefined),
+        weightedScore,
         privateNotes: data.privateNotes,
         publicNotes: data.publicNotes,
         recommendation: data.recommendation,
+        vote: data.vote,
+        criterionScores: {
+          create: criteria.scores.map(s => ({ criteriaId: s.criteriaId, score: s.score })),
+        },
       },
       include: {
         reviewer: {
@@ -163,6 +212,9 @@ export async function POST(
             image: true,
           },
         },
+        criterionScores: {
+          select: { criteriaId: true, score: true },
+        },
       },
     });
     
@@ -185,11 +237,24 @@ export async function POST(
       entityId: review.id,
       metadata: {
         submissionId,
-        overallScore: data.overallScore ?? null,
+        overallScore: review.overallScore,
+        weightedScore,
         recommendation: data.recommendation ?? null,
+        vote: data.vote ?? null,
       },
     });
     
+    dispatchHookAsync('review.submitted', {
+      review,
+      submission,
+      reviewer: { id: user.id, name: user.name ?? null, email: user.email },
+      isUpdate: false,
+      criterionScores: criteria.scores,
+      weightedScore,
+    });
+    
+    await notifyNewReview(review.id);
+    
     return createdResponse(review);
   } catch (error) {
     return handleApiError(error);
@@ -7,6 +7,7 @@
  */
 
 import { NextRequest } from 'next/server';
+import type { SubmissionStatus } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
 import { getAuthenticatedUser, canManageEvent, canReviewEvent } from '@/lib/api/auth';
 import {
@@ -22,7 +23,19 @@ import { updateSubmissionSchema, updateSubmissionStatusSchema } from '@/lib/vali
 import { sendStatusUpdatedWebhook } from '@/lib/federation';
 import { logActivity } from '@/lib/activity-logger';
 import { getClientIdentifier } from '@/lib/rate-limit';
-import { decryptPiiFields, CO_SPEAKER_PII_FIELDS } from '@/lib/security/encryption';
+import { decryptPiiFields, CO_SPEAKER_PII_FIELDS, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { getAnonymityView, applySpeakerAnonymity, logIdentityReveal } from '@/lib/reviews';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { sendSubmissionStatusEmail } from '@/lib/email/email-service';
+import { requestSpeakerConfirmation, clearSpeakerConfirmation } from '@/lib/confirmations';
+import { isAcceptedCoSpeaker } from '@/lib/co-speakers';
+import { notifySubmissionStatusChange } from '@/lib/notifications';
+import { config } from '@/lib/env';
+import {
+  getEventSubmissionFields,
+  validateSubmissionFieldValues,
+  type SubmissionFieldValues,
+} from '@/lib/submission-fields';
 
 interface RouteParams {
   params: Promise<{ id: string; submissionId: string }>;
@@ -41,6 +54,13 @@ function decryptCoSpeakersInSubmission<T extends { coSpeakers?: unknown[] }>(sub
   };
 }
 
+// Status changes that send the speaker a decision email
+const STATUS_EMAILS: Partial<Record<SubmissionStatus, 'rejected' | 'waitlisted' | 'under_review'>> = {
+  REJECTED: 'rejected',
+  WAITLISTED: 'waitlisted',
+  UNDER_REVIEW: 'under_review',
+};
+
 // ============================================================================
 // GET /api/events/[id]/submissions/[submissionId] - Get submission details
 // ============================================================================
@@ -81,7 +101,7 @@ export async function GET(
         track: true,
         format: true,
         materials: true,
-        coSpeakers: true,
+        coSpeakers: { omit: { invitationTokenHash: true } },
         reviews: {
           select: {
             id: true,
@@ -103,11 +123,12 @@ export async function GET(
       return notFoundResponse('Submission');
     }
     
-    // Check permissions
-    const isOwner = submission.speakerId === user.id;
+    // Check permissions - accepted co-speakers share the speaker's access
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submissionId, user.id);
     const canReview = await canReviewEvent(user, eventId);
     
-    if (!isOwner && !canReview) {
+    if (!isSpeaker && !canReview) {
       return forbiddenResponse('You do not have permission to view this submission');
     }
     
@@ -126,7 +147,20 @@ export async function GET(
       });
     }
     
-    return successResponse(decryptedSubmission);
+    // Blind review: redact the speaker unless the viewer is a speaker
+    if (isSpeaker) {
+      return successResponse(decryptedSubmission);
+    }
+    
+    const anonymity = await getAnonymityView(eventId, user);
+    await logIdentityReveal(anonymity, {
+      entityType: 'Submission',
+      entityId: submissionId,
+      eventId,
+      scope: 'submission',
+    });
+    
+    return successResponse(applySpeakerAnonymity(decryptedSubmission, anonymity));
   } catch (error) {
     return handleApiError(error);
   }
@@ -153,6 +187,10 @@ export async function PATCH(
         id: submissionId,
         eventId,
       },
+      include: {
+        speaker: { select: { email: true, name: true } },
+        event: { select: { name: true, slug: true } },
+      },
     });
     
     if (!submission) {
@@ -160,7 +198,6 @@ export async function PATCH(
     }
     
     const body = await request.json();
-    const isOwner = submission.speakerId === user.id;
     const canManage = await canManageEvent(user, eventId);
     
     // Check if updating status
@@ -197,6 +234,51 @@ export async function PATCH(
         ipAddress: getClientIdentifier(request),
       });
       
+      if (previousStatus !== statusData.status) {
+        dispatchHookAsync('submission.statusChanged', {
+          submission: updated,
+          oldStatus: previousStatus,
+          newStatus: statusData.status,
+          changedBy: { id: user.id, role: user.role, name: user.name ?? null },
+        });
+        
+        // Accepted speakers confirm attendance; other outcomes drop the request.
+        // Federated speakers hear about decisions through the webhook below.
+        if (statusData.status === 'ACCEPTED' && !submission.isFederated) {
+          await requestSpeakerConfirmation(submissionId, {
+            requestedById: user.id,
+            ipAddress: getClientIdentifier(request),
+          });
+        } else if (previousStatus === 'ACCEPTED') {
+          await clearSpeakerConfirmation(submissionId);
+        }
+        
+        // Notify local speakers of the decision (fire and forget).
+        // Accepted speakers get the confirmation email instead.
+        const emailStatus = STATUS_EMAILS[statusData.status];
+        if (!submission.isFederated && emailStatus) {
+          const speakerName = submission.speaker.name
+            ? (decryptPiiFields({ name: submission.speaker.name }, USER_PII_FIELDS) as { name: string }).name
+            : submission.speaker.email.split('@')[0];
+          const submissionUrl = `${config.app.url}/events/${submission.event.slug}/submissions/${submissionId}`;
+          
+          sendSubmissionStatusEmail(
+            submission.speaker.email,
+            speakerName,
+            submission.event.name,
+            submission.title,
+            submissionUrl,
+            emailStatus
+          ).catch(err => {
+            console.error('Failed to send submission status email:', err);
+          });
+        }
+        
+        if (!submission.isFederated) {
+          await notifySubmissionStatusChange(submissionId);
+        }
+      }
+      
       // Send webhook for federated submissions (fire and forget)
       // Include feedback (public notes) if this is an accept/reject decision
       if (submission.isFederated && ['ACCEPTED', 'REJECTED', 'WAITLISTED'].includes(statusData.status)) {
@@ -218,13 +300,16 @@ export async function PATCH(
       return successResponse(updated);
     }
     
-    // Regular update - owner can edit, managers can also edit
-    if (!isOwner && !canManage) {
+    // Regular update - the speaker and accepted co-speakers can edit,
+    // managers can also edit
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submissionId, user.id);
+    if (!isSpeaker && !canManage) {
       return forbiddenResponse('You do not have permission to edit this submission');
     }
     
     // Speakers can only edit pending submissions
-    if (isOwner && !canManage && submission.status !== 'PENDING') {
+    if (isSpeaker && !canManage && submission.status !== 'PENDING') {
       return errorResponse('You can only edit pending submissions', 400);
     }
     
@@ -249,6 +334,18 @@ export async function PATCH(
       }
     }
     
+    // Answers are replaced as a whole, so they are checked as a whole
+    let customFields: SubmissionFieldValues | undefined;
+    if (data.customFields !== undefined) {
+      const fields = await getEventSubmissionFields(eventId);
+      const result = validateSubmissionFieldValues(fields, data.customFields);
+      const fieldErrors = Object.values(result.errors);
+      if (fieldErrors.length > 0) {
+        return errorResponse(fieldErrors.join('; '), 400);
+      }
+      customFields = result.values;
+    }
+    
     const updated = await prisma.submission.update({
       where: { id: submissionId },
       data: {
@@ -259,11 +356,12 @@ export async function PATCH(
         ...(data.outline !== undefined && { outline: data.outline }),
         ...(data.targetAudience !== undefined && { targetAudience: data.targetAudience }),
         ...(data.prerequisites !== undefined && { prerequisites: data.prerequisites }),
+        ...(customFields !== undefined && { customFields }),
       },
       include: {
         track: true,
         format: true,
-        coSpeakers: true,
+        coSpeakers: { omit: { invitationTokenHash: true } },
       },
     });
     
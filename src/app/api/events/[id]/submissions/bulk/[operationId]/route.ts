@@ -0,0 +1,48 @@
+/**
+ * Bulk Submission Operation Progress API
+ *
+ * GET /api/events/[id]/submissions/bulk/[operationId] - Progress and
+ *   per-submission errors of a bulk operation
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getBulkOperation } from '@/lib/bulk-operations';
+
+interface RouteParams {
+  params: Promise<{ id: string; operationId: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId, operationId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canManageEvent(user, eventId)) {
+      return forbiddenResponse('Only event organizers can view bulk operations');
+    }
+
+    const operation = await getBulkOperation(eventId, operationId);
+    if (!operation) {
+      return notFoundResponse('Bulk operation');
+    }
+
+    return successResponse(operation);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Bulk Decision Email Preview API
+ *
+ * POST /api/events/[id]/submissions/bulk/preview - Render a decision email
+ *   template for each selected speaker before sending it in bulk
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { bulkEmailPreviewSchema } from '@/lib/validations/bulk-operation';
+import { previewBulkEmails } from '@/lib/bulk-operations';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const rateLimited = rateLimitMiddleware(request, 'api');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canManageEvent(user, eventId)) {
+      return forbiddenResponse('Only event organizers can preview decision emails');
+    }
+
+    const body = await request.json();
+    const data = bulkEmailPreviewSchema.parse(body);
+
+    const result = await previewBulkEmails(eventId, data);
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return successResponse(result.previews);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
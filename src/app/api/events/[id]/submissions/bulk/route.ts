@@ -0,0 +1,104 @@
+/**
+ * Bulk Submission Operations API
+ *
+ * GET /api/events/[id]/submissions/bulk - Recent bulk operations for the event
+ * POST /api/events/[id]/submissions/bulk - Change status, track or format, or
+ *   send decision emails, for many submissions in the background
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, canManageEvent } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { getClientIdentifier, rateLimitMiddleware } from '@/lib/rate-limit';
+import { bulkOperationSchema } from '@/lib/validations/bulk-operation';
+import {
+  createBulkOperation,
+  runBulkOperation,
+  getBulkOperation,
+  listBulkOperations,
+} from '@/lib/bulk-operations';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/events/[id]/submissions/bulk
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canManageEvent(user, eventId)) {
+      return forbiddenResponse('Only event organizers can view bulk operations');
+    }
+
+    return successResponse(await listBulkOperations(eventId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// ============================================================================
+// POST /api/events/[id]/submissions/bulk
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const rateLimited = rateLimitMiddleware(request, 'api');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canManageEvent(user, eventId)) {
+      return forbiddenResponse('Only event organizers can change submissions in bulk');
+    }
+
+    const body = await request.json();
+    const data = bulkOperationSchema.parse(body);
+
+    const result = await createBulkOperation(eventId, data, {
+      createdById: user.id,
+      ipAddress: getClientIdentifier(request),
+    });
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    // Process in the background; the page polls for progress and the
+    // cron job resumes the operation if this process stops
+    runBulkOperation(result.operation.id).catch(err => {
+      console.error('Failed to run bulk operation:', err);
+    });
+
+    return createdResponse(await getBulkOperation(eventId, result.operation.id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
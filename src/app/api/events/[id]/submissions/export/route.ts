@@ -0,0 +1,157 @@
+/**
+ * Submission Export API
+ *
+ * GET /api/events/[id]/submissions/export - Download the event's
+ *   submissions as CSV, XLSX or JSON
+ *
+ * Query: format=csv|xlsx|json plus the list filters (status, trackId,
+ * formatId, search). Organizers get speaker contact details and profiles;
+ * reviewers get speaker names, or no speaker data for blind events.
+ * Answers to the event's own questions are exported as extra columns.
+ * Organizers of scoring events can add normalized=true for normalized
+ * scores, score spread and disagreement flags.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { getAuthenticatedUser, canManageEvent, canReviewEvent } from '@/lib/api/auth';
+import {
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { config } from '@/lib/env';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { logActivity } from '@/lib/activity-logger';
+import { getAnonymityView, logIdentityReveal } from '@/lib/reviews';
+import { submissionExportSchema } from '@/lib/validations/submission';
+import { getEventSubmissionFields } from '@/lib/submission-fields';
+import {
+  EXPORT_CONTENT_TYPES,
+  buildCsv,
+  buildXlsx,
+  flattenSubmissionRecord,
+  getSubmissionExportColumns,
+  loadSubmissionExport,
+  type SpeakerExportAccess,
+} from '@/lib/exports';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { id: eventId } = await params;
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    if (!await canReviewEvent(user, eventId)) {
+      return forbiddenResponse('Only organizers and reviewers can export submissions');
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, slug: true, name: true, reviewType: true },
+    });
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const { format: fileFormat, normalized, ...filters } = submissionExportSchema.parse({
+      format: searchParams.get('format') || undefined,
+      normalized: searchParams.get('normalized') || undefined,
+      status: searchParams.get('status') || undefined,
+      trackId: searchParams.get('trackId') || undefined,
+      formatId: searchParams.get('formatId') || undefined,
+      search: searchParams.get('search') || undefined,
+    });
+
+    // PII is only decrypted for users allowed to see it
+    const canManage = await canManageEvent(user, eventId);
+    const anonymity = await getAnonymityView(eventId, user);
+    const access: SpeakerExportAccess = canManage
+      ? 'full'
+      : anonymity.hideSpeaker ? 'none' : 'names';
+
+    // Calibration compares reviewers, so it stays with organizers
+    const calibration = normalized && (user.role === 'ADMIN' || user.role === 'ORGANIZER');
+
+    const fields = await getEventSubmissionFields(eventId);
+    const records = await loadSubmissionExport(event, filters, {
+      access,
+      baseUrl: config.app.url || request.nextUrl.origin,
+      fields,
+      calibration,
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: 'SUBMISSIONS_EXPORTED',
+      entityType: 'Event',
+      entityId: eventId,
+      metadata: {
+        format: fileFormat,
+        count: records.length,
+        access,
+        normalized: calibration,
+        ...filters,
+      },
+      ipAddress: getClientIdentifier(request),
+    });
+
+    if (access !== 'none') {
+      await logIdentityReveal(anonymity, {
+        entityType: 'Event',
+        entityId: eventId,
+        eventId,
+        scope: 'submission-export',
+        count: records.length,
+      });
+    }
+
+    const filename = `${event.slug}-submissions-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`;
+    const headers = {
+      'Content-Type': EXPORT_CONTENT_TYPES[fileFormat],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    };
+
+    if (fileFormat === 'json') {
+      const body = {
+        event: { id: event.id, slug: event.slug, name: event.name },
+        exportedAt: new Date().toISOString(),
+        count: records.length,
+        submissions: records,
+      };
+      return new NextResponse(JSON.stringify(body, null, 2), { headers });
+    }
+
+    const columns = getSubmissionExportColumns(access, fields, {
+      calibration: records.some(record => record.reviews.calibration),
+    });
+    const rows = records.map(flattenSubmissionRecord);
+
+    if (fileFormat === 'xlsx') {
+      return new NextResponse(new Uint8Array(buildXlsx(columns, rows, 'Submissions')), { headers });
+    }
+
+    return new NextResponse(buildCsv(columns, rows), { headers });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
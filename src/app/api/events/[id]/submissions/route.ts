@@ -19,9 +19,13 @@ import {
 import { createSubmissionSchema, submissionFiltersSchema } from '@/lib/validations/submission';
 import { Prisma } from '@prisma/client';
 import { sendSubmissionCreatedWebhook } from '@/lib/federation';
-import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
 import { encryptPiiFields, decryptPiiFields, CO_SPEAKER_PII_FIELDS } from '@/lib/security/encryption';
 import { logActivity } from '@/lib/activity-logger';
+import { getAnonymityView, applySpeakerAnonymity, logIdentityReveal } from '@/lib/reviews';
+import { getEventSubmissionFields, validateSubmissionFieldValues } from '@/lib/submission-fields';
+import { inviteCoSpeaker, speakerSubmissionWhere } from '@/lib/co-speakers';
+import { notifyNewSubmission } from '@/lib/notifications';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -45,6 +49,7 @@ export async function GET(
     
     // Check if user can view event submissions
     const canReview = await canReviewEvent(user, eventId);
+    const anonymity = await getAnonymityView(eventId, user);
     
     const searchParams = request.nextUrl.searchParams;
     const filters = submissionFiltersSchema.parse({
@@ -62,12 +67,13 @@ export async function GET(
       eventId,
     };
     
-    // Non-reviewers can only see their own submissions
+    // Non-reviewers can only see their own submissions and those they
+    // accepted a co-speaker invitation for
     if (!canReview) {
-      where.speakerId = user.id;
+      where.AND = [speakerSubmissionWhere(user.id)];
     } else {
-      // Reviewers can filter by speaker
-      if (filters.speakerId) {
+      // Reviewers can filter by speaker, unless speakers are hidden from them
+      if (filters.speakerId && !anonymity.hideSpeaker) {
         where.speakerId = filters.speakerId;
       }
     }
@@ -109,7 +115,7 @@ export async function GET(
               durationMin: true,
             },
           },
-          coSpeakers: true,
+          coSpeakers: { omit: { invitationTokenHash: true } },
           _count: {
             select: {
               reviews: true,
@@ -132,7 +138,24 @@ export async function GET(
       ),
     }));
     
-    return paginatedResponse(decryptedSubmissions, total, filters.limit, filters.offset);
+    // Blind review: speakers always see their own submissions in full
+    const visibleSubmissions = decryptedSubmissions.map(submission =>
+      submission.speakerId === user.id
+        ? submission
+        : applySpeakerAnonymity(submission, anonymity)
+    );
+    
+    if (canReview) {
+      await logIdentityReveal(anonymity, {
+        entityType: 'Event',
+        entityId: eventId,
+        eventId,
+        scope: 'submission-list',
+        count: submissions.length,
+      });
+    }
+    
+    return paginatedResponse(visibleSubmissions, total, filters.limit, filters.offset);
   } catch (error) {
     return handleApiError(error);
   }
@@ -224,6 +247,14 @@ export async function POST(
         return errorResponse('Invalid talk or not owned by you', 400);
       }
     }
+    
+    // Check answers to the event's own questions
+    const fields = await getEventSubmissionFields(eventId);
+    const customFields = validateSubmissionFieldValues(fields, data.customFields);
+    const fieldErrors = Object.values(customFields.errors);
+    if (fieldErrors.length > 0) {
+      return errorResponse(fieldErrors.join('; '), 400);
+    }
 
     const submission = await prisma.submission.create({
       data: {
@@ -237,6 +268,7 @@ export async function POST(
         outline: data.outline,
         targetAudience: data.targetAudience,
         prerequisites: data.prerequisites,
+        customFields: customFields.values,
         status: 'PENDING',
         // Create co-speakers if provided (with encrypted PII)
         coSpeakers: data.coSpeakers && data.coSpeakers.length > 0
@@ -265,10 +297,20 @@ export async function POST(
         },
         track: true,
         format: true,
-        coSpeakers: true,
+        coSpeakers: { omit: { invitationTokenHash: true } },
       },
     });
     
+    // Invite co-speakers with an email to accept and share access
+    for (const coSpeaker of submission.coSpeakers) {
+      if (coSpeaker.email) {
+        await inviteCoSpeaker(coSpeaker.id, {
+          invitedById: user.id,
+          ipAddress: getClientIdentifier(request),
+        });
+      }
+    }
+    
     // Log the activity
     await logActivity({
       userId: user.id,
@@ -281,6 +323,9 @@ export async function POST(
       },
     });
     
+    // Tell the review team, per the event setting and their preferences
+    await notifyNewSubmission(submission.id);
+    
     // Send webhook for federated submissions (fire and forget)
     if (submission.isFederated) {
       sendSubmissionCreatedWebhook(submission.id).catch(err => {
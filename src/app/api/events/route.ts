@@ -10,6 +10,7 @@ import { prisma } from '@/lib/db/prisma';
 import { getAuthenticatedUser, canManageEvents, isOrganizer } from '@/lib/api/auth';
 import {
   createdResponse,
+  errorResponse,
   unauthorizedResponse,
   forbiddenResponse,
   paginatedResponse,
@@ -20,6 +21,7 @@ import {
   eventFiltersSchema,
 } from '@/lib/validations/event';
 import { Prisma, EventStatus } from '@prisma/client';
+import { toSubmissionFieldData } from '@/lib/submission-fields';
 
 // ============================================================================
 // Helper: Generate slug from name
@@ -157,6 +159,11 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = createEventSchema.parse(body);
     
+    if (data.reviewStartDate && data.reviewEndDate &&
+        new Date(data.reviewStartDate) > new Date(data.reviewEndDate)) {
+      return errorResponse('Review period must start before it ends', 400);
+    }
+    
     // Generate slug if not provided
     const baseSlug = data.slug || generateSlug(data.name);
     const slug = await getUniqueSlug(baseSlug);
@@ -203,10 +210,17 @@ export async function POST(request: NextRequest) {
         cfpGuidelines: data.cfpGuidelines || null,
         speakerBenefits: data.speakerBenefits || null,
         
+        // Speaker Confirmation
+        confirmationDeadlineDays: data.confirmationDeadlineDays,
+        codeOfConductUrl: data.codeOfConductUrl || null,
+        
         // Review Settings
         reviewType: data.reviewType,
+        reviewAnonymity: data.reviewAnonymity,
         minReviewsPerTalk: data.minReviewsPerTalk,
         enableSpeakerFeedback: data.enableSpeakerFeedback,
+        reviewStartDate: data.reviewStartDate ? new Date(data.reviewStartDate) : null,
+        reviewEndDate: data.reviewEndDate ? new Date(data.reviewEndDate) : null,
         
         // Notification Settings
         notifyOnNewSubmission: data.notifyOnNewSubmission,
@@ -235,6 +249,11 @@ export async function POST(request: NextRequest) {
             sortOrder: index,
           })),
         } : undefined,
+        
+        // Submission Form Fields
+        submissionFields: data.submissionFields && data.submissionFields.length > 0 ? {
+          create: data.submissionFields.map((field, index) => toSubmissionFieldData(field, index)),
+        } : undefined,
       },
       include: {
         talkFormats: {
@@ -243,6 +262,9 @@ export async function POST(request: NextRequest) {
         reviewCriteria: {
           orderBy: { sortOrder: 'asc' },
         },
+        submissionFields: {
+          orderBy: { sortOrder: 'asc' },
+        },
       },
     });
     
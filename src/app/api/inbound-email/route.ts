@@ -0,0 +1,133 @@
+/**
+ * Inbound Email Endpoint
+ *
+ * POST /api/inbound-email - Ingest a raw RFC 822 reply to a message
+ * notification
+ *
+ * The request body is the message exactly as received (message/rfc822),
+ * delivered by an MTA pipe (e.g. a Postfix alias running curl) or by
+ * scripts/inbound-maildir.sh polling a maildir that fetchmail or getmail
+ * fills over IMAP.
+ *
+ * Responses tell the delivery agent what to do with the message:
+ * - 201 Created: reply posted to its thread
+ * - 202 Accepted: duplicate or automatic reply, nothing to do
+ * - 422 Unprocessable: rejected (bad token, no access, empty) - do not retry
+ *
+ * Security:
+ * - Protected by INBOUND_EMAIL_SECRET (x-inbound-secret header or Bearer token)
+ * - The reply token is an HMAC bound to the thread and the sender address
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { config } from '@/lib/env';
+import { getClientIdentifier } from '@/lib/rate-limit';
+import { ingestInboundEmail, MAX_INBOUND_EMAIL_BYTES } from '@/lib/inbound-email';
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+function secureCompare(a: string, b: string): boolean {
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    // If buffers are different lengths, timingSafeEqual throws
+    return false;
+  }
+}
+
+/**
+ * Verify the request comes from the configured mail delivery agent
+ */
+function verifyInboundAuth(request: NextRequest): boolean {
+  const secret = config.inboundEmail.secret;
+
+  if (!config.inboundEmail.enabled || !secret) {
+    console.warn('[Inbound Email] INBOUND_EMAIL_DOMAIN or INBOUND_EMAIL_SECRET not configured - endpoint is disabled');
+    return false;
+  }
+
+  const providedSecret = request.headers.get('x-inbound-secret') ||
+                         request.headers.get('authorization')?.replace('Bearer ', '');
+
+  if (!providedSecret) {
+    return false;
+  }
+
+  return secureCompare(providedSecret, secret);
+}
+
+/**
+ * POST - Ingest one raw email
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyInboundAuth(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const contentLength = parseInt(request.headers.get('content-length') ?? '0', 10);
+  if (contentLength > MAX_INBOUND_EMAIL_BYTES) {
+    return NextResponse.json(
+      { error: 'Message too large' },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const raw = Buffer.from(await request.arrayBuffer());
+    if (raw.length === 0) {
+      return NextResponse.json(
+        { error: 'Empty message' },
+        { status: 400 }
+      );
+    }
+    if (raw.length > MAX_INBOUND_EMAIL_BYTES) {
+      return NextResponse.json(
+        { error: 'Message too large' },
+        { status: 413 }
+      );
+    }
+
+    const result = await ingestInboundEmail(raw, getClientIdentifier(request));
+
+    switch (result.status) {
+      case 'created':
+        return NextResponse.json(
+          {
+            success: true,
+            messageId: result.messageId,
+            materials: result.materials,
+            skippedAttachments: result.skippedAttachments,
+          },
+          { status: 201 }
+        );
+      case 'duplicate':
+        return NextResponse.json(
+          { success: true, duplicate: true, messageId: result.messageId },
+          { status: 202 }
+        );
+      case 'ignored':
+        return NextResponse.json(
+          { success: true, ignored: true, reason: result.reason },
+          { status: 202 }
+        );
+      case 'rejected':
+        console.warn(`[Inbound Email] Rejected: ${result.reason}`);
+        return NextResponse.json(
+          { success: false, error: result.reason },
+          { status: 422 }
+        );
+    }
+  } catch (error) {
+    console.error('[Inbound Email] Error ingesting message:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to ingest message' },
+      { status: 500 }
+    );
+  }
+}
@@ -19,6 +19,7 @@ import {
   unauthorizedResponse,
   handleApiError,
 } from '@/lib/api/response';
+import { speakerSubmissionWhere } from '@/lib/co-speakers/state';
 
 // ============================================================================
 // GET /api/messages/inbox
@@ -48,9 +49,9 @@ export async function GET() {
         submission: { eventId: { in: eventIds } },
       };
     } else {
-      // Speaker/User: only their own submissions
+      // Speaker/User: their own submissions and those they co-present
       whereClause = {
-        submission: { speakerId: user.id },
+        submission: speakerSubmissionWhere(user.id),
       };
     }
 
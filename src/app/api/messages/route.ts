@@ -23,8 +23,9 @@ import {
   handleApiError,
 } from '@/lib/api/response';
 import { sendMessageSentWebhook } from '@/lib/federation';
-import { sendNewMessageEmail } from '@/lib/email/email-service';
 import { logActivity } from '@/lib/activity-logger';
+import { isAcceptedCoSpeaker } from '@/lib/co-speakers';
+import { notifyMessageRecipients } from '@/lib/inbound-email';
 
 // Inline schema — accepts `message` (main platform field name) mapped to DB `body`
 const createMessageBodySchema = z.object({
@@ -71,24 +72,25 @@ export async function POST(request: NextRequest) {
       return notFoundResponse('Submission');
     }
 
-    // Check permissions
-    const isOwner = submission.speakerId === user.id;
+    // Check permissions - accepted co-speakers share the speaker's access
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submission.id, user.id);
     const canManage = await canManageEvent(user, submission.eventId);
     const canReview = await canReviewEvent(user, submission.eventId);
 
     // Reviewers gated by allowReviewerMessages
-    const isReviewerOnly = canReview && !canManage && !isOwner;
+    const isReviewerOnly = canReview && !canManage && !isSpeaker;
     if (isReviewerOnly && !submission.event.allowReviewerMessages) {
       return forbiddenResponse('Reviewers are not allowed to message speakers for this event');
     }
 
-    if (!isOwner && !canManage && !canReview) {
+    if (!isSpeaker && !canManage && !canReview) {
       return forbiddenResponse('You do not have permission to send messages');
     }
 
     // Determine sender type
     let senderType: 'SPEAKER' | 'ORGANIZER' | 'REVIEWER' = 'ORGANIZER';
-    if (isOwner) {
+    if (isSpeaker) {
       senderType = 'SPEAKER';
     } else if (canManage) {
       senderType = 'ORGANIZER';
@@ -139,50 +141,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Email notification (non-fatal)
-    try {
-      const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
-      const messageUrl = `${appUrl}/events/${submission.event.slug}/submissions/${submission.id}`;
-      const senderName = user.name || user.email;
-      const messagePreview = data.message;
-
-      if (senderType === 'ORGANIZER' || senderType === 'REVIEWER') {
-        // Notify the speaker
-        const speaker = await prisma.user.findUnique({
-          where: { id: submission.speakerId },
-          select: { email: true, name: true },
-        });
-        if (speaker?.email) {
-          await sendNewMessageEmail(
-            speaker.email,
-            speaker.name || 'Speaker',
-            senderName,
-            submission.event.name,
-            submission.title,
-            messagePreview,
-            messageUrl
-          );
-        }
-      } else if (senderType === 'SPEAKER') {
-        // Notify event managers — find the first LEAD on the review team
-        const lead = await prisma.reviewTeamMember.findFirst({
-          where: { eventId: submission.eventId, role: 'LEAD' },
-          include: { user: { select: { email: true, name: true } } },
-        });
-        if (lead?.user?.email) {
-          await sendNewMessageEmail(
-            lead.user.email,
-            lead.user.name || 'Organizer',
-            senderName,
-            submission.event.name,
-            submission.title,
-            messagePreview,
-            messageUrl
-          );
-        }
-      }
-    } catch (emailErr) {
-      console.warn('Failed to send message notification email:', emailErr);
-    }
+    await notifyMessageRecipients({
+      messageId: message.id,
+      senderType,
+      senderName: user.name || user.email,
+      body: data.message,
+      submission,
+    });
 
     // Log activity
     logActivity({
@@ -237,12 +202,13 @@ export async function GET(request: NextRequest) {
       return notFoundResponse('Submission');
     }
 
-    // Check permissions
-    const isOwner = submission.speakerId === user.id;
+    // Check permissions - accepted co-speakers share the speaker's access
+    const isSpeaker = submission.speakerId === user.id ||
+      await isAcceptedCoSpeaker(submission.id, user.id);
     const canManage = await canManageEvent(user, submission.eventId);
     const canReview = await canReviewEvent(user, submission.eventId);
 
-    if (!isOwner && !canManage && !canReview) {
+    if (!isSpeaker && !canManage && !canReview) {
       return forbiddenResponse('You do not have access to messages for this submission');
     }
 
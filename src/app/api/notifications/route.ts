@@ -0,0 +1,60 @@
+/**
+ * Notifications API
+ *
+ * GET   /api/notifications - The current user's notifications, newest first
+ * PATCH /api/notifications - Mark some, or all, as read
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api/response';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import {
+  notificationListSchema,
+  markNotificationsReadSchema,
+} from '@/lib/validations/notification-preferences';
+import { listNotifications, markNotificationsRead } from '@/lib/notifications';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const query = notificationListSchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const result = await listNotifications(user.id, {
+      unreadOnly: query.unread === 'true',
+      page: query.page,
+      limit: query.limit,
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const data = markNotificationsReadSchema.parse(body);
+
+    const unreadCount = await markNotificationsRead(user.id, 'ids' in data ? data.ids : null);
+    return successResponse({ unreadCount });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
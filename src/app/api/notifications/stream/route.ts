@@ -0,0 +1,114 @@
+/**
+ * Notification Stream
+ *
+ * GET /api/notifications/stream - Server-sent events for the current user
+ *
+ * Events:
+ * - `unread` - `{ count }`, on connect and whenever the count changes
+ * - `notification` - a new notification
+ *
+ * The unread count is re-checked every 30 seconds, which also catches
+ * notifications created by other server instances. Streams close after
+ * ten minutes; the browser reconnects on its own, which re-checks the
+ * session.
+ */
+
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { unauthorizedResponse } from '@/lib/api/response';
+import {
+  getUnreadNotificationCount,
+  subscribeToNotificationEvents,
+  type NotificationEvent,
+} from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const MAX_STREAM_MS = 10 * 60 * 1000;
+const RECONNECT_DELAY_MS = 5000;
+
+export async function GET(request: Request) {
+  const { user, error } = await getAuthenticatedUser();
+
+  if (!user) {
+    return unauthorizedResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let lastCount = -1;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: NotificationEvent) => {
+        if (event.type === 'unread') {
+          lastCount = event.count;
+          write(`event: unread\ndata: ${JSON.stringify({ count: event.count })}\n\n`);
+        } else {
+          lastCount = -1;
+          write(`event: notification\ndata: ${JSON.stringify(event.notification)}\n\n`);
+        }
+      };
+
+      const sync = async () => {
+        try {
+          const count = await getUnreadNotificationCount(user.id);
+          if (count !== lastCount) {
+            send({ type: 'unread', count });
+          }
+        } catch (err) {
+          console.warn('[Notifications] Stream sync failed:', err);
+        }
+      };
+
+      const unsubscribe = subscribeToNotificationEvents(user.id, send);
+      const syncTimer = setInterval(sync, SYNC_INTERVAL_MS);
+      const heartbeatTimer = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+      const closeTimer = setTimeout(() => cleanup(), MAX_STREAM_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(syncTimer);
+        clearInterval(heartbeatTimer);
+        clearTimeout(closeTimer);
+        request.signal.removeEventListener('abort', cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      await sync();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Keep reverse proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Public Co-Speaker Invitation API
+ *
+ * POST: Accept or decline a co-speaker invitation using the emailed link,
+ * or create an account for the invited email and accept.
+ *
+ * SECURITY: Declining only needs the token, so the endpoint is rate
+ * limited against guessing. Accepting also needs the signed-in account the
+ * invitation was sent to; creating an account is limited like sign-up.
+ */
+
+import { NextRequest } from 'next/server';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { respondToCoSpeakerInvitation } from '@/lib/co-speakers';
+import { respondCoSpeakerInvitationSchema } from '@/lib/validations/co-speaker-invitation';
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/response';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'auth');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { token } = await params;
+    const body = await request.json();
+    const data = respondCoSpeakerInvitationSchema.parse(body);
+
+    if (data.action === 'register') {
+      const strictLimit = rateLimitMiddleware(request, 'authStrict');
+      if (strictLimit) {
+        return strictLimit;
+      }
+    }
+
+    const { user } = await getAuthenticatedUser();
+    const result = await respondToCoSpeakerInvitation(token, data, {
+      user: user ? { id: user.id, email: user.email } : null,
+      ipAddress: getClientIdentifier(request),
+    });
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return successResponse({ status: result.status, submission: result.submission });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Public Speaker Confirmation API
+ *
+ * POST: Confirm or decline an accepted talk using the emailed link.
+ *
+ * SECURITY: The token is the only credential, so the endpoint is rate
+ * limited against guessing. Tokens are 256-bit random values stored as
+ * hashes.
+ */
+
+import { NextRequest } from 'next/server';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { respondToConfirmation } from '@/lib/confirmations';
+import { respondConfirmationSchema } from '@/lib/validations/confirmation';
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/response';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'auth');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { token } = await params;
+    const body = await request.json();
+    const data = respondConfirmationSchema.parse(body);
+
+    const result = await respondToConfirmation(token, data, {
+      ipAddress: getClientIdentifier(request),
+    });
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return successResponse({ status: result.status });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
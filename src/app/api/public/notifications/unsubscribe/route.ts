@@ -0,0 +1,51 @@
+/**
+ * Public Notification Unsubscribe API
+ *
+ * POST: Turn off notification emails using a signed unsubscribe token.
+ *
+ * Mail clients following RFC 8058 POST `List-Unsubscribe=One-Click` to the
+ * URL in the List-Unsubscribe header, with the token in the query string.
+ * The unsubscribe page sends the token as JSON instead.
+ *
+ * SECURITY: The token is an HMAC over the user and category, so it only
+ * turns off the emails it was issued for. GET does nothing, so link
+ * scanners cannot unsubscribe anyone.
+ */
+
+import { NextRequest } from 'next/server';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { verifyUnsubscribeToken, unsubscribeFromNotifications } from '@/lib/notifications';
+import { unsubscribeSchema } from '@/lib/validations/notification-preferences';
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/response';
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'auth');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    let token = request.nextUrl.searchParams.get('token');
+    if (!token && request.headers.get('content-type')?.includes('application/json')) {
+      token = unsubscribeSchema.parse(await request.json()).token;
+    }
+
+    const payload = token ? verifyUnsubscribeToken(token) : null;
+    if (!payload) {
+      return errorResponse('This unsubscribe link is invalid', 400);
+    }
+
+    const result = await unsubscribeFromNotifications(
+      payload.userId,
+      payload.category,
+      getClientIdentifier(request)
+    );
+    if (result.error !== null) {
+      return errorResponse(result.error, 400);
+    }
+
+    return successResponse({ category: payload.category });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * OpenAPI Spec API
+ *
+ * GET /api/public/openapi.json - OpenAPI 3.0 description of the REST API
+ * available to personal API tokens. Public, like the API's own docs.
+ */
+
+import { NextResponse } from 'next/server';
+import { config } from '@/lib/env';
+import { buildOpenApiSpec } from '@/lib/openapi';
+
+// Application version (should match package.json)
+const APP_VERSION = process.env.npm_package_version || '0.1.0';
+
+export async function GET() {
+  const spec = buildOpenApiSpec({ serverUrl: config.app.url, version: APP_VERSION });
+  return NextResponse.json(spec, {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * Identity Provider API
+ *
+ * PATCH /api/settings/identity-providers/[id] - Update a provider
+ * DELETE /api/settings/identity-providers/[id] - Remove a provider
+ *
+ * Removing a provider disconnects every account linked to it. Users who
+ * only ever signed in through it will need a password reset to get back in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSession } from '@/lib/auth';
+import { encryptString } from '@/lib/security/encryption';
+import { logActivity } from '@/lib/activity-logger';
+import { updateIdentityProviderSchema } from '@/lib/validations/identity-provider';
+import {
+  getMissingProviderFields,
+  getSsoAccountProvider,
+  toIdentityProviderResponse,
+} from '@/lib/sso';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// PATCH /api/settings/identity-providers/[id] - Update a provider
+// ============================================================================
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden - Admin role required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const result = updateIdentityProviderSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.identityProvider.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Identity provider not found' },
+        { status: 404 }
+      );
+    }
+
+    const { clientSecret, ...data } = result.data;
+    const missing = getMissingProviderFields(existing.type, {
+      ...existing,
+      ...data,
+      clientSecret: clientSecret || existing.clientSecret,
+    });
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing required settings: ${missing.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const provider = await prisma.identityProvider.update({
+      where: { id },
+      data: {
+        ...data,
+        // Blank keeps the saved secret
+        ...(clientSecret && existing.type === 'OIDC' && { clientSecret: encryptString(clientSecret) }),
+      },
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'IDENTITY_PROVIDER_UPDATED',
+      entityType: 'Settings',
+      entityId: provider.id,
+      metadata: {
+        name: provider.name,
+        slug: provider.slug,
+        enabled: provider.enabled,
+        secretChanged: !!clientSecret,
+      },
+    });
+
+    return NextResponse.json({ provider: toIdentityProviderResponse(provider) });
+  } catch (error) {
+    console.error('Failed to update identity provider:', error);
+    return NextResponse.json(
+      { error: 'Failed to update identity provider' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// DELETE /api/settings/identity-providers/[id] - Remove a provider
+// ============================================================================
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden - Admin role required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.identityProvider.findUnique({
+      where: { id },
+      select: { id: true, name: true, slug: true },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Identity provider not found' },
+        { status: 404 }
+      );
+    }
+
+    const [unlinked] = await prisma.$transaction([
+      prisma.account.deleteMany({ where: { provider: getSsoAccountProvider(id) } }),
+      prisma.identityProvider.delete({ where: { id } }),
+    ]);
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'IDENTITY_PROVIDER_DELETED',
+      entityType: 'Settings',
+      entityId: id,
+      metadata: { name: existing.name, slug: existing.slug, unlinkedAccounts: unlinked.count },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete identity provider:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete identity provider' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Identity Providers API
+ *
+ * GET /api/settings/identity-providers - List single sign-on providers
+ * POST /api/settings/identity-providers - Add a provider
+ *
+ * SECURITY: OIDC client secrets are encrypted at rest using AES-256-GCM
+ * and never returned.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSession } from '@/lib/auth';
+import { encryptString } from '@/lib/security/encryption';
+import { logActivity } from '@/lib/activity-logger';
+import { createIdentityProviderSchema } from '@/lib/validations/identity-provider';
+import { getMissingProviderFields, toIdentityProviderResponse } from '@/lib/sso';
+
+// ============================================================================
+// GET /api/settings/identity-providers - List providers
+// ============================================================================
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden - Admin role required' },
+        { status: 403 }
+      );
+    }
+
+    const providers = await prisma.identityProvider.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      providers: providers.map(toIdentityProviderResponse),
+    });
+  } catch (error) {
+    console.error('Failed to list identity providers:', error);
+    return NextResponse.json(
+      { error: 'Failed to list identity providers' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST /api/settings/identity-providers - Add a provider
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden - Admin role required' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    const result = createIdentityProviderSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { clientSecret, ...data } = result.data;
+    const missing = getMissingProviderFields(data.type, { ...data, clientSecret });
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing required settings: ${missing.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.identityProvider.findUnique({
+      where: { slug: data.slug },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A provider with this slug already exists' },
+        { status: 409 }
+      );
+    }
+
+    const provider = await prisma.identityProvider.create({
+      data: {
+        ...data,
+        clientSecret: data.type === 'OIDC' && clientSecret ? encryptString(clientSecret) : null,
+      },
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'IDENTITY_PROVIDER_CREATED',
+      entityType: 'Settings',
+      entityId: provider.id,
+      metadata: { name: provider.name, slug: provider.slug, type: provider.type },
+    });
+
+    return NextResponse.json(
+      { provider: toIdentityProviderResponse(provider) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Failed to create identity provider:', error);
+    return NextResponse.json(
+      { error: 'Failed to create identity provider' },
+      { status: 500 }
+    );
+  }
+}
@@ -65,6 +65,7 @@ export async function GET() {
       termsOfServiceContent: settings.termsOfServiceContent,
       // Registration settings
       allowPublicSignup: settings.allowPublicSignup,
+      twoFactorRequiredRoles: settings.twoFactorRequiredRoles,
       // Federation - show status but mask sensitive values
       federationEnabled: settings.federationEnabled,
       federationActivatedAt: settings.federationActivatedAt,
@@ -189,6 +190,9 @@ export async function PATCH(request: NextRequest) {
         ...(data.privacyPolicyContent !== undefined && { privacyPolicyContent: data.privacyPolicyContent || null }),
         ...(data.termsOfServiceContent !== undefined && { termsOfServiceContent: data.termsOfServiceContent || null }),
         ...(data.allowPublicSignup !== undefined && { allowPublicSignup: data.allowPublicSignup }),
+        ...(data.twoFactorRequiredRoles !== undefined && {
+          twoFactorRequiredRoles: [...new Set(data.twoFactorRequiredRoles)],
+        }),
       },
       // SECURITY: Only select non-sensitive fields
       select: {
@@ -204,6 +208,7 @@ export async function PATCH(request: NextRequest) {
         privacyPolicyContent: true,
         termsOfServiceContent: true,
         allowPublicSignup: true,
+        twoFactorRequiredRoles: true,
         federationEnabled: true,
       },
     });
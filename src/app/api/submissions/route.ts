@@ -1,7 +1,8 @@
 /**
  * User Submissions API
  * 
- * GET /api/submissions - List current user's submissions across all events
+ * GET /api/submissions - List current user's submissions across all events,
+ * including those they accepted a co-speaker invitation for
  */
 
 import { NextRequest } from 'next/server';
@@ -13,6 +14,7 @@ import {
   handleApiError,
 } from '@/lib/api/response';
 import { decryptPiiFields, CO_SPEAKER_PII_FIELDS } from '@/lib/security/encryption';
+import { speakerSubmissionWhere } from '@/lib/co-speakers';
 import { z } from 'zod';
 
 const filtersSchema = z.object({
@@ -37,7 +39,7 @@ export async function GET(request: NextRequest) {
     });
     
     const where = {
-      speakerId: user.id,
+      ...speakerSubmissionWhere(user.id),
       ...(filters.status && { status: filters.status }),
     };
     
@@ -67,7 +69,7 @@ export async function GET(request: NextRequest) {
               durationMin: true,
             },
           },
-          coSpeakers: true,
+          coSpeakers: { omit: { invitationTokenHash: true } },
           _count: {
             select: {
               reviews: true,
@@ -9,7 +9,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/auth';
-import { getStorage, StorageError, StoragePaths } from '@/lib/storage';
+import {
+  getStorage,
+  StorageError,
+  StoragePaths,
+  SUBMISSION_MATERIAL_MIME_TYPES,
+  validateMagicBytes,
+} from '@/lib/storage';
 import { config } from '@/lib/env';
 import { prisma } from '@/lib/db/prisma';
 import { v4 as uuidv4 } from 'uuid';
@@ -35,16 +41,7 @@ const UPLOAD_TYPES: Record<string, UploadTypeConfig> = {
   },
   'submission-material': {
     maxSize: config.storage.maxFileSizeBytes,
-    allowedTypes: [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-      'application/vnd.ms-powerpoint',
-      'application/vnd.oasis.opendocument.presentation',
-      'video/mp4',
-      'video/webm',
-      'image/jpeg',
-      'image/png',
-    ],
+    allowedTypes: SUBMISSION_MATERIAL_MIME_TYPES,
     getPath: (submissionId: string, filename: string) => 
       StoragePaths.submissionMaterial(submissionId, filename),
     isPublic: false,
@@ -106,53 +103,6 @@ function getMimeFromExt(ext: string): string {
   return mime;
 }
 
-/**
- * Magic byte signatures for file type validation
- * SECURITY: Validates actual file content matches claimed type
- */
-const MAGIC_BYTES: Record<string, { bytes: number[]; offset?: number }[]> = {
-  'application/pdf': [{ bytes: [0x25, 0x50, 0x44, 0x46] }], // %PDF
-  'image/jpeg': [{ bytes: [0xFF, 0xD8, 0xFF] }],
-  'image/png': [{ bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] }],
-  'image/gif': [{ bytes: [0x47, 0x49, 0x46, 0x38] }], // GIF8
-  'image/webp': [{ bytes: [0x52, 0x49, 0x46, 0x46], offset: 0 }, { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 }], // RIFF...WEBP
-  'video/mp4': [{ bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 }], // ftyp at offset 4
-};
-
-/**
- * Validate file content matches expected MIME type using magic bytes
- * SECURITY: Prevents type spoofing where clients send malicious content
- * with an incorrect MIME type header
- * 
- * @returns true if file matches expected type, or if no signature check is available
- */
-function validateMagicBytes(buffer: Buffer, mimeType: string): boolean {
-  const signatures = MAGIC_BYTES[mimeType];
-  
-  // If no signature defined for this type, allow (can't validate)
-  if (!signatures) {
-    return true;
-  }
-  
-  // Check all required signatures
-  for (const sig of signatures) {
-    const offset = sig.offset || 0;
-    
-    // Ensure buffer is long enough
-    if (buffer.length < offset + sig.bytes.length) {
-      return false;
-    }
-    
-    // Check bytes match
-    const matches = sig.bytes.every((byte, i) => buffer[offset + i] === byte);
-    if (!matches) {
-      return false;
-    }
-  }
-  
-  return true;
-}
-
 /**
  * Get file extension from MIME type
  */
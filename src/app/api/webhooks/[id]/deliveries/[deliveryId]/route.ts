@@ -0,0 +1,72 @@
+/**
+ * Webhook Redelivery API
+ *
+ * POST /api/webhooks/[id]/deliveries/[deliveryId] - Send a delivery again.
+ *   Failed deliveries are requeued; succeeded ones are copied. Delivery is
+ *   attempted straight away.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import {
+  WebhookError,
+  canManageWebhooks,
+  getWebhookEndpoint,
+  redeliverWebhook,
+  sendWebhookDelivery,
+} from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ id: string; deliveryId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { id, deliveryId } = await params;
+    const endpoint = await getWebhookEndpoint(id);
+    if (!endpoint) {
+      return notFoundResponse('Webhook');
+    }
+    if (!(await canManageWebhooks(user, endpoint.eventId))) {
+      return forbiddenResponse('You cannot manage this webhook');
+    }
+
+    const delivery = await redeliverWebhook(endpoint, deliveryId, user, getClientIdentifier(request));
+    if (!delivery) {
+      return notFoundResponse('Delivery');
+    }
+
+    const result = await sendWebhookDelivery(delivery.id);
+
+    return successResponse({
+      delivery,
+      delivered: result?.success ?? false,
+      error: result && !result.success ? result.error ?? null : null,
+    });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Webhook Delivery Log API
+ *
+ * GET /api/webhooks/[id]/deliveries - An endpoint's deliveries, newest
+ *   first, with request and response bodies
+ *
+ * Query: status, limit, offset
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  paginatedResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { webhookDeliveryFiltersSchema } from '@/lib/validations/webhook';
+import { canManageWebhooks, getWebhookEndpoint, listWebhookDeliveries } from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { id } = await params;
+    const endpoint = await getWebhookEndpoint(id);
+    if (!endpoint) {
+      return notFoundResponse('Webhook');
+    }
+    if (!(await canManageWebhooks(user, endpoint.eventId))) {
+      return forbiddenResponse('You cannot manage this webhook');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters = webhookDeliveryFiltersSchema.parse({
+      status: searchParams.get('status') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+    });
+
+    const { deliveries, total } = await listWebhookDeliveries(endpoint.id, filters);
+
+    return paginatedResponse(deliveries, total, filters.limit, filters.offset);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Webhook API
+ *
+ * PATCH  /api/webhooks/[id] - Change an endpoint's URL, description, hooks
+ *   or whether it is enabled
+ * DELETE /api/webhooks/[id] - Remove an endpoint and its delivery log
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  badRequestResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { updateWebhookEndpointSchema } from '@/lib/validations/webhook';
+import {
+  WebhookError,
+  canManageWebhooks,
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  updateWebhookEndpoint,
+} from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { id } = await params;
+    const endpoint = await getWebhookEndpoint(id);
+    if (!endpoint) {
+      return notFoundResponse('Webhook');
+    }
+    if (!(await canManageWebhooks(user, endpoint.eventId))) {
+      return forbiddenResponse('You cannot manage this webhook');
+    }
+
+    const body = await request.json();
+    const data = updateWebhookEndpointSchema.parse(body);
+
+    const updated = await updateWebhookEndpoint(user, endpoint, data, getClientIdentifier(request));
+    return successResponse(updated);
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { id } = await params;
+    const endpoint = await getWebhookEndpoint(id);
+    if (!endpoint) {
+      return notFoundResponse('Webhook');
+    }
+    if (!(await canManageWebhooks(user, endpoint.eventId))) {
+      return forbiddenResponse('You cannot manage this webhook');
+    }
+
+    await deleteWebhookEndpoint(user, endpoint, getClientIdentifier(request));
+    return successResponse({ deleted: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Webhook Test API
+ *
+ * POST /api/webhooks/[id]/test - Send a "webhook.test" event to an endpoint
+ *   straight away and return the logged delivery. Works while the
+ *   endpoint is disabled; test events are not retried.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { canManageWebhooks, getWebhookEndpoint, sendTestWebhook } from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const { id } = await params;
+    const endpoint = await getWebhookEndpoint(id);
+    if (!endpoint) {
+      return notFoundResponse('Webhook');
+    }
+    if (!(await canManageWebhooks(user, endpoint.eventId))) {
+      return forbiddenResponse('You cannot manage this webhook');
+    }
+
+    const { delivery, result } = await sendTestWebhook(endpoint);
+
+    return successResponse({
+      delivery,
+      delivered: result?.success ?? false,
+      error: result && !result.success ? result.error ?? null : null,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Webhooks API
+ *
+ * GET  /api/webhooks - List the instance-wide endpoints, or an event's
+ *   with ?eventId=
+ * POST /api/webhooks - Register an endpoint (its signing secret is returned
+ *   once). Pass eventId for an event's endpoint.
+ *
+ * Instance-wide endpoints are managed by admins, an event's by whoever
+ * can manage the event.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import {
+  successResponse,
+  createdResponse,
+  badRequestResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handleApiError,
+} from '@/lib/api/response';
+import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit';
+import { createWebhookEndpointSchema } from '@/lib/validations/webhook';
+import {
+  WebhookError,
+  canManageWebhooks,
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+} from '@/lib/webhooks';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const eventId = request.nextUrl.searchParams.get('eventId') || null;
+    if (!(await canManageWebhooks(user, eventId))) {
+      return forbiddenResponse('You cannot manage these webhooks');
+    }
+
+    return successResponse(await listWebhookEndpoints(eventId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { user, error } = await getAuthenticatedUser();
+
+    if (!user) {
+      return unauthorizedResponse(error);
+    }
+
+    const body = await request.json();
+    const data = createWebhookEndpointSchema.parse(body);
+
+    if (!(await canManageWebhooks(user, data.eventId ?? null))) {
+      return forbiddenResponse('You cannot manage these webhooks');
+    }
+
+    const result = await createWebhookEndpoint(user, data, getClientIdentifier(request));
+    return createdResponse(result);
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return badRequestResponse(error.message);
+    }
+    return handleApiError(error);
+  }
+}
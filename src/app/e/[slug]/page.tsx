@@ -19,6 +19,7 @@ import { Badge } from '@/components/ui/badge';
 import { PoweredByFooter } from '@/components/ui/powered-by-footer';
 import { 
   Calendar, 
+  CalendarClock,
   MapPin, 
   Globe, 
   Clock, 
@@ -192,6 +193,14 @@ export default async function PublicEventPage({ params }: PageProps) {
                     </Link>
                   </Button>
                 )}
+                {event.schedulePublishedAt && (
+                  <Button size="lg" className="h-14 px-8 text-lg bg-slate-900/10 dark:bg-white/10 border border-slate-900/20 dark:border-white/20 text-slate-900 dark:text-white hover:bg-slate-900/20 dark:hover:bg-white/20 hover:border-slate-900/30 dark:hover:border-white/30 backdrop-blur-sm" asChild>
+                    <Link href={`/e/${event.slug}/schedule`}>
+                      <CalendarClock className="h-5 w-5 mr-2" />
+                      View Schedule
+                    </Link>
+                  </Button>
+                )}
                 {event.websiteUrl && (
                   <Button size="lg" className="h-14 px-8 text-lg bg-slate-900/10 dark:bg-white/10 border border-slate-900/20 dark:border-white/20 text-slate-900 dark:text-white hover:bg-slate-900/20 dark:hover:bg-white/20 hover:border-slate-900/30 dark:hover:border-white/30 backdrop-blur-sm" asChild>
                     <a href={event.websiteUrl} target="_blank" rel="noopener noreferrer">
@@ -0,0 +1,56 @@
+/**
+ * Public Schedule iCalendar Feed
+ *
+ * GET: The published schedule as an .ics calendar. Pass ?talk=<submissionId>
+ * for a single talk.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/env';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { buildScheduleIcs, getPublishedSchedule } from '@/lib/schedule';
+import { notFoundResponse, handleApiError } from '@/lib/api/response';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { slug } = await params;
+    const schedule = await getPublishedSchedule(slug);
+    if (!schedule) {
+      return notFoundResponse('Schedule');
+    }
+
+    const talkId = request.nextUrl.searchParams.get('talk');
+    const sessions = talkId
+      ? schedule.sessions.filter(session => session.submissionId === talkId)
+      : schedule.sessions;
+    if (talkId && sessions.length === 0) {
+      return notFoundResponse('Talk');
+    }
+
+    const ics = buildScheduleIcs(
+      schedule,
+      { baseUrl: config.app.url || request.nextUrl.origin },
+      sessions
+    );
+    const filename = talkId ? `${slug}-${talkId}.ics` : `${slug}.ics`;
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}"`,
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Public Schedule JSON Feed
+ *
+ * GET: The published schedule in the Frab/Pretalx schedule.json format,
+ * for conference apps and session signage.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/env';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { buildFrabSchedule, getPublishedSchedule } from '@/lib/schedule';
+import { notFoundResponse, handleApiError } from '@/lib/api/response';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = rateLimitMiddleware(request, 'api');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { slug } = await params;
+    const schedule = await getPublishedSchedule(slug);
+    if (!schedule) {
+      return notFoundResponse('Schedule');
+    }
+
+    return NextResponse.json(
+      buildFrabSchedule(schedule, { baseUrl: config.app.url || request.nextUrl.origin }),
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
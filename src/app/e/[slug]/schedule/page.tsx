@@ -0,0 +1,270 @@
+/**
+ * Public Event Schedule Page
+ *
+ * The published agenda grouped by day, with sessions at the same time
+ * side by side. Attendees can narrow it to a room or track and subscribe
+ * to the iCalendar feed. Times are shown in the event timezone.
+ */
+
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { auth } from '@/lib/auth';
+import { getPublishedSchedule, type PublishedSession } from '@/lib/schedule';
+import { getUtcOffsetAt } from '@/lib/timezone-utils';
+import { Button } from '@/components/ui/button';
+import { PoweredByFooter } from '@/components/ui/powered-by-footer';
+import {
+  ArrowLeft,
+  CalendarPlus,
+  Clock,
+  FileJson,
+  MapPin,
+  Mic,
+} from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ room?: string; track?: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { slug } = await params;
+  const schedule = await getPublishedSchedule(slug);
+
+  return {
+    title: schedule ? `${schedule.event.name} Schedule` : 'Schedule',
+  };
+}
+
+function groupByStart(sessions: PublishedSession[]): Array<{ time: string; sessions: PublishedSession[] }> {
+  const groups = new Map<string, PublishedSession[]>();
+  for (const session of sessions) {
+    const group = groups.get(session.startTime) ?? [];
+    group.push(session);
+    groups.set(session.startTime, group);
+  }
+  return [...groups.entries()].map(([time, grouped]) => ({ time, sessions: grouped }));
+}
+
+export default async function PublicSchedulePage({ params, searchParams }: PageProps) {
+  const { slug } = await params;
+  const { room: roomFilter, track: trackFilter } = await searchParams;
+  const session = await auth();
+
+  const schedule = await getPublishedSchedule(slug);
+  if (!schedule) {
+    notFound();
+  }
+
+  const sessions = schedule.sessions.filter(s =>
+    (!roomFilter || s.room.id === roomFilter) &&
+    (!trackFilter || s.track?.id === trackFilter)
+  );
+  const days = schedule.days
+    .map(date => ({ date, groups: groupByStart(sessions.filter(s => s.date === date)) }))
+    .filter(day => day.groups.length > 0);
+
+  const offset = getUtcOffsetAt(schedule.timezone, schedule.sessions[0]?.startsAt ?? new Date());
+  const filterHref = (next: { room?: string; track?: string }) => {
+    const query = new URLSearchParams();
+    const room = 'room' in next ? next.room : roomFilter;
+    const track = 'track' in next ? next.track : trackFilter;
+    if (room) query.set('room', room);
+    if (track) query.set('track', track);
+    const qs = query.toString();
+    return `/e/${slug}/schedule${qs ? `?${qs}` : ''}`;
+  };
+
+  const chipClass = (active: boolean) =>
+    `inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm border transition-all ${
+      active
+        ? 'bg-violet-500/15 border-violet-500/40 text-violet-700 dark:text-violet-300'
+        : 'bg-white/60 dark:bg-white/5 border-slate-200 dark:border-white/10 text-slate-600 dark:text-white/70 hover:border-slate-300 dark:hover:border-white/20'
+    }`;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-100 dark:bg-slate-950">
+      {/* Header - Glassmorphism */}
+      <header className="fixed top-0 left-0 right-0 z-50 border-b border-slate-200 dark:border-white/10">
+        <div className="absolute inset-0 bg-white/80 dark:bg-slate-950/80 backdrop-blur-xl" />
+        <div className="relative container mx-auto px-4 h-16 flex items-center justify-between">
+          <Link
+            href={`/e/${slug}`}
+            className="inline-flex items-center gap-2 text-slate-600 dark:text-white/70 hover:text-slate-900 dark:hover:text-white transition-colors group"
+          >
+            <ArrowLeft className="h-4 w-4 group-hover:-translate-x-1 transition-transform" />
+            <span>Back to {schedule.event.name}</span>
+          </Link>
+          <div className="flex items-center gap-3">
+            {session ? (
+              <Button asChild className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-white/90 shadow-lg shadow-slate-900/10 dark:shadow-white/10">
+                <Link href="/dashboard">Dashboard</Link>
+              </Button>
+            ) : (
+              <Button variant="ghost" asChild className="text-slate-600 dark:text-white/70 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/10">
+                <Link href="/auth/signin">Sign In</Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 pt-16">
+        <section className="relative py-12 md:py-16">
+          <div className="absolute inset-0 bg-gradient-to-b from-slate-100 via-slate-50 to-slate-100 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950" />
+          <div className="absolute inset-0 bg-[linear-gradient(rgba(0,0,0,0.02)_1px,transparent_1px),linear-gradient(90deg,rgba(0,0,0,0.02)_1px,transparent_1px)] dark:bg-[linear-gradient(rgba(255,255,255,0.02)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.02)_1px,transparent_1px)] bg-[size:64px_64px]" />
+
+          <div className="relative container mx-auto px-4 max-w-6xl">
+            {/* Title */}
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+              <div>
+                <h1 className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white tracking-tight">
+                  {schedule.event.name} Schedule
+                </h1>
+                <p className="text-slate-500 dark:text-white/60 mt-2 flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  All times in {schedule.timezone}{offset ? ` (UTC${offset})` : ''}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" asChild>
+                  <a href={`/e/${slug}/schedule.ics`}>
+                    <CalendarPlus className="h-4 w-4 mr-2" />
+                    Add to Calendar
+                  </a>
+                </Button>
+                <Button variant="outline" asChild>
+                  <a href={`/e/${slug}/schedule.json`}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    JSON
+                  </a>
+                </Button>
+              </div>
+            </div>
+
+            {/* Filters */}
+            {(schedule.rooms.length > 1 || schedule.tracks.length > 0) && (
+              <div className="space-y-3 mb-10">
+                {schedule.rooms.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-slate-500 dark:text-white/50 w-14">Room</span>
+                    <Link href={filterHref({ room: undefined })} className={chipClass(!roomFilter)}>
+                      All
+                    </Link>
+                    {schedule.rooms.map(room => (
+                      <Link key={room.id} href={filterHref({ room: room.id })} className={chipClass(roomFilter === room.id)}>
+                        {room.name}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+                {schedule.tracks.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-slate-500 dark:text-white/50 w-14">Track</span>
+                    <Link href={filterHref({ track: undefined })} className={chipClass(!trackFilter)}>
+                      All
+                    </Link>
+                    {schedule.tracks.map(track => (
+                      <Link key={track.id} href={filterHref({ track: track.id })} className={chipClass(trackFilter === track.id)}>
+                        <span
+                          className="h-2.5 w-2.5 rounded-full bg-slate-400"
+                          style={{ backgroundColor: track.color || undefined }}
+                        />
+                        {track.name}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {days.length === 0 ? (
+              <div className="p-10 rounded-2xl bg-white/60 dark:bg-slate-900/60 border border-slate-200 dark:border-white/10 text-center text-slate-500 dark:text-white/50">
+                No sessions match these filters.
+              </div>
+            ) : (
+              <div className="space-y-12">
+                {days.map(day => (
+                  <div key={day.date} id={`day-${day.date}`}>
+                    <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-6">
+                      {format(parseISO(day.date), 'EEEE, MMMM d')}
+                    </h2>
+
+                    <div className="space-y-6">
+                      {day.groups.map(group => (
+                        <div key={group.time} className="grid md:grid-cols-[5rem_1fr] gap-3">
+                          <div className="text-lg font-semibold text-violet-600 dark:text-violet-400 md:pt-4">
+                            {group.time}
+                          </div>
+                          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                            {group.sessions.map(item => (
+                              <div
+                                key={item.id}
+                                id={`session-${item.id}`}
+                                className="relative p-4 rounded-xl bg-white/70 dark:bg-slate-900/60 backdrop-blur-xl border border-slate-200 dark:border-white/10 scroll-mt-24"
+                                style={{ borderLeftColor: item.track?.color || undefined, borderLeftWidth: item.track?.color ? '4px' : undefined }}
+                              >
+                                <div className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-white/50 mb-2">
+                                  <span className="inline-flex items-center gap-1">
+                                    <MapPin className="h-3 w-3" />
+                                    {item.room.name}
+                                  </span>
+                                  <span>{item.startTime}–{item.endTime}</span>
+                                </div>
+                                <h3 className="font-semibold text-slate-900 dark:text-white">
+                                  {item.title}
+                                </h3>
+                                {item.speakers.length > 0 && (
+                                  <p className="text-sm text-slate-600 dark:text-white/70 mt-1 inline-flex items-center gap-1">
+                                    <Mic className="h-3 w-3" />
+                                    {item.speakers.map(s => s.name).join(', ')}
+                                  </p>
+                                )}
+                                {item.abstract && (
+                                  <p className="text-sm text-slate-500 dark:text-white/50 mt-2 line-clamp-3 whitespace-pre-wrap">
+                                    {item.abstract}
+                                  </p>
+                                )}
+                                <div className="flex items-center justify-between gap-2 mt-3">
+                                  {item.track ? (
+                                    <span className="inline-flex items-center gap-1.5 text-xs text-slate-600 dark:text-white/70">
+                                      <span
+                                        className="h-2 w-2 rounded-full bg-slate-400"
+                                        style={{ backgroundColor: item.track.color || undefined }}
+                                      />
+                                      {item.track.name}
+                                    </span>
+                                  ) : (
+                                    <span />
+                                  )}
+                                  {item.submissionId && (
+                                    <a
+                                      href={`/e/${slug}/schedule.ics?talk=${item.submissionId}`}
+                                      className="inline-flex items-center gap-1 text-xs text-violet-600 dark:text-violet-400 hover:underline"
+                                      title="Add this talk to your calendar"
+                                    >
+                                      <CalendarPlus className="h-3 w-3" />
+                                      .ics
+                                    </a>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+
+      {/* Footer */}
+      <PoweredByFooter />
+    </div>
+  );
+}
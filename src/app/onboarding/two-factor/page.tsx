@@ -0,0 +1,57 @@
+/**
+ * Two-Factor Setup Page
+ *
+ * Shown when an admin requires two-factor authentication for the user's
+ * role and they haven't set it up yet. The dashboard redirects here until
+ * setup is finished.
+ */
+
+import { redirect } from 'next/navigation';
+import { Smartphone } from 'lucide-react';
+import { auth } from '@/lib/auth';
+import { getTwoFactorStatus, needsTwoFactorSetup, TWO_FACTOR_SETUP_PATH } from '@/lib/two-factor';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TwoFactorCard } from '@/components/account/two-factor-card';
+
+export const dynamic = 'force-dynamic';
+
+export default async function TwoFactorSetupPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect(`/auth/signin?callbackUrl=${TWO_FACTOR_SETUP_PATH}`);
+  }
+
+  if (!(await needsTwoFactorSetup(session.user.id))) {
+    redirect('/dashboard');
+  }
+
+  const status = await getTwoFactorStatus(session.user.id);
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-green-100 dark:bg-green-900/30">
+            <Smartphone className="h-5 w-5 text-green-600 dark:text-green-400" />
+          </div>
+          <div>
+            <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              Your role requires a code from an authenticator app when you sign in
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <TwoFactorCard
+          enabled={status.enabled}
+          enabledAt={status.enabledAt?.toISOString() ?? null}
+          recoveryCodesRemaining={status.recoveryCodesRemaining}
+          required={status.required}
+          continueUrl="/dashboard"
+        />
+      </CardContent>
+    </Card>
+  );
+}
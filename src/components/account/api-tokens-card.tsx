@@ -0,0 +1,235 @@
+/**
+ * API Tokens Card Component
+ *
+ * Lists the account's personal API tokens and creates new ones with a
+ * name, lifetime and scopes. A new token is shown once, right after it is
+ * created.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { AlertTriangle, Copy, Plus } from 'lucide-react';
+import {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_SCOPE_DESCRIPTIONS,
+  DEFAULT_API_TOKEN_EXPIRY_DAYS,
+  OPENAPI_SPEC_PATH,
+  type ApiTokenScope,
+} from '@/lib/api-tokens/state';
+import type { ApiTokenListItem } from '@/lib/api-tokens/service';
+
+interface ApiTokensCardProps {
+  tokens: ApiTokenListItem[];
+  /** Scopes the user's role can grant */
+  allowedScopes: readonly ApiTokenScope[];
+}
+
+export function ApiTokensCard({ tokens, allowedScopes }: ApiTokensCardProps) {
+  const router = useRouter();
+  const api = useApi();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_API_TOKEN_EXPIRY_DAYS);
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const handleCreate = async () => {
+    const { data } = await api.post('/api/account/api-tokens', { name, scopes, expiresInDays });
+    if (!data) return;
+
+    setNewToken((data as { token: string }).token);
+    setCreating(false);
+    setName('');
+    setScopes([]);
+    setExpiresInDays(DEFAULT_API_TOKEN_EXPIRY_DAYS);
+    router.refresh();
+  };
+
+  const handleRevoke = async (token: ApiTokenListItem) => {
+    const { error } = await api.delete(`/api/account/api-tokens/${token.id}`);
+    if (error) return;
+
+    toast.success(`Revoked ${token.name}`);
+    router.refresh();
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast.success('Token copied');
+  };
+
+  return (
+    <div className="space-y-6">
+      {newToken && (
+        <div className="space-y-3">
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Copy your new token now. It will not be shown again.
+            </AlertDescription>
+          </Alert>
+          <div className="flex gap-2">
+            <Input value={newToken} readOnly className="font-mono text-sm" />
+            <Button variant="outline" onClick={handleCopy}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {tokens.length > 0 ? (
+        <div className="divide-y rounded-lg border border-slate-200 dark:border-slate-700">
+          {tokens.map(token => {
+            const expired = new Date(token.expiresAt) <= new Date();
+            return (
+              <div key={token.id} className="flex items-start justify-between gap-4 p-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-slate-900 dark:text-white">{token.name}</span>
+                    <code className="text-xs text-slate-500 dark:text-slate-400">{token.tokenPrefix}…</code>
+                    {expired && <Badge variant="secondary">Expired</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {expired ? 'Expired' : 'Expires'} {format(new Date(token.expiresAt), 'MMM d, yyyy')}
+                    {' · '}
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(token)}
+                  disabled={api.isLoading}
+                >
+                  {expired ? 'Remove' : 'Revoke'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        !creating && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            You don&apos;t have any API tokens.
+          </p>
+        )
+      )}
+
+      {creating ? (
+        <div className="space-y-4 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Website build"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select
+                value={expiresInDays.toString()}
+                onValueChange={(value) => setExpiresInDays(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_EXPIRY_DAYS.map(days => (
+                    <SelectItem key={days} value={days.toString()}>
+                      {days === 365 ? '1 year' : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {allowedScopes.map(scope => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-token-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, !!checked)}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`api-token-scope-${scope}`} className="cursor-pointer font-normal leading-snug">
+                    <span className="font-mono text-xs">{scope}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">
+                      {API_TOKEN_SCOPE_DESCRIPTIONS[scope]}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleCreate}
+              disabled={api.isLoading || !name.trim() || scopes.length === 0}
+            >
+              Create Token
+            </Button>
+            <Button variant="ghost" onClick={() => setCreating(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => setCreating(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Token
+        </Button>
+      )}
+
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        Send a token as <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>. The API is
+        described in the{' '}
+        <a href={OPENAPI_SPEC_PATH} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+          OpenAPI spec
+        </a>.
+      </p>
+    </div>
+  );
+}
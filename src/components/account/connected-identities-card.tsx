@@ -0,0 +1,64 @@
+/**
+ * Connected Identities Card Component
+ *
+ * Shows the single sign-on providers a user can sign in with. Connecting
+ * sends the user through the provider's sign-in; disconnecting is refused
+ * by the API when it would leave no way to sign in.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import type { SsoConnection } from '@/lib/sso/accounts';
+
+interface ConnectedIdentitiesCardProps {
+  connections: SsoConnection[];
+}
+
+const RETURN_URL = '/account?tab=security';
+
+export function ConnectedIdentitiesCard({ connections }: ConnectedIdentitiesCardProps) {
+  const router = useRouter();
+  const api = useApi();
+
+  const handleDisconnect = async (connection: SsoConnection) => {
+    const { error } = await api.delete(`/api/account/sso/${connection.slug}`);
+    if (error) return;
+
+    toast.success(`Disconnected ${connection.name}`);
+    router.refresh();
+  };
+
+  return (
+    <div className="divide-y rounded-lg border border-slate-200 dark:border-slate-700">
+      {connections.map(connection => (
+        <div key={connection.slug} className="flex items-center justify-between gap-4 p-4">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-slate-900 dark:text-white">{connection.name}</span>
+            {connection.connected && <Badge className="bg-green-500">Connected</Badge>}
+          </div>
+          {connection.connected ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDisconnect(connection)}
+              disabled={api.isLoading}
+            >
+              Disconnect
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/auth/sso/${connection.slug}/login?link=1&callbackUrl=${encodeURIComponent(RETURN_URL)}`}>
+                Connect
+              </a>
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
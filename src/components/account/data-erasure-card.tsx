@@ -0,0 +1,140 @@
+/**
+ * Data Erasure Card Component
+ *
+ * Lets users ask for their account to be erased, and shows the state of
+ * their latest request with an option to cancel it while it is open.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Loader2, AlertTriangle, Clock } from 'lucide-react';
+import type { DataErasureStatus } from '@prisma/client';
+import {
+  DATA_ERASURE_STATUS_LABELS,
+  ERASURE_GRACE_PERIOD_DAYS,
+  isOpenErasureRequest,
+} from '@/lib/gdpr/state';
+
+interface DataErasureCardProps {
+  email: string;
+  latestRequest: {
+    status: DataErasureStatus;
+    createdAt: string;
+    scheduledFor: string | null;
+    reviewNote: string | null;
+  } | null;
+}
+
+export function DataErasureCard({ email, latestRequest }: DataErasureCardProps) {
+  const router = useRouter();
+  const api = useApi();
+  const [reason, setReason] = useState('');
+  const [confirmEmail, setConfirmEmail] = useState('');
+
+  const isOpen = latestRequest !== null && isOpenErasureRequest(latestRequest.status);
+  const emailMatches = confirmEmail.trim().toLowerCase() === email.toLowerCase();
+
+  const handleRequest = async () => {
+    const { error } = await api.post('/api/account/erasure-request', {
+      reason: reason || undefined,
+      confirmEmail,
+    });
+    if (error) return;
+
+    toast.success('Erasure request sent to the administrators');
+    setReason('');
+    setConfirmEmail('');
+    router.refresh();
+  };
+
+  const handleCancel = async () => {
+    const { error } = await api.delete('/api/account/erasure-request');
+    if (error) return;
+
+    toast.success('Erasure request cancelled');
+    router.refresh();
+  };
+
+  if (isOpen && latestRequest) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertDescription>
+            <span className="font-medium">{DATA_ERASURE_STATUS_LABELS[latestRequest.status]}.</span>{' '}
+            {latestRequest.status === 'PENDING'
+              ? `You asked for your account to be erased on ${format(new Date(latestRequest.createdAt), 'MMM d, yyyy')}. An administrator will review the request.`
+              : `Your account will be erased on ${latestRequest.scheduledFor ? format(new Date(latestRequest.scheduledFor), 'MMM d, yyyy') : 'the scheduled date'}. You can cancel until then.`}
+          </AlertDescription>
+        </Alert>
+        <Button variant="outline" onClick={handleCancel} disabled={api.isLoading}>
+          {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Cancel Erasure Request
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {latestRequest?.status === 'REJECTED' && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Your last erasure request was rejected.
+            {latestRequest.reviewNote && ` Reason: ${latestRequest.reviewNote}`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        An administrator reviews each request. Once approved, your account is erased after
+        {' '}{ERASURE_GRACE_PERIOD_DAYS} days: your profiles, talks, submissions and uploaded files
+        are deleted, and reviews or messages you left on other people&apos;s submissions are kept
+        without your name. Download your data first if you want a copy.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="erasure-reason">Reason (optional)</Label>
+        <Textarea
+          id="erasure-reason"
+          rows={3}
+          maxLength={2000}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="erasure-confirm-email">Type your email to confirm</Label>
+        <Input
+          id="erasure-confirm-email"
+          type="email"
+          autoComplete="off"
+          placeholder={email}
+          value={confirmEmail}
+          onChange={(e) => setConfirmEmail(e.target.value)}
+        />
+      </div>
+
+      <Button
+        variant="destructive"
+        onClick={handleRequest}
+        disabled={!emailMatches || api.isLoading}
+      >
+        {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Request Account Erasure
+      </Button>
+    </div>
+  );
+}
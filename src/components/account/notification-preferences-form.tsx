@@ -0,0 +1,129 @@
+/**
+ * Notification Preferences Form Component
+ *
+ * Per-channel, per-category settings: in-app notifications on or off, and
+ * immediate emails, a daily or weekly digest, or nothing. Account emails
+ * are not listed; they are always sent.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { NotificationCategory, NotificationChannel, NotificationFrequency } from '@prisma/client';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_CATEGORIES,
+  NOTIFICATION_CHANNEL_FREQUENCIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATION_CATEGORY_DESCRIPTIONS,
+  NOTIFICATION_CHANNEL_LABELS,
+  DEFAULT_NOTIFICATION_FREQUENCY,
+  getNotificationFrequencyLabel,
+  type NotificationPreferenceMap,
+} from '@/lib/notifications/state';
+
+interface NotificationPreferencesFormProps {
+  initialPreferences: NotificationPreferenceMap;
+}
+
+export function NotificationPreferencesForm({ initialPreferences }: NotificationPreferencesFormProps) {
+  const api = useApi<{ preferences: NotificationPreferenceMap }>();
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [saved, setSaved] = useState(initialPreferences);
+
+  const frequencyOf = (
+    map: NotificationPreferenceMap,
+    channel: NotificationChannel,
+    category: NotificationCategory
+  ) => map[channel][category] ?? DEFAULT_NOTIFICATION_FREQUENCY;
+
+  const changes = NOTIFICATION_CHANNELS.flatMap(channel =>
+    NOTIFICATION_CHANNEL_CATEGORIES[channel]
+      .filter(category => frequencyOf(preferences, channel, category) !== frequencyOf(saved, channel, category))
+      .map(category => ({ channel, category, frequency: frequencyOf(preferences, channel, category) }))
+  );
+
+  const handleChange = (
+    channel: NotificationChannel,
+    category: NotificationCategory,
+    frequency: NotificationFrequency
+  ) => {
+    setPreferences(current => ({
+      ...current,
+      [channel]: { ...current[channel], [category]: frequency },
+    }));
+  };
+
+  const handleSave = async () => {
+    const { data, error } = await api.patch('/api/account/notification-preferences', {
+      preferences: changes,
+    });
+    if (error || !data) return;
+
+    toast.success('Notification settings saved');
+    setPreferences(data.preferences);
+    setSaved(data.preferences);
+  };
+
+  return (
+    <div className="space-y-6">
+      {NOTIFICATION_CHANNELS.map(channel => (
+        <div key={channel} className="space-y-4">
+          <h3 className="text-sm font-medium text-slate-900 dark:text-white">
+            {NOTIFICATION_CHANNEL_LABELS[channel]}
+          </h3>
+          {NOTIFICATION_CHANNEL_CATEGORIES[channel].map(category => (
+            <div
+              key={category}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-4 rounded-lg bg-slate-50 dark:bg-slate-900/50"
+            >
+              <div className="space-y-1">
+                <Label htmlFor={`${channel}-${category}`}>{NOTIFICATION_CATEGORY_LABELS[category]}</Label>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  {NOTIFICATION_CATEGORY_DESCRIPTIONS[category]}
+                </p>
+              </div>
+              <Select
+                value={frequencyOf(preferences, channel, category)}
+                onValueChange={value => handleChange(channel, category, value as NotificationFrequency)}
+              >
+                <SelectTrigger id={`${channel}-${category}`} className="w-full sm:w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTIFICATION_CHANNEL_FREQUENCIES[channel].map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {getNotificationFrequencyLabel(channel, frequency)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Email digests are sent at 08:00 UTC; weekly digests on Mondays.
+        </p>
+        <Button onClick={handleSave} disabled={changes.length === 0 || api.isLoading}>
+          {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
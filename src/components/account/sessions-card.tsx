@@ -0,0 +1,111 @@
+/**
+ * Sessions Card Component
+ *
+ * Lists the browsers and devices an account is signed in on, with their
+ * address, location and last activity. Used on the account page, where
+ * users sign out their other sessions, and on the admin user page, where
+ * admins can sign a user out of one session or everywhere.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Monitor, Smartphone, Tablet } from 'lucide-react';
+import { formatSessionLocation } from '@/lib/sessions/state';
+import type { UserSessionListItem } from '@/lib/sessions/service';
+
+interface SessionsCardProps {
+  sessions: UserSessionListItem[];
+  /** Sessions endpoint: the user's own, or an admin's view of a user */
+  apiPath: string;
+  /** Admins sign the user out everywhere; users keep their current session */
+  admin?: boolean;
+}
+
+const DEVICE_ICONS = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+export function SessionsCard({ sessions, apiPath, admin = false }: SessionsCardProps) {
+  const router = useRouter();
+  const api = useApi();
+  const others = sessions.filter(session => !session.current);
+
+  const handleRevoke = async (session: UserSessionListItem) => {
+    const { error } = await api.delete(`${apiPath}/${session.id}`);
+    if (error) return;
+
+    toast.success(`Signed out ${session.device}`);
+    router.refresh();
+  };
+
+  const handleRevokeAll = async () => {
+    const { error } = await api.delete(apiPath);
+    if (error) return;
+
+    toast.success(admin ? 'Signed out of all sessions' : 'Signed out of your other sessions');
+    router.refresh();
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        {admin ? 'This user is not signed in anywhere.' : 'No other sessions.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y rounded-lg border border-slate-200 dark:border-slate-700">
+        {sessions.map(session => {
+          const Icon = DEVICE_ICONS[session.deviceType];
+          return (
+            <div key={session.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="flex items-start gap-3 min-w-0">
+                <Icon className="h-5 w-5 mt-0.5 shrink-0 text-slate-500 dark:text-slate-400" />
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-slate-900 dark:text-white">{session.device}</span>
+                    {session.current && <Badge className="bg-green-500">This device</Badge>}
+                  </div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 truncate">
+                    {formatSessionLocation(session.location, session.ipAddress)}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                    {' · '}
+                    Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  disabled={api.isLoading}
+                >
+                  Sign Out
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {(admin || others.length > 0) && (
+        <Button variant="outline" onClick={handleRevokeAll} disabled={api.isLoading}>
+          {admin ? 'Sign Out Everywhere' : 'Sign Out Other Sessions'}
+        </Button>
+      )}
+    </div>
+  );
+}
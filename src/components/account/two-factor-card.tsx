@@ -0,0 +1,255 @@
+/**
+ * Two-Factor Card Component
+ *
+ * Sets up two-factor authentication with an authenticator app (QR code,
+ * confirmation code, then recovery codes shown once), and once it is on,
+ * regenerates recovery codes or turns it off with a current code.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useApi } from '@/hooks/use-api';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck, AlertTriangle, Copy } from 'lucide-react';
+import { RECOVERY_CODE_COUNT, formatRecoveryCode } from '@/lib/two-factor/state';
+
+interface TwoFactorCardProps {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  /** The user's role requires two-factor, so it cannot be turned off */
+  required: boolean;
+  /** Where to go once setup is finished; stays on the page when unset */
+  continueUrl?: string;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+export function TwoFactorCard({
+  enabled,
+  enabledAt,
+  recoveryCodesRemaining,
+  required,
+  continueUrl,
+}: TwoFactorCardProps) {
+  const router = useRouter();
+  const api = useApi();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+
+  const handleStart = async () => {
+    const { data } = await api.post('/api/account/two-factor', {});
+    if (data) {
+      setEnrollment(data as Enrollment);
+      setCode('');
+    }
+  };
+
+  const handleConfirm = async () => {
+    const { data } = await api.post('/api/account/two-factor/confirm', { code });
+    if (!data) return;
+
+    setEnrollment(null);
+    setCode('');
+    setRecoveryCodes((data as { recoveryCodes: string[] }).recoveryCodes);
+    toast.success('Two-factor authentication is on');
+  };
+
+  const handleRegenerate = async () => {
+    const { data } = await api.post('/api/account/two-factor/recovery-codes', { code });
+    if (!data) return;
+
+    setAction(null);
+    setCode('');
+    setRecoveryCodes((data as { recoveryCodes: string[] }).recoveryCodes);
+    toast.success('New recovery codes created');
+  };
+
+  const handleDisable = async () => {
+    const { error } = await api.execute('/api/account/two-factor', {
+      method: 'DELETE',
+      body: JSON.stringify({ code }),
+    });
+    if (error) return;
+
+    setAction(null);
+    setCode('');
+    toast.success('Two-factor authentication is off');
+    router.refresh();
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.map(formatRecoveryCode).join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  const handleDone = () => {
+    setRecoveryCodes(null);
+    if (continueUrl) {
+      router.push(continueUrl);
+    }
+    router.refresh();
+  };
+
+  const codeInput = (id: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Authentication code</Label>
+      <Input
+        id={id}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        className="max-w-[200px]"
+      />
+    </div>
+  );
+
+  // Recovery codes, shown once after enrollment or regeneration
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose
+            your authenticator app. They will not be shown again.
+          </AlertDescription>
+        </Alert>
+        <div className="grid grid-cols-2 gap-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 p-4 font-mono text-sm">
+          {recoveryCodes.map(recoveryCode => (
+            <span key={recoveryCode}>{formatRecoveryCode(recoveryCode)}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyCodes}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button onClick={handleDone}>I&apos;ve saved my codes</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Enrollment in progress
+  if (enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Scan this QR code with an authenticator app such as 1Password, Google Authenticator
+          or Authy, then enter the 6-digit code it shows.
+        </p>
+        {/* eslint-disable-next-line @next/next/no-img-element -- data URL from the API */}
+        <img
+          src={enrollment.qrCode}
+          alt="QR code for your authenticator app"
+          width={220}
+          height={220}
+          className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white p-2"
+        />
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Can&apos;t scan it? Enter this key instead:{' '}
+          <code className="break-all">{enrollment.secret}</code>
+        </p>
+        {codeInput('enrollCode')}
+        <div className="flex gap-2">
+          <Button onClick={handleConfirm} disabled={api.isLoading || code.trim().length < 6}>
+            {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Turn On
+          </Button>
+          <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={api.isLoading}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!enabled) {
+    return (
+      <div className="space-y-4">
+        {required && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Your administrator requires two-factor authentication for your role.
+            </AlertDescription>
+          </Alert>
+        )}
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Protect your account with a code from an authenticator app in addition to your
+          password or single sign-on.
+        </p>
+        <Button onClick={handleStart} disabled={api.isLoading}>
+          {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Set Up Two-Factor Authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-green-600 dark:text-green-400" />
+        <span className="font-medium text-slate-900 dark:text-white">Two-factor authentication is on</span>
+        {required && <Badge variant="outline">Required for your role</Badge>}
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {enabledAt && `Turned on ${format(new Date(enabledAt), 'MMM d, yyyy')}. `}
+        {recoveryCodesRemaining} of {RECOVERY_CODE_COUNT} recovery codes left.
+      </p>
+
+      {action ? (
+        <div className="space-y-4 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {action === 'regenerate'
+              ? 'Enter a code from your authenticator app to replace your recovery codes. The old codes will stop working.'
+              : 'Enter a code from your authenticator app or a recovery code to turn two-factor authentication off.'}
+          </p>
+          {codeInput('manageCode')}
+          <div className="flex gap-2">
+            <Button
+              variant={action === 'disable' ? 'destructive' : 'default'}
+              onClick={action === 'regenerate' ? handleRegenerate : handleDisable}
+              disabled={api.isLoading || code.trim().length < 6}
+            >
+              {api.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {action === 'regenerate' ? 'Regenerate Codes' : 'Turn Off'}
+            </Button>
+            <Button variant="ghost" onClick={() => { setAction(null); setCode(''); }}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setAction('regenerate')}>
+            Regenerate Recovery Codes
+          </Button>
+          {!required && (
+            <Button variant="outline" onClick={() => setAction('disable')}>
+              Turn Off
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
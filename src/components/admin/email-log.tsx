@@ -0,0 +1,303 @@
+'use client';
+
+/**
+ * Email Log Component
+ *
+ * Searchable log of outbound email with delivery status, attempts and the
+ * last error. Failed, cancelled and sent emails can be resent; queued ones
+ * can be cancelled before the next attempt.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  RefreshCw,
+  Loader2,
+  Mail,
+  RotateCw,
+  Ban,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import type { OutboundEmailStatus } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  OUTBOUND_EMAIL_STATUS_LABELS,
+  MAX_EMAIL_ATTEMPTS,
+  canResendEmail,
+  canCancelEmail,
+} from '@/lib/email/queue-state';
+import { EMAIL_TEMPLATE_TYPE_LABELS, type EmailTemplateType } from '@/types/email-templates';
+
+interface OutboundEmailView {
+  id: string;
+  templateType: string | null;
+  recipient: string;
+  subject: string;
+  status: OutboundEmailStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_VARIANTS: Record<OutboundEmailStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  QUEUED: 'default',
+  SENDING: 'default',
+  SENT: 'secondary',
+  FAILED: 'destructive',
+  CANCELLED: 'outline',
+};
+
+const PAGE_SIZE = 25;
+
+function formatDate(date: string | null): string {
+  return date ? format(new Date(date), 'MMM d, yyyy HH:mm') : '-';
+}
+
+function templateLabel(type: string | null): string {
+  if (!type) return 'Custom';
+  return EMAIL_TEMPLATE_TYPE_LABELS[type as EmailTemplateType] ?? type;
+}
+
+export function EmailLog() {
+  const [emails, setEmails] = useState<OutboundEmailView[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [templateFilter, setTemplateFilter] = useState<string>('all');
+  const [offset, setOffset] = useState(0);
+
+  const fetchEmails = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (search) params.set('search', search);
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (templateFilter !== 'all') params.set('templateType', templateFilter);
+
+      const response = await fetch(`/api/admin/emails?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch emails');
+
+      const result = await response.json();
+      setEmails(result.data);
+      setTotal(result.meta?.total ?? 0);
+    } catch {
+      toast.error('Failed to load the email log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [offset, search, statusFilter, templateFilter]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setOffset(0);
+    setSearch(searchInput.trim());
+  };
+
+  const handleAction = async (email: OutboundEmailView, action: 'resend' | 'cancel') => {
+    setBusyId(email.id);
+    try {
+      const response = await fetch(`/api/admin/emails/${email.id}`, {
+        method: action === 'resend' ? 'POST' : 'DELETE',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} email`);
+      }
+
+      if (action === 'cancel') {
+        toast.success('Email cancelled');
+      } else if (result.data.delivered) {
+        toast.success(`Email resent to ${email.recipient}`);
+      } else {
+        toast.warning(`Email queued for another attempt${result.data.error ? `: ${result.data.error}` : ''}`);
+      }
+      await fetchEmails();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} email`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const page = Math.floor(offset / PAGE_SIZE) + 1;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <form onSubmit={handleSearch} className="flex gap-2 flex-1">
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search recipient or subject"
+            maxLength={200}
+          />
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value);
+            setOffset(0);
+          }}
+        >
+          <SelectTrigger className="lg:w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(OUTBOUND_EMAIL_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={templateFilter}
+          onValueChange={(value) => {
+            setTemplateFilter(value);
+            setOffset(0);
+          }}
+        >
+          <SelectTrigger className="lg:w-56">
+            <SelectValue placeholder="Template" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All templates</SelectItem>
+            {Object.entries(EMAIL_TEMPLATE_TYPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={fetchEmails} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {isLoading && emails.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : emails.length === 0 ? (
+        <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+          <Mail className="h-10 w-10 mx-auto mb-3 text-slate-400" />
+          <p>No emails match these filters</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800">
+          {emails.map((email) => (
+            <div key={email.id} className="py-4 flex flex-col sm:flex-row sm:items-start gap-4">
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-slate-900 dark:text-white truncate">
+                    {email.subject}
+                  </span>
+                  <Badge variant={STATUS_VARIANTS[email.status]}>
+                    {OUTBOUND_EMAIL_STATUS_LABELS[email.status]}
+                  </Badge>
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {email.recipient} · {templateLabel(email.templateType)}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Created {formatDate(email.createdAt)}
+                  {email.attempts > 0 && ` · ${email.attempts}/${MAX_EMAIL_ATTEMPTS} attempts`}
+                  {email.sentAt && ` · Sent ${formatDate(email.sentAt)}`}
+                  {email.status === 'QUEUED' && ` · Next attempt ${formatDate(email.nextAttemptAt)}`}
+                </p>
+                {email.lastError && email.status !== 'SENT' && (
+                  <p className="text-xs text-red-600 dark:text-red-400 break-words">
+                    {email.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {canResendEmail(email.status) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleAction(email, 'resend')}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === email.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCw className="h-4 w-4 mr-1" />
+                    )}
+                    Resend
+                  </Button>
+                )}
+                {canCancelEmail(email.status) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleAction(email, 'cancel')}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === email.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Ban className="h-4 w-4 mr-1" />
+                    )}
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between pt-2">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Page {page} of {totalPages} · {total} emails
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || isLoading}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={page >= totalPages || isLoading}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * Erasure Request Actions Component
+ *
+ * Approve or reject a pending account erasure request, with an optional
+ * note for the audit trail.
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Check, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ERASURE_GRACE_PERIOD_DAYS } from '@/lib/gdpr/state';
+
+interface ErasureRequestActionsProps {
+  requestId: string;
+  userLabel: string;
+}
+
+type Decision = 'approve' | 'reject';
+
+export function ErasureRequestActions({ requestId, userLabel }: ErasureRequestActionsProps) {
+  const router = useRouter();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [note, setNote] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleReview = async () => {
+    if (!decision) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/data-requests/${requestId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: note || undefined }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to review request');
+      }
+
+      toast.success(decision === 'approve' ? 'Erasure scheduled' : 'Request rejected');
+      setDecision(null);
+      setNote('');
+      router.refresh();
+    } catch (error) {
+      console.error('Error reviewing erasure request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to review request');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => setDecision('approve')}>
+          <Check className="h-4 w-4 mr-1" />
+          Approve
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setDecision('reject')}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+      </div>
+
+      <AlertDialog open={decision !== null} onOpenChange={(open) => !open && setDecision(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {decision === 'approve' ? 'Approve erasure' : 'Reject erasure request'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {decision === 'approve'
+                ? `The account of ${userLabel} will be erased in ${ERASURE_GRACE_PERIOD_DAYS} days unless they cancel. Their submissions, talks, profiles and files are deleted; reviews and messages on other submissions are kept without their name.`
+                : `${userLabel} keeps their account. Record why the request was rejected, e.g. a legal obligation to retain the data.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`erasure-note-${requestId}`}>Note (optional)</Label>
+            <Textarea
+              id={`erasure-note-${requestId}`}
+              rows={3}
+              maxLength={2000}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleReview();
+              }}
+              disabled={isLoading}
+              className={decision === 'approve' ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {decision === 'approve' ? 'Approve' : 'Reject'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
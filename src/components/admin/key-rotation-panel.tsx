@@ -0,0 +1,256 @@
+'use client';
+
+/**
+ * Key Rotation Panel Component
+ *
+ * Starts an encryption key rotation, polls its progress, and runs the
+ * verification pass that checks nothing is left on a retired key.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle2, AlertTriangle, Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import type { KeyRotationStatus } from '@prisma/client';
+import {
+  KEY_ROTATION_STATUS_LABELS,
+  KEY_ROTATION_TARGET_LABELS,
+  getKeyRotationProgress,
+  isKeyRotationActive,
+  type KeyRotationError,
+  type KeyRotationVerification,
+} from '@/lib/key-rotation/state';
+
+const POLL_INTERVAL_MS = 2000;
+
+export interface KeyRotationJobView {
+  id: string;
+  keyId: string;
+  status: KeyRotationStatus;
+  total: number;
+  scanned: number;
+  rotated: number;
+  failed: number;
+  errors: KeyRotationError[];
+  verification: KeyRotationVerification | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface KeyRotationPanelProps {
+  primaryKeyId: string;
+  retiredKeyCount: number;
+  latestJob: KeyRotationJobView | null;
+}
+
+export function KeyRotationPanel({ primaryKeyId, retiredKeyCount, latestJob }: KeyRotationPanelProps) {
+  const router = useRouter();
+  const [job, setJob] = useState<KeyRotationJobView | null>(latestJob);
+  const [verification, setVerification] = useState<KeyRotationVerification | null>(
+    latestJob?.keyId === primaryKeyId ? latestJob.verification : null
+  );
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const running = job !== null && isKeyRotationActive(job.status);
+
+  // Poll the running job until it finishes
+  useEffect(() => {
+    if (!job || !isKeyRotationActive(job.status)) return;
+
+    const timer = setTimeout(async () => {
+      const response = await fetch(`/api/admin/encryption/rotations/${job.id}`);
+      if (!response.ok) return;
+      const result = await response.json();
+      const next = result.data as KeyRotationJobView;
+      setJob(next);
+
+      if (!isKeyRotationActive(next.status)) {
+        setVerification(next.verification);
+        if (next.status === 'COMPLETED' && next.failed === 0) {
+          toast.success(`Key rotation finished: ${next.rotated} values re-encrypted`);
+        } else {
+          toast.error(`Key rotation finished with ${next.failed} failed values`);
+        }
+        router.refresh();
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job, router]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const response = await fetch('/api/admin/encryption/rotations', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start key rotation');
+      }
+
+      setJob(result.data as KeyRotationJobView);
+      setVerification(null);
+      setConfirmOpen(false);
+    } catch (error) {
+      console.error('Error starting key rotation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start key rotation');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch('/api/admin/encryption/verify', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to verify encryption keys');
+      }
+
+      const next = result.data as KeyRotationVerification;
+      setVerification(next);
+      if (next.clean) {
+        toast.success('Every encrypted value is on the primary key');
+      } else {
+        toast.error('Some values are still on an old key');
+      }
+    } catch (error) {
+      console.error('Error verifying encryption keys:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to verify encryption keys');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {job && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2">
+              <Badge variant={job.status === 'FAILED' ? 'destructive' : 'secondary'}>
+                {KEY_ROTATION_STATUS_LABELS[job.status]}
+              </Badge>
+              <span className="text-slate-500 dark:text-slate-400">
+                Started {format(new Date(job.createdAt), 'MMM d, yyyy HH:mm')}
+                {job.completedAt && ` · Finished ${format(new Date(job.completedAt), 'MMM d, yyyy HH:mm')}`}
+              </span>
+            </span>
+            <span className="text-slate-500">
+              {job.scanned} / {job.total} records
+            </span>
+          </div>
+          <Progress value={getKeyRotationProgress(job)} className="h-2" />
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {job.rotated} re-encrypted · {job.failed} failed
+          </p>
+          {job.errors.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto text-sm text-red-600 dark:text-red-400 space-y-1">
+              {job.errors.map((entry, index) => (
+                <li key={`${entry.recordId}-${index}`}>
+                  {KEY_ROTATION_TARGET_LABELS[entry.target]} {entry.recordId}
+                  {entry.field && ` (${entry.field})`}: {entry.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {verification && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            {verification.clean ? (
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+            )}
+            <span>
+              {verification.clean
+                ? 'Every encrypted value is on the primary key'
+                : 'Some values are still on an old key'}
+            </span>
+            <span className="text-slate-500 dark:text-slate-400 font-normal">
+              · Checked {format(new Date(verification.checkedAt), 'MMM d, yyyy HH:mm')}
+            </span>
+          </div>
+          <div className="divide-y divide-slate-200 dark:divide-slate-800 text-sm">
+            {verification.entries.map(entry => (
+              <div key={entry.target} className="py-2 flex items-center justify-between gap-4">
+                <span>{KEY_ROTATION_TARGET_LABELS[entry.target]}</span>
+                <span className={entry.remaining > 0 ? 'text-amber-600' : 'text-slate-500 dark:text-slate-400'}>
+                  {entry.remaining > 0
+                    ? `${entry.remaining} on ${entry.keyIds.join(', ')}`
+                    : 'Up to date'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => setConfirmOpen(true)} disabled={running}>
+          {running ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Re-encrypt All Data
+        </Button>
+        <Button variant="outline" onClick={handleVerify} disabled={running || isVerifying}>
+          {isVerifying ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ShieldCheck className="h-4 w-4 mr-2" />
+          )}
+          Verify
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Re-encrypt all data</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every encrypted value is re-encrypted with the primary key {primaryKeyId}.
+              {retiredKeyCount === 0
+                ? ' No retired keys are configured, so only values from before versioned encryption will change.'
+                : ` Keep the ${retiredKeyCount} retired key${retiredKeyCount === 1 ? '' : 's'} configured until verification passes.`}
+              {' '}The job runs in the background and can be left running.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isStarting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleStart();
+              }}
+              disabled={isStarting}
+            >
+              {isStarting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Start
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
 /**
  * Reviewer Workload Component
  * 
- * Displays reviewer workload distribution across events.
+ * Displays reviewer workload distribution across events, and how each
+ * reviewer scores compared with the rest of the panel.
  */
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -25,8 +26,10 @@ import {
   Clock, 
   User,
   BarChart3,
+  Scale,
 } from 'lucide-react';
 import Link from 'next/link';
+import type { ReviewerCalibration } from '@/lib/reviews/calibration';
 
 interface ReviewerData {
   id: string;
@@ -42,6 +45,7 @@ interface ReviewerData {
   eventsAssigned: number;
   avgScore: number | null;
   pendingReviews: number;
+  calibration: ReviewerCalibration | null;
 }
 
 interface ReviewerWorkloadProps {
@@ -70,6 +74,62 @@ function CustomTooltip({ active, payload, label }: CustomTooltipProps) {
   return null;
 }
 
+function formatBias(bias: number | null): string {
+  if (bias === null) return '-';
+  const rounded = Math.round(bias * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded.toFixed(1)}`;
+}
+
+function biasColor(bias: number | null): string {
+  if (bias === null || Math.abs(bias) < 0.5) return '';
+  return bias > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
+
+function agreementTitle(calibration: ReviewerCalibration): string {
+  const shared = `${calibration.sharedCount} shared submission${calibration.sharedCount !== 1 ? 's' : ''}`;
+  const { agreement } = calibration;
+  if (agreement === null) return `Not enough to compare (${shared})`;
+  const strength = agreement >= 0.7 ? 'Strong' : agreement >= 0.4 ? 'Moderate' : agreement >= 0 ? 'Weak' : 'Opposite';
+  return `${strength} agreement over ${shared}`;
+}
+
+function ReviewerCalibrationStats({ calibration }: { calibration: ReviewerCalibration }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 text-xs text-slate-500">
+        <Scale className="h-3 w-3" />
+        <span>Scoring calibration</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-center text-sm">
+        <div className="p-2 bg-slate-50 dark:bg-slate-800 rounded">
+          <p className="font-bold">{calibration.mean.toFixed(1)}</p>
+          <p className="text-xs text-slate-500">Mean</p>
+        </div>
+        <div className="p-2 bg-slate-50 dark:bg-slate-800 rounded">
+          <p className="font-bold">{calibration.spread.toFixed(1)}</p>
+          <p className="text-xs text-slate-500">Spread</p>
+        </div>
+        <div
+          className="p-2 bg-slate-50 dark:bg-slate-800 rounded"
+          title="Average difference from the other reviewers of the same submissions"
+        >
+          <p className={`font-bold ${biasColor(calibration.bias)}`}>{formatBias(calibration.bias)}</p>
+          <p className="text-xs text-slate-500">Bias</p>
+        </div>
+        <div
+          className="p-2 bg-slate-50 dark:bg-slate-800 rounded"
+          title={agreementTitle(calibration)}
+        >
+          <p className="font-bold">
+            {calibration.agreement !== null ? calibration.agreement.toFixed(2) : '-'}
+          </p>
+          <p className="text-xs text-slate-500">Agreement</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function ReviewerCard({ reviewer }: { reviewer: ReviewerData }) {
   const initials = reviewer.name
     ? reviewer.name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2)
@@ -130,6 +190,10 @@ function ReviewerCard({ reviewer }: { reviewer: ReviewerData }) {
               </div>
             </div>
             
+            {reviewer.calibration && (
+              <ReviewerCalibrationStats calibration={reviewer.calibration} />
+            )}
+            
             {/* Progress Bar */}
             {(reviewer.reviewCount + reviewer.pendingReviews) > 0 && (
               <div className="space-y-1">
@@ -277,7 +341,11 @@ export function ReviewerWorkload({ reviewers }: ReviewerWorkloadProps) {
       
       {/* Reviewer Cards */}
       <div>
-        <h3 className="text-lg font-semibold mb-4">All Reviewers</h3>
+        <h3 className="text-lg font-semibold mb-1">All Reviewers</h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+          Bias compares a reviewer&apos;s scores with the other reviewers of the same submissions;
+          agreement runs from -1 to 1, where 1 means they rank submissions just like the panel.
+        </p>
         {reviewers.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
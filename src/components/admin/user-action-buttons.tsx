@@ -3,7 +3,8 @@
 /**
  * User Action Buttons Component
  * 
- * Provides inline role change, edit, and delete buttons for user management.
+ * Provides inline role change, edit, two-factor reset and delete buttons for
+ * user management.
  * More accessible than a dropdown - all actions visible at once.
  */
 
@@ -29,7 +30,8 @@ import {
   User,
   Trash2,
   Loader2,
-  Pencil
+  Pencil,
+  ShieldOff
 } from 'lucide-react';
 import { toast } from 'sonner';
 import type { UserRole } from '@prisma/client';
@@ -38,12 +40,14 @@ interface UserActionButtonsProps {
   userId: string;
   currentRole: UserRole;
   userName: string;
+  twoFactorEnabled?: boolean;
 }
 
-export function UserActionButtons({ userId, currentRole, userName }: UserActionButtonsProps) {
+export function UserActionButtons({ userId, currentRole, userName, twoFactorEnabled }: UserActionButtonsProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState<string | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showResetTwoFactorDialog, setShowResetTwoFactorDialog] = useState(false);
   
   const handleRoleChange = async (newRole: UserRole) => {
     if (newRole === currentRole) return;
@@ -71,6 +75,29 @@ export function UserActionButtons({ userId, currentRole, userName }: UserActionB
     }
   };
   
+  const handleResetTwoFactor = async () => {
+    setIsLoading('resetTwoFactor');
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/two-factor`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reset two-factor authentication');
+      }
+      
+      toast.success('Two-factor authentication reset');
+      router.refresh();
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setIsLoading(null);
+      setShowResetTwoFactorDialog(false);
+    }
+  };
+  
   const handleDelete = async () => {
     setIsLoading('delete');
     try {
@@ -179,24 +206,70 @@ export function UserActionButtons({ userId, currentRole, userName }: UserActionB
             {/* Delete Button */}
             <div className="sm:border-l sm:pl-4 pt-4 sm:pt-0">
               <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">Danger Zone</p>
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={() => setShowDeleteDialog(true)}
-                disabled={isLoading !== null}
-              >
-                {isLoading === 'delete' ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Trash2 className="h-4 w-4 mr-2" />
+              <div className="flex flex-wrap gap-2">
+                {twoFactorEnabled && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowResetTwoFactorDialog(true)}
+                    disabled={isLoading !== null}
+                  >
+                    {isLoading === 'resetTwoFactor' ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <ShieldOff className="h-4 w-4 mr-2" />
+                    )}
+                    Reset 2FA
+                  </Button>
                 )}
-                Delete User
-              </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setShowDeleteDialog(true)}
+                  disabled={isLoading !== null}
+                >
+                  {isLoading === 'delete' ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-2" />
+                  )}
+                  Delete User
+                </Button>
+              </div>
             </div>
           </div>
         </CardContent>
       </Card>
       
+      <AlertDialog open={showResetTwoFactorDialog} onOpenChange={setShowResetTwoFactorDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+            <AlertDialogDescription>
+              Turn off two-factor authentication for <strong>{userName}</strong> and sign them out
+              of every session? Only do this after confirming their identity. If their role
+              requires two-factor, they will set it up again at their next sign-in.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading !== null}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleResetTwoFactor}
+              disabled={isLoading !== null}
+            >
+              {isLoading === 'resetTwoFactor' ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Resetting...
+                </>
+              ) : (
+                'Reset 2FA'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
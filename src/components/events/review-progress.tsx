@@ -3,14 +3,16 @@
 /**
  * Review Progress Component
  * 
- * Shows overall review progress and reviewer workload.
+ * Shows overall review progress and reviewer workload, with each
+ * reviewer's assignments against the review deadline when one is set.
  */
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { CheckCircle2, Clock, Users } from 'lucide-react';
+import { AlertTriangle, CalendarClock, CheckCircle2, Clock, Users } from 'lucide-react';
+import { REVIEW_PERIOD_STATE_LABELS, type ReviewPeriodState } from '@/lib/reviews/deadlines';
 
 interface ReviewerWorkload {
   id: string;
@@ -18,14 +20,30 @@ interface ReviewerWorkload {
   image: string | null;
   reviewCount: number;
   assignedCount: number;
+  /** Assignments reviewed (or ranked); defaults to reviewCount */
+  completedCount?: number;
 }
 
+interface ReviewDeadline {
+  /** Deadline as shown to organizers, in the event timezone */
+  label: string;
+  state: ReviewPeriodState;
+}
+
+const DEADLINE_BADGE_CLASSES: Record<ReviewPeriodState, string> = {
+  upcoming: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  open: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300',
+  closing: 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300',
+  overdue: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+};
+
 interface ReviewProgressProps {
   totalSubmissions: number;
   reviewedSubmissions: number;
   totalReviews: number;
   reviewersWorkload?: ReviewerWorkload[];
   targetReviewsPerSubmission?: number;
+  deadline?: ReviewDeadline | null;
 }
 
 export function ReviewProgress({
@@ -34,6 +52,7 @@ export function ReviewProgress({
   totalReviews,
   reviewersWorkload = [],
   targetReviewsPerSubmission = 2,
+  deadline = null,
 }: ReviewProgressProps) {
   const progressPercentage = totalSubmissions > 0 
     ? Math.round((reviewedSubmissions / totalSubmissions) * 100) 
@@ -54,6 +73,19 @@ export function ReviewProgress({
         <CardDescription>Track submission review completion</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Review Deadline */}
+        {deadline && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+            <div className="flex items-center gap-2 min-w-0">
+              <CalendarClock className="h-4 w-4 text-slate-500 shrink-0" />
+              <span className="text-sm truncate">Reviews due {deadline.label}</span>
+            </div>
+            <Badge className={DEADLINE_BADGE_CLASSES[deadline.state]}>
+              {REVIEW_PERIOD_STATE_LABELS[deadline.state]}
+            </Badge>
+          </div>
+        )}
+        
         {/* Main Progress */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -95,6 +127,9 @@ export function ReviewProgress({
                 const initials = reviewer.name
                   ? reviewer.name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2)
                   : 'U';
+                const completed = Math.min(reviewer.completedCount ?? reviewer.reviewCount, reviewer.assignedCount);
+                const done = completed >= reviewer.assignedCount;
+                const overdue = !done && deadline?.state === 'overdue';
                 
                 return (
                   <div 
@@ -105,17 +140,27 @@ export function ReviewProgress({
                       <AvatarImage src={reviewer.image || undefined} />
                       <AvatarFallback className="text-xs">{initials}</AvatarFallback>
                     </Avatar>
-                    <div className="flex-1 min-w-0">
+                    <div className="flex-1 min-w-0 space-y-1">
                       <p className="text-sm font-medium truncate">
                         {reviewer.name || 'Unknown'}
                       </p>
+                      {reviewer.assignedCount > 0 && (
+                        <Progress
+                          value={Math.round((completed / reviewer.assignedCount) * 100)}
+                          className="h-1.5"
+                        />
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <Badge variant="secondary" className="text-xs">
-                        {reviewer.reviewCount} reviews
+                        {reviewer.assignedCount > 0
+                          ? `${completed} / ${reviewer.assignedCount} assigned`
+                          : `${reviewer.reviewCount} reviews`}
                       </Badge>
-                      {reviewer.reviewCount >= reviewer.assignedCount ? (
+                      {done ? (
                         <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      ) : overdue ? (
+                        <AlertTriangle className="h-4 w-4 text-red-500" />
                       ) : (
                         <Clock className="h-4 w-4 text-yellow-500" />
                       )}
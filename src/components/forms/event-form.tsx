@@ -7,7 +7,7 @@
  * - Basic Info (name, description, website, event type)
  * - Dates (start/end, times, timezone)
  * - Location (venue, address, city, country, virtual)
- * - CFP (dates, guidelines, speaker benefits, talk formats)
+ * - CFP (dates, guidelines, speaker benefits, talk formats, form questions)
  * - Review (type, criteria, settings)
  * - Topics (topic selector, audience levels)
  */
@@ -60,6 +60,11 @@ import {
 } from 'lucide-react';
 import { RichTextEditor } from '@/components/editors/rich-text-editor';
 import { TopicSelector } from '@/components/forms/topic-selector';
+import {
+  SubmissionFieldsEditor,
+  cleanFieldOptions,
+  type SubmissionFieldFormValue,
+} from '@/components/forms/submission-fields-editor';
 import {
   countries,
   eventTypeOptions,
@@ -67,6 +72,7 @@ import {
   talkLengthOptions,
   timeOptions,
   reviewTypeOptions,
+  reviewAnonymityOptions,
   defaultTalkFormats,
   defaultReviewCriteria,
 } from '@/lib/constants';
@@ -105,19 +111,36 @@ const eventFormSchema = z.object({
   cfpEndTime: z.string().default('17:00'),
   cfpGuidelines: z.string().optional(),
   speakerBenefits: z.string().optional(),
+  confirmationDeadlineDays: z.number().min(1).max(90).default(14),
+  codeOfConductUrl: z.string().url('Please enter a valid URL').or(z.literal('')).optional(),
   talkFormats: z.array(z.object({
     name: z.string(),
     description: z.string().optional(),
     durationMin: z.number(),
   })).optional(),
+  submissionFields: z.array(z.object({
+    id: z.string().optional(),
+    label: z.string(),
+    description: z.string().optional(),
+    type: z.enum(['TEXT', 'RICH_TEXT', 'SELECT', 'MULTI_SELECT', 'CHECKBOX', 'URL', 'NUMBER']),
+    required: z.boolean(),
+    options: z.array(z.string()),
+    maxLength: z.number().nullable().optional(),
+    minValue: z.number().nullable().optional(),
+    maxValue: z.number().nullable().optional(),
+  })).optional(),
   notifyOnNewSubmission: z.boolean().default(true),
   notifyOnNewReview: z.boolean().default(false),
   
   // Review
   reviewType: z.string().default('scoring'),
+  reviewAnonymity: z.string().default('OPEN'),
   minReviewsPerTalk: z.number().default(2),
   enableSpeakerFeedback: z.boolean().default(false),
+  reviewStartDate: z.string().optional(),
+  reviewEndDate: z.string().optional(),
   reviewCriteria: z.array(z.object({
+    id: z.string().optional(),
     name: z.string(),
     description: z.string().optional(),
     weight: z.number().min(1).max(5),
@@ -182,12 +205,18 @@ export function EventForm({ mode, event, onSuccess }: EventFormProps) {
       cfpEndTime: event?.cfpEndTime || '23:59',
       cfpGuidelines: event?.cfpGuidelines || '',
       speakerBenefits: event?.speakerBenefits || '',
+      confirmationDeadlineDays: event?.confirmationDeadlineDays || 14,
+      codeOfConductUrl: event?.codeOfConductUrl || '',
       talkFormats: event?.talkFormats || defaultTalkFormats,
+      submissionFields: event?.submissionFields || [],
       notifyOnNewSubmission: event?.notifyOnNewSubmission ?? true,
       notifyOnNewReview: event?.notifyOnNewReview ?? false,
       reviewType: event?.reviewType || 'scoring',
+      reviewAnonymity: event?.reviewAnonymity || 'OPEN',
       minReviewsPerTalk: event?.minReviewsPerTalk || 2,
       enableSpeakerFeedback: event?.enableSpeakerFeedback || false,
+      reviewStartDate: event?.reviewStartDate || '',
+      reviewEndDate: event?.reviewEndDate || '',
       reviewCriteria: event?.reviewCriteria || defaultReviewCriteria,
       topics: event?.topics || [],
       audienceLevel: event?.audienceLevel || [],
@@ -263,12 +292,21 @@ export function EventForm({ mode, event, onSuccess }: EventFormProps) {
         cfpEndTime: values.cfpEndTime,
         cfpGuidelines: values.cfpGuidelines || null,
         speakerBenefits: values.speakerBenefits || null,
+        confirmationDeadlineDays: values.confirmationDeadlineDays,
+        codeOfConductUrl: values.codeOfConductUrl || null,
         talkFormats: values.talkFormats || [],
+        submissionFields: (values.submissionFields || []).map(field => ({
+          ...field,
+          options: cleanFieldOptions(field.options),
+        })),
         notifyOnNewSubmission: values.notifyOnNewSubmission,
         notifyOnNewReview: values.notifyOnNewReview,
         reviewType: values.reviewType,
+        reviewAnonymity: values.reviewAnonymity,
         minReviewsPerTalk: values.minReviewsPerTalk,
         enableSpeakerFeedback: values.enableSpeakerFeedback,
+        reviewStartDate: values.reviewStartDate ? new Date(values.reviewStartDate).toISOString() : null,
+        reviewEndDate: values.reviewEndDate ? new Date(values.reviewEndDate).toISOString() : null,
         reviewCriteria: values.reviewCriteria || [],
         topics: values.topics || [],
         audienceLevel: values.audienceLevel || [],
@@ -901,6 +939,55 @@ export function EventForm({ mode, event, onSuccess }: EventFormProps) {
                   )}
                 />
                 
+                {/* Speaker Confirmation */}
+                <div className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="confirmationDeadlineDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirmation Deadline</FormLabel>
+                        <FormControl>
+                          <div className="flex items-center gap-3">
+                            <Input
+                              type="number"
+                              min={1}
+                              max={90}
+                              className="w-24"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 14)}
+                            />
+                            <span className="text-sm text-slate-500 dark:text-slate-400">
+                              days after acceptance
+                            </span>
+                          </div>
+                        </FormControl>
+                        <FormDescription>
+                          Unconfirmed talks are replaced from the waitlist after this
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="codeOfConductUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Code of Conduct URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://example.com/code-of-conduct" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Speakers agree to it when confirming their talk
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
                 {/* Talk Formats */}
                 <div className="space-y-4">
                   <div>
@@ -987,6 +1074,22 @@ export function EventForm({ mode, event, onSuccess }: EventFormProps) {
                   </Button>
                 </div>
                 
+                {/* Submission Form Questions */}
+                <div className="space-y-4 pt-4 border-t">
+                  <div>
+                    <FormLabel>Submission Form Questions</FormLabel>
+                    <FormDescription>
+                      Extra questions speakers answer when submitting a talk. Reviewers see the
+                      answers and they are included in exports.
+                    </FormDescription>
+                  </div>
+                  
+                  <SubmissionFieldsEditor
+                    value={(watchedValues.submissionFields || []) as SubmissionFieldFormValue[]}
+                    onChange={(fields) => form.setValue('submissionFields', fields, { shouldDirty: true })}
+                  />
+                </div>
+                
                 {/* Notification Settings */}
                 <div className="space-y-4 pt-4 border-t">
                   <FormLabel>Notifications</FormLabel>
@@ -1095,6 +1198,50 @@ export function EventForm({ mode, event, onSuccess }: EventFormProps) {
                   />
                 </div>
                 
+                {/* Review Anonymity */}
+                <div className="space-y-3">
+                  <FormLabel className="text-base font-semibold">Reviewer Anonymity</FormLabel>
+                  <FormField
+                    control={form.control}
+                    name="reviewAnonymity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                          {reviewAnonymityOptions.map((opt) => {
+                            const isSelected = field.value === opt.value;
+                            return (
+                              <button
+                                key={opt.value}
+                                type="button"
+                                onClick={() => field.onChange(opt.value)}
+                                className={`
+                                  relative p-4 rounded-xl border-2 text-left transition-all duration-200
+                                  ${isSelected 
+                                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30 ring-2 ring-blue-200 dark:ring-blue-800' 
+                                    : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                                  }
+                                `}
+                              >
+                                <div className={`font-semibold mb-1 ${isSelected ? 'text-blue-700 dark:text-blue-300' : 'text-slate-900 dark:text-white'}`}>
+                                  {opt.label}
+                                </div>
+                                <div className="text-sm text-slate-500 dark:text-slate-400">
+                                  {opt.description}
+                                </div>
+                              </button>
+                            );
+                          })}
+                        </div>
+                        <FormDescription>
+                          Organizers and admins always see full identities. Each time they view
+                          identities hidden from reviewers, it is recorded in the activity log.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
                 {/* Review Requirements - Side by Side */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {/* Min Reviews */}
@@ -1170,6 +1317,48 @@ export function EventForm({ mode, event, onSuccess }: EventFormProps) {
                   </div>
                 </div>
                 
+                {/* Review Period */}
+                <div className="space-y-3">
+                  <div>
+                    <h3 className="text-base font-semibold text-slate-900 dark:text-white">Review Period</h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                      Dates are in the event timezone. Reviewers with unfinished assignments are
+                      reminded 7, 3 and 1 days before the deadline, and lead reviewers are told
+                      who is still behind once it passes.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="reviewStartDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Reviews Start</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormDescription>Optional; no reminders before this day</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="reviewEndDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Review Deadline</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormDescription>Last day for reviews; leave empty for no deadline</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+                
                 {/* Review Criteria Section */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
@@ -0,0 +1,178 @@
+'use client';
+
+/**
+ * Submission Field Inputs
+ *
+ * Renders an event's extra submission questions as form inputs. Answers
+ * are kept by the parent form, keyed by field id.
+ */
+
+import dynamic from 'next/dynamic';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_FIELD_MAX_LENGTH,
+  type SubmissionFieldDefinition,
+  type SubmissionFieldValue,
+} from '@/lib/submission-fields/fields';
+
+// Dynamically import RichTextEditor to avoid SSR issues
+const RichTextEditor = dynamic(
+  () => import('@/components/editors/rich-text-editor').then(mod => mod.RichTextEditor),
+  {
+    ssr: false,
+    loading: () => <div className="h-[120px] border rounded-md animate-pulse bg-slate-100 dark:bg-slate-800" />
+  }
+);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SubmissionFieldInputsProps {
+  /** Fields in display order */
+  fields: SubmissionFieldDefinition[];
+  /** Answers keyed by field id */
+  values: Record<string, SubmissionFieldValue | undefined>;
+  /** Callback when an answer changes */
+  onChange: (fieldId: string, value: SubmissionFieldValue | undefined) => void;
+  /** Error message per field id */
+  errors?: Record<string, string>;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function SubmissionFieldInputs({ fields, values, onChange, errors = {} }: SubmissionFieldInputsProps) {
+  const renderInput = (field: SubmissionFieldDefinition, inputId: string) => {
+    const value = values[field.id];
+    const maxLength = field.maxLength ?? DEFAULT_FIELD_MAX_LENGTH[field.type];
+
+    switch (field.type) {
+      case 'TEXT':
+      case 'URL':
+        return (
+          <Input
+            id={inputId}
+            type={field.type === 'URL' ? 'url' : 'text'}
+            placeholder={field.type === 'URL' ? 'https://' : undefined}
+            maxLength={maxLength}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value)}
+          />
+        );
+
+      case 'RICH_TEXT':
+        return (
+          <RichTextEditor
+            content={typeof value === 'string' ? value : ''}
+            onChange={(html) => onChange(field.id, html)}
+            maxLength={maxLength}
+            minHeight={120}
+            showCharacterCount
+          />
+        );
+
+      case 'NUMBER':
+        return (
+          <Input
+            id={inputId}
+            type="number"
+            min={field.minValue ?? undefined}
+            max={field.maxValue ?? undefined}
+            value={typeof value === 'number' || typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value === '' ? undefined : e.target.value)}
+          />
+        );
+
+      case 'SELECT':
+        return (
+          <Select
+            value={typeof value === 'string' ? value : undefined}
+            onValueChange={(option) => onChange(field.id, option)}
+          >
+            <SelectTrigger id={inputId}>
+              <SelectValue placeholder="Select an option" />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
+      case 'MULTI_SELECT': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-2">
+            {field.options.map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${inputId}-${index}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => onChange(
+                    field.id,
+                    checked ? [...selected, option] : selected.filter(choice => choice !== option)
+                  )}
+                />
+                <Label htmlFor={`${inputId}-${index}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case 'CHECKBOX':
+        return (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={inputId}
+              checked={value === true}
+              onCheckedChange={(checked) => onChange(field.id, checked === true)}
+            />
+            <Label htmlFor={inputId} className="font-normal">
+              {field.label}{field.required && ' *'}
+            </Label>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => {
+        const inputId = `submission-field-${field.id}`;
+        return (
+          <div key={field.id} className="space-y-2">
+            {field.type !== 'CHECKBOX' && (
+              <Label htmlFor={inputId}>
+                {field.label}{field.required ? ' *' : ' (optional)'}
+              </Label>
+            )}
+            {renderInput(field, inputId)}
+            {field.description && (
+              <p className="text-sm text-muted-foreground">{field.description}</p>
+            )}
+            {errors[field.id] && (
+              <p className="text-sm font-medium text-destructive">{errors[field.id]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+/**
+ * Submission Fields Editor
+ *
+ * Lets organizers add extra questions to an event's submission form.
+ * Used in the CFP tab of the event form.
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import type { SubmissionFieldType } from '@prisma/client';
+import {
+  SUBMISSION_FIELD_TYPE_LABELS,
+  MAX_SUBMISSION_FIELDS,
+  hasFieldOptions,
+} from '@/lib/submission-fields/fields';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SubmissionFieldFormValue {
+  id?: string;
+  label: string;
+  description?: string;
+  type: SubmissionFieldType;
+  required: boolean;
+  options: string[];
+  maxLength?: number | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+interface SubmissionFieldsEditorProps {
+  /** Fields in display order */
+  value: SubmissionFieldFormValue[];
+  /** Callback when fields change */
+  onChange: (fields: SubmissionFieldFormValue[]) => void;
+}
+
+const FIELD_TYPES = Object.keys(SUBMISSION_FIELD_TYPE_LABELS) as SubmissionFieldType[];
+
+function parseNumber(value: string): number | null {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Options as entered, one per line, with blank lines and duplicates removed
+ */
+export function cleanFieldOptions(options: string[]): string[] {
+  return [...new Set(options.map(option => option.trim()).filter(Boolean))];
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function SubmissionFieldsEditor({ value, onChange }: SubmissionFieldsEditorProps) {
+  const updateField = (index: number, changes: Partial<SubmissionFieldFormValue>) => {
+    onChange(value.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const addField = () => {
+    onChange([
+      ...value,
+      { label: '', description: '', type: 'TEXT', required: false, options: [] },
+    ]);
+  };
+
+  const removeField = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.map((field, index) => {
+        const isText = field.type === 'TEXT' || field.type === 'RICH_TEXT' || field.type === 'URL';
+
+        return (
+          <div key={field.id ?? `new-${index}`} className="rounded-lg border p-4 space-y-4">
+            <div className="flex justify-between items-center">
+              <h4 className="font-medium">Question {index + 1}</h4>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveField(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveField(index, 1)}
+                  disabled={index === value.length - 1}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeField(index)}
+                  aria-label="Remove question"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor={`submission-field-${index}-label`}>Question</Label>
+                <Input
+                  id={`submission-field-${index}-label`}
+                  placeholder="e.g., Have you given this talk before?"
+                  value={field.label}
+                  maxLength={200}
+                  onChange={(e) => updateField(index, { label: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={field.type}
+                  onValueChange={(type) => updateField(index, { type: type as SubmissionFieldType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {SUBMISSION_FIELD_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`submission-field-${index}-description`}>Help text</Label>
+              <Input
+                id={`submission-field-${index}-description`}
+                placeholder="Optional hint shown under the question"
+                value={field.description ?? ''}
+                maxLength={500}
+                onChange={(e) => updateField(index, { description: e.target.value })}
+              />
+            </div>
+
+            {hasFieldOptions(field.type) && (
+              <div className="space-y-2">
+                <Label htmlFor={`submission-field-${index}-options`}>Options</Label>
+                <Textarea
+                  id={`submission-field-${index}-options`}
+                  placeholder={'One option per line'}
+                  rows={4}
+                  value={field.options.join('\n')}
+                  onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                />
+              </div>
+            )}
+
+            {isText && (
+              <div className="space-y-2 md:w-1/3">
+                <Label htmlFor={`submission-field-${index}-max-length`}>Maximum length</Label>
+                <Input
+                  id={`submission-field-${index}-max-length`}
+                  type="number"
+                  min={1}
+                  max={10000}
+                  placeholder="No limit"
+                  value={field.maxLength ?? ''}
+                  onChange={(e) => updateField(index, { maxLength: parseNumber(e.target.value) })}
+                />
+              </div>
+            )}
+
+            {field.type === 'NUMBER' && (
+              <div className="grid grid-cols-2 gap-4 md:w-2/3">
+                <div className="space-y-2">
+                  <Label htmlFor={`submission-field-${index}-min`}>Minimum</Label>
+                  <Input
+                    id={`submission-field-${index}-min`}
+                    type="number"
+                    value={field.minValue ?? ''}
+                    onChange={(e) => updateField(index, { minValue: parseNumber(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`submission-field-${index}-max`}>Maximum</Label>
+                  <Input
+                    id={`submission-field-${index}-max`}
+                    type="number"
+                    value={field.maxValue ?? ''}
+                    onChange={(e) => updateField(index, { maxValue: parseNumber(e.target.value) })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`submission-field-${index}-required`}
+                checked={field.required}
+                onCheckedChange={(required) => updateField(index, { required })}
+              />
+              <Label htmlFor={`submission-field-${index}-required`}>
+                {field.type === 'CHECKBOX' ? 'Must be checked' : 'Required'}
+              </Label>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addField}
+        disabled={value.length >= MAX_SUBMISSION_FIELDS}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Question
+      </Button>
+    </div>
+  );
+}
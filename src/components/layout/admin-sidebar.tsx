@@ -22,6 +22,10 @@ import {
   Link2,
   Tags,
   Puzzle,
+  UserX,
+  KeyRound,
+  Mail,
+  Webhook,
 } from 'lucide-react';
 import { SidebarNav, NavItem } from './sidebar-nav';
 import { AdminSidebarSlot } from '../plugins/admin-sidebar-slot';
@@ -73,6 +77,30 @@ export function AdminSidebar({
       icon: Shield,
       description: "Review team management"
     },
+    {
+      title: "Email Log",
+      href: "/admin/emails",
+      icon: Mail,
+      description: "Outbound email delivery"
+    },
+    {
+      title: "Webhooks",
+      href: "/admin/webhooks",
+      icon: Webhook,
+      description: "Outbound webhooks"
+    },
+    {
+      title: "Data Requests",
+      href: "/admin/data-requests",
+      icon: UserX,
+      description: "Account erasure requests"
+    },
+    {
+      title: "Encryption",
+      href: "/admin/encryption",
+      icon: KeyRound,
+      description: "Encryption key rotation"
+    },
     {
       title: "Topics",
       href: "/admin/topics",
@@ -13,6 +13,7 @@ import { cn } from '@/lib/utils';
 import { MobileNav } from './mobile-nav';
 import { UserButton } from '@/components/auth/user-button';
 import { ThemeToggle } from './theme-toggle';
+import { NotificationBell } from '@/components/notifications/notification-bell';
 import {
   LayoutDashboard,
   Calendar,
@@ -102,7 +103,7 @@ export function DashboardHeader({
           </nav>
         </div>
 
-        {/* Right: Role Badge + Theme Toggle + User Menu */}
+        {/* Right: Role Badge + Theme Toggle + Notifications + User Menu */}
         <div className="flex items-center gap-3">
           {/* Federation Indicator */}
           {federationEnabled && (
@@ -122,6 +123,8 @@ export function DashboardHeader({
 
           <ThemeToggle />
           
+          <NotificationBell />
+          
           <UserButton />
         </div>
       </div>
@@ -30,6 +30,10 @@ import {
   Server,
   Key,
   Mic2,
+  UserX,
+  KeyRound,
+  Mail,
+  Webhook,
 } from 'lucide-react';
 
 type UserRole = 'SPEAKER' | 'ORGANIZER' | 'REVIEWER' | 'ADMIN';
@@ -68,6 +72,10 @@ const getNavItems = (role: UserRole, federationEnabled: boolean) => {
       { title: 'Events', href: '/admin/events', icon: Calendar },
       { title: 'Submissions', href: '/submissions', icon: FileText },
       { title: 'Reviewers', href: '/admin/reviewers', icon: Shield },
+      { title: 'Email Log', href: '/admin/emails', icon: Mail },
+      { title: 'Webhooks', href: '/admin/webhooks', icon: Webhook },
+      { title: 'Data Requests', href: '/admin/data-requests', icon: UserX },
+      { title: 'Encryption', href: '/admin/encryption', icon: KeyRound },
       { title: 'Topics', href: '/admin/topics', icon: Tags },
       { title: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
       { title: 'Settings', href: '/settings', icon: Settings },
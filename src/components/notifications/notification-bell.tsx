@@ -0,0 +1,141 @@
+'use client';
+
+/**
+ * Notification Bell Component
+ *
+ * Bell in the dashboard header with the unread count. Opens a menu of
+ * recent notifications; choosing one marks it read and follows its link.
+ */
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, Loader2, Settings } from 'lucide-react';
+import type { NotificationCategory } from '@prisma/client';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useNotifications } from '@/hooks/use-notifications';
+import { NOTIFICATION_CATEGORY_LABELS } from '@/lib/notifications/state';
+import type { StreamedNotification } from '@/lib/notifications/realtime';
+
+function isInternalPath(url: string): boolean {
+  return url.startsWith('/') && !url.startsWith('//');
+}
+
+export function NotificationBell() {
+  const router = useRouter();
+  const { notifications, unreadCount, isLoading, isLoaded, refresh, markRead } = useNotifications();
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      refresh();
+    }
+  };
+
+  const handleSelect = (notification: StreamedNotification) => {
+    if (!notification.readAt) {
+      markRead([notification.id]);
+    }
+    if (notification.url) {
+      if (isInternalPath(notification.url)) {
+        router.push(notification.url);
+      } else {
+        window.open(notification.url, '_blank', 'noopener,noreferrer');
+      }
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-9 w-9"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-[18px] text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="inline-flex items-center gap-1 text-xs font-normal text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white"
+              onClick={() => markRead(null)}
+            >
+              <CheckCheck className="h-3 w-3" />
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        <div className="max-h-96 overflow-y-auto">
+          {!isLoaded && isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+              You&apos;re all caught up
+            </p>
+          ) : (
+            notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-0.5 cursor-pointer"
+                onSelect={() => handleSelect(notification)}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.readAt && (
+                    <span className="h-2 w-2 shrink-0 rounded-full bg-blue-500" aria-label="Unread" />
+                  )}
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {notification.source ??
+                      NOTIFICATION_CATEGORY_LABELS[notification.category as NotificationCategory] ??
+                      'Notification'}
+                  </span>
+                  <span className="ml-auto text-xs text-slate-400">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className={cn('text-sm line-clamp-1', !notification.readAt && 'font-medium')}>
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">
+                    {notification.body}
+                  </p>
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/account?tab=notifications" className="cursor-pointer">
+            <Settings className="mr-2 h-4 w-4" />
+            Notification settings
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+/**
+ * Webhook Delivery Log Component
+ *
+ * An endpoint's deliveries with their status, attempts and timing. Each
+ * entry expands to the signed request body and the endpoint's last
+ * response. Succeeded and failed deliveries can be redelivered.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  RefreshCw,
+  Loader2,
+  RotateCw,
+  ChevronDown,
+  ChevronUp,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import type { WebhookDeliveryStatus } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  MAX_WEBHOOK_ATTEMPTS,
+  canRedeliverWebhook,
+} from '@/lib/webhooks/state';
+
+interface WebhookDeliveryView {
+  id: string;
+  hookName: string;
+  requestBody: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  durationMs: number | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+interface WebhookDeliveryLogProps {
+  endpointId: string;
+  /** Changes when the parent sends a test event, to reload the log */
+  refreshKey?: number;
+}
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'default',
+  DELIVERING: 'default',
+  SUCCEEDED: 'secondary',
+  FAILED: 'destructive',
+};
+
+const PAGE_SIZE = 10;
+
+function formatDate(date: string | null): string {
+  return date ? format(new Date(date), 'MMM d, yyyy HH:mm:ss') : '-';
+}
+
+/** Pretty-print JSON bodies; anything else is shown as sent */
+function formatBody(body: string): string {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+export function WebhookDeliveryLog({ endpointId, refreshKey = 0 }: WebhookDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryView[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [offset, setOffset] = useState(0);
+
+  const fetchDeliveries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+
+      const response = await fetch(`/api/webhooks/${endpointId}/deliveries?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch deliveries');
+
+      const result = await response.json();
+      setDeliveries(result.data);
+      setTotal(result.meta?.total ?? 0);
+    } catch {
+      toast.error('Failed to load the delivery log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpointId, offset, statusFilter]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries, refreshKey]);
+
+  const handleRedeliver = async (delivery: WebhookDeliveryView) => {
+    setBusyId(delivery.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpointId}/deliveries/${delivery.id}`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to redeliver');
+      }
+
+      if (result.data.delivered) {
+        toast.success(`Redelivered ${delivery.hookName}`);
+      } else {
+        toast.warning(`Delivery failed and will be retried${result.data.error ? `: ${result.data.error}` : ''}`);
+      }
+      await fetchDeliveries();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to redeliver');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const page = Math.floor(offset / PAGE_SIZE) + 1;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value);
+            setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(WEBHOOK_DELIVERY_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={fetchDeliveries} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {isLoading && deliveries.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        </div>
+      ) : deliveries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+          No deliveries yet
+        </p>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800">
+          {deliveries.map((delivery) => {
+            const expanded = expandedId === delivery.id;
+            return (
+              <div key={delivery.id} className="p-3 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <code className="text-sm font-medium text-slate-900 dark:text-white">
+                        {delivery.hookName}
+                      </code>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                        {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                      </Badge>
+                      {delivery.responseStatus !== null && (
+                        <Badge variant="outline" className="font-mono">{delivery.responseStatus}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      Created {formatDate(delivery.createdAt)}
+                      {delivery.attempts > 0 && ` · ${delivery.attempts}/${MAX_WEBHOOK_ATTEMPTS} attempts`}
+                      {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                      {delivery.status === 'PENDING' && delivery.attempts > 0 &&
+                        ` · Next attempt ${formatDate(delivery.nextAttemptAt)}`}
+                    </p>
+                    {delivery.lastError && delivery.status !== 'SUCCEEDED' && (
+                      <p className="text-xs text-red-600 dark:text-red-400 break-words">
+                        {delivery.lastError}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {canRedeliverWebhook(delivery.status) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRedeliver(delivery)}
+                        disabled={busyId !== null}
+                      >
+                        {busyId === delivery.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCw className="h-4 w-4 mr-1" />
+                        )}
+                        Redeliver
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                      aria-expanded={expanded}
+                    >
+                      {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      <span className="sr-only">{expanded ? 'Hide' : 'Show'} request and response</span>
+                    </Button>
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="grid gap-3 lg:grid-cols-2">
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-xs font-medium text-slate-600 dark:text-slate-400">Request</p>
+                      <pre className="max-h-80 overflow-auto rounded bg-slate-100 dark:bg-slate-900 p-2 text-xs">
+                        {formatBody(delivery.requestBody)}
+                      </pre>
+                    </div>
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
+                        Response{delivery.responseStatus !== null && ` (${delivery.responseStatus})`}
+                      </p>
+                      <pre className="max-h-80 overflow-auto rounded bg-slate-100 dark:bg-slate-900 p-2 text-xs">
+                        {delivery.responseBody ? formatBody(delivery.responseBody) : 'No response body'}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Page {page} of {totalPages} · {total} deliveries
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || isLoading}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={page >= totalPages || isLoading}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+'use client';
+
+/**
+ * Webhook Endpoints Component
+ *
+ * Registers outbound webhook endpoints, instance-wide or for one event,
+ * and the hooks each receives. A new endpoint's signing secret is shown
+ * once. Each endpoint can be paused, sent a test event and opened to its
+ * delivery log.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  AlertTriangle,
+  Copy,
+  History,
+  Loader2,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+  Webhook,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useApi } from '@/hooks/use-api';
+import { HOOK_METADATA } from '@/lib/plugins/hooks/types';
+import { getWebhookHookOptions, WEBHOOK_TEST_HOOK } from '@/lib/webhooks/state';
+import { WebhookDeliveryLog } from './webhook-delivery-log';
+
+interface WebhookEndpointView {
+  id: string;
+  eventId: string | null;
+  url: string;
+  description: string | null;
+  hooks: string[];
+  enabled: boolean;
+}
+
+interface WebhookFormValues {
+  url: string;
+  description: string;
+  hooks: string[];
+}
+
+interface WebhookEndpointsProps {
+  /** Manage this event's endpoints instead of the instance-wide ones */
+  eventId?: string;
+}
+
+const EMPTY_FORM: WebhookFormValues = { url: '', description: '', hooks: [] };
+
+export function WebhookEndpoints({ eventId }: WebhookEndpointsProps) {
+  const api = useApi();
+  const [endpoints, setEndpoints] = useState<WebhookEndpointView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // 'new', an endpoint id being edited, or null
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<WebhookFormValues>(EMPTY_FORM);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [logEndpointId, setLogEndpointId] = useState<string | null>(null);
+  const [logRefreshKey, setLogRefreshKey] = useState(0);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const hookOptions = getWebhookHookOptions(eventId ? 'event' : 'instance');
+  const hookMetadata = HOOK_METADATA.filter(hook => hookOptions.includes(hook.name));
+
+  const fetchEndpoints = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/webhooks${eventId ? `?eventId=${encodeURIComponent(eventId)}` : ''}`);
+      if (!response.ok) throw new Error('Failed to fetch webhooks');
+
+      const result = await response.json();
+      setEndpoints(result.data);
+    } catch {
+      toast.error('Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const startEditing = (endpoint?: WebhookEndpointView) => {
+    setEditing(endpoint?.id ?? 'new');
+    setForm(endpoint
+      ? { url: endpoint.url, description: endpoint.description ?? '', hooks: endpoint.hooks }
+      : EMPTY_FORM);
+  };
+
+  const toggleHook = (hook: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      hooks: checked ? [...prev.hooks, hook] : prev.hooks.filter(h => h !== hook),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (editing === 'new') {
+      const { data } = await api.post('/api/webhooks', { ...form, eventId: eventId ?? null });
+      if (!data) return;
+      setNewSecret((data as { secret: string }).secret);
+    } else {
+      const { data } = await api.patch(`/api/webhooks/${editing}`, form);
+      if (!data) return;
+      toast.success('Webhook updated');
+    }
+    setEditing(null);
+    await fetchEndpoints();
+  };
+
+  const handleToggleEnabled = async (endpoint: WebhookEndpointView, enabled: boolean) => {
+    const { data } = await api.patch(`/api/webhooks/${endpoint.id}`, { enabled });
+    if (!data) return;
+    toast.success(enabled ? 'Webhook enabled' : 'Webhook paused');
+    await fetchEndpoints();
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpointView) => {
+    if (!confirm(`Remove the webhook to ${endpoint.url} and its delivery log?`)) return;
+
+    const { error } = await api.delete(`/api/webhooks/${endpoint.id}`);
+    if (error) return;
+    toast.success('Webhook removed');
+    if (logEndpointId === endpoint.id) setLogEndpointId(null);
+    await fetchEndpoints();
+  };
+
+  const handleTest = async (endpoint: WebhookEndpointView) => {
+    setTestingId(endpoint.id);
+    try {
+      const { data } = await api.post(`/api/webhooks/${endpoint.id}/test`, {});
+      if (!data) return;
+
+      const result = data as { delivered: boolean; error: string | null };
+      if (result.delivered) {
+        toast.success('Test event delivered');
+      } else {
+        toast.error(`Test event failed${result.error ? `: ${result.error}` : ''}`);
+      }
+      setLogEndpointId(endpoint.id);
+      setLogRefreshKey(key => key + 1);
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast.success('Secret copied');
+  };
+
+  const renderForm = () => (
+    <div className="space-y-4 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Payload URL</Label>
+          <Input
+            id="webhook-url"
+            type="url"
+            value={form.url}
+            onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+            placeholder="https://example.com/hooks/cfp"
+            maxLength={2000}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="webhook-description">Description</Label>
+          <Input
+            id="webhook-description"
+            value={form.description}
+            onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="Slack relay"
+            maxLength={200}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Hooks</Label>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => setForm(prev => ({
+              ...prev,
+              hooks: prev.hooks.length === hookOptions.length ? [] : [...hookOptions],
+            }))}
+          >
+            {form.hooks.length === hookOptions.length ? 'Clear all' : 'Select all'}
+          </Button>
+        </div>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {hookMetadata.map(hook => (
+            <div key={hook.name} className="flex items-start gap-2">
+              <Checkbox
+                id={`webhook-hook-${hook.name}`}
+                checked={form.hooks.includes(hook.name)}
+                onCheckedChange={(checked) => toggleHook(hook.name, !!checked)}
+                className="mt-0.5"
+              />
+              <Label htmlFor={`webhook-hook-${hook.name}`} className="cursor-pointer font-normal leading-snug">
+                <span className="font-mono text-xs">{hook.name}</span>
+                <span className="block text-xs text-slate-500 dark:text-slate-400">
+                  {hook.description}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleSave}
+          disabled={api.isLoading || !form.url.trim() || form.hooks.length === 0}
+        >
+          {editing === 'new' ? 'Add Webhook' : 'Save Changes'}
+        </Button>
+        <Button variant="ghost" onClick={() => setEditing(null)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {newSecret && (
+        <div className="space-y-3">
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Copy the signing secret now. It will not be shown again.
+            </AlertDescription>
+          </Alert>
+          <div className="flex gap-2">
+            <Input value={newSecret} readOnly className="font-mono text-sm" />
+            <Button variant="outline" onClick={handleCopy}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setNewSecret(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {isLoading && endpoints.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : endpoints.length === 0 ? (
+        editing !== 'new' && (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            <Webhook className="h-10 w-10 mx-auto mb-3 text-slate-400" />
+            <p>No webhooks yet</p>
+          </div>
+        )
+      ) : (
+        <div className="divide-y rounded-lg border border-slate-200 dark:border-slate-700">
+          {endpoints.map(endpoint => (
+            <div key={endpoint.id} className="p-4 space-y-4">
+              {editing === endpoint.id ? renderForm() : (
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <code className="text-sm font-medium text-slate-900 dark:text-white break-all">
+                        {endpoint.url}
+                      </code>
+                      {!endpoint.enabled && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    {endpoint.description && (
+                      <p className="text-sm text-slate-600 dark:text-slate-400">{endpoint.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.hooks.map(hook => (
+                        <Badge key={hook} variant="outline" className="font-mono text-xs">{hook}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Switch
+                      checked={endpoint.enabled}
+                      onCheckedChange={(checked) => handleToggleEnabled(endpoint, checked)}
+                      disabled={api.isLoading}
+                      aria-label={endpoint.enabled ? 'Pause webhook' : 'Enable webhook'}
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleTest(endpoint)}
+                      disabled={testingId !== null}
+                      title={`Send a ${WEBHOOK_TEST_HOOK} event`}
+                    >
+                      {testingId === endpoint.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4 mr-1" />
+                      )}
+                      Send Test
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={logEndpointId === endpoint.id ? 'secondary' : 'outline'}
+                      onClick={() => setLogEndpointId(logEndpointId === endpoint.id ? null : endpoint.id)}
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      Deliveries
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(endpoint)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(endpoint)}
+                      disabled={api.isLoading}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {logEndpointId === endpoint.id && (
+                <WebhookDeliveryLog endpointId={endpoint.id} refreshKey={logRefreshKey} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing === 'new' ? renderForm() : (
+        <Button variant="outline" onClick={() => startEditing()} disabled={editing !== null}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Notifications Hook
+ *
+ * Unread count and recent notifications for the notification bell, kept
+ * current by the server-sent-event stream at /api/notifications/stream.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { StreamedNotification } from '@/lib/notifications/realtime';
+
+interface NotificationListResponse {
+  success: boolean;
+  data?: {
+    notifications: StreamedNotification[];
+    total: number;
+    unreadCount: number;
+  };
+}
+
+const LIST_LIMIT = 20;
+
+export function useNotifications() {
+  const [notifications, setNotifications] = useState<StreamedNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/notifications?limit=${LIST_LIMIT}`);
+      const result: NotificationListResponse = await response.json();
+      if (response.ok && result.data) {
+        setNotifications(result.data.notifications);
+        setUnreadCount(result.data.unreadCount);
+        setIsLoaded(true);
+      }
+    } catch {
+      // Keep what we have; the stream will retry
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const source = new EventSource('/api/notifications/stream');
+
+    source.addEventListener('unread', (event) => {
+      const { count } = JSON.parse((event as MessageEvent).data) as { count: number };
+      setUnreadCount(count);
+    });
+
+    source.addEventListener('notification', (event) => {
+      const notification = JSON.parse((event as MessageEvent).data) as StreamedNotification;
+      setNotifications(current => [
+        notification,
+        ...current.filter(n => n.id !== notification.id),
+      ].slice(0, LIST_LIMIT));
+      setUnreadCount(count => count + 1);
+    });
+
+    return () => source.close();
+  }, []);
+
+  const markRead = useCallback(async (ids: string[] | null) => {
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(n =>
+      !n.readAt && (ids === null || ids.includes(n.id)) ? { ...n, readAt } : n
+    ));
+
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids === null ? { all: true } : { ids }),
+      });
+      const result: { data?: { unreadCount: number } } = await response.json();
+      if (response.ok && result.data) {
+        setUnreadCount(result.data.unreadCount);
+      }
+    } catch {
+      // The next sync corrects the count
+    }
+  }, []);
+
+  return { notifications, unreadCount, isLoading, isLoaded, refresh, markRead };
+}
@@ -20,6 +20,23 @@ export type ActivityAction =
   | 'USER_INVITATION_RESENT'
   | 'USER_EMAIL_VERIFIED'
   | 'USER_VERIFICATION_RESENT'
+  | 'USER_NOTIFICATIONS_UPDATED'
+  | 'USER_NOTIFICATIONS_UNSUBSCRIBED'
+  | 'USER_SSO_CONNECTED'
+  | 'USER_SSO_DISCONNECTED'
+  | 'USER_TWO_FACTOR_ENABLED'
+  | 'USER_TWO_FACTOR_DISABLED'
+  | 'USER_TWO_FACTOR_RESET'
+  | 'USER_TWO_FACTOR_RECOVERY_CODES_REGENERATED'
+  | 'USER_TWO_FACTOR_RECOVERY_CODE_USED'
+  
+  // Personal data (GDPR) actions
+  | 'USER_DATA_EXPORTED'
+  | 'USER_ERASURE_REQUESTED'
+  | 'USER_ERASURE_CANCELLED'
+  | 'USER_ERASURE_APPROVED'
+  | 'USER_ERASURE_REJECTED'
+  | 'USER_ERASED'
   
   // Security actions (for audit trail)
   | 'LOGIN_FAILED'
@@ -27,9 +44,13 @@ export type ActivityAction =
   | 'PASSWORD_RESET_REQUESTED'
   | 'PASSWORD_RESET_COMPLETED'
   | 'SESSION_INVALIDATED'
+  | 'API_TOKEN_CREATED'
+  | 'API_TOKEN_REVOKED'
   | 'ADMIN_ACTION'
   | 'RATE_LIMIT_EXCEEDED'
   | 'UNAUTHORIZED_ACCESS_ATTEMPT'
+  | 'ENCRYPTION_KEY_ROTATION_STARTED'
+  | 'ENCRYPTION_KEY_ROTATION_VERIFIED'
   
   // Event actions
   | 'EVENT_CREATED'
@@ -39,6 +60,8 @@ export type ActivityAction =
   | 'EVENT_DELETED'
   | 'EVENT_CFP_OPENED'
   | 'EVENT_CFP_CLOSED'
+  | 'SCHEDULE_PUBLISHED'
+  | 'SCHEDULE_UNPUBLISHED'
   
   // Submission actions
   | 'SUBMISSION_CREATED'
@@ -47,22 +70,51 @@ export type ActivityAction =
   | 'SUBMISSION_ACCEPTED'
   | 'SUBMISSION_REJECTED'
   | 'SUBMISSION_WITHDRAWN'
+  | 'SUBMISSION_PROMOTED_FROM_WAITLIST'
+  | 'SPEAKER_CONFIRMATION_REQUESTED'
+  | 'SPEAKER_CONFIRMED'
+  | 'SPEAKER_DECLINED'
+  | 'SPEAKER_CONFIRMATION_EXPIRED'
+  | 'CO_SPEAKER_INVITED'
+  | 'CO_SPEAKER_INVITATION_ACCEPTED'
+  | 'CO_SPEAKER_INVITATION_DECLINED'
+  | 'SUBMISSIONS_EXPORTED'
+  | 'SUBMISSIONS_BULK_UPDATED'
   
   // Review actions
   | 'REVIEW_SUBMITTED'
   | 'REVIEW_UPDATED'
+  | 'REVIEW_RANKING_SAVED'
+  | 'REVIEW_IDENTITIES_REVEALED'
   | 'REVIEWER_ASSIGNED'
   | 'REVIEWER_REMOVED'
+  | 'REVIEW_CONFLICT_DECLARED'
+  | 'REVIEW_CONFLICT_WITHDRAWN'
+  | 'REVIEW_THREAD_PINNED'
+  | 'REVIEW_THREAD_UNPINNED'
+  | 'REVIEW_THREAD_RESOLVED'
+  | 'REVIEW_THREAD_REOPENED'
 
   // Message actions
   | 'MESSAGE_SENT'
 
+  // Email actions
+  | 'EMAIL_RESENT'
+  | 'EMAIL_CANCELLED'
+
   // File actions
   | 'FILE_UPLOADED'
   | 'FILE_DELETED'
   
   // System actions
   | 'SETTINGS_UPDATED'
+  | 'IDENTITY_PROVIDER_CREATED'
+  | 'IDENTITY_PROVIDER_UPDATED'
+  | 'IDENTITY_PROVIDER_DELETED'
+  | 'WEBHOOK_CREATED'
+  | 'WEBHOOK_UPDATED'
+  | 'WEBHOOK_DELETED'
+  | 'WEBHOOK_REDELIVERED'
   | 'FEDERATION_ENABLED'
   | 'FEDERATION_DISABLED';
 
@@ -72,6 +124,7 @@ export type EntityType =
   | 'Submission'
   | 'Review'
   | 'Message'
+  | 'Email'
   | 'Settings'
   | 'Security';
 
@@ -252,15 +305,35 @@ export function formatActivityAction(action: ActivityAction): string {
     USER_INVITATION_RESENT: 'Invitation resent',
     USER_EMAIL_VERIFIED: 'Email verified',
     USER_VERIFICATION_RESENT: 'Verification email resent',
+    USER_NOTIFICATIONS_UPDATED: 'Notification preferences updated',
+    USER_NOTIFICATIONS_UNSUBSCRIBED: 'Unsubscribed from notification emails',
+    USER_SSO_CONNECTED: 'Single sign-on connected',
+    USER_SSO_DISCONNECTED: 'Single sign-on disconnected',
+    USER_TWO_FACTOR_ENABLED: 'Two-factor authentication enabled',
+    USER_TWO_FACTOR_DISABLED: 'Two-factor authentication disabled',
+    USER_TWO_FACTOR_RESET: 'Two-factor authentication reset by admin',
+    USER_TWO_FACTOR_RECOVERY_CODES_REGENERATED: 'Recovery codes regenerated',
+    USER_TWO_FACTOR_RECOVERY_CODE_USED: 'Signed in with a recovery code',
+    // Personal data actions
+    USER_DATA_EXPORTED: 'Personal data exported',
+    USER_ERASURE_REQUESTED: 'Account erasure requested',
+    USER_ERASURE_CANCELLED: 'Account erasure cancelled',
+    USER_ERASURE_APPROVED: 'Account erasure approved',
+    USER_ERASURE_REJECTED: 'Account erasure rejected',
+    USER_ERASED: 'Account erased',
     // Security actions
     LOGIN_FAILED: 'Login failed',
     PASSWORD_CHANGED: 'Password changed',
     PASSWORD_RESET_REQUESTED: 'Password reset requested',
     PASSWORD_RESET_COMPLETED: 'Password reset completed',
     SESSION_INVALIDATED: 'Session invalidated',
+    API_TOKEN_CREATED: 'API token created',
+    API_TOKEN_REVOKED: 'API token revoked',
     ADMIN_ACTION: 'Admin action performed',
     RATE_LIMIT_EXCEEDED: 'Rate limit exceeded',
     UNAUTHORIZED_ACCESS_ATTEMPT: 'Unauthorized access attempt',
+    ENCRYPTION_KEY_ROTATION_STARTED: 'Encryption key rotation started',
+    ENCRYPTION_KEY_ROTATION_VERIFIED: 'Encryption key rotation verified',
     // Event actions
     EVENT_CREATED: 'Event created',
     EVENT_UPDATED: 'Event updated',
@@ -269,6 +342,8 @@ export function formatActivityAction(action: ActivityAction): string {
     EVENT_DELETED: 'Event deleted',
     EVENT_CFP_OPENED: 'CFP opened',
     EVENT_CFP_CLOSED: 'CFP closed',
+    SCHEDULE_PUBLISHED: 'Schedule published',
+    SCHEDULE_UNPUBLISHED: 'Schedule unpublished',
     // Submission actions
     SUBMISSION_CREATED: 'Submission created',
     SUBMISSION_UPDATED: 'Submission updated',
@@ -276,18 +351,46 @@ export function formatActivityAction(action: ActivityAction): string {
     SUBMISSION_ACCEPTED: 'Submission accepted',
     SUBMISSION_REJECTED: 'Submission rejected',
     SUBMISSION_WITHDRAWN: 'Submission withdrawn',
+    SUBMISSION_PROMOTED_FROM_WAITLIST: 'Submission promoted from waitlist',
+    SPEAKER_CONFIRMATION_REQUESTED: 'Speaker confirmation requested',
+    SPEAKER_CONFIRMED: 'Speaker confirmed',
+    SPEAKER_DECLINED: 'Speaker declined',
+    SPEAKER_CONFIRMATION_EXPIRED: 'Speaker confirmation expired',
+    CO_SPEAKER_INVITED: 'Co-speaker invited',
+    CO_SPEAKER_INVITATION_ACCEPTED: 'Co-speaker invitation accepted',
+    CO_SPEAKER_INVITATION_DECLINED: 'Co-speaker invitation declined',
+    SUBMISSIONS_EXPORTED: 'Submissions exported',
+    SUBMISSIONS_BULK_UPDATED: 'Bulk submission action started',
     // Review actions
     REVIEW_SUBMITTED: 'Review submitted',
     REVIEW_UPDATED: 'Review updated',
+    REVIEW_RANKING_SAVED: 'Review ranking saved',
+    REVIEW_IDENTITIES_REVEALED: 'Anonymized identities revealed',
     REVIEWER_ASSIGNED: 'Reviewer assigned',
     REVIEWER_REMOVED: 'Reviewer removed',
+    REVIEW_CONFLICT_DECLARED: 'Conflict of interest declared',
+    REVIEW_CONFLICT_WITHDRAWN: 'Conflict of interest withdrawn',
+    REVIEW_THREAD_PINNED: 'Discussion thread pinned',
+    REVIEW_THREAD_UNPINNED: 'Discussion thread unpinned',
+    REVIEW_THREAD_RESOLVED: 'Discussion thread resolved',
+    REVIEW_THREAD_REOPENED: 'Discussion thread reopened',
     // Message actions
     MESSAGE_SENT: 'Message sent',
+    // Email actions
+    EMAIL_RESENT: 'Email resent',
+    EMAIL_CANCELLED: 'Queued email cancelled',
     // File actions
     FILE_UPLOADED: 'File uploaded',
     FILE_DELETED: 'File deleted',
     // System actions
     SETTINGS_UPDATED: 'Settings updated',
+    IDENTITY_PROVIDER_CREATED: 'Identity provider added',
+    IDENTITY_PROVIDER_UPDATED: 'Identity provider updated',
+    IDENTITY_PROVIDER_DELETED: 'Identity provider removed',
+    WEBHOOK_CREATED: 'Webhook added',
+    WEBHOOK_UPDATED: 'Webhook updated',
+    WEBHOOK_DELETED: 'Webhook removed',
+    WEBHOOK_REDELIVERED: 'Webhook delivery resent',
     FEDERATION_ENABLED: 'Federation enabled',
     FEDERATION_DISABLED: 'Federation disabled',
   };
@@ -303,12 +406,13 @@ export function getActivityIcon(action: ActivityAction): string {
   if (action.startsWith('EVENT_')) return 'calendar';
   if (action.startsWith('SUBMISSION_')) return 'file-text';
   if (action.startsWith('REVIEW_')) return 'star';
-  if (action.startsWith('MESSAGE_')) return 'message-square';
+  if (action.startsWith('MESSAGE_') || action.startsWith('EMAIL_')) return 'message-square';
   if (action.startsWith('FILE_')) return 'file';
   if (action.startsWith('SETTINGS_') || action.startsWith('FEDERATION_')) return 'settings';
   // Security-related actions
   if (action.startsWith('LOGIN_') || action.startsWith('PASSWORD_') || 
       action.startsWith('SESSION_') || action.startsWith('RATE_LIMIT') ||
-      action.startsWith('UNAUTHORIZED_') || action === 'ADMIN_ACTION') return 'shield';
+      action.startsWith('UNAUTHORIZED_') || action.startsWith('ENCRYPTION_') ||
+      action === 'ADMIN_ACTION') return 'shield';
   return 'activity';
 }
@@ -0,0 +1,37 @@
+/**
+ * API Tokens Module Index
+ *
+ * Re-exports token scopes and route scope rules, and creating, listing,
+ * revoking and authenticating personal API tokens.
+ */
+
+export {
+  type ApiTokenScope,
+  API_TOKEN_PREFIX,
+  API_TOKEN_DISPLAY_LENGTH,
+  API_TOKEN_EXPIRY_DAYS,
+  DEFAULT_API_TOKEN_EXPIRY_DAYS,
+  MAX_API_TOKENS_PER_USER,
+  API_TOKEN_TOUCH_INTERVAL_MS,
+  OPENAPI_SPEC_PATH,
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_DESCRIPTIONS,
+  ROLE_API_TOKEN_SCOPES,
+  getEffectiveScopes,
+  hasScope,
+  getRequiredScope,
+  getApiTokenFromHeader,
+  getApiTokenExpiry,
+} from './state';
+
+export {
+  type ApiTokenListItem,
+  type ApiTokenPrincipal,
+  ApiTokenError,
+  hashApiToken,
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  authenticateApiToken,
+  getApiTokenSession,
+} from './service';
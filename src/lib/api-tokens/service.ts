@@ -0,0 +1,253 @@
+/**
+ * API Token Service
+ *
+ * Personal access tokens for scripting against the REST API. A token is
+ * shown once when created; only its SHA-256 hash is stored. Requests
+ * sending it as a bearer token act as its owner. Middleware checks the
+ * token's scopes against the route (see getRequiredScope) before the
+ * request reaches a handler, and handlers get the owner's session from
+ * auth() as usual.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { headers } from 'next/headers';
+import type { Session } from 'next-auth';
+import type { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import type { CreateApiTokenInput } from '@/lib/validations/api-token';
+import {
+  API_TOKEN_DISPLAY_LENGTH,
+  API_TOKEN_PREFIX,
+  API_TOKEN_TOUCH_INTERVAL_MS,
+  MAX_API_TOKENS_PER_USER,
+  ROLE_API_TOKEN_SCOPES,
+  getApiTokenExpiry,
+  getApiTokenFromHeader,
+  getEffectiveScopes,
+  type ApiTokenScope,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class ApiTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenError';
+  }
+}
+
+export interface ApiTokenListItem {
+  id: string;
+  name: string;
+  /** Start of the token, e.g. "cfp_Ab3dE9xY" */
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/** The user a token signs in, with the scopes it still grants */
+export interface ApiTokenPrincipal {
+  tokenId: string;
+  scopes: ApiTokenScope[];
+  expiresAt: Date;
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+    image: string | null;
+    role: UserRole;
+  };
+}
+
+const LIST_SELECT = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Create a token. Returns the token itself, which is never shown again.
+ */
+export async function createApiToken(
+  user: { id: string; role: UserRole },
+  input: CreateApiTokenInput,
+  ipAddress?: string | null,
+  now: Date = new Date()
+): Promise<{ token: string; apiToken: ApiTokenListItem }> {
+  const notAllowed = input.scopes.filter(scope => !ROLE_API_TOKEN_SCOPES[user.role].includes(scope));
+  if (notAllowed.length > 0) {
+    throw new ApiTokenError(`Your role can't grant ${notAllowed.join(', ')}`);
+  }
+
+  const activeCount = await prisma.apiToken.count({
+    where: { userId: user.id, revokedAt: null, expiresAt: { gt: now } },
+  });
+  if (activeCount >= MAX_API_TOKENS_PER_USER) {
+    throw new ApiTokenError(`You can have at most ${MAX_API_TOKENS_PER_USER} active tokens. Revoke one first.`);
+  }
+
+  const token = generateApiToken();
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId: user.id,
+      name: input.name,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH),
+      scopes: input.scopes,
+      expiresAt: getApiTokenExpiry(input.expiresInDays, now),
+    },
+    select: LIST_SELECT,
+  });
+
+  await logActivity({
+    userId: user.id,
+    action: 'API_TOKEN_CREATED',
+    entityType: 'User',
+    entityId: user.id,
+    metadata: { name: input.name, scopes: input.scopes.join(', '), expiresInDays: input.expiresInDays },
+    ipAddress,
+  });
+
+  return { token, apiToken };
+}
+
+/**
+ * A user's tokens that haven't been revoked, newest first. Expired tokens
+ * are included so they can be told apart from revoked ones.
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenListItem[]> {
+  return prisma.apiToken.findMany({
+    where: { userId, revokedAt: null },
+    select: LIST_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Revoke one of a user's tokens. Returns false if it isn't theirs or was
+ * already revoked.
+ */
+export async function revokeApiToken(
+  userId: string,
+  tokenId: string,
+  ipAddress?: string | null
+): Promise<boolean> {
+  const token = await prisma.apiToken.findFirst({
+    where: { id: tokenId, userId, revokedAt: null },
+    select: { name: true },
+  });
+  if (!token) return false;
+
+  await prisma.apiToken.update({
+    where: { id: tokenId },
+    data: { revokedAt: new Date() },
+  });
+
+  await logActivity({
+    userId,
+    action: 'API_TOKEN_REVOKED',
+    entityType: 'User',
+    entityId: userId,
+    metadata: { name: token.name },
+    ipAddress,
+  });
+  return true;
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * The user and scopes of a token, or null if it is unknown, revoked or
+ * expired. Records when and from where the token was last used.
+ */
+export async function authenticateApiToken(
+  token: string,
+  ipAddress?: string | null,
+  now: Date = new Date()
+): Promise<ApiTokenPrincipal | null> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: {
+      id: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      user: {
+        select: { id: true, email: true, name: true, image: true, role: true, erasedAt: true },
+      },
+    },
+  });
+
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= now || apiToken.user.erasedAt) {
+    return null;
+  }
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= API_TOKEN_TOUCH_INTERVAL_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now, ...(ipAddress && { lastUsedIp: ipAddress }) },
+    });
+  }
+
+  const { id, email, image, role } = apiToken.user;
+  const { name } = decryptPiiFields({ name: apiToken.user.name }, USER_PII_FIELDS) as { name: string | null };
+
+  return {
+    tokenId: apiToken.id,
+    scopes: getEffectiveScopes(apiToken.scopes, role),
+    expiresAt: apiToken.expiresAt,
+    user: { id, email, name, image, role },
+  };
+}
+
+/**
+ * The session for a request made with an API token. Undefined when the
+ * request has no token (fall back to the cookie session), null when it
+ * has one that isn't valid.
+ */
+export async function getApiTokenSession(): Promise<Session | null | undefined> {
+  let headerList: Headers;
+  try {
+    headerList = await headers();
+  } catch {
+    // Outside a request
+    return undefined;
+  }
+
+  const token = getApiTokenFromHeader(headerList.get('authorization'));
+  if (!token) return undefined;
+
+  const principal = await authenticateApiToken(token, getClientIp(headerList));
+  if (!principal) return null;
+
+  return {
+    user: principal.user,
+    expires: principal.expiresAt.toISOString(),
+  };
+}
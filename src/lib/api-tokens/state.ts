@@ -0,0 +1,154 @@
+/**
+ * API Token State
+ *
+ * Scopes of personal API tokens, which scopes each role may grant, and
+ * which scope each API route needs. Pure functions only - safe to import
+ * from client components and middleware.
+ */
+
+import type { UserRole } from '@prisma/client';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Every token starts with this, so tokens can be told from other secrets */
+export const API_TOKEN_PREFIX = 'cfp_';
+
+/** Characters of the token kept in plain text to tell tokens apart */
+export const API_TOKEN_DISPLAY_LENGTH = 12;
+
+/** Lifetimes offered when creating a token, in days */
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+export const DEFAULT_API_TOKEN_EXPIRY_DAYS = 30;
+
+export const MAX_API_TOKENS_PER_USER = 25;
+
+/** How often a token's last-used time and address are updated */
+export const API_TOKEN_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Where the OpenAPI description of the token-accessible API is served */
+export const OPENAPI_SPEC_PATH = '/api/public/openapi.json';
+
+// ============================================================================
+// Scopes
+// ============================================================================
+
+/**
+ * Token scopes. Names follow the plugin permissions; a write scope also
+ * grants reading the same resource.
+ */
+export const API_TOKEN_SCOPES = [
+  'events:read',
+  'events:manage',
+  'submissions:read',
+  'submissions:manage',
+  'reviews:read',
+  'reviews:write',
+  'users:read',
+  'users:manage',
+  'profile:read',
+  'profile:write',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'events:read': 'Read events, tracks, formats, rooms, schedules and topics',
+  'events:manage': 'Create/update events, review teams, assignments and schedules',
+  'submissions:read': 'Read submissions, materials, co-speakers and messages',
+  'submissions:manage': 'Create/update submissions, decisions and messages',
+  'reviews:read': 'Read reviews, rankings and team discussions',
+  'reviews:write': 'Create/update reviews, rankings and discussions',
+  'users:read': 'Read users and reviewers',
+  'users:manage': 'Invite users and change roles',
+  'profile:read': 'Read your speaker and reviewer profiles and talks',
+  'profile:write': 'Update your speaker and reviewer profiles and talks',
+};
+
+type ApiResource = 'events' | 'submissions' | 'reviews' | 'users' | 'profile';
+
+const RESOURCE_SCOPES: Record<ApiResource, { read: ApiTokenScope; write: ApiTokenScope }> = {
+  events: { read: 'events:read', write: 'events:manage' },
+  submissions: { read: 'submissions:read', write: 'submissions:manage' },
+  reviews: { read: 'reviews:read', write: 'reviews:write' },
+  users: { read: 'users:read', write: 'users:manage' },
+  profile: { read: 'profile:read', write: 'profile:write' },
+};
+
+/**
+ * Scopes each role can put on a token. Routes still check the user's role,
+ * so scopes only ever narrow what a token's owner could do.
+ */
+export const ROLE_API_TOKEN_SCOPES: Record<UserRole, readonly ApiTokenScope[]> = {
+  ADMIN: API_TOKEN_SCOPES,
+  ORGANIZER: API_TOKEN_SCOPES.filter(scope => scope !== 'users:manage'),
+  REVIEWER: ['events:read', 'submissions:read', 'reviews:read', 'reviews:write', 'profile:read', 'profile:write'],
+  SPEAKER: ['events:read', 'submissions:read', 'submissions:manage', 'profile:read', 'profile:write'],
+  USER: ['events:read', 'submissions:read', 'submissions:manage', 'profile:read', 'profile:write'],
+};
+
+/**
+ * A token's scopes that its owner's current role still allows
+ */
+export function getEffectiveScopes(scopes: readonly string[], role: UserRole): ApiTokenScope[] {
+  const allowed = ROLE_API_TOKEN_SCOPES[role];
+  return allowed.filter(scope => scopes.includes(scope));
+}
+
+/**
+ * Whether granted scopes cover a required one
+ */
+export function hasScope(granted: readonly string[], required: ApiTokenScope): boolean {
+  if (granted.includes(required)) return true;
+  const resource = Object.values(RESOURCE_SCOPES).find(scopes => scopes.read === required);
+  return !!resource && granted.includes(resource.write);
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * Which resource each API route belongs to, first match wins. Routes not
+ * listed - account security, tokens themselves, settings, plugins and the
+ * rest of the admin area - can't be used with a token at all.
+ */
+const ROUTE_RESOURCES: Array<{ pattern: RegExp; resource: ApiResource | null }> = [
+  { pattern: /^\/api\/admin\/users\/[^/]+\/(sessions|two-factor)(\/|$)/, resource: null },
+  { pattern: /^\/api\/events\/[^/]+\/submissions\/[^/]+\/(reviews|discussions|conflict)(\/|$)/, resource: 'reviews' },
+  { pattern: /^\/api\/events\/[^/]+\/rankings$/, resource: 'reviews' },
+  { pattern: /^\/api\/events\/[^/]+\/submissions(\/|$)/, resource: 'submissions' },
+  { pattern: /^\/api\/events(\/|$)/, resource: 'events' },
+  { pattern: /^\/api\/topics(\/|$)/, resource: 'events' },
+  { pattern: /^\/api\/(submissions|messages)(\/|$)/, resource: 'submissions' },
+  { pattern: /^\/api\/(talks|speaker-profile|reviewer-profile)(\/|$)/, resource: 'profile' },
+  { pattern: /^\/api\/(users|admin\/users|admin\/reviewers)(\/|$)/, resource: 'users' },
+];
+
+/**
+ * The scope a token needs for a request, or null if the route isn't
+ * available to tokens. Reads need the read scope, anything else the
+ * write scope.
+ */
+export function getRequiredScope(path: string, method: string): ApiTokenScope | null {
+  const route = ROUTE_RESOURCES.find(({ pattern }) => pattern.test(path));
+  if (!route?.resource) return null;
+
+  const isRead = ['GET', 'HEAD'].includes(method.toUpperCase());
+  return RESOURCE_SCOPES[route.resource][isRead ? 'read' : 'write'];
+}
+
+/**
+ * The API token in an Authorization header, or null. Other bearer
+ * credentials (such as CRON_SECRET) are left alone.
+ */
+export function getApiTokenFromHeader(authorization: string | null | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match && match[1].startsWith(API_TOKEN_PREFIX) ? match[1] : null;
+}
+
+export function getApiTokenExpiry(days: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,48 @@
+/**
+ * Cron Endpoint Authorization
+ *
+ * Shared check for /api/cron endpoints that trigger scheduled tasks on
+ * demand. Requests must carry CRON_SECRET in the x-cron-secret header or
+ * as a Bearer token (which is how Vercel Cron sends it).
+ */
+
+import type { NextRequest } from 'next/server';
+import crypto from 'crypto';
+import { config } from '@/lib/env';
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+function secureCompare(a: string, b: string): boolean {
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    // If buffers are different lengths, timingSafeEqual throws
+    return false;
+  }
+}
+
+/**
+ * Verify the request is from an authorized cron source
+ *
+ * SECURITY: Always require CRON_SECRET via x-cron-secret header or Bearer
+ * token. The x-vercel-cron header is never trusted on its own.
+ */
+export function verifyCronAuth(request: NextRequest, label: string): boolean {
+  const cronSecret = config.cronSecret;
+
+  // SECURITY: Always require CRON_SECRET, even in development
+  if (!cronSecret) {
+    console.warn(`[${label}] CRON_SECRET not configured - cron endpoints are disabled`);
+    return false;
+  }
+
+  const providedSecret = request.headers.get('x-cron-secret') ||
+                         request.headers.get('authorization')?.replace('Bearer ', '');
+
+  if (!providedSecret) {
+    return false;
+  }
+
+  return secureCompare(providedSecret, cronSecret);
+}
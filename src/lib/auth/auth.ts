@@ -2,17 +2,32 @@
  * NextAuth.js Configuration
  * 
  * This module configures authentication for the self-hosted CFP platform.
- * It uses the credentials provider for email/password authentication
- * and can be extended with OAuth providers.
+ * It uses the credentials provider for email/password authentication,
+ * with a second step for users who turned on two-factor authentication.
+ * Single sign-on (OIDC and SAML identity providers configured in
+ * Settings) runs its own flow in src/lib/sso and hands the confirmed user
+ * to the "sso" provider as a short-lived signed ticket; users with
+ * two-factor authentication enter their code for that ticket too.
+ * 
+ * Every sign-in is recorded as a session (src/lib/sessions) whose ID is
+ * kept in the JWT, so sessions can be listed and signed out one at a time.
+ * API requests can instead send a personal API token (src/lib/api-tokens),
+ * which auth() resolves to the token owner's session.
  */
 
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import { PrismaAdapter } from '@auth/prisma-adapter';
 import Credentials from 'next-auth/providers/credentials';
 import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/db/prisma';
 import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
-import type { UserRole } from '@prisma/client';
+import { verifyLoginTicket } from '@/lib/sso/flow';
+import { verifySecondFactor } from '@/lib/two-factor/service';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { SESSION_MAX_AGE_SECONDS } from '@/lib/sessions/state';
+import { getSessionRequestContext, startUserSession, validateUserSession } from '@/lib/sessions/service';
+import { getApiTokenSession } from '@/lib/api-tokens/service';
+import type { User, UserRole } from '@prisma/client';
 import type { Adapter } from 'next-auth/adapters';
 
 // Extend the built-in types for NextAuth v5
@@ -25,6 +40,8 @@ declare module 'next-auth' {
       image?: string | null;
       role: UserRole;
     };
+    /** ID of the tracked session, for marking "this device" */
+    sessionId?: string;
   }
   
   interface User {
@@ -42,13 +59,49 @@ declare module '@auth/core/jwt' {
     id: string;
     role: UserRole;
     sessionVersion: number;
+    /** Tracked session; missing on tokens issued before sessions were tracked */
+    sessionId?: string;
   }
 }
 
-export const { handlers, auth, signIn, signOut } = NextAuth({
+/**
+ * Password was right; the sign-in form should ask for the second factor.
+ * The code is passed to the client as `result.code`.
+ */
+class TwoFactorRequiredError extends CredentialsSignin {
+  code = 'TWO_FACTOR_REQUIRED';
+}
+
+class InvalidTwoFactorCodeError extends CredentialsSignin {
+  code = 'INVALID_TWO_FACTOR_CODE';
+}
+
+/**
+ * Second step for users with two-factor authentication, once their
+ * password or identity provider checked out
+ */
+async function requireSecondFactor(user: User, code: unknown): Promise<void> {
+  if (!user.twoFactorEnabledAt) {
+    return;
+  }
+  const input = typeof code === 'string' ? code.trim() : '';
+  if (!input) {
+    throw new TwoFactorRequiredError();
+  }
+  // Per-account limit so a password or SSO ticket alone can't be used to guess codes
+  if (!checkRateLimit(`two-factor:${user.id}`, 'authStrict').allowed) {
+    throw new InvalidTwoFactorCodeError();
+  }
+  if (!(await verifySecondFactor(user, input))) {
+    throw new InvalidTwoFactorCodeError();
+  }
+}
+
+const nextAuth = NextAuth({
   adapter: PrismaAdapter(prisma) as Adapter,
   session: {
     strategy: 'jwt', // Use JWT for session management
+    maxAge: SESSION_MAX_AGE_SECONDS,
   },
   pages: {
     signIn: '/auth/signin',
@@ -63,6 +116,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        code: { label: 'Authentication code', type: 'text' },
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
@@ -105,6 +159,9 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
           throw new Error('EMAIL_NOT_VERIFIED');
         }
         
+        // Second step for users with two-factor authentication
+        await requireSecondFactor(user, credentials.code);
+        
         // Decrypt PII fields before returning
         const decryptedUser = decryptPiiFields(
           user as unknown as Record<string, unknown>,
@@ -122,6 +179,48 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         };
       },
     }),
+    Credentials({
+      id: 'sso',
+      name: 'Single sign-on',
+      credentials: {
+        ticket: { type: 'text' },
+        code: { label: 'Authentication code', type: 'text' },
+      },
+      async authorize(credentials) {
+        // Tickets are only issued after an identity provider confirmed
+        // the user, and only passed to NextAuth server-side
+        const userId = typeof credentials?.ticket === 'string'
+          ? verifyLoginTicket(credentials.ticket)
+          : null;
+        if (!userId) {
+          return null;
+        }
+        
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+        });
+        if (!user) {
+          return null;
+        }
+        
+        // The identity provider stands in for the password, not the code
+        await requireSecondFactor(user, credentials.code);
+        
+        const decryptedUser = decryptPiiFields(
+          user as unknown as Record<string, unknown>,
+          USER_PII_FIELDS
+        );
+        
+        return {
+          id: user.id,
+          email: decryptedUser.email as string,
+          name: decryptedUser.name as string | null,
+          image: user.image,
+          role: user.role,
+          sessionVersion: user.sessionVersion,
+        };
+      },
+    }),
     // OAuth providers can be added here
     // See: src/lib/auth/oauth-providers.example.ts
   ],
@@ -132,6 +231,10 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         token.id = user.id;
         token.role = (user as { role: UserRole }).role;
         token.sessionVersion = (user as { sessionVersion?: number }).sessionVersion ?? 0;
+        token.sessionId = await startUserSession(
+          { id: user.id, email: user.email, name: user.name, sessionVersion: token.sessionVersion as number },
+          await getSessionRequestContext()
+        );
       }
       
       // On subsequent requests (not initial sign-in), validate session and refresh role
@@ -142,13 +245,17 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       
       if (token.id && trigger !== 'signIn' && !isEdgeRuntime) {
         try {
-          const dbUser = await prisma.user.findUnique({
-            where: { id: token.id as string },
-            select: { role: true, sessionVersion: true },
-          });
+          // Tracked sessions end when revoked, expired or their user's
+          // session version moves on; older tokens only check the version
+          const dbUser = token.sessionId
+            ? await validateUserSession(token.id as string, token.sessionId as string)
+            : await prisma.user.findUnique({
+                where: { id: token.id as string },
+                select: { role: true, sessionVersion: true },
+              }).then(found => found && found.sessionVersion === token.sessionVersion ? found : null);
           
-          // Invalidate session if user not found or session version changed
-          if (!dbUser || dbUser.sessionVersion !== token.sessionVersion) {
+          // Invalidate session if user not found or the session has ended
+          if (!dbUser) {
             // Return empty token to force re-authentication
             return {} as typeof token;
           }
@@ -169,6 +276,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         session.user.id = token.id as string;
         session.user.role = token.role as UserRole;
       }
+      session.sessionId = token.sessionId as string | undefined;
       return session;
     },
     async signIn({ account }) {
@@ -192,6 +300,21 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
   debug: process.env.NODE_ENV === 'development',
 });
 
+export const { handlers, signIn, signOut } = nextAuth;
+
+/**
+ * The current session. Requests carrying a personal API token get the
+ * token owner's session instead of the cookie's; middleware has already
+ * checked the token's scopes for the route. Called with a handler, wraps
+ * middleware as usual.
+ */
+export const auth = ((...args: unknown[]) => {
+  if (args.length > 0) {
+    return (nextAuth.auth as (...args: unknown[]) => unknown)(...args);
+  }
+  return getApiTokenSession().then(session => (session === undefined ? nextAuth.auth() : session));
+}) as typeof nextAuth.auth;
+
 /**
  * Helper to check if the user has a specific role
  */
@@ -9,6 +9,10 @@
  * 1. Create OAuth credentials with the provider
  * 2. Add the environment variables
  * 3. Add the provider to the auth.ts providers array
+ *
+ * For single sign-on against your own OIDC provider or a SAML IdP, add
+ * the identity provider under Settings > Single Sign-On instead; no code
+ * changes or redeploy are needed.
  */
 
 import GitHub from 'next-auth/providers/github';
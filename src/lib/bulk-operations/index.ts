@@ -0,0 +1,29 @@
+/**
+ * Bulk Submission Operations Module Index
+ *
+ * Re-exports bulk operation state helpers and the background processor.
+ */
+
+export {
+  type BulkOperationError,
+  BULK_OPERATION_STATUS_LABELS,
+  BULK_ACTION_LABELS,
+  STALE_BULK_OPERATION_MS,
+  MAX_STORED_BULK_ERRORS,
+  getBulkProgress,
+  isBulkOperationActive,
+  isStaleBulkOperation,
+  getStatusEmailTemplate,
+  appendBulkError,
+} from './state';
+
+export {
+  type BulkEmailPreview,
+  type BulkOperationSummary,
+  createBulkOperation,
+  runBulkOperation,
+  resumeBulkOperations,
+  getBulkOperation,
+  listBulkOperations,
+  previewBulkEmails,
+} from './operation';
@@ -0,0 +1,596 @@
+/**
+ * Bulk Submission Operations
+ *
+ * Applies a status, track, format or decision email change to many
+ * submissions of an event in the background. Each submission goes through
+ * the same side effects as a single change: status hooks, speaker
+ * confirmations, decision emails and federation webhooks. Progress is
+ * stored on the operation so the submissions page can poll it, and
+ * interrupted operations resume where they stopped.
+ */
+
+import type {
+  Prisma,
+  SubmissionBulkOperation,
+  SubmissionStatus,
+  UserRole,
+} from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  emailService,
+  buildSubmissionStatusVariables,
+} from '@/lib/email/email-service';
+import { sendStatusUpdatedWebhook } from '@/lib/federation';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { requestSpeakerConfirmation, clearSpeakerConfirmation } from '@/lib/confirmations';
+import { notifySubmissionStatusChange } from '@/lib/notifications';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import type {
+  BulkOperationInput,
+  BulkDecisionTemplate,
+  BulkEmailPreviewInput,
+} from '@/lib/validations/bulk-operation';
+import {
+  appendBulkError,
+  getStatusEmailTemplate,
+  STALE_BULK_OPERATION_MS,
+  type BulkOperationError,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options stored with an operation, i.e. the input without submission IDs */
+type BulkOperationPayload =
+  BulkOperationInput extends infer T ? (T extends unknown ? Omit<T, 'submissionIds'> : never) : never;
+
+type CreateResult =
+  | { error: string; operation?: never }
+  | { error: null; operation: SubmissionBulkOperation };
+
+type PreviewResult =
+  | { error: string; previews?: never }
+  | { error: null; previews: BulkEmailPreview[] };
+
+type ItemOutcome = 'succeeded' | 'skipped';
+
+interface BulkActor {
+  id: string;
+  role: UserRole;
+  name: string | null;
+}
+
+interface BulkContext {
+  operationId: string;
+  event: { id: string; name: string; slug: string };
+  actor: BulkActor;
+}
+
+export interface BulkEmailPreview {
+  submissionId: string;
+  submissionTitle: string;
+  speakerName: string;
+  to: string | null;
+  subject: string | null;
+  html: string | null;
+  /** Why this speaker will not get the email, e.g. federated submissions */
+  skipReason: string | null;
+}
+
+/** Operation as shown on the submissions page */
+export type BulkOperationSummary = Omit<SubmissionBulkOperation, 'submissionIds' | 'errors'> & {
+  errors: BulkOperationError[];
+};
+
+const FEDERATED_SKIP_REASON = 'Federated speaker - notified through the federation webhook';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function decryptName(name: string | null): string | null {
+  if (!name) return null;
+  return (decryptPiiFields({ name }, USER_PII_FIELDS) as { name: string }).name;
+}
+
+function speakerDisplayName(speaker: { name: string | null; email: string }): string {
+  return decryptName(speaker.name) || speaker.email.split('@')[0];
+}
+
+function submissionUrl(eventSlug: string, submissionId: string): string {
+  return `${config.app.url}/events/${eventSlug}/submissions/${submissionId}`;
+}
+
+/**
+ * Reviewers' public notes, shared with speakers alongside decisions
+ */
+async function getPublicFeedback(submissionId: string): Promise<string | undefined> {
+  const reviews = await prisma.review.findMany({
+    where: { submissionId },
+    select: { publicNotes: true },
+  });
+  const feedback = reviews
+    .map(r => r.publicNotes)
+    .filter((n): n is string => !!n)
+    .join('\n\n');
+  return feedback || undefined;
+}
+
+async function decisionEmailVariables(
+  submission: { id: string; title: string; speaker: { name: string | null; email: string } },
+  event: { name: string; slug: string },
+  includeFeedback: boolean
+): Promise<Record<string, string>> {
+  return buildSubmissionStatusVariables(
+    speakerDisplayName(submission.speaker),
+    event.name,
+    submission.title,
+    submissionUrl(event.slug, submission.id),
+    includeFeedback ? await getPublicFeedback(submission.id) : undefined
+  );
+}
+
+function toSummary(operation: Omit<SubmissionBulkOperation, 'submissionIds'>): BulkOperationSummary {
+  return { ...operation, errors: operation.errors as unknown as BulkOperationError[] };
+}
+
+// ============================================================================
+// Creating
+// ============================================================================
+
+/**
+ * Queue a bulk operation after checking that every submission, track and
+ * format belongs to the event. The caller starts processing with
+ * runBulkOperation; the cron job picks up anything left behind.
+ */
+export async function createBulkOperation(
+  eventId: string,
+  input: BulkOperationInput,
+  options: { createdById: string; ipAddress?: string }
+): Promise<CreateResult> {
+  const { submissionIds, ...payload } = input;
+
+  const found = await prisma.submission.count({
+    where: { id: { in: submissionIds }, eventId },
+  });
+  if (found !== submissionIds.length) {
+    return { error: 'Some of the selected submissions do not belong to this event' };
+  }
+
+  if (payload.action === 'track' && payload.trackId) {
+    const track = await prisma.eventTrack.findFirst({
+      where: { id: payload.trackId, eventId },
+    });
+    if (!track) {
+      return { error: 'Invalid track for this event' };
+    }
+  }
+
+  if (payload.action === 'format' && payload.formatId) {
+    const eventFormat = await prisma.eventFormat.findFirst({
+      where: { id: payload.formatId, eventId },
+    });
+    if (!eventFormat) {
+      return { error: 'Invalid format for this event' };
+    }
+  }
+
+  if (payload.action === 'notify') {
+    const rendered = await emailService.renderTemplatedEmail(payload.templateType, {});
+    if (!rendered) {
+      return { error: `The "${payload.templateType}" email template is missing or disabled` };
+    }
+  }
+
+  const operation = await prisma.submissionBulkOperation.create({
+    data: {
+      eventId,
+      createdById: options.createdById,
+      action: payload.action,
+      payload: payload as Prisma.InputJsonValue,
+      submissionIds,
+      total: submissionIds.length,
+    },
+  });
+
+  await logActivity({
+    userId: options.createdById,
+    action: 'SUBMISSIONS_BULK_UPDATED',
+    entityType: 'Event',
+    entityId: eventId,
+    metadata: {
+      bulkOperationId: operation.id,
+      action: payload.action,
+      count: submissionIds.length,
+      ...(payload.action === 'status' && { status: payload.status }),
+      ...(payload.action === 'notify' && { templateType: payload.templateType }),
+    },
+    ipAddress: options.ipAddress,
+  });
+
+  return { error: null, operation };
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+async function applyStatus(
+  submissionId: string,
+  payload: Extract<BulkOperationPayload, { action: 'status' }>,
+  context: BulkContext
+): Promise<ItemOutcome> {
+  const submission = await prisma.submission.findFirst({
+    where: { id: submissionId, eventId: context.event.id },
+    include: { speaker: { select: { email: true, name: true } } },
+  });
+  if (!submission) {
+    throw new Error('Submission not found');
+  }
+
+  const previousStatus = submission.status;
+  if (previousStatus === payload.status) {
+    return 'skipped';
+  }
+
+  const updated = await prisma.submission.update({
+    where: { id: submissionId },
+    data: {
+      status: payload.status,
+      statusUpdatedAt: new Date(),
+    },
+  });
+
+  await logActivity({
+    userId: context.actor.id,
+    action: 'SUBMISSION_STATUS_CHANGED',
+    entityType: 'Submission',
+    entityId: submissionId,
+    metadata: {
+      eventId: context.event.id,
+      previousStatus,
+      newStatus: payload.status,
+      changedBy: context.actor.id,
+      bulkOperationId: context.operationId,
+    },
+  });
+
+  dispatchHookAsync('submission.statusChanged', {
+    submission: updated,
+    oldStatus: previousStatus,
+    newStatus: payload.status,
+    changedBy: context.actor,
+  });
+
+  // Same follow-ups as a single status change
+  if (payload.status === 'ACCEPTED' && !submission.isFederated) {
+    if (payload.notifySpeakers) {
+      await requestSpeakerConfirmation(submissionId, { requestedById: context.actor.id });
+    }
+  } else if (previousStatus === 'ACCEPTED') {
+    await clearSpeakerConfirmation(submissionId);
+  }
+
+  const templateType = getStatusEmailTemplate(payload.status);
+  if (!submission.isFederated && payload.notifySpeakers && templateType) {
+    const result = await emailService.sendTemplatedEmail({
+      to: submission.speaker.email,
+      templateType,
+      variables: await decisionEmailVariables(submission, context.event, payload.includeFeedback),
+    });
+    if (!result.success) {
+      console.error('Failed to send submission status email:', result.error);
+    }
+  }
+
+  if (!submission.isFederated && payload.notifySpeakers) {
+    await notifySubmissionStatusChange(submissionId);
+  }
+
+  if (submission.isFederated && isFederatedDecision(payload.status)) {
+    const feedback = await getPublicFeedback(submissionId);
+    await sendStatusUpdatedWebhook(submissionId, payload.status, feedback).catch(err => {
+      console.error('Failed to send submission.status_updated webhook:', err);
+    });
+  }
+
+  return 'succeeded';
+}
+
+function isFederatedDecision(status: SubmissionStatus): status is 'ACCEPTED' | 'REJECTED' | 'WAITLISTED' {
+  return status === 'ACCEPTED' || status === 'REJECTED' || status === 'WAITLISTED';
+}
+
+async function applyAssignment(
+  submissionId: string,
+  data: { trackId: string | null } | { formatId: string | null },
+  context: BulkContext
+): Promise<ItemOutcome> {
+  const submission = await prisma.submission.findFirst({
+    where: { id: submissionId, eventId: context.event.id },
+    select: { trackId: true, formatId: true },
+  });
+  if (!submission) {
+    throw new Error('Submission not found');
+  }
+
+  const unchanged = 'trackId' in data
+    ? submission.trackId === data.trackId
+    : submission.formatId === data.formatId;
+  if (unchanged) {
+    return 'skipped';
+  }
+
+  await prisma.submission.update({
+    where: { id: submissionId },
+    data,
+  });
+  return 'succeeded';
+}
+
+async function sendDecisionEmail(
+  submissionId: string,
+  payload: { templateType: BulkDecisionTemplate; includeFeedback: boolean },
+  context: BulkContext
+): Promise<ItemOutcome> {
+  const submission = await prisma.submission.findFirst({
+    where: { id: submissionId, eventId: context.event.id },
+    include: { speaker: { select: { email: true, name: true } } },
+  });
+  if (!submission) {
+    throw new Error('Submission not found');
+  }
+  if (submission.isFederated) {
+    return 'skipped';
+  }
+
+  const result = await emailService.sendTemplatedEmail({
+    to: submission.speaker.email,
+    templateType: payload.templateType,
+    variables: await decisionEmailVariables(submission, context.event, payload.includeFeedback),
+  });
+  // Emails queued for a retry are delivered by the email-queue job
+  if (!result.success && !result.queued) {
+    throw new Error(result.error || 'Failed to send email');
+  }
+  return 'succeeded';
+}
+
+function applyToSubmission(
+  submissionId: string,
+  payload: BulkOperationPayload,
+  context: BulkContext
+): Promise<ItemOutcome> {
+  switch (payload.action) {
+    case 'status':
+      return applyStatus(submissionId, payload, context);
+    case 'track':
+      return applyAssignment(submissionId, { trackId: payload.trackId }, context);
+    case 'format':
+      return applyAssignment(submissionId, { formatId: payload.formatId }, context);
+    case 'notify':
+      return sendDecisionEmail(submissionId, payload, context);
+  }
+}
+
+/**
+ * Process a queued operation one submission at a time, saving progress
+ * after each. Returns false when another worker already claimed it.
+ */
+export async function runBulkOperation(operationId: string): Promise<boolean> {
+  const existing = await prisma.submissionBulkOperation.findUnique({
+    where: { id: operationId },
+    include: {
+      event: { select: { id: true, name: true, slug: true } },
+      createdBy: { select: { id: true, role: true, name: true } },
+    },
+  });
+  if (!existing) {
+    return false;
+  }
+
+  // Only one worker gets to move PENDING to RUNNING
+  const claimed = await prisma.submissionBulkOperation.updateMany({
+    where: { id: operationId, status: 'PENDING' },
+    data: { status: 'RUNNING', startedAt: existing.startedAt ?? new Date() },
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  let { processed, succeeded, failed, skipped } = existing;
+  let errors = existing.errors as unknown as BulkOperationError[];
+
+  try {
+    if (!existing.createdBy) {
+      throw new Error('The user who started this operation no longer exists');
+    }
+
+    const context: BulkContext = {
+      operationId,
+      event: existing.event,
+      actor: {
+        id: existing.createdBy.id,
+        role: existing.createdBy.role,
+        name: decryptName(existing.createdBy.name),
+      },
+    };
+    const payload = existing.payload as unknown as BulkOperationPayload;
+
+    for (const submissionId of existing.submissionIds.slice(processed)) {
+      try {
+        const outcome = await applyToSubmission(submissionId, payload, context);
+        if (outcome === 'skipped') {
+          skipped++;
+        } else {
+          succeeded++;
+        }
+      } catch (error) {
+        failed++;
+        errors = appendBulkError(errors, {
+          submissionId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      processed++;
+
+      await prisma.submissionBulkOperation.update({
+        where: { id: operationId },
+        data: {
+          processed,
+          succeeded,
+          failed,
+          skipped,
+          errors: errors as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    await prisma.submissionBulkOperation.update({
+      where: { id: operationId },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`[BulkOperation] Operation ${operationId} failed:`, error);
+    await prisma.submissionBulkOperation.update({
+      where: { id: operationId },
+      data: {
+        status: 'FAILED',
+        completedAt: new Date(),
+        errors: appendBulkError(errors, {
+          submissionId: existing.submissionIds[processed] ?? '',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }) as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Run queued operations and requeue running ones whose worker stopped,
+ * e.g. after a restart. Called by the bulk-operations scheduled task.
+ */
+export async function resumeBulkOperations(
+  now: Date = new Date()
+): Promise<{ requeued: number; processed: number }> {
+  const requeued = await prisma.submissionBulkOperation.updateMany({
+    where: {
+      status: 'RUNNING',
+      updatedAt: { lt: new Date(now.getTime() - STALE_BULK_OPERATION_MS) },
+    },
+    data: { status: 'PENDING' },
+  });
+
+  const pending = await prisma.submissionBulkOperation.findMany({
+    where: { status: 'PENDING' },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let processed = 0;
+  for (const operation of pending) {
+    if (await runBulkOperation(operation.id)) {
+      processed++;
+    }
+  }
+
+  return { requeued: requeued.count, processed };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * An event's operation, for progress polling
+ */
+export async function getBulkOperation(
+  eventId: string,
+  operationId: string
+): Promise<BulkOperationSummary | null> {
+  const operation = await prisma.submissionBulkOperation.findFirst({
+    where: { id: operationId, eventId },
+    omit: { submissionIds: true },
+  });
+  return operation ? toSummary(operation) : null;
+}
+
+/**
+ * An event's most recent operations, newest first
+ */
+export async function listBulkOperations(
+  eventId: string,
+  limit = 10
+): Promise<BulkOperationSummary[]> {
+  const operations = await prisma.submissionBulkOperation.findMany({
+    where: { eventId },
+    omit: { submissionIds: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return operations.map(toSummary);
+}
+
+// ============================================================================
+// Email Preview
+// ============================================================================
+
+/**
+ * Render a decision email for each selected speaker exactly as it would be
+ * sent, so organizers can check it before starting a bulk send
+ */
+export async function previewBulkEmails(
+  eventId: string,
+  input: BulkEmailPreviewInput
+): Promise<PreviewResult> {
+  const submissions = await prisma.submission.findMany({
+    where: { id: { in: input.submissionIds }, eventId },
+    include: {
+      speaker: { select: { email: true, name: true } },
+      event: { select: { name: true, slug: true } },
+    },
+  });
+  if (submissions.length !== input.submissionIds.length) {
+    return { error: 'Some of the selected submissions do not belong to this event' };
+  }
+
+  const byId = new Map(submissions.map(s => [s.id, s]));
+  const previews: BulkEmailPreview[] = [];
+
+  for (const submissionId of input.submissionIds) {
+    const submission = byId.get(submissionId)!;
+    const base = {
+      submissionId,
+      submissionTitle: submission.title,
+      speakerName: speakerDisplayName(submission.speaker),
+    };
+
+    if (submission.isFederated) {
+      previews.push({ ...base, to: null, subject: null, html: null, skipReason: FEDERATED_SKIP_REASON });
+      continue;
+    }
+
+    const rendered = await emailService.renderTemplatedEmail(
+      input.templateType,
+      await decisionEmailVariables(submission, submission.event, input.includeFeedback)
+    );
+    if (!rendered) {
+      return { error: `The "${input.templateType}" email template is missing or disabled` };
+    }
+
+    previews.push({
+      ...base,
+      to: submission.speaker.email,
+      subject: rendered.subject,
+      html: rendered.html,
+      skipReason: null,
+    });
+  }
+
+  return { error: null, previews };
+}
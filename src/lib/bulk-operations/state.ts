@@ -0,0 +1,90 @@
+/**
+ * Bulk Operation State
+ *
+ * Labels, progress and recovery rules for bulk submission operations.
+ * Pure functions only - safe to import from client components.
+ */
+
+import type { BulkOperationStatus, SubmissionStatus } from '@prisma/client';
+import type { BulkOperationAction, BulkDecisionTemplate } from '@/lib/validations/bulk-operation';
+
+export interface BulkOperationError {
+  submissionId: string;
+  error: string;
+}
+
+export const BULK_OPERATION_STATUS_LABELS: Record<BulkOperationStatus, string> = {
+  PENDING: 'Queued',
+  RUNNING: 'In progress',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+};
+
+export const BULK_ACTION_LABELS: Record<BulkOperationAction, string> = {
+  status: 'Change status',
+  track: 'Assign track',
+  format: 'Assign format',
+  notify: 'Send decision emails',
+};
+
+/** Running operations not updated for this long are picked up again */
+export const STALE_BULK_OPERATION_MS = 10 * 60 * 1000;
+
+/** Errors kept on an operation; the counters still include the rest */
+export const MAX_STORED_BULK_ERRORS = 100;
+
+/**
+ * Percentage of submissions processed, 0-100
+ */
+export function getBulkProgress(operation: { total: number; processed: number }): number {
+  if (operation.total <= 0) return 100;
+  return Math.min(100, Math.floor((operation.processed / operation.total) * 100));
+}
+
+/**
+ * Whether the operation still has submissions to process
+ */
+export function isBulkOperationActive(status: BulkOperationStatus): boolean {
+  return status === 'PENDING' || status === 'RUNNING';
+}
+
+/**
+ * A running operation whose worker stopped updating it, e.g. after a
+ * server restart
+ */
+export function isStaleBulkOperation(
+  operation: { status: BulkOperationStatus; updatedAt: Date },
+  now: Date = new Date()
+): boolean {
+  return (
+    operation.status === 'RUNNING' &&
+    now.getTime() - operation.updatedAt.getTime() > STALE_BULK_OPERATION_MS
+  );
+}
+
+/**
+ * Decision email sent when a submission moves to a status. Accepted
+ * speakers get the confirmation request instead; other statuses send nothing.
+ */
+export function getStatusEmailTemplate(status: SubmissionStatus): BulkDecisionTemplate | null {
+  switch (status) {
+    case 'REJECTED':
+      return 'submission_rejected';
+    case 'WAITLISTED':
+      return 'submission_waitlisted';
+    case 'UNDER_REVIEW':
+      return 'submission_under_review';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Record a failed submission, keeping at most MAX_STORED_BULK_ERRORS
+ */
+export function appendBulkError(
+  errors: BulkOperationError[],
+  error: BulkOperationError
+): BulkOperationError[] {
+  return errors.length >= MAX_STORED_BULK_ERRORS ? errors : [...errors, error];
+}
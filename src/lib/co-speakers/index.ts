@@ -0,0 +1,26 @@
+/**
+ * Co-Speakers Module Index
+ *
+ * Re-exports co-speaker invitation state helpers and the invitation workflow.
+ */
+
+export {
+  type CoSpeakerInvitationState,
+  CO_SPEAKER_INVITATION_STATE_LABELS,
+  CO_SPEAKER_INVITATION_EXPIRY_DAYS,
+  computeInvitationExpiry,
+  getCoSpeakerInvitationState,
+  canResendInvitation,
+  invitationEmailMatches,
+  acceptedCoSpeakerFilter,
+  speakerSubmissionWhere,
+} from './state';
+
+export {
+  type PublicCoSpeakerInvitation,
+  inviteCoSpeaker,
+  getCoSpeakerInvitationByToken,
+  respondToCoSpeakerInvitation,
+  isAcceptedCoSpeaker,
+  withSpeakerProfiles,
+} from './invitations';
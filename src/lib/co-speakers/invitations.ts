@@ -0,0 +1,382 @@
+/**
+ * Co-Speaker Invitations
+ *
+ * Co-speakers added with an email get a tokenized link to accept or
+ * decline. Accepting links the co-speaker to an account - the signed-in
+ * one when its email matches the invitation, or a new account created
+ * from the invitation page - and gives them the primary speaker's access
+ * to the submission, its materials and its message thread.
+ */
+
+import crypto from 'crypto';
+import { format } from 'date-fns';
+import type { CoSpeaker } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { hashPassword } from '@/lib/auth/auth';
+import { logActivity } from '@/lib/activity-logger';
+import { sendCoSpeakerInvitationEmail } from '@/lib/email/email-service';
+import {
+  encryptPiiFields,
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  CO_SPEAKER_PII_FIELDS,
+  SPEAKER_PROFILE_PII_FIELDS,
+} from '@/lib/security/encryption';
+import { decryptUserName, getLinkBaseUrl, hashLinkToken } from '@/lib/security/emailed-links';
+import type { RespondCoSpeakerInvitationInput } from '@/lib/validations/co-speaker-invitation';
+import {
+  acceptedCoSpeakerFilter,
+  computeInvitationExpiry,
+  getCoSpeakerInvitationState,
+  invitationEmailMatches,
+  type CoSpeakerInvitationState,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PublicCoSpeakerInvitation {
+  state: CoSpeakerInvitationState;
+  expiresAt: Date | null;
+  invitedEmail: string;
+  coSpeakerName: string;
+  inviterName: string | null;
+  submission: { id: string; title: string };
+  event: { name: string; slug: string; startDate: Date | null };
+  /** Whether an account already exists for the invited email */
+  hasAccount: boolean;
+}
+
+type RespondResult =
+  | { error: string; status?: never }
+  | {
+      error: null;
+      status: 'ACCEPTED' | 'DECLINED';
+      submission: { id: string; eventSlug: string };
+    };
+
+/** The co-speaker fields the profile overlay reads and replaces */
+interface ProfileOverlayFields {
+  name: string;
+  bio: string | null;
+  avatarUrl: string | null;
+  linkedUserId: string | null;
+  invitationStatus: CoSpeaker['invitationStatus'];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function decryptCoSpeaker(coSpeaker: CoSpeaker): CoSpeaker {
+  return decryptPiiFields(
+    coSpeaker as unknown as Record<string, unknown>,
+    CO_SPEAKER_PII_FIELDS
+  ) as unknown as CoSpeaker;
+}
+
+async function findAccountByEmail(email: string) {
+  return prisma.user.findFirst({
+    where: { email: { equals: email.trim(), mode: 'insensitive' } },
+    select: { id: true },
+  });
+}
+
+// ============================================================================
+// Inviting
+// ============================================================================
+
+/**
+ * Send (or resend) the invitation for a co-speaker with an email. Issues a
+ * fresh link, so earlier links stop working. Returns null when the
+ * co-speaker has no email or already answered.
+ */
+export async function inviteCoSpeaker(
+  coSpeakerId: string,
+  options: { invitedById: string; ipAddress?: string }
+): Promise<CoSpeaker | null> {
+  const existing = await prisma.coSpeaker.findUnique({
+    where: { id: coSpeakerId },
+    include: {
+      submission: {
+        select: {
+          id: true,
+          title: true,
+          speaker: { select: { name: true, email: true } },
+          event: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const { submission, ...row } = existing;
+  const coSpeaker = decryptCoSpeaker(row);
+  const state = getCoSpeakerInvitationState(coSpeaker);
+  if (!coSpeaker.email || state === 'ACCEPTED' || state === 'DECLINED') {
+    return null;
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const expiresAt = computeInvitationExpiry(now);
+
+  const updated = await prisma.coSpeaker.update({
+    where: { id: coSpeakerId },
+    data: {
+      invitationStatus: 'PENDING',
+      invitationTokenHash: hashLinkToken(token),
+      invitedAt: now,
+      invitationExpiresAt: expiresAt,
+      respondedAt: null,
+    },
+  });
+
+  const inviterName = decryptUserName(submission.speaker.name) || submission.speaker.email;
+  const invitationUrl = `${await getLinkBaseUrl()}/co-speaker/${token}`;
+
+  sendCoSpeakerInvitationEmail(
+    coSpeaker.email,
+    coSpeaker.name,
+    inviterName,
+    submission.event.name,
+    submission.title,
+    invitationUrl,
+    format(expiresAt, 'MMMM d, yyyy')
+  ).catch(err => {
+    console.error('Failed to send co-speaker invitation email:', err);
+  });
+
+  await logActivity({
+    userId: options.invitedById,
+    action: 'CO_SPEAKER_INVITED',
+    entityType: 'Submission',
+    entityId: submission.id,
+    metadata: { eventId: submission.event.id, coSpeakerId, resent: existing.invitedAt !== null },
+    ipAddress: options.ipAddress,
+  });
+
+  return updated;
+}
+
+// ============================================================================
+// Co-Speaker Response
+// ============================================================================
+
+/**
+ * What the co-speaker sees on the invitation page, or null for an unknown
+ * token
+ */
+export async function getCoSpeakerInvitationByToken(
+  token: string
+): Promise<PublicCoSpeakerInvitation | null> {
+  const existing = await prisma.coSpeaker.findUnique({
+    where: { invitationTokenHash: hashLinkToken(token) },
+    include: {
+      submission: {
+        select: {
+          id: true,
+          title: true,
+          speaker: { select: { name: true } },
+          event: { select: { name: true, slug: true, startDate: true } },
+        },
+      },
+    },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const { submission, ...row } = existing;
+  const coSpeaker = decryptCoSpeaker(row);
+  const state = getCoSpeakerInvitationState(coSpeaker);
+  if (!state || !coSpeaker.email) {
+    return null;
+  }
+
+  return {
+    state,
+    expiresAt: coSpeaker.invitationExpiresAt,
+    invitedEmail: coSpeaker.email,
+    coSpeakerName: coSpeaker.name,
+    inviterName: decryptUserName(submission.speaker.name),
+    submission: { id: submission.id, title: submission.title },
+    event: submission.event,
+    hasAccount: (await findAccountByEmail(coSpeaker.email)) !== null,
+  };
+}
+
+/**
+ * Record the co-speaker's answer. Accepting needs the signed-in account
+ * the invitation was sent to; registering creates that account first.
+ * Declining only needs the link. Each invitation can be answered once.
+ */
+export async function respondToCoSpeakerInvitation(
+  token: string,
+  input: RespondCoSpeakerInvitationInput,
+  options: { user: { id: string; email: string } | null; ipAddress?: string }
+): Promise<RespondResult> {
+  const existing = await prisma.coSpeaker.findUnique({
+    where: { invitationTokenHash: hashLinkToken(token) },
+    include: {
+      submission: {
+        select: { id: true, speakerId: true, eventId: true, event: { select: { slug: true } } },
+      },
+    },
+  });
+  if (!existing) {
+    return { error: 'Invitation not found' };
+  }
+
+  const { submission, ...row } = existing;
+  const coSpeaker = decryptCoSpeaker(row);
+  const state = getCoSpeakerInvitationState(coSpeaker);
+  if (state === 'EXPIRED') {
+    return { error: 'This invitation has expired. Ask the speaker to send a new one.' };
+  }
+  if (state !== 'PENDING' || !coSpeaker.email) {
+    return { error: 'This invitation has already been answered' };
+  }
+
+  const now = new Date();
+  const result = {
+    submission: { id: submission.id, eventSlug: submission.event.slug },
+  };
+
+  if (input.action === 'decline') {
+    await prisma.coSpeaker.update({
+      where: { id: coSpeaker.id },
+      data: { invitationStatus: 'DECLINED', respondedAt: now },
+    });
+
+    await logActivity({
+      userId: options.user?.id ?? null,
+      action: 'CO_SPEAKER_INVITATION_DECLINED',
+      entityType: 'Submission',
+      entityId: submission.id,
+      metadata: { eventId: submission.eventId, coSpeakerId: coSpeaker.id },
+      ipAddress: options.ipAddress,
+    });
+
+    return { error: null, status: 'DECLINED', ...result };
+  }
+
+  let userId: string;
+  if (input.action === 'register') {
+    if (await findAccountByEmail(coSpeaker.email)) {
+      return { error: 'An account with this email already exists. Please sign in to accept.' };
+    }
+
+    const passwordHash = await hashPassword(input.password);
+    const encryptedData = encryptPiiFields({ name: input.name }, USER_PII_FIELDS);
+    const newUser = await prisma.user.create({
+      data: {
+        email: coSpeaker.email.trim().toLowerCase(),
+        passwordHash,
+        name: encryptedData.name as string,
+        role: 'SPEAKER',
+        emailVerified: now, // The invitation link proves ownership of the email
+      },
+      select: { id: true },
+    });
+    userId = newUser.id;
+  } else {
+    if (!options.user) {
+      return { error: 'Please sign in to accept this invitation' };
+    }
+    if (!invitationEmailMatches(coSpeaker.email, options.user.email)) {
+      return { error: 'This invitation was sent to a different email address' };
+    }
+    if (submission.speakerId === options.user.id) {
+      return { error: 'You are already the speaker on this submission' };
+    }
+    userId = options.user.id;
+  }
+
+  // Guard against a concurrent answer since the invitation was read
+  const { count } = await prisma.coSpeaker.updateMany({
+    where: { id: coSpeaker.id, invitationStatus: 'PENDING' },
+    data: {
+      invitationStatus: 'ACCEPTED',
+      respondedAt: now,
+      isLinked: true,
+      linkedUserId: userId,
+    },
+  });
+  if (count === 0) {
+    return { error: 'This invitation has already been answered' };
+  }
+
+  await logActivity({
+    userId,
+    action: 'CO_SPEAKER_INVITATION_ACCEPTED',
+    entityType: 'Submission',
+    entityId: submission.id,
+    metadata: {
+      eventId: submission.eventId,
+      coSpeakerId: coSpeaker.id,
+      createdAccount: input.action === 'register',
+    },
+    ipAddress: options.ipAddress,
+  });
+
+  return { error: null, status: 'ACCEPTED', ...result };
+}
+
+// ============================================================================
+// Access & Profiles
+// ============================================================================
+
+/**
+ * Whether the user accepted a co-speaker invitation for the submission
+ */
+export async function isAcceptedCoSpeaker(submissionId: string, userId: string): Promise<boolean> {
+  const count = await prisma.coSpeaker.count({
+    where: { submissionId, ...acceptedCoSpeakerFilter(userId) },
+  });
+  return count > 0;
+}
+
+/**
+ * Show accepted co-speakers with their speaker profile instead of the
+ * details typed in by the primary speaker. Expects decrypted co-speakers.
+ */
+export async function withSpeakerProfiles<T extends ProfileOverlayFields>(
+  coSpeakers: T[]
+): Promise<T[]> {
+  const userIds = coSpeakers
+    .filter(coSpeaker => coSpeaker.invitationStatus === 'ACCEPTED' && coSpeaker.linkedUserId)
+    .map(coSpeaker => coSpeaker.linkedUserId as string);
+  if (userIds.length === 0) {
+    return coSpeakers;
+  }
+
+  const profiles = await prisma.speakerProfile.findMany({
+    where: { userId: { in: userIds } },
+    select: { userId: true, fullName: true, bio: true, photoUrl: true },
+  });
+  const byUserId = new Map(
+    profiles.map(profile => [
+      profile.userId,
+      decryptPiiFields(profile, SPEAKER_PROFILE_PII_FIELDS) as typeof profile,
+    ])
+  );
+
+  return coSpeakers.map(coSpeaker => {
+    const profile = coSpeaker.invitationStatus === 'ACCEPTED' && coSpeaker.linkedUserId
+      ? byUserId.get(coSpeaker.linkedUserId)
+      : undefined;
+    if (!profile) {
+      return coSpeaker;
+    }
+    return {
+      ...coSpeaker,
+      name: profile.fullName || coSpeaker.name,
+      bio: profile.bio || coSpeaker.bio,
+      avatarUrl: profile.photoUrl || coSpeaker.avatarUrl,
+    };
+  });
+}
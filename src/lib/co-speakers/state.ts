@@ -0,0 +1,87 @@
+/**
+ * Co-Speaker Invitation State
+ *
+ * Display state of a co-speaker invitation and the query filters that give
+ * accepted co-speakers the same access as the submitting speaker. Pure
+ * functions only - safe to import from client components.
+ */
+
+import type { CoSpeakerInvitationStatus } from '@prisma/client';
+
+/** Stored status, plus EXPIRED for pending invitations past their expiry */
+export type CoSpeakerInvitationState = CoSpeakerInvitationStatus | 'EXPIRED';
+
+export const CO_SPEAKER_INVITATION_STATE_LABELS: Record<CoSpeakerInvitationState, string> = {
+  PENDING: 'Invitation sent',
+  ACCEPTED: 'Accepted',
+  DECLINED: 'Declined',
+  EXPIRED: 'Invitation expired',
+};
+
+export const CO_SPEAKER_INVITATION_EXPIRY_DAYS = 14;
+
+/**
+ * When an invitation sent at `from` stops working
+ */
+export function computeInvitationExpiry(from: Date): Date {
+  return new Date(from.getTime() + CO_SPEAKER_INVITATION_EXPIRY_DAYS * 86400000);
+}
+
+/**
+ * The state shown to speakers and on the invitation page. Null for
+ * co-speakers added without an email, who were never invited.
+ */
+export function getCoSpeakerInvitationState(
+  coSpeaker: { invitationStatus: CoSpeakerInvitationStatus | null; invitationExpiresAt: Date | null },
+  now: Date = new Date()
+): CoSpeakerInvitationState | null {
+  const { invitationStatus, invitationExpiresAt } = coSpeaker;
+  if (
+    invitationStatus === 'PENDING' &&
+    invitationExpiresAt !== null &&
+    invitationExpiresAt.getTime() < now.getTime()
+  ) {
+    return 'EXPIRED';
+  }
+  return invitationStatus;
+}
+
+/**
+ * Pending and expired invitations can be sent again; answered ones cannot
+ */
+export function canResendInvitation(state: CoSpeakerInvitationState | null): boolean {
+  return state === 'PENDING' || state === 'EXPIRED';
+}
+
+/**
+ * Emails are compared case-insensitively when matching an invitation to
+ * the account accepting it
+ */
+export function invitationEmailMatches(invitedEmail: string | null, accountEmail: string): boolean {
+  return invitedEmail !== null && invitedEmail.trim().toLowerCase() === accountEmail.trim().toLowerCase();
+}
+
+// ============================================================================
+// Access Filters
+// ============================================================================
+
+/**
+ * Co-speaker rows that give a user access: only accepted invitations count,
+ * not the silent link made for conflict checks when the co-speaker was added
+ */
+export function acceptedCoSpeakerFilter(userId: string) {
+  return { linkedUserId: userId, invitationStatus: 'ACCEPTED' as const };
+}
+
+/**
+ * Submissions a user presents: their own and those they accepted a
+ * co-speaker invitation for
+ */
+export function speakerSubmissionWhere(userId: string) {
+  return {
+    OR: [
+      { speakerId: userId },
+      { coSpeakers: { some: acceptedCoSpeakerFilter(userId) } },
+    ],
+  };
+}
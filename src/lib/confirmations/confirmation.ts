@@ -0,0 +1,487 @@
+/**
+ * Speaker Confirmations
+ *
+ * After a talk is accepted the speaker gets a tokenized link to confirm
+ * attendance, agree to the code of conduct and recording release, and
+ * list travel needs. Declined and expired confirmations free the talk's
+ * place, and the best waitlisted submission in the same track is accepted
+ * in its place.
+ */
+
+import crypto from 'crypto';
+import { format } from 'date-fns';
+import type { Submission, SpeakerConfirmation } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { sendSpeakerConfirmationEmail } from '@/lib/email/email-service';
+import { dispatchHookAsync } from '@/lib/plugins';
+import { notifySubmissionStatusChange } from '@/lib/notifications';
+import {
+  encryptPiiFields,
+  decryptPiiFields,
+  SPEAKER_CONFIRMATION_PII_FIELDS,
+} from '@/lib/security/encryption';
+import { decryptUserName, getLinkBaseUrl, hashLinkToken } from '@/lib/security/emailed-links';
+import { getReviewMode, aggregateSubmission } from '@/lib/reviews/review-modes';
+import { getEventRankingStandings } from '@/lib/reviews/rankings';
+import type { RespondConfirmationInput } from '@/lib/validations/confirmation';
+import {
+  computeConfirmationDeadline,
+  getConfirmationState,
+  pickWaitlistPromotion,
+  type ConfirmationState,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PublicConfirmation {
+  status: ConfirmationState;
+  deadline: Date;
+  respondedAt: Date | null;
+  submissionTitle: string;
+  speakerName: string | null;
+  event: {
+    name: string;
+    slug: string;
+    startDate: Date | null;
+    codeOfConductUrl: string | null;
+  };
+}
+
+export interface ConfirmationDetails {
+  status: ConfirmationState;
+  deadline: Date;
+  respondedAt: Date | null;
+  agreedToCodeOfConduct: boolean;
+  agreedToRecording: boolean;
+  travelNeeds: string | null;
+  declineReason: string | null;
+  promotedSubmission: { id: string; title: string } | null;
+}
+
+const ALREADY_ANSWERED = 'This confirmation has already been answered';
+
+type RespondResult =
+  | { error: string; status?: never }
+  | { error: null; status: 'CONFIRMED' | 'DECLINED'; promotedSubmission: Submission | null };
+
+// ============================================================================
+// Requesting
+// ============================================================================
+
+/**
+ * Start (or restart) the confirmation step for an accepted submission.
+ * Issues a fresh link, resets any earlier answer and emails the speaker.
+ */
+export async function requestSpeakerConfirmation(
+  submissionId: string,
+  options: { requestedById?: string | null; ipAddress?: string } = {}
+): Promise<SpeakerConfirmation | null> {
+  const submission = await prisma.submission.findUnique({
+    where: { id: submissionId },
+    include: {
+      speaker: { select: { id: true, email: true, name: true } },
+      event: { select: { id: true, name: true, confirmationDeadlineDays: true } },
+    },
+  });
+  if (!submission || submission.status !== 'ACCEPTED') {
+    return null;
+  }
+  const { speaker, event, ...submissionFields } = submission;
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const deadline = computeConfirmationDeadline(new Date(), event.confirmationDeadlineDays);
+  const reset = {
+    status: 'PENDING' as const,
+    tokenHash: hashLinkToken(token),
+    deadline,
+    respondedAt: null,
+    agreedToCodeOfConduct: false,
+    agreedToRecording: false,
+    travelNeeds: null,
+    declineReason: null,
+    promotedSubmissionId: null,
+  };
+
+  const confirmation = await prisma.speakerConfirmation.upsert({
+    where: { submissionId },
+    create: { submissionId, ...reset },
+    update: reset,
+  });
+
+  const speakerName = decryptUserName(speaker.name);
+  const confirmUrl = `${await getLinkBaseUrl()}/confirm/${token}`;
+
+  sendSpeakerConfirmationEmail(
+    speaker.email,
+    speakerName || speaker.email.split('@')[0],
+    event.name,
+    submission.title,
+    confirmUrl,
+    format(deadline, 'MMMM d, yyyy')
+  ).catch(err => {
+    console.error('Failed to send speaker confirmation email:', err);
+  });
+
+  await logActivity({
+    userId: options.requestedById ?? null,
+    action: 'SPEAKER_CONFIRMATION_REQUESTED',
+    entityType: 'Submission',
+    entityId: submissionId,
+    metadata: { eventId: event.id, deadline: deadline.toISOString() },
+    ipAddress: options.ipAddress,
+  });
+
+  dispatchHookAsync('submission.confirmationRequested', {
+    submission: submissionFields,
+    speaker: { id: speaker.id, email: speaker.email, name: speakerName },
+    deadline,
+  });
+
+  return confirmation;
+}
+
+/**
+ * Drop the confirmation of a submission that is no longer accepted
+ */
+export async function clearSpeakerConfirmation(submissionId: string): Promise<void> {
+  await prisma.speakerConfirmation.deleteMany({ where: { submissionId } });
+}
+
+// ============================================================================
+// Speaker Response
+// ============================================================================
+
+/**
+ * What the speaker sees on the confirmation page, or null for an unknown
+ * token
+ */
+export async function getConfirmationByToken(token: string): Promise<PublicConfirmation | null> {
+  const confirmation = await prisma.speakerConfirmation.findUnique({
+    where: { tokenHash: hashLinkToken(token) },
+    include: {
+      submission: {
+        select: {
+          title: true,
+          speaker: { select: { name: true } },
+          event: { select: { name: true, slug: true, startDate: true, codeOfConductUrl: true } },
+        },
+      },
+    },
+  });
+  if (!confirmation) {
+    return null;
+  }
+
+  return {
+    status: getConfirmationState(confirmation),
+    deadline: confirmation.deadline,
+    respondedAt: confirmation.respondedAt,
+    submissionTitle: confirmation.submission.title,
+    speakerName: decryptUserName(confirmation.submission.speaker.name),
+    event: confirmation.submission.event,
+  };
+}
+
+/**
+ * Record the speaker's answer. Only pending confirmations inside their
+ * deadline can be answered, and each link can be answered once: the
+ * answer claims the row before anything else changes, so concurrent
+ * answers or the expiry task can't free the same place twice.
+ */
+export async function respondToConfirmation(
+  token: string,
+  input: RespondConfirmationInput,
+  options: { ipAddress?: string } = {}
+): Promise<RespondResult> {
+  const confirmation = await prisma.speakerConfirmation.findUnique({
+    where: { tokenHash: hashLinkToken(token) },
+    include: { submission: true },
+  });
+  if (!confirmation) {
+    return { error: 'Confirmation link not found' };
+  }
+
+  const state = getConfirmationState(confirmation);
+  if (state === 'OVERDUE' || state === 'EXPIRED') {
+    return { error: 'The confirmation deadline has passed. Please contact the organizers.' };
+  }
+  if (state !== 'PENDING') {
+    return { error: ALREADY_ANSWERED };
+  }
+
+  const { submission } = confirmation;
+  const now = new Date();
+  // Still pending, still inside the deadline and not restarted since it was read
+  const claimable = {
+    id: confirmation.id,
+    tokenHash: confirmation.tokenHash,
+    status: 'PENDING' as const,
+    deadline: { gte: now },
+  };
+
+  if (input.action === 'confirm') {
+    const travelNeeds = input.travelNeeds?.trim() || null;
+    const { count } = await prisma.speakerConfirmation.updateMany({
+      where: claimable,
+      data: encryptPiiFields({
+        status: 'CONFIRMED' as const,
+        respondedAt: now,
+        agreedToCodeOfConduct: input.agreedToCodeOfConduct,
+        agreedToRecording: input.agreedToRecording,
+        travelNeeds,
+      }, SPEAKER_CONFIRMATION_PII_FIELDS),
+    });
+    if (count === 0) {
+      return { error: ALREADY_ANSWERED };
+    }
+
+    await logActivity({
+      userId: submission.speakerId,
+      action: 'SPEAKER_CONFIRMED',
+      entityType: 'Submission',
+      entityId: submission.id,
+      metadata: { eventId: submission.eventId, agreedToRecording: input.agreedToRecording },
+      ipAddress: options.ipAddress,
+    });
+
+    dispatchHookAsync('submission.confirmed', {
+      submission,
+      agreedToCodeOfConduct: input.agreedToCodeOfConduct,
+      agreedToRecording: input.agreedToRecording,
+      hasTravelNeeds: travelNeeds !== null,
+    });
+
+    return { error: null, status: 'CONFIRMED', promotedSubmission: null };
+  }
+
+  // Declining withdraws the talk and frees its schedule slot
+  const reason = input.reason?.trim() || null;
+  const { count } = await prisma.speakerConfirmation.updateMany({
+    where: claimable,
+    data: { status: 'DECLINED', respondedAt: now, declineReason: reason },
+  });
+  if (count === 0) {
+    return { error: ALREADY_ANSWERED };
+  }
+
+  const [, withdrawn] = await prisma.$transaction([
+    prisma.scheduleSlot.updateMany({
+      where: { submissionId: submission.id },
+      data: { submissionId: null },
+    }),
+    prisma.submission.update({
+      where: { id: submission.id },
+      data: { status: 'WITHDRAWN', statusUpdatedAt: now },
+    }),
+  ]);
+
+  const speaker = await prisma.user.findUnique({
+    where: { id: submission.speakerId },
+    select: { id: true, role: true, name: true },
+  });
+  if (speaker) {
+    dispatchHookAsync('submission.statusChanged', {
+      submission: withdrawn,
+      oldStatus: submission.status,
+      newStatus: 'WITHDRAWN',
+      changedBy: { ...speaker, name: decryptUserName(speaker.name) },
+    });
+  }
+  await notifySubmissionStatusChange(submission.id);
+
+  await logActivity({
+    userId: submission.speakerId,
+    action: 'SPEAKER_DECLINED',
+    entityType: 'Submission',
+    entityId: submission.id,
+    metadata: { eventId: submission.eventId },
+    ipAddress: options.ipAddress,
+  });
+
+  const promoted = await promoteFromWaitlist(submission);
+  if (promoted) {
+    await prisma.speakerConfirmation.update({
+      where: { id: confirmation.id },
+      data: { promotedSubmissionId: promoted.id },
+    });
+  }
+
+  dispatchHookAsync('submission.declined', {
+    submission: withdrawn,
+    reason,
+    promotedSubmission: promoted,
+  });
+
+  return { error: null, status: 'DECLINED', promotedSubmission: promoted };
+}
+
+// ============================================================================
+// Waitlist & Expiry
+// ============================================================================
+
+/**
+ * Accept the best waitlisted submission in the same event and track as
+ * the talk that gave up its place, and ask its speaker to confirm.
+ * Returns the promoted submission, or null when the waitlist is empty.
+ */
+export async function promoteFromWaitlist(
+  vacated: Pick<Submission, 'id' | 'eventId' | 'trackId'>
+): Promise<Submission | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: vacated.eventId },
+    select: { reviewType: true },
+  });
+  if (!event) {
+    return null;
+  }
+
+  const mode = getReviewMode(event.reviewType);
+  const [waitlisted, standings] = await Promise.all([
+    prisma.submission.findMany({
+      where: { eventId: vacated.eventId, trackId: vacated.trackId, status: 'WAITLISTED' },
+      select: {
+        id: true,
+        createdAt: true,
+        statusUpdatedAt: true,
+        reviews: { select: { overallScore: true, weightedScore: true, vote: true } },
+      },
+    }),
+    mode === 'ranking' ? getEventRankingStandings(vacated.eventId) : Promise.resolve(null),
+  ]);
+
+  const promotedId = pickWaitlistPromotion(
+    waitlisted.map(submission => ({
+      id: submission.id,
+      aggregate: aggregateSubmission(mode, {
+        reviews: submission.reviews,
+        standing: standings?.get(submission.id),
+      }),
+      waitlistedAt: submission.statusUpdatedAt ?? submission.createdAt,
+    }))
+  );
+  if (!promotedId) {
+    return null;
+  }
+
+  // Guard against a concurrent status change since the candidates were read
+  const { count } = await prisma.submission.updateMany({
+    where: { id: promotedId, status: 'WAITLISTED' },
+    data: { status: 'ACCEPTED', statusUpdatedAt: new Date() },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  await logActivity({
+    action: 'SUBMISSION_PROMOTED_FROM_WAITLIST',
+    entityType: 'Submission',
+    entityId: promotedId,
+    metadata: { eventId: vacated.eventId, replacedSubmissionId: vacated.id },
+  });
+
+  await requestSpeakerConfirmation(promotedId);
+
+  const promoted = await prisma.submission.findUnique({ where: { id: promotedId } });
+  if (promoted) {
+    dispatchHookAsync('submission.statusChanged', {
+      submission: promoted,
+      oldStatus: 'WAITLISTED',
+      newStatus: 'ACCEPTED',
+      changedBy: null,
+    });
+    await notifySubmissionStatusChange(promoted.id);
+  }
+  return promoted;
+}
+
+/**
+ * Mark pending confirmations past their deadline as expired and promote
+ * from the waitlist in their place. Expired talks stay accepted so
+ * organizers can follow up with the speaker. Returns how many expired.
+ */
+export async function expireOverdueConfirmations(now: Date = new Date()): Promise<number> {
+  const overdue = await prisma.speakerConfirmation.findMany({
+    where: { status: 'PENDING', deadline: { lt: now } },
+    include: { submission: true },
+  });
+
+  let expired = 0;
+  for (const confirmation of overdue) {
+    // Skip confirmations answered or restarted since they were read
+    const { count } = await prisma.speakerConfirmation.updateMany({
+      where: { id: confirmation.id, status: 'PENDING', deadline: { lt: now } },
+      data: { status: 'EXPIRED' },
+    });
+    if (count === 0) continue;
+    expired++;
+
+    const promoted = await promoteFromWaitlist(confirmation.submission);
+    if (promoted) {
+      await prisma.speakerConfirmation.update({
+        where: { id: confirmation.id },
+        data: { promotedSubmissionId: promoted.id },
+      });
+    }
+
+    await logActivity({
+      action: 'SPEAKER_CONFIRMATION_EXPIRED',
+      entityType: 'Submission',
+      entityId: confirmation.submissionId,
+      metadata: {
+        eventId: confirmation.submission.eventId,
+        deadline: confirmation.deadline.toISOString(),
+        promotedSubmissionId: promoted?.id ?? null,
+      },
+    });
+
+    dispatchHookAsync('submission.confirmationExpired', {
+      submission: confirmation.submission,
+      deadline: confirmation.deadline,
+      promotedSubmission: promoted,
+    });
+  }
+
+  return expired;
+}
+
+// ============================================================================
+// Organizer View
+// ============================================================================
+
+/**
+ * Confirmation answers for organizers, with travel needs decrypted
+ */
+export async function getConfirmationDetails(submissionId: string): Promise<ConfirmationDetails | null> {
+  const confirmation = await prisma.speakerConfirmation.findUnique({
+    where: { submissionId },
+  });
+  if (!confirmation) {
+    return null;
+  }
+
+  const decrypted = decryptPiiFields(
+    { travelNeeds: confirmation.travelNeeds },
+    SPEAKER_CONFIRMATION_PII_FIELDS
+  ) as { travelNeeds: string | null };
+
+  const promotedSubmission = confirmation.promotedSubmissionId
+    ? await prisma.submission.findUnique({
+        where: { id: confirmation.promotedSubmissionId },
+        select: { id: true, title: true },
+      })
+    : null;
+
+  return {
+    status: getConfirmationState(confirmation),
+    deadline: confirmation.deadline,
+    respondedAt: confirmation.respondedAt,
+    agreedToCodeOfConduct: confirmation.agreedToCodeOfConduct,
+    agreedToRecording: confirmation.agreedToRecording,
+    travelNeeds: decrypted.travelNeeds,
+    declineReason: confirmation.declineReason,
+    promotedSubmission,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Speaker Confirmations Module Index
+ *
+ * Re-exports confirmation state helpers and the confirmation workflow.
+ */
+
+export {
+  type ConfirmationState,
+  type WaitlistCandidate,
+  CONFIRMATION_STATE_LABELS,
+  DEFAULT_CONFIRMATION_DEADLINE_DAYS,
+  computeConfirmationDeadline,
+  getConfirmationState,
+  pickWaitlistPromotion,
+} from './state';
+
+export {
+  type PublicConfirmation,
+  type ConfirmationDetails,
+  requestSpeakerConfirmation,
+  clearSpeakerConfirmation,
+  getConfirmationByToken,
+  respondToConfirmation,
+  promoteFromWaitlist,
+  expireOverdueConfirmations,
+  getConfirmationDetails,
+} from './confirmation';
@@ -0,0 +1,66 @@
+/**
+ * Speaker Confirmation State
+ *
+ * Display state of a speaker confirmation and the waitlist promotion
+ * order. Pure functions only - safe to import from client components.
+ */
+
+import type { SpeakerConfirmationStatus } from '@prisma/client';
+import { compareAggregates, type SubmissionAggregate } from '@/lib/reviews/review-modes';
+
+/** Stored status, plus OVERDUE for pending answers past the deadline */
+export type ConfirmationState = SpeakerConfirmationStatus | 'OVERDUE';
+
+export const CONFIRMATION_STATE_LABELS: Record<ConfirmationState, string> = {
+  PENDING: 'Awaiting confirmation',
+  OVERDUE: 'Confirmation overdue',
+  CONFIRMED: 'Confirmed',
+  DECLINED: 'Declined',
+  EXPIRED: 'Confirmation expired',
+};
+
+export const DEFAULT_CONFIRMATION_DEADLINE_DAYS = 14;
+
+/**
+ * The deadline for a confirmation requested at `from`, at the end of the
+ * last day (UTC)
+ */
+export function computeConfirmationDeadline(from: Date, days: number): Date {
+  const deadline = new Date(from.getTime() + Math.max(days, 1) * 86400000);
+  deadline.setUTCHours(23, 59, 59, 999);
+  return deadline;
+}
+
+/**
+ * Pending confirmations past their deadline show as overdue until the
+ * expiry job marks them EXPIRED
+ */
+export function getConfirmationState(
+  confirmation: { status: SpeakerConfirmationStatus; deadline: Date },
+  now: Date = new Date()
+): ConfirmationState {
+  if (confirmation.status === 'PENDING' && confirmation.deadline.getTime() < now.getTime()) {
+    return 'OVERDUE';
+  }
+  return confirmation.status;
+}
+
+export interface WaitlistCandidate {
+  id: string;
+  aggregate: SubmissionAggregate;
+  /** When the submission was waitlisted */
+  waitlistedAt: Date;
+}
+
+/**
+ * The waitlisted submission to accept next: best review result for the
+ * event's review mode, then longest on the waitlist. Null when empty.
+ */
+export function pickWaitlistPromotion(candidates: WaitlistCandidate[]): string | null {
+  const [first] = [...candidates].sort(
+    (a, b) =>
+      compareAggregates(a.aggregate, b.aggregate) ||
+      a.waitlistedAt.getTime() - b.waitlistedAt.getTime()
+  );
+  return first?.id ?? null;
+}
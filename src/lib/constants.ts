@@ -280,6 +280,12 @@ export const reviewTypeOptions = [
   { value: 'ranking', label: 'Ranking', description: 'Rank submissions in order of preference' },
 ];
 
+export const reviewAnonymityOptions = [
+  { value: 'OPEN', label: 'Open', description: 'Reviewers see speakers and each other' },
+  { value: 'SPEAKER_HIDDEN', label: 'Blind', description: 'Speaker identities are hidden from reviewers' },
+  { value: 'DOUBLE_BLIND', label: 'Double-blind', description: 'Reviewers also cannot see each other\'s names' },
+];
+
 // =============================================================================
 // DEFAULT VALUES
 // =============================================================================
@@ -372,3 +378,4 @@ export type Country = (typeof countries)[number];
 export type EventType = (typeof eventTypeOptions)[number]['value'];
 export type AudienceLevel = (typeof audienceLevelOptions)[number]['value'];
 export type ReviewType = (typeof reviewTypeOptions)[number]['value'];
+export type ReviewAnonymity = (typeof reviewAnonymityOptions)[number]['value'];
@@ -13,6 +13,13 @@ import type { Transporter } from 'nodemailer';
 import { prisma } from '@/lib/db/prisma';
 import { decryptString, isEncrypted } from '@/lib/security/encryption';
 import type { EmailTemplateType, SmtpConfig, EmailSendResult } from '@/types/email-templates';
+import {
+  enqueueEmail,
+  sendQueuedEmail,
+  processEmailQueue,
+  type EmailQueueSummary,
+  type OutboundEmailMessage,
+} from './queue';
 
 // ============================================================================
 // Types
@@ -24,6 +31,10 @@ export interface EmailOptions {
   html: string;
   text?: string;
   replyTo?: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+  /** Template the message was rendered from, for the delivery log */
+  templateType?: EmailTemplateType;
 }
 
 export interface SendTemplatedEmailOptions {
@@ -31,6 +42,12 @@ export interface SendTemplatedEmailOptions {
   templateType: EmailTemplateType;
   variables: Record<string, string>;
   replyTo?: string;
+  headers?: Record<string, string>;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
 }
 
 // ============================================================================
@@ -225,6 +242,39 @@ class EmailService {
     });
   }
 
+  /**
+   * Render a database template with its variables and the site layout,
+   * without sending it. Returns null when the template is missing or disabled.
+   */
+  async renderTemplatedEmail(
+    templateType: EmailTemplateType,
+    variables: Record<string, string>
+  ): Promise<RenderedEmail | null> {
+    const template = await this.getTemplate(templateType);
+    if (!template) {
+      return null;
+    }
+
+    // Add site info to variables
+    const settings = await prisma.siteSettings.findUnique({
+      where: { id: 'default' },
+      select: { name: true, websiteUrl: true },
+    });
+    
+    const enrichedVariables = {
+      ...variables,
+      siteName: settings?.name || 'CFP System',
+      siteUrl: settings?.websiteUrl || '',
+    };
+
+    // Process template
+    const subject = this.replaceVariables(template.subject, enrichedVariables);
+    const content = this.replaceVariables(template.content, enrichedVariables);
+    const html = this.wrapInLayout(content, enrichedVariables);
+
+    return { subject, html };
+  }
+
   /**
    * Send an email using a database template
    */
@@ -240,8 +290,8 @@ class EmailService {
     }
 
     // Get template
-    const template = await this.getTemplate(options.templateType);
-    if (!template) {
+    const rendered = await this.renderTemplatedEmail(options.templateType, options.variables);
+    if (!rendered) {
       console.warn(`[Email] Template "${options.templateType}" not found or disabled`);
       return {
         success: false,
@@ -249,41 +299,89 @@ class EmailService {
       };
     }
 
-    // Add site info to variables
-    const settings = await prisma.siteSettings.findUnique({
-      where: { id: 'default' },
-      select: { name: true, websiteUrl: true },
-    });
-    
-    const enrichedVariables = {
-      ...options.variables,
-      siteName: settings?.name || 'CFP System',
-      siteUrl: settings?.websiteUrl || '',
-    };
-
-    // Process template
-    const subject = this.replaceVariables(template.subject, enrichedVariables);
-    const content = this.replaceVariables(template.content, enrichedVariables);
-    const html = this.wrapInLayout(content, enrichedVariables);
-
     // Send email
     return this.send({
       to: options.to,
-      subject,
-      html,
+      subject: rendered.subject,
+      html: rendered.html,
       replyTo: options.replyTo,
+      headers: options.headers,
+      templateType: options.templateType,
     });
   }
 
   /**
    * Send a raw email (for custom use cases)
+   *
+   * The message is queued (one row per recipient) and delivered straight
+   * away. Failed or rate-limited deliveries stay queued and are retried by
+   * the email-queue cron job; `queued` is set on the result when that
+   * happens.
    */
   async send(options: EmailOptions): Promise<EmailSendResult> {
+    const smtpConfig = await this.getSmtpConfig();
+    if (!smtpConfig) {
+      console.warn('Email service not ready, skipping email send');
+      return {
+        success: false,
+        error: 'Email service not configured',
+      };
+    }
+
+    const queued = await enqueueEmail(options);
+    if (queued.length === 0) {
+      return { success: false, error: 'No recipients' };
+    }
+
+    const results: EmailSendResult[] = [];
+    for (const email of queued) {
+      // Null when the cron job picked the message up first
+      results.push(
+        await sendQueuedEmail(email.id, message => this.deliver(message)) ??
+          { success: false, queued: true, error: 'Queued for delivery' }
+      );
+    }
+
+    const failures = results.filter(result => !result.success);
+    if (failures.length === 0) {
+      return { success: true, messageId: results[0].messageId };
+    }
+    return {
+      success: false,
+      error: failures[0].error,
+      queued: failures.every(result => result.queued),
+    };
+  }
+
+  /**
+   * Deliver queued messages that are due, for the email-queue cron job.
+   * Null when SMTP is not configured, so retries are not used up.
+   */
+  async processQueue(): Promise<EmailQueueSummary | null> {
+    if (!(await this.getSmtpConfig())) {
+      return null;
+    }
+    return processEmailQueue(message => this.deliver(message));
+  }
+
+  /**
+   * Deliver one queued message now, e.g. after an admin resends it
+   */
+  async sendQueued(emailId: string): Promise<EmailSendResult | null> {
+    if (!(await this.getSmtpConfig())) {
+      return null;
+    }
+    return sendQueuedEmail(emailId, message => this.deliver(message));
+  }
+
+  /**
+   * Hand a single message to the SMTP server
+   */
+  private async deliver(message: OutboundEmailMessage): Promise<EmailSendResult> {
     const transporter = await this.getTransporter();
     const smtpConfig = await this.getSmtpConfig();
 
     if (!transporter || !smtpConfig) {
-      console.warn('Email service not ready, skipping email send');
       return {
         success: false,
         error: 'Email service not configured',
@@ -291,14 +389,15 @@ class EmailService {
     }
 
     try {
-      console.log(`[Email] Sending to: ${Array.isArray(options.to) ? options.to.join(', ') : options.to}, subject: ${options.subject}`);
+      console.log(`[Email] Sending to: ${message.to}, subject: ${message.subject}`);
       const result = await transporter.sendMail({
         from: `"${smtpConfig.fromName}" <${smtpConfig.fromEmail}>`,
-        to: Array.isArray(options.to) ? options.to.join(', ') : options.to,
-        subject: options.subject,
-        html: options.html,
-        text: options.text || this.stripHtml(options.html),
-        replyTo: options.replyTo,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text || this.stripHtml(message.html),
+        replyTo: message.replyTo,
+        headers: message.headers,
       });
 
       console.log(`[Email] Sent successfully, messageId: ${result.messageId}`);
@@ -365,7 +464,8 @@ class EmailService {
       </div>
     `, { siteName, siteUrl: '' });
 
-    return this.send({
+    // Sent directly so the result reflects the SMTP settings being tested
+    return this.deliver({
       to: toEmail,
       subject: `Test Email from ${siteName}`,
       html,
@@ -394,11 +494,19 @@ class EmailService {
   }
 
   /**
-   * Wrap content in email layout
+   * Wrap content in email layout. Notification emails pass their
+   * unsubscribe and settings links for the footer.
    */
-  private wrapInLayout(content: string, variables: { siteName: string; siteUrl: string }): string {
-    const { siteName, siteUrl } = variables;
+  private wrapInLayout(
+    content: string,
+    variables: { siteName: string; siteUrl: string; unsubscribeUrl?: string; preferencesUrl?: string }
+  ): string {
+    const { siteName, siteUrl, unsubscribeUrl, preferencesUrl } = variables;
     const year = new Date().getFullYear();
+    const notificationLinks = [
+      preferencesUrl && `<a href="${this.escapeHtml(preferencesUrl)}">Notification settings</a>`,
+      unsubscribeUrl && `<a href="${this.escapeHtml(unsubscribeUrl)}">Unsubscribe</a>`,
+    ].filter(Boolean).join(' &middot; ');
 
     return `
 <!DOCTYPE html>
@@ -526,6 +634,7 @@ class EmailService {
     <div class="footer">
       <p>&copy; ${year} ${siteName}. All rights reserved.</p>
       ${siteUrl ? `<p><a href="${siteUrl}">Visit ${siteName}</a></p>` : ''}
+      ${notificationLinks ? `<p>${notificationLinks}</p>` : ''}
     </div>
   </div>
 </body>
@@ -619,6 +728,42 @@ function escapeAndFormatFeedback(text: string): string {
     .replace(/\n/g, '<br>');
 }
 
+export type SubmissionStatusEmail = 'accepted' | 'rejected' | 'waitlisted' | 'under_review';
+
+/** Template for each submission decision email */
+export const SUBMISSION_STATUS_TEMPLATES = {
+  accepted: 'submission_accepted',
+  rejected: 'submission_rejected',
+  waitlisted: 'submission_waitlisted',
+  under_review: 'submission_under_review',
+} as const satisfies Record<SubmissionStatusEmail, EmailTemplateType>;
+
+/**
+ * Template variables for a submission decision email
+ * 
+ * SECURITY: Feedback content is HTML-escaped because templates insert it
+ * with {feedbackSection:raw}.
+ */
+export function buildSubmissionStatusVariables(
+  userName: string,
+  eventName: string,
+  submissionTitle: string,
+  submissionUrl: string,
+  feedback?: string
+): Record<string, string> {
+  const feedbackSection = feedback
+    ? `<h2>Feedback</h2><p>${escapeAndFormatFeedback(feedback)}</p>`
+    : '';
+
+  return {
+    userName,
+    eventName,
+    submissionTitle,
+    submissionUrl,
+    feedbackSection,
+  };
+}
+
 /**
  * Send submission status update email
  * 
@@ -631,37 +776,77 @@ export async function sendSubmissionStatusEmail(
   eventName: string,
   submissionTitle: string,
   submissionUrl: string,
-  status: 'accepted' | 'rejected' | 'waitlisted' | 'under_review',
+  status: SubmissionStatusEmail,
   feedback?: string
 ): Promise<EmailSendResult> {
-  const templateTypeMap = {
-    accepted: 'submission_accepted',
-    rejected: 'submission_rejected',
-    waitlisted: 'submission_waitlisted',
-    under_review: 'submission_under_review',
-  } as const;
-
-  // SECURITY: Escape feedback content to prevent HTML injection
-  // Use :raw in template since we've pre-sanitized the content
-  const feedbackSection = feedback
-    ? `<h2>Feedback</h2><p>${escapeAndFormatFeedback(feedback)}</p>`
-    : '';
+  return emailService.sendTemplatedEmail({
+    to: userEmail,
+    templateType: SUBMISSION_STATUS_TEMPLATES[status],
+    variables: buildSubmissionStatusVariables(
+      userName,
+      eventName,
+      submissionTitle,
+      submissionUrl,
+      feedback
+    ),
+  });
+}
 
+/**
+ * Send the confirm/decline request to an accepted speaker
+ */
+export async function sendSpeakerConfirmationEmail(
+  userEmail: string,
+  userName: string,
+  eventName: string,
+  submissionTitle: string,
+  confirmUrl: string,
+  deadline: string
+): Promise<EmailSendResult> {
   return emailService.sendTemplatedEmail({
     to: userEmail,
-    templateType: templateTypeMap[status],
+    templateType: 'speaker_confirmation',
     variables: {
       userName,
       eventName,
       submissionTitle,
-      submissionUrl,
-      feedbackSection,
+      confirmUrl,
+      deadline,
+    },
+  });
+}
+
+/**
+ * Send the accept/decline invitation to a co-speaker
+ */
+export async function sendCoSpeakerInvitationEmail(
+  coSpeakerEmail: string,
+  coSpeakerName: string,
+  inviterName: string,
+  eventName: string,
+  submissionTitle: string,
+  invitationUrl: string,
+  expiresAt: string
+): Promise<EmailSendResult> {
+  return emailService.sendTemplatedEmail({
+    to: coSpeakerEmail,
+    templateType: 'co_speaker_invitation',
+    variables: {
+      userName: coSpeakerName,
+      inviterName,
+      eventName,
+      submissionTitle,
+      invitationUrl,
+      expiresAt,
     },
   });
 }
 
 /**
  * Send new message notification email
+ *
+ * `replyTo` is the signed inbound address for the thread, when inbound
+ * email replies are enabled.
  */
 export async function sendNewMessageEmail(
   recipientEmail: string,
@@ -670,11 +855,13 @@ export async function sendNewMessageEmail(
   eventName: string,
   submissionTitle: string,
   messagePreview: string,
-  messageUrl: string
+  messageUrl: string,
+  replyTo?: string
 ): Promise<EmailSendResult> {
   return emailService.sendTemplatedEmail({
     to: recipientEmail,
     templateType: 'new_message',
+    replyTo,
     variables: {
       userName: recipientName,
       senderName,
@@ -1,18 +1,45 @@
 /**
  * Email Module Index
  * 
- * Re-exports email service and helper functions.
+ * Re-exports email service, helper functions and the outbound queue.
  */
 
 export { 
   emailService, 
   type EmailOptions, 
+  type RenderedEmail,
+  type SubmissionStatusEmail,
+  SUBMISSION_STATUS_TEMPLATES,
+  buildSubmissionStatusVariables,
   sendWelcomeEmail,
   sendPasswordResetEmail,
   sendSubmissionConfirmationEmail,
   sendSubmissionStatusEmail,
+  sendSpeakerConfirmationEmail,
   sendNewMessageEmail,
   sendReviewInvitationEmail,
 } from './email-service';
 
+export {
+  OUTBOUND_EMAIL_STATUS_LABELS,
+  MAX_EMAIL_ATTEMPTS,
+  EMAIL_RATE_LIMIT_PER_RECIPIENT,
+  EMAIL_LOG_RETENTION_DAYS,
+  getNextEmailAttemptAt,
+  getRecipientRateLimitedUntil,
+  normalizeEmailRecipients,
+  canResendEmail,
+  canCancelEmail,
+} from './queue-state';
+
+export {
+  type OutboundEmailListItem,
+  type OutboundEmailFilters,
+  type EmailQueueSummary,
+  listOutboundEmails,
+  resendEmail,
+  cancelEmail,
+  purgeEmailLog,
+} from './queue';
+
 export type { EmailSendResult } from '@/types/email-templates';
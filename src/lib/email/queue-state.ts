@@ -0,0 +1,109 @@
+/**
+ * Outbound Email Queue State
+ *
+ * Labels, retry backoff and per-recipient rate limits for queued email.
+ * Pure functions only - safe to import from client components.
+ */
+
+import type { OutboundEmailStatus } from '@prisma/client';
+
+export const OUTBOUND_EMAIL_STATUS_LABELS: Record<OutboundEmailStatus, string> = {
+  QUEUED: 'Queued',
+  SENDING: 'Sending',
+  SENT: 'Sent',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+};
+
+/** Delivery attempts before a message is marked failed */
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+/** Wait after each failed attempt before the next one */
+export const EMAIL_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+] as const;
+
+/** Messages delivered to one recipient per window; the rest wait */
+export const EMAIL_RATE_LIMIT_PER_RECIPIENT = 20;
+export const EMAIL_RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/** Sending messages not updated for this long are queued again */
+export const STALE_SENDING_EMAIL_MS = 10 * 60 * 1000;
+
+/** Messages delivered per cron run */
+export const EMAIL_QUEUE_BATCH_SIZE = 50;
+
+/** Sent, failed and cancelled messages are deleted after this many days */
+export const EMAIL_LOG_RETENTION_DAYS = 90;
+
+/**
+ * When to try again after `attempts` failed attempts. Null once the last
+ * attempt has been used up.
+ */
+export function getNextEmailAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_EMAIL_ATTEMPTS) {
+    return null;
+  }
+  const index = Math.min(Math.max(attempts, 1), EMAIL_RETRY_DELAYS_MS.length) - 1;
+  return new Date(now.getTime() + EMAIL_RETRY_DELAYS_MS[index]);
+}
+
+/**
+ * When a recipient can receive mail again, given the times of messages
+ * delivered to them. Null when they are under the limit.
+ */
+export function getRecipientRateLimitedUntil(
+  sentAt: Date[],
+  now: Date = new Date()
+): Date | null {
+  const windowStart = now.getTime() - EMAIL_RATE_LIMIT_WINDOW_MS;
+  const recent = sentAt
+    .map(date => date.getTime())
+    .filter(time => time > windowStart)
+    .sort((a, b) => a - b);
+
+  if (recent.length < EMAIL_RATE_LIMIT_PER_RECIPIENT) {
+    return null;
+  }
+  // The window frees up once enough of the oldest sends fall out of it
+  const oldest = recent[recent.length - EMAIL_RATE_LIMIT_PER_RECIPIENT];
+  return new Date(oldest + EMAIL_RATE_LIMIT_WINDOW_MS);
+}
+
+/**
+ * Split, trim and de-duplicate recipients (case-insensitively), keeping
+ * the first spelling of each address
+ */
+export function normalizeEmailRecipients(to: string | string[]): string[] {
+  const seen = new Set<string>();
+  const recipients: string[] = [];
+  for (const entry of Array.isArray(to) ? to : [to]) {
+    for (const address of entry.split(',')) {
+      const trimmed = address.trim();
+      const key = trimmed.toLowerCase();
+      if (trimmed && !seen.has(key)) {
+        seen.add(key);
+        recipients.push(trimmed);
+      }
+    }
+  }
+  return recipients;
+}
+
+/**
+ * Delivered, failed and cancelled messages can be sent again; sent ones
+ * are copied so the log keeps the original
+ */
+export function canResendEmail(status: OutboundEmailStatus): boolean {
+  return status === 'SENT' || status === 'FAILED' || status === 'CANCELLED';
+}
+
+/**
+ * Only messages still waiting in the queue can be cancelled
+ */
+export function canCancelEmail(status: OutboundEmailStatus): boolean {
+  return status === 'QUEUED';
+}
@@ -0,0 +1,437 @@
+/**
+ * Outbound Email Queue
+ *
+ * Every email is stored before it is sent, one row per recipient, so an
+ * SMTP hiccup delays mail instead of dropping it. Sends are attempted
+ * straight away; failures are retried with backoff by the email-queue
+ * cron job until the last attempt, when the `email.failed` hook fires.
+ * The rows double as the delivery log admins search, resend and cancel from.
+ *
+ * Delivery goes through a transport passed in by the email service, which
+ * keeps this module free of SMTP details.
+ */
+
+import type { OutboundEmail, OutboundEmailStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { encryptString, decryptString } from '@/lib/security/encryption';
+import type { EmailSendResult } from '@/types/email-templates';
+import {
+  EMAIL_QUEUE_BATCH_SIZE,
+  EMAIL_RATE_LIMIT_PER_RECIPIENT,
+  EMAIL_RATE_LIMIT_WINDOW_MS,
+  EMAIL_LOG_RETENTION_DAYS,
+  STALE_SENDING_EMAIL_MS,
+  canCancelEmail,
+  canResendEmail,
+  getNextEmailAttemptAt,
+  getRecipientRateLimitedUntil,
+  normalizeEmailRecipients,
+} from './queue-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EnqueueEmailInput {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+  /** Template the message was rendered from, for the delivery log */
+  templateType?: string;
+}
+
+/** A single decrypted message handed to the transport */
+export interface OutboundEmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+}
+
+export type EmailTransport = (message: OutboundEmailMessage) => Promise<EmailSendResult>;
+
+/** A delivery log row without the message body */
+export type OutboundEmailListItem = Omit<OutboundEmail, 'html' | 'text'>;
+
+export interface OutboundEmailFilters {
+  search?: string;
+  status?: OutboundEmailStatus;
+  templateType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EmailQueueSummary {
+  requeued: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+type EmailResult =
+  | { error: string; email?: never }
+  | { error: null; email: OutboundEmailListItem };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const withoutBody = { html: true, text: true } as const;
+
+function hookTemplate(email: OutboundEmail): string {
+  return email.templateType ?? 'custom';
+}
+
+/**
+ * Plugins load the email capability, which loads the email service, which
+ * loads this module - import the dispatcher lazily to avoid the cycle
+ */
+async function dispatchEmailHook(
+  hookName: 'email.sent' | 'email.failed',
+  email: OutboundEmail,
+  outcome: { success: boolean; error?: string; attempts: number }
+): Promise<void> {
+  const { dispatchHookAsync } = await import('@/lib/plugins');
+  if (hookName === 'email.failed') {
+    dispatchHookAsync('email.failed', {
+      template: hookTemplate(email),
+      recipient: { email: email.recipient },
+      subject: email.subject,
+      attempts: outcome.attempts,
+      error: outcome.error ?? 'Unknown error',
+    });
+  } else {
+    dispatchHookAsync('email.sent', {
+      template: hookTemplate(email),
+      recipient: { email: email.recipient },
+      subject: email.subject,
+      success: outcome.success,
+      error: outcome.error,
+    });
+  }
+}
+
+/**
+ * When a recipient can receive mail again, or null if they are under
+ * the per-recipient limit
+ */
+async function getRateLimitedUntil(recipient: string, now: Date): Promise<Date | null> {
+  const recent = await prisma.outboundEmail.findMany({
+    where: {
+      recipient: { equals: recipient, mode: 'insensitive' },
+      status: 'SENT',
+      sentAt: { gt: new Date(now.getTime() - EMAIL_RATE_LIMIT_WINDOW_MS) },
+    },
+    orderBy: { sentAt: 'desc' },
+    take: EMAIL_RATE_LIMIT_PER_RECIPIENT,
+    select: { sentAt: true },
+  });
+  return getRecipientRateLimitedUntil(
+    recent.map(email => email.sentAt).filter((date): date is Date => date !== null),
+    now
+  );
+}
+
+/**
+ * Move a queued message to SENDING. False if another worker got it first
+ * or it was cancelled.
+ */
+async function claimEmail(id: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.outboundEmail.updateMany({
+    where: { id, status: 'QUEUED', nextAttemptAt: { lte: now } },
+    data: { status: 'SENDING' },
+  });
+  return count > 0;
+}
+
+/**
+ * Attempt delivery of a claimed message and record the outcome
+ */
+async function deliverClaimedEmail(
+  email: OutboundEmail,
+  transport: EmailTransport,
+  now: Date
+): Promise<EmailSendResult> {
+  const limitedUntil = await getRateLimitedUntil(email.recipient, now);
+  if (limitedUntil) {
+    const error = 'Recipient rate limit reached - delivery deferred';
+    await prisma.outboundEmail.update({
+      where: { id: email.id },
+      data: { status: 'QUEUED', nextAttemptAt: limitedUntil, lastError: error },
+    });
+    return { success: false, queued: true, error };
+  }
+
+  let result: EmailSendResult;
+  try {
+    result = await transport({
+      to: email.recipient,
+      subject: email.subject,
+      html: decryptString(email.html),
+      text: email.text ? decryptString(email.text) : undefined,
+      replyTo: email.replyTo ?? undefined,
+      headers: (email.headers as Record<string, string> | null) ?? undefined,
+    });
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const attempts = email.attempts + 1;
+
+  if (result.success) {
+    await prisma.outboundEmail.update({
+      where: { id: email.id },
+      data: {
+        status: 'SENT',
+        attempts,
+        sentAt: new Date(),
+        messageId: result.messageId ?? null,
+        lastError: null,
+      },
+    });
+    await dispatchEmailHook('email.sent', email, { success: true, attempts });
+    return { success: true, messageId: result.messageId };
+  }
+
+  const error = result.error || 'Unknown error';
+  const nextAttemptAt = getNextEmailAttemptAt(attempts, now);
+  await prisma.outboundEmail.update({
+    where: { id: email.id },
+    data: nextAttemptAt
+      ? { status: 'QUEUED', attempts, nextAttemptAt, lastError: error }
+      : { status: 'FAILED', attempts, lastError: error },
+  });
+  await dispatchEmailHook('email.sent', email, { success: false, error, attempts });
+
+  if (!nextAttemptAt) {
+    console.error(`[Email] Giving up on ${email.id} after ${attempts} attempts: ${error}`);
+    await dispatchEmailHook('email.failed', email, { success: false, error, attempts });
+    return { success: false, error };
+  }
+  return { success: false, queued: true, error };
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Store a message for delivery, one row per recipient
+ */
+export async function enqueueEmail(input: EnqueueEmailInput): Promise<OutboundEmail[]> {
+  const recipients = normalizeEmailRecipients(input.to);
+  const html = encryptString(input.html);
+  const text = input.text ? encryptString(input.text) : null;
+  const now = new Date();
+
+  return prisma.$transaction(
+    recipients.map(recipient =>
+      prisma.outboundEmail.create({
+        data: {
+          templateType: input.templateType ?? null,
+          recipient,
+          subject: input.subject,
+          html,
+          text,
+          replyTo: input.replyTo ?? null,
+          headers: input.headers,
+          nextAttemptAt: now,
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Try to deliver one queued message now. Returns null if it is not due or
+ * was picked up elsewhere.
+ */
+export async function sendQueuedEmail(
+  id: string,
+  transport: EmailTransport,
+  now: Date = new Date()
+): Promise<EmailSendResult | null> {
+  if (!(await claimEmail(id, now))) {
+    return null;
+  }
+  const email = await prisma.outboundEmail.findUniqueOrThrow({ where: { id } });
+  return deliverClaimedEmail(email, transport, now);
+}
+
+/**
+ * Requeue messages left in SENDING by a crashed worker, then deliver the
+ * next batch of due messages
+ */
+export async function processEmailQueue(
+  transport: EmailTransport,
+  now: Date = new Date()
+): Promise<EmailQueueSummary> {
+  const { count: requeued } = await prisma.outboundEmail.updateMany({
+    where: { status: 'SENDING', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_EMAIL_MS) } },
+    data: { status: 'QUEUED', nextAttemptAt: now },
+  });
+
+  const due = await prisma.outboundEmail.findMany({
+    where: { status: 'QUEUED', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: EMAIL_QUEUE_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  const summary: EmailQueueSummary = { requeued, sent: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const result = await sendQueuedEmail(id, transport, now);
+    if (!result) continue;
+    if (result.success) summary.sent++;
+    else if (result.queued) summary.retrying++;
+    else summary.failed++;
+  }
+  return summary;
+}
+
+/**
+ * Delete delivered, failed and cancelled messages past the retention
+ * period. Returns the number deleted.
+ */
+export async function purgeEmailLog(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.outboundEmail.deleteMany({
+    where: {
+      status: { in: ['SENT', 'FAILED', 'CANCELLED'] },
+      createdAt: { lt: new Date(now.getTime() - EMAIL_LOG_RETENTION_DAYS * 86400000) },
+    },
+  });
+  return count;
+}
+
+// ============================================================================
+// Delivery Log
+// ============================================================================
+
+/**
+ * Search the delivery log, newest first
+ */
+export async function listOutboundEmails(
+  filters: OutboundEmailFilters = {}
+): Promise<{ emails: OutboundEmailListItem[]; total: number }> {
+  const where: Prisma.OutboundEmailWhereInput = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.templateType) where.templateType = filters.templateType;
+  if (filters.search) {
+    where.OR = [
+      { recipient: { contains: filters.search, mode: 'insensitive' } },
+      { subject: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const [emails, total] = await Promise.all([
+    prisma.outboundEmail.findMany({
+      where,
+      omit: withoutBody,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.outboundEmail.count({ where }),
+  ]);
+
+  return { emails, total };
+}
+
+/**
+ * Queue a message again. Failed and cancelled messages are requeued with
+ * fresh attempts; sent ones are copied so the log keeps the original.
+ */
+export async function resendEmail(
+  id: string,
+  admin: { id: string },
+  ipAddress?: string
+): Promise<EmailResult> {
+  const existing = await prisma.outboundEmail.findUnique({ where: { id } });
+  if (!existing) {
+    return { error: 'Email not found' };
+  }
+  if (!canResendEmail(existing.status)) {
+    return { error: 'Only sent, failed or cancelled emails can be resent' };
+  }
+
+  let email: OutboundEmailListItem;
+  if (existing.status === 'SENT') {
+    email = await prisma.outboundEmail.create({
+      data: {
+        templateType: existing.templateType,
+        recipient: existing.recipient,
+        subject: existing.subject,
+        html: existing.html,
+        text: existing.text,
+        replyTo: existing.replyTo,
+        headers: (existing.headers as Prisma.InputJsonObject | null) ?? undefined,
+        nextAttemptAt: new Date(),
+      },
+      omit: withoutBody,
+    });
+  } else {
+    const { count } = await prisma.outboundEmail.updateMany({
+      where: { id, status: existing.status },
+      data: { status: 'QUEUED', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    if (count === 0) {
+      return { error: 'This email changed in the meantime - reload and try again' };
+    }
+    email = await prisma.outboundEmail.findUniqueOrThrow({ where: { id }, omit: withoutBody });
+  }
+
+  await logActivity({
+    userId: admin.id,
+    action: 'EMAIL_RESENT',
+    entityType: 'Email',
+    entityId: email.id,
+    metadata: { recipient: email.recipient, originalId: existing.id, templateType: existing.templateType },
+    ipAddress,
+  });
+
+  return { error: null, email };
+}
+
+/**
+ * Cancel a message still waiting in the queue
+ */
+export async function cancelEmail(
+  id: string,
+  admin: { id: string },
+  ipAddress?: string
+): Promise<EmailResult> {
+  const existing = await prisma.outboundEmail.findUnique({ where: { id }, omit: withoutBody });
+  if (!existing) {
+    return { error: 'Email not found' };
+  }
+  if (!canCancelEmail(existing.status)) {
+    return { error: 'Only queued emails can be cancelled' };
+  }
+
+  // Guard against the queue claiming the message in between
+  const { count } = await prisma.outboundEmail.updateMany({
+    where: { id, status: 'QUEUED' },
+    data: { status: 'CANCELLED' },
+  });
+  if (count === 0) {
+    return { error: 'This email is already being sent' };
+  }
+
+  await logActivity({
+    userId: admin.id,
+    action: 'EMAIL_CANCELLED',
+    entityType: 'Email',
+    entityId: id,
+    metadata: { recipient: existing.recipient, templateType: existing.templateType },
+    ipAddress,
+  });
+
+  return { error: null, email: { ...existing, status: 'CANCELLED' } };
+}
@@ -31,7 +31,10 @@ const buildEnvSchema = z.object({
   CFP_DIRECTORY_API_URL: z.string().default('https://cfp.directory/api/federation/v1'),
   ENCRYPT_PII_AT_REST: z.enum(['true', 'false']).optional(),
   CRON_SECRET: z.string().optional(),
+  INBOUND_EMAIL_DOMAIN: z.string().optional(),
+  INBOUND_EMAIL_SECRET: z.string().optional(),
   JOB_WORKER_INTERVAL_SECONDS: z.string().optional(),
+  GEOIP_DATABASE_PATH: z.string().optional(),
   ALLOW_PUBLIC_SIGNUP: z.enum(['true', 'false']).optional().default('false'),
   SETUP_TOKEN: z.string().optional(),
   TRUST_PROXY_HEADERS: z.enum(['true', 'false']).optional().default('false'),
@@ -75,8 +78,15 @@ const runtimeEnvSchema = z.object({
   ENCRYPT_PII_AT_REST: z.enum(['true', 'false']).optional(), // Defaults to 'true' in production
   CRON_SECRET: z.string().optional(), // Secret for authenticating cron job requests (optional with internal worker)
 
+  // Inbound email replies (optional)
+  INBOUND_EMAIL_DOMAIN: z.string().optional(), // Domain of reply-to addresses, e.g. reply.example.com
+  INBOUND_EMAIL_SECRET: z.string().optional(), // Secret the mail pipe or poller sends to /api/inbound-email
+
   // Background Jobs
   JOB_WORKER_INTERVAL_SECONDS: z.string().optional(), // Internal job worker polling interval (default: 30)
+
+  // Session locations (optional)
+  GEOIP_DATABASE_PATH: z.string().optional(), // MaxMind-format .mmdb file (GeoLite2 City or Country)
   
   // Registration/Setup Security
   ALLOW_PUBLIC_SIGNUP: z.enum(['true', 'false']).optional().default('false'), // Default: require invitations
@@ -155,6 +165,18 @@ export const config = {
   
   // Cron
   cronSecret: env.CRON_SECRET,
+
+  // Inbound email replies
+  inboundEmail: {
+    enabled: Boolean(env.INBOUND_EMAIL_DOMAIN),
+    domain: env.INBOUND_EMAIL_DOMAIN?.trim().toLowerCase(),
+    secret: env.INBOUND_EMAIL_SECRET,
+  },
+  
+  // Session locations
+  geoip: {
+    databasePath: env.GEOIP_DATABASE_PATH || undefined,
+  },
   
   // Registration/Setup
   allowPublicSignup: env.ALLOW_PUBLIC_SIGNUP === 'true',
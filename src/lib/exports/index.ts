@@ -0,0 +1,32 @@
+/**
+ * Exports Module Index
+ *
+ * Re-exports the spreadsheet writers and the submission export.
+ */
+
+export {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  type ExportFormat,
+  type CellValue,
+  type SpreadsheetColumn,
+  neutralizeFormula,
+  columnLetter,
+  buildCsv,
+  buildXlsx,
+} from './spreadsheet';
+
+export {
+  type SpeakerExportAccess,
+  type ExportedSpeaker,
+  type ExportedCoSpeaker,
+  type ExportedFieldAnswer,
+  type SubmissionExportRecord,
+  type SubmissionExportColumnKey,
+  type SubmissionFieldColumnKey,
+  type SubmissionExportRow,
+  getSubmissionExportColumns,
+  flattenSubmissionRecord,
+} from './submission-columns';
+
+export { loadSubmissionExport } from './submissions';
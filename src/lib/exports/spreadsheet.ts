@@ -0,0 +1,188 @@
+/**
+ * Spreadsheet Writers
+ *
+ * Serializes tabular data as CSV (RFC 4180) or as a single-sheet XLSX
+ * workbook. Text cells that a spreadsheet would evaluate as a formula are
+ * neutralized to prevent CSV/formula injection.
+ */
+
+import AdmZip from 'adm-zip';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+export type CellValue = string | number | null;
+
+export interface SpreadsheetColumn<K extends string = string> {
+  key: K;
+  header: string;
+}
+
+/** Excel's limit for text in a single cell */
+const MAX_CELL_LENGTH = 32767;
+
+// ============================================================================
+// Cell Helpers
+// ============================================================================
+
+/**
+ * Prefix text that starts like a formula (=, +, -, @, tab, CR) with an
+ * apostrophe so spreadsheets show it as text
+ */
+export function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function cellText(value: CellValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return neutralizeFormula(value).slice(0, MAX_CELL_LENGTH);
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV with a header row and CRLF line endings. Starts with a byte order
+ * mark so Excel opens UTF-8 correctly.
+ */
+export function buildCsv<K extends string>(
+  columns: SpreadsheetColumn<K>[],
+  rows: Array<Record<K, CellValue>>
+): string {
+  const lines = [
+    columns.map(column => escapeCsvField(column.header)).join(','),
+    ...rows.map(row =>
+      columns.map(column => escapeCsvField(cellText(row[column.key]))).join(',')
+    ),
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/** Column letters for a zero-based index: 0 -> A, 26 -> AA */
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xlsxCell(ref: string, value: CellValue, style?: number): string {
+  const s = style !== undefined ? ` s="${style}"` : '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  }
+  const text = cellText(value);
+  if (!text) return '';
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/**
+ * Single-sheet workbook with a bold, frozen header row
+ */
+export function buildXlsx<K extends string>(
+  columns: SpreadsheetColumn<K>[],
+  rows: Array<Record<K, CellValue>>,
+  sheetName = 'Sheet1'
+): Buffer {
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+  const lastColumn = columnLetter(Math.max(columns.length - 1, 0));
+
+  const headerRow = `<row r="1">${columns
+    .map((column, index) => xlsxCell(`${columnLetter(index)}1`, column.header, 1))
+    .join('')}</row>`;
+  const dataRows = rows.map((row, rowIndex) => {
+    const r = rowIndex + 2;
+    const cells = columns
+      .map((column, index) => xlsxCell(`${columnLetter(index)}${r}`, row[column.key]))
+      .join('');
+    return `<row r="${r}">${cells}</row>`;
+  });
+
+  const sheet = [
+    XML_HEADER,
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<dimension ref="A1:${lastColumn}${rows.length + 1}"/>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<sheetData>${headerRow}${dataRows.join('')}</sheetData>`,
+    '</worksheet>',
+  ].join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': [
+      XML_HEADER,
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>',
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+      '</Types>',
+    ].join(''),
+    '_rels/.rels': [
+      XML_HEADER,
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+      '</Relationships>',
+    ].join(''),
+    'xl/workbook.xml': [
+      XML_HEADER,
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+      `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>`,
+      '</workbook>',
+    ].join(''),
+    'xl/_rels/workbook.xml.rels': [
+      XML_HEADER,
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>',
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+      '</Relationships>',
+    ].join(''),
+    'xl/styles.xml': [
+      XML_HEADER,
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>',
+      '</styleSheet>',
+    ].join(''),
+    'xl/worksheets/sheet1.xml': sheet,
+  };
+
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.from(content, 'utf8'));
+  }
+  return zip.toBuffer();
+}
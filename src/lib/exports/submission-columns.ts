@@ -0,0 +1,275 @@
+/**
+ * Submission Export Columns
+ *
+ * The shape of an exported submission and how it flattens into
+ * spreadsheet columns. Which speaker columns appear depends on what the
+ * exporting user may see; each of the event's own submission questions
+ * gets a column of its own.
+ */
+
+import type { CellValue, SpreadsheetColumn } from './spreadsheet';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How much speaker data an export carries:
+ * - full: organizers - names, contact details and profile
+ * - names: reviewers - names, company and position, as on the submissions page
+ * - none: reviewers of blind events - no speaker data
+ */
+export type SpeakerExportAccess = 'full' | 'names' | 'none';
+
+export interface ExportedSpeaker {
+  name: string | null;
+  company: string | null;
+  position: string | null;
+  email?: string | null;
+  location?: string | null;
+  bio?: string | null;
+  websiteUrl?: string | null;
+  linkedinUrl?: string | null;
+  twitterHandle?: string | null;
+  githubUsername?: string | null;
+  expertiseTags?: string[];
+  experienceLevel?: string | null;
+}
+
+export interface ExportedCoSpeaker {
+  name: string | null;
+  email?: string | null;
+}
+
+export interface ExportedFieldAnswer {
+  fieldId: string;
+  label: string;
+  /** The answer as plain text; empty when unanswered */
+  value: string;
+}
+
+export interface SubmissionExportRecord {
+  id: string;
+  title: string;
+  status: string;
+  track: string | null;
+  format: string | null;
+  submittedAt: string;
+  updatedAt: string;
+  abstract: string;
+  outline: string | null;
+  targetAudience: string | null;
+  prerequisites: string | null;
+  /** Answers to the event's own questions, in form order */
+  customFields: ExportedFieldAnswer[];
+  speaker?: ExportedSpeaker;
+  coSpeakers?: ExportedCoSpeaker[];
+  reviews: {
+    count: number;
+    /** Average overall (or weighted) score, scoring events only */
+    averageScore: number | null;
+    /** Headline result for the event's review mode, e.g. "4.2", "75%", "#1.5" */
+    result: string;
+    detail: string;
+    recommendations: Record<string, number>;
+    /** Score calibration, when the export asked for normalized scores */
+    calibration?: {
+      normalizedScore: number | null;
+      spread: number | null;
+      highDisagreement: boolean;
+    };
+  };
+  materials: Array<{ type: string; title: string; url: string | null }>;
+}
+
+export type SubmissionExportColumnKey =
+  | 'id'
+  | 'title'
+  | 'status'
+  | 'track'
+  | 'format'
+  | 'submittedAt'
+  | 'speakerName'
+  | 'speakerEmail'
+  | 'speakerCompany'
+  | 'speakerPosition'
+  | 'speakerLocation'
+  | 'speakerBio'
+  | 'speakerWebsite'
+  | 'speakerLinkedin'
+  | 'speakerTwitter'
+  | 'speakerGithub'
+  | 'speakerExpertise'
+  | 'speakerExperience'
+  | 'coSpeakers'
+  | 'reviewCount'
+  | 'averageScore'
+  | 'reviewResult'
+  | 'reviewDetail'
+  | 'recommendations'
+  | 'normalizedScore'
+  | 'scoreSpread'
+  | 'highDisagreement'
+  | 'materials'
+  | 'abstract'
+  | 'outline'
+  | 'targetAudience'
+  | 'prerequisites';
+
+/** Column of one of the event's own submission questions */
+export type SubmissionFieldColumnKey = `field:${string}`;
+
+export type SubmissionExportRow =
+  Record<SubmissionExportColumnKey, CellValue> & Record<SubmissionFieldColumnKey, CellValue>;
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+const SUBMISSION_COLUMNS: SpreadsheetColumn<SubmissionExportColumnKey>[] = [
+  { key: 'id', header: 'ID' },
+  { key: 'title', header: 'Title' },
+  { key: 'status', header: 'Status' },
+  { key: 'track', header: 'Track' },
+  { key: 'format', header: 'Format' },
+  { key: 'submittedAt', header: 'Submitted At' },
+];
+
+const NAME_COLUMNS: SpreadsheetColumn<SubmissionExportColumnKey>[] = [
+  { key: 'speakerName', header: 'Speaker' },
+  { key: 'speakerCompany', header: 'Company' },
+  { key: 'speakerPosition', header: 'Position' },
+];
+
+const CONTACT_COLUMNS: SpreadsheetColumn<SubmissionExportColumnKey>[] = [
+  { key: 'speakerEmail', header: 'Speaker Email' },
+  { key: 'speakerLocation', header: 'Location' },
+  { key: 'speakerBio', header: 'Bio' },
+  { key: 'speakerWebsite', header: 'Website' },
+  { key: 'speakerLinkedin', header: 'LinkedIn' },
+  { key: 'speakerTwitter', header: 'Twitter' },
+  { key: 'speakerGithub', header: 'GitHub' },
+  { key: 'speakerExpertise', header: 'Expertise' },
+  { key: 'speakerExperience', header: 'Experience Level' },
+];
+
+const REVIEW_COLUMNS: SpreadsheetColumn<SubmissionExportColumnKey>[] = [
+  { key: 'reviewCount', header: 'Reviews' },
+  { key: 'averageScore', header: 'Average Score' },
+  { key: 'reviewResult', header: 'Review Result' },
+  { key: 'reviewDetail', header: 'Review Detail' },
+  { key: 'recommendations', header: 'Recommendations' },
+];
+
+const CALIBRATION_COLUMNS: SpreadsheetColumn<SubmissionExportColumnKey>[] = [
+  { key: 'normalizedScore', header: 'Normalized Score' },
+  { key: 'scoreSpread', header: 'Score Spread' },
+  { key: 'highDisagreement', header: 'High Disagreement' },
+];
+
+const CONTENT_COLUMNS: SpreadsheetColumn<SubmissionExportColumnKey>[] = [
+  { key: 'materials', header: 'Materials' },
+  { key: 'abstract', header: 'Abstract' },
+  { key: 'outline', header: 'Outline' },
+  { key: 'targetAudience', header: 'Target Audience' },
+  { key: 'prerequisites', header: 'Prerequisites' },
+];
+
+function fieldColumnKey(fieldId: string): SubmissionFieldColumnKey {
+  return `field:${fieldId}`;
+}
+
+/**
+ * Spreadsheet columns for an export, leaving out speaker columns the
+ * exporting user may not see. Calibration columns follow the review
+ * columns when normalized scores were asked for; the event's questions
+ * follow the content columns.
+ */
+export function getSubmissionExportColumns(
+  access: SpeakerExportAccess,
+  fields: Array<{ id: string; label: string }> = [],
+  options: { calibration?: boolean } = {}
+): SpreadsheetColumn<SubmissionExportColumnKey | SubmissionFieldColumnKey>[] {
+  const speakerColumns = access === 'full'
+    ? [...NAME_COLUMNS, ...CONTACT_COLUMNS, { key: 'coSpeakers' as const, header: 'Co-Speakers' }]
+    : access === 'names'
+      ? [...NAME_COLUMNS, { key: 'coSpeakers' as const, header: 'Co-Speakers' }]
+      : [];
+
+  const fieldColumns = fields.map(field => ({ key: fieldColumnKey(field.id), header: field.label }));
+
+  const calibrationColumns = options.calibration ? CALIBRATION_COLUMNS : [];
+
+  return [
+    ...SUBMISSION_COLUMNS,
+    ...speakerColumns,
+    ...REVIEW_COLUMNS,
+    ...calibrationColumns,
+    ...CONTENT_COLUMNS,
+    ...fieldColumns,
+  ];
+}
+
+// ============================================================================
+// Flattening
+// ============================================================================
+
+function roundScore(score: number | null | undefined): number | null {
+  return typeof score === 'number' ? Math.round(score * 100) / 100 : null;
+}
+
+function formatCoSpeaker(coSpeaker: ExportedCoSpeaker): string {
+  const name = coSpeaker.name || '';
+  return coSpeaker.email ? `${name} <${coSpeaker.email}>`.trim() : name;
+}
+
+/**
+ * One spreadsheet row per submission; lists are joined with "; "
+ */
+export function flattenSubmissionRecord(record: SubmissionExportRecord): SubmissionExportRow {
+  const speaker = record.speaker;
+  const calibration = record.reviews.calibration;
+  const fieldCells = Object.fromEntries(
+    record.customFields.map(answer => [fieldColumnKey(answer.fieldId), answer.value || null])
+  ) as Record<SubmissionFieldColumnKey, CellValue>;
+
+  return {
+    ...fieldCells,
+    id: record.id,
+    title: record.title,
+    status: record.status,
+    track: record.track,
+    format: record.format,
+    submittedAt: record.submittedAt,
+    speakerName: speaker?.name ?? null,
+    speakerEmail: speaker?.email ?? null,
+    speakerCompany: speaker?.company ?? null,
+    speakerPosition: speaker?.position ?? null,
+    speakerLocation: speaker?.location ?? null,
+    speakerBio: speaker?.bio ?? null,
+    speakerWebsite: speaker?.websiteUrl ?? null,
+    speakerLinkedin: speaker?.linkedinUrl ?? null,
+    speakerTwitter: speaker?.twitterHandle ?? null,
+    speakerGithub: speaker?.githubUsername ?? null,
+    speakerExpertise: speaker?.expertiseTags?.join('; ') || null,
+    speakerExperience: speaker?.experienceLevel ?? null,
+    coSpeakers: record.coSpeakers?.map(formatCoSpeaker).filter(Boolean).join('; ') || null,
+    reviewCount: record.reviews.count,
+    averageScore: roundScore(record.reviews.averageScore),
+    reviewResult: record.reviews.result,
+    reviewDetail: record.reviews.detail,
+    recommendations: Object.entries(record.reviews.recommendations)
+      .map(([recommendation, count]) => `${recommendation}: ${count}`)
+      .join('; ') || null,
+    normalizedScore: roundScore(calibration?.normalizedScore),
+    scoreSpread: roundScore(calibration?.spread),
+    highDisagreement: calibration ? (calibration.highDisagreement ? 'Yes' : 'No') : null,
+    materials: record.materials
+      .map(material => (material.url ? `${material.title} (${material.url})` : material.title))
+      .join('; ') || null,
+    abstract: record.abstract,
+    outline: record.outline,
+    targetAudience: record.targetAudience,
+    prerequisites: record.prerequisites,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Submission Export
+ *
+ * Loads an event's submissions with aggregated reviews, co-speakers,
+ * materials, speaker profiles and answers to the event's own questions for
+ * the export endpoint. Speaker PII is
+ * decrypted only to the level the exporting user may see. Scoring events
+ * can add normalized scores and disagreement flags.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  SPEAKER_PROFILE_PII_FIELDS,
+  CO_SPEAKER_PII_FIELDS,
+} from '@/lib/security/encryption';
+import {
+  getReviewMode,
+  aggregateSubmission,
+  averageReviewScore,
+} from '@/lib/reviews/review-modes';
+import { getEventRankingStandings } from '@/lib/reviews/rankings';
+import { getEventScoreCalibration } from '@/lib/reviews/results';
+import type { SubmissionExportInput } from '@/lib/validations/submission';
+import {
+  getSubmissionFieldAnswers,
+  formatSubmissionFieldValue,
+  type SubmissionFieldDefinition,
+} from '@/lib/submission-fields/fields';
+import type {
+  ExportedCoSpeaker,
+  ExportedSpeaker,
+  SpeakerExportAccess,
+  SubmissionExportRecord,
+} from './submission-columns';
+
+// Profile fields reviewers see next to the speaker name
+const NAME_PROFILE_FIELDS = ['fullName', 'company', 'position'] as const;
+
+type DecryptedProfile = Partial<Record<typeof SPEAKER_PROFILE_PII_FIELDS[number], string | null>>;
+
+function decryptSpeaker(
+  speaker: {
+    name: string | null;
+    email: string;
+    speakerProfile: (Record<string, unknown> & { expertiseTags: string[]; experienceLevel: string | null }) | null;
+  },
+  access: SpeakerExportAccess
+): ExportedSpeaker | undefined {
+  if (access === 'none') {
+    return undefined;
+  }
+
+  const profileFields = access === 'full' ? SPEAKER_PROFILE_PII_FIELDS : NAME_PROFILE_FIELDS;
+  const user = decryptPiiFields({ name: speaker.name }, USER_PII_FIELDS) as { name: string | null };
+  const profile = (speaker.speakerProfile
+    ? decryptPiiFields(speaker.speakerProfile, profileFields)
+    : {}) as DecryptedProfile;
+
+  const exported: ExportedSpeaker = {
+    name: profile.fullName || user.name || null,
+    company: profile.company || null,
+    position: profile.position || null,
+  };
+
+  if (access === 'full') {
+    Object.assign(exported, {
+      email: speaker.email,
+      location: profile.location || null,
+      bio: profile.bio || null,
+      websiteUrl: profile.websiteUrl || null,
+      linkedinUrl: profile.linkedinUrl || null,
+      twitterHandle: profile.twitterHandle || null,
+      githubUsername: profile.githubUsername || null,
+      expertiseTags: speaker.speakerProfile?.expertiseTags ?? [],
+      experienceLevel: speaker.speakerProfile?.experienceLevel ?? null,
+    });
+  }
+
+  return exported;
+}
+
+function decryptCoSpeakers(
+  coSpeakers: Array<{ name: string; email: string | null }>,
+  access: SpeakerExportAccess
+): ExportedCoSpeaker[] | undefined {
+  if (access === 'none') {
+    return undefined;
+  }
+
+  const fields = access === 'full' ? CO_SPEAKER_PII_FIELDS : (['name'] as const);
+  return coSpeakers.map(coSpeaker => {
+    const decrypted = decryptPiiFields(coSpeaker, fields);
+    return access === 'full'
+      ? { name: decrypted.name || null, email: decrypted.email || null }
+      : { name: decrypted.name || null };
+  });
+}
+
+function absoluteUrl(url: string | null, baseUrl: string): string | null {
+  if (!url) return null;
+  if (/^https?:\/\//i.test(url)) return url;
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Every submission of an event matching the filters, newest first
+ */
+export async function loadSubmissionExport(
+  event: { id: string; reviewType: string },
+  filters: Omit<SubmissionExportInput, 'format' | 'normalized'>,
+  options: {
+    access: SpeakerExportAccess;
+    baseUrl: string;
+    fields: SubmissionFieldDefinition[];
+    calibration?: boolean;
+  }
+): Promise<SubmissionExportRecord[]> {
+  const where: Prisma.SubmissionWhereInput = { eventId: event.id };
+  if (filters.status) where.status = filters.status;
+  if (filters.trackId) where.trackId = filters.trackId;
+  if (filters.formatId) where.formatId = filters.formatId;
+  if (filters.search) {
+    where.OR = [
+      { title: { contains: filters.search, mode: 'insensitive' } },
+      { abstract: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const mode = getReviewMode(event.reviewType);
+  const [submissions, standings, calibration] = await Promise.all([
+    prisma.submission.findMany({
+      where,
+      include: {
+        speaker: {
+          select: {
+            name: true,
+            email: true,
+            speakerProfile: true,
+          },
+        },
+        track: { select: { name: true } },
+        format: { select: { name: true } },
+        coSpeakers: { select: { name: true, email: true } },
+        reviews: {
+          select: {
+            overallScore: true,
+            weightedScore: true,
+            vote: true,
+            recommendation: true,
+          },
+        },
+        materials: {
+          select: { type: true, title: true, fileUrl: true, externalUrl: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+    mode === 'ranking' ? getEventRankingStandings(event.id) : Promise.resolve(null),
+    options.calibration && mode === 'scoring' ? getEventScoreCalibration(event.id) : Promise.resolve(null),
+  ]);
+
+  return submissions.map(submission => {
+    const aggregate = aggregateSubmission(mode, {
+      reviews: submission.reviews,
+      standing: standings?.get(submission.id),
+    });
+
+    const recommendations: Record<string, number> = {};
+    for (const review of submission.reviews) {
+      if (review.recommendation) {
+        recommendations[review.recommendation] = (recommendations[review.recommendation] ?? 0) + 1;
+      }
+    }
+
+    return {
+      id: submission.id,
+      title: submission.title,
+      status: submission.status,
+      track: submission.track?.name ?? null,
+      format: submission.format?.name ?? null,
+      submittedAt: submission.createdAt.toISOString(),
+      updatedAt: submission.updatedAt.toISOString(),
+      abstract: submission.abstract,
+      outline: submission.outline,
+      targetAudience: submission.targetAudience,
+      prerequisites: submission.prerequisites,
+      customFields: getSubmissionFieldAnswers(options.fields, submission.customFields).map(answer => ({
+        fieldId: answer.fieldId,
+        label: answer.label,
+        value: formatSubmissionFieldValue(answer.type, answer.value),
+      })),
+      speaker: decryptSpeaker(submission.speaker, options.access),
+      coSpeakers: decryptCoSpeakers(submission.coSpeakers, options.access),
+      reviews: {
+        count: submission.reviews.length,
+        averageScore: mode === 'scoring' ? averageReviewScore(submission.reviews) : null,
+        result: aggregate.label,
+        detail: aggregate.detail,
+        recommendations,
+        ...(calibration && {
+          calibration: calibration.get(submission.id)
+            ?? { normalizedScore: null, spread: null, highDisagreement: false },
+        }),
+      },
+      materials: submission.materials.map(material => ({
+        type: material.type,
+        title: material.title,
+        url: absoluteUrl(material.externalUrl || material.fileUrl, options.baseUrl),
+      })),
+    };
+  });
+}
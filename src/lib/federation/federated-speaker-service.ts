@@ -17,6 +17,7 @@ import { prisma } from '@/lib/db/prisma';
 import { 
   encryptPiiFields, 
   decryptPiiFields, 
+  isEncrypted,
   FEDERATED_SPEAKER_PII_FIELDS,
 } from '@/lib/security/encryption';
 import type { FederatedSpeaker, Prisma } from '@prisma/client';
@@ -261,8 +262,8 @@ export async function encryptExistingSpeakers(): Promise<{
   
   for (const speaker of speakers) {
     try {
-      // Check if already encrypted (name field starts with enc:v1:)
-      if (speaker.name?.startsWith('enc:v1:')) {
+      // Check if already encrypted (name field has the enc: prefix)
+      if (speaker.name && isEncrypted(speaker.name)) {
         continue;
       }
       
@@ -306,7 +307,7 @@ export async function decryptAllSpeakers(): Promise<{
   for (const speaker of speakers) {
     try {
       // Check if encrypted
-      if (!speaker.name?.startsWith('enc:v1:')) {
+      if (!speaker.name || !isEncrypted(speaker.name)) {
         continue;
       }
       
@@ -24,6 +24,7 @@ export type {
   SubmissionWebhookData,
   StatusUpdateWebhookData,
   MessageWebhookData,
+  ConsentRevokedWebhookData,
   // Consent types
   ConsentScope,
   ValidateConsentTokenRequest,
@@ -88,6 +89,7 @@ export {
   sendStatusUpdatedWebhook,
   sendMessageSentWebhook,
   sendMessageReadWebhook,
+  sendConsentRevokedWebhook,
   signWebhookPayload,
   type WebhookResult,
 } from './webhook-sender';
@@ -188,6 +188,13 @@ export interface MessageWebhookData {
   senderType: 'organizer' | 'speaker';
 }
 
+export interface ConsentRevokedWebhookData {
+  /** cfp.directory speaker ID */
+  speakerId: string;
+  submissionIds: string[];
+  reason: 'erasure_request';
+}
+
 // =============================================================================
 // Federation State
 // =============================================================================
@@ -9,6 +9,7 @@
  * - submission.status_updated - When submission status changes (accept/reject)
  * - submission.message_sent - When organizer sends a message to speaker
  * - submission.message_read - When a message is marked as read
+ * - speaker.consent_revoked - When a federated speaker's account is erased
  */
 
 import { createHmac, randomUUID } from 'crypto';
@@ -21,6 +22,7 @@ import type {
   SubmissionWebhookData,
   StatusUpdateWebhookData,
   MessageWebhookData,
+  ConsentRevokedWebhookData,
 } from './types';
 
 // Webhook configuration
@@ -479,4 +481,23 @@ export async function sendMessageReadWebhook(
   return sendWebhook(message.submission.eventId, 'message.read', data);
 }
 
+/**
+ * Send speaker.consent_revoked webhook when a federated speaker's local
+ * account is erased, so cfp.directory stops sharing their profile with
+ * this event.
+ */
+export async function sendConsentRevokedWebhook(
+  eventId: string,
+  cfpDirectorySpeakerId: string,
+  submissionIds: string[]
+): Promise<WebhookResult> {
+  const data: ConsentRevokedWebhookData = {
+    speakerId: cfpDirectorySpeakerId,
+    submissionIds,
+    reason: 'erasure_request',
+  };
+
+  return sendWebhook(eventId, 'speaker.consent_revoked', data);
+}
+
 // All exports are declared inline with their definitions above
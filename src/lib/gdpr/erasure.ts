@@ -0,0 +1,426 @@
+/**
+ * Account Erasure
+ *
+ * GDPR Article 17 requests. A user asks for their account to be erased,
+ * an admin approves or rejects the request, and approved requests are
+ * carried out by the data-erasure cron job once the grace period ends.
+ *
+ * Erasure deletes what only concerns the user (profiles, talks, their own
+ * submissions, uploaded files) and anonymizes the user row instead of
+ * deleting it, so reviews, discussions and messages they left on other
+ * people's submissions keep their scores and threads without naming them.
+ */
+
+import type { DataErasureRequest, DataErasureStatus, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { getStorage, StoragePaths } from '@/lib/storage';
+import { sendConsentRevokedWebhook } from '@/lib/federation/webhook-sender';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  SPEAKER_PROFILE_PII_FIELDS,
+  REVIEWER_PROFILE_PII_FIELDS,
+} from '@/lib/security/encryption';
+import type {
+  CreateErasureRequestInput,
+  ReviewErasureRequestInput,
+} from '@/lib/validations/data-request';
+import {
+  ERASED_USER_NAME,
+  getErasedEmail,
+  getErasureScheduledFor,
+  isOpenErasureRequest,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ErasureResult =
+  | { error: string; request?: never }
+  | { error: null; request: DataErasureRequest };
+
+export interface ErasureRequestListItem {
+  id: string;
+  status: DataErasureStatus;
+  reason: string | null;
+  reviewNote: string | null;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  scheduledFor: Date | null;
+  completedAt: Date | null;
+  user: { id: string; email: string; name: string | null; role: UserRole; erasedAt: Date | null };
+  reviewedBy: { id: string; name: string | null } | null;
+}
+
+export interface ErasureSummary {
+  submissionsDeleted: number;
+  talksDeleted: number;
+  filesDeleted: number;
+  federatedSpeakersRevoked: number;
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * The user's most recent erasure request, if any
+ */
+export async function getUserErasureRequest(userId: string): Promise<DataErasureRequest | null> {
+  return prisma.dataErasureRequest.findFirst({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * File an erasure request. The user confirms by typing their email, may
+ * only have one open request, and the last admin cannot erase themselves.
+ */
+export async function createErasureRequest(
+  user: { id: string; email: string; role: UserRole },
+  input: CreateErasureRequestInput,
+  ipAddress?: string
+): Promise<ErasureResult> {
+  if (input.confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+    return { error: 'Email confirmation does not match your account email' };
+  }
+
+  const open = await prisma.dataErasureRequest.findFirst({
+    where: { userId: user.id, status: { in: ['PENDING', 'APPROVED'] } },
+  });
+  if (open) {
+    return { error: 'You already have an open erasure request' };
+  }
+
+  if (user.role === 'ADMIN') {
+    const adminCount = await prisma.user.count({ where: { role: 'ADMIN' } });
+    if (adminCount <= 1) {
+      return { error: 'The last administrator cannot erase their account. Promote another admin first.' };
+    }
+  }
+
+  const request = await prisma.dataErasureRequest.create({
+    data: { userId: user.id, reason: input.reason || null },
+  });
+
+  await logActivity({
+    userId: user.id,
+    action: 'USER_ERASURE_REQUESTED',
+    entityType: 'User',
+    entityId: user.id,
+    metadata: { requestId: request.id },
+    ipAddress,
+  });
+
+  return { error: null, request };
+}
+
+/**
+ * Withdraw a pending request, or an approved one during its grace period
+ */
+export async function cancelErasureRequest(
+  userId: string,
+  requestId: string,
+  ipAddress?: string
+): Promise<ErasureResult> {
+  const existing = await prisma.dataErasureRequest.findUnique({ where: { id: requestId } });
+  if (!existing || existing.userId !== userId) {
+    return { error: 'Erasure request not found' };
+  }
+  if (!isOpenErasureRequest(existing.status)) {
+    return { error: 'This request can no longer be cancelled' };
+  }
+
+  // Guard against the cron job picking the request up in between
+  const { count } = await prisma.dataErasureRequest.updateMany({
+    where: { id: requestId, status: { in: ['PENDING', 'APPROVED'] } },
+    data: { status: 'CANCELLED' },
+  });
+  if (count === 0) {
+    return { error: 'This request can no longer be cancelled' };
+  }
+
+  await logActivity({
+    userId,
+    action: 'USER_ERASURE_CANCELLED',
+    entityType: 'User',
+    entityId: userId,
+    metadata: { requestId },
+    ipAddress,
+  });
+
+  const request = await prisma.dataErasureRequest.findUniqueOrThrow({ where: { id: requestId } });
+  return { error: null, request };
+}
+
+/**
+ * Approve or reject a pending request. Approval schedules the erasure at
+ * the end of the grace period.
+ */
+export async function reviewErasureRequest(
+  requestId: string,
+  admin: { id: string },
+  input: ReviewErasureRequestInput,
+  now: Date = new Date()
+): Promise<ErasureResult> {
+  const existing = await prisma.dataErasureRequest.findUnique({ where: { id: requestId } });
+  if (!existing) {
+    return { error: 'Erasure request not found' };
+  }
+  if (existing.userId === admin.id) {
+    return { error: 'Another administrator must review your own erasure request' };
+  }
+  if (existing.status !== 'PENDING') {
+    return { error: 'Only pending requests can be reviewed' };
+  }
+
+  const approve = input.decision === 'approve';
+  const scheduledFor = approve ? getErasureScheduledFor(now) : null;
+  const { count } = await prisma.dataErasureRequest.updateMany({
+    where: { id: requestId, status: 'PENDING' },
+    data: {
+      status: approve ? 'APPROVED' : 'REJECTED',
+      reviewedById: admin.id,
+      reviewedAt: now,
+      reviewNote: input.note || null,
+      scheduledFor,
+    },
+  });
+  if (count === 0) {
+    return { error: 'Only pending requests can be reviewed' };
+  }
+
+  await logActivity({
+    userId: admin.id,
+    action: approve ? 'USER_ERASURE_APPROVED' : 'USER_ERASURE_REJECTED',
+    entityType: 'User',
+    entityId: existing.userId,
+    metadata: {
+      requestId,
+      scheduledFor: scheduledFor?.toISOString() ?? null,
+    },
+  });
+
+  const request = await prisma.dataErasureRequest.findUniqueOrThrow({ where: { id: requestId } });
+  return { error: null, request };
+}
+
+/**
+ * Requests for the admin queue, open ones first, with names decrypted
+ */
+export async function listErasureRequests(
+  status?: DataErasureStatus
+): Promise<ErasureRequestListItem[]> {
+  const requests = await prisma.dataErasureRequest.findMany({
+    where: status ? { status } : undefined,
+    orderBy: { createdAt: 'desc' },
+    include: {
+      user: { select: { id: true, email: true, name: true, role: true, erasedAt: true } },
+      reviewedBy: { select: { id: true, name: true } },
+    },
+  });
+
+  const rank = (s: DataErasureStatus) => (s === 'PENDING' ? 0 : s === 'APPROVED' ? 1 : 2);
+  return requests
+    .sort((a, b) => rank(a.status) - rank(b.status))
+    .map(request => ({
+      id: request.id,
+      status: request.status,
+      reason: request.reason,
+      reviewNote: request.reviewNote,
+      createdAt: request.createdAt,
+      reviewedAt: request.reviewedAt,
+      scheduledFor: request.scheduledFor,
+      completedAt: request.completedAt,
+      user: decryptPiiFields(request.user, USER_PII_FIELDS),
+      reviewedBy: request.reviewedBy ? decryptPiiFields(request.reviewedBy, USER_PII_FIELDS) : null,
+    }));
+}
+
+// ============================================================================
+// Erasure
+// ============================================================================
+
+/**
+ * Tell cfp.directory that the speaker withdrew consent for each federated
+ * event they submitted to, then drop the local copies of their federated
+ * profile. Failures are logged, not fatal - erasure goes ahead locally.
+ */
+async function revokeFederatedConsent(userId: string): Promise<number> {
+  const submissions = await prisma.submission.findMany({
+    where: { speakerId: userId, isFederated: true, federatedSpeakerId: { not: null } },
+    select: { id: true, eventId: true, federatedSpeakerId: true },
+  });
+
+  const speakerIds = [...new Set(submissions.map(s => s.federatedSpeakerId as string))];
+  const speakers = await prisma.federatedSpeaker.findMany({
+    where: { OR: [{ localUserId: userId }, { id: { in: speakerIds } }] },
+    select: { id: true, cfpDirectorySpeakerId: true },
+  });
+
+  for (const speaker of speakers) {
+    const byEvent = new Map<string, string[]>();
+    for (const submission of submissions.filter(s => s.federatedSpeakerId === speaker.id)) {
+      byEvent.set(submission.eventId, [...(byEvent.get(submission.eventId) ?? []), submission.id]);
+    }
+
+    for (const [eventId, submissionIds] of byEvent) {
+      const result = await sendConsentRevokedWebhook(eventId, speaker.cfpDirectorySpeakerId, submissionIds);
+      if (!result.success) {
+        console.error(`Failed to revoke federation consent for event ${eventId}:`, result.error);
+      }
+    }
+  }
+
+  if (speakers.length > 0) {
+    await prisma.federatedSpeaker.deleteMany({
+      where: { id: { in: speakers.map(s => s.id) } },
+    });
+  }
+  return speakers.length;
+}
+
+/**
+ * Storage paths of files the user uploaded: avatar, profile photos and
+ * submission materials. External URLs are skipped.
+ */
+async function getUserFilePaths(userId: string): Promise<string[]> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      image: true,
+      speakerProfile: { select: { photoUrl: true } },
+      reviewerProfile: { select: { photoUrl: true } },
+    },
+  });
+  const materials = await prisma.submissionMaterial.findMany({
+    where: { submission: { speakerId: userId }, fileUrl: { not: null } },
+    select: { fileUrl: true },
+  });
+
+  const speakerPhoto = user.speakerProfile
+    ? decryptPiiFields(user.speakerProfile, SPEAKER_PROFILE_PII_FIELDS).photoUrl
+    : null;
+  const reviewerPhoto = user.reviewerProfile
+    ? decryptPiiFields(user.reviewerProfile, REVIEWER_PROFILE_PII_FIELDS).photoUrl
+    : null;
+
+  const urls = [user.image, speakerPhoto, reviewerPhoto, ...materials.map(m => m.fileUrl)];
+  const paths = urls
+    .map(url => (url ? StoragePaths.fromUrl(url) : null))
+    .filter((path): path is string => path !== null);
+  return [...new Set(paths)];
+}
+
+/**
+ * Erase a user's personal data and anonymize their account
+ */
+export async function eraseUserData(userId: string, now: Date = new Date()): Promise<ErasureSummary> {
+  const federatedSpeakersRevoked = await revokeFederatedConsent(userId);
+  const { email } = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+
+  const storage = getStorage();
+  let filesDeleted = 0;
+  for (const path of await getUserFilePaths(userId)) {
+    try {
+      await storage.delete(path);
+      filesDeleted++;
+    } catch (error) {
+      console.error(`Failed to delete ${path} during erasure:`, error);
+    }
+  }
+
+  const [submissions, talks] = await prisma.$transaction([
+    // Own submissions take their materials, co-speakers, messages and
+    // reviews with them
+    prisma.submission.deleteMany({ where: { speakerId: userId } }),
+    prisma.talk.deleteMany({ where: { userId } }),
+    prisma.speakerProfile.deleteMany({ where: { userId } }),
+    prisma.reviewerProfile.deleteMany({ where: { userId } }),
+    prisma.account.deleteMany({ where: { userId } }),
+    prisma.session.deleteMany({ where: { userId } }),
+    prisma.userSession.deleteMany({ where: { userId } }),
+    prisma.apiToken.deleteMany({ where: { userId } }),
+    prisma.reviewTeamMember.deleteMany({ where: { userId } }),
+    prisma.reviewAssignment.deleteMany({ where: { reviewerId: userId } }),
+    prisma.reviewConflict.deleteMany({ where: { reviewerId: userId } }),
+    prisma.userInvitation.deleteMany({ where: { invitedBy: userId } }),
+    prisma.notificationPreference.deleteMany({ where: { userId } }),
+    prisma.notificationDigestItem.deleteMany({ where: { userId } }),
+    prisma.notification.deleteMany({ where: { userId } }),
+    prisma.activityLog.updateMany({ where: { userId }, data: { userId: null, ipAddress: null } }),
+    prisma.submissionBulkOperation.updateMany({ where: { createdById: userId }, data: { createdById: null } }),
+    // Co-speaker entries on other people's submissions lose the link to
+    // this account, and with it access to those submissions
+    prisma.coSpeaker.updateMany({ where: { linkedUserId: userId }, data: { linkedUserId: null, isLinked: false } }),
+    // Queued and logged email to the account, including unsent mail
+    prisma.outboundEmail.deleteMany({ where: { recipient: { equals: email, mode: 'insensitive' } } }),
+    // Reviews, discussions, rankings and messages on other people's
+    // submissions stay attached to the anonymized row
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: getErasedEmail(userId),
+        name: ERASED_USER_NAME,
+        image: null,
+        passwordHash: null,
+        emailVerified: null,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        role: 'USER',
+        sessionVersion: { increment: 1 },
+        erasedAt: now,
+      },
+    }),
+  ]);
+
+  return {
+    submissionsDeleted: submissions.count,
+    talksDeleted: talks.count,
+    filesDeleted,
+    federatedSpeakersRevoked,
+  };
+}
+
+/**
+ * Carry out approved requests whose grace period has ended. Returns the
+ * number of accounts erased.
+ */
+export async function processDueErasures(now: Date = new Date()): Promise<number> {
+  const due = await prisma.dataErasureRequest.findMany({
+    where: { status: 'APPROVED', scheduledFor: { lte: now } },
+    orderBy: { scheduledFor: 'asc' },
+  });
+
+  let erased = 0;
+  for (const request of due) {
+    // Skip requests cancelled since they were read
+    const current = await prisma.dataErasureRequest.findUnique({ where: { id: request.id } });
+    if (current?.status !== 'APPROVED') continue;
+
+    try {
+      const summary = await eraseUserData(request.userId, now);
+      await prisma.dataErasureRequest.update({
+        where: { id: request.id },
+        data: { status: 'COMPLETED', completedAt: now, reason: null },
+      });
+      erased++;
+
+      await logActivity({
+        action: 'USER_ERASED',
+        entityType: 'User',
+        entityId: request.userId,
+        metadata: { requestId: request.id, ...summary },
+      });
+    } catch (error) {
+      console.error(`Failed to erase user ${request.userId}:`, error);
+    }
+  }
+
+  return erased;
+}
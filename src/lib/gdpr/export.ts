@@ -0,0 +1,275 @@
+/**
+ * Personal Data Export
+ *
+ * Builds the "Download my data" archive for GDPR access and portability
+ * requests (Articles 15 and 20): a zip with everything stored about the
+ * user as JSON, PII decrypted, plus the files they uploaded.
+ */
+
+import AdmZip from 'adm-zip';
+import { prisma } from '@/lib/db/prisma';
+import { getStorage, StoragePaths } from '@/lib/storage';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  SPEAKER_PROFILE_PII_FIELDS,
+  REVIEWER_PROFILE_PII_FIELDS,
+  CO_SPEAKER_PII_FIELDS,
+  SPEAKER_CONFIRMATION_PII_FIELDS,
+} from '@/lib/security/encryption';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExportedFile {
+  /** Path inside the archive */
+  archivePath: string;
+  /** Where the file is referenced, e.g. "user.image" */
+  source: string;
+  /** Whether the file could be read from storage */
+  included: boolean;
+}
+
+export interface UserDataExport {
+  exportedAt: string;
+  format: 'cfp-directory-user-export';
+  version: 1;
+  data: Record<string, unknown>;
+  files: ExportedFile[];
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+/**
+ * Everything stored about a user, with PII decrypted. Secrets (password
+ * hash, OAuth tokens, device IDs, API token and confirmation token
+ * hashes) are left out.
+ */
+export async function buildUserDataExport(userId: string): Promise<UserDataExport> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      emailVerified: true,
+      name: true,
+      image: true,
+      role: true,
+      createdAt: true,
+      updatedAt: true,
+      accounts: { select: { provider: true, type: true } },
+      speakerProfile: true,
+      reviewerProfile: true,
+      talks: { orderBy: { createdAt: 'asc' } },
+      reviewTeamEvents: {
+        select: { role: true, addedAt: true, event: { select: { id: true, name: true } } },
+      },
+      reviewConflicts: {
+        select: { submissionId: true, reason: true, createdAt: true },
+      },
+      reviewAssignments: {
+        select: { submissionId: true, isAutomatic: true, createdAt: true },
+      },
+      erasureRequests: {
+        select: { id: true, reason: true, status: true, reviewedAt: true, scheduledFor: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      notificationPreferences: {
+        select: { channel: true, category: true, frequency: true, updatedAt: true },
+      },
+      userSessions: {
+        select: {
+          userAgent: true,
+          ipAddress: true,
+          location: true,
+          lastSeenAt: true,
+          expiresAt: true,
+          revokedAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      apiTokens: {
+        select: {
+          name: true,
+          tokenPrefix: true,
+          scopes: true,
+          expiresAt: true,
+          lastUsedAt: true,
+          lastUsedIp: true,
+          revokedAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  const [submissions, sentMessages, reviews, reviewDiscussions, submissionDiscussions, activity] = await Promise.all([
+    prisma.submission.findMany({
+      where: { speakerId: userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        event: { select: { id: true, name: true, slug: true } },
+        track: { select: { name: true } },
+        format: { select: { name: true } },
+        coSpeakers: { omit: { invitationTokenHash: true } },
+        materials: true,
+        confirmation: {
+          select: {
+            status: true,
+            deadline: true,
+            respondedAt: true,
+            agreedToCodeOfConduct: true,
+            agreedToRecording: true,
+            travelNeeds: true,
+            declineReason: true,
+          },
+        },
+        messages: {
+          select: { id: true, senderType: true, subject: true, body: true, isRead: true, parentId: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    }),
+    // Messages the user wrote on other people's submissions
+    prisma.message.findMany({
+      where: { senderId: userId, submission: { speakerId: { not: userId } } },
+      select: { id: true, submissionId: true, senderType: true, subject: true, body: true, parentId: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.review.findMany({
+      where: { reviewerId: userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        submission: { select: { title: true, eventId: true } },
+        criterionScores: {
+          select: { score: true, criteria: { select: { name: true } } },
+        },
+      },
+    }),
+    prisma.reviewDiscussion.findMany({
+      where: { authorId: userId },
+      select: { id: true, reviewId: true, content: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.submissionDiscussion.findMany({
+      where: { authorId: userId },
+      select: { id: true, submissionId: true, parentId: true, content: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.activityLog.findMany({
+      where: { userId },
+      select: { action: true, entityType: true, entityId: true, metadata: true, ipAddress: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const files: ExportedFile[] = [];
+  const addFile = (url: string | null | undefined, source: string) => {
+    const path = url ? StoragePaths.fromUrl(url) : null;
+    if (path && !files.some(file => file.archivePath === `files/${path}`)) {
+      files.push({ archivePath: `files/${path}`, source, included: false });
+    }
+  };
+
+  const decryptedUser = decryptPiiFields({ name: user.name }, USER_PII_FIELDS);
+  const speakerProfile = user.speakerProfile
+    ? decryptPiiFields(user.speakerProfile, SPEAKER_PROFILE_PII_FIELDS)
+    : null;
+  const reviewerProfile = user.reviewerProfile
+    ? decryptPiiFields(user.reviewerProfile, REVIEWER_PROFILE_PII_FIELDS)
+    : null;
+
+  addFile(user.image, 'user.image');
+  addFile(speakerProfile?.photoUrl, 'speakerProfile.photoUrl');
+  addFile(reviewerProfile?.photoUrl, 'reviewerProfile.photoUrl');
+
+  const exportedSubmissions = submissions.map(submission => {
+    for (const material of submission.materials) {
+      addFile(material.fileUrl, `submissions.${submission.id}.materials.${material.id}`);
+    }
+
+    return {
+      ...submission,
+      coSpeakers: submission.coSpeakers.map(coSpeaker =>
+        decryptPiiFields(coSpeaker, CO_SPEAKER_PII_FIELDS)
+      ),
+      confirmation: submission.confirmation
+        ? decryptPiiFields(submission.confirmation, SPEAKER_CONFIRMATION_PII_FIELDS)
+        : null,
+    };
+  });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    format: 'cfp-directory-user-export',
+    version: 1,
+    data: {
+      user: {
+        id: user.id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        name: decryptedUser.name,
+        image: user.image,
+        role: user.role,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      linkedAccounts: user.accounts,
+      speakerProfile,
+      reviewerProfile,
+      talks: user.talks,
+      submissions: exportedSubmissions,
+      messages: sentMessages,
+      reviews: reviews.map(review => ({
+        ...review,
+        criterionScores: review.criterionScores.map(score => ({
+          criterion: score.criteria.name,
+          score: score.score,
+        })),
+      })),
+      reviewDiscussions,
+      submissionDiscussions,
+      reviewTeams: user.reviewTeamEvents,
+      reviewAssignments: user.reviewAssignments,
+      reviewConflicts: user.reviewConflicts,
+      erasureRequests: user.erasureRequests,
+      notificationPreferences: user.notificationPreferences,
+      sessions: user.userSessions,
+      apiTokens: user.apiTokens,
+      activity,
+    },
+    files,
+  };
+}
+
+// ============================================================================
+// Archive
+// ============================================================================
+
+/**
+ * The export as a zip: data.json plus the user's uploaded files under
+ * files/. Files missing from storage are listed but not included.
+ */
+export async function buildUserDataArchive(userId: string): Promise<Buffer> {
+  const data = await buildUserDataExport(userId);
+  const storage = getStorage();
+  const zip = new AdmZip();
+
+  for (const file of data.files) {
+    try {
+      const content = await storage.download(file.archivePath.slice('files/'.length));
+      zip.addFile(file.archivePath, content);
+      file.included = true;
+    } catch {
+      file.included = false;
+    }
+  }
+
+  zip.addFile('data.json', Buffer.from(JSON.stringify(data, null, 2), 'utf-8'));
+  return zip.toBuffer();
+}
@@ -0,0 +1,34 @@
+/**
+ * GDPR Module Index
+ *
+ * Re-exports the personal data export and account erasure workflow.
+ */
+
+export {
+  DATA_ERASURE_STATUS_LABELS,
+  ERASURE_GRACE_PERIOD_DAYS,
+  ERASED_USER_NAME,
+  getErasedEmail,
+  getErasureScheduledFor,
+  isOpenErasureRequest,
+  isErasureDue,
+} from './state';
+
+export {
+  type ExportedFile,
+  type UserDataExport,
+  buildUserDataExport,
+  buildUserDataArchive,
+} from './export';
+
+export {
+  type ErasureRequestListItem,
+  type ErasureSummary,
+  getUserErasureRequest,
+  createErasureRequest,
+  cancelErasureRequest,
+  reviewErasureRequest,
+  listErasureRequests,
+  eraseUserData,
+  processDueErasures,
+} from './erasure';
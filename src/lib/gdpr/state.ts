@@ -0,0 +1,62 @@
+/**
+ * Data Erasure State
+ *
+ * Labels and scheduling rules for account erasure requests. Pure
+ * functions only - safe to import from client components.
+ */
+
+import type { DataErasureStatus } from '@prisma/client';
+
+export const DATA_ERASURE_STATUS_LABELS: Record<DataErasureStatus, string> = {
+  PENDING: 'Awaiting review',
+  APPROVED: 'Scheduled',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+  COMPLETED: 'Completed',
+};
+
+/** Days between approval and erasure, during which the user can cancel */
+export const ERASURE_GRACE_PERIOD_DAYS = 14;
+
+/** Display name left on rows kept after erasure */
+export const ERASED_USER_NAME = 'Deleted user';
+
+/**
+ * Placeholder email for an erased account. Unique per user and uses a
+ * reserved TLD so nothing can be delivered to it.
+ */
+export function getErasedEmail(userId: string): string {
+  return `erased-${userId}@erased.invalid`;
+}
+
+/**
+ * When an erasure approved at `approvedAt` is carried out
+ */
+export function getErasureScheduledFor(
+  approvedAt: Date,
+  days: number = ERASURE_GRACE_PERIOD_DAYS
+): Date {
+  return new Date(approvedAt.getTime() + Math.max(days, 0) * 86400000);
+}
+
+/**
+ * Pending and approved requests are open: the user cannot file another
+ * and can still cancel
+ */
+export function isOpenErasureRequest(status: DataErasureStatus): boolean {
+  return status === 'PENDING' || status === 'APPROVED';
+}
+
+/**
+ * Approved requests whose grace period has passed
+ */
+export function isErasureDue(
+  request: { status: DataErasureStatus; scheduledFor: Date | null },
+  now: Date = new Date()
+): boolean {
+  return (
+    request.status === 'APPROVED' &&
+    request.scheduledFor !== null &&
+    request.scheduledFor.getTime() <= now.getTime()
+  );
+}
@@ -355,21 +355,47 @@ function formatActivityTitle(action: string, metadata?: Record<string, unknown>)
     USER_UPDATED: 'User profile updated',
     USER_ROLE_CHANGED: `Role changed${metadata?.newRole ? ` to ${metadata.newRole}` : ''}`,
     USER_DELETED: 'User deleted',
-    USER_LOGIN: 'User logged in',
+    USER_LOGIN: metadata?.device
+      ? `Signed in from ${metadata.device}${metadata.newDevice ? ' (new device)' : ''}`
+      : 'User logged in',
     USER_LOGOUT: 'User logged out',
     USER_INVITED: `User invited${metadata?.invitedEmail ? `: ${metadata.invitedEmail}` : ''}`,
     USER_INVITE_ACCEPTED: 'Invitation accepted',
     USER_EMAIL_VERIFIED: 'Email verified',
     USER_VERIFICATION_RESENT: 'Verification email resent',
+    USER_NOTIFICATIONS_UPDATED: 'Notification preferences updated',
+    USER_SSO_CONNECTED: `Connected single sign-on${metadata?.provider ? ` (${metadata.provider})` : ''}`,
+    USER_SSO_DISCONNECTED: `Disconnected single sign-on${metadata?.provider ? ` (${metadata.provider})` : ''}`,
+    USER_TWO_FACTOR_ENABLED: 'Enabled two-factor authentication',
+    USER_TWO_FACTOR_DISABLED: 'Disabled two-factor authentication',
+    USER_TWO_FACTOR_RESET: `Reset two-factor authentication${metadata?.targetEmail ? ` for ${metadata.targetEmail}` : ''}`,
+    USER_TWO_FACTOR_RECOVERY_CODES_REGENERATED: 'Regenerated two-factor recovery codes',
+    USER_TWO_FACTOR_RECOVERY_CODE_USED: `Signed in with a recovery code${metadata?.remaining !== undefined ? ` (${metadata.remaining} left)` : ''}`,
+    USER_NOTIFICATIONS_UNSUBSCRIBED: `Unsubscribed from ${metadata?.category ? `${String(metadata.category).toLowerCase().replace(/_/g, ' ')} ` : 'all '}notification emails`,
+    // Personal data actions
+    USER_DATA_EXPORTED: 'Personal data exported',
+    USER_ERASURE_REQUESTED: 'Account erasure requested',
+    USER_ERASURE_CANCELLED: 'Account erasure cancelled',
+    USER_ERASURE_APPROVED: `Account erasure approved${metadata?.scheduledFor ? ` for ${metadata.scheduledFor}` : ''}`,
+    USER_ERASURE_REJECTED: 'Account erasure rejected',
+    USER_ERASED: 'Account erased',
     // Security actions
     LOGIN_FAILED: 'Login attempt failed',
     PASSWORD_CHANGED: 'Password changed',
     PASSWORD_RESET_REQUESTED: 'Password reset requested',
     PASSWORD_RESET_COMPLETED: 'Password reset completed',
-    SESSION_INVALIDATED: 'Session invalidated',
+    SESSION_INVALIDATED: metadata?.scope === 'all'
+      ? 'Signed out of all sessions'
+      : metadata?.scope === 'others'
+        ? `Signed out ${metadata.count} other session(s)`
+        : metadata?.device ? `Signed out ${metadata.device}` : 'Session invalidated',
+    API_TOKEN_CREATED: `Created API token${metadata?.name ? ` "${metadata.name}"` : ''}`,
+    API_TOKEN_REVOKED: `Revoked API token${metadata?.name ? ` "${metadata.name}"` : ''}`,
     ADMIN_ACTION: 'Admin action performed',
     RATE_LIMIT_EXCEEDED: 'Rate limit exceeded',
     UNAUTHORIZED_ACCESS_ATTEMPT: 'Unauthorized access attempt',
+    ENCRYPTION_KEY_ROTATION_STARTED: 'Encryption key rotation started',
+    ENCRYPTION_KEY_ROTATION_VERIFIED: `Encryption keys verified${metadata?.remaining ? ` (${metadata.remaining} value(s) on old keys)` : ''}`,
     // Event actions
     EVENT_CREATED: 'Event created',
     EVENT_UPDATED: 'Event updated',
@@ -378,6 +404,8 @@ function formatActivityTitle(action: string, metadata?: Record<string, unknown>)
     EVENT_DELETED: 'Event deleted',
     EVENT_CFP_OPENED: 'CFP opened',
     EVENT_CFP_CLOSED: 'CFP closed',
+    SCHEDULE_PUBLISHED: 'Schedule published',
+    SCHEDULE_UNPUBLISHED: 'Schedule unpublished',
     // Submission actions
     SUBMISSION_CREATED: 'Submission created',
     SUBMISSION_UPDATED: 'Submission updated',
@@ -385,16 +413,44 @@ function formatActivityTitle(action: string, metadata?: Record<string, unknown>)
     SUBMISSION_ACCEPTED: 'Submission accepted',
     SUBMISSION_REJECTED: 'Submission rejected',
     SUBMISSION_WITHDRAWN: 'Submission withdrawn',
+    SUBMISSION_PROMOTED_FROM_WAITLIST: 'Submission promoted from waitlist',
+    SPEAKER_CONFIRMATION_REQUESTED: 'Speaker confirmation requested',
+    SPEAKER_CONFIRMED: 'Speaker confirmed',
+    SPEAKER_DECLINED: 'Speaker declined',
+    SPEAKER_CONFIRMATION_EXPIRED: 'Speaker confirmation expired',
+    CO_SPEAKER_INVITED: 'Co-speaker invited',
+    CO_SPEAKER_INVITATION_ACCEPTED: 'Co-speaker invitation accepted',
+    CO_SPEAKER_INVITATION_DECLINED: 'Co-speaker invitation declined',
+    SUBMISSIONS_EXPORTED: `Submissions exported${metadata?.count !== undefined ? ` (${metadata.count} as ${String(metadata.format).toUpperCase()})` : ''}`,
+    SUBMISSIONS_BULK_UPDATED: `Bulk submission action started${metadata?.count !== undefined ? ` (${metadata.action} on ${metadata.count})` : ''}`,
     // Review actions
     REVIEW_SUBMITTED: 'Review submitted',
     REVIEW_UPDATED: 'Review updated',
-    REVIEWER_ASSIGNED: 'Reviewer assigned',
+    REVIEW_RANKING_SAVED: 'Review ranking saved',
+    REVIEW_IDENTITIES_REVEALED: 'Anonymized identities revealed',
+    REVIEWER_ASSIGNED: `Reviewer assigned${metadata?.count ? ` to ${metadata.count} submission(s)` : ''}`,
     REVIEWER_REMOVED: 'Reviewer removed',
+    REVIEW_CONFLICT_DECLARED: 'Conflict of interest declared',
+    REVIEW_CONFLICT_WITHDRAWN: 'Conflict of interest withdrawn',
+    REVIEW_THREAD_PINNED: 'Discussion thread pinned',
+    REVIEW_THREAD_UNPINNED: 'Discussion thread unpinned',
+    REVIEW_THREAD_RESOLVED: 'Discussion thread resolved',
+    REVIEW_THREAD_REOPENED: 'Discussion thread reopened',
+    // Email actions
+    EMAIL_RESENT: `Email resent${metadata?.recipient ? ` to ${metadata.recipient}` : ''}`,
+    EMAIL_CANCELLED: `Queued email cancelled${metadata?.recipient ? ` for ${metadata.recipient}` : ''}`,
     // File actions
     FILE_UPLOADED: 'File uploaded',
     FILE_DELETED: 'File deleted',
     // System actions
     SETTINGS_UPDATED: 'Settings updated',
+    IDENTITY_PROVIDER_CREATED: `Identity provider added${metadata?.name ? `: ${metadata.name}` : ''}`,
+    IDENTITY_PROVIDER_UPDATED: `Identity provider updated${metadata?.name ? `: ${metadata.name}` : ''}`,
+    IDENTITY_PROVIDER_DELETED: `Identity provider removed${metadata?.name ? `: ${metadata.name}` : ''}`,
+    WEBHOOK_CREATED: `Webhook added${metadata?.url ? `: ${metadata.url}` : ''}`,
+    WEBHOOK_UPDATED: `Webhook updated${metadata?.url ? `: ${metadata.url}` : ''}`,
+    WEBHOOK_DELETED: `Webhook removed${metadata?.url ? `: ${metadata.url}` : ''}`,
+    WEBHOOK_REDELIVERED: `Webhook delivery resent${metadata?.hookName ? ` (${metadata.hookName})` : ''}`,
     FEDERATION_ENABLED: 'Federation enabled',
     FEDERATION_DISABLED: 'Federation disabled',
   };
@@ -0,0 +1,34 @@
+/**
+ * Inbound Email Module Index
+ *
+ * Re-exports MIME parsing, reply extraction, signed reply addresses,
+ * message notifications and the ingestion workflow.
+ */
+
+export {
+  type ParsedAddress,
+  type ParsedAttachment,
+  type ParsedEmail,
+  parseEmail,
+  parseAddressList,
+  parseHeaderValue,
+  decodeEncodedWords,
+} from './mime';
+
+export { extractReplyText, htmlToText, isAutoReply } from './reply-text';
+
+export {
+  REPLY_ADDRESS_PREFIX,
+  createReplyToken,
+  getMessageReplyAddress,
+  findReplyToken,
+  verifyReplyToken,
+} from './reply-address';
+
+export { type MessageNotificationInput, notifyMessageRecipients } from './notifications';
+
+export {
+  type InboundEmailResult,
+  MAX_INBOUND_EMAIL_BYTES,
+  ingestInboundEmail,
+} from './ingest';
@@ -0,0 +1,303 @@
+/**
+ * Inbound Email Ingestion
+ *
+ * Turn an emailed reply to a message notification into a reply Message.
+ * The reply-to token identifies the thread and must have been issued to
+ * the sender's address; the sender must still have access to the
+ * submission, exactly as when posting from the web UI. Quoted history
+ * and signatures are stripped, and attachments sent by speakers become
+ * submission materials.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { SenderType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { canManageEvent, canReviewEvent } from '@/lib/api/auth';
+import { logActivity } from '@/lib/activity-logger';
+import { isAcceptedCoSpeaker } from '@/lib/co-speakers';
+import { sendMessageSentWebhook } from '@/lib/federation';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import {
+  getStorage,
+  StoragePaths,
+  SUBMISSION_MATERIAL_MIME_TYPES,
+  validateMagicBytes,
+} from '@/lib/storage';
+import { parseEmail, type ParsedAttachment } from './mime';
+import { extractReplyText, htmlToText, isAutoReply } from './reply-text';
+import { findReplyToken, verifyReplyToken } from './reply-address';
+import { notifyMessageRecipients } from './notifications';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type InboundEmailResult =
+  | { status: 'created'; messageId: string; materials: number; skippedAttachments: string[] }
+  | { status: 'duplicate'; messageId: string }
+  | { status: 'ignored'; reason: string }
+  | { status: 'rejected'; reason: string };
+
+/** Largest raw message accepted by the ingestion endpoint */
+export const MAX_INBOUND_EMAIL_BYTES = 35 * 1024 * 1024;
+
+/** Message body limit, matching the messages API */
+const MAX_BODY_LENGTH = 10000;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ppt: 'application/vnd.ms-powerpoint',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+// ============================================================================
+// Attachments
+// ============================================================================
+
+/**
+ * The material MIME type of an attachment, or null when it is not an
+ * accepted material type. Mail clients often send application/octet-stream,
+ * so the file extension is used when the declared type is not accepted.
+ */
+function getMaterialMimeType(attachment: ParsedAttachment): string | null {
+  if (SUBMISSION_MATERIAL_MIME_TYPES.includes(attachment.contentType)) {
+    return attachment.contentType;
+  }
+  const ext = attachment.filename.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[ext] ?? null;
+}
+
+function getMaterialType(mimeType: string): 'slides' | 'video' | 'document' | 'other' {
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('image/')) return 'other';
+  if (mimeType === 'application/pdf') return 'document';
+  return 'slides';
+}
+
+function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/\.+/g, '.')
+    .slice(0, 100);
+}
+
+/**
+ * Store accepted attachments as submission materials; returns the stored
+ * filenames and those skipped
+ */
+async function saveAttachments(
+  submissionId: string,
+  attachments: ParsedAttachment[]
+): Promise<{ saved: string[]; skipped: string[] }> {
+  const saved: string[] = [];
+  const skipped: string[] = [];
+  const storage = getStorage();
+
+  for (const attachment of attachments) {
+    const mimeType = getMaterialMimeType(attachment);
+    if (
+      !mimeType ||
+      attachment.content.length === 0 ||
+      attachment.content.length > config.storage.maxFileSizeBytes ||
+      !validateMagicBytes(attachment.content, mimeType)
+    ) {
+      skipped.push(attachment.filename);
+      continue;
+    }
+
+    try {
+      const result = await storage.upload(
+        StoragePaths.submissionMaterial(submissionId, `${uuidv4()}-${sanitizeFilename(attachment.filename)}`),
+        attachment.content,
+        { contentType: mimeType, isPublic: false }
+      );
+      await prisma.submissionMaterial.create({
+        data: {
+          submissionId,
+          type: getMaterialType(mimeType),
+          title: attachment.filename.slice(0, 200),
+          description: 'Sent by email',
+          fileUrl: result.url,
+          fileName: attachment.filename.slice(0, 255),
+          fileSize: attachment.content.length,
+          mimeType,
+        },
+      });
+      saved.push(attachment.filename);
+    } catch (error) {
+      console.error('Failed to store inbound email attachment:', error);
+      skipped.push(attachment.filename);
+    }
+  }
+
+  return { saved, skipped };
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Post a raw RFC 822 reply to its message thread
+ */
+export async function ingestInboundEmail(
+  raw: Buffer,
+  ipAddress?: string | null
+): Promise<InboundEmailResult> {
+  if (!config.inboundEmail.enabled) {
+    return { status: 'rejected', reason: 'Inbound email is not configured' };
+  }
+
+  const email = parseEmail(raw);
+  if (isAutoReply(email.headers)) {
+    return { status: 'ignored', reason: 'Automatic reply' };
+  }
+  if (!email.from) {
+    return { status: 'rejected', reason: 'Missing sender address' };
+  }
+
+  const token = findReplyToken(email.recipients);
+  if (!token) {
+    return { status: 'rejected', reason: 'No reply address found in recipients' };
+  }
+  const parentId = verifyReplyToken(token, email.from.address);
+  if (!parentId) {
+    return { status: 'rejected', reason: 'Reply address is invalid or was not issued to the sender' };
+  }
+
+  if (email.messageId) {
+    const existing = await prisma.message.findUnique({
+      where: { emailMessageId: email.messageId },
+      select: { id: true },
+    });
+    if (existing) {
+      return { status: 'duplicate', messageId: existing.id };
+    }
+  }
+
+  const parent = await prisma.message.findUnique({
+    where: { id: parentId },
+    select: {
+      id: true,
+      parentId: true,
+      submission: {
+        select: {
+          id: true,
+          title: true,
+          speakerId: true,
+          eventId: true,
+          isFederated: true,
+          event: { select: { name: true, slug: true, allowReviewerMessages: true } },
+        },
+      },
+    },
+  });
+  if (!parent) {
+    return { status: 'rejected', reason: 'Message not found' };
+  }
+  const { submission } = parent;
+
+  const sender = await prisma.user.findFirst({
+    where: { email: { equals: email.from.address.trim(), mode: 'insensitive' } },
+    select: { id: true, email: true, name: true, role: true },
+  });
+  if (!sender) {
+    return { status: 'rejected', reason: 'Sender has no account' };
+  }
+  const user = decryptPiiFields(sender, USER_PII_FIELDS);
+
+  // Same access rules as the messages API
+  const isSpeaker = submission.speakerId === user.id ||
+    await isAcceptedCoSpeaker(submission.id, user.id);
+  const canManage = await canManageEvent(user, submission.eventId);
+  const canReview = await canReviewEvent(user, submission.eventId);
+
+  const isReviewerOnly = canReview && !canManage && !isSpeaker;
+  if (isReviewerOnly && !submission.event.allowReviewerMessages) {
+    return { status: 'rejected', reason: 'Reviewers are not allowed to message speakers for this event' };
+  }
+  if (!isSpeaker && !canManage && !canReview) {
+    return { status: 'rejected', reason: 'Sender no longer has access to this submission' };
+  }
+
+  let senderType: SenderType = 'ORGANIZER';
+  if (isSpeaker) {
+    senderType = 'SPEAKER';
+  } else if (canManage) {
+    senderType = 'ORGANIZER';
+  } else if (canReview) {
+    senderType = 'REVIEWER';
+  }
+
+  // Only speakers add submission materials
+  const attachments = isSpeaker ? email.attachments : [];
+  const text = extractReplyText(email.text ?? (email.html ? htmlToText(email.html) : ''));
+  if (!text && attachments.length === 0) {
+    return { status: 'rejected', reason: 'Reply is empty' };
+  }
+
+  const { saved, skipped } = await saveAttachments(submission.id, attachments);
+  const notIncluded = isSpeaker ? skipped : email.attachments.map(a => a.filename);
+
+  let body = text;
+  if (saved.length > 0) {
+    body = `${body}\n\nAttached to the submission materials: ${saved.join(', ')}`.trim();
+  }
+  if (!body) {
+    return { status: 'rejected', reason: 'Reply is empty and no attachments could be stored' };
+  }
+
+  const message = await prisma.message.create({
+    data: {
+      submissionId: submission.id,
+      senderId: user.id,
+      senderType,
+      body: body.slice(0, MAX_BODY_LENGTH),
+      // Threads are one level deep - replies attach to the top-level message
+      parentId: parent.parentId ?? parent.id,
+      emailMessageId: email.messageId,
+    },
+  });
+
+  if (submission.isFederated && senderType === 'ORGANIZER') {
+    sendMessageSentWebhook(message.id).catch(err => {
+      console.error('Failed to send submission.message_sent webhook:', err);
+    });
+  }
+
+  await notifyMessageRecipients({
+    messageId: message.id,
+    senderType,
+    senderName: user.name || user.email,
+    body: message.body,
+    submission,
+  });
+
+  await logActivity({
+    userId: user.id,
+    action: 'MESSAGE_SENT',
+    entityType: 'Message',
+    entityId: message.id,
+    metadata: {
+      submissionId: submission.id,
+      senderType,
+      via: 'email',
+      materials: saved.length,
+    },
+    ipAddress,
+  });
+
+  return {
+    status: 'created',
+    messageId: message.id,
+    materials: saved.length,
+    skippedAttachments: notIncluded,
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * RFC 822 / MIME Parsing
+ *
+ * Just enough of RFC 5322 and MIME (RFC 2045-2047, 2231) to read email
+ * replies: folded headers with encoded words, nested multiparts, base64
+ * and quoted-printable bodies in common charsets, and attachments.
+ *
+ * The raw message is handled as a binary (latin1) string so every byte
+ * survives until a part is decoded with its own charset.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedAddress {
+  address: string;
+  name: string | null;
+}
+
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  /** Unfolded header values by lowercase name, in order */
+  headers: Map<string, string[]>;
+  messageId: string | null;
+  from: ParsedAddress | null;
+  /** Addresses from To, Cc and the delivery headers MTAs add */
+  recipients: string[];
+  subject: string | null;
+  text: string | null;
+  html: string | null;
+  attachments: ParsedAttachment[];
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// ============================================================================
+// Headers
+// ============================================================================
+
+const RECIPIENT_HEADERS = ['to', 'cc', 'delivered-to', 'x-original-to', 'envelope-to'];
+
+function splitHeaderBlock(raw: string): { head: string; body: string } {
+  const index = raw.indexOf('\n\n');
+  if (index === -1) {
+    return { head: raw, body: '' };
+  }
+  return { head: raw.slice(0, index), body: raw.slice(index + 2) };
+}
+
+function parseHeaders(head: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  // Unfold continuation lines (RFC 5322 section 2.2.3)
+  const unfolded = head.replace(/\n[ \t]+/g, ' ');
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers.set(name, [...(headers.get(name) ?? []), value]);
+  }
+  return headers;
+}
+
+function firstHeader(headers: Map<string, string[]>, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+/**
+ * Split a structured header such as Content-Type into its value and
+ * parameters, joining RFC 2231 continuations and decoding charset-tagged
+ * parameters
+ */
+export function parseHeaderValue(header: string): HeaderValue {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of header) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  const params: Record<string, string> = {};
+  const extended: Record<string, { index: number; value: string; encoded: boolean }[]> = {};
+
+  for (const part of parts.slice(1)) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    let value = part.slice(eq + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const match = key.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+    if (match && (match[2] !== undefined || match[3])) {
+      const name = match[1];
+      extended[name] = [
+        ...(extended[name] ?? []),
+        { index: match[2] ? parseInt(match[2], 10) : 0, value, encoded: Boolean(match[3]) },
+      ];
+    } else {
+      params[key] = value;
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(extended)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: number[] = [];
+    pieces.forEach((piece, i) => {
+      let value = piece.value;
+      if (piece.encoded) {
+        if (i === 0) {
+          // charset'language'value
+          const [set, , ...rest] = value.split("'");
+          charset = set || charset;
+          value = rest.join("'");
+        }
+        for (const byte of Buffer.from(value.replace(/%([0-9a-f]{2})/gi, (_, hex) =>
+          String.fromCharCode(parseInt(hex, 16))
+        ), 'latin1')) {
+          bytes.push(byte);
+        }
+      } else {
+        for (const byte of Buffer.from(value, 'latin1')) bytes.push(byte);
+      }
+    });
+    params[name] = decodeCharset(Buffer.from(bytes), charset);
+  }
+
+  return { value: parts[0].trim().toLowerCase(), params };
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?charset?B|Q?...?=`) in a header
+ */
+export function decodeEncodedWords(header: string): string {
+  // Raw 8-bit header bytes are almost always UTF-8; values decoded
+  // already (RFC 2231 parameters) are left alone
+  const text = /[^\x00-\xff]/.test(header)
+    ? header
+    : decodeCharset(Buffer.from(header, 'latin1'), 'utf-8');
+  return text
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bBqQ]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_, charset: string, encoding: string, data: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(data, 'base64')
+        : decodeQuotedPrintable(data.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+/**
+ * Parse an address list such as `"Ada L." <ada@example.com>, bob@example.com`
+ */
+export function parseAddressList(header: string): ParsedAddress[] {
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of header) {
+    if (char === '"') quoted = !quoted;
+    if (char === '<' && !quoted) angle = true;
+    if (char === '>' && !quoted) angle = false;
+    if (char === ',' && !quoted && !angle) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  const addresses: ParsedAddress[] = [];
+  for (const entry of entries) {
+    // Drop group syntax ("Team: a@x, b@y;") and comments
+    const cleaned = entry.replace(/^[^<"@]*:\s*/, '').replace(/;\s*$/, '').replace(/\([^)]*\)/g, '').trim();
+    if (!cleaned) continue;
+    const angleMatch = cleaned.match(/<([^>]*)>/);
+    const address = (angleMatch ? angleMatch[1] : cleaned).trim();
+    if (!address.includes('@')) continue;
+    const name = angleMatch
+      ? cleaned.slice(0, angleMatch.index).trim().replace(/^"|"$/g, '').trim()
+      : '';
+    addresses.push({ address, name: name ? decodeEncodedWords(name) : null });
+  }
+  return addresses;
+}
+
+// ============================================================================
+// Bodies
+// ============================================================================
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const text = input.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '=' && /^[0-9a-fA-F]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransfer(body: string, encoding: string | null): Buffer {
+  switch ((encoding ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase() || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// ============================================================================
+// Parts
+// ============================================================================
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split('\n')) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      if (current) parts.push(current.join('\n'));
+      return parts;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  // Missing closing delimiter - keep what was read
+  if (current) parts.push(current.join('\n'));
+  return parts;
+}
+
+function walkPart(raw: string, result: ParsedEmail, depth: number): void {
+  const { head, body } = splitHeaderBlock(raw);
+  const headers = parseHeaders(head);
+  const contentType = parseHeaderValue(firstHeader(headers, 'content-type') ?? 'text/plain');
+  const disposition = parseHeaderValue(firstHeader(headers, 'content-disposition') ?? 'inline');
+  const encoding = firstHeader(headers, 'content-transfer-encoding');
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < 10) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      walkPart(part, result, depth + 1);
+    }
+    return;
+  }
+
+  const rawFilename = disposition.params.filename ?? contentType.params.name ?? null;
+  const filename = rawFilename ? decodeEncodedWords(rawFilename) : null;
+  const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+
+  if (disposition.value === 'attachment' || (filename && !isText) || contentType.value === 'message/rfc822') {
+    result.attachments.push({
+      filename: filename ?? (contentType.value === 'message/rfc822' ? 'message.eml' : 'attachment'),
+      contentType: contentType.value,
+      content: decodeTransfer(body, encoding),
+    });
+    return;
+  }
+
+  if (!isText) return;
+
+  const text = decodeCharset(decodeTransfer(body, encoding), contentType.params.charset ?? 'utf-8');
+  if (contentType.value === 'text/plain' && result.text === null) {
+    result.text = text;
+  } else if (contentType.value === 'text/html' && result.html === null) {
+    result.html = text;
+  }
+}
+
+/**
+ * Parse a raw RFC 822 message
+ */
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const source = (typeof raw === 'string' ? raw : raw.toString('latin1')).replace(/\r\n/g, '\n');
+  const { head } = splitHeaderBlock(source);
+  const headers = parseHeaders(head);
+  const subject = firstHeader(headers, 'subject');
+
+  const result: ParsedEmail = {
+    headers,
+    messageId: firstHeader(headers, 'message-id')?.replace(/^<|>$/g, '').trim() || null,
+    from: parseAddressList(firstHeader(headers, 'from') ?? '')[0] ?? null,
+    recipients: RECIPIENT_HEADERS.flatMap(name =>
+      (headers.get(name) ?? []).flatMap(value => parseAddressList(value).map(a => a.address))
+    ),
+    subject: subject !== null ? decodeEncodedWords(subject) : null,
+    text: null,
+    html: null,
+    attachments: [],
+  };
+
+  walkPart(source, result, 0);
+  return result;
+}
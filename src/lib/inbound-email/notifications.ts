@@ -0,0 +1,99 @@
+/**
+ * Message Notifications
+ *
+ * Email the other side of a submission thread about a new message.
+ * Organizer and reviewer messages go to the speaker and accepted
+ * co-speakers; speaker messages go to the event's review team lead.
+ *
+ * Each email carries a reply-to address signed for its recipient, so the
+ * reply can be threaded back into the conversation by the ingestion
+ * endpoint. Recipients' message preferences decide whether it is sent now,
+ * held for a digest or skipped.
+ */
+
+import type { SenderType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { notifyUser } from '@/lib/notifications';
+import { getMessageReplyAddress } from './reply-address';
+
+export interface MessageNotificationInput {
+  /** The new message; replies are signed against it */
+  messageId: string;
+  senderType: SenderType;
+  senderName: string;
+  body: string;
+  submission: {
+    id: string;
+    title: string;
+    speakerId: string;
+    eventId: string;
+    event: { name: string; slug: string };
+  };
+}
+
+async function getRecipients(input: MessageNotificationInput) {
+  const { submission } = input;
+  if (input.senderType === 'SPEAKER') {
+    // Notify event managers - the first LEAD on the review team
+    const lead = await prisma.reviewTeamMember.findFirst({
+      where: { eventId: submission.eventId, role: 'LEAD' },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+    return lead?.user?.email
+      ? [{ ...decryptPiiFields(lead.user, USER_PII_FIELDS), fallbackName: 'Organizer' }]
+      : [];
+  }
+
+  // Notify the speaker and accepted co-speakers
+  const speakers = await prisma.user.findMany({
+    where: {
+      OR: [
+        { id: submission.speakerId },
+        { coSpeakerOf: { some: { submissionId: submission.id, invitationStatus: 'ACCEPTED' } } },
+      ],
+    },
+    select: { id: true, email: true, name: true },
+  });
+  return speakers.map(speaker => ({
+    ...decryptPiiFields(speaker, USER_PII_FIELDS),
+    fallbackName: 'Speaker',
+  }));
+}
+
+/**
+ * Send new message notifications. Failures are logged, never thrown.
+ */
+export async function notifyMessageRecipients(input: MessageNotificationInput): Promise<void> {
+  try {
+    const messagePath = `/events/${input.submission.event.slug}/submissions/${input.submission.id}`;
+    const messageUrl = `${config.app.url}${messagePath}`;
+    const recipients = await getRecipients(input);
+
+    for (const recipient of recipients) {
+      await notifyUser({
+        user: recipient,
+        category: 'MESSAGE',
+        templateType: 'new_message',
+        variables: {
+          userName: recipient.name || recipient.fallbackName,
+          senderName: input.senderName,
+          eventName: input.submission.event.name,
+          submissionTitle: input.submission.title,
+          messagePreview: input.body.substring(0, 200),
+          messageUrl,
+        },
+        replyTo: getMessageReplyAddress(input.messageId, recipient.email) ?? undefined,
+        notice: {
+          title: `${input.senderName} on "${input.submission.title}"`,
+          summary: input.body,
+          path: messagePath,
+          eventName: input.submission.event.name,
+        },
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to send message notification email:', error);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Reply Addresses
+ *
+ * Message notification emails carry a reply-to address such as
+ * `reply+<messageId>.<signature>@INBOUND_EMAIL_DOMAIN`. The signature is
+ * an HMAC over the message ID and the recipient's email, so a reply is
+ * only accepted from the address the notification went to, and the token
+ * cannot be moved to another thread.
+ *
+ * Tokens are lowercase hex and cuid characters because some mail servers
+ * lowercase the local part. Rotating NEXTAUTH_SECRET invalidates
+ * outstanding reply addresses.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '@/lib/env';
+
+export const REPLY_ADDRESS_PREFIX = 'reply';
+
+/** Hex characters of the HMAC kept in the address (80 bits) */
+const SIGNATURE_LENGTH = 20;
+
+const TOKEN_PATTERN = /^([a-z0-9]{10,40})\.([a-f0-9]+)$/;
+
+function sign(messageId: string, recipientEmail: string): string {
+  // Separate key per purpose, derived from the app secret
+  const key = createHmac('sha256', config.nextAuthSecret).update('inbound-email-reply').digest();
+  return createHmac('sha256', key)
+    .update(`${messageId}:${recipientEmail.trim().toLowerCase()}`)
+    .digest('hex')
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Token for replies from `recipientEmail` to a message
+ */
+export function createReplyToken(messageId: string, recipientEmail: string): string {
+  return `${messageId}.${sign(messageId, recipientEmail)}`;
+}
+
+/**
+ * Reply-to address for a notification, or null when inbound email is not
+ * configured
+ */
+export function getMessageReplyAddress(messageId: string, recipientEmail: string): string | null {
+  if (!config.inboundEmail.enabled || !config.inboundEmail.domain) {
+    return null;
+  }
+  return `${REPLY_ADDRESS_PREFIX}+${createReplyToken(messageId, recipientEmail)}@${config.inboundEmail.domain}`;
+}
+
+/**
+ * The reply token among an email's recipient addresses
+ */
+export function findReplyToken(recipients: string[]): string | null {
+  const domain = config.inboundEmail.domain;
+  for (const recipient of recipients) {
+    const [local, host] = recipient.trim().toLowerCase().split('@');
+    if (!local || !host || (domain && host !== domain)) continue;
+    const prefix = `${REPLY_ADDRESS_PREFIX}+`;
+    if (local.startsWith(prefix)) {
+      return local.slice(prefix.length);
+    }
+  }
+  return null;
+}
+
+/**
+ * The message ID a token replies to, if it was issued to `senderEmail`
+ */
+export function verifyReplyToken(token: string, senderEmail: string): string | null {
+  const match = token.toLowerCase().match(TOKEN_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, messageId, signature] = match;
+  const expected = sign(messageId, senderEmail);
+  if (signature.length !== expected.length) {
+    return null;
+  }
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected)) ? messageId : null;
+}
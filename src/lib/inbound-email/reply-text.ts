@@ -0,0 +1,102 @@
+/**
+ * Reply Text Extraction
+ *
+ * Cut an email reply down to what the sender wrote: quoted history,
+ * forwarded headers and signatures are removed. Pure functions only.
+ */
+
+/** Lines that introduce quoted history, e.g. "On Mon, 1 Jan 2026, Ada <ada@x> wrote:" */
+const QUOTE_HEADER_PATTERNS = [
+  /^On\s.+\swrote:\s*$/i,
+  /^Le\s.+\sa\s+écrit\s*:\s*$/i,
+  /^Am\s.+\sschrieb\s.*:\s*$/i,
+  /^El\s.+\sescribió:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}\s*$/i,
+  /^_{10,}\s*$/,
+];
+
+/** Outlook-style header block: "From: ..." followed by Sent/Date/To/Subject */
+const OUTLOOK_FROM = /^\*?From:\*?\s.+/i;
+const OUTLOOK_FIELD = /^\*?(Sent|Date|To|Cc|Subject):\*?\s/i;
+
+/** Signature delimiters and mobile client footers */
+const SIGNATURE_PATTERNS = [
+  /^--\s*$/,
+  /^Sent from my\s.+$/i,
+  /^Sent from (Mail|Outlook) for\s.+$/i,
+  /^Get Outlook for\s.+$/i,
+];
+
+function isQuoteHeader(lines: string[], index: number): boolean {
+  const line = lines[index].trim();
+  // Clients wrap long "On ... wrote:" lines over two or three lines
+  const joined = lines.slice(index, index + 3).map(l => l.trim()).join(' ');
+  if (QUOTE_HEADER_PATTERNS.some(pattern => pattern.test(line))) return true;
+  if (/^On\s/i.test(line) && /^On\s.+\swrote:/i.test(joined)) return true;
+
+  if (OUTLOOK_FROM.test(line)) {
+    return lines.slice(index + 1, index + 5).some(next => OUTLOOK_FIELD.test(next.trim()));
+  }
+  return false;
+}
+
+/**
+ * The new part of a plain-text reply
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (isQuoteHeader(lines, i)) break;
+    if (SIGNATURE_PATTERNS.some(pattern => pattern.test(line.trim()))) break;
+    if (/^\s*>/.test(line)) continue;
+    kept.push(line.trimEnd());
+  }
+
+  return kept
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Plain text from an HTML reply, without quoted blocks
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Quoted history (Gmail, Apple Mail, Outlook web)
+    .replace(/<blockquote[^>]*>[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<div[^>]*class="[^"]*(gmail_quote|moz-cite-prefix)[^"]*"[^>]*>[\s\S]*$/i, '')
+    .replace(/<div[^>]*id="(divRplyFwdMsg|appendonsend)"[^>]*>[\s\S]*$/i, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n');
+}
+
+/**
+ * Whether a message is an automatic reply (out-of-office, bounce) that
+ * must not be posted to a thread
+ */
+export function isAutoReply(headers: Map<string, string[]>): boolean {
+  const value = (name: string) => headers.get(name)?.[0]?.toLowerCase() ?? null;
+
+  const autoSubmitted = value('auto-submitted');
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+
+  const precedence = value('precedence');
+  if (precedence && ['bulk', 'junk', 'auto_reply'].includes(precedence)) return true;
+
+  return headers.has('x-autoreply') || headers.has('x-autorespond');
+}
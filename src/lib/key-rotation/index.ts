@@ -0,0 +1,32 @@
+/**
+ * Encryption Key Rotation Module Index
+ *
+ * Re-exports key rotation state helpers and the background processor.
+ */
+
+export {
+  type KeyRotationTarget,
+  type KeyRotationError,
+  type KeyRotationVerification,
+  type KeyRotationVerificationEntry,
+  KEY_ROTATION_TARGETS,
+  KEY_ROTATION_TARGET_LABELS,
+  KEY_ROTATION_STATUS_LABELS,
+  KEY_ROTATION_BATCH_SIZE,
+  STALE_KEY_ROTATION_MS,
+  MAX_STORED_KEY_ROTATION_ERRORS,
+  getKeyRotationProgress,
+  isKeyRotationActive,
+  isStaleKeyRotation,
+  appendKeyRotationError,
+} from './state';
+
+export {
+  type KeyRotationSummary,
+  startKeyRotation,
+  runKeyRotation,
+  resumeKeyRotations,
+  verifyKeyRotation,
+  listKeyRotations,
+  getKeyRotation,
+} from './rotation';
@@ -0,0 +1,355 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-encrypts every stored encrypted value with the primary key after
+ * ENCRYPTION_KEY changes. The old key stays readable through
+ * ENCRYPTION_RETIRED_KEYS while the job runs; once verification finds
+ * nothing left on it, the retired key can be removed. Jobs walk the
+ * targets in batches and save a cursor after each, so an interrupted job
+ * resumes where it stopped.
+ */
+
+import type { KeyRotationJob, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  getEncryptionKeyId,
+  getPrimaryKey,
+  needsReEncryption,
+  rotateEncryptedString,
+} from '@/lib/security/encryption';
+import { KEY_ROTATION_HANDLERS } from './targets';
+import {
+  KEY_ROTATION_TARGETS,
+  KEY_ROTATION_BATCH_SIZE,
+  STALE_KEY_ROTATION_MS,
+  appendKeyRotationError,
+  type KeyRotationError,
+  type KeyRotationVerification,
+  type KeyRotationVerificationEntry,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type StartResult =
+  | { error: string; job?: never }
+  | { error: null; job: KeyRotationJob };
+
+/** Job as shown on the encryption page */
+export type KeyRotationSummary = Omit<KeyRotationJob, 'errors' | 'verification'> & {
+  errors: KeyRotationError[];
+  verification: KeyRotationVerification | null;
+  startedBy: { name: string | null; email: string } | null;
+};
+
+function toSummary(
+  job: KeyRotationJob & { startedBy: { name: string | null; email: string } | null }
+): KeyRotationSummary {
+  return {
+    ...job,
+    errors: job.errors as unknown as KeyRotationError[],
+    verification: job.verification as unknown as KeyRotationVerification | null,
+    startedBy: job.startedBy ? decryptPiiFields(job.startedBy, USER_PII_FIELDS) : null,
+  };
+}
+
+// ============================================================================
+// Starting
+// ============================================================================
+
+async function countRecords(): Promise<number> {
+  let total = 0;
+  for (const target of KEY_ROTATION_TARGETS) {
+    total += await KEY_ROTATION_HANDLERS[target].count();
+  }
+  return total;
+}
+
+/**
+ * Queue a rotation onto the current primary key. The caller starts
+ * processing with runKeyRotation; the cron job picks up anything left
+ * behind.
+ */
+export async function startKeyRotation(
+  options: { startedById: string; ipAddress?: string }
+): Promise<StartResult> {
+  const active = await prisma.keyRotationJob.findFirst({
+    where: { status: { in: ['PENDING', 'RUNNING'] } },
+  });
+  if (active) {
+    return { error: 'A key rotation is already in progress' };
+  }
+
+  const primaryKey = getPrimaryKey();
+  const job = await prisma.keyRotationJob.create({
+    data: {
+      keyId: primaryKey.id,
+      startedById: options.startedById,
+      total: await countRecords(),
+    },
+  });
+
+  await logActivity({
+    userId: options.startedById,
+    action: 'ENCRYPTION_KEY_ROTATION_STARTED',
+    entityType: 'Security',
+    entityId: job.id,
+    metadata: { keyId: primaryKey.id, total: job.total },
+    ipAddress: options.ipAddress,
+  });
+
+  return { error: null, job };
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+/**
+ * Process a queued job batch by batch, saving the cursor after each.
+ * Returns false when another worker already claimed it.
+ */
+export async function runKeyRotation(jobId: string): Promise<boolean> {
+  const existing = await prisma.keyRotationJob.findUnique({ where: { id: jobId } });
+  if (!existing) {
+    return false;
+  }
+
+  // Only one worker gets to move PENDING to RUNNING
+  const claimed = await prisma.keyRotationJob.updateMany({
+    where: { id: jobId, status: 'PENDING' },
+    data: { status: 'RUNNING', startedAt: existing.startedAt ?? new Date() },
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  let { targetIndex, cursor, scanned, rotated, failed } = existing;
+  let errors = existing.errors as unknown as KeyRotationError[];
+
+  try {
+    if (getPrimaryKey().id !== existing.keyId) {
+      throw new Error('ENCRYPTION_KEY changed since this rotation started. Start a new rotation.');
+    }
+
+    while (targetIndex < KEY_ROTATION_TARGETS.length) {
+      const target = KEY_ROTATION_TARGETS[targetIndex];
+      const handler = KEY_ROTATION_HANDLERS[target];
+      const records = await handler.fetch(cursor, KEY_ROTATION_BATCH_SIZE);
+
+      for (const record of records) {
+        const updates: Record<string, string> = {};
+        for (const [field, value] of Object.entries(record.values)) {
+          if (!needsReEncryption(value)) continue;
+          try {
+            updates[field] = rotateEncryptedString(value);
+          } catch (error) {
+            failed++;
+            errors = appendKeyRotationError(errors, {
+              target,
+              recordId: record.id,
+              field,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+
+        // A record changed since it was read was saved with the primary key
+        if (Object.keys(updates).length > 0 && await handler.save(record, updates)) {
+          rotated += Object.keys(updates).length;
+        }
+        scanned++;
+      }
+
+      if (records.length < KEY_ROTATION_BATCH_SIZE) {
+        targetIndex++;
+        cursor = null;
+      } else {
+        cursor = records[records.length - 1].id;
+      }
+
+      await prisma.keyRotationJob.update({
+        where: { id: jobId },
+        data: {
+          targetIndex,
+          cursor,
+          scanned,
+          rotated,
+          failed,
+          errors: errors as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    const verification = await scanRemainingValues();
+    await prisma.keyRotationJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        verification: verification as unknown as Prisma.InputJsonValue,
+        verifiedAt: new Date(verification.checkedAt),
+      },
+    });
+  } catch (error) {
+    console.error(`[KeyRotation] Job ${jobId} failed:`, error);
+    await prisma.keyRotationJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'FAILED',
+        completedAt: new Date(),
+        errors: appendKeyRotationError(errors, {
+          target: KEY_ROTATION_TARGETS[Math.min(targetIndex, KEY_ROTATION_TARGETS.length - 1)],
+          recordId: cursor ?? '',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }) as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Run queued jobs and requeue running ones whose worker stopped, e.g.
+ * after a restart. Called by the key-rotation scheduled task.
+ */
+export async function resumeKeyRotations(
+  now: Date = new Date()
+): Promise<{ requeued: number; processed: number }> {
+  const requeued = await prisma.keyRotationJob.updateMany({
+    where: {
+      status: 'RUNNING',
+      updatedAt: { lt: new Date(now.getTime() - STALE_KEY_ROTATION_MS) },
+    },
+    data: { status: 'PENDING' },
+  });
+
+  const pending = await prisma.keyRotationJob.findMany({
+    where: { status: 'PENDING' },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let processed = 0;
+  for (const job of pending) {
+    if (await runKeyRotation(job.id)) {
+      processed++;
+    }
+  }
+
+  return { requeued: requeued.count, processed };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Read every encrypted value and count those not on the primary key
+ */
+async function scanRemainingValues(): Promise<KeyRotationVerification> {
+  const primaryKey = getPrimaryKey();
+  const entries: KeyRotationVerificationEntry[] = [];
+
+  for (const target of KEY_ROTATION_TARGETS) {
+    const handler = KEY_ROTATION_HANDLERS[target];
+    const keyIds = new Set<string>();
+    let remaining = 0;
+    let cursor: string | null = null;
+
+    for (;;) {
+      const records = await handler.fetch(cursor, KEY_ROTATION_BATCH_SIZE);
+      for (const record of records) {
+        for (const value of Object.values(record.values)) {
+          if (needsReEncryption(value)) {
+            remaining++;
+            keyIds.add(getEncryptionKeyId(value) ?? 'unknown');
+          }
+        }
+      }
+      if (records.length < KEY_ROTATION_BATCH_SIZE) break;
+      cursor = records[records.length - 1].id;
+    }
+
+    entries.push({ target, remaining, keyIds: [...keyIds] });
+  }
+
+  return {
+    keyId: primaryKey.id,
+    checkedAt: new Date().toISOString(),
+    clean: entries.every(entry => entry.remaining === 0),
+    entries,
+  };
+}
+
+/**
+ * Check that no encrypted value is left on a retired or legacy key. The
+ * result is stored on the latest finished job for the current primary key.
+ */
+export async function verifyKeyRotation(
+  options: { verifiedById: string; ipAddress?: string }
+): Promise<KeyRotationVerification> {
+  const verification = await scanRemainingValues();
+
+  const latest = await prisma.keyRotationJob.findFirst({
+    where: { keyId: verification.keyId, status: { in: ['COMPLETED', 'FAILED'] } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  });
+  if (latest) {
+    await prisma.keyRotationJob.update({
+      where: { id: latest.id },
+      data: {
+        verification: verification as unknown as Prisma.InputJsonValue,
+        verifiedAt: new Date(verification.checkedAt),
+      },
+    });
+  }
+
+  await logActivity({
+    userId: options.verifiedById,
+    action: 'ENCRYPTION_KEY_ROTATION_VERIFIED',
+    entityType: 'Security',
+    entityId: latest?.id ?? verification.keyId,
+    metadata: {
+      keyId: verification.keyId,
+      clean: verification.clean,
+      remaining: verification.entries.reduce((sum, entry) => sum + entry.remaining, 0),
+    },
+    ipAddress: options.ipAddress,
+  });
+
+  return verification;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * The most recent jobs, newest first
+ */
+export async function listKeyRotations(limit = 5): Promise<KeyRotationSummary[]> {
+  const jobs = await prisma.keyRotationJob.findMany({
+    include: { startedBy: { select: { name: true, email: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return jobs.map(toSummary);
+}
+
+/**
+ * A job, for progress polling
+ */
+export async function getKeyRotation(jobId: string): Promise<KeyRotationSummary | null> {
+  const job = await prisma.keyRotationJob.findUnique({
+    where: { id: jobId },
+    include: { startedBy: { select: { name: true, email: true } } },
+  });
+  return job ? toSummary(job) : null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Key Rotation State
+ *
+ * Labels, progress and recovery rules for encryption key rotation jobs.
+ * Pure functions only - safe to import from client components.
+ */
+
+import type { KeyRotationStatus } from '@prisma/client';
+
+/** Every place the app stores encrypted values, in processing order */
+export const KEY_ROTATION_TARGETS = [
+  'users',
+  'speakerProfiles',
+  'reviewerProfiles',
+  'coSpeakers',
+  'federatedSpeakers',
+  'speakerConfirmations',
+  'outboundEmails',
+  'siteSettings',
+  'identityProviders',
+  'twoFactorSecrets',
+  'webhookEndpoints',
+  'webhookDeliveries',
+  'pluginData',
+  'pluginConfig',
+] as const;
+
+export type KeyRotationTarget = typeof KEY_ROTATION_TARGETS[number];
+
+export const KEY_ROTATION_TARGET_LABELS: Record<KeyRotationTarget, string> = {
+  users: 'User names',
+  speakerProfiles: 'Speaker profiles',
+  reviewerProfiles: 'Reviewer profiles',
+  coSpeakers: 'Co-speakers',
+  federatedSpeakers: 'Federated speakers',
+  speakerConfirmations: 'Speaker confirmations',
+  outboundEmails: 'Queued and sent emails',
+  siteSettings: 'SMTP password and instance private key',
+  identityProviders: 'Identity provider client secrets',
+  twoFactorSecrets: 'Two-factor authentication secrets',
+  webhookEndpoints: 'Webhook signing secrets',
+  webhookDeliveries: 'Webhook delivery bodies',
+  pluginData: 'Encrypted plugin data',
+  pluginConfig: 'Plugin password settings',
+};
+
+export const KEY_ROTATION_STATUS_LABELS: Record<KeyRotationStatus, string> = {
+  PENDING: 'Queued',
+  RUNNING: 'In progress',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+};
+
+export interface KeyRotationError {
+  target: KeyRotationTarget;
+  recordId: string;
+  /** Field that could not be decrypted; unset when the whole job stopped */
+  field?: string;
+  error: string;
+}
+
+/** Values still off the primary key in one target */
+export interface KeyRotationVerificationEntry {
+  target: KeyRotationTarget;
+  /** Values encrypted with a retired key or without a key ID */
+  remaining: number;
+  /** Key IDs seen on those values */
+  keyIds: string[];
+}
+
+export interface KeyRotationVerification {
+  keyId: string;
+  checkedAt: string;
+  /** True when no encrypted value is left off the primary key */
+  clean: boolean;
+  entries: KeyRotationVerificationEntry[];
+}
+
+/** Records re-encrypted per batch before progress is saved */
+export const KEY_ROTATION_BATCH_SIZE = 100;
+
+/** Running jobs not updated for this long are picked up again */
+export const STALE_KEY_ROTATION_MS = 10 * 60 * 1000;
+
+/** Errors kept on a job; the counters still include the rest */
+export const MAX_STORED_KEY_ROTATION_ERRORS = 100;
+
+/**
+ * Percentage of records scanned, 0-100
+ */
+export function getKeyRotationProgress(job: { total: number; scanned: number }): number {
+  if (job.total <= 0) return 100;
+  return Math.min(100, Math.floor((job.scanned / job.total) * 100));
+}
+
+/**
+ * Whether the job still has records to process
+ */
+export function isKeyRotationActive(status: KeyRotationStatus): boolean {
+  return status === 'PENDING' || status === 'RUNNING';
+}
+
+/**
+ * A running job whose worker stopped updating it, e.g. after a server
+ * restart
+ */
+export function isStaleKeyRotation(
+  job: { status: KeyRotationStatus; updatedAt: Date },
+  now: Date = new Date()
+): boolean {
+  return (
+    job.status === 'RUNNING' &&
+    now.getTime() - job.updatedAt.getTime() > STALE_KEY_ROTATION_MS
+  );
+}
+
+/**
+ * Record a failed value, keeping at most MAX_STORED_KEY_ROTATION_ERRORS
+ */
+export function appendKeyRotationError(
+  errors: KeyRotationError[],
+  error: KeyRotationError
+): KeyRotationError[] {
+  return errors.length >= MAX_STORED_KEY_ROTATION_ERRORS ? errors : [...errors, error];
+}
@@ -0,0 +1,190 @@
+/**
+ * Key Rotation Targets
+ *
+ * Where encrypted values live, and how to page through and update them.
+ * Each target yields records with their encrypted string values; saving
+ * only succeeds if the stored values are still the ones that were read, so
+ * a value changed by a user mid-rotation (already on the primary key) is
+ * never overwritten with a stale copy.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import {
+  isEncrypted,
+  USER_PII_FIELDS,
+  SPEAKER_PROFILE_PII_FIELDS,
+  REVIEWER_PROFILE_PII_FIELDS,
+  CO_SPEAKER_PII_FIELDS,
+  FEDERATED_SPEAKER_PII_FIELDS,
+  SPEAKER_CONFIRMATION_PII_FIELDS,
+} from '@/lib/security/encryption';
+import { getPasswordFields } from '@/lib/plugins/config-encryption';
+import type { JSONSchema } from '@/lib/plugins/types';
+import type { KeyRotationTarget } from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RotationRecord {
+  id: string;
+  /** Encrypted values by field name */
+  values: Record<string, string>;
+}
+
+export interface RotationTargetHandler {
+  /** Records to scan, for progress */
+  count(): Promise<number>;
+  /** Next page of records with an ID after the cursor */
+  fetch(cursor: string | null, take: number): Promise<RotationRecord[]>;
+  /** Store re-encrypted values; false if the record changed since fetch */
+  save(record: RotationRecord, values: Record<string, string>): Promise<boolean>;
+}
+
+/**
+ * The parts of a Prisma model delegate the column targets use. Prisma's
+ * generated signatures are generic per model, so delegates are cast to this.
+ */
+interface ModelDelegate {
+  count(): Promise<number>;
+  findMany(args: object): Promise<Array<Record<string, unknown>>>;
+  updateMany(args: object): Promise<{ count: number }>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function afterCursor(cursor: string | null) {
+  return cursor ? { id: { gt: cursor } } : {};
+}
+
+function encryptedValues(
+  data: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const field of fields) {
+    const value = data[field];
+    if (typeof value === 'string' && isEncrypted(value)) {
+      values[field] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * A model whose encrypted values are plain string columns
+ */
+function columnTarget(delegate: unknown, fields: readonly string[]): RotationTargetHandler {
+  const model = delegate as ModelDelegate;
+  const select = Object.fromEntries([['id', true], ...fields.map(field => [field, true])]);
+
+  return {
+    count: () => model.count(),
+    async fetch(cursor, take) {
+      const rows = await model.findMany({
+        where: afterCursor(cursor),
+        select,
+        orderBy: { id: 'asc' },
+        take,
+      });
+      return rows.map(row => ({ id: row.id as string, values: encryptedValues(row, fields) }));
+    },
+    async save(record, values) {
+      const where = { id: record.id, ...Object.fromEntries(
+        Object.keys(values).map(field => [field, record.values[field]])
+      ) };
+      const result = await model.updateMany({ where, data: values });
+      return result.count > 0;
+    },
+  };
+}
+
+// ============================================================================
+// Plugin Targets
+// ============================================================================
+
+/**
+ * PluginData rows stored with `encrypted: true`; the whole JSON value is
+ * one encrypted string
+ */
+const pluginDataTarget: RotationTargetHandler = {
+  count: () => prisma.pluginData.count({ where: { encrypted: true } }),
+  async fetch(cursor, take) {
+    const rows = await prisma.pluginData.findMany({
+      where: { encrypted: true, ...afterCursor(cursor) },
+      select: { id: true, value: true },
+      orderBy: { id: 'asc' },
+      take,
+    });
+    return rows.map(row => ({ id: row.id, values: encryptedValues(row, ['value']) }));
+  },
+  async save(record, values) {
+    const result = await prisma.pluginData.updateMany({
+      where: { id: record.id, value: { equals: record.values.value } },
+      data: { value: values.value },
+    });
+    return result.count > 0;
+  },
+};
+
+/**
+ * Password fields (format: "password") of each plugin's config
+ */
+const pluginConfigTarget: RotationTargetHandler = {
+  count: () => prisma.plugin.count(),
+  async fetch(cursor, take) {
+    const plugins = await prisma.plugin.findMany({
+      where: afterCursor(cursor),
+      select: { id: true, config: true, configSchema: true },
+      orderBy: { id: 'asc' },
+      take,
+    });
+    return plugins.map(plugin => {
+      const passwordFields = getPasswordFields(plugin.configSchema as JSONSchema | null);
+      const config = (plugin.config ?? {}) as Record<string, unknown>;
+      return { id: plugin.id, values: encryptedValues(config, passwordFields) };
+    });
+  },
+  async save(record, values) {
+    const plugin = await prisma.plugin.findUnique({
+      where: { id: record.id },
+      select: { config: true },
+    });
+    const config = (plugin?.config ?? {}) as Record<string, unknown>;
+    const unchanged = Object.keys(values).every(field => config[field] === record.values[field]);
+    if (!plugin || !unchanged) {
+      return false;
+    }
+
+    // Guard on the whole config so a concurrent settings save is not lost
+    const result = await prisma.plugin.updateMany({
+      where: { id: record.id, config: { equals: plugin.config as Prisma.InputJsonValue } },
+      data: { config: { ...config, ...values } as Prisma.InputJsonValue },
+    });
+    return result.count > 0;
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const KEY_ROTATION_HANDLERS: Record<KeyRotationTarget, RotationTargetHandler> = {
+  users: columnTarget(prisma.user, USER_PII_FIELDS),
+  speakerProfiles: columnTarget(prisma.speakerProfile, SPEAKER_PROFILE_PII_FIELDS),
+  reviewerProfiles: columnTarget(prisma.reviewerProfile, REVIEWER_PROFILE_PII_FIELDS),
+  coSpeakers: columnTarget(prisma.coSpeaker, CO_SPEAKER_PII_FIELDS),
+  federatedSpeakers: columnTarget(prisma.federatedSpeaker, FEDERATED_SPEAKER_PII_FIELDS),
+  speakerConfirmations: columnTarget(prisma.speakerConfirmation, SPEAKER_CONFIRMATION_PII_FIELDS),
+  outboundEmails: columnTarget(prisma.outboundEmail, ['html', 'text']),
+  siteSettings: columnTarget(prisma.siteSettings, ['smtpPass', 'instancePrivateKeyEncrypted']),
+  identityProviders: columnTarget(prisma.identityProvider, ['clientSecret']),
+  twoFactorSecrets: columnTarget(prisma.user, ['twoFactorSecret']),
+  webhookEndpoints: columnTarget(prisma.webhookEndpoint, ['secret']),
+  webhookDeliveries: columnTarget(prisma.webhookDelivery, ['requestBody']),
+  pluginData: pluginDataTarget,
+  pluginConfig: pluginConfigTarget,
+};
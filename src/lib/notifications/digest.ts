@@ -0,0 +1,99 @@
+/**
+ * Notification Digests
+ *
+ * Batch each user's held notifications into one `notification_digest`
+ * email once their daily or weekly digest is due. Run by the
+ * notification-digests cron job.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { emailService } from '@/lib/email/email-service';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import {
+  DIGEST_BATCH_SIZE,
+  DIGEST_ITEM_RETENTION_DAYS,
+  getDigestPeriod,
+  renderDigestItems,
+} from './state';
+import { getListUnsubscribeHeaders, getUnsubscribeLinks } from './unsubscribe';
+
+export interface DigestRunSummary {
+  users: number;
+  sent: number;
+  failed: number;
+  items: number;
+  purged: number;
+}
+
+/**
+ * Send one user's due digest. True when the email was sent or queued,
+ * after which the items are removed.
+ */
+async function sendUserDigest(userId: string, now: Date): Promise<{ sent: boolean; items: number }> {
+  const [user, items] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, name: true } }),
+    prisma.notificationDigestItem.findMany({
+      where: { userId, dueAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  if (!user || items.length === 0) {
+    return { sent: false, items: 0 };
+  }
+
+  const { name } = decryptPiiFields(user, USER_PII_FIELDS);
+  const links = getUnsubscribeLinks(user.id, null);
+  const result = await emailService.sendTemplatedEmail({
+    to: user.email,
+    templateType: 'notification_digest',
+    variables: {
+      userName: name || 'there',
+      period: getDigestPeriod(items),
+      itemCount: String(items.length),
+      digestItems: renderDigestItems(items),
+      unsubscribeUrl: links.unsubscribeUrl,
+      preferencesUrl: links.preferencesUrl,
+    },
+    headers: getListUnsubscribeHeaders(links),
+  });
+
+  if (!result.success && !result.queued) {
+    console.warn(`[Notifications] Digest for ${user.id} not sent: ${result.error}`);
+    return { sent: false, items: items.length };
+  }
+
+  await prisma.notificationDigestItem.deleteMany({
+    where: { id: { in: items.map(item => item.id) } },
+  });
+  return { sent: true, items: items.length };
+}
+
+/**
+ * Send digests that are due, then drop items too old to send
+ */
+export async function processNotificationDigests(now: Date = new Date()): Promise<DigestRunSummary> {
+  const due = await prisma.notificationDigestItem.groupBy({
+    by: ['userId'],
+    where: { dueAt: { lte: now } },
+    orderBy: { userId: 'asc' },
+    take: DIGEST_BATCH_SIZE,
+  });
+
+  const summary: DigestRunSummary = { users: due.length, sent: 0, failed: 0, items: 0, purged: 0 };
+  for (const { userId } of due) {
+    const result = await sendUserDigest(userId, now);
+    if (result.sent) {
+      summary.sent++;
+      summary.items += result.items;
+    } else if (result.items > 0) {
+      summary.failed++;
+    }
+  }
+
+  const { count } = await prisma.notificationDigestItem.deleteMany({
+    where: { dueAt: { lt: new Date(now.getTime() - DIGEST_ITEM_RETENTION_DAYS * 86400000) } },
+  });
+  summary.purged = count;
+
+  return summary;
+}
@@ -0,0 +1,149 @@
+/**
+ * In-App Notifications
+ *
+ * Store, list and mark read the entries of the dashboard notification
+ * center, skipping users who turned a category off for the in-app channel.
+ * New entries and unread counts are published to the user's open streams.
+ */
+
+import type { Notification, NotificationCategory } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { NOTIFICATION_PAGE_SIZE, NOTIFICATION_RETENTION_DAYS } from './state';
+import { publishNotificationEvent, type StreamedNotification } from './realtime';
+
+export interface InAppNotificationInput {
+  category: NotificationCategory;
+  title: string;
+  body?: string | null;
+  /** Relative link to what the notification is about */
+  url?: string | null;
+  /** Plugin name for plugin notices */
+  source?: string | null;
+}
+
+const TITLE_LENGTH = 200;
+const BODY_LENGTH = 500;
+
+/**
+ * The shape sent to the browser
+ */
+export function toStreamedNotification(notification: Notification): StreamedNotification {
+  return {
+    id: notification.id,
+    category: notification.category,
+    title: notification.title,
+    body: notification.body,
+    url: notification.url,
+    source: notification.source,
+    readAt: notification.readAt?.toISOString() ?? null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Unread notifications for a user
+ */
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  return prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+/**
+ * Add a notification to each user's notification center, unless they
+ * turned the category off. Returns how many were created.
+ */
+export async function createInAppNotifications(
+  userIds: string[],
+  input: InAppNotificationInput
+): Promise<number> {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return 0;
+  }
+
+  const optedOut = await prisma.notificationPreference.findMany({
+    where: {
+      userId: { in: uniqueIds },
+      channel: 'IN_APP',
+      category: input.category,
+      frequency: 'OFF',
+    },
+    select: { userId: true },
+  });
+  const skip = new Set(optedOut.map(pref => pref.userId));
+  const recipients = uniqueIds.filter(id => !skip.has(id));
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  const body = input.body?.trim() || null;
+  const created = await prisma.notification.createManyAndReturn({
+    data: recipients.map(userId => ({
+      userId,
+      category: input.category,
+      title: input.title.slice(0, TITLE_LENGTH),
+      body: body && body.length > BODY_LENGTH ? `${body.slice(0, BODY_LENGTH)}...` : body,
+      url: input.url ?? null,
+      source: input.source ?? null,
+    })),
+  });
+
+  // Open streams add each one to the list and the unread badge
+  for (const notification of created) {
+    publishNotificationEvent(notification.userId, {
+      type: 'notification',
+      notification: toStreamedNotification(notification),
+    });
+  }
+  return created.length;
+}
+
+/**
+ * A page of a user's notifications, newest first
+ */
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; page?: number; limit?: number } = {}
+): Promise<{ notifications: StreamedNotification[]; total: number; unreadCount: number }> {
+  const limit = options.limit ?? NOTIFICATION_PAGE_SIZE;
+  const page = options.page ?? 1;
+  const where = { userId, ...(options.unreadOnly ? { readAt: null } : {}) };
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.notification.count({ where }),
+    getUnreadNotificationCount(userId),
+  ]);
+
+  return { notifications: notifications.map(toStreamedNotification), total, unreadCount };
+}
+
+/**
+ * Mark some of a user's notifications read, or all of them when no IDs
+ * are given. Returns the new unread count.
+ */
+export async function markNotificationsRead(userId: string, ids: string[] | null): Promise<number> {
+  await prisma.notification.updateMany({
+    where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+    data: { readAt: new Date() },
+  });
+
+  // Other tabs clear their badge too
+  const count = await getUnreadNotificationCount(userId);
+  publishNotificationEvent(userId, { type: 'unread', count });
+  return count;
+}
+
+/**
+ * Delete notifications past the retention period
+ */
+export async function purgeNotifications(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.notification.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - NOTIFICATION_RETENTION_DAYS * 86400000) } },
+  });
+  return count;
+}
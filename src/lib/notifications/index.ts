@@ -0,0 +1,82 @@
+/**
+ * Notifications Module Index
+ *
+ * Re-exports notification preference state, preference storage,
+ * unsubscribe links, delivery, digests and the in-app notification center.
+ */
+
+export {
+  type DigestFrequency,
+  type NotificationPreferenceMap,
+  type DigestEntry,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_FREQUENCIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATION_CATEGORY_DESCRIPTIONS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_FREQUENCY_LABELS,
+  DEFAULT_NOTIFICATION_FREQUENCY,
+  DIGEST_HOUR_UTC,
+  WEEKLY_DIGEST_DAY,
+  DIGEST_BATCH_SIZE,
+  DIGEST_ITEM_RETENTION_DAYS,
+  NOTIFICATION_CHANNEL_CATEGORIES,
+  NOTIFICATION_CHANNEL_FREQUENCIES,
+  NOTIFICATION_PAGE_SIZE,
+  NOTIFICATION_RETENTION_DAYS,
+  isValidNotificationSetting,
+  getNotificationFrequencyLabel,
+  isDigestFrequency,
+  resolveNotificationPreferences,
+  getDigestDueAt,
+  getDigestPeriod,
+  renderDigestItems,
+} from './state';
+
+export {
+  type NotificationPreferenceUpdate,
+  getNotificationPreferences,
+  getNotificationFrequency,
+  updateNotificationPreferences,
+  unsubscribeFromNotifications,
+} from './preferences';
+
+export {
+  type UnsubscribeLinks,
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  getUnsubscribeLinks,
+  getListUnsubscribeHeaders,
+} from './unsubscribe';
+
+export {
+  type NotificationRecipient,
+  type NotifyUserInput,
+  type NotificationOutcome,
+  notifyUser,
+  notifyNewSubmission,
+  notifySubmissionStatusChange,
+  notifyNewReview,
+  notifyDiscussionReply,
+  notifySubmissionDiscussion,
+} from './notify';
+
+export { type DigestRunSummary, processNotificationDigests } from './digest';
+
+export {
+  type InAppNotificationInput,
+  toStreamedNotification,
+  getUnreadNotificationCount,
+  createInAppNotifications,
+  listNotifications,
+  markNotificationsRead,
+  purgeNotifications,
+} from './in-app';
+
+export {
+  type StreamedNotification,
+  type NotificationEvent,
+  publishNotificationEvent,
+  subscribeToNotificationEvents,
+} from './realtime';
@@ -0,0 +1,429 @@
+/**
+ * Notification Delivery
+ *
+ * Route a notification through the recipient's preferences for its
+ * category: add it to their notification center unless in-app
+ * notifications are off, then send the email now with unsubscribe links,
+ * hold it for their daily or weekly digest, or drop it. Also the triggers
+ * for new submissions, status changes, new reviews, review discussion
+ * replies and @mentions in submission discussions. Review deadline
+ * reminders are sent from the reviews module.
+ *
+ * Only these notification categories pass through preferences;
+ * transactional mail is sent directly by the email service.
+ */
+
+import type { NotificationCategory, SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { emailService } from '@/lib/email/email-service';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { getDiscussionPostSummary } from '@/lib/reviews/discussions';
+import { getThreadRootId } from '@/lib/reviews/discussion-threads';
+import type { EmailTemplateType } from '@/types/email-templates';
+import { getNotificationFrequency } from './preferences';
+import { createInAppNotifications } from './in-app';
+import { getDigestDueAt, isDigestFrequency } from './state';
+import { getListUnsubscribeHeaders, getUnsubscribeLinks } from './unsubscribe';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationRecipient = {
+  id: string;
+  email: string;
+  name: string | null;
+};
+
+export interface NotifyUserInput {
+  user: NotificationRecipient;
+  category: NotificationCategory;
+  /** Template for the immediate email */
+  templateType: EmailTemplateType;
+  variables: Record<string, string>;
+  replyTo?: string;
+  /** How the notification reads in the notification center and digests */
+  notice: {
+    title: string;
+    summary?: string | null;
+    /** Path within the site, e.g. /events/conf/submissions/abc */
+    path: string;
+    eventName?: string | null;
+  };
+}
+
+/** What happened to the email; the in-app notification is separate */
+export type NotificationOutcome = 'sent' | 'digest' | 'off' | 'failed';
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Deliver one notification according to the user's preferences
+ */
+export async function notifyUser(input: NotifyUserInput, now: Date = new Date()): Promise<NotificationOutcome> {
+  await createInAppNotifications([input.user.id], {
+    category: input.category,
+    title: input.notice.title,
+    body: input.notice.summary,
+    url: input.notice.path,
+  });
+
+  const frequency = await getNotificationFrequency(input.user.id, input.category, 'EMAIL');
+
+  if (frequency === 'OFF') {
+    return 'off';
+  }
+
+  if (isDigestFrequency(frequency)) {
+    await prisma.notificationDigestItem.create({
+      data: {
+        userId: input.user.id,
+        category: input.category,
+        frequency,
+        title: input.notice.title,
+        summary: input.notice.summary ?? null,
+        url: `${config.app.url}${input.notice.path}`,
+        eventName: input.notice.eventName ?? null,
+        dueAt: getDigestDueAt(frequency, now),
+      },
+    });
+    return 'digest';
+  }
+
+  const links = getUnsubscribeLinks(input.user.id, input.category);
+  const result = await emailService.sendTemplatedEmail({
+    to: input.user.email,
+    templateType: input.templateType,
+    variables: {
+      ...input.variables,
+      unsubscribeUrl: links.unsubscribeUrl,
+      preferencesUrl: links.preferencesUrl,
+    },
+    replyTo: input.replyTo,
+    headers: getListUnsubscribeHeaders(links),
+  });
+  return result.success || result.queued ? 'sent' : 'failed';
+}
+
+function submissionPath(eventSlug: string, submissionId: string): string {
+  return `/events/${eventSlug}/submissions/${submissionId}`;
+}
+
+function recipient(user: NotificationRecipient): NotificationRecipient {
+  return decryptPiiFields(user, USER_PII_FIELDS);
+}
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+  PENDING: 'Pending',
+  UNDER_REVIEW: 'Under Review',
+  ACCEPTED: 'Accepted',
+  REJECTED: 'Not Selected',
+  WAITLISTED: 'Waitlisted',
+  WITHDRAWN: 'Withdrawn',
+};
+
+// ============================================================================
+// Triggers
+// ============================================================================
+
+/**
+ * Tell the event's review team about a new submission, if the event asks
+ * for it. Failures are logged, never thrown.
+ */
+export async function notifyNewSubmission(submissionId: string): Promise<void> {
+  try {
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: {
+        id: true,
+        title: true,
+        speakerId: true,
+        track: { select: { name: true } },
+        event: { select: { id: true, name: true, slug: true, notifyOnNewSubmission: true } },
+      },
+    });
+    if (!submission?.event.notifyOnNewSubmission) return;
+
+    const members = await prisma.reviewTeamMember.findMany({
+      where: { eventId: submission.event.id, userId: { not: submission.speakerId } },
+      select: { user: { select: { id: true, email: true, name: true } } },
+    });
+
+    const path = submissionPath(submission.event.slug, submission.id);
+    const trackName = submission.track?.name ?? 'No track';
+    for (const member of members) {
+      const user = recipient(member.user);
+      await notifyUser({
+        user,
+        category: 'NEW_SUBMISSION',
+        templateType: 'new_submission',
+        variables: {
+          userName: user.name || 'Reviewer',
+          eventName: submission.event.name,
+          submissionTitle: submission.title,
+          trackName,
+          submissionUrl: `${config.app.url}${path}`,
+        },
+        notice: {
+          title: submission.title,
+          summary: trackName,
+          path,
+          eventName: submission.event.name,
+        },
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to send new submission notifications:', error);
+  }
+}
+
+/**
+ * Tell the speaker and accepted co-speakers that their submission's status
+ * changed. In-app only: decisions are emailed as transactional mail.
+ */
+export async function notifySubmissionStatusChange(submissionId: string): Promise<void> {
+  try {
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        speakerId: true,
+        coSpeakers: {
+          where: { invitationStatus: 'ACCEPTED', linkedUserId: { not: null } },
+          select: { linkedUserId: true },
+        },
+        event: { select: { name: true, slug: true } },
+      },
+    });
+    if (!submission) return;
+
+    const userIds = [
+      submission.speakerId,
+      ...submission.coSpeakers.map(coSpeaker => coSpeaker.linkedUserId as string),
+    ];
+    await createInAppNotifications(userIds, {
+      category: 'STATUS_CHANGE',
+      title: submission.title,
+      body: `Status changed to ${STATUS_LABELS[submission.status]} for ${submission.event.name}`,
+      url: submissionPath(submission.event.slug, submission.id),
+    });
+  } catch (error) {
+    console.warn('Failed to send status change notifications:', error);
+  }
+}
+
+/**
+ * Tell the event's lead reviewers about a new review, if the event asks
+ * for it. Reviewer identities are left out so blind review holds.
+ */
+export async function notifyNewReview(reviewId: string): Promise<void> {
+  try {
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      select: {
+        reviewerId: true,
+        submission: {
+          select: {
+            id: true,
+            title: true,
+            _count: { select: { reviews: true } },
+            event: { select: { id: true, name: true, slug: true, notifyOnNewReview: true } },
+          },
+        },
+      },
+    });
+    if (!review?.submission.event.notifyOnNewReview) return;
+    const { submission } = review;
+
+    const leads = await prisma.reviewTeamMember.findMany({
+      where: { eventId: submission.event.id, role: 'LEAD', userId: { not: review.reviewerId } },
+      select: { user: { select: { id: true, email: true, name: true } } },
+    });
+
+    const path = submissionPath(submission.event.slug, submission.id);
+    const reviewCount = String(submission._count.reviews);
+    for (const lead of leads) {
+      const user = recipient(lead.user);
+      await notifyUser({
+        user,
+        category: 'NEW_REVIEW',
+        templateType: 'new_review',
+        variables: {
+          userName: user.name || 'Organizer',
+          eventName: submission.event.name,
+          submissionTitle: submission.title,
+          reviewCount,
+          submissionUrl: `${config.app.url}${path}`,
+        },
+        notice: {
+          title: submission.title,
+          summary: `${reviewCount} review(s) so far`,
+          path,
+          eventName: submission.event.name,
+        },
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to send new review notifications:', error);
+  }
+}
+
+/**
+ * Tell the review's author and earlier participants about a new comment
+ * in a review discussion
+ */
+export async function notifyDiscussionReply(discussionId: string): Promise<void> {
+  try {
+    const discussion = await prisma.reviewDiscussion.findUnique({
+      where: { id: discussionId },
+      select: {
+        authorId: true,
+        content: true,
+        review: {
+          select: {
+            id: true,
+            reviewerId: true,
+            submission: {
+              select: { id: true, title: true, event: { select: { id: true, name: true, slug: true } } },
+            },
+          },
+        },
+      },
+    });
+    if (!discussion) return;
+    const { review } = discussion;
+    const { submission } = review;
+
+    const earlier = await prisma.reviewDiscussion.findMany({
+      where: { reviewId: review.id },
+      select: { authorId: true },
+      distinct: ['authorId'],
+    });
+    const participantIds = [...new Set([review.reviewerId, ...earlier.map(d => d.authorId)])]
+      .filter(id => id !== discussion.authorId);
+    if (participantIds.length === 0) return;
+
+    // Only people who can still see the discussion
+    const participants = await prisma.user.findMany({
+      where: {
+        id: { in: participantIds },
+        OR: [
+          { role: 'ADMIN' },
+          { reviewTeamEvents: { some: { eventId: submission.event.id } } },
+        ],
+      },
+      select: { id: true, email: true, name: true },
+    });
+
+    const path = submissionPath(submission.event.slug, submission.id);
+    for (const participant of participants) {
+      const user = recipient(participant);
+      await notifyUser({
+        user,
+        category: 'DISCUSSION_REPLY',
+        templateType: 'discussion_reply',
+        variables: {
+          userName: user.name || 'Reviewer',
+          eventName: submission.event.name,
+          submissionTitle: submission.title,
+          commentPreview: discussion.content.substring(0, 200),
+          submissionUrl: `${config.app.url}${path}`,
+        },
+        notice: {
+          title: submission.title,
+          summary: discussion.content,
+          path,
+          eventName: submission.event.name,
+        },
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to send review discussion notifications:', error);
+  }
+}
+
+/**
+ * Tell people @mentioned in a submission discussion post, and earlier
+ * participants in its thread, about the post. Names follow each
+ * recipient's anonymity view, so double-blind aliases hold in email too.
+ */
+export async function notifySubmissionDiscussion(discussionId: string): Promise<void> {
+  try {
+    const post = await prisma.submissionDiscussion.findUnique({
+      where: { id: discussionId },
+      select: {
+        id: true,
+        authorId: true,
+        submissionId: true,
+        mentions: { select: { userId: true } },
+        submission: {
+          select: { id: true, title: true, event: { select: { id: true, name: true, slug: true } } },
+        },
+      },
+    });
+    if (!post) return;
+    const { submission } = post;
+
+    const posts = await prisma.submissionDiscussion.findMany({
+      where: { submissionId: post.submissionId },
+      select: { id: true, parentId: true, authorId: true },
+    });
+    const parentOf = new Map(posts.map(p => [p.id, p.parentId]));
+    const threadId = getThreadRootId(post.id, parentOf);
+    const mentionedIds = new Set(post.mentions.map(mention => mention.userId));
+    const threadAuthorIds = posts
+      .filter(p => getThreadRootId(p.id, parentOf) === threadId)
+      .map(p => p.authorId);
+
+    const recipientIds = [...new Set([...mentionedIds, ...threadAuthorIds])]
+      .filter(id => id !== post.authorId);
+    if (recipientIds.length === 0) return;
+
+    // Only people who can still see the discussion
+    const recipients = await prisma.user.findMany({
+      where: {
+        id: { in: recipientIds },
+        OR: [
+          { role: { in: ['ADMIN', 'ORGANIZER'] } },
+          { reviewTeamEvents: { some: { eventId: submission.event.id } } },
+        ],
+      },
+      select: { id: true, email: true, name: true, role: true },
+    });
+
+    const path = `${submissionPath(submission.event.slug, submission.id)}?tab=discussion`;
+    for (const { role, ...member } of recipients) {
+      const summary = await getDiscussionPostSummary(post.id, { id: member.id, role });
+      if (!summary) continue;
+
+      const user = recipient(member);
+      const mentioned = mentionedIds.has(user.id);
+      await notifyUser({
+        user,
+        category: mentioned ? 'MENTION' : 'DISCUSSION_REPLY',
+        templateType: mentioned ? 'discussion_mention' : 'discussion_reply',
+        variables: {
+          userName: user.name || 'Reviewer',
+          authorName: summary.authorName,
+          eventName: submission.event.name,
+          submissionTitle: submission.title,
+          commentPreview: summary.preview.substring(0, 200),
+          submissionUrl: `${config.app.url}${path}`,
+        },
+        notice: {
+          title: submission.title,
+          summary: mentioned ? `${summary.authorName} mentioned you: ${summary.preview}` : summary.preview,
+          path,
+          eventName: submission.event.name,
+        },
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to send submission discussion notifications:', error);
+  }
+}
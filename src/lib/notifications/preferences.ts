@@ -0,0 +1,130 @@
+/**
+ * Notification Preferences
+ *
+ * Read and change how often each user hears about each category of
+ * notification. Only categories changed from the default are stored.
+ */
+
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationFrequency,
+} from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import {
+  DEFAULT_NOTIFICATION_FREQUENCY,
+  NOTIFICATION_CHANNEL_CATEGORIES,
+  resolveNotificationPreferences,
+  type NotificationPreferenceMap,
+} from './state';
+
+export interface NotificationPreferenceUpdate {
+  channel: NotificationChannel;
+  category: NotificationCategory;
+  frequency: NotificationFrequency;
+}
+
+/**
+ * A user's preferences for every channel and category
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferenceMap> {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId },
+    select: { channel: true, category: true, frequency: true },
+  });
+  return resolveNotificationPreferences(rows);
+}
+
+/**
+ * How often a user wants one category on one channel
+ */
+export async function getNotificationFrequency(
+  userId: string,
+  category: NotificationCategory,
+  channel: NotificationChannel = 'EMAIL'
+): Promise<NotificationFrequency> {
+  const row = await prisma.notificationPreference.findUnique({
+    where: { userId_channel_category: { userId, channel, category } },
+    select: { frequency: true },
+  });
+  return row?.frequency ?? DEFAULT_NOTIFICATION_FREQUENCY;
+}
+
+async function savePreferences(userId: string, updates: NotificationPreferenceUpdate[]): Promise<void> {
+  await prisma.$transaction(
+    updates.map(({ channel, category, frequency }) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_channel_category: { userId, channel, category } },
+        create: { userId, channel, category, frequency },
+        update: { frequency },
+      })
+    )
+  );
+
+  // Notifications waiting for a digest the user just turned off are dropped
+  const turnedOff = updates
+    .filter(update => update.channel === 'EMAIL' && update.frequency === 'OFF')
+    .map(update => update.category);
+  if (turnedOff.length > 0) {
+    await prisma.notificationDigestItem.deleteMany({
+      where: { userId, category: { in: turnedOff } },
+    });
+  }
+}
+
+/**
+ * Change preferences from the account page
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: NotificationPreferenceUpdate[],
+  ipAddress?: string
+): Promise<NotificationPreferenceMap> {
+  await savePreferences(userId, updates);
+
+  await logActivity({
+    userId,
+    action: 'USER_NOTIFICATIONS_UPDATED',
+    entityType: 'User',
+    entityId: userId,
+    metadata: {
+      changes: updates.map(u => `${u.channel}:${u.category}=${u.frequency}`).join(', '),
+    },
+    ipAddress,
+  });
+
+  return getNotificationPreferences(userId);
+}
+
+/**
+ * Turn email off for one category, or for all of them, from an
+ * unsubscribe link
+ */
+export async function unsubscribeFromNotifications(
+  userId: string,
+  category: NotificationCategory | null,
+  ipAddress?: string
+): Promise<{ error: string } | { error: null }> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  if (!user) {
+    return { error: 'Account not found' };
+  }
+
+  const categories = category ? [category] : NOTIFICATION_CHANNEL_CATEGORIES.EMAIL;
+  await savePreferences(
+    userId,
+    categories.map(c => ({ channel: 'EMAIL', category: c, frequency: 'OFF' }))
+  );
+
+  await logActivity({
+    userId,
+    action: 'USER_NOTIFICATIONS_UNSUBSCRIBED',
+    entityType: 'User',
+    entityId: userId,
+    metadata: { category },
+    ipAddress,
+  });
+
+  return { error: null };
+}
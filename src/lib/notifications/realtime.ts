@@ -0,0 +1,66 @@
+/**
+ * Notification Events
+ *
+ * In-process publish/subscribe for the notification stream. Creating or
+ * reading notifications publishes to the user's subscribers, which are the
+ * open server-sent-event streams of their browser tabs.
+ *
+ * Subscribers only hear about notifications created by the same server
+ * process; the stream also re-checks the unread count periodically so
+ * deployments with several instances stay in sync.
+ */
+
+import { EventEmitter } from 'events';
+
+export interface StreamedNotification {
+  id: string;
+  category: string;
+  title: string;
+  body: string | null;
+  url: string | null;
+  source: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type NotificationEvent =
+  | { type: 'notification'; notification: StreamedNotification }
+  | { type: 'unread'; count: number };
+
+// Use globalThis so every route module shares one emitter in Next.js
+const NOTIFICATION_EVENTS_KEY = '__notification_events__';
+
+declare global {
+  var __notification_events__: EventEmitter | undefined;
+}
+
+function getEmitter(): EventEmitter {
+  if (!globalThis[NOTIFICATION_EVENTS_KEY]) {
+    const emitter = new EventEmitter();
+    // One listener per open tab, so no useful upper bound
+    emitter.setMaxListeners(0);
+    globalThis[NOTIFICATION_EVENTS_KEY] = emitter;
+  }
+  return globalThis[NOTIFICATION_EVENTS_KEY];
+}
+
+/**
+ * Send an event to a user's open streams
+ */
+export function publishNotificationEvent(userId: string, event: NotificationEvent): void {
+  getEmitter().emit(userId, event);
+}
+
+/**
+ * Listen for a user's events. Returns the function that stops listening.
+ */
+export function subscribeToNotificationEvents(
+  userId: string,
+  listener: (event: NotificationEvent) => void
+): () => void {
+  const emitter = getEmitter();
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+}
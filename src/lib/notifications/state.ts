@@ -0,0 +1,255 @@
+/**
+ * Notification Preference State
+ *
+ * Categories, frequencies and defaults for per-user notification
+ * preferences, digest scheduling and digest rendering, and the limits of
+ * the in-app notification center. Pure helpers shared by the server, the
+ * account page and the notification bell.
+ */
+
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationFrequency,
+} from '@prisma/client';
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'NEW_SUBMISSION',
+  'NEW_REVIEW',
+  'DISCUSSION_REPLY',
+  'MENTION',
+  'REVIEW_DEADLINE',
+  'MESSAGE',
+  'STATUS_CHANGE',
+  'PLUGIN_NOTICE',
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['IN_APP', 'EMAIL'];
+
+export const NOTIFICATION_FREQUENCIES: NotificationFrequency[] = ['IMMEDIATE', 'DAILY', 'WEEKLY', 'OFF'];
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  NEW_SUBMISSION: 'New submissions',
+  NEW_REVIEW: 'New reviews',
+  DISCUSSION_REPLY: 'Review discussion replies',
+  MENTION: 'Mentions',
+  REVIEW_DEADLINE: 'Review deadlines',
+  MESSAGE: 'Submission messages',
+  STATUS_CHANGE: 'Submission status changes',
+  PLUGIN_NOTICE: 'Plugin notices',
+};
+
+export const NOTIFICATION_CATEGORY_DESCRIPTIONS: Record<NotificationCategory, string> = {
+  NEW_SUBMISSION: 'Submissions to events you review, when the event notifies its review team',
+  NEW_REVIEW: 'Reviews on events you lead, when the event notifies on new reviews',
+  DISCUSSION_REPLY: 'Comments on review discussions you started or took part in',
+  MENTION: 'When someone on a review team @mentions you in a submission discussion',
+  REVIEW_DEADLINE: 'Reminders about unfinished review assignments, and for leads, reviewers who missed the deadline',
+  MESSAGE: 'Messages from speakers, organizers and reviewers about a submission',
+  STATUS_CHANGE: 'Decisions and other status changes on your submissions',
+  PLUGIN_NOTICE: 'Notices posted by plugins installed on this site',
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  IN_APP: 'In-app',
+  EMAIL: 'Email',
+};
+
+export const NOTIFICATION_FREQUENCY_LABELS: Record<NotificationFrequency, string> = {
+  IMMEDIATE: 'Immediately',
+  DAILY: 'Daily digest',
+  WEEKLY: 'Weekly digest',
+  OFF: 'Off',
+};
+
+// ============================================================================
+// Channels
+// ============================================================================
+
+/**
+ * Categories each channel can be set for. Status changes are emailed as
+ * transactional mail and plugins send their own email, so both are
+ * in-app only.
+ */
+export const NOTIFICATION_CHANNEL_CATEGORIES: Record<NotificationChannel, NotificationCategory[]> = {
+  IN_APP: NOTIFICATION_CATEGORIES,
+  EMAIL: ['NEW_SUBMISSION', 'NEW_REVIEW', 'DISCUSSION_REPLY', 'MENTION', 'REVIEW_DEADLINE', 'MESSAGE'],
+};
+
+/** Frequencies each channel offers; in-app notifications are on or off */
+export const NOTIFICATION_CHANNEL_FREQUENCIES: Record<NotificationChannel, NotificationFrequency[]> = {
+  IN_APP: ['IMMEDIATE', 'OFF'],
+  EMAIL: NOTIFICATION_FREQUENCIES,
+};
+
+/**
+ * Whether a channel offers a category at a frequency
+ */
+export function isValidNotificationSetting(
+  channel: NotificationChannel,
+  category: NotificationCategory,
+  frequency: NotificationFrequency
+): boolean {
+  return NOTIFICATION_CHANNEL_CATEGORIES[channel].includes(category) &&
+    NOTIFICATION_CHANNEL_FREQUENCIES[channel].includes(frequency);
+}
+
+/**
+ * Label for a frequency choice on a channel
+ */
+export function getNotificationFrequencyLabel(
+  channel: NotificationChannel,
+  frequency: NotificationFrequency
+): string {
+  if (channel === 'IN_APP' && frequency === 'IMMEDIATE') {
+    return 'On';
+  }
+  return NOTIFICATION_FREQUENCY_LABELS[frequency];
+}
+
+// ============================================================================
+// Defaults and Scheduling
+// ============================================================================
+
+/** Frequency for categories the user has not changed */
+export const DEFAULT_NOTIFICATION_FREQUENCY: NotificationFrequency = 'IMMEDIATE';
+
+/** Hour (UTC) daily and weekly digests go out */
+export const DIGEST_HOUR_UTC = 8;
+
+/** Day weekly digests go out (0 = Sunday, 1 = Monday) */
+export const WEEKLY_DIGEST_DAY = 1;
+
+/** Users sent a digest per cron run */
+export const DIGEST_BATCH_SIZE = 100;
+
+/** Undelivered digest items are dropped after this many days */
+export const DIGEST_ITEM_RETENTION_DAYS = 30;
+
+/** In-app notifications shown per page in the notification bell */
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+/** In-app notifications are deleted after this many days */
+export const NOTIFICATION_RETENTION_DAYS = 90;
+
+export type DigestFrequency = Extract<NotificationFrequency, 'DAILY' | 'WEEKLY'>;
+
+/** Each channel's frequency for the categories it offers */
+export type NotificationPreferenceMap = Record<
+  NotificationChannel,
+  Partial<Record<NotificationCategory, NotificationFrequency>>
+>;
+
+export function isDigestFrequency(frequency: NotificationFrequency): frequency is DigestFrequency {
+  return frequency === 'DAILY' || frequency === 'WEEKLY';
+}
+
+/**
+ * Every channel and the categories it offers, with stored rows over the
+ * defaults
+ */
+export function resolveNotificationPreferences(
+  rows: { channel: NotificationChannel; category: NotificationCategory; frequency: NotificationFrequency }[]
+): NotificationPreferenceMap {
+  const map = Object.fromEntries(
+    NOTIFICATION_CHANNELS.map(channel => [
+      channel,
+      Object.fromEntries(
+        NOTIFICATION_CHANNEL_CATEGORIES[channel].map(category => [category, DEFAULT_NOTIFICATION_FREQUENCY])
+      ),
+    ])
+  ) as NotificationPreferenceMap;
+
+  for (const row of rows) {
+    if (isValidNotificationSetting(row.channel, row.category, row.frequency)) {
+      map[row.channel][row.category] = row.frequency;
+    }
+  }
+  return map;
+}
+
+/**
+ * When the digest that picks up a notification made at `now` goes out:
+ * the next DIGEST_HOUR_UTC for daily digests, or the next one on
+ * WEEKLY_DIGEST_DAY for weekly digests
+ */
+export function getDigestDueAt(frequency: DigestFrequency, now: Date): Date {
+  const due = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), DIGEST_HOUR_UTC));
+  if (due <= now) {
+    due.setUTCDate(due.getUTCDate() + 1);
+  }
+  if (frequency === 'WEEKLY') {
+    while (due.getUTCDay() !== WEEKLY_DIGEST_DAY) {
+      due.setUTCDate(due.getUTCDate() + 1);
+    }
+  }
+  return due;
+}
+
+// ============================================================================
+// Digest Content
+// ============================================================================
+
+export interface DigestEntry {
+  category: NotificationCategory;
+  frequency: NotificationFrequency;
+  title: string;
+  summary: string | null;
+  url: string;
+  eventName: string | null;
+}
+
+const DIGEST_SUMMARY_LENGTH = 200;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * "weekly" when every entry came from a weekly preference, else "daily"
+ */
+export function getDigestPeriod(entries: Pick<DigestEntry, 'frequency'>[]): 'daily' | 'weekly' {
+  return entries.length > 0 && entries.every(entry => entry.frequency === 'WEEKLY') ? 'weekly' : 'daily';
+}
+
+/**
+ * The digest body: entries grouped by category, all user content escaped
+ */
+export function renderDigestItems(entries: DigestEntry[]): string {
+  return NOTIFICATION_CATEGORIES
+    .map(category => {
+      const group = entries.filter(entry => entry.category === category);
+      if (group.length === 0) return '';
+
+      const items = group.map(entry => {
+        const summary = entry.summary
+          ? entry.summary.length > DIGEST_SUMMARY_LENGTH
+            ? `${entry.summary.slice(0, DIGEST_SUMMARY_LENGTH)}...`
+            : entry.summary
+          : null;
+        return [
+          '<li style="margin: 0 0 12px 0;">',
+          `<a href="${escapeHtml(entry.url)}">${escapeHtml(entry.title)}</a>`,
+          entry.eventName ? ` <span style="color: #6b7280;">&middot; ${escapeHtml(entry.eventName)}</span>` : '',
+          summary ? `<br><span style="color: #4b5563;">${escapeHtml(summary)}</span>` : '',
+          '</li>',
+        ].join('');
+      });
+
+      return [
+        `<h2 style="font-size: 18px; margin: 24px 0 8px 0;">${NOTIFICATION_CATEGORY_LABELS[category]} (${group.length})</h2>`,
+        `<ul style="padding-left: 20px; margin: 0;">${items.join('')}</ul>`,
+      ].join('\n');
+    })
+    .filter(Boolean)
+    .join('\n');
+}
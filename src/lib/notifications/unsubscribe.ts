@@ -0,0 +1,85 @@
+/**
+ * Unsubscribe Links
+ *
+ * Notification emails carry a signed link that turns a category (or every
+ * category, for digests) off without signing in, plus RFC 8058
+ * List-Unsubscribe headers so mail clients can offer one-click
+ * unsubscribe. The token is an HMAC over the user ID and category keyed
+ * from NEXTAUTH_SECRET, so nothing is stored per email.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { NotificationCategory } from '@prisma/client';
+import { config } from '@/lib/env';
+import { NOTIFICATION_CHANNEL_CATEGORIES } from './state';
+
+export interface UnsubscribeLinks {
+  /** Confirmation page linked from the email footer */
+  unsubscribeUrl: string;
+  /** RFC 8058 one-click endpoint for the List-Unsubscribe header */
+  oneClickUrl: string;
+  preferencesUrl: string;
+}
+
+const ALL_CATEGORIES = 'all';
+
+function sign(payload: string): string {
+  const key = createHmac('sha256', config.nextAuthSecret).update('notification-unsubscribe').digest();
+  return createHmac('sha256', key).update(payload).digest('hex').slice(0, 32);
+}
+
+/**
+ * Token that unsubscribes a user from one category, or from all of them
+ */
+export function createUnsubscribeToken(userId: string, category: NotificationCategory | null): string {
+  const payload = `${userId}.${category ?? ALL_CATEGORIES}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The user and category a token unsubscribes, or null if it is invalid
+ */
+export function verifyUnsubscribeToken(
+  token: string
+): { userId: string; category: NotificationCategory | null } | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  const [userId, categoryPart, signature] = parts;
+  const category = categoryPart === ALL_CATEGORIES
+    ? null
+    : NOTIFICATION_CHANNEL_CATEGORIES.EMAIL.find(c => c === categoryPart);
+  if (!userId || category === undefined) {
+    return null;
+  }
+
+  const expected = sign(`${userId}.${categoryPart}`);
+  if (signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+  return { userId, category };
+}
+
+/**
+ * Footer links and the one-click URL for a notification email
+ */
+export function getUnsubscribeLinks(userId: string, category: NotificationCategory | null): UnsubscribeLinks {
+  const token = encodeURIComponent(createUnsubscribeToken(userId, category));
+  return {
+    unsubscribeUrl: `${config.app.url}/unsubscribe?token=${token}`,
+    oneClickUrl: `${config.app.url}/api/public/notifications/unsubscribe?token=${token}`,
+    preferencesUrl: `${config.app.url}/account?tab=notifications`,
+  };
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers for one-click unsubscribe
+ */
+export function getListUnsubscribeHeaders(links: UnsubscribeLinks): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${links.oneClickUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
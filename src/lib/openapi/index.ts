@@ -0,0 +1,14 @@
+/**
+ * OpenAPI Module Index
+ *
+ * Re-exports the documented API operations and the OpenAPI spec builder.
+ */
+
+export {
+  type ApiOperation,
+  type ApiOperationMethod,
+  type ApiTag,
+  API_OPERATIONS,
+} from './operations';
+
+export { type OpenApiSpecOptions, buildOpenApiSpec } from './spec';
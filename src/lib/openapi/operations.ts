@@ -0,0 +1,162 @@
+/**
+ * Documented API Operations
+ *
+ * The REST API operations described in the OpenAPI spec, with the zod
+ * schemas their handlers validate query strings and bodies with. Each
+ * operation's required token scope comes from the route scope rules in
+ * src/lib/api-tokens, so the spec can't drift from what middleware enforces.
+ */
+
+import type { z } from 'zod';
+import {
+  addReviewerSchema,
+  createEventSchema,
+  createFormatSchema,
+  createTrackSchema,
+  eventFiltersSchema,
+  updateEventSchema,
+} from '@/lib/validations/event';
+import {
+  createCoSpeakerSchema,
+  createMaterialSchema,
+  createSubmissionSchema,
+  submissionExportSchema,
+  submissionFiltersSchema,
+  updateSubmissionSchema,
+  updateSubmissionStatusSchema,
+} from '@/lib/validations/submission';
+import {
+  commitAssignmentsSchema,
+  createReviewSchema,
+  createSubmissionDiscussionSchema,
+  declareConflictSchema,
+  saveRankingSchema,
+  updateReviewSchema,
+} from '@/lib/validations/review';
+import { bulkOperationSchema } from '@/lib/validations/bulk-operation';
+import { createMessageSchema } from '@/lib/validations/message';
+import { createRoomSchema, createSlotSchema, updateRoomSchema, updateSlotSchema } from '@/lib/validations/schedule';
+import { createTalkSchema, talkFiltersSchema, updateTalkSchema } from '@/lib/validations/talk';
+import { updateSpeakerProfileSchema } from '@/lib/validations/speaker-profile';
+import { reviewerProfileSchema } from '@/lib/validations/reviewer-profile';
+import { updateUserRoleSchema } from '@/lib/validations/settings';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApiOperationMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type ApiTag = 'Events' | 'Schedule' | 'Submissions' | 'Reviews' | 'Talks' | 'Profiles' | 'Users';
+
+export interface ApiOperation {
+  method: ApiOperationMethod;
+  /** OpenAPI path, with {placeholders} for path parameters */
+  path: string;
+  tag: ApiTag;
+  summary: string;
+  /** Query string parameters */
+  query?: z.ZodObject;
+  /** Request body; several schemas when the handler accepts either */
+  body?: z.ZodType | z.ZodType[];
+  /** Also limited to admins, whatever the token's scopes */
+  adminOnly?: boolean;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+const EVENT = '/api/events/{id}';
+const SUBMISSION = `${EVENT}/submissions/{submissionId}`;
+
+export const API_OPERATIONS: ApiOperation[] = [
+  // Events
+  { method: 'get', path: '/api/events', tag: 'Events', summary: 'List events', query: eventFiltersSchema },
+  { method: 'post', path: '/api/events', tag: 'Events', summary: 'Create an event', body: createEventSchema },
+  { method: 'get', path: EVENT, tag: 'Events', summary: 'Get an event' },
+  { method: 'patch', path: EVENT, tag: 'Events', summary: 'Update an event', body: updateEventSchema },
+  { method: 'delete', path: EVENT, tag: 'Events', summary: 'Delete an event' },
+  { method: 'get', path: `${EVENT}/tracks`, tag: 'Events', summary: 'List an event\'s tracks' },
+  { method: 'post', path: `${EVENT}/tracks`, tag: 'Events', summary: 'Add a track', body: createTrackSchema },
+  { method: 'get', path: `${EVENT}/formats`, tag: 'Events', summary: 'List an event\'s talk formats' },
+  { method: 'post', path: `${EVENT}/formats`, tag: 'Events', summary: 'Add a talk format', body: createFormatSchema },
+  { method: 'get', path: `${EVENT}/review-team`, tag: 'Events', summary: 'List the review team' },
+  { method: 'post', path: `${EVENT}/review-team`, tag: 'Events', summary: 'Add a reviewer to the team', body: addReviewerSchema },
+  { method: 'get', path: `${EVENT}/assignments`, tag: 'Events', summary: 'List review assignments' },
+  { method: 'post', path: `${EVENT}/assignments`, tag: 'Events', summary: 'Assign reviewers to submissions', body: commitAssignmentsSchema },
+
+  // Schedule
+  { method: 'get', path: `${EVENT}/rooms`, tag: 'Schedule', summary: 'List rooms' },
+  { method: 'post', path: `${EVENT}/rooms`, tag: 'Schedule', summary: 'Add a room', body: createRoomSchema },
+  { method: 'patch', path: `${EVENT}/rooms/{roomId}`, tag: 'Schedule', summary: 'Update a room', body: updateRoomSchema },
+  { method: 'delete', path: `${EVENT}/rooms/{roomId}`, tag: 'Schedule', summary: 'Delete a room' },
+  { method: 'get', path: `${EVENT}/schedule`, tag: 'Schedule', summary: 'Get the schedule' },
+  { method: 'post', path: `${EVENT}/schedule/slots`, tag: 'Schedule', summary: 'Add a schedule slot', body: createSlotSchema },
+  { method: 'patch', path: `${EVENT}/schedule/slots/{slotId}`, tag: 'Schedule', summary: 'Update a schedule slot', body: updateSlotSchema },
+  { method: 'delete', path: `${EVENT}/schedule/slots/{slotId}`, tag: 'Schedule', summary: 'Delete a schedule slot' },
+
+  // Submissions
+  {
+    method: 'get',
+    path: '/api/submissions',
+    tag: 'Submissions',
+    summary: 'List your own submissions across events',
+    query: submissionFiltersSchema.pick({ status: true, limit: true, offset: true }),
+  },
+  { method: 'get', path: `${EVENT}/submissions`, tag: 'Submissions', summary: 'List an event\'s submissions', query: submissionFiltersSchema },
+  {
+    method: 'post',
+    path: `${EVENT}/submissions`,
+    tag: 'Submissions',
+    summary: 'Submit a talk',
+    body: createSubmissionSchema.omit({ eventId: true }),
+  },
+  { method: 'get', path: `${EVENT}/submissions/export`, tag: 'Submissions', summary: 'Export submissions', query: submissionExportSchema },
+  { method: 'post', path: `${EVENT}/submissions/bulk`, tag: 'Submissions', summary: 'Change many submissions at once', body: bulkOperationSchema },
+  { method: 'get', path: SUBMISSION, tag: 'Submissions', summary: 'Get a submission' },
+  {
+    method: 'patch',
+    path: SUBMISSION,
+    tag: 'Submissions',
+    summary: 'Update a submission, or decide on it',
+    body: [updateSubmissionStatusSchema, updateSubmissionSchema],
+  },
+  { method: 'delete', path: SUBMISSION, tag: 'Submissions', summary: 'Withdraw or delete a submission' },
+  { method: 'get', path: `${SUBMISSION}/materials`, tag: 'Submissions', summary: 'List a submission\'s materials' },
+  { method: 'post', path: `${SUBMISSION}/materials`, tag: 'Submissions', summary: 'Add slides, a video or other material', body: createMaterialSchema },
+  { method: 'get', path: `${SUBMISSION}/co-speakers`, tag: 'Submissions', summary: 'List co-speakers' },
+  { method: 'post', path: `${SUBMISSION}/co-speakers`, tag: 'Submissions', summary: 'Invite a co-speaker', body: createCoSpeakerSchema },
+  { method: 'get', path: `${SUBMISSION}/messages`, tag: 'Submissions', summary: 'List messages with the speaker' },
+  { method: 'post', path: `${SUBMISSION}/messages`, tag: 'Submissions', summary: 'Message the speaker or organizers', body: createMessageSchema },
+
+  // Reviews
+  { method: 'get', path: `${SUBMISSION}/reviews`, tag: 'Reviews', summary: 'List a submission\'s reviews' },
+  { method: 'post', path: `${SUBMISSION}/reviews`, tag: 'Reviews', summary: 'Review a submission', body: createReviewSchema },
+  { method: 'get', path: `${SUBMISSION}/reviews/{reviewId}`, tag: 'Reviews', summary: 'Get a review' },
+  { method: 'patch', path: `${SUBMISSION}/reviews/{reviewId}`, tag: 'Reviews', summary: 'Update a review', body: updateReviewSchema },
+  { method: 'delete', path: `${SUBMISSION}/reviews/{reviewId}`, tag: 'Reviews', summary: 'Delete a review' },
+  { method: 'get', path: `${SUBMISSION}/discussions`, tag: 'Reviews', summary: 'List review team discussions' },
+  { method: 'post', path: `${SUBMISSION}/discussions`, tag: 'Reviews', summary: 'Post in a review team discussion', body: createSubmissionDiscussionSchema },
+  { method: 'post', path: `${SUBMISSION}/conflict`, tag: 'Reviews', summary: 'Declare a conflict of interest', body: declareConflictSchema },
+  { method: 'get', path: `${EVENT}/rankings`, tag: 'Reviews', summary: 'Get your ranking of an event\'s submissions' },
+  { method: 'put', path: `${EVENT}/rankings`, tag: 'Reviews', summary: 'Save your ranking', body: saveRankingSchema },
+
+  // Talks
+  { method: 'get', path: '/api/talks', tag: 'Talks', summary: 'List your talks', query: talkFiltersSchema },
+  { method: 'post', path: '/api/talks', tag: 'Talks', summary: 'Add a talk to your library', body: createTalkSchema },
+  { method: 'get', path: '/api/talks/{id}', tag: 'Talks', summary: 'Get a talk' },
+  { method: 'patch', path: '/api/talks/{id}', tag: 'Talks', summary: 'Update a talk', body: updateTalkSchema },
+  { method: 'delete', path: '/api/talks/{id}', tag: 'Talks', summary: 'Delete a talk' },
+
+  // Profiles
+  { method: 'get', path: '/api/speaker-profile', tag: 'Profiles', summary: 'Get your speaker profile' },
+  { method: 'patch', path: '/api/speaker-profile', tag: 'Profiles', summary: 'Update your speaker profile', body: updateSpeakerProfileSchema },
+  { method: 'get', path: '/api/reviewer-profile', tag: 'Profiles', summary: 'Get your reviewer profile' },
+  { method: 'patch', path: '/api/reviewer-profile', tag: 'Profiles', summary: 'Update your reviewer profile', body: reviewerProfileSchema.partial() },
+
+  // Users
+  { method: 'get', path: '/api/admin/users', tag: 'Users', summary: 'List users', adminOnly: true },
+  { method: 'get', path: '/api/admin/reviewers', tag: 'Users', summary: 'List reviewers', adminOnly: true },
+  { method: 'patch', path: '/api/users/{id}/role', tag: 'Users', summary: 'Change a user\'s role', body: updateUserRoleSchema },
+];
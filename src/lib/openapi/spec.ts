@@ -0,0 +1,189 @@
+/**
+ * OpenAPI Spec
+ *
+ * Builds the OpenAPI 3.0 description of the REST API from the documented
+ * operations, converting their zod schemas to JSON Schema. Served at
+ * OPENAPI_SPEC_PATH.
+ */
+
+import { z } from 'zod';
+import { API_TOKEN_PREFIX, API_TOKEN_SCOPE_DESCRIPTIONS, getRequiredScope } from '@/lib/api-tokens/state';
+import { API_OPERATIONS, type ApiOperation, type ApiTag } from './operations';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+export interface OpenApiSpecOptions {
+  /** Base URL of this instance */
+  serverUrl: string;
+  version: string;
+}
+
+const TAG_DESCRIPTIONS: Record<ApiTag, string> = {
+  Events: 'Events, tracks, talk formats, review teams and assignments',
+  Schedule: 'Rooms and the schedule',
+  Submissions: 'Talk submissions and their materials, co-speakers and messages',
+  Reviews: 'Reviews, rankings and review team discussions',
+  Talks: 'Your library of reusable talks',
+  Profiles: 'Your speaker and reviewer profiles',
+  Users: 'Users and roles',
+};
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * JSON Schema for what a zod schema accepts. Transforms and refinements
+ * can't be expressed, so the schema may accept a little more than the
+ * handler does.
+ */
+function toJsonSchema(schema: z.ZodType): JsonObject {
+  const jsonSchema = z.toJSONSchema(schema, {
+    target: 'openapi-3.0',
+    io: 'input',
+    unrepresentable: 'any',
+  }) as JsonObject;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function getPathParameters(path: string): JsonObject[] {
+  return [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+}
+
+function getQueryParameters(query: z.ZodObject): JsonObject[] {
+  const { properties = {}, required = [] } = toJsonSchema(query) as {
+    properties?: Record<string, JsonObject>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    // Query strings are always optional when the schema has a default
+    required: required.includes(name) && !('default' in schema),
+    schema,
+  }));
+}
+
+function getRequestBody(body: z.ZodType | z.ZodType[]): JsonObject {
+  const schema = Array.isArray(body)
+    ? { oneOf: body.map(toJsonSchema) }
+    : toJsonSchema(body);
+  return {
+    required: true,
+    content: { 'application/json': { schema } },
+  };
+}
+
+// ============================================================================
+// Spec
+// ============================================================================
+
+function buildOperation(operation: ApiOperation): JsonObject {
+  const scope = getRequiredScope(operation.path.replace(/\{[^}]+\}/g, 'id'), operation.method);
+  const parameters = [
+    ...getPathParameters(operation.path),
+    ...(operation.query ? getQueryParameters(operation.query) : []),
+  ];
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: [
+      `Requires the \`${scope}\` scope.`,
+      ...(operation.adminOnly ? ['Admins only.'] : []),
+    ].join(' '),
+    operationId: `${operation.method}${operation.path
+      .replace(/^\/api/, '')
+      .replace(/\{([^}]+)\}/g, 'By-$1')
+      .split(/[/-]/)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('')}`,
+    security: [{ apiToken: [] }],
+    'x-required-scope': scope,
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && { requestBody: getRequestBody(operation.body) }),
+    responses: {
+      '200': { $ref: '#/components/responses/Success' },
+      '400': { $ref: '#/components/responses/Error' },
+      '401': { $ref: '#/components/responses/Error' },
+      '403': { $ref: '#/components/responses/Error' },
+      '404': { $ref: '#/components/responses/Error' },
+    },
+  };
+}
+
+/**
+ * The OpenAPI 3.0 document for the API available to personal API tokens
+ */
+export function buildOpenApiSpec({ serverUrl, version }: OpenApiSpecOptions): JsonObject {
+  const paths: Record<string, Record<string, JsonObject>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = buildOperation(operation);
+  }
+
+  const scopeList = Object.entries(API_TOKEN_SCOPE_DESCRIPTIONS)
+    .map(([scope, description]) => `- \`${scope}\`: ${description}`)
+    .join('\n');
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'CFP Directory Self-Hosted API',
+      version,
+      description: [
+        'Authenticate with a personal API token created at Account > API Tokens, sent as',
+        `\`Authorization: Bearer ${API_TOKEN_PREFIX}...\`. Requests act as the token's owner,`,
+        'limited to the token\'s scopes. A write scope also grants reading the same resource.',
+        '',
+        scopeList,
+      ].join('\n'),
+    },
+    servers: [{ url: serverUrl }],
+    tags: Object.entries(TAG_DESCRIPTIONS).map(([name, description]) => ({ name, description })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Personal API token',
+        },
+      },
+      schemas: {
+        ErrorEnvelope: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', enum: [false] },
+            error: { type: 'string' },
+            errors: {
+              type: 'object',
+              additionalProperties: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          required: ['error'],
+        },
+      },
+      responses: {
+        Success: {
+          description: 'Success. Most endpoints return `{ "success": true, "data": ... }`.',
+          content: { 'application/json': { schema: { type: 'object' } } },
+        },
+        Error: {
+          description: 'Validation failed, missing or insufficient token, or not found',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorEnvelope' } } },
+        },
+      },
+    },
+  };
+}
@@ -9,6 +9,7 @@ export { EventCapabilityImpl } from './events';
 export { ReviewCapabilityImpl } from './reviews';
 export { StorageCapabilityImpl } from './storage';
 export { EmailCapabilityImpl } from './email';
+export { NotificationCapabilityImpl } from './notifications';
 export { PluginDataCapabilityImpl } from './data';
 export { AiReviewCapabilityImpl, AiReviewCapabilityStub } from './ai-reviews';
 
@@ -0,0 +1,90 @@
+/**
+ * Notification Capability Implementation
+ * @version 1.23.0
+ *
+ * Permission-gated posting to users' in-app notification centers.
+ *
+ * Security:
+ * - Links must be a path on this site or an http(s) URL
+ * - At most MAX_RECIPIENTS users per call
+ * - Notifications are labelled with the plugin's name
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { NotificationCapability, PluginNotificationInput, PluginPermission } from '../types';
+import { PluginPermissionError } from '../types';
+import { createInAppNotifications } from '@/lib/notifications/in-app';
+
+const MAX_RECIPIENTS = 1000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_BODY_LENGTH = 2000;
+
+function isAllowedUrl(url: string): boolean {
+  if (url.startsWith('/')) {
+    return !url.startsWith('//');
+  }
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+export class NotificationCapabilityImpl implements NotificationCapability {
+  constructor(
+    private prisma: PrismaClient,
+    private permissions: Set<PluginPermission>,
+    private pluginName: string
+  ) {}
+
+  private requirePermission(permission: PluginPermission): void {
+    if (!this.permissions.has(permission)) {
+      throw new PluginPermissionError(permission);
+    }
+  }
+
+  async send(input: PluginNotificationInput): Promise<{ count: number }> {
+    this.requirePermission('notifications:send');
+
+    const title = input.title?.trim();
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      throw new Error(`Notification title must be 1-${MAX_TITLE_LENGTH} characters`);
+    }
+    if (input.body && input.body.length > MAX_BODY_LENGTH) {
+      throw new Error(`Notification body must be at most ${MAX_BODY_LENGTH} characters`);
+    }
+    if (input.url && !isAllowedUrl(input.url)) {
+      throw new Error('Notification URL must be a path on this site or an http(s) URL');
+    }
+
+    const userIds = input.userIds ?? [];
+    const roles = input.roles ?? [];
+    if (userIds.length === 0 && roles.length === 0) {
+      throw new Error('Notification needs userIds or roles');
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          ...(userIds.length > 0 ? [{ id: { in: userIds } }] : []),
+          ...(roles.length > 0 ? [{ role: { in: roles } }] : []),
+        ],
+      },
+      select: { id: true },
+      take: MAX_RECIPIENTS + 1,
+    });
+    if (users.length > MAX_RECIPIENTS) {
+      throw new Error(`Notification would reach more than ${MAX_RECIPIENTS} users`);
+    }
+
+    const count = await createInAppNotifications(users.map(user => user.id), {
+      category: 'PLUGIN_NOTICE',
+      title,
+      body: input.body,
+      url: input.url,
+      source: this.pluginName,
+    });
+    return { count };
+  }
+}
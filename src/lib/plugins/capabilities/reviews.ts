@@ -1,13 +1,23 @@
 /**
  * Review Capability Implementation
- * @version 1.1.0
+ * @version 1.23.0
  *
  * Permission-gated access to review data and operations.
+ * Criterion scores are validated against the submission's event criteria
+ * and keep the review's weightedScore in sync.
  */
 
 import type { PrismaClient, Review } from '@prisma/client';
-import type { ReviewCapability, ReviewFilters, ReviewCreateData, PluginPermission } from '../types';
+import type {
+  ReviewCapability,
+  ReviewFilters,
+  ReviewCreateData,
+  ReviewCriterionScoreData,
+  ReviewCriterionScoreDetail,
+  PluginPermission,
+} from '../types';
 import { PluginPermissionError } from '../types';
+import { computeWeightedScore, matchCriterionScores } from '@/lib/reviews/criteria-scoring';
 
 export class ReviewCapabilityImpl implements ReviewCapability {
   constructor(
@@ -22,6 +32,50 @@ export class ReviewCapabilityImpl implements ReviewCapability {
     }
   }
 
+  /**
+   * Match scores to the event's criteria and compute the weighted total
+   */
+  private async resolveCriterionScores(
+    submissionId: string,
+    input: ReviewCriterionScoreData[]
+  ): Promise<{ scores: ReviewCriterionScoreDetail[]; weightedScore: number | null }> {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: { eventId: true },
+    });
+
+    if (!submission) {
+      throw new Error(`Submission ${submissionId} not found`);
+    }
+
+    const criteria = await this.prisma.eventReviewCriteria.findMany({
+      where: { eventId: submission.eventId },
+      select: { id: true, name: true, weight: true },
+    });
+
+    const { scores, error } = matchCriterionScores(criteria, input);
+    if (error) {
+      throw new Error(error);
+    }
+
+    return { scores, weightedScore: computeWeightedScore(scores) };
+  }
+
+  /**
+   * Prisma update data for the plain review fields
+   */
+  private buildUpdateData(data: Partial<ReviewCreateData>) {
+    return {
+      ...(data.contentScore !== undefined && { contentScore: data.contentScore }),
+      ...(data.presentationScore !== undefined && { presentationScore: data.presentationScore }),
+      ...(data.relevanceScore !== undefined && { relevanceScore: data.relevanceScore }),
+      ...(data.overallScore !== undefined && { overallScore: data.overallScore }),
+      ...(data.privateNotes !== undefined && { privateNotes: data.privateNotes }),
+      ...(data.publicNotes !== undefined && { publicNotes: data.publicNotes }),
+      ...(data.recommendation !== undefined && { recommendation: data.recommendation }),
+    };
+  }
+
   async get(id: string): Promise<Review | null> {
     this.requirePermission('reviews:read');
     
@@ -52,9 +106,31 @@ export class ReviewCapabilityImpl implements ReviewCapability {
     });
   }
 
+  async getCriterionScores(reviewId: string): Promise<ReviewCriterionScoreDetail[]> {
+    this.requirePermission('reviews:read');
+
+    const scores = await this.prisma.reviewCriterionScore.findMany({
+      where: { reviewId },
+      include: { criteria: { select: { name: true, weight: true, sortOrder: true } } },
+    });
+
+    return scores
+      .sort((a, b) => a.criteria.sortOrder - b.criteria.sortOrder)
+      .map(s => ({
+        criteriaId: s.criteriaId,
+        score: s.score,
+        name: s.criteria.name,
+        weight: s.criteria.weight,
+      }));
+  }
+
   async create(data: ReviewCreateData): Promise<Review> {
     this.requirePermission('reviews:write');
     
+    const criteria = data.criterionScores?.length
+      ? await this.resolveCriterionScores(data.submissionId, data.criterionScores)
+      : null;
+    
     return this.prisma.review.create({
       data: {
         submissionId: data.submissionId,
@@ -66,6 +142,13 @@ export class ReviewCapabilityImpl implements ReviewCapability {
         privateNotes: data.privateNotes,
         publicNotes: data.publicNotes,
         recommendation: data.recommendation,
+        ...(criteria && {
+          weightedScore: criteria.weightedScore,
+          overallScore: data.overallScore ?? (criteria.weightedScore !== null ? Math.round(criteria.weightedScore) : undefined),
+          criterionScores: {
+            create: criteria.scores.map(s => ({ criteriaId: s.criteriaId, score: s.score })),
+          },
+        }),
       },
     });
   }
@@ -73,17 +156,44 @@ export class ReviewCapabilityImpl implements ReviewCapability {
   async update(id: string, data: Partial<ReviewCreateData>): Promise<Review> {
     this.requirePermission('reviews:write');
 
+    if (data.criterionScores !== undefined) {
+      const existing = await this.prisma.review.findUnique({
+        where: { id },
+        select: { submissionId: true },
+      });
+
+      if (!existing) {
+        throw new Error(`Review ${id} not found`);
+      }
+
+      const { scores, weightedScore } = await this.resolveCriterionScores(
+        existing.submissionId,
+        data.criterionScores
+      );
+
+      const [, , review] = await this.prisma.$transaction([
+        this.prisma.reviewCriterionScore.deleteMany({ where: { reviewId: id } }),
+        this.prisma.reviewCriterionScore.createMany({
+          data: scores.map(s => ({ reviewId: id, criteriaId: s.criteriaId, score: s.score })),
+        }),
+        this.prisma.review.update({
+          where: { id },
+          data: {
+            ...this.buildUpdateData(data),
+            weightedScore,
+            ...(data.overallScore === undefined && weightedScore !== null && {
+              overallScore: Math.round(weightedScore),
+            }),
+          },
+        }),
+      ]);
+
+      return review;
+    }
+
     return this.prisma.review.update({
       where: { id },
-      data: {
-        ...(data.contentScore !== undefined && { contentScore: data.contentScore }),
-        ...(data.presentationScore !== undefined && { presentationScore: data.presentationScore }),
-        ...(data.relevanceScore !== undefined && { relevanceScore: data.relevanceScore }),
-        ...(data.overallScore !== undefined && { overallScore: data.overallScore }),
-        ...(data.privateNotes !== undefined && { privateNotes: data.privateNotes }),
-        ...(data.publicNotes !== undefined && { publicNotes: data.publicNotes }),
-        ...(data.recommendation !== undefined && { recommendation: data.recommendation }),
-      },
+      data: this.buildUpdateData(data),
     });
   }
 
@@ -1,16 +1,56 @@
 /**
  * Submission Capability Implementation
- * @version 1.13.0
+ * @version 1.23.0
  *
  * Permission-gated access to submission data and operations.
  *
  * PRIVACY NOTE: getWithSpeakers() intentionally excludes email addresses
  * to prevent PII from being sent to external AI services.
+ *
+ * ANONYMITY NOTE: for events using blind or double-blind review,
+ * getWithSpeakers() returns an anonymous speaker with no profile and
+ * numbered co-speakers (v1.23.0+), get() and list() return an anonymous
+ * speakerId, and list() ignores the speakerId filter for those events.
+ * Plugins review like reviewers do.
  */
 
-import type { PrismaClient, Submission, SubmissionStatus } from '@prisma/client';
-import type { SubmissionCapability, SubmissionFilters, PluginPermission, SubmissionWithSpeakers } from '../types';
+import type { PrismaClient, ReviewAnonymity, Submission, SubmissionStatus } from '@prisma/client';
+import type {
+  SubmissionCapability,
+  SubmissionFilters,
+  PluginPermission,
+  SubmissionWithSpeakers,
+  SubmissionCustomFieldAnswer,
+} from '../types';
 import { PluginPermissionError } from '../types';
+import {
+  ANONYMOUS_SPEAKER_ID,
+  ANONYMOUS_SPEAKER_NAME,
+  REVIEW_ANONYMITY_MODES,
+  getReviewAnonymity,
+  hidesSpeaker,
+  redactCoSpeakers,
+} from '@/lib/reviews/anonymity';
+import { getSubmissionFieldAnswers } from '@/lib/submission-fields/fields';
+
+const BLIND_REVIEW_MODES: ReviewAnonymity[] = REVIEW_ANONYMITY_MODES.filter(hidesSpeaker);
+
+const withReviewAnonymity = {
+  event: { select: { reviewAnonymity: true } },
+} as const;
+
+/**
+ * Drop the event and, for blind review, who the speaker is
+ */
+function toPluginSubmission({
+  event,
+  ...submission
+}: Submission & { event: { reviewAnonymity: ReviewAnonymity } }): Submission {
+  if (!hidesSpeaker(getReviewAnonymity(event.reviewAnonymity))) {
+    return submission;
+  }
+  return { ...submission, speakerId: ANONYMOUS_SPEAKER_ID, federatedSpeakerId: null };
+}
 
 export class SubmissionCapabilityImpl implements SubmissionCapability {
   constructor(
@@ -28,9 +68,12 @@ export class SubmissionCapabilityImpl implements SubmissionCapability {
   async get(id: string): Promise<Submission | null> {
     this.requirePermission('submissions:read');
 
-    return this.prisma.submission.findUnique({
+    const submission = await this.prisma.submission.findUnique({
       where: { id },
+      include: withReviewAnonymity,
     });
+
+    return submission && toPluginSubmission(submission);
   }
 
   async getWithSpeakers(id: string): Promise<SubmissionWithSpeakers | null> {
@@ -39,6 +82,9 @@ export class SubmissionCapabilityImpl implements SubmissionCapability {
     const submission = await this.prisma.submission.findUnique({
       where: { id },
       include: {
+        event: {
+          select: { reviewAnonymity: true },
+        },
         speaker: {
           select: {
             id: true,
@@ -77,30 +123,75 @@ export class SubmissionCapabilityImpl implements SubmissionCapability {
       return null;
     }
 
+    const { event, speaker, coSpeakers, ...rest } = submission;
+
+    // Blind review: plugins never see who the speakers are
+    if (hidesSpeaker(getReviewAnonymity(event.reviewAnonymity))) {
+      return {
+        ...rest,
+        speakerId: ANONYMOUS_SPEAKER_ID,
+        federatedSpeakerId: null,
+        speaker: {
+          id: ANONYMOUS_SPEAKER_ID,
+          name: ANONYMOUS_SPEAKER_NAME,
+          profile: null,
+        },
+        coSpeakers: redactCoSpeakers(coSpeakers),
+      } as SubmissionWithSpeakers;
+    }
+
     // Transform to match the expected interface
     return {
-      ...submission,
+      ...rest,
       speaker: {
-        id: submission.speaker.id,
-        name: submission.speaker.name,
-        profile: submission.speaker.speakerProfile,
+        id: speaker.id,
+        name: speaker.name,
+        profile: speaker.speakerProfile,
       },
-      coSpeakers: submission.coSpeakers,
+      coSpeakers,
     } as SubmissionWithSpeakers;
   }
 
   async list(filters?: SubmissionFilters): Promise<Submission[]> {
     this.requirePermission('submissions:read');
     
-    return this.prisma.submission.findMany({
+    const submissions = await this.prisma.submission.findMany({
       where: {
         ...(filters?.eventId && { eventId: filters.eventId }),
-        ...(filters?.speakerId && { speakerId: filters.speakerId }),
+        // Blind events match any speaker, so the filter can't reveal who submitted
+        ...(filters?.speakerId && {
+          OR: [
+            { speakerId: filters.speakerId },
+            { event: { reviewAnonymity: { in: BLIND_REVIEW_MODES } } },
+          ],
+        }),
         ...(filters?.status && { status: filters.status }),
         ...(filters?.trackId && { trackId: filters.trackId }),
       },
+      include: withReviewAnonymity,
       orderBy: { createdAt: 'desc' },
     });
+
+    return submissions.map(toPluginSubmission);
+  }
+
+  async getCustomFields(id: string): Promise<SubmissionCustomFieldAnswer[] | null> {
+    this.requirePermission('submissions:read');
+
+    const submission = await this.prisma.submission.findUnique({
+      where: { id },
+      select: { eventId: true, customFields: true },
+    });
+    if (!submission) {
+      return null;
+    }
+
+    const fields = await this.prisma.eventSubmissionField.findMany({
+      where: { eventId: submission.eventId },
+      orderBy: { sortOrder: 'asc' },
+    });
+
+    return getSubmissionFieldAnswers(fields, submission.customFields);
   }
 
   async updateStatus(id: string, status: SubmissionStatus): Promise<Submission> {
@@ -32,7 +32,7 @@ export function getPasswordFields(configSchema: JSONSchema | null | undefined):
  * Encrypt password fields in a config object before saving to DB.
  *
  * - If value is the placeholder ("********"), keep the existing encrypted value.
- * - If value is already encrypted (has enc:v1: prefix), keep it as-is.
+ * - If value is already encrypted (has an enc: prefix), keep it as-is.
  * - Otherwise, encrypt the plaintext value.
  */
 export function encryptConfigFields(
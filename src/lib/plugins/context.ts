@@ -14,6 +14,7 @@ import {
   ReviewCapabilityImpl,
   StorageCapabilityImpl,
   EmailCapabilityImpl,
+  NotificationCapabilityImpl,
   PluginDataCapabilityImpl,
   AiReviewCapabilityImpl,
 } from './capabilities';
@@ -113,6 +114,7 @@ export function createPluginContext(options: CreateContextOptions): PluginContex
   const reviews = new ReviewCapabilityImpl(prisma, permissionSet, pluginName);
   const storage = new StorageCapabilityImpl(permissionSet, pluginName);
   const email = new EmailCapabilityImpl(permissionSet, pluginName);
+  const notifications = new NotificationCapabilityImpl(prisma, permissionSet, pluginName);
   const data = new PluginDataCapabilityImpl(prisma, pluginId);
   // AI Reviews - uses plugin data store for full portability
   const aiReviews = new AiReviewCapabilityImpl(prisma, pluginId);
@@ -132,6 +134,7 @@ export function createPluginContext(options: CreateContextOptions): PluginContex
     email,
     data,
     aiReviews,
+    notifications,
   };
 }
 
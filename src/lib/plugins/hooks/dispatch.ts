@@ -2,12 +2,26 @@
  * Hook Dispatch System
  * @version 1.1.0
  *
- * Type-safe hook dispatch that calls all registered plugin handlers.
+ * Type-safe hook dispatch that calls all registered plugin handlers and
+ * queues the hook for outbound webhooks subscribed to it.
  */
 
 import type { HookPayloads, HookName, HookHandler } from './types';
 import { getPluginRegistry } from '../registry';
 
+/**
+ * Hand the hook to the outbound webhook queue in the background. Endpoints
+ * get the payload as dispatched, before plugins modify it. Imported lazily
+ * since the webhook service loads the database client.
+ */
+function queueWebhooks<K extends HookName>(hookName: K, payload: HookPayloads[K]): void {
+  import('@/lib/webhooks')
+    .then(({ queueHookWebhooks }) => queueHookWebhooks(hookName, payload))
+    .catch((error) => {
+      console.error(`[Webhooks] Failed to queue webhooks for ${hookName}:`, error);
+    });
+}
+
 /**
  * Dispatch a hook to all enabled plugins that handle it
  *
@@ -29,6 +43,8 @@ export async function dispatchHook<K extends HookName>(
   hookName: K,
   payload: HookPayloads[K]
 ): Promise<HookPayloads[K]> {
+  queueWebhooks(hookName, payload);
+
   const registry = getPluginRegistry();
   let currentPayload = { ...payload };
   
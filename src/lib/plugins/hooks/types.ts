@@ -16,7 +16,7 @@ import type {
   Review,
   ReviewRecommendation,
 } from '@prisma/client';
-import type { PluginContext } from '../types';
+import type { PluginContext, ReviewCriterionScoreDetail } from '../types';
 
 // =============================================================================
 // HOOK PAYLOADS
@@ -54,11 +54,12 @@ export interface HookPayloads {
     submission: Submission;
     oldStatus: SubmissionStatus;
     newStatus: SubmissionStatus;
+    /** Null for automatic changes, such as accepting from the waitlist */
     changedBy: {
       id: string;
       role: UserRole;
       name: string | null;
-    };
+    } | null;
   };
   
   /**
@@ -86,6 +87,54 @@ export interface HookPayloads {
     };
   };
   
+  /**
+   * Fired when an accepted speaker is asked to confirm or decline
+   * @version 1.23.0
+   */
+  'submission.confirmationRequested': {
+    submission: Submission;
+    speaker: {
+      id: string;
+      email: string;
+      name: string | null;
+    };
+    deadline: Date;
+  };
+  
+  /**
+   * Fired when an accepted speaker confirms attendance
+   * @version 1.23.0
+   */
+  'submission.confirmed': {
+    submission: Submission;
+    agreedToCodeOfConduct: boolean;
+    agreedToRecording: boolean;
+    /** Whether the speaker listed travel needs (the text itself is PII) */
+    hasTravelNeeds: boolean;
+  };
+  
+  /**
+   * Fired when an accepted speaker declines; the submission is withdrawn
+   * @version 1.23.0
+   */
+  'submission.declined': {
+    submission: Submission;
+    reason: string | null;
+    /** Waitlisted submission accepted in its place, if any */
+    promotedSubmission: Submission | null;
+  };
+  
+  /**
+   * Fired when a confirmation deadline passes without an answer
+   * @version 1.23.0
+   */
+  'submission.confirmationExpired': {
+    submission: Submission;
+    deadline: Date;
+    /** Waitlisted submission accepted in its place, if any */
+    promotedSubmission: Submission | null;
+  };
+  
   // -------------------------------------------------------------------------
   // User Hooks
   // -------------------------------------------------------------------------
@@ -139,6 +188,10 @@ export interface HookPayloads {
       email: string;
     };
     isUpdate: boolean;
+    /** Scores against the event's review criteria (empty for legacy reviews) */
+    criterionScores: ReviewCriterionScoreDetail[];
+    /** Weighted total of criterionScores (1-5), null when not criteria-scored */
+    weightedScore: number | null;
   };
   
   /**
@@ -217,6 +270,31 @@ export interface HookPayloads {
     };
   };
   
+  /**
+   * Fired when an event's schedule is published, or republished after changes
+   * @version 1.23.0
+   */
+  'event.schedulePublished': {
+    event: Event;
+    slots: {
+      id: string;
+      roomId: string;
+      roomName: string;
+      startsAt: Date;
+      endsAt: Date;
+      /** Label for breaks; null for talk slots */
+      title: string | null;
+      submissionId: string | null;
+      submissionTitle: string | null;
+    }[];
+    publishedBy: {
+      id: string;
+      name: string | null;
+    };
+    /** True when the schedule was already public */
+    isUpdate: boolean;
+  };
+  
   // -------------------------------------------------------------------------
   // Email Hooks
   // -------------------------------------------------------------------------
@@ -235,7 +313,7 @@ export interface HookPayloads {
   };
   
   /**
-   * Fired after an email is sent
+   * Fired after each delivery attempt, successful or not
    */
   'email.sent': {
     template: string;
@@ -247,6 +325,20 @@ export interface HookPayloads {
     success: boolean;
     error?: string;
   };
+
+  /**
+   * Fired when an email is given up on after its last retry
+   */
+  'email.failed': {
+    /** Template type, or 'custom' for raw sends */
+    template: string;
+    recipient: {
+      email: string;
+    };
+    subject: string;
+    attempts: number;
+    error: string;
+  };
 }
 
 // =============================================================================
@@ -282,6 +374,10 @@ export const HOOK_NAMES: HookName[] = [
   'submission.statusChanged',
   'submission.updated',
   'submission.deleted',
+  'submission.confirmationRequested',
+  'submission.confirmed',
+  'submission.declined',
+  'submission.confirmationExpired',
   'user.registered',
   'user.roleChanged',
   'user.profileUpdated',
@@ -292,8 +388,10 @@ export const HOOK_NAMES: HookName[] = [
   'event.cfpOpened',
   'event.cfpClosed',
   'event.updated',
+  'event.schedulePublished',
   'email.beforeSend',
   'email.sent',
+  'email.failed',
 ];
 
 // =============================================================================
@@ -338,6 +436,30 @@ export const HOOK_METADATA: HookMetadata[] = [
     category: 'submission',
     canModifyPayload: false,
   },
+  {
+    name: 'submission.confirmationRequested',
+    description: 'Fired when an accepted speaker is asked to confirm attendance',
+    category: 'submission',
+    canModifyPayload: false,
+  },
+  {
+    name: 'submission.confirmed',
+    description: 'Fired when an accepted speaker confirms attendance',
+    category: 'submission',
+    canModifyPayload: false,
+  },
+  {
+    name: 'submission.declined',
+    description: 'Fired when an accepted speaker declines and the talk is withdrawn',
+    category: 'submission',
+    canModifyPayload: false,
+  },
+  {
+    name: 'submission.confirmationExpired',
+    description: 'Fired when an accepted speaker misses the confirmation deadline',
+    category: 'submission',
+    canModifyPayload: false,
+  },
   {
     name: 'user.registered',
     description: 'Fired when a new user registers',
@@ -398,6 +520,12 @@ export const HOOK_METADATA: HookMetadata[] = [
     category: 'event',
     canModifyPayload: false,
   },
+  {
+    name: 'event.schedulePublished',
+    description: 'Fired when an event schedule is published or republished',
+    category: 'event',
+    canModifyPayload: false,
+  },
   {
     name: 'email.beforeSend',
     description: 'Fired before an email is sent - can modify template variables',
@@ -406,7 +534,13 @@ export const HOOK_METADATA: HookMetadata[] = [
   },
   {
     name: 'email.sent',
-    description: 'Fired after an email is sent',
+    description: 'Fired after each email delivery attempt',
+    category: 'email',
+    canModifyPayload: false,
+  },
+  {
+    name: 'email.failed',
+    description: 'Fired when an email fails for good after its last retry',
     category: 'email',
     canModifyPayload: false,
   },
@@ -26,6 +26,7 @@ export type {
   // Capability types
   SubmissionCapability,
   SubmissionFilters,
+  SubmissionCustomFieldAnswer,
   UserCapability,
   UserFilters,
   EventCapability,
@@ -34,6 +35,8 @@ export type {
   ReviewCapability,
   ReviewFilters,
   ReviewCreateData,
+  ReviewCriterionScoreData,
+  ReviewCriterionScoreDetail,
   StorageCapability,
   EmailCapability,
   EmailRecipient,
@@ -124,3 +124,17 @@ export {
   // Types
   type InternalWorkerStatus,
 } from './internal-worker';
+
+// =============================================================================
+// SCHEDULED TASK EXPORTS
+// =============================================================================
+
+export {
+  // Core tasks run alongside plugin jobs
+  runScheduledTasks,
+  resetScheduledTasks,
+
+  // Types
+  type ScheduledTask,
+  type ScheduledTaskResult,
+} from './scheduled-tasks';
@@ -1,6 +1,6 @@
 /**
  * Internal Job Worker
- * @version 1.13.0
+ * @version 1.14.0
  *
  * Background worker that automatically processes plugin jobs without requiring
  * external cron configuration. Starts automatically when the server boots.
@@ -10,10 +10,11 @@
  * - Configurable polling interval (default: 30 seconds)
  * - Graceful shutdown support
  * - Automatic stale lock recovery
+ * - Runs scheduled core tasks (e.g. review deadline reminders)
  * - Self-healing on errors
  */
 
-import { processJobs, recoverStaleLocks, getJobStats } from './index';
+import { processJobs, recoverStaleLocks, getJobStats, runScheduledTasks } from './index';
 
 // =============================================================================
 // CONFIGURATION
@@ -113,6 +114,13 @@ async function pollAndProcess(): Promise<void> {
       );
     }
 
+    // Run scheduled core tasks whose interval has passed
+    for (const task of await runScheduledTasks(lastPollTime)) {
+      if (!task.success) {
+        console.warn(`[InternalWorker] Scheduled task ${task.name} failed: ${task.error}`);
+      }
+    }
+
     // Periodically log stats
     if (cycleCount % STATS_LOG_FREQUENCY === 0) {
       const stats = await getJobStats();
@@ -0,0 +1,181 @@
+/**
+ * Scheduled Core Tasks
+ * @version 1.0.0
+ *
+ * Recurring core tasks that the job worker runs alongside plugin jobs, so
+ * they need no cron of their own. Each task runs at most once per interval
+ * per worker process; tasks must be safe to run from several workers at
+ * once.
+ */
+
+// =============================================================================
+// TASKS
+// =============================================================================
+
+export interface ScheduledTask {
+  name: string;
+  intervalMs: number;
+  run: (now: Date) => Promise<unknown>;
+}
+
+export interface ScheduledTaskResult {
+  name: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+const SCHEDULED_TASKS: ScheduledTask[] = [
+  {
+    // Review deadline reminders and lead escalations
+    name: 'review-reminders',
+    intervalMs: 15 * 60_000,
+    run: async (now) => {
+      const { processReviewReminders } = await import('@/lib/reviews/reminders');
+      return processReviewReminders(now);
+    },
+  },
+  {
+    // Retry failed webhook deliveries that are due
+    name: 'webhook-deliveries',
+    intervalMs: 60_000,
+    run: async (now) => {
+      const { processWebhookQueue } = await import('@/lib/webhooks');
+      return processWebhookQueue(now);
+    },
+  },
+  {
+    // Forget webhook deliveries past the retention period
+    name: 'webhook-log-cleanup',
+    intervalMs: 24 * 60 * 60_000,
+    run: async (now) => {
+      const { purgeWebhookLog } = await import('@/lib/webhooks');
+      return { purged: await purgeWebhookLog(now) };
+    },
+  },
+  {
+    // Forget sessions that ended past the retention period
+    name: 'session-cleanup',
+    intervalMs: 24 * 60 * 60_000,
+    run: async (now) => {
+      const { purgeUserSessions } = await import('@/lib/sessions/service');
+      return { purged: await purgeUserSessions(now) };
+    },
+  },
+  {
+    // Expire overdue speaker confirmations and promote from the waitlist
+    name: 'speaker-confirmations',
+    intervalMs: 60 * 60_000,
+    run: async (now) => {
+      const { expireOverdueConfirmations } = await import('@/lib/confirmations');
+      return { expired: await expireOverdueConfirmations(now) };
+    },
+  },
+  {
+    // Run queued bulk operations and resume interrupted ones
+    name: 'bulk-operations',
+    intervalMs: 10 * 60_000,
+    run: async (now) => {
+      const { resumeBulkOperations } = await import('@/lib/bulk-operations');
+      return resumeBulkOperations(now);
+    },
+  },
+  {
+    // Carry out approved account erasures past their grace period
+    name: 'data-erasure',
+    intervalMs: 60 * 60_000,
+    run: async (now) => {
+      const { processDueErasures } = await import('@/lib/gdpr');
+      return { erased: await processDueErasures(now) };
+    },
+  },
+  {
+    // Run queued key rotations and resume interrupted ones
+    name: 'key-rotation',
+    intervalMs: 10 * 60_000,
+    run: async (now) => {
+      const { resumeKeyRotations } = await import('@/lib/key-rotation');
+      return resumeKeyRotations(now);
+    },
+  },
+  {
+    // Retry failed and deferred emails that are due
+    name: 'email-queue',
+    intervalMs: 5 * 60_000,
+    run: async () => {
+      const { emailService } = await import('@/lib/email');
+      // Null when SMTP is not configured - emails stay queued until it is
+      return emailService.processQueue();
+    },
+  },
+  {
+    // Forget emails past the retention period
+    name: 'email-log-cleanup',
+    intervalMs: 24 * 60 * 60_000,
+    run: async (now) => {
+      const { purgeEmailLog } = await import('@/lib/email');
+      return { purged: await purgeEmailLog(now) };
+    },
+  },
+  {
+    // Send daily and weekly notification digests that are due
+    name: 'notification-digests',
+    intervalMs: 60 * 60_000,
+    run: async (now) => {
+      const { processNotificationDigests } = await import('@/lib/notifications');
+      return processNotificationDigests(now);
+    },
+  },
+  {
+    // Forget in-app notifications past the retention period
+    name: 'notification-cleanup',
+    intervalMs: 24 * 60 * 60_000,
+    run: async (now) => {
+      const { purgeNotifications } = await import('@/lib/notifications');
+      return { purged: await purgeNotifications(now) };
+    },
+  },
+];
+
+/** When each task last started in this process */
+const lastRunAt = new Map<string, number>();
+
+// =============================================================================
+// RUNNER
+// =============================================================================
+
+/**
+ * Run every task whose interval has passed. A failing task is logged and
+ * retried after its next interval; it does not stop the others.
+ */
+export async function runScheduledTasks(now: Date = new Date()): Promise<ScheduledTaskResult[]> {
+  const results: ScheduledTaskResult[] = [];
+
+  for (const task of SCHEDULED_TASKS) {
+    const lastRun = lastRunAt.get(task.name);
+    if (lastRun !== undefined && now.getTime() - lastRun < task.intervalMs) {
+      continue;
+    }
+    lastRunAt.set(task.name, now.getTime());
+
+    try {
+      results.push({ name: task.name, success: true, result: await task.run(now) });
+    } catch (error) {
+      console.error(`[ScheduledTasks] Task ${task.name} failed:`, error);
+      results.push({
+        name: task.name,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Forget when tasks last ran (for tests)
+ */
+export function resetScheduledTasks(): void {
+  lastRunAt.clear();
+}
@@ -25,7 +25,8 @@ export type PluginPermission =
   | 'reviews:write'
   | 'storage:read'
   | 'storage:write'
-  | 'email:send';
+  | 'email:send'
+  | 'notifications:send';
 
 /**
  * Permission descriptions for admin UI
@@ -42,6 +43,7 @@ export const PERMISSION_DESCRIPTIONS: Record<PluginPermission, string> = {
   'storage:read': 'Read files from storage',
   'storage:write': 'Upload/delete files',
   'email:send': 'Send emails',
+  'notifications:send': 'Post in-app notifications to users',
 };
 
 // =============================================================================
@@ -185,6 +187,11 @@ export interface PluginContext {
    * @version 1.19.0
    */
   aiReviews: AiReviewCapability;
+  /**
+   * In-app notifications
+   * @version 1.23.0
+   */
+  notifications: NotificationCapability;
 }
 
 // =============================================================================
@@ -201,6 +208,7 @@ import type {
   Review,
   ReviewRecommendation,
   ExperienceLevel,
+  SubmissionFieldType,
 } from '@prisma/client';
 
 /**
@@ -257,19 +265,43 @@ export interface SubmissionWithSpeakers extends Submission {
   coSpeakers: SubmissionCoSpeakerInfo[];
 }
 
+/**
+ * Answer to one of the event's own submission form questions
+ * @version 1.23.0
+ */
+export interface SubmissionCustomFieldAnswer {
+  fieldId: string;
+  label: string;
+  type: SubmissionFieldType;
+  /** Text, chosen option(s), number or checkbox state; null when unanswered */
+  value: string | string[] | number | boolean | null;
+}
+
 /**
  * Submission capability - requires 'submissions:read' or 'submissions:manage'
  */
 export interface SubmissionCapability {
-  /** Get a single submission by ID - requires 'submissions:read' */
+  /**
+   * Get a single submission by ID - requires 'submissions:read'.
+   * Speakers of blind review events are anonymous.
+   */
   get(id: string): Promise<Submission | null>;
   /**
    * Get a submission with speaker profile and co-speakers - requires 'submissions:read'
    * @version 1.12.0
    */
   getWithSpeakers(id: string): Promise<SubmissionWithSpeakers | null>;
-  /** List submissions with optional filters - requires 'submissions:read' */
+  /**
+   * List submissions with optional filters - requires 'submissions:read'.
+   * Speakers of blind review events are anonymous and not filtered on.
+   */
   list(filters?: SubmissionFilters): Promise<Submission[]>;
+  /**
+   * Get the answers to the event's own form questions, in form order -
+   * requires 'submissions:read'
+   * @version 1.23.0
+   */
+  getCustomFields(id: string): Promise<SubmissionCustomFieldAnswer[] | null>;
   /** Update submission status - requires 'submissions:manage' */
   updateStatus(id: string, status: SubmissionStatus): Promise<Submission>;
 }
@@ -346,6 +378,24 @@ export interface ReviewFilters {
   recommendation?: ReviewRecommendation;
 }
 
+/**
+ * Score for one event review criterion
+ */
+export interface ReviewCriterionScoreData {
+  criteriaId: string;
+  /** 1-5 scale */
+  score: number;
+}
+
+/**
+ * Criterion score with the criterion's name and weight
+ */
+export interface ReviewCriterionScoreDetail extends ReviewCriterionScoreData {
+  name: string;
+  /** 1-5 scale */
+  weight: number;
+}
+
 /**
  * Review creation data
  */
@@ -356,6 +406,8 @@ export interface ReviewCreateData {
   presentationScore?: number;
   relevanceScore?: number;
   overallScore?: number;
+  /** Scores against the event's review criteria; sets weightedScore */
+  criterionScores?: ReviewCriterionScoreData[];
   privateNotes?: string;
   publicNotes?: string;
   recommendation?: ReviewRecommendation;
@@ -371,6 +423,8 @@ export interface ReviewCapability {
   list(filters?: ReviewFilters): Promise<Review[]>;
   /** Get reviews for a submission - requires 'reviews:read' */
   getBySubmission(submissionId: string): Promise<Review[]>;
+  /** Get a review's per-criterion scores - requires 'reviews:read' (available in v1.23.0+) */
+  getCriterionScores(reviewId: string): Promise<ReviewCriterionScoreDetail[]>;
   /** Create a review - requires 'reviews:write' */
   create(data: ReviewCreateData): Promise<Review>;
   /** Update a review - requires 'reviews:write' */
@@ -412,6 +466,35 @@ export interface EmailCapability {
   }): Promise<void>;
 }
 
+/**
+ * Who a plugin notification goes to. Users listed by ID and users with
+ * any of the roles are combined.
+ * @version 1.23.0
+ */
+export interface PluginNotificationInput {
+  userIds?: string[];
+  roles?: UserRole[];
+  /** Shown in bold, up to 200 characters */
+  title: string;
+  /** Optional detail, up to 2000 characters (shown shortened) */
+  body?: string;
+  /** Where the notification links: a path on this site or an http(s) URL */
+  url?: string;
+}
+
+/**
+ * Notification capability - requires 'notifications:send'
+ * @version 1.23.0
+ */
+export interface NotificationCapability {
+  /**
+   * Post a notice to users' notification centers - requires
+   * 'notifications:send'. Users who turned plugin notices off are skipped.
+   * Returns how many notifications were created.
+   */
+  send(input: PluginNotificationInput): Promise<{ count: number }>;
+}
+
 /**
  * Plugin data key-value store capability
  * No extra permissions needed - scoped to the plugin's own data.
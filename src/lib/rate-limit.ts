@@ -48,6 +48,9 @@ export const RATE_LIMITS = {
   
   // Webhook endpoints
   webhook: { requests: 60, windowMs: 60 * 1000 }, // 60 per minute
+  
+  // Personal data exports (archives are expensive to build)
+  dataExport: { requests: 3, windowMs: 60 * 60 * 1000 }, // 3 per hour
 } as const;
 
 export type RateLimitType = keyof typeof RATE_LIMITS;
@@ -191,23 +194,35 @@ export function getClientIdentifier(request: Request): string {
     return `fingerprint:${Math.abs(hash % 1000)}`;
   }
   
-  // ONLY check these headers when we trust our proxy infrastructure
+  // ONLY check proxy headers when we trust our proxy infrastructure,
+  // falling back when behind a proxy but no headers were found
+  return getClientIp(request.headers) ?? 'unknown';
+}
+
+/**
+ * The client's IP address from trusted proxy headers, or null when proxy
+ * headers aren't trusted (TRUST_PROXY_HEADERS=false) or none are present
+ */
+export function getClientIp(headers: Headers): string | null {
+  if (!TRUST_PROXY_HEADERS) {
+    return null;
+  }
   
   // 1. Cloudflare: CF-Connecting-IP is set by Cloudflare edge
   // Only trust if you're actually behind Cloudflare
-  const cfIp = request.headers.get('cf-connecting-ip');
+  const cfIp = headers.get('cf-connecting-ip');
   if (cfIp) {
     return cfIp.trim();
   }
   
   // 2. X-Real-IP: Typically set by nginx with "proxy_set_header X-Real-IP $remote_addr"
-  const realIp = request.headers.get('x-real-ip');
+  const realIp = headers.get('x-real-ip');
   if (realIp) {
     return realIp.trim();
   }
   
   // 3. X-Forwarded-For: Standard proxy header, format "client, proxy1, proxy2, ..."
-  const forwarded = request.headers.get('x-forwarded-for');
+  const forwarded = headers.get('x-forwarded-for');
   if (forwarded) {
     const ips = forwarded.split(',').map(ip => ip.trim()).filter(Boolean);
     if (ips.length > 0) {
@@ -227,8 +242,7 @@ export function getClientIdentifier(request: Request): string {
     }
   }
   
-  // Fallback when behind proxy but no headers found
-  return 'unknown';
+  return null;
 }
 
 /**
@@ -0,0 +1,287 @@
+/**
+ * Review Anonymity
+ *
+ * Pure helpers for blind and double-blind review. An event's
+ * reviewAnonymity decides what reviewers may see:
+ * - OPEN: speakers and other reviewers are visible
+ * - SPEAKER_HIDDEN: speaker, co-speaker and profile details are redacted
+ * - DOUBLE_BLIND: as above, and other reviewers appear as "Reviewer N"
+ *
+ * Organizers and admins always see full identities. Redaction happens on
+ * the server before data reaches a response, page or plugin.
+ */
+
+// ============================================================================
+// Modes
+// ============================================================================
+
+export const REVIEW_ANONYMITY_MODES = ['OPEN', 'SPEAKER_HIDDEN', 'DOUBLE_BLIND'] as const;
+
+export type ReviewAnonymityMode = (typeof REVIEW_ANONYMITY_MODES)[number];
+
+export const ANONYMOUS_SPEAKER_ID = 'anonymous-speaker';
+export const ANONYMOUS_SPEAKER_NAME = 'Anonymous Speaker';
+
+/**
+ * Normalize a stored anonymity value, defaulting to OPEN
+ */
+export function getReviewAnonymity(value: string | null | undefined): ReviewAnonymityMode {
+  return REVIEW_ANONYMITY_MODES.includes(value as ReviewAnonymityMode)
+    ? (value as ReviewAnonymityMode)
+    : 'OPEN';
+}
+
+export function hidesSpeaker(mode: ReviewAnonymityMode): boolean {
+  return mode !== 'OPEN';
+}
+
+export function hidesReviewers(mode: ReviewAnonymityMode): boolean {
+  return mode === 'DOUBLE_BLIND';
+}
+
+/**
+ * Organizers and admins are never subject to anonymity
+ */
+export function canSeeIdentities(role: string): boolean {
+  return role === 'ADMIN' || role === 'ORGANIZER';
+}
+
+// ============================================================================
+// Viewer
+// ============================================================================
+
+export interface AnonymityView {
+  mode: ReviewAnonymityMode;
+  viewerId: string;
+  hideSpeaker: boolean;
+  hideReviewers: boolean;
+  /** The viewer is privileged and receives identities the mode would hide */
+  revealsIdentities: boolean;
+}
+
+/**
+ * Decide what a viewer may see for an event's anonymity mode
+ */
+export function resolveAnonymityView(
+  mode: ReviewAnonymityMode,
+  viewer: { id: string; role: string }
+): AnonymityView {
+  const privileged = canSeeIdentities(viewer.role);
+
+  return {
+    mode,
+    viewerId: viewer.id,
+    hideSpeaker: hidesSpeaker(mode) && !privileged,
+    hideReviewers: hidesReviewers(mode) && !privileged,
+    revealsIdentities: mode !== 'OPEN' && privileged,
+  };
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Null every field of a person record, then set a placeholder id and name.
+ * Nulling everything (rather than a list of known fields) means fields added
+ * to a query later are hidden by default.
+ */
+function redactPerson<T extends object>(person: T, id: string, name: string): T {
+  const redacted = Object.fromEntries(Object.keys(person).map(key => [key, null]));
+  return { ...redacted, id, name } as T;
+}
+
+export function redactSpeaker<T extends object>(speaker: T): T {
+  return redactPerson(speaker, ANONYMOUS_SPEAKER_ID, ANONYMOUS_SPEAKER_NAME);
+}
+
+/**
+ * Co-speakers keep their row id (for list keys) and become "Co-speaker N"
+ */
+export function redactCoSpeakers<T extends object>(coSpeakers: T[]): T[] {
+  return coSpeakers.map((coSpeaker, index) => {
+    const id = (coSpeaker as { id?: string }).id ?? `co-speaker-${index + 1}`;
+    return redactPerson(coSpeaker, id, `Co-speaker ${index + 1}`);
+  });
+}
+
+interface SubmissionIdentityFields {
+  speakerId?: string | null;
+  federatedSpeakerId?: string | null;
+  speaker?: object | null;
+  coSpeakers?: object[];
+}
+
+/**
+ * Strip speaker identity from a submission, including nested speaker and
+ * co-speaker records when they were loaded
+ */
+export function redactSubmission<T extends SubmissionIdentityFields>(submission: T): T {
+  return {
+    ...submission,
+    ...('speakerId' in submission && { speakerId: ANONYMOUS_SPEAKER_ID }),
+    ...('federatedSpeakerId' in submission && { federatedSpeakerId: null }),
+    ...(submission.speaker && { speaker: redactSpeaker(submission.speaker) }),
+    ...(submission.coSpeakers && { coSpeakers: redactCoSpeakers(submission.coSpeakers) }),
+  };
+}
+
+/**
+ * Apply a viewer's speaker anonymity to a submission
+ */
+export function applySpeakerAnonymity<T extends SubmissionIdentityFields>(
+  submission: T,
+  view: AnonymityView
+): T {
+  return view.hideSpeaker ? redactSubmission(submission) : submission;
+}
+
+// ============================================================================
+// Reviewer Aliases
+// ============================================================================
+
+export interface ReviewerAlias {
+  id: string;
+  name: string;
+}
+
+/**
+ * Assigns stable "Reviewer N" aliases within one submission. Seed it with
+ * the submission's reviewer ids in review order so every response numbers
+ * reviewers the same way. The viewer is never aliased.
+ */
+export function createReviewerAliases(viewerId: string, seedUserIds: string[] = []) {
+  const numbers = new Map<string, number>();
+
+  const aliasFor = (userId: string): ReviewerAlias | null => {
+    if (userId === viewerId) return null;
+
+    let number = numbers.get(userId);
+    if (number === undefined) {
+      number = numbers.size + 1;
+      numbers.set(userId, number);
+    }
+
+    return { id: `anonymous-reviewer-${number}`, name: `Reviewer ${number}` };
+  };
+
+  seedUserIds.forEach(aliasFor);
+
+  return aliasFor;
+}
+
+export type ReviewerAliasFn = ReturnType<typeof createReviewerAliases>;
+
+interface DiscussionIdentityFields {
+  authorId: string;
+  author?: object | null;
+}
+
+interface ReviewIdentityFields {
+  reviewerId: string;
+  reviewer?: object | null;
+  discussions?: DiscussionIdentityFields[];
+}
+
+/**
+ * Replace discussion authors other than the viewer with their aliases
+ */
+export function aliasDiscussionAuthors<T extends DiscussionIdentityFields>(
+  discussions: T[],
+  aliasFor: ReviewerAliasFn
+): T[] {
+  return discussions.map(discussion => {
+    const alias = aliasFor(discussion.authorId);
+    if (!alias) return discussion;
+
+    return {
+      ...discussion,
+      authorId: alias.id,
+      ...(discussion.author && { author: redactPerson(discussion.author, alias.id, alias.name) }),
+    };
+  });
+}
+
+/**
+ * Replace reviewers (and discussion authors) other than the viewer with
+ * their aliases
+ */
+export function aliasReviewers<T extends ReviewIdentityFields>(
+  reviews: T[],
+  aliasFor: ReviewerAliasFn
+): T[] {
+  return reviews.map(review => {
+    const alias = aliasFor(review.reviewerId);
+
+    return {
+      ...review,
+      ...(alias && {
+        reviewerId: alias.id,
+        ...(review.reviewer && { reviewer: redactPerson(review.reviewer, alias.id, alias.name) }),
+      }),
+      ...(review.discussions && {
+        discussions: aliasDiscussionAuthors(review.discussions, aliasFor),
+      }),
+    };
+  });
+}
+
+/**
+ * Apply a viewer's reviewer anonymity to a submission's reviews
+ */
+export function applyReviewerAnonymity<T extends ReviewIdentityFields>(
+  reviews: T[],
+  view: AnonymityView
+): T[] {
+  if (!view.hideReviewers) return reviews;
+
+  const aliasFor = createReviewerAliases(view.viewerId, reviews.map(r => r.reviewerId));
+  return aliasReviewers(reviews, aliasFor);
+}
+
+interface MessageIdentityFields {
+  senderId: string | null;
+  senderType: string;
+  sender?: object | null;
+  replies?: MessageIdentityFields[];
+}
+
+/**
+ * Redact speaker-sent messages (and alias reviewer-sent ones under
+ * double-blind) in a submission's message threads. The viewer's own
+ * messages are left intact.
+ */
+export function applyMessageAnonymity<T extends MessageIdentityFields>(
+  messages: T[],
+  view: AnonymityView,
+  aliasFor: ReviewerAliasFn
+): T[] {
+  if (!view.hideSpeaker && !view.hideReviewers) return messages;
+
+  return messages.map(message => {
+    let redacted: T = message;
+
+    if (message.senderId !== view.viewerId) {
+      if (view.hideSpeaker && message.senderType === 'SPEAKER') {
+        redacted = {
+          ...message,
+          senderId: null,
+          ...(message.sender && { sender: redactSpeaker(message.sender) }),
+        };
+      } else if (view.hideReviewers && message.senderType === 'REVIEWER' && message.senderId) {
+        const alias = aliasFor(message.senderId);
+        if (alias) {
+          redacted = {
+            ...message,
+            senderId: alias.id,
+            ...(message.sender && { sender: redactPerson(message.sender, alias.id, alias.name) }),
+          };
+        }
+      }
+    }
+
+    return message.replies
+      ? { ...redacted, replies: applyMessageAnonymity(message.replies, view, aliasFor) }
+      : redacted;
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Reviewer Assignment Engine
+ *
+ * Pure helpers that propose per-submission reviewer assignments so every
+ * submission reaches the event's minReviewsPerTalk. Reviewers with a
+ * conflict of interest are excluded; the rest are chosen by load relative
+ * to their stated weekly hours, then by how well their expertise areas
+ * match the submission's track and tags.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AssignmentReviewer {
+  id: string;
+  name: string;
+  company: string | null;
+  expertiseAreas: string[];
+  hoursPerWeek: string | null;
+  /** Open assignments the reviewer already has */
+  currentLoad: number;
+}
+
+export interface AssignmentSubmission {
+  id: string;
+  title: string;
+  speakerId: string;
+  /** Users linked to the submission's co-speakers */
+  coSpeakerIds: string[];
+  /** Track name, talk tags and other topic labels */
+  topics: string[];
+  /** Companies of the speaker and linked co-speakers */
+  speakerCompanies: string[];
+  /** Reviewers who already reviewed the submission */
+  reviewedBy: string[];
+  /** Reviewers already assigned to the submission */
+  assignedTo: string[];
+}
+
+export type ConflictReason = 'SPEAKER' | 'SAME_COMPANY' | 'DECLARED';
+
+export interface AssignmentConflict {
+  submissionId: string;
+  reviewerId: string;
+  reason: ConflictReason;
+}
+
+export interface ProposedAssignment {
+  submissionId: string;
+  reviewerId: string;
+  /** Expertise areas that matched the submission's topics */
+  matchedExpertise: string[];
+}
+
+export interface ReviewerLoad {
+  reviewerId: string;
+  currentLoad: number;
+  proposed: number;
+  capacityHours: number;
+}
+
+export interface AssignmentPlan {
+  assignments: ProposedAssignment[];
+  conflicts: AssignmentConflict[];
+  /** Submissions that could not reach the minimum, with how many are missing */
+  unfilled: Array<{ submissionId: string; missing: number }>;
+  load: ReviewerLoad[];
+}
+
+// ============================================================================
+// Capacity & Matching
+// ============================================================================
+
+/** Approximate weekly hours for each ReviewerProfile.hoursPerWeek option */
+const HOURS_BY_OPTION: Record<string, number> = {
+  '1-2': 1.5,
+  '2-5': 3.5,
+  '5-10': 7.5,
+  '10+': 12,
+};
+
+/** Reviewers without a profile are treated as the onboarding default */
+const DEFAULT_HOURS = HOURS_BY_OPTION['2-5'];
+
+/** How much one matching expertise area offsets one assignment of load */
+const EXPERTISE_WEIGHT = 0.5;
+
+/** Matches beyond this count do not make a reviewer more preferred */
+const MAX_COUNTED_MATCHES = 2;
+
+export function reviewerCapacityHours(hoursPerWeek: string | null | undefined): number {
+  return (hoursPerWeek && HOURS_BY_OPTION[hoursPerWeek]) || DEFAULT_HOURS;
+}
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|gmbh|corp|corporation|co|plc|sa|ag|bv|pty)\b\.?/g;
+
+/**
+ * Normalize a company name for comparison: case, punctuation and legal
+ * suffixes are ignored ("Acme, Inc." matches "acme")
+ */
+export function normalizeCompany(company: string | null | undefined): string {
+  if (!company) return '';
+
+  return company
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeTopic(topic: string): string {
+  return topic.toLowerCase().trim();
+}
+
+/**
+ * Expertise areas that match a submission topic. A match is an exact
+ * (case-insensitive) label or one label containing the other, so
+ * "Cloud Security" matches a "Security" track.
+ */
+export function matchExpertise(expertiseAreas: string[], topics: string[]): string[] {
+  const normalizedTopics = topics.map(normalizeTopic).filter(Boolean);
+
+  return expertiseAreas.filter(area => {
+    const normalized = normalizeTopic(area);
+    if (!normalized) return false;
+    return normalizedTopics.some(topic => topic.includes(normalized) || normalized.includes(topic));
+  });
+}
+
+/**
+ * Why a reviewer must not review a submission, or null when they may
+ */
+export function findConflict(
+  reviewer: Pick<AssignmentReviewer, 'id' | 'company'>,
+  submission: Pick<AssignmentSubmission, 'id' | 'speakerId' | 'coSpeakerIds' | 'speakerCompanies'>,
+  declaredConflicts: Set<string>
+): ConflictReason | null {
+  if (reviewer.id === submission.speakerId || submission.coSpeakerIds.includes(reviewer.id)) {
+    return 'SPEAKER';
+  }
+
+  if (declaredConflicts.has(conflictKey(submission.id, reviewer.id))) return 'DECLARED';
+
+  const company = normalizeCompany(reviewer.company);
+  if (company && submission.speakerCompanies.some(c => normalizeCompany(c) === company)) {
+    return 'SAME_COMPANY';
+  }
+
+  return null;
+}
+
+/**
+ * Key for a declared (submission, reviewer) conflict
+ */
+export function conflictKey(submissionId: string, reviewerId: string): string {
+  return `${submissionId}:${reviewerId}`;
+}
+
+// ============================================================================
+// Plan Generation
+// ============================================================================
+
+/**
+ * Propose assignments so each submission reaches minReviews reviewers
+ * (counting existing reviews and assignments). Submissions with the fewest
+ * eligible reviewers are filled first so scarce reviewers go where they are
+ * needed. The result is deterministic for the same input.
+ */
+export function generateAssignmentPlan(input: {
+  submissions: AssignmentSubmission[];
+  reviewers: AssignmentReviewer[];
+  minReviews: number;
+  declaredConflicts: Set<string>;
+}): AssignmentPlan {
+  const { submissions, reviewers, minReviews, declaredConflicts } = input;
+
+  const conflicts: AssignmentConflict[] = [];
+  const eligible = new Map<string, AssignmentReviewer[]>();
+
+  for (const submission of submissions) {
+    const covered = new Set([...submission.reviewedBy, ...submission.assignedTo]);
+    const candidates: AssignmentReviewer[] = [];
+
+    for (const reviewer of reviewers) {
+      const reason = findConflict(reviewer, submission, declaredConflicts);
+      if (reason) {
+        conflicts.push({ submissionId: submission.id, reviewerId: reviewer.id, reason });
+      } else if (!covered.has(reviewer.id)) {
+        candidates.push(reviewer);
+      }
+    }
+
+    eligible.set(submission.id, candidates);
+  }
+
+  const proposed = new Map(reviewers.map(r => [r.id, 0]));
+  const loadRatio = (reviewer: AssignmentReviewer) =>
+    (reviewer.currentLoad + (proposed.get(reviewer.id) ?? 0) + 1) /
+    reviewerCapacityHours(reviewer.hoursPerWeek);
+
+  const needed = (submission: AssignmentSubmission) =>
+    Math.max(0, minReviews - new Set([...submission.reviewedBy, ...submission.assignedTo]).size);
+
+  const order = [...submissions]
+    .filter(s => needed(s) > 0)
+    .sort((a, b) =>
+      (eligible.get(a.id)!.length - needed(a)) - (eligible.get(b.id)!.length - needed(b)) ||
+      a.id.localeCompare(b.id)
+    );
+
+  const assignments: ProposedAssignment[] = [];
+  const unfilled: AssignmentPlan['unfilled'] = [];
+
+  for (const submission of order) {
+    const count = needed(submission);
+
+    const ranked = eligible.get(submission.id)!
+      .map(reviewer => {
+        const matchedExpertise = matchExpertise(reviewer.expertiseAreas, submission.topics);
+        const cost = loadRatio(reviewer) -
+          EXPERTISE_WEIGHT * Math.min(matchedExpertise.length, MAX_COUNTED_MATCHES);
+        return { reviewer, matchedExpertise, cost };
+      })
+      .sort((a, b) => a.cost - b.cost || a.reviewer.id.localeCompare(b.reviewer.id));
+
+    for (const { reviewer, matchedExpertise } of ranked.slice(0, count)) {
+      assignments.push({ submissionId: submission.id, reviewerId: reviewer.id, matchedExpertise });
+      proposed.set(reviewer.id, (proposed.get(reviewer.id) ?? 0) + 1);
+    }
+
+    if (ranked.length < count) {
+      unfilled.push({ submissionId: submission.id, missing: count - ranked.length });
+    }
+  }
+
+  return {
+    assignments,
+    conflicts,
+    unfilled,
+    load: reviewers.map(reviewer => ({
+      reviewerId: reviewer.id,
+      currentLoad: reviewer.currentLoad,
+      proposed: proposed.get(reviewer.id) ?? 0,
+      capacityHours: reviewerCapacityHours(reviewer.hoursPerWeek),
+    })),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Review Assignments
+ *
+ * Database access for per-submission reviewer assignments and
+ * reviewer-declared conflicts of interest.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  SPEAKER_PROFILE_PII_FIELDS,
+  REVIEWER_PROFILE_PII_FIELDS,
+} from '@/lib/security/encryption';
+import {
+  conflictKey,
+  findConflict,
+  generateAssignmentPlan,
+  type AssignmentPlan,
+  type AssignmentReviewer,
+  type AssignmentSubmission,
+} from './assignment-engine';
+
+/** Submissions that still take reviews */
+const OPEN_STATUSES = ['PENDING', 'UNDER_REVIEW'] as const;
+
+// ============================================================================
+// Inputs
+// ============================================================================
+
+export interface AssignmentInputs {
+  minReviews: number;
+  reviewers: AssignmentReviewer[];
+  submissions: AssignmentSubmission[];
+  declaredConflicts: Set<string>;
+}
+
+/**
+ * Load the review team, open submissions and declared conflicts of an event
+ * in the shape the assignment engine expects. Returns null for unknown events.
+ */
+export async function loadAssignmentInputs(eventId: string): Promise<AssignmentInputs | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      minReviewsPerTalk: true,
+      reviewTeam: {
+        select: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              reviewerProfile: {
+                select: { fullName: true, company: true, expertiseAreas: true, hoursPerWeek: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!event) return null;
+
+  const [submissions, openAssignments] = await Promise.all([
+    prisma.submission.findMany({
+      where: { eventId, status: { in: [...OPEN_STATUSES] } },
+      select: {
+        id: true,
+        title: true,
+        speakerId: true,
+        track: { select: { name: true } },
+        talk: { select: { tags: true } },
+        speaker: { select: { speakerProfile: { select: { company: true } } } },
+        coSpeakers: { select: { linkedUserId: true } },
+        reviews: { select: { reviewerId: true } },
+        assignments: { select: { reviewerId: true } },
+        conflicts: { select: { reviewerId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    // Load = assignments across all events that have no review yet
+    prisma.reviewAssignment.findMany({
+      where: {
+        reviewerId: { in: event.reviewTeam.map(m => m.user.id) },
+        submission: { status: { in: [...OPEN_STATUSES] } },
+      },
+      select: {
+        reviewerId: true,
+        submission: { select: { reviews: { select: { reviewerId: true } } } },
+      },
+    }),
+  ]);
+
+  // Companies of linked co-speakers live on their own speaker profiles
+  const coSpeakerUserIds = [
+    ...new Set(submissions.flatMap(s => s.coSpeakers.map(c => c.linkedUserId).filter((id): id is string => !!id))),
+  ];
+  const coSpeakerProfiles = coSpeakerUserIds.length > 0
+    ? await prisma.speakerProfile.findMany({
+        where: { userId: { in: coSpeakerUserIds } },
+        select: { userId: true, company: true },
+      })
+    : [];
+  const companyByUser = new Map(
+    coSpeakerProfiles.map(p => [p.userId, decryptCompany(p)])
+  );
+
+  const currentLoad = new Map<string, number>();
+  for (const assignment of openAssignments) {
+    const reviewed = assignment.submission.reviews.some(r => r.reviewerId === assignment.reviewerId);
+    if (!reviewed) {
+      currentLoad.set(assignment.reviewerId, (currentLoad.get(assignment.reviewerId) ?? 0) + 1);
+    }
+  }
+
+  const declaredConflicts = new Set(
+    submissions.flatMap(s => s.conflicts.map(c => conflictKey(s.id, c.reviewerId)))
+  );
+
+  return {
+    minReviews: event.minReviewsPerTalk,
+    reviewers: event.reviewTeam.map(({ user }) => {
+      const profile = user.reviewerProfile
+        ? decryptPiiFields(user.reviewerProfile as unknown as Record<string, unknown>, REVIEWER_PROFILE_PII_FIELDS)
+        : null;
+      const decryptedUser = decryptPiiFields(user as unknown as Record<string, unknown>, USER_PII_FIELDS);
+
+      return {
+        id: user.id,
+        name: (profile?.fullName as string | undefined) || (decryptedUser.name as string | null) || user.email,
+        company: (profile?.company as string | null | undefined) ?? null,
+        expertiseAreas: user.reviewerProfile?.expertiseAreas ?? [],
+        hoursPerWeek: user.reviewerProfile?.hoursPerWeek ?? null,
+        currentLoad: currentLoad.get(user.id) ?? 0,
+      };
+    }),
+    submissions: submissions.map(s => ({
+      id: s.id,
+      title: s.title,
+      speakerId: s.speakerId,
+      coSpeakerIds: s.coSpeakers.map(c => c.linkedUserId).filter((id): id is string => !!id),
+      topics: [...(s.track ? [s.track.name] : []), ...(s.talk?.tags ?? [])],
+      speakerCompanies: [
+        s.speaker.speakerProfile ? decryptCompany(s.speaker.speakerProfile) : null,
+        ...s.coSpeakers.map(c => (c.linkedUserId ? companyByUser.get(c.linkedUserId) ?? null : null)),
+      ].filter((company): company is string => !!company),
+      reviewedBy: s.reviews.map(r => r.reviewerId),
+      assignedTo: s.assignments.map(a => a.reviewerId),
+    })),
+    declaredConflicts,
+  };
+}
+
+function decryptCompany(profile: { company: string | null }): string | null {
+  const decrypted = decryptPiiFields(profile as unknown as Record<string, unknown>, SPEAKER_PROFILE_PII_FIELDS);
+  return (decrypted.company as string | null) ?? null;
+}
+
+// ============================================================================
+// Preview & Commit
+// ============================================================================
+
+export interface AssignmentPreview extends AssignmentInputs {
+  plan: AssignmentPlan;
+}
+
+/**
+ * Generate (but do not save) an assignment plan for an event
+ */
+export async function previewReviewAssignments(eventId: string): Promise<AssignmentPreview | null> {
+  const inputs = await loadAssignmentInputs(eventId);
+  if (!inputs) return null;
+
+  return { ...inputs, plan: generateAssignmentPlan(inputs) };
+}
+
+/**
+ * The parts of a preview that are safe to send to the organizer's browser.
+ * Reviewer and speaker companies stay on the server.
+ */
+export function summarizeAssignmentPreview(preview: AssignmentPreview) {
+  return {
+    minReviews: preview.minReviews,
+    reviewers: preview.reviewers.map(r => ({
+      id: r.id,
+      name: r.name,
+      expertiseAreas: r.expertiseAreas,
+      hoursPerWeek: r.hoursPerWeek,
+      currentLoad: r.currentLoad,
+    })),
+    submissions: preview.submissions.map(s => ({
+      id: s.id,
+      title: s.title,
+      topics: s.topics,
+      reviewedBy: s.reviewedBy,
+      assignedTo: s.assignedTo,
+    })),
+    plan: preview.plan,
+  };
+}
+
+/**
+ * Save assignments after re-checking each against the current team,
+ * submissions and conflicts. Nothing is saved if any pair is invalid.
+ */
+export async function commitReviewAssignments(
+  eventId: string,
+  pairs: Array<{ submissionId: string; reviewerId: string; isAutomatic: boolean }>,
+  assignedById: string
+): Promise<{ created: number; error: string | null }> {
+  const inputs = await loadAssignmentInputs(eventId);
+  if (!inputs) return { created: 0, error: 'Event not found' };
+
+  const reviewers = new Map(inputs.reviewers.map(r => [r.id, r]));
+  const submissions = new Map(inputs.submissions.map(s => [s.id, s]));
+
+  for (const pair of pairs) {
+    const reviewer = reviewers.get(pair.reviewerId);
+    const submission = submissions.get(pair.submissionId);
+
+    if (!reviewer) {
+      return { created: 0, error: 'Assignments must use reviewers on this event\'s review team' };
+    }
+    if (!submission) {
+      return { created: 0, error: 'Assignments must reference open submissions of this event' };
+    }
+    if (findConflict(reviewer, submission, inputs.declaredConflicts)) {
+      return {
+        created: 0,
+        error: `${reviewer.name} has a conflict of interest with "${submission.title}"`,
+      };
+    }
+  }
+
+  const result = await prisma.reviewAssignment.createMany({
+    data: pairs.map(pair => ({
+      eventId,
+      submissionId: pair.submissionId,
+      reviewerId: pair.reviewerId,
+      assignedById,
+      isAutomatic: pair.isAutomatic,
+    })),
+    skipDuplicates: true,
+  });
+
+  return { created: result.count, error: null };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * An event's saved assignments with reviewer names
+ */
+export async function getEventAssignments(eventId: string) {
+  const assignments = await prisma.reviewAssignment.findMany({
+    where: { eventId },
+    select: {
+      id: true,
+      submissionId: true,
+      reviewerId: true,
+      isAutomatic: true,
+      createdAt: true,
+      reviewer: { select: { name: true, email: true } },
+      submission: { select: { reviews: { select: { reviewerId: true } } } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return assignments.map(({ reviewer, submission, ...assignment }) => ({
+    ...assignment,
+    reviewerName: (decryptPiiFields(reviewer as unknown as Record<string, unknown>, USER_PII_FIELDS).name as string | null) || reviewer.email,
+    isReviewed: submission.reviews.some(r => r.reviewerId === assignment.reviewerId),
+  }));
+}
+
+/**
+ * Ids of submissions assigned to a reviewer
+ */
+export async function getAssignedSubmissionIds(reviewerId: string): Promise<Set<string>> {
+  const assignments = await prisma.reviewAssignment.findMany({
+    where: { reviewerId },
+    select: { submissionId: true },
+  });
+
+  return new Set(assignments.map(a => a.submissionId));
+}
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+/**
+ * Record a reviewer's conflict with a submission and drop any assignment
+ */
+export async function declareReviewConflict(
+  submissionId: string,
+  reviewerId: string,
+  reason: string | null
+) {
+  const [conflict] = await prisma.$transaction([
+    prisma.reviewConflict.upsert({
+      where: { submissionId_reviewerId: { submissionId, reviewerId } },
+      create: { submissionId, reviewerId, reason },
+      update: { reason },
+    }),
+    prisma.reviewAssignment.deleteMany({ where: { submissionId, reviewerId } }),
+  ]);
+
+  return conflict;
+}
+
+export async function withdrawReviewConflict(submissionId: string, reviewerId: string) {
+  const result = await prisma.reviewConflict.deleteMany({ where: { submissionId, reviewerId } });
+  return result.count > 0;
+}
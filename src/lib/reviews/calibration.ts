@@ -0,0 +1,231 @@
+/**
+ * Review Calibration
+ *
+ * Pure statistics on review scores: how each reviewer scores compared
+ * with the rest of the panel, a normalized score per submission that
+ * evens out lenient and harsh reviewers, and a flag for submissions
+ * whose reviewers strongly disagree.
+ */
+
+import { reviewScore } from './review-modes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CalibrationReview {
+  reviewerId: string;
+  submissionId: string;
+  score: number;
+}
+
+export interface ReviewerCalibration {
+  reviewCount: number;
+  mean: number;
+  /** Standard deviation of the reviewer's scores */
+  spread: number;
+  /**
+   * Average difference between the reviewer's score and the mean of the
+   * other reviewers of the same submission; positive means lenient.
+   * Null when nobody else reviewed the same submissions.
+   */
+  bias: number | null;
+  /**
+   * Correlation between the reviewer's scores and the rest of the panel's
+   * (1 = same ordering, 0 = unrelated, -1 = opposite). Null with too few
+   * shared submissions or no variation to compare.
+   */
+  agreement: number | null;
+  /** Submissions the reviewer shares with at least one other reviewer */
+  sharedCount: number;
+}
+
+export interface SubmissionCalibration {
+  /** Average of the reviewers' z-scores; 0 is a typical submission */
+  normalizedScore: number | null;
+  /** Standard deviation of the raw scores, with two or more reviews */
+  spread: number | null;
+  highDisagreement: boolean;
+}
+
+// ============================================================================
+// Thresholds
+// ============================================================================
+
+/** Reviews a reviewer needs before their own mean and spread are trusted */
+export const MIN_CALIBRATION_REVIEWS = 3;
+
+/** Score spread (1-5 scale) from which reviewers count as disagreeing */
+export const HIGH_DISAGREEMENT_SPREAD = 1;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < MIN_CALIBRATION_REVIEWS) return null;
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+function groupBy<K extends keyof CalibrationReview>(
+  reviews: CalibrationReview[],
+  key: K
+): Map<CalibrationReview[K], CalibrationReview[]> {
+  const groups = new Map<CalibrationReview[K], CalibrationReview[]>();
+  for (const review of reviews) {
+    const group = groups.get(review[key]);
+    if (group) {
+      group.push(review);
+    } else {
+      groups.set(review[key], [review]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Reviews that carry a score, as calibration input. Voting and ranking
+ * reviews, and reviews saved without a score, are left out.
+ */
+export function toCalibrationReviews(
+  reviews: Array<{
+    reviewerId: string;
+    submissionId: string;
+    overallScore?: number | null;
+    weightedScore?: number | null;
+  }>
+): CalibrationReview[] {
+  const scored: CalibrationReview[] = [];
+  for (const review of reviews) {
+    const score = reviewScore(review);
+    if (score !== null) {
+      scored.push({ reviewerId: review.reviewerId, submissionId: review.submissionId, score });
+    }
+  }
+  return scored;
+}
+
+// ============================================================================
+// Reviewers
+// ============================================================================
+
+/**
+ * Scoring statistics per reviewer. Bias and agreement compare each score
+ * with the mean of the other reviewers of the same submission, so a
+ * reviewer is never compared with themselves.
+ */
+export function getReviewerCalibration(
+  reviews: CalibrationReview[]
+): Map<string, ReviewerCalibration> {
+  const bySubmission = groupBy(reviews, 'submissionId');
+  const stats = new Map<string, ReviewerCalibration>();
+
+  for (const [reviewerId, own] of groupBy(reviews, 'reviewerId')) {
+    const scores = own.map(review => review.score);
+    const ownScores: number[] = [];
+    const panelScores: number[] = [];
+
+    for (const review of own) {
+      const others = (bySubmission.get(review.submissionId) ?? [])
+        .filter(other => other.reviewerId !== reviewerId)
+        .map(other => other.score);
+      if (others.length > 0) {
+        ownScores.push(review.score);
+        panelScores.push(mean(others));
+      }
+    }
+
+    stats.set(reviewerId, {
+      reviewCount: own.length,
+      mean: mean(scores),
+      spread: standardDeviation(scores),
+      bias: ownScores.length > 0
+        ? mean(ownScores.map((score, i) => score - panelScores[i]))
+        : null,
+      agreement: correlation(ownScores, panelScores),
+      sharedCount: ownScores.length,
+    });
+  }
+
+  return stats;
+}
+
+// ============================================================================
+// Submissions
+// ============================================================================
+
+/**
+ * Normalized score and disagreement per submission. Each score becomes a
+ * z-score against its reviewer's own mean and spread, so a 4 from a
+ * reviewer who gives everything a 4 counts as average. Reviewers with too
+ * few reviews are measured against the whole panel instead, and a
+ * reviewer who never varies contributes 0.
+ */
+export function getSubmissionCalibration(
+  reviews: CalibrationReview[]
+): Map<string, SubmissionCalibration> {
+  const calibration = new Map<string, SubmissionCalibration>();
+  if (reviews.length === 0) return calibration;
+
+  const allScores = reviews.map(review => review.score);
+  const panel = { mean: mean(allScores), spread: standardDeviation(allScores) };
+  const reviewers = new Map<string, { mean: number; spread: number }>();
+  for (const [reviewerId, own] of groupBy(reviews, 'reviewerId')) {
+    const scores = own.map(review => review.score);
+    reviewers.set(
+      reviewerId,
+      scores.length >= MIN_CALIBRATION_REVIEWS
+        ? { mean: mean(scores), spread: standardDeviation(scores) }
+        : panel
+    );
+  }
+
+  for (const [submissionId, submissionReviews] of groupBy(reviews, 'submissionId')) {
+    const zScores = submissionReviews.map(review => {
+      const baseline = reviewers.get(review.reviewerId) ?? panel;
+      return baseline.spread > 0 ? (review.score - baseline.mean) / baseline.spread : 0;
+    });
+    const spread = submissionReviews.length >= 2
+      ? standardDeviation(submissionReviews.map(review => review.score))
+      : null;
+
+    calibration.set(submissionId, {
+      normalizedScore: mean(zScores),
+      spread,
+      highDisagreement: spread !== null && spread >= HIGH_DISAGREEMENT_SPREAD,
+    });
+  }
+
+  return calibration;
+}
+
+/**
+ * Normalized score for display, with an explicit sign: "+0.42", "-1.10"
+ */
+export function formatNormalizedScore(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '-';
+  const rounded = Math.round(value * 100) / 100;
+  return `${rounded > 0 ? '+' : ''}${rounded.toFixed(2)}`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Criteria Scoring
+ *
+ * Pure helpers for scoring reviews against an event's EventReviewCriteria.
+ * Each criterion is scored 1-5 and the review's total is the average of
+ * those scores weighted by the criterion's weight (also 1-5).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CriterionDefinition {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+export interface CriterionScoreInput {
+  criteriaId: string;
+  score: number;
+}
+
+export interface WeightedCriterionScore extends CriterionScoreInput {
+  name: string;
+  weight: number;
+}
+
+// ============================================================================
+// Weighted Total
+// ============================================================================
+
+/**
+ * Weighted average of criterion scores (1-5 scale), or null without scores
+ */
+export function computeWeightedScore(
+  scores: Array<{ score: number; weight: number }>
+): number | null {
+  const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+  if (scores.length === 0 || totalWeight <= 0) return null;
+
+  return scores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight;
+}
+
+/**
+ * Match submitted scores to the event's criteria.
+ * Returns the scores with their weights, or an error message when a score
+ * references a criterion that does not belong to the event.
+ */
+export function matchCriterionScores(
+  criteria: CriterionDefinition[],
+  input: CriterionScoreInput[]
+): { scores: WeightedCriterionScore[]; error: string | null } {
+  const byId = new Map(criteria.map(c => [c.id, c]));
+  const scores: WeightedCriterionScore[] = [];
+
+  for (const item of input) {
+    const criterion = byId.get(item.criteriaId);
+    if (!criterion) {
+      return { scores: [], error: 'Scores must reference review criteria of this event' };
+    }
+    scores.push({
+      criteriaId: criterion.id,
+      score: item.score,
+      name: criterion.name,
+      weight: criterion.weight,
+    });
+  }
+
+  return { scores, error: null };
+}
+
+/**
+ * Average score per criterion name across reviews, for charts
+ */
+export function averageCriterionScores(
+  reviews: Array<{ criterionScores: Array<{ score: number; criteria: { name: string } }> }>
+): Record<string, number> {
+  const totals: Record<string, { sum: number; count: number }> = {};
+
+  for (const review of reviews) {
+    for (const { score, criteria } of review.criterionScores) {
+      const current = totals[criteria.name] || { sum: 0, count: 0 };
+      totals[criteria.name] = { sum: current.sum + score, count: current.count + 1 };
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([name, { sum, count }]) => [name, sum / count])
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * Review Criteria Scores
+ *
+ * Database access for per-criterion review scores.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import {
+  computeWeightedScore,
+  matchCriterionScores,
+  type CriterionScoreInput,
+  type WeightedCriterionScore,
+} from './criteria-scoring';
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * An event's review criteria in display order
+ */
+export async function getEventCriteria(eventId: string) {
+  return prisma.eventReviewCriteria.findMany({
+    where: { eventId },
+    select: { id: true, name: true, description: true, weight: true },
+    orderBy: { sortOrder: 'asc' },
+  });
+}
+
+/**
+ * Validate submitted criterion scores against the event's criteria
+ */
+export async function resolveCriterionScores(
+  eventId: string,
+  input: CriterionScoreInput[]
+): Promise<{ scores: WeightedCriterionScore[]; weightedScore: number | null; error: string | null }> {
+  const criteria = await getEventCriteria(eventId);
+  const { scores, error } = matchCriterionScores(criteria, input);
+
+  return { scores, weightedScore: computeWeightedScore(scores), error };
+}
+
+/**
+ * Replace a review's criterion scores and store the new weighted total
+ */
+export async function replaceCriterionScores(
+  reviewId: string,
+  scores: WeightedCriterionScore[]
+) {
+  const weightedScore = computeWeightedScore(scores);
+
+  await prisma.$transaction([
+    prisma.reviewCriterionScore.deleteMany({ where: { reviewId } }),
+    prisma.reviewCriterionScore.createMany({
+      data: scores.map(s => ({ reviewId, criteriaId: s.criteriaId, score: s.score })),
+    }),
+    prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        weightedScore,
+        ...(weightedScore !== null && { overallScore: Math.round(weightedScore) }),
+      },
+    }),
+  ]);
+
+  return weightedScore;
+}
+
+/**
+ * Recompute weighted totals for every criteria-scored review of an event.
+ * Call after criteria weights change or criteria are removed.
+ */
+export async function recalculateWeightedScores(eventId: string): Promise<number> {
+  const reviews = await prisma.review.findMany({
+    where: {
+      submission: { eventId },
+      OR: [
+        { weightedScore: { not: null } },
+        { criterionScores: { some: {} } },
+      ],
+    },
+    select: {
+      id: true,
+      weightedScore: true,
+      criterionScores: {
+        select: { score: true, criteria: { select: { weight: true } } },
+      },
+    },
+  });
+
+  let updated = 0;
+  for (const review of reviews) {
+    const weightedScore = computeWeightedScore(
+      review.criterionScores.map(s => ({ score: s.score, weight: s.criteria.weight }))
+    );
+
+    if (weightedScore !== review.weightedScore) {
+      await prisma.review.update({
+        where: { id: review.id },
+        data: {
+          weightedScore,
+          ...(weightedScore !== null && { overallScore: Math.round(weightedScore) }),
+        },
+      });
+      updated++;
+    }
+  }
+
+  return updated;
+}
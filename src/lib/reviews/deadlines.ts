@@ -0,0 +1,144 @@
+/**
+ * Review Deadlines
+ *
+ * The review period of an event, read as whole days in the event
+ * timezone, which reminder is due when, and how far each reviewer is
+ * through their assignments. Pure functions only - safe to import from
+ * client components.
+ */
+
+import { formatInTimezone } from '@/lib/timezone-utils';
+import { zonedTimeToUtc } from '@/lib/schedule/time';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReviewPeriod {
+  /** First moment of the start day in the event timezone */
+  startsAt: Date | null;
+  /** End of the last day in the event timezone: reviews are due before this */
+  endsAt: Date;
+}
+
+export type ReviewPeriodState = 'upcoming' | 'open' | 'closing' | 'overdue';
+
+/** Reminders to reviewers, then one escalation to leads after the deadline */
+export type ReviewReminderStage = 'days-7' | 'days-3' | 'days-1' | 'overdue';
+
+export interface ReviewerProgress {
+  reviewerId: string;
+  assigned: number;
+  completed: number;
+  pending: number;
+}
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/** Days before the deadline that reviewers with unfinished work are reminded */
+export const REVIEW_REMINDER_DAYS = [7, 3, 1] as const;
+
+/** Reminders and escalations stop this many days after the deadline */
+export const REVIEW_OVERDUE_GRACE_DAYS = 7;
+
+/** Stage recorded for the escalation to lead reviewers */
+export const REVIEW_ESCALATION_STAGE = 'escalation';
+
+export const REVIEW_PERIOD_STATE_LABELS: Record<ReviewPeriodState, string> = {
+  upcoming: 'Not started',
+  open: 'In progress',
+  closing: 'Closing soon',
+  overdue: 'Deadline passed',
+};
+
+const DAY_MS = 86400000;
+
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The event's review period, or null without an end date. Review dates
+ * are stored as midnight UTC of the chosen day, like event dates.
+ */
+export function getReviewPeriod(event: {
+  timezone: string;
+  reviewStartDate: Date | null;
+  reviewEndDate: Date | null;
+}): ReviewPeriod | null {
+  if (!event.reviewEndDate) return null;
+
+  const dayAfterEnd = dayOf(new Date(event.reviewEndDate.getTime() + DAY_MS));
+  return {
+    startsAt: event.reviewStartDate
+      ? zonedTimeToUtc(dayOf(event.reviewStartDate), '00:00', event.timezone)
+      : null,
+    endsAt: zonedTimeToUtc(dayAfterEnd, '00:00', event.timezone),
+  };
+}
+
+/**
+ * The deadline as organizers set it: the last review day in the event
+ * timezone, e.g. "October 31, 2026, end of day (Europe/Berlin)"
+ */
+export function formatReviewDeadline(period: ReviewPeriod, timezone: string): string {
+  const lastDay = formatInTimezone(new Date(period.endsAt.getTime() - 1), timezone, { dateStyle: 'long' });
+  return `${lastDay}, end of day (${timezone})`;
+}
+
+/**
+ * Where the review period stands; closing once the first reminder is due
+ */
+export function getReviewPeriodState(period: ReviewPeriod, now: Date = new Date()): ReviewPeriodState {
+  if (now >= period.endsAt) return 'overdue';
+  if (period.startsAt && now < period.startsAt) return 'upcoming';
+  if (period.endsAt.getTime() - now.getTime() <= REVIEW_REMINDER_DAYS[0] * DAY_MS) return 'closing';
+  return 'open';
+}
+
+/**
+ * The reminder due now, or null. Only the latest stage reached is
+ * returned, so a deadline set two days out skips the 7-day reminder.
+ */
+export function getDueReminderStage(period: ReviewPeriod, now: Date = new Date()): ReviewReminderStage | null {
+  const remaining = period.endsAt.getTime() - now.getTime();
+
+  if (remaining <= 0) {
+    return -remaining < REVIEW_OVERDUE_GRACE_DAYS * DAY_MS ? 'overdue' : null;
+  }
+  if (period.startsAt && now < period.startsAt) return null;
+
+  const days = [...REVIEW_REMINDER_DAYS].sort((a, b) => a - b);
+  const due = days.find(day => remaining <= day * DAY_MS);
+  return due === undefined ? null : `days-${due}` as ReviewReminderStage;
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Completed and pending assignments per reviewer. `finished` holds
+ * "reviewerId:submissionId" keys for assignments the reviewer has done.
+ */
+export function computeReviewerProgress(
+  assignments: Array<{ reviewerId: string; submissionId: string }>,
+  finished: Set<string>
+): ReviewerProgress[] {
+  const progress = new Map<string, ReviewerProgress>();
+  for (const assignment of assignments) {
+    const entry = progress.get(assignment.reviewerId)
+      ?? { reviewerId: assignment.reviewerId, assigned: 0, completed: 0, pending: 0 };
+    entry.assigned++;
+    if (finished.has(`${assignment.reviewerId}:${assignment.submissionId}`)) {
+      entry.completed++;
+    } else {
+      entry.pending++;
+    }
+    progress.set(assignment.reviewerId, entry);
+  }
+
+  return [...progress.values()];
+}
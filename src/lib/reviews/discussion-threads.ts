@@ -0,0 +1,166 @@
+/**
+ * Discussion Threads
+ *
+ * Pure helpers for review team discussions on a submission: arranging
+ * posts into threads of nested replies, and @mentions. Mentions are
+ * stored as @[user:<id>] tokens so each viewer sees the mentioned person
+ * under the name or alias their anonymity view allows.
+ */
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+/** Deepest a reply can nest below the first post of a thread */
+export const MAX_DISCUSSION_DEPTH = 4;
+
+/** Longest post, in characters of HTML */
+export const MAX_DISCUSSION_LENGTH = 10000;
+
+// ============================================================================
+// Threads
+// ============================================================================
+
+interface ThreadPost {
+  id: string;
+  parentId: string | null;
+  isPinned: boolean;
+  createdAt: Date | string;
+}
+
+export type DiscussionThreadNode<T extends ThreadPost> = T & {
+  replies: DiscussionThreadNode<T>[];
+};
+
+function byCreatedAt(a: ThreadPost, b: ThreadPost): number {
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+/**
+ * Nest posts under their parents. Pinned threads come first, then threads
+ * and replies in the order they were written. A post whose parent is
+ * missing starts its own thread.
+ */
+export function buildDiscussionThreads<T extends ThreadPost>(posts: T[]): DiscussionThreadNode<T>[] {
+  const nodes = new Map<string, DiscussionThreadNode<T>>();
+  for (const post of [...posts].sort(byCreatedAt)) {
+    nodes.set(post.id, { ...post, replies: [] });
+  }
+
+  const roots: DiscussionThreadNode<T>[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots.sort((a, b) => Number(b.isPinned) - Number(a.isPinned));
+}
+
+/**
+ * How deep a post sits below the first post of its thread (0 for the
+ * first post). Stops at the first missing parent.
+ */
+export function getDiscussionDepth(
+  postId: string,
+  parentOf: Map<string, string | null>
+): number {
+  let depth = 0;
+  let parentId = parentOf.get(postId) ?? null;
+  while (parentId && depth <= MAX_DISCUSSION_DEPTH) {
+    depth++;
+    parentId = parentOf.get(parentId) ?? null;
+  }
+  return depth;
+}
+
+/**
+ * The first post of the thread a post belongs to
+ */
+export function getThreadRootId(
+  postId: string,
+  parentOf: Map<string, string | null>
+): string {
+  let rootId = postId;
+  for (let i = 0; i <= MAX_DISCUSSION_DEPTH; i++) {
+    const parentId = parentOf.get(rootId);
+    if (!parentId) break;
+    rootId = parentId;
+  }
+  return rootId;
+}
+
+// ============================================================================
+// Mentions
+// ============================================================================
+
+export interface MentionCandidate {
+  userId: string;
+  /** What the author types after @: a name, or "Reviewer N" under double-blind */
+  handle: string;
+}
+
+const MENTION_TOKEN = /@\[user:([A-Za-z0-9_-]+)\]/g;
+
+export function mentionToken(userId: string): string {
+  return `@[user:${userId}]`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Text as html-sanitizer writes it, so handles match sanitized content */
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtml(text: string): string {
+  return escapeText(text).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace @handle mentions in sanitized content with tokens for the
+ * candidates they name. Matching ignores case, longer handles win (so
+ * "@Reviewer 12" is not read as "@Reviewer 1") and a handle must not run
+ * on into another word.
+ */
+export function tokenizeMentions(
+  content: string,
+  candidates: MentionCandidate[]
+): { content: string; mentionedUserIds: string[] } {
+  const mentioned = new Set<string>();
+  const ordered = candidates
+    .filter(candidate => candidate.handle.trim().length > 0)
+    .sort((a, b) => b.handle.length - a.handle.length);
+
+  let result = content;
+  for (const candidate of ordered) {
+    const pattern = new RegExp(`@${escapeRegExp(escapeText(candidate.handle.trim()))}(?![\\p{L}\\p{N}_])`, 'giu');
+    result = result.replace(pattern, () => {
+      mentioned.add(candidate.userId);
+      return mentionToken(candidate.userId);
+    });
+  }
+
+  return { content: result, mentionedUserIds: [...mentioned] };
+}
+
+/**
+ * Turn mention tokens back into names. Only tokens for users the post
+ * really mentioned are replaced; any other token is left as typed.
+ */
+export function renderMentions(
+  content: string,
+  nameFor: (userId: string) => string | null,
+  format: 'html' | 'text' = 'html'
+): string {
+  return content.replace(MENTION_TOKEN, (token, userId: string) => {
+    const name = nameFor(userId);
+    if (name === null) return token;
+    return format === 'html' ? `<strong>@${escapeHtml(name)}</strong>` : `@${name}`;
+  });
+}
@@ -0,0 +1,472 @@
+/**
+ * Submission Discussions
+ *
+ * The review team's threaded discussion of a submission. It is never shown
+ * to the submission's speaker or accepted co-speakers, even when they sit
+ * on the review team. Under double-blind review other participants, and
+ * the people they mention, appear by their "Reviewer N" alias. Leads pin
+ * and resolve threads.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { logActivity, type ActivityAction } from '@/lib/activity-logger';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { sanitizeUserHtml, stripHtml } from '@/lib/security/html-sanitizer';
+import {
+  createReviewerAliases,
+  getReviewAnonymity,
+  resolveAnonymityView,
+  type AnonymityView,
+} from './anonymity';
+import { logIdentityReveal } from './visibility';
+import {
+  MAX_DISCUSSION_DEPTH,
+  buildDiscussionThreads,
+  getDiscussionDepth,
+  renderMentions,
+  tokenizeMentions,
+  type DiscussionThreadNode,
+  type MentionCandidate,
+} from './discussion-threads';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DiscussionViewer {
+  id: string;
+  role: string;
+}
+
+export interface DiscussionContext {
+  submission: {
+    id: string;
+    title: string;
+    event: { id: string; name: string; slug: string };
+  };
+  view: AnonymityView;
+  /** The viewer is the speaker or an accepted co-speaker and may not see the discussion */
+  isSpeaker: boolean;
+  /** The viewer can pin and resolve threads */
+  canModerate: boolean;
+  speakerIds: string[];
+  /** Reviewer ids in review order, which numbers double-blind aliases */
+  reviewerIds: string[];
+}
+
+export interface DiscussionPerson {
+  id: string;
+  name: string | null;
+  image: string | null;
+}
+
+export interface DiscussionPostView {
+  id: string;
+  parentId: string | null;
+  /** Sanitized HTML with mentions named for the viewer */
+  content: string;
+  isPinned: boolean;
+  resolvedAt: Date | null;
+  resolvedBy: DiscussionPerson | null;
+  createdAt: Date;
+  author: DiscussionPerson;
+  isOwn: boolean;
+}
+
+export type DiscussionThread = DiscussionThreadNode<DiscussionPostView>;
+
+export interface DiscussionMentionOption {
+  id: string;
+  handle: string;
+}
+
+export interface DiscussionPostSummary {
+  authorName: string;
+  /** Plain text with mentions named for the viewer */
+  preview: string;
+}
+
+interface StoredPost {
+  id: string;
+  parentId: string | null;
+  authorId: string;
+  content: string;
+  isPinned: boolean;
+  resolvedAt: Date | null;
+  resolvedById: string | null;
+  createdAt: Date;
+  mentions: { userId: string }[];
+}
+
+interface DiscussionNames {
+  person: (userId: string) => DiscussionPerson;
+  nameFor: (userId: string) => string | null;
+}
+
+// ============================================================================
+// Access
+// ============================================================================
+
+/**
+ * Admins and the event's review team leads pin and resolve threads
+ */
+export function canModerateDiscussions(viewer: DiscussionViewer, teamRole: string | null | undefined): boolean {
+  return viewer.role === 'ADMIN' || teamRole === 'LEAD';
+}
+
+/**
+ * Load a submission's discussion settings for a viewer. The caller checks
+ * that the viewer can review the event; null when the submission is not
+ * part of the event.
+ */
+export async function getDiscussionContext(
+  eventId: string,
+  submissionId: string,
+  viewer: DiscussionViewer
+): Promise<DiscussionContext | null> {
+  const submission = await prisma.submission.findFirst({
+    where: { id: submissionId, eventId },
+    select: {
+      id: true,
+      title: true,
+      speakerId: true,
+      coSpeakers: {
+        where: { invitationStatus: 'ACCEPTED', linkedUserId: { not: null } },
+        select: { linkedUserId: true },
+      },
+      reviews: { select: { reviewerId: true }, orderBy: { createdAt: 'asc' } },
+      event: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          reviewAnonymity: true,
+          reviewTeam: { where: { userId: viewer.id }, select: { role: true } },
+        },
+      },
+    },
+  });
+  if (!submission) return null;
+
+  const { event } = submission;
+  const speakerIds = [
+    submission.speakerId,
+    ...submission.coSpeakers.map(coSpeaker => coSpeaker.linkedUserId as string),
+  ];
+
+  return {
+    submission: {
+      id: submission.id,
+      title: submission.title,
+      event: { id: event.id, name: event.name, slug: event.slug },
+    },
+    view: resolveAnonymityView(getReviewAnonymity(event.reviewAnonymity), viewer),
+    isSpeaker: speakerIds.includes(viewer.id),
+    canModerate: canModerateDiscussions(viewer, event.reviewTeam[0]?.role),
+    speakerIds,
+    reviewerIds: submission.reviews.map(review => review.reviewerId),
+  };
+}
+
+// ============================================================================
+// Names
+// ============================================================================
+
+async function loadPosts(submissionId: string): Promise<StoredPost[]> {
+  return prisma.submissionDiscussion.findMany({
+    where: { submissionId },
+    select: {
+      id: true,
+      parentId: true,
+      authorId: true,
+      content: true,
+      isPinned: true,
+      resolvedAt: true,
+      resolvedById: true,
+      createdAt: true,
+      mentions: { select: { userId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/** Everyone a discussion refers to, in the order they appear */
+function participantIds(posts: StoredPost[]): string[] {
+  return posts.flatMap(post => [
+    post.authorId,
+    ...post.mentions.map(mention => mention.userId),
+    ...(post.resolvedById ? [post.resolvedById] : []),
+  ]);
+}
+
+/**
+ * Names for the viewer. Aliases are seeded with reviewers in review order,
+ * then everyone else in the order they appear, so numbering matches the
+ * submission's reviews and stays stable as the discussion grows.
+ */
+async function getDiscussionNames(
+  context: DiscussionContext,
+  posts: StoredPost[],
+  extraUserIds: string[] = []
+): Promise<DiscussionNames> {
+  const seed = [...context.reviewerIds, ...participantIds(posts)];
+  const aliasFor = createReviewerAliases(context.view.viewerId, seed);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set([...seed, ...extraUserIds, context.view.viewerId])] } },
+    select: { id: true, name: true, email: true, image: true },
+  });
+  const people = new Map(users.map(user => {
+    const { name } = decryptPiiFields(user, USER_PII_FIELDS);
+    return [user.id, { id: user.id, name: name || user.email, image: user.image }];
+  }));
+
+  const person = (userId: string): DiscussionPerson => {
+    const alias = context.view.hideReviewers ? aliasFor(userId) : null;
+    if (alias) return { id: alias.id, name: alias.name, image: null };
+    return people.get(userId) ?? { id: userId, name: null, image: null };
+  };
+
+  return { person, nameFor: userId => person(userId).name };
+}
+
+/**
+ * Review team members the viewer can @mention. Under double-blind review
+ * that is only people already known to the viewer by alias: reviewers of
+ * the submission and discussion participants. Speakers are never offered.
+ */
+async function getMentionCandidates(
+  context: DiscussionContext,
+  posts: StoredPost[]
+): Promise<{ candidates: MentionCandidate[]; names: DiscussionNames; optionIdFor: (userId: string) => string }> {
+  const teamMembers = context.view.hideReviewers
+    ? []
+    : await prisma.reviewTeamMember.findMany({
+        where: { eventId: context.submission.event.id },
+        select: { userId: true },
+      });
+
+  const ids = new Set([
+    ...context.reviewerIds,
+    ...participantIds(posts),
+    ...teamMembers.map(member => member.userId),
+  ]);
+  ids.delete(context.view.viewerId);
+  context.speakerIds.forEach(id => ids.delete(id));
+
+  // Only people who can still see the discussion
+  const eligible = await prisma.user.findMany({
+    where: {
+      id: { in: [...ids] },
+      OR: [
+        { role: { in: ['ADMIN', 'ORGANIZER'] } },
+        { reviewTeamEvents: { some: { eventId: context.submission.event.id } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  const names = await getDiscussionNames(context, posts, eligible.map(user => user.id));
+  const candidates = eligible.flatMap(user => {
+    const handle = names.nameFor(user.id);
+    return handle ? [{ userId: user.id, handle }] : [];
+  });
+
+  return { candidates, names, optionIdFor: userId => names.person(userId).id };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function toPostView(post: StoredPost, names: DiscussionNames, viewerId: string): DiscussionPostView {
+  const mentioned = new Set(post.mentions.map(mention => mention.userId));
+
+  return {
+    id: post.id,
+    parentId: post.parentId,
+    content: renderMentions(post.content, userId => (mentioned.has(userId) ? names.nameFor(userId) : null)),
+    isPinned: post.isPinned,
+    resolvedAt: post.resolvedAt,
+    resolvedBy: post.resolvedById ? names.person(post.resolvedById) : null,
+    createdAt: post.createdAt,
+    author: names.person(post.authorId),
+    isOwn: post.authorId === viewerId,
+  };
+}
+
+/**
+ * A submission's discussion as the viewer may see it, with the people
+ * they can mention
+ */
+export async function getSubmissionDiscussion(context: DiscussionContext): Promise<{
+  threads: DiscussionThread[];
+  mentionOptions: DiscussionMentionOption[];
+}> {
+  const posts = await loadPosts(context.submission.id);
+  const { candidates, names, optionIdFor } = await getMentionCandidates(context, posts);
+
+  await logIdentityReveal(context.view, {
+    entityType: 'Submission',
+    entityId: context.submission.id,
+    eventId: context.submission.event.id,
+    scope: 'discussion',
+    count: posts.length,
+  });
+
+  return {
+    threads: buildDiscussionThreads(posts.map(post => toPostView(post, names, context.view.viewerId))),
+    mentionOptions: candidates
+      .map(candidate => ({ id: optionIdFor(candidate.userId), handle: candidate.handle }))
+      .sort((a, b) => a.handle.localeCompare(b.handle)),
+  };
+}
+
+function toPlainText(html: string): string {
+  return stripHtml(html.replace(/<\/p>|<br\s*\/?>/g, ' '))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * How a post reads for one viewer, for notifications. Null when the viewer
+ * may not see the discussion.
+ */
+export async function getDiscussionPostSummary(
+  discussionId: string,
+  viewer: DiscussionViewer
+): Promise<DiscussionPostSummary | null> {
+  const post = await prisma.submissionDiscussion.findUnique({
+    where: { id: discussionId },
+    select: { submissionId: true, submission: { select: { eventId: true } } },
+  });
+  if (!post) return null;
+
+  const context = await getDiscussionContext(post.submission.eventId, post.submissionId, viewer);
+  if (!context || context.isSpeaker) return null;
+
+  const posts = await loadPosts(post.submissionId);
+  const stored = posts.find(p => p.id === discussionId);
+  if (!stored) return null;
+
+  const names = await getDiscussionNames(context, posts);
+  const mentioned = new Set(stored.mentions.map(mention => mention.userId));
+  return {
+    authorName: names.nameFor(stored.authorId) ?? 'A reviewer',
+    preview: renderMentions(
+      toPlainText(stored.content),
+      userId => (mentioned.has(userId) ? names.nameFor(userId) : null),
+      'text'
+    ),
+  };
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Add a post, or a reply to one. The content is sanitized and @mentions of
+ * people the author can mention are stored as tokens.
+ */
+export async function createDiscussionPost(
+  context: DiscussionContext,
+  input: { content: string; parentId?: string | null }
+): Promise<{ error: string } | { error: null; postId: string; mentionedUserIds: string[] }> {
+  const sanitized = sanitizeUserHtml(input.content);
+  if (!stripHtml(sanitized).trim()) {
+    return { error: 'Comment is required' };
+  }
+
+  const posts = await loadPosts(context.submission.id);
+  const parentId = input.parentId ?? null;
+  if (parentId) {
+    const parentOf = new Map(posts.map(post => [post.id, post.parentId]));
+    if (!parentOf.has(parentId)) {
+      return { error: 'The comment you replied to no longer exists' };
+    }
+    if (getDiscussionDepth(parentId, parentOf) >= MAX_DISCUSSION_DEPTH) {
+      return { error: 'Replies cannot be nested any deeper' };
+    }
+  }
+
+  const { candidates } = await getMentionCandidates(context, posts);
+  const { content, mentionedUserIds } = tokenizeMentions(sanitized, candidates);
+
+  const post = await prisma.submissionDiscussion.create({
+    data: {
+      submissionId: context.submission.id,
+      authorId: context.view.viewerId,
+      parentId,
+      content,
+      mentions: {
+        create: mentionedUserIds.map(userId => ({ userId })),
+      },
+    },
+    select: { id: true },
+  });
+
+  return { error: null, postId: post.id, mentionedUserIds };
+}
+
+/**
+ * Pin or resolve a thread, or undo either. Only the first post of a thread
+ * carries these flags.
+ */
+export async function updateDiscussionThread(
+  context: DiscussionContext,
+  postId: string,
+  changes: { isPinned?: boolean; resolved?: boolean },
+  ipAddress?: string
+): Promise<{ error: string } | { error: null }> {
+  const post = await prisma.submissionDiscussion.findFirst({
+    where: { id: postId, submissionId: context.submission.id },
+    select: { id: true, parentId: true, isPinned: true, resolvedAt: true },
+  });
+  if (!post) {
+    return { error: 'Discussion thread not found' };
+  }
+  if (post.parentId) {
+    return { error: 'Only the first comment of a thread can be pinned or resolved' };
+  }
+
+  const actions: ActivityAction[] = [];
+  if (changes.isPinned !== undefined && changes.isPinned !== post.isPinned) {
+    actions.push(changes.isPinned ? 'REVIEW_THREAD_PINNED' : 'REVIEW_THREAD_UNPINNED');
+  }
+  if (changes.resolved !== undefined && changes.resolved !== (post.resolvedAt !== null)) {
+    actions.push(changes.resolved ? 'REVIEW_THREAD_RESOLVED' : 'REVIEW_THREAD_REOPENED');
+  }
+  if (actions.length === 0) {
+    return { error: null };
+  }
+
+  await prisma.submissionDiscussion.update({
+    where: { id: post.id },
+    data: {
+      ...(changes.isPinned !== undefined && { isPinned: changes.isPinned }),
+      ...(changes.resolved !== undefined && {
+        resolvedAt: changes.resolved ? new Date() : null,
+        resolvedById: changes.resolved ? context.view.viewerId : null,
+      }),
+    },
+  });
+
+  for (const action of actions) {
+    await logActivity({
+      userId: context.view.viewerId,
+      action,
+      entityType: 'Submission',
+      entityId: context.submission.id,
+      metadata: { eventId: context.submission.event.id, threadId: post.id },
+      ipAddress,
+    });
+  }
+
+  return { error: null };
+}
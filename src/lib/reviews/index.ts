@@ -0,0 +1,178 @@
+/**
+ * Reviews Module Index
+ *
+ * Re-exports review mode helpers, ranking storage, score calibration,
+ * criteria scoring, reviewer anonymity, reviewer assignment, review
+ * deadlines and reminders, and review team discussions.
+ */
+
+export {
+  REVIEW_MODES,
+  type ReviewMode,
+  type VoteTally,
+  type RankingInput,
+  type RankingStanding,
+  type SubmissionAggregate,
+  getReviewMode,
+  validateReviewForMode,
+  reviewScore,
+  averageReviewScore,
+  tallyVotes,
+  computeRankingStandings,
+  aggregateSubmission,
+  compareAggregates,
+} from './review-modes';
+
+export {
+  type RankingCandidate,
+  getRankingCandidates,
+  getReviewerRankingOrder,
+  saveReviewerRanking,
+  getEventRankingStandings,
+} from './rankings';
+
+export {
+  type EventReviewResults,
+  getEventReviewResults,
+  getEventScoreCalibration,
+  getReviewerCalibrationStats,
+} from './results';
+
+export {
+  MIN_CALIBRATION_REVIEWS,
+  HIGH_DISAGREEMENT_SPREAD,
+  type CalibrationReview,
+  type ReviewerCalibration,
+  type SubmissionCalibration,
+  toCalibrationReviews,
+  getReviewerCalibration,
+  getSubmissionCalibration,
+  formatNormalizedScore,
+} from './calibration';
+
+export {
+  type CriterionDefinition,
+  type CriterionScoreInput,
+  type WeightedCriterionScore,
+  computeWeightedScore,
+  matchCriterionScores,
+  averageCriterionScores,
+} from './criteria-scoring';
+
+export {
+  getEventCriteria,
+  resolveCriterionScores,
+  replaceCriterionScores,
+  recalculateWeightedScores,
+} from './criteria';
+
+export {
+  REVIEW_ANONYMITY_MODES,
+  ANONYMOUS_SPEAKER_ID,
+  ANONYMOUS_SPEAKER_NAME,
+  type ReviewAnonymityMode,
+  type AnonymityView,
+  type ReviewerAlias,
+  type ReviewerAliasFn,
+  getReviewAnonymity,
+  hidesSpeaker,
+  hidesReviewers,
+  canSeeIdentities,
+  resolveAnonymityView,
+  redactSpeaker,
+  redactCoSpeakers,
+  redactSubmission,
+  applySpeakerAnonymity,
+  createReviewerAliases,
+  aliasDiscussionAuthors,
+  aliasReviewers,
+  applyReviewerAnonymity,
+  applyMessageAnonymity,
+} from './anonymity';
+
+export {
+  getAnonymityView,
+  getSubmissionReviewerAliases,
+  logIdentityReveal,
+} from './visibility';
+
+export {
+  type AssignmentReviewer,
+  type AssignmentSubmission,
+  type AssignmentConflict,
+  type ConflictReason,
+  type ProposedAssignment,
+  type ReviewerLoad,
+  type AssignmentPlan,
+  reviewerCapacityHours,
+  normalizeCompany,
+  matchExpertise,
+  findConflict,
+  conflictKey,
+  generateAssignmentPlan,
+} from './assignment-engine';
+
+export {
+  type AssignmentInputs,
+  type AssignmentPreview,
+  loadAssignmentInputs,
+  previewReviewAssignments,
+  summarizeAssignmentPreview,
+  commitReviewAssignments,
+  getEventAssignments,
+  getAssignedSubmissionIds,
+  declareReviewConflict,
+  withdrawReviewConflict,
+} from './assignments';
+
+export {
+  REVIEW_REMINDER_DAYS,
+  REVIEW_OVERDUE_GRACE_DAYS,
+  REVIEW_ESCALATION_STAGE,
+  REVIEW_PERIOD_STATE_LABELS,
+  type ReviewPeriod,
+  type ReviewPeriodState,
+  type ReviewReminderStage,
+  type ReviewerProgress,
+  getReviewPeriod,
+  formatReviewDeadline,
+  getReviewPeriodState,
+  getDueReminderStage,
+  computeReviewerProgress,
+} from './deadlines';
+
+export {
+  type EventReviewProgress,
+  type ReviewReminderSummary,
+  getEventReviewProgress,
+  processReviewReminders,
+} from './reminders';
+
+export {
+  MAX_DISCUSSION_DEPTH,
+  MAX_DISCUSSION_LENGTH,
+  type DiscussionThreadNode,
+  type MentionCandidate,
+  buildDiscussionThreads,
+  getDiscussionDepth,
+  getThreadRootId,
+  mentionToken,
+  tokenizeMentions,
+  renderMentions,
+} from './discussion-threads';
+
+export {
+  type DiscussionViewer,
+  type DiscussionContext,
+  type DiscussionPerson,
+  type DiscussionPostView,
+  type DiscussionThread,
+  type DiscussionMentionOption,
+  type DiscussionPostSummary,
+  canModerateDiscussions,
+  getDiscussionContext,
+  getSubmissionDiscussion,
+  getDiscussionPostSummary,
+  createDiscussionPost,
+  updateDiscussionThread,
+} from './discussions';
@@ -0,0 +1,117 @@
+/**
+ * Review Rankings
+ *
+ * Database access for ranking-mode reviews. Each reviewer keeps one
+ * ordered list per scope: the whole event (trackId = null) or one track.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { computeRankingStandings, type RankingStanding } from './review-modes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RankingCandidate {
+  id: string;
+  title: string;
+  status: string;
+  track: { id: string; name: string; color: string | null } | null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Submissions that can be ranked in a scope. Withdrawn talks are excluded.
+ */
+export async function getRankingCandidates(
+  eventId: string,
+  trackId: string | null
+): Promise<RankingCandidate[]> {
+  return prisma.submission.findMany({
+    where: {
+      eventId,
+      status: { not: 'WITHDRAWN' },
+      ...(trackId && { trackId }),
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      track: { select: { id: true, name: true, color: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Get a reviewer's saved order for a scope as a list of submission IDs
+ */
+export async function getReviewerRankingOrder(
+  eventId: string,
+  reviewerId: string,
+  trackId: string | null
+): Promise<string[]> {
+  const ranking = await prisma.reviewRanking.findFirst({
+    where: { eventId, reviewerId, trackId },
+    include: {
+      entries: {
+        select: { submissionId: true },
+        orderBy: { position: 'asc' },
+      },
+    },
+  });
+
+  return ranking?.entries.map(e => e.submissionId) ?? [];
+}
+
+/**
+ * Replace a reviewer's ranking for a scope with a new order
+ */
+export async function saveReviewerRanking(
+  eventId: string,
+  reviewerId: string,
+  trackId: string | null,
+  submissionIds: string[]
+) {
+  return prisma.$transaction(async (tx) => {
+    await tx.reviewRanking.deleteMany({
+      where: { eventId, reviewerId, trackId },
+    });
+
+    return tx.reviewRanking.create({
+      data: {
+        eventId,
+        reviewerId,
+        trackId,
+        entries: {
+          create: submissionIds.map((submissionId, position) => ({
+            submissionId,
+            position,
+          })),
+        },
+      },
+      include: {
+        entries: { orderBy: { position: 'asc' } },
+      },
+    });
+  });
+}
+
+/**
+ * Combined standings for every ranked submission in an event
+ */
+export async function getEventRankingStandings(
+  eventId: string
+): Promise<Map<string, RankingStanding>> {
+  const rankings = await prisma.reviewRanking.findMany({
+    where: { eventId },
+    select: {
+      entries: { select: { submissionId: true, position: true } },
+    },
+  });
+
+  return computeRankingStandings(rankings);
+}
@@ -0,0 +1,296 @@
+/**
+ * Review Reminders
+ *
+ * Review progress per event against its review deadline, and the
+ * scheduled reminders: reviewers with unfinished assignments are reminded
+ * before the deadline and once after it, and lead reviewers get one
+ * escalation listing who is behind. Each reminder is recorded before it
+ * is sent, so overlapping runs never send it twice.
+ */
+
+import { formatDistanceStrict } from 'date-fns';
+import type { SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { notifyUser } from '@/lib/notifications/notify';
+import { getReviewMode } from './review-modes';
+import {
+  REVIEW_ESCALATION_STAGE,
+  REVIEW_OVERDUE_GRACE_DAYS,
+  REVIEW_REMINDER_DAYS,
+  computeReviewerProgress,
+  formatReviewDeadline,
+  getDueReminderStage,
+  getReviewPeriod,
+  getReviewPeriodState,
+  type ReviewPeriod,
+  type ReviewPeriodState,
+  type ReviewerProgress,
+} from './deadlines';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EventReviewProgress {
+  period: ReviewPeriod | null;
+  state: ReviewPeriodState | null;
+  /** Deadline for display, in the event timezone */
+  deadlineLabel: string | null;
+  totalSubmissions: number;
+  reviewedSubmissions: number;
+  totalReviews: number;
+  reviewers: Array<ReviewerProgress & {
+    name: string | null;
+    image: string | null;
+    reviewCount: number;
+  }>;
+}
+
+export interface ReviewReminderSummary {
+  events: number;
+  reminders: number;
+  escalations: number;
+}
+
+type ReminderUser = {
+  id: string;
+  email: string;
+  name: string | null;
+};
+
+// Assignments on these submissions still need a review
+const OPEN_STATUSES: SubmissionStatus[] = ['PENDING', 'UNDER_REVIEW'];
+
+const DAY_MS = 86400000;
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Assignment progress per reviewer. An assignment is done once the
+ * reviewer reviewed (or, for ranking events, ranked) the submission;
+ * assignments on withdrawn or decided submissions that were never done
+ * no longer count.
+ */
+async function loadReviewerProgress(event: { id: string; reviewType: string }): Promise<ReviewerProgress[]> {
+  const [assignments, finishedPairs] = await Promise.all([
+    prisma.reviewAssignment.findMany({
+      where: { eventId: event.id, submission: { status: { not: 'WITHDRAWN' } } },
+      select: { reviewerId: true, submissionId: true, submission: { select: { status: true } } },
+    }),
+    getReviewMode(event.reviewType) === 'ranking'
+      ? prisma.reviewRankingEntry.findMany({
+          where: { ranking: { eventId: event.id } },
+          select: { submissionId: true, ranking: { select: { reviewerId: true } } },
+        }).then(entries => entries.map(entry => `${entry.ranking.reviewerId}:${entry.submissionId}`))
+      : prisma.review.findMany({
+          where: { submission: { eventId: event.id } },
+          select: { reviewerId: true, submissionId: true },
+        }).then(reviews => reviews.map(review => `${review.reviewerId}:${review.submissionId}`)),
+  ]);
+
+  const finished = new Set(finishedPairs);
+  const counted = assignments.filter(assignment =>
+    OPEN_STATUSES.includes(assignment.submission.status) ||
+    finished.has(`${assignment.reviewerId}:${assignment.submissionId}`)
+  );
+
+  return computeReviewerProgress(counted, finished);
+}
+
+/**
+ * Review progress of an event for organizers: overall coverage and each
+ * review team member's assignments against the deadline
+ */
+export async function getEventReviewProgress(
+  event: { id: string; reviewType: string; timezone: string; reviewStartDate: Date | null; reviewEndDate: Date | null },
+  now: Date = new Date()
+): Promise<EventReviewProgress> {
+  const [progress, team, submissions, reviewCounts] = await Promise.all([
+    loadReviewerProgress(event),
+    prisma.reviewTeamMember.findMany({
+      where: { eventId: event.id },
+      select: { user: { select: { id: true, name: true, image: true } } },
+      orderBy: { addedAt: 'asc' },
+    }),
+    prisma.submission.findMany({
+      where: { eventId: event.id, status: { not: 'WITHDRAWN' } },
+      select: { _count: { select: { reviews: true } } },
+    }),
+    prisma.review.groupBy({
+      by: ['reviewerId'],
+      where: { submission: { eventId: event.id } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const period = getReviewPeriod(event);
+  const progressByReviewer = new Map(progress.map(entry => [entry.reviewerId, entry]));
+  const reviewsByReviewer = new Map(reviewCounts.map(count => [count.reviewerId, count._count._all]));
+
+  return {
+    period,
+    state: period ? getReviewPeriodState(period, now) : null,
+    deadlineLabel: period ? formatReviewDeadline(period, event.timezone) : null,
+    totalSubmissions: submissions.length,
+    reviewedSubmissions: submissions.filter(submission => submission._count.reviews > 0).length,
+    totalReviews: submissions.reduce((sum, submission) => sum + submission._count.reviews, 0),
+    reviewers: team.map(({ user }) => ({
+      ...(progressByReviewer.get(user.id) ?? { reviewerId: user.id, assigned: 0, completed: 0, pending: 0 }),
+      name: decryptPiiFields({ name: user.name }, USER_PII_FIELDS).name,
+      image: user.image,
+      reviewCount: reviewsByReviewer.get(user.id) ?? 0,
+    })),
+  };
+}
+
+// ============================================================================
+// Reminders
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Record a reminder; false when it was already sent for this deadline
+ */
+async function claimReminder(
+  eventId: string,
+  userId: string,
+  stage: string,
+  deadline: Date,
+  pendingCount: number
+): Promise<boolean> {
+  const { count } = await prisma.reviewReminder.createMany({
+    data: [{ eventId, userId, stage, deadline, pendingCount }],
+    skipDuplicates: true,
+  });
+  return count > 0;
+}
+
+async function loadUsers(userIds: string[]): Promise<Map<string, ReminderUser>> {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, email: true, name: true },
+  });
+  return new Map(users.map(user => [user.id, decryptPiiFields(user, USER_PII_FIELDS)]));
+}
+
+/**
+ * Send the reminders and escalations that are due. Called by the
+ * background job worker; safe to run as often as it likes.
+ */
+export async function processReviewReminders(now: Date = new Date()): Promise<ReviewReminderSummary> {
+  const summary: ReviewReminderSummary = { events: 0, reminders: 0, escalations: 0 };
+
+  // Review dates are whole days, so allow a day either side for timezones
+  const events = await prisma.event.findMany({
+    where: {
+      reviewEndDate: {
+        gte: new Date(now.getTime() - (REVIEW_OVERDUE_GRACE_DAYS + 1) * DAY_MS),
+        lte: new Date(now.getTime() + (REVIEW_REMINDER_DAYS[0] + 1) * DAY_MS),
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      timezone: true,
+      reviewType: true,
+      reviewStartDate: true,
+      reviewEndDate: true,
+    },
+  });
+
+  for (const event of events) {
+    const period = getReviewPeriod(event);
+    const stage = period ? getDueReminderStage(period, now) : null;
+    if (!period || !stage) continue;
+
+    const behind = (await loadReviewerProgress(event)).filter(entry => entry.pending > 0);
+    if (behind.length === 0) continue;
+    summary.events++;
+
+    const deadline = formatReviewDeadline(period, event.timezone);
+    const timeRemaining = formatDistanceStrict(period.endsAt, now, { addSuffix: true });
+    const users = await loadUsers(behind.map(entry => entry.reviewerId));
+    const reviewPath = `/events/${event.slug}/submissions`;
+
+    for (const entry of behind) {
+      const user = users.get(entry.reviewerId);
+      if (!user || !await claimReminder(event.id, user.id, stage, period.endsAt, entry.pending)) continue;
+
+      await notifyUser({
+        user,
+        category: 'REVIEW_DEADLINE',
+        templateType: 'review_deadline_reminder',
+        variables: {
+          userName: user.name || 'Reviewer',
+          eventName: event.name,
+          pendingCount: String(entry.pending),
+          deadline,
+          timeRemaining,
+          reviewUrl: `${config.app.url}${reviewPath}`,
+        },
+        notice: {
+          title: stage === 'overdue' ? 'Review deadline passed' : `Reviews due ${timeRemaining}`,
+          summary: `${entry.pending} of ${entry.assigned} assigned reviews left`,
+          path: reviewPath,
+          eventName: event.name,
+        },
+      });
+      summary.reminders++;
+    }
+
+    if (stage !== 'overdue') continue;
+
+    const leads = await prisma.reviewTeamMember.findMany({
+      where: { eventId: event.id, role: 'LEAD' },
+      select: { userId: true },
+    });
+    const leadUsers = await loadUsers(leads.map(lead => lead.userId));
+    const pendingCount = behind.reduce((sum, entry) => sum + entry.pending, 0);
+    const overdueReviewers = `<ul>${behind.map(entry => {
+      const name = users.get(entry.reviewerId)?.name || users.get(entry.reviewerId)?.email || 'Unknown reviewer';
+      return `<li>${escapeHtml(name)}: ${entry.pending} of ${entry.assigned} left</li>`;
+    }).join('')}</ul>`;
+    const progressPath = `/events/${event.slug}`;
+
+    for (const lead of leadUsers.values()) {
+      if (!await claimReminder(event.id, lead.id, REVIEW_ESCALATION_STAGE, period.endsAt, pendingCount)) continue;
+
+      await notifyUser({
+        user: lead,
+        category: 'REVIEW_DEADLINE',
+        templateType: 'review_deadline_escalation',
+        variables: {
+          userName: lead.name || 'Organizer',
+          eventName: event.name,
+          deadline,
+          pendingCount: String(pendingCount),
+          reviewerCount: String(behind.length),
+          overdueReviewers,
+          progressUrl: `${config.app.url}${progressPath}`,
+        },
+        notice: {
+          title: 'Reviews outstanding after the deadline',
+          summary: `${behind.length} reviewer(s) have ${pendingCount} review(s) left`,
+          path: progressPath,
+          eventName: event.name,
+        },
+      });
+      summary.escalations++;
+    }
+  }
+
+  return summary;
+}
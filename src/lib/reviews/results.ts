@@ -0,0 +1,114 @@
+/**
+ * Review Results
+ *
+ * Per-event review outcomes for reporting, computed according to the
+ * event's review mode, and score calibration across reviewers.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import {
+  getReviewMode,
+  aggregateSubmission,
+  compareAggregates,
+  type ReviewMode,
+  type SubmissionAggregate,
+} from './review-modes';
+import { getEventRankingStandings } from './rankings';
+import {
+  toCalibrationReviews,
+  getReviewerCalibration,
+  getSubmissionCalibration,
+  type ReviewerCalibration,
+  type SubmissionCalibration,
+} from './calibration';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EventReviewResults {
+  mode: ReviewMode;
+  /** Submissions that have at least one review, vote or ranking */
+  reviewedCount: number;
+  totalCount: number;
+  top: Array<{
+    id: string;
+    title: string;
+    status: string;
+    aggregate: SubmissionAggregate;
+  }>;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Best-rated submissions of an event, using the event's review mode
+ */
+export async function getEventReviewResults(
+  event: { id: string; reviewType: string },
+  limit = 5
+): Promise<EventReviewResults> {
+  const mode = getReviewMode(event.reviewType);
+
+  const [submissions, standings] = await Promise.all([
+    prisma.submission.findMany({
+      where: { eventId: event.id, status: { not: 'WITHDRAWN' } },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        reviews: { select: { overallScore: true, weightedScore: true, vote: true } },
+      },
+    }),
+    mode === 'ranking' ? getEventRankingStandings(event.id) : Promise.resolve(null),
+  ]);
+
+  const results = submissions.map(submission => ({
+    id: submission.id,
+    title: submission.title,
+    status: submission.status,
+    aggregate: aggregateSubmission(mode, {
+      reviews: submission.reviews,
+      standing: standings?.get(submission.id),
+    }),
+  }));
+
+  const reviewed = results.filter(r => r.aggregate.sortValue !== null);
+
+  return {
+    mode,
+    reviewedCount: reviewed.length,
+    totalCount: results.length,
+    top: reviewed.sort((a, b) => compareAggregates(a.aggregate, b.aggregate)).slice(0, limit),
+  };
+}
+
+/**
+ * Normalized score and disagreement flag for each scored submission of an
+ * event. Reviewers are calibrated against all of their scores in the
+ * event, whatever the list is filtered to.
+ */
+export async function getEventScoreCalibration(
+  eventId: string
+): Promise<Map<string, SubmissionCalibration>> {
+  const reviews = await prisma.review.findMany({
+    where: { submission: { eventId, status: { not: 'WITHDRAWN' } } },
+    select: { reviewerId: true, submissionId: true, overallScore: true, weightedScore: true },
+  });
+
+  return getSubmissionCalibration(toCalibrationReviews(reviews));
+}
+
+/**
+ * Scoring statistics for each reviewer across all events
+ */
+export async function getReviewerCalibrationStats(): Promise<Map<string, ReviewerCalibration>> {
+  const reviews = await prisma.review.findMany({
+    where: { submission: { status: { not: 'WITHDRAWN' } } },
+    select: { reviewerId: true, submissionId: true, overallScore: true, weightedScore: true },
+  });
+
+  return getReviewerCalibration(toCalibrationReviews(reviews));
+}
@@ -0,0 +1,252 @@
+/**
+ * Review Modes
+ *
+ * Pure helpers for the three review modes an event can use
+ * (Event.reviewType): scoring, voting and ranking. Turns raw reviews and
+ * rankings into a single, sortable result per submission.
+ */
+
+import type { ReviewVote } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const REVIEW_MODES = ['scoring', 'voting', 'ranking'] as const;
+
+export type ReviewMode = (typeof REVIEW_MODES)[number];
+
+export interface VoteTally {
+  yes: number;
+  no: number;
+  abstain: number;
+  total: number;
+  /** Share of YES among YES/NO votes (0-1), null when nobody took a side */
+  approval: number | null;
+}
+
+export interface RankingInput {
+  entries: Array<{ submissionId: string; position: number }>;
+}
+
+export interface RankingStanding {
+  /** 1-based average position across all rankings that include the submission */
+  averagePosition: number;
+  /** Normalized Borda score (0-1, higher is better) */
+  score: number;
+  /** Number of rankings that include the submission */
+  rankCount: number;
+}
+
+export interface SubmissionAggregate {
+  mode: ReviewMode;
+  /** Value used for sorting - higher is better, null when there is no data */
+  sortValue: number | null;
+  /** Short headline value for lists, e.g. "4.2", "75%", "#1.5" */
+  label: string;
+  /** Secondary description, e.g. "3 yes · 1 no" */
+  detail: string;
+}
+
+// ============================================================================
+// Mode Helpers
+// ============================================================================
+
+/**
+ * Normalize Event.reviewType (a free-form string column) to a known mode.
+ * Unknown values fall back to scoring, which is the historical behaviour.
+ */
+export function getReviewMode(reviewType: string | null | undefined): ReviewMode {
+  return REVIEW_MODES.includes(reviewType as ReviewMode)
+    ? (reviewType as ReviewMode)
+    : 'scoring';
+}
+
+/**
+ * Check that a review payload fits the event's review mode.
+ * Returns an error message, or null when the review is acceptable.
+ * Partial payloads (PATCH) may leave the vote untouched.
+ */
+export function validateReviewForMode(
+  mode: ReviewMode,
+  data: { vote?: ReviewVote | null; criterionScores?: unknown[] },
+  options: { partial?: boolean } = {}
+): string | null {
+  if (mode === 'ranking') {
+    return 'This event uses ranking. Submit a ranking of submissions instead of an individual review.';
+  }
+
+  const missingVote = options.partial ? data.vote === null : !data.vote;
+  if (mode === 'voting' && missingVote) {
+    return 'A vote (yes, no or abstain) is required for this event';
+  }
+
+  if (mode === 'scoring' && data.vote) {
+    return 'Votes are only accepted for events that use voting';
+  }
+
+  if (mode !== 'scoring' && data.criterionScores?.length) {
+    return 'Criterion scores are only accepted for events that use scoring';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * The score a single review contributes: the weighted criteria total when
+ * the review was scored against event criteria, otherwise the legacy
+ * overall score.
+ */
+export function reviewScore(
+  review: { overallScore?: number | null; weightedScore?: number | null }
+): number | null {
+  if (typeof review.weightedScore === 'number') return review.weightedScore;
+  if (typeof review.overallScore === 'number' && review.overallScore > 0) return review.overallScore;
+  return null;
+}
+
+/**
+ * Average of the review scores that were actually given
+ */
+export function averageReviewScore(
+  reviews: Array<{ overallScore?: number | null; weightedScore?: number | null }>
+): number | null {
+  const scores = reviews
+    .map(reviewScore)
+    .filter((s): s is number => s !== null);
+
+  if (scores.length === 0) return null;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+// ============================================================================
+// Voting
+// ============================================================================
+
+/**
+ * Count YES/NO/ABSTAIN votes
+ */
+export function tallyVotes(reviews: Array<{ vote?: ReviewVote | null }>): VoteTally {
+  const tally = { yes: 0, no: 0, abstain: 0 };
+
+  for (const review of reviews) {
+    if (review.vote === 'YES') tally.yes++;
+    else if (review.vote === 'NO') tally.no++;
+    else if (review.vote === 'ABSTAIN') tally.abstain++;
+  }
+
+  const decided = tally.yes + tally.no;
+
+  return {
+    ...tally,
+    total: decided + tally.abstain,
+    approval: decided > 0 ? tally.yes / decided : null,
+  };
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Combine reviewer rankings into one standing per submission.
+ *
+ * Each ranking awards a normalized Borda score: first place gets 1, last
+ * place gets 0, so rankings of different lengths (e.g. per-track vs whole
+ * event) carry equal weight. The standing is the mean across rankings.
+ */
+export function computeRankingStandings(
+  rankings: RankingInput[]
+): Map<string, RankingStanding> {
+  const totals = new Map<string, { positionSum: number; scoreSum: number; count: number }>();
+
+  for (const ranking of rankings) {
+    const ordered = [...ranking.entries].sort((a, b) => a.position - b.position);
+    const size = ordered.length;
+
+    ordered.forEach((entry, index) => {
+      const score = size > 1 ? (size - 1 - index) / (size - 1) : 1;
+      const current = totals.get(entry.submissionId) || { positionSum: 0, scoreSum: 0, count: 0 };
+      totals.set(entry.submissionId, {
+        positionSum: current.positionSum + index + 1,
+        scoreSum: current.scoreSum + score,
+        count: current.count + 1,
+      });
+    });
+  }
+
+  const standings = new Map<string, RankingStanding>();
+  for (const [submissionId, total] of totals) {
+    standings.set(submissionId, {
+      averagePosition: total.positionSum / total.count,
+      score: total.scoreSum / total.count,
+      rankCount: total.count,
+    });
+  }
+
+  return standings;
+}
+
+// ============================================================================
+// Per-Submission Aggregate
+// ============================================================================
+
+/**
+ * Build the aggregate shown in lists and used for sorting, following the
+ * event's review mode.
+ */
+export function aggregateSubmission(
+  mode: ReviewMode,
+  input: {
+    reviews: Array<{ overallScore?: number | null; weightedScore?: number | null; vote?: ReviewVote | null }>;
+    standing?: RankingStanding | null;
+  }
+): SubmissionAggregate {
+  if (mode === 'voting') {
+    const tally = tallyVotes(input.reviews);
+    return {
+      mode,
+      sortValue: tally.approval,
+      label: tally.approval !== null ? `${Math.round(tally.approval * 100)}%` : '-',
+      detail: tally.total > 0
+        ? `${tally.yes} yes · ${tally.no} no${tally.abstain > 0 ? ` · ${tally.abstain} abstain` : ''}`
+        : 'No votes',
+    };
+  }
+
+  if (mode === 'ranking') {
+    const standing = input.standing;
+    return {
+      mode,
+      sortValue: standing ? standing.score : null,
+      label: standing ? `#${standing.averagePosition.toFixed(1)}` : '-',
+      detail: standing
+        ? `Ranked by ${standing.rankCount} reviewer${standing.rankCount !== 1 ? 's' : ''}`
+        : 'Not ranked',
+    };
+  }
+
+  const reviewCount = input.reviews.length;
+  const average = averageReviewScore(input.reviews);
+  return {
+    mode,
+    sortValue: average,
+    label: average !== null ? average.toFixed(1) : '-',
+    detail: `${reviewCount} review${reviewCount !== 1 ? 's' : ''}`,
+  };
+}
+
+/**
+ * Comparator for sorting aggregates best-first. Submissions without any
+ * data always sort last.
+ */
+export function compareAggregates(a: SubmissionAggregate, b: SubmissionAggregate): number {
+  if (a.sortValue === null && b.sortValue === null) return 0;
+  if (a.sortValue === null) return 1;
+  if (b.sortValue === null) return -1;
+  return b.sortValue - a.sortValue;
+}
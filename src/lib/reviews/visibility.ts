@@ -0,0 +1,80 @@
+/**
+ * Review Visibility
+ *
+ * Resolves an event's anonymity mode for a viewer and records in the
+ * activity log whenever a privileged viewer is shown identities that the
+ * mode hides from reviewers.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { logActivity, type EntityType } from '@/lib/activity-logger';
+import {
+  getReviewAnonymity,
+  resolveAnonymityView,
+  createReviewerAliases,
+  type AnonymityView,
+  type ReviewerAliasFn,
+} from './anonymity';
+
+/**
+ * Load an event's anonymity mode and resolve it for the viewer
+ */
+export async function getAnonymityView(
+  eventId: string,
+  viewer: { id: string; role: string }
+): Promise<AnonymityView> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { reviewAnonymity: true },
+  });
+
+  return resolveAnonymityView(getReviewAnonymity(event?.reviewAnonymity), viewer);
+}
+
+/**
+ * Reviewer aliases for one submission, numbered in review order so they
+ * match the aliases in the submission's reviews list
+ */
+export async function getSubmissionReviewerAliases(
+  submissionId: string,
+  viewerId: string
+): Promise<ReviewerAliasFn> {
+  const reviews = await prisma.review.findMany({
+    where: { submissionId },
+    select: { reviewerId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return createReviewerAliases(viewerId, reviews.map(r => r.reviewerId));
+}
+
+/**
+ * Write an ActivityLog entry when the view reveals hidden identities.
+ * No-op for OPEN events and for viewers who only receive redacted data.
+ */
+export async function logIdentityReveal(
+  view: AnonymityView,
+  target: {
+    entityType: Extract<EntityType, 'Event' | 'Submission' | 'Review'>;
+    entityId: string;
+    eventId: string;
+    /** What was shown, e.g. "submission", "submission-list", "reviews" */
+    scope: string;
+    count?: number;
+  }
+): Promise<void> {
+  if (!view.revealsIdentities) return;
+
+  await logActivity({
+    userId: view.viewerId,
+    action: 'REVIEW_IDENTITIES_REVEALED',
+    entityType: target.entityType,
+    entityId: target.entityId,
+    metadata: {
+      eventId: target.eventId,
+      anonymity: view.mode,
+      scope: target.scope,
+      ...(target.count !== undefined && { count: target.count }),
+    },
+  });
+}
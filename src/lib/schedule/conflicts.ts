@@ -0,0 +1,104 @@
+/**
+ * Schedule Conflict Detection
+ *
+ * Finds problems in an event's agenda: a speaker (or co-speaker) booked
+ * into overlapping slots, two slots overlapping in one room, and talks
+ * longer than the slot they were placed in. Pure functions only - safe to
+ * import from client components.
+ */
+
+export type ScheduleConflictType = 'SPEAKER_DOUBLE_BOOKED' | 'ROOM_OVERLAP' | 'TALK_TOO_LONG';
+
+export interface ConflictCheckSlot {
+  id: string;
+  roomId: string;
+  startsAt: Date;
+  endsAt: Date;
+  submission: {
+    id: string;
+    title: string;
+    /** Length of the talk itself, null when unknown */
+    durationMin: number | null;
+    /** Identity keys for the speaker and co-speakers (user ids or emails) */
+    speakerKeys: string[];
+  } | null;
+}
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  slotIds: string[];
+  /** Speaker key for SPEAKER_DOUBLE_BOOKED */
+  speakerKey?: string;
+  message: string;
+}
+
+export const SCHEDULE_CONFLICT_LABELS: Record<ScheduleConflictType, string> = {
+  SPEAKER_DOUBLE_BOOKED: 'Speaker double-booked',
+  ROOM_OVERLAP: 'Room overlap',
+  TALK_TOO_LONG: 'Talk longer than slot',
+};
+
+/** Length of a slot in whole minutes */
+export function slotDurationMinutes(slot: Pick<ConflictCheckSlot, 'startsAt' | 'endsAt'>): number {
+  return Math.round((slot.endsAt.getTime() - slot.startsAt.getTime()) / 60000);
+}
+
+function overlaps(a: ConflictCheckSlot, b: ConflictCheckSlot): boolean {
+  return a.startsAt < b.endsAt && b.startsAt < a.endsAt;
+}
+
+/**
+ * Every conflict in a set of slots. Each overlapping pair is reported once;
+ * results are ordered by the first slot's start time.
+ */
+export function detectScheduleConflicts(slots: ConflictCheckSlot[]): ScheduleConflict[] {
+  const sorted = [...slots].sort(
+    (a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id.localeCompare(b.id)
+  );
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const slot of sorted) {
+    const duration = slot.submission?.durationMin;
+    if (slot.submission && duration && duration > slotDurationMinutes(slot)) {
+      conflicts.push({
+        type: 'TALK_TOO_LONG',
+        slotIds: [slot.id],
+        message: `"${slot.submission.title}" runs ${duration} min but the slot is ${slotDurationMinutes(slot)} min`,
+      });
+    }
+  }
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      // Sorted by start, so nothing later can overlap a
+      if (b.startsAt >= a.endsAt) break;
+      if (!overlaps(a, b)) continue;
+
+      if (a.roomId === b.roomId) {
+        conflicts.push({
+          type: 'ROOM_OVERLAP',
+          slotIds: [a.id, b.id],
+          message: 'Two slots overlap in the same room',
+        });
+      }
+
+      if (a.submission && b.submission) {
+        const shared = a.submission.speakerKeys.filter(key => b.submission!.speakerKeys.includes(key));
+        for (const speakerKey of new Set(shared)) {
+          conflicts.push({
+            type: 'SPEAKER_DOUBLE_BOOKED',
+            slotIds: [a.id, b.id],
+            speakerKey,
+            message: `A speaker is in both "${a.submission.title}" and "${b.submission.title}"`,
+          });
+        }
+      }
+    }
+  }
+
+  const order = new Map(sorted.map((slot, index) => [slot.id, index]));
+  return conflicts.sort((x, y) => order.get(x.slotIds[0])! - order.get(y.slotIds[0])!);
+}
@@ -0,0 +1,330 @@
+/**
+ * Schedule Feeds
+ *
+ * Serializes a published schedule as iCalendar (RFC 5545) and as the
+ * Frab/Pretalx schedule JSON used by conference apps and signage. Times
+ * are written in the event timezone with explicit UTC offsets.
+ */
+
+import { createHash } from 'crypto';
+import { formatUtcOffset, getTimezoneOffsetMinutes } from '@/lib/timezone-utils';
+import { zonedTimeToUtc } from './time';
+import type { PublishedSchedule, PublishedSession } from './public';
+
+const ICS_PRODUCT_ID = '-//CFP Directory//Event Schedule//EN';
+const ICS_LINE_OCTETS = 75;
+const FRAB_TIMESLOT_MINUTES = 5;
+
+export interface FeedOptions {
+  /** Absolute origin used for links, e.g. https://cfp.example.com */
+  baseUrl: string;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function eventUrl(schedule: PublishedSchedule, options: FeedOptions): string {
+  return `${options.baseUrl.replace(/\/+$/, '')}/e/${schedule.event.slug}`;
+}
+
+function sessionUrl(schedule: PublishedSchedule, session: PublishedSession, options: FeedOptions): string {
+  return `${eventUrl(schedule, options)}/schedule#session-${session.id}`;
+}
+
+/**
+ * Stable UUID for a session. Derived from the talk (or slot for breaks)
+ * so moving a talk to another slot keeps its identity in client apps.
+ */
+export function sessionGuid(eventId: string, session: Pick<PublishedSession, 'id' | 'submissionId'>): string {
+  const hex = createHash('sha1')
+    .update(`${eventId}:${session.submissionId ?? session.id}`)
+    .digest('hex');
+
+  // Shape it as a name-based (version 5) UUID
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * ISO 8601 timestamp in the event timezone, e.g. 2026-05-01T10:30:00+02:00
+ */
+export function toZonedIso(instant: Date, timezone: string): string {
+  const offset = safeOffsetMinutes(timezone, instant);
+  const shifted = new Date(instant.getTime() + offset * 60000);
+  return `${shifted.toISOString().slice(0, 19)}${formatUtcOffset(offset)}`;
+}
+
+function safeOffsetMinutes(timezone: string, instant: Date): number {
+  try {
+    return getTimezoneOffsetMinutes(timezone, instant);
+  } catch {
+    return 0;
+  }
+}
+
+/** Minutes as "HH:mm" (Frab durations) */
+function formatDuration(minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+// ============================================================================
+// iCalendar
+// ============================================================================
+
+/** Escape a TEXT value (RFC 5545 section 3.3.11) */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, never splitting a UTF-8 character
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/** UTC date-time, e.g. 20260501T083000Z */
+function formatIcsDate(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function sessionDescription(session: PublishedSession, url: string): string {
+  const parts: string[] = [];
+  if (session.speakers.length > 0) {
+    parts.push(session.speakers.map(s => s.name).join(', '));
+  }
+  if (session.abstract) {
+    parts.push(session.abstract);
+  }
+  parts.push(url);
+  return parts.join('\n\n');
+}
+
+/**
+ * iCalendar feed for the whole schedule, or for a single session when
+ * `sessions` is narrowed by the caller.
+ */
+export function buildScheduleIcs(
+  schedule: PublishedSchedule,
+  options: FeedOptions,
+  sessions: PublishedSession[] = schedule.sessions
+): string {
+  const host = new URL(options.baseUrl).host;
+  const stamp = formatIcsDate(schedule.publishedAt);
+  const venue = [schedule.event.venueName, schedule.event.venueCity].filter(Boolean).join(', ');
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(schedule.event.name)}`,
+    `X-WR-TIMEZONE:${schedule.timezone}`,
+  ];
+
+  for (const session of sessions) {
+    const url = sessionUrl(schedule, session, options);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${sessionGuid(schedule.event.id, session)}@${host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(session.startsAt)}`,
+      `DTEND:${formatIcsDate(session.endsAt)}`,
+      `SUMMARY:${escapeIcsText(session.title)}`,
+      `DESCRIPTION:${escapeIcsText(sessionDescription(session, url))}`,
+      `LOCATION:${escapeIcsText([session.room.name, venue].filter(Boolean).join(', '))}`,
+      `URL:${url}`
+    );
+    if (session.track) {
+      lines.push(`CATEGORIES:${escapeIcsText(session.track.name)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Frab / Pretalx JSON
+// ============================================================================
+
+export interface FrabPerson {
+  public_name: string;
+}
+
+export interface FrabTalk {
+  id: number;
+  guid: string;
+  date: string;
+  start: string;
+  duration: string;
+  room: string;
+  slug: string;
+  url: string;
+  title: string;
+  subtitle: string;
+  track: string | null;
+  type: string;
+  language: string;
+  abstract: string;
+  description: string;
+  recording_license: string;
+  do_not_record: boolean;
+  persons: FrabPerson[];
+  links: Array<{ url: string; title: string }>;
+  attachments: Array<{ url: string; title: string }>;
+}
+
+export interface FrabSchedule {
+  schedule: {
+    version: string;
+    base_url: string;
+    conference: {
+      acronym: string;
+      title: string;
+      start: string;
+      end: string;
+      daysCount: number;
+      timeslot_duration: string;
+      time_zone_name: string;
+      url: string;
+      rooms: Array<{ name: string; guid: string }>;
+      tracks: Array<{ name: string; color: string | null }>;
+      days: Array<{
+        index: number;
+        date: string;
+        day_start: string;
+        day_end: string;
+        rooms: Record<string, FrabTalk[]>;
+      }>;
+    };
+  };
+}
+
+function roomGuid(eventId: string, roomId: string): string {
+  return sessionGuid(eventId, { id: `room:${roomId}`, submissionId: null });
+}
+
+/**
+ * Frab-compatible schedule JSON (the format Pretalx exports as
+ * schedule.json). Talks are grouped by day, then by room name.
+ */
+export function buildFrabSchedule(schedule: PublishedSchedule, options: FeedOptions): FrabSchedule {
+  const { event, timezone, hours } = schedule;
+  const url = eventUrl(schedule, options);
+
+  const days = schedule.days.map((date, index) => {
+    const rooms: Record<string, FrabTalk[]> = {};
+    for (const room of schedule.rooms) {
+      rooms[room.name] = [];
+    }
+
+    const daySessions = schedule.sessions.filter(session => session.date === date);
+    for (const session of daySessions) {
+      const guid = sessionGuid(event.id, session);
+      rooms[session.room.name].push({
+        id: parseInt(guid.slice(0, 8), 16),
+        guid,
+        date: toZonedIso(session.startsAt, timezone),
+        start: session.startTime,
+        duration: formatDuration(session.durationMin),
+        room: session.room.name,
+        slug: `${event.slug}-${slugify(session.title) || session.id}`,
+        url: sessionUrl(schedule, session, options),
+        title: session.title,
+        subtitle: '',
+        track: session.track?.name ?? null,
+        type: session.submissionId ? (session.formatName ?? 'Talk') : 'Break',
+        language: '',
+        abstract: session.abstract ?? '',
+        description: '',
+        recording_license: '',
+        do_not_record: false,
+        persons: session.speakers.map(speaker => ({ public_name: speaker.name })),
+        links: [],
+        attachments: [],
+      });
+    }
+
+    // Day boundaries stretch to cover sessions outside the usual hours
+    const dayStart = daySessions.reduce(
+      (earliest, s) => (s.startsAt < earliest ? s.startsAt : earliest),
+      zonedTimeToUtc(date, hours.start, timezone)
+    );
+    const dayEnd = daySessions.reduce(
+      (latest, s) => (s.endsAt > latest ? s.endsAt : latest),
+      zonedTimeToUtc(date, hours.end, timezone)
+    );
+
+    return {
+      index: index + 1,
+      date,
+      day_start: toZonedIso(dayStart, timezone),
+      day_end: toZonedIso(dayEnd, timezone),
+      rooms,
+    };
+  });
+
+  return {
+    schedule: {
+      version: schedule.publishedAt.toISOString(),
+      base_url: `${url}/`,
+      conference: {
+        acronym: event.slug,
+        title: event.name,
+        start: schedule.days[0] ?? '',
+        end: schedule.days[schedule.days.length - 1] ?? '',
+        daysCount: schedule.days.length,
+        timeslot_duration: formatDuration(FRAB_TIMESLOT_MINUTES),
+        time_zone_name: timezone,
+        url,
+        rooms: schedule.rooms.map(room => ({ name: room.name, guid: roomGuid(event.id, room.id) })),
+        tracks: schedule.tracks.map(track => ({ name: track.name, color: track.color })),
+        days,
+      },
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Schedule Module Index
+ *
+ * Re-exports timezone helpers, conflict detection, schedule storage and
+ * the public schedule feeds.
+ */
+
+export {
+  MAX_SCHEDULE_DAYS,
+  type ZonedDateTime,
+  type ScheduleWindow,
+  isValidTime,
+  isValidDate,
+  timeToMinutes,
+  zonedTimeToUtc,
+  utcToZonedTime,
+  getEventDays,
+  getDailyHours,
+  checkSlotWithinEvent,
+} from './time';
+
+export {
+  SCHEDULE_CONFLICT_LABELS,
+  type ScheduleConflictType,
+  type ConflictCheckSlot,
+  type ScheduleConflict,
+  slotDurationMinutes,
+  detectScheduleConflicts,
+} from './conflicts';
+
+export {
+  type ScheduleSubmission,
+  type ScheduleSlotView,
+  type EventSchedule,
+  getEventSchedule,
+  createScheduleSlots,
+  updateScheduleSlot,
+} from './schedule';
+
+export {
+  type PublishedSpeaker,
+  type PublishedSession,
+  type PublishedSchedule,
+  getPublishedSchedule,
+} from './public';
+
+export {
+  type FeedOptions,
+  type FrabPerson,
+  type FrabTalk,
+  type FrabSchedule,
+  sessionGuid,
+  toZonedIso,
+  escapeIcsText,
+  foldIcsLine,
+  buildScheduleIcs,
+  buildFrabSchedule,
+} from './feeds';
@@ -0,0 +1,208 @@
+/**
+ * Published Schedule
+ *
+ * Loads the public agenda of an event for the schedule page and feeds.
+ * Only published events with a published schedule are returned, and only
+ * public details: talk titles, abstracts, speaker names, rooms and tracks.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  CO_SPEAKER_PII_FIELDS,
+} from '@/lib/security/encryption';
+import { getDailyHours, getEventDays, utcToZonedTime } from './time';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Only display fields: user and co-speaker ids stay private */
+export interface PublishedSpeaker {
+  name: string;
+}
+
+export interface PublishedSession {
+  /** Schedule slot id */
+  id: string;
+  /** Null for breaks and other sessions without a talk */
+  submissionId: string | null;
+  title: string;
+  abstract: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  /** YYYY-MM-DD in the event timezone */
+  date: string;
+  /** HH:mm in the event timezone */
+  startTime: string;
+  endTime: string;
+  durationMin: number;
+  room: { id: string; name: string };
+  track: { id: string; name: string; color: string | null } | null;
+  formatName: string | null;
+  speakers: PublishedSpeaker[];
+}
+
+export interface PublishedSchedule {
+  event: {
+    id: string;
+    slug: string;
+    name: string;
+    websiteUrl: string | null;
+    venueName: string | null;
+    venueCity: string | null;
+    isVirtual: boolean;
+  };
+  timezone: string;
+  days: string[];
+  hours: { start: string; end: string };
+  publishedAt: Date;
+  rooms: Array<{ id: string; name: string }>;
+  tracks: Array<{ id: string; name: string; color: string | null }>;
+  /** Sessions ordered by start time, then room order */
+  sessions: PublishedSession[];
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * The published agenda of an event, or null when the event or its
+ * schedule is not public.
+ */
+export async function getPublishedSchedule(slug: string): Promise<PublishedSchedule | null> {
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      slug: true,
+      name: true,
+      websiteUrl: true,
+      venueName: true,
+      venueCity: true,
+      isVirtual: true,
+      isPublished: true,
+      timezone: true,
+      startDate: true,
+      endDate: true,
+      startTime: true,
+      endTime: true,
+      schedulePublishedAt: true,
+      rooms: {
+        select: { id: true, name: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      },
+      tracks: {
+        select: { id: true, name: true, color: true },
+        orderBy: { name: 'asc' },
+      },
+    },
+  });
+
+  if (!event || !event.isPublished || !event.schedulePublishedAt) {
+    return null;
+  }
+
+  const slots = await prisma.scheduleSlot.findMany({
+    where: {
+      eventId: event.id,
+      // Empty slots are placeholders for organizers, not sessions
+      OR: [
+        { submission: { status: 'ACCEPTED' } },
+        { submissionId: null, title: { not: null } },
+      ],
+    },
+    select: {
+      id: true,
+      roomId: true,
+      title: true,
+      startsAt: true,
+      endsAt: true,
+      talkFormat: { select: { name: true } },
+      submission: {
+        select: {
+          id: true,
+          title: true,
+          abstract: true,
+          speaker: { select: { name: true } },
+          track: { select: { id: true, name: true, color: true } },
+          format: { select: { name: true } },
+          // Invited co-speakers appear once they accept; those added
+          // without an invitation are listed as the speaker entered them
+          coSpeakers: {
+            where: { OR: [{ invitationStatus: 'ACCEPTED' }, { invitationStatus: null }] },
+            select: { name: true },
+          },
+        },
+      },
+    },
+    orderBy: { startsAt: 'asc' },
+  });
+
+  const roomOrder = new Map(event.rooms.map((room, index) => [room.id, index]));
+  const roomById = new Map(event.rooms.map(room => [room.id, room]));
+
+  const sessions = slots
+    .filter(slot => roomById.has(slot.roomId))
+    .map((slot): PublishedSession => {
+      const submission = slot.submission;
+      const start = utcToZonedTime(slot.startsAt, event.timezone);
+      const end = utcToZonedTime(slot.endsAt, event.timezone);
+
+      const speakers: PublishedSpeaker[] = [];
+      if (submission) {
+        const speaker = decryptPiiFields(submission.speaker as unknown as Record<string, unknown>, USER_PII_FIELDS);
+        if (speaker.name) {
+          speakers.push({ name: speaker.name as string });
+        }
+        for (const coSpeaker of submission.coSpeakers) {
+          const decrypted = decryptPiiFields(coSpeaker as unknown as Record<string, unknown>, CO_SPEAKER_PII_FIELDS);
+          if (decrypted.name) {
+            speakers.push({ name: decrypted.name as string });
+          }
+        }
+      }
+
+      return {
+        id: slot.id,
+        submissionId: submission?.id ?? null,
+        title: submission?.title ?? slot.title ?? '',
+        abstract: submission?.abstract ?? null,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        date: start.date,
+        startTime: start.time,
+        endTime: end.time,
+        durationMin: Math.round((slot.endsAt.getTime() - slot.startsAt.getTime()) / 60000),
+        room: roomById.get(slot.roomId)!,
+        track: submission?.track ?? null,
+        formatName: submission?.format?.name ?? slot.talkFormat?.name ?? null,
+        speakers,
+      };
+    })
+    .sort((a, b) =>
+      a.startsAt.getTime() - b.startsAt.getTime() ||
+      roomOrder.get(a.room.id)! - roomOrder.get(b.room.id)!
+    );
+
+  return {
+    event: {
+      id: event.id,
+      slug: event.slug,
+      name: event.name,
+      websiteUrl: event.websiteUrl,
+      venueName: event.venueName,
+      venueCity: event.venueCity,
+      isVirtual: event.isVirtual,
+    },
+    timezone: event.timezone,
+    days: getEventDays(event),
+    hours: getDailyHours(event),
+    publishedAt: event.schedulePublishedAt,
+    rooms: event.rooms,
+    tracks: event.tracks,
+    sessions,
+  };
+}
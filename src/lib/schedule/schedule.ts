@@ -0,0 +1,425 @@
+/**
+ * Event Schedule
+ *
+ * Database access for an event's rooms and schedule slots: loading the
+ * agenda with its conflicts, creating slots and placing accepted
+ * submissions into them.
+ */
+
+import type { Prisma, ScheduleSlot } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import {
+  decryptPiiFields,
+  USER_PII_FIELDS,
+  CO_SPEAKER_PII_FIELDS,
+} from '@/lib/security/encryption';
+import type { CreateSlotInput, UpdateSlotInput } from '@/lib/validations/schedule';
+import {
+  checkSlotWithinEvent,
+  getDailyHours,
+  getEventDays,
+  zonedTimeToUtc,
+  type ScheduleWindow,
+} from './time';
+import { detectScheduleConflicts, type ScheduleConflict } from './conflicts';
+
+const SCHEDULE_WINDOW_SELECT = {
+  timezone: true,
+  startDate: true,
+  endDate: true,
+  startTime: true,
+  endTime: true,
+} satisfies Prisma.EventSelect;
+
+const SCHEDULE_SUBMISSION_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  speakerId: true,
+  speaker: { select: { name: true, email: true } },
+  track: { select: { name: true, color: true } },
+  format: { select: { durationMin: true } },
+  talk: { select: { durationMin: true } },
+  coSpeakers: { select: { name: true, email: true, linkedUserId: true } },
+} satisfies Prisma.SubmissionSelect;
+
+type ScheduleSubmissionRow = Prisma.SubmissionGetPayload<{ select: typeof SCHEDULE_SUBMISSION_SELECT }>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScheduleSubmission {
+  id: string;
+  title: string;
+  status: string;
+  speakerNames: string[];
+  trackName: string | null;
+  trackColor: string | null;
+  /** Length of the talk from its format (or talk library entry), if known */
+  durationMin: number | null;
+}
+
+export interface ScheduleSlotView {
+  id: string;
+  roomId: string;
+  talkFormatId: string | null;
+  title: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  submission: ScheduleSubmission | null;
+}
+
+export interface EventSchedule {
+  eventId: string;
+  timezone: string;
+  days: string[];
+  hours: { start: string; end: string };
+  publishedAt: Date | null;
+  rooms: Array<{ id: string; name: string; capacity: number | null; sortOrder: number }>;
+  talkFormats: Array<{ id: string; name: string; durationMin: number }>;
+  slots: ScheduleSlotView[];
+  /** Accepted submissions not yet placed in a slot */
+  unscheduled: ScheduleSubmission[];
+  conflicts: ScheduleConflict[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function talkDuration(submission: ScheduleSubmissionRow): number | null {
+  return submission.format?.durationMin ?? submission.talk?.durationMin ?? null;
+}
+
+function decryptCoSpeakers(submission: ScheduleSubmissionRow) {
+  return submission.coSpeakers.map(coSpeaker => {
+    const decrypted = decryptPiiFields(coSpeaker as unknown as Record<string, unknown>, CO_SPEAKER_PII_FIELDS);
+    return {
+      name: decrypted.name as string,
+      email: (decrypted.email as string | null) ?? null,
+      linkedUserId: coSpeaker.linkedUserId,
+    };
+  });
+}
+
+/**
+ * Keys that identify the people presenting a submission. Linked
+ * co-speakers are matched by user id, others by email.
+ */
+function speakerKeys(submission: ScheduleSubmissionRow): string[] {
+  const keys = [submission.speakerId];
+  for (const coSpeaker of decryptCoSpeakers(submission)) {
+    if (coSpeaker.linkedUserId) {
+      keys.push(coSpeaker.linkedUserId);
+    } else if (coSpeaker.email) {
+      keys.push(`email:${coSpeaker.email.trim().toLowerCase()}`);
+    }
+  }
+  return [...new Set(keys)];
+}
+
+function toScheduleSubmission(submission: ScheduleSubmissionRow): ScheduleSubmission {
+  const speaker = decryptPiiFields(submission.speaker as unknown as Record<string, unknown>, USER_PII_FIELDS);
+
+  return {
+    id: submission.id,
+    title: submission.title,
+    status: submission.status,
+    speakerNames: [
+      (speaker.name as string | null) || submission.speaker.email,
+      ...decryptCoSpeakers(submission).map(c => c.name),
+    ],
+    trackName: submission.track?.name ?? null,
+    trackColor: submission.track?.color ?? null,
+    durationMin: talkDuration(submission),
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * An event's full agenda with unscheduled accepted submissions and
+ * conflicts. Returns null for unknown events.
+ */
+export async function getEventSchedule(eventId: string): Promise<EventSchedule | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      ...SCHEDULE_WINDOW_SELECT,
+      schedulePublishedAt: true,
+      rooms: {
+        select: { id: true, name: true, capacity: true, sortOrder: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      },
+      talkFormats: {
+        select: { id: true, name: true, durationMin: true },
+        orderBy: { sortOrder: 'asc' },
+      },
+    },
+  });
+
+  if (!event) return null;
+
+  const [slots, unscheduled] = await Promise.all([
+    prisma.scheduleSlot.findMany({
+      where: { eventId },
+      select: {
+        id: true,
+        roomId: true,
+        talkFormatId: true,
+        title: true,
+        startsAt: true,
+        endsAt: true,
+        submission: { select: SCHEDULE_SUBMISSION_SELECT },
+      },
+      orderBy: { startsAt: 'asc' },
+    }),
+    prisma.submission.findMany({
+      where: { eventId, status: 'ACCEPTED', scheduleSlot: null },
+      select: SCHEDULE_SUBMISSION_SELECT,
+      orderBy: { title: 'asc' },
+    }),
+  ]);
+
+  const conflicts = detectScheduleConflicts(slots.map(slot => ({
+    id: slot.id,
+    roomId: slot.roomId,
+    startsAt: slot.startsAt,
+    endsAt: slot.endsAt,
+    submission: slot.submission
+      ? {
+          id: slot.submission.id,
+          title: slot.submission.title,
+          durationMin: talkDuration(slot.submission),
+          speakerKeys: speakerKeys(slot.submission),
+        }
+      : null,
+  })));
+
+  return {
+    eventId,
+    timezone: event.timezone,
+    days: getEventDays(event),
+    hours: getDailyHours(event),
+    publishedAt: event.schedulePublishedAt,
+    rooms: event.rooms,
+    talkFormats: event.talkFormats,
+    slots: slots.map(slot => ({
+      ...slot,
+      submission: slot.submission ? toScheduleSubmission(slot.submission) : null,
+    })),
+    unscheduled: unscheduled.map(toScheduleSubmission),
+    conflicts,
+  };
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+type SlotResult<T> = { error: string; slot?: never; slots?: never } | ({ error: null } & T);
+
+async function getScheduleWindow(eventId: string): Promise<ScheduleWindow | null> {
+  return prisma.event.findUnique({
+    where: { id: eventId },
+    select: SCHEDULE_WINDOW_SELECT,
+  });
+}
+
+/**
+ * Why a submission cannot be placed on this event's schedule, or null
+ */
+async function checkSchedulable(eventId: string, submissionId: string): Promise<string | null> {
+  const submission = await prisma.submission.findFirst({
+    where: { id: submissionId, eventId },
+    select: { status: true },
+  });
+
+  if (!submission) return 'Submission not found';
+  if (submission.status !== 'ACCEPTED') return 'Only accepted submissions can be scheduled';
+  return null;
+}
+
+async function resolveDuration(
+  eventId: string,
+  talkFormatId: string | null | undefined,
+  durationMin: number | null | undefined
+): Promise<{ durationMin: number | null; error: string | null }> {
+  if (!talkFormatId) {
+    return { durationMin: durationMin ?? null, error: null };
+  }
+
+  const format = await prisma.eventTalkFormat.findFirst({
+    where: { id: talkFormatId, eventId },
+    select: { durationMin: true },
+  });
+
+  if (!format) return { durationMin: null, error: 'Talk format not found' };
+  return { durationMin: durationMin ?? format.durationMin, error: null };
+}
+
+/**
+ * Create one slot, or several back-to-back, in a room
+ */
+export async function createScheduleSlots(
+  eventId: string,
+  input: CreateSlotInput
+): Promise<SlotResult<{ slots: ScheduleSlot[] }>> {
+  const window = await getScheduleWindow(eventId);
+  if (!window) return { error: 'Event not found' };
+
+  const room = await prisma.eventRoom.findFirst({
+    where: { id: input.roomId, eventId },
+    select: { id: true },
+  });
+  if (!room) return { error: 'Room not found' };
+
+  const { durationMin, error: durationError } = await resolveDuration(eventId, input.talkFormatId, input.durationMin);
+  if (durationError) return { error: durationError };
+  if (!durationMin) return { error: 'Choose a talk format or a duration' };
+
+  if (input.submissionId) {
+    const submissionError = await checkSchedulable(eventId, input.submissionId);
+    if (submissionError) return { error: submissionError };
+
+    const existing = await prisma.scheduleSlot.findUnique({
+      where: { submissionId: input.submissionId },
+      select: { id: true },
+    });
+    if (existing) return { error: 'This submission is already scheduled' };
+  }
+
+  const first = zonedTimeToUtc(input.date, input.startTime, window.timezone).getTime();
+  const times = Array.from({ length: input.count }, (_, index) => {
+    const startsAt = new Date(first + index * durationMin * 60000);
+    return { startsAt, endsAt: new Date(startsAt.getTime() + durationMin * 60000) };
+  });
+
+  for (const { startsAt, endsAt } of times) {
+    const windowError = checkSlotWithinEvent(window, startsAt, endsAt);
+    if (windowError) return { error: windowError };
+  }
+
+  const slots = await prisma.$transaction(
+    times.map(({ startsAt, endsAt }) =>
+      prisma.scheduleSlot.create({
+        data: {
+          eventId,
+          roomId: room.id,
+          talkFormatId: input.talkFormatId || null,
+          submissionId: input.submissionId || null,
+          title: input.title || null,
+          startsAt,
+          endsAt,
+        },
+      })
+    )
+  );
+
+  return { error: null, slots };
+}
+
+/**
+ * Move, resize or relabel a slot, or change which submission it holds.
+ * Placing a submission that is already in another slot swaps the two
+ * slots' submissions, so drag-and-drop between slots never loses a talk.
+ */
+export async function updateScheduleSlot(
+  eventId: string,
+  slotId: string,
+  input: UpdateSlotInput
+): Promise<SlotResult<{ slot: ScheduleSlot }>> {
+  const slot = await prisma.scheduleSlot.findFirst({
+    where: { id: slotId, eventId },
+  });
+  if (!slot) return { error: 'Slot not found' };
+
+  const window = await getScheduleWindow(eventId);
+  if (!window) return { error: 'Event not found' };
+
+  const data: Prisma.ScheduleSlotUncheckedUpdateInput = {};
+
+  if (input.roomId !== undefined && input.roomId !== slot.roomId) {
+    const room = await prisma.eventRoom.findFirst({
+      where: { id: input.roomId, eventId },
+      select: { id: true },
+    });
+    if (!room) return { error: 'Room not found' };
+    data.roomId = room.id;
+  }
+
+  if (input.title !== undefined) {
+    data.title = input.title || null;
+  }
+
+  // Timing: keep the current length unless a format or duration is given
+  const timingChanged = input.date !== undefined || input.talkFormatId !== undefined || input.durationMin !== undefined;
+  if (timingChanged) {
+    const { durationMin, error: durationError } = await resolveDuration(eventId, input.talkFormatId, input.durationMin);
+    if (durationError) return { error: durationError };
+
+    const startsAt = input.date && input.startTime
+      ? zonedTimeToUtc(input.date, input.startTime, window.timezone)
+      : slot.startsAt;
+    const length = durationMin
+      ? durationMin * 60000
+      : slot.endsAt.getTime() - slot.startsAt.getTime();
+    const endsAt = new Date(startsAt.getTime() + length);
+
+    const windowError = checkSlotWithinEvent(window, startsAt, endsAt);
+    if (windowError) return { error: windowError };
+
+    data.startsAt = startsAt;
+    data.endsAt = endsAt;
+    if (input.talkFormatId !== undefined) {
+      data.talkFormatId = input.talkFormatId || null;
+    }
+  }
+
+  if (input.submissionId === undefined || input.submissionId === slot.submissionId) {
+    const updated = await prisma.scheduleSlot.update({ where: { id: slot.id }, data });
+    return { error: null, slot: updated };
+  }
+
+  if (input.submissionId === null) {
+    const updated = await prisma.scheduleSlot.update({
+      where: { id: slot.id },
+      data: { ...data, submissionId: null },
+    });
+    return { error: null, slot: updated };
+  }
+
+  const submissionError = await checkSchedulable(eventId, input.submissionId);
+  if (submissionError) return { error: submissionError };
+
+  const previousSlot = await prisma.scheduleSlot.findUnique({
+    where: { submissionId: input.submissionId },
+    select: { id: true },
+  });
+
+  // Free both submissions first so the unique submissionId never collides
+  const operations: Prisma.PrismaPromise<unknown>[] = [
+    prisma.scheduleSlot.update({ where: { id: slot.id }, data: { submissionId: null } }),
+  ];
+  if (previousSlot) {
+    operations.push(
+      prisma.scheduleSlot.update({
+        where: { id: previousSlot.id },
+        data: { submissionId: slot.submissionId },
+      })
+    );
+  }
+
+  const results = await prisma.$transaction([
+    ...operations,
+    prisma.scheduleSlot.update({
+      where: { id: slot.id },
+      data: { ...data, submissionId: input.submissionId },
+    }),
+  ]);
+
+  return { error: null, slot: results[results.length - 1] as ScheduleSlot };
+}
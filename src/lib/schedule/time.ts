@@ -0,0 +1,155 @@
+/**
+ * Schedule Time Helpers
+ *
+ * Slots are stored as UTC instants but organizers think in the event's
+ * local wall-clock time. These helpers convert between the two using the
+ * event's IANA timezone and derive the days and daily hours an agenda may
+ * use. Pure functions only - safe to import from client components.
+ */
+
+import { getTimezoneOffsetMinutes } from '@/lib/timezone-utils';
+
+/** Longest event the builder lays out, in days */
+export const MAX_SCHEDULE_DAYS = 31;
+
+const DEFAULT_DAY_START = '09:00';
+const DEFAULT_DAY_END = '17:00';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ZonedDateTime {
+  /** YYYY-MM-DD in the event timezone */
+  date: string;
+  /** HH:mm (24h) in the event timezone */
+  time: string;
+}
+
+export interface ScheduleWindow {
+  timezone: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export function isValidTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+export function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(`${date}T00:00:00Z`));
+}
+
+/** Minutes since midnight for an HH:mm string */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function resolveTimezone(timezone: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to a UTC instant.
+ * Times skipped by a DST change resolve to the following valid time.
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const zone = resolveTimezone(timezone);
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Guess with the offset at the wall-clock instant, then correct once
+  // in case the guess landed on the other side of a DST change
+  let instant = wallClock - getTimezoneOffsetMinutes(zone, new Date(wallClock)) * 60000;
+  const corrected = wallClock - getTimezoneOffsetMinutes(zone, new Date(instant)) * 60000;
+  if (corrected !== instant) {
+    instant = Math.max(instant, corrected);
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * The wall-clock date and time of a UTC instant in a timezone
+ */
+export function utcToZonedTime(instant: Date, timezone: string): ZonedDateTime {
+  const zone = resolveTimezone(timezone);
+  const shifted = new Date(instant.getTime() + getTimezoneOffsetMinutes(zone, instant) * 60000);
+  const iso = shifted.toISOString();
+
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * The calendar days of an event (YYYY-MM-DD), capped at MAX_SCHEDULE_DAYS.
+ * Event dates are stored as midnight UTC of the chosen day.
+ */
+export function getEventDays(window: Pick<ScheduleWindow, 'startDate' | 'endDate'>): string[] {
+  if (!window.startDate) return [];
+
+  const first = Date.UTC(
+    window.startDate.getUTCFullYear(),
+    window.startDate.getUTCMonth(),
+    window.startDate.getUTCDate()
+  );
+  const last = window.endDate && window.endDate.getTime() > first ? window.endDate.getTime() : first;
+
+  const days: string[] = [];
+  for (let day = first; day <= last && days.length < MAX_SCHEDULE_DAYS; day += 86400000) {
+    days.push(new Date(day).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/**
+ * Daily agenda hours, falling back to the event form defaults
+ */
+export function getDailyHours(window: Pick<ScheduleWindow, 'startTime' | 'endTime'>): { start: string; end: string } {
+  const start = window.startTime && isValidTime(window.startTime) ? window.startTime : DEFAULT_DAY_START;
+  const end = window.endTime && isValidTime(window.endTime) ? window.endTime : DEFAULT_DAY_END;
+
+  return timeToMinutes(end) > timeToMinutes(start)
+    ? { start, end }
+    : { start: DEFAULT_DAY_START, end: DEFAULT_DAY_END };
+}
+
+/**
+ * Why a slot does not fit the event's days and hours, or null when it does
+ */
+export function checkSlotWithinEvent(
+  window: ScheduleWindow,
+  startsAt: Date,
+  endsAt: Date
+): string | null {
+  if (endsAt.getTime() <= startsAt.getTime()) {
+    return 'A slot must end after it starts';
+  }
+
+  const days = getEventDays(window);
+  if (days.length === 0) {
+    return 'Set the event dates before building the schedule';
+  }
+
+  const start = utcToZonedTime(startsAt, window.timezone);
+  if (!days.includes(start.date)) {
+    return 'Slots must fall on one of the event days';
+  }
+
+  const hours = getDailyHours(window);
+  const dayStart = zonedTimeToUtc(start.date, hours.start, window.timezone);
+  const dayEnd = zonedTimeToUtc(start.date, hours.end, window.timezone);
+
+  if (startsAt < dayStart || endsAt > dayEnd) {
+    return `Slots must be between ${hours.start} and ${hours.end} (${window.timezone})`;
+  }
+
+  return null;
+}
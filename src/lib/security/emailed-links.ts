@@ -0,0 +1,38 @@
+/**
+ * Emailed Links
+ *
+ * Shared by flows that email someone a one-time link, such as speaker
+ * confirmations and co-speaker invitations: where links point, how their
+ * tokens are stored, and the user names shown alongside them.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { decryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+
+/**
+ * The site's public URL, for links in emails
+ */
+export async function getLinkBaseUrl(): Promise<string> {
+  const siteSettings = await prisma.siteSettings.findUnique({
+    where: { id: 'default' },
+    select: { websiteUrl: true },
+  });
+  return siteSettings?.websiteUrl || config.app.url || 'http://localhost:3000';
+}
+
+/**
+ * Link tokens are only stored as SHA-256 hashes
+ */
+export function hashLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A user's name as stored, decrypted
+ */
+export function decryptUserName(name: string | null): string | null {
+  if (!name) return null;
+  return (decryptPiiFields({ name }, USER_PII_FIELDS) as { name: string }).name;
+}
@@ -7,6 +7,12 @@
  * - Uses PBKDF2 to derive encryption key from NEXTAUTH_SECRET
  * - Optional additional entropy from federation license key
  * 
+ * Key rotation:
+ * - Ciphertexts record the ID of the key that encrypted them (enc:v2)
+ * - ENCRYPTION_KEY is the primary key used for new values
+ * - ENCRYPTION_RETIRED_KEYS (comma-separated) still decrypt old values
+ *   until the key rotation job has re-encrypted them
+ * 
  * Security features:
  * - AES-256-GCM (authenticated encryption)
  * - Random 96-bit IV per encryption
@@ -27,13 +33,24 @@ const KEY_LENGTH = 32; // 256 bits for AES-256
 const PBKDF2_ITERATIONS = 100000;
 const SALT_LENGTH = 16;
 
-// Prefix for encrypted values to identify them
-const ENCRYPTED_PREFIX = 'enc:v1:';
+// Prefixes for encrypted values. v1 values do not record their key; v2
+// values carry the key ID after the prefix.
+const LEGACY_PREFIX = 'enc:v1:';
+const ENCRYPTED_PREFIX = 'enc:v2:';
+
+/** Key ID reported for v1 values, which do not record their key */
+export const LEGACY_KEY_ID = 'legacy';
 
 // =============================================================================
 // Key Derivation
 // =============================================================================
 
+export interface EncryptionKey {
+  /** Short fingerprint of the secret, stored with each ciphertext */
+  id: string;
+  secret: string;
+}
+
 /**
  * Get the master secret for key derivation.
  * 
@@ -72,17 +89,60 @@ function getMasterSecret(): string {
   return baseSecret;
 }
 
+/**
+ * Key ID for a secret: the first 12 hex characters of its SHA-256 hash.
+ * Identifies the key without revealing it.
+ */
+export function getKeyId(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 12);
+}
+
+/**
+ * The key used for all new encryptions
+ */
+export function getPrimaryKey(): EncryptionKey {
+  const secret = getMasterSecret();
+  return { id: getKeyId(secret), secret };
+}
+
+/**
+ * Keys from ENCRYPTION_RETIRED_KEYS that can still decrypt old values.
+ * Entries shorter than 32 characters and the primary key are ignored.
+ */
+export function getRetiredKeys(): EncryptionKey[] {
+  const primaryId = getPrimaryKey().id;
+  const secrets = (process.env.ENCRYPTION_RETIRED_KEYS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(secret => secret.length >= 32);
+
+  const keys: EncryptionKey[] = [];
+  for (const secret of secrets) {
+    const id = getKeyId(secret);
+    if (id !== primaryId && !keys.some(key => key.id === id)) {
+      keys.push({ id, secret });
+    }
+  }
+  return keys;
+}
+
+/**
+ * Every key that can decrypt, primary first
+ */
+function getKeyRing(): EncryptionKey[] {
+  return [getPrimaryKey(), ...getRetiredKeys()];
+}
+
 /**
  * Derive an encryption key using PBKDF2.
  * 
  * @param salt - The salt for key derivation
+ * @param secret - The master secret to derive from
  * @returns The derived 256-bit key
  */
-function deriveKey(salt: Buffer): Buffer {
-  const masterSecret = getMasterSecret();
-  
+function deriveKey(salt: Buffer, secret: string): Buffer {
   return crypto.pbkdf2Sync(
-    masterSecret,
+    secret,
     salt,
     PBKDF2_ITERATIONS,
     KEY_LENGTH,
@@ -99,24 +159,26 @@ export interface EncryptedData {
   iv: string; // Base64 encoded
   authTag: string; // Base64 encoded
   salt: string; // Base64 encoded (for key derivation)
+  keyId?: string; // Key that encrypted the value; absent for legacy values
 }
 
 /**
  * Encrypt a string value using AES-256-GCM.
  * 
  * @param plaintext - The value to encrypt
+ * @param key - Key to encrypt with (defaults to the primary key)
  * @returns Encrypted data object
  */
-export function encrypt(plaintext: string): EncryptedData {
+export function encrypt(plaintext: string, key: EncryptionKey = getPrimaryKey()): EncryptedData {
   // Generate random IV and salt
   const iv = crypto.randomBytes(IV_LENGTH);
   const salt = crypto.randomBytes(SALT_LENGTH);
   
   // Derive key from master secret
-  const key = deriveKey(salt);
+  const derivedKey = deriveKey(salt, key.secret);
   
   // Create cipher
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv, {
+  const cipher = crypto.createCipheriv(ALGORITHM, derivedKey, iv, {
     authTagLength: AUTH_TAG_LENGTH,
   });
   
@@ -132,17 +194,11 @@ export function encrypt(plaintext: string): EncryptedData {
     iv: iv.toString('base64'),
     authTag: authTag.toString('base64'),
     salt: salt.toString('base64'),
+    keyId: key.id,
   };
 }
 
-/**
- * Decrypt an encrypted value using AES-256-GCM.
- * 
- * @param encryptedData - The encrypted data object
- * @returns The decrypted plaintext
- * @throws Error if decryption fails (invalid data or tampering detected)
- */
-export function decrypt(encryptedData: EncryptedData): string {
+function decryptWithKey(encryptedData: EncryptedData, secret: string): string {
   // Decode Base64 values
   const iv = Buffer.from(encryptedData.iv, 'base64');
   const salt = Buffer.from(encryptedData.salt, 'base64');
@@ -150,7 +206,7 @@ export function decrypt(encryptedData: EncryptedData): string {
   const ciphertext = Buffer.from(encryptedData.ciphertext, 'base64');
   
   // Derive key using same salt
-  const key = deriveKey(salt);
+  const key = deriveKey(salt, secret);
   
   // Create decipher
   const decipher = crypto.createDecipheriv(ALGORITHM, key, iv, {
@@ -167,13 +223,48 @@ export function decrypt(encryptedData: EncryptedData): string {
   return plaintext.toString('utf8');
 }
 
+/**
+ * Decrypt an encrypted value using AES-256-GCM.
+ * 
+ * Values that record their key are decrypted with that key. Legacy values
+ * are tried against the primary key, then each retired key.
+ * 
+ * @param encryptedData - The encrypted data object
+ * @returns The decrypted plaintext
+ * @throws Error if decryption fails (invalid data, unknown key or tampering detected)
+ */
+export function decrypt(encryptedData: EncryptedData): string {
+  const keyRing = getKeyRing();
+  
+  if (encryptedData.keyId) {
+    const key = keyRing.find(k => k.id === encryptedData.keyId);
+    if (!key) {
+      throw new Error(
+        `Encryption key ${encryptedData.keyId} is not configured. ` +
+        'Add it to ENCRYPTION_RETIRED_KEYS to decrypt this value.'
+      );
+    }
+    return decryptWithKey(encryptedData, key.secret);
+  }
+  
+  let lastError: unknown;
+  for (const key of keyRing) {
+    try {
+      return decryptWithKey(encryptedData, key.secret);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
 // =============================================================================
 // String Encoding Helpers
 // =============================================================================
 
 /**
  * Encrypt a string and return as a single encoded string.
- * Format: enc:v1:<salt>:<iv>:<authTag>:<ciphertext>
+ * Format: enc:v2:<keyId>:<salt>:<iv>:<authTag>:<ciphertext>
  * 
  * @param plaintext - The value to encrypt
  * @returns Encoded encrypted string
@@ -181,8 +272,31 @@ export function decrypt(encryptedData: EncryptedData): string {
 export function encryptString(plaintext: string): string {
   if (!plaintext) return plaintext;
   
-  const encrypted = encrypt(plaintext);
-  return `${ENCRYPTED_PREFIX}${encrypted.salt}:${encrypted.iv}:${encrypted.authTag}:${encrypted.ciphertext}`;
+  return encodeEncrypted(encrypt(plaintext));
+}
+
+function encodeEncrypted(encrypted: EncryptedData): string {
+  return `${ENCRYPTED_PREFIX}${encrypted.keyId}:${encrypted.salt}:${encrypted.iv}:${encrypted.authTag}:${encrypted.ciphertext}`;
+}
+
+/**
+ * Split an encoded string into its parts. Legacy enc:v1 values have no
+ * key ID.
+ */
+function parseEncrypted(encodedValue: string): EncryptedData {
+  if (encodedValue.startsWith(ENCRYPTED_PREFIX)) {
+    const [keyId, salt, iv, authTag, ciphertext] = encodedValue.slice(ENCRYPTED_PREFIX.length).split(':');
+    if (!keyId || !salt || !iv || !authTag || !ciphertext) {
+      throw new Error('Invalid encrypted string format');
+    }
+    return { keyId, salt, iv, authTag, ciphertext };
+  }
+  
+  const [salt, iv, authTag, ciphertext] = encodedValue.slice(LEGACY_PREFIX.length).split(':');
+  if (!salt || !iv || !authTag || !ciphertext) {
+    throw new Error('Invalid encrypted string format');
+  }
+  return { salt, iv, authTag, ciphertext };
 }
 
 /**
@@ -199,22 +313,43 @@ export function decryptString(encodedValue: string): string {
     return encodedValue;
   }
   
-  // Parse encoded string
-  const withoutPrefix = encodedValue.slice(ENCRYPTED_PREFIX.length);
-  const [salt, iv, authTag, ciphertext] = withoutPrefix.split(':');
-  
-  if (!salt || !iv || !authTag || !ciphertext) {
-    throw new Error('Invalid encrypted string format');
-  }
-  
-  return decrypt({ salt, iv, authTag, ciphertext });
+  return decrypt(parseEncrypted(encodedValue));
 }
 
 /**
  * Check if a value is encrypted (has the encryption prefix).
  */
 export function isEncrypted(value: string): boolean {
-  return value?.startsWith(ENCRYPTED_PREFIX) ?? false;
+  return (value?.startsWith(ENCRYPTED_PREFIX) || value?.startsWith(LEGACY_PREFIX)) ?? false;
+}
+
+/**
+ * ID of the key an encrypted value was encrypted with: LEGACY_KEY_ID for
+ * enc:v1 values, null for values that are not encrypted.
+ */
+export function getEncryptionKeyId(value: string): string | null {
+  if (!isEncrypted(value)) return null;
+  if (!value.startsWith(ENCRYPTED_PREFIX)) return LEGACY_KEY_ID;
+  return value.slice(ENCRYPTED_PREFIX.length).split(':')[0] || null;
+}
+
+/**
+ * Whether an encrypted value is on a key other than the primary key
+ * (including legacy values). Plaintext values never need re-encryption.
+ */
+export function needsReEncryption(value: string): boolean {
+  return isEncrypted(value) && getEncryptionKeyId(value) !== getPrimaryKey().id;
+}
+
+/**
+ * Re-encrypt a value with the primary key if it is on any other key.
+ * Values already on the primary key and plaintext are returned unchanged.
+ * 
+ * @throws Error if the value cannot be decrypted with any configured key
+ */
+export function rotateEncryptedString(value: string): string {
+  if (!needsReEncryption(value)) return value;
+  return encryptString(decryptString(value));
 }
 
 // =============================================================================
@@ -284,12 +419,18 @@ export const CO_SPEAKER_PII_FIELDS = [
   'bio',
 ] as const;
 
+// SpeakerConfirmation model PII fields
+export const SPEAKER_CONFIRMATION_PII_FIELDS = [
+  'travelNeeds',
+] as const;
+
 // Type definitions
 export type UserPiiField = typeof USER_PII_FIELDS[number];
 export type SpeakerProfilePiiField = typeof SPEAKER_PROFILE_PII_FIELDS[number];
 export type ReviewerProfilePiiField = typeof REVIEWER_PROFILE_PII_FIELDS[number];
 export type FederatedSpeakerPiiField = typeof FEDERATED_SPEAKER_PII_FIELDS[number];
 export type CoSpeakerPiiField = typeof CO_SPEAKER_PII_FIELDS[number];
+export type SpeakerConfirmationPiiField = typeof SPEAKER_CONFIRMATION_PII_FIELDS[number];
 
 /**
  * Encrypt PII fields in a federated speaker object.
@@ -356,25 +497,31 @@ export function decryptPiiFields<T extends Record<string, unknown>>(
 
 /**
  * Re-encrypt data with a new key.
- * Useful when rotating encryption keys.
+ * Useful when rotating encryption keys outside the configured key ring,
+ * e.g. when preparing a database for a new ENCRYPTION_KEY.
  * 
  * @param encryptedValue - The currently encrypted value
  * @param oldSecret - The old master secret (to decrypt)
  * @param newSecret - The new master secret (to encrypt)
  * @returns Newly encrypted value
+ * @throws Error if the value was not encrypted with the old secret
  */
 export function reEncrypt(
   encryptedValue: string,
   oldSecret: string,
   newSecret: string
 ): string {
-  // Parameters available for future implementation
-  void encryptedValue;
-  void oldSecret;
-  void newSecret;
-  // This would require temporarily setting env vars or accepting secrets as params
-  // For now, this is a placeholder for key rotation functionality
-  throw new Error('Key rotation not yet implemented. Contact support for assistance.');
+  if (!isEncrypted(encryptedValue)) {
+    throw new Error('Value is not encrypted');
+  }
+  
+  const data = parseEncrypted(encryptedValue);
+  if (data.keyId && data.keyId !== getKeyId(oldSecret)) {
+    throw new Error(`Value was encrypted with key ${data.keyId}, not the old key`);
+  }
+  
+  const plaintext = decryptWithKey(data, oldSecret);
+  return encodeEncrypted(encrypt(plaintext, { id: getKeyId(newSecret), secret: newSecret }));
 }
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Session Locations
+ *
+ * Approximate locations for session IP addresses from an offline
+ * MaxMind-format database (GEOIP_DATABASE_PATH), e.g. GeoLite2 City or
+ * Country. Without one, or for addresses it doesn't know, sessions show
+ * only their IP address.
+ */
+
+import type { CityResponse, Reader } from 'maxmind';
+import { config } from '@/lib/env';
+
+let readerPromise: Promise<Reader<CityResponse> | null> | null = null;
+
+function getReader(): Promise<Reader<CityResponse> | null> {
+  const databasePath = config.geoip.databasePath;
+  if (!databasePath) return Promise.resolve(null);
+
+  if (!readerPromise) {
+    readerPromise = import('maxmind')
+      .then(maxmind => maxmind.open<CityResponse>(databasePath))
+      .catch(error => {
+        console.warn(`[Sessions] Could not open GeoIP database at ${databasePath}:`, error);
+        return null;
+      });
+  }
+  return readerPromise;
+}
+
+/**
+ * "City, Country" (or just the country) for an IP address, or null
+ */
+export async function lookupLocation(ipAddress: string | null | undefined): Promise<string | null> {
+  if (!ipAddress) return null;
+
+  const reader = await getReader();
+  if (!reader) return null;
+
+  try {
+    const result = reader.get(ipAddress);
+    const city = result?.city?.names.en;
+    const country = result?.country?.names.en;
+    return [city, country].filter(Boolean).join(', ') || null;
+  } catch {
+    // Not an IP address the database can look up
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Sessions Module Index
+ *
+ * Re-exports session lifetimes and device descriptions, GeoIP locations,
+ * and session tracking, listing and sign-out.
+ */
+
+export {
+  type DeviceType,
+  type DeviceInfo,
+  SESSION_MAX_AGE_SECONDS,
+  SESSION_TOUCH_INTERVAL_MS,
+  SESSION_RETENTION_DAYS,
+  DEVICE_COOKIE,
+  DEVICE_COOKIE_MAX_AGE_SECONDS,
+  parseUserAgent,
+  getDeviceLabel,
+  formatSessionLocation,
+  getSessionExpiry,
+  shouldTouchSession,
+  isSessionActive,
+} from './state';
+
+export { lookupLocation } from './geoip';
+
+export {
+  type SessionRequestContext,
+  type UserSessionListItem,
+  type SessionOwner,
+  getSessionRequestContext,
+  startUserSession,
+  validateUserSession,
+  listUserSessions,
+  revokeUserSession,
+  revokeOtherUserSessions,
+  revokeAllUserSessions,
+  keepUserSession,
+  purgeUserSessions,
+} from './service';
@@ -0,0 +1,397 @@
+/**
+ * Session Service
+ *
+ * Tracks each signed-in browser or device so users and admins can see
+ * where an account is signed in and sign sessions out one at a time.
+ * Sessions are still JWTs; each token carries the ID of its row and is
+ * rejected once the row is revoked, expires or falls behind the user's
+ * session version. Sign-ins from a browser the account hasn't used before
+ * send the user an email.
+ */
+
+import { randomBytes } from 'crypto';
+import { cookies, headers } from 'next/headers';
+import type { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { logActivity } from '@/lib/activity-logger';
+import { getClientIp } from '@/lib/rate-limit';
+import { emailService } from '@/lib/email/email-service';
+import { lookupLocation } from './geoip';
+import {
+  DEVICE_COOKIE,
+  DEVICE_COOKIE_MAX_AGE_SECONDS,
+  SESSION_RETENTION_DAYS,
+  getDeviceLabel,
+  getSessionExpiry,
+  formatSessionLocation,
+  isSessionActive,
+  parseUserAgent,
+  shouldTouchSession,
+  type DeviceType,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SessionRequestContext {
+  userAgent: string | null;
+  ipAddress: string | null;
+  /** Device cookie sent by the browser, if it has one */
+  deviceId: string | null;
+}
+
+export interface UserSessionListItem {
+  id: string;
+  device: string;
+  deviceType: DeviceType;
+  ipAddress: string | null;
+  location: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  /** The session making the request */
+  current: boolean;
+}
+
+export interface SessionOwner {
+  id: string;
+  email: string;
+  name?: string | null;
+  sessionVersion: number;
+}
+
+interface RevokeOptions {
+  /** Who signed the session out, when not the user themselves */
+  actorId?: string;
+  ipAddress?: string | null;
+}
+
+// ============================================================================
+// Request Context
+// ============================================================================
+
+/**
+ * User agent, address and device cookie of the request being handled.
+ * Empty outside a request (e.g. in scheduled jobs).
+ */
+export async function getSessionRequestContext(): Promise<SessionRequestContext> {
+  try {
+    const [headerList, cookieStore] = await Promise.all([headers(), cookies()]);
+    return {
+      userAgent: headerList.get('user-agent')?.slice(0, 500) || null,
+      ipAddress: getClientIp(headerList),
+      deviceId: cookieStore.get(DEVICE_COOKIE)?.value || null,
+    };
+  } catch {
+    return { userAgent: null, ipAddress: null, deviceId: null };
+  }
+}
+
+/**
+ * Give the browser a device cookie if it doesn't have one yet
+ */
+async function rememberDevice(deviceId: string): Promise<void> {
+  try {
+    const cookieStore = await cookies();
+    cookieStore.set(DEVICE_COOKIE, deviceId, {
+      httpOnly: true,
+      secure: (config.app.url || '').startsWith('https://'),
+      sameSite: 'lax',
+      path: '/',
+      maxAge: DEVICE_COOKIE_MAX_AGE_SECONDS,
+    });
+  } catch {
+    // Cookies can only be set while handling a request
+  }
+}
+
+// ============================================================================
+// Sign-In
+// ============================================================================
+
+/**
+ * Record a new session at sign-in and return its ID for the token. The
+ * first sign-in from a browser this account hasn't used before is
+ * emailed to the user, except for the account's very first session.
+ */
+export async function startUserSession(
+  user: SessionOwner,
+  context: SessionRequestContext,
+  now: Date = new Date()
+): Promise<string> {
+  const deviceId = context.deviceId || randomBytes(16).toString('base64url');
+  const [location, knownDevice, previousSessions] = await Promise.all([
+    lookupLocation(context.ipAddress),
+    context.deviceId
+      ? prisma.userSession.findFirst({
+          where: { userId: user.id, deviceId: context.deviceId },
+          select: { id: true },
+        })
+      : null,
+    prisma.userSession.count({ where: { userId: user.id } }),
+  ]);
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      deviceId,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      location,
+      sessionVersion: user.sessionVersion,
+      lastSeenAt: now,
+      expiresAt: getSessionExpiry(now),
+    },
+    select: { id: true },
+  });
+
+  if (!context.deviceId) {
+    await rememberDevice(deviceId);
+  }
+
+  const newDevice = !knownDevice && previousSessions > 0;
+  const device = getDeviceLabel(context.userAgent);
+
+  await logActivity({
+    userId: user.id,
+    action: 'USER_LOGIN',
+    entityType: 'User',
+    entityId: user.id,
+    metadata: { device, location, newDevice },
+    ipAddress: context.ipAddress,
+  });
+
+  if (newDevice) {
+    try {
+      await emailService.sendTemplatedEmail({
+        to: user.email,
+        templateType: 'new_sign_in',
+        variables: {
+          userName: user.name || 'there',
+          device,
+          location: formatSessionLocation(location, context.ipAddress),
+          signedInAt: `${now.toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+          sessionsUrl: `${config.app.url}/account?tab=security`,
+        },
+      });
+    } catch (error) {
+      // Never block sign-in on the alert
+      console.error('[Sessions] Failed to send new sign-in email:', error);
+    }
+  }
+
+  return session.id;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * The role of the user a session signs in, or null once the session has
+ * ended. Refreshes the session's last-seen time and address every few
+ * minutes.
+ */
+export async function validateUserSession(
+  userId: string,
+  sessionId: string,
+  now: Date = new Date()
+): Promise<{ role: UserRole } | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: true,
+      sessionVersion: true,
+      userSessions: {
+        where: { id: sessionId },
+        select: { revokedAt: true, expiresAt: true, sessionVersion: true, lastSeenAt: true, ipAddress: true },
+      },
+    },
+  });
+
+  const session = user?.userSessions[0];
+  if (!user || !session || !isSessionActive(session, user.sessionVersion, now)) {
+    return null;
+  }
+
+  if (shouldTouchSession(session.lastSeenAt, now)) {
+    const context = await getSessionRequestContext();
+    const ipAddress = context.ipAddress ?? session.ipAddress;
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: {
+        lastSeenAt: now,
+        expiresAt: getSessionExpiry(now),
+        ...(ipAddress !== session.ipAddress && {
+          ipAddress,
+          location: await lookupLocation(ipAddress),
+        }),
+      },
+    });
+  }
+
+  return { role: user.role };
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+/**
+ * A user's signed-in sessions, most recently used first
+ */
+export async function listUserSessions(
+  userId: string,
+  currentSessionId?: string | null,
+  now: Date = new Date()
+): Promise<UserSessionListItem[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { sessionVersion: true },
+  });
+  if (!user) return [];
+
+  const sessions = await prisma.userSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: now },
+      sessionVersion: user.sessionVersion,
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+
+  return sessions.map(session => ({
+    id: session.id,
+    device: getDeviceLabel(session.userAgent),
+    deviceType: parseUserAgent(session.userAgent).type,
+    ipAddress: session.ipAddress,
+    location: session.location,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+// ============================================================================
+// Sign-Out
+// ============================================================================
+
+/**
+ * Sign out one of a user's sessions. Returns false if it isn't theirs or
+ * has already ended.
+ */
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string,
+  options: RevokeOptions = {}
+): Promise<boolean> {
+  const session = await prisma.userSession.findFirst({
+    where: { id: sessionId, userId, revokedAt: null },
+    select: { userAgent: true },
+  });
+  if (!session) return false;
+
+  await prisma.userSession.update({
+    where: { id: sessionId },
+    data: { revokedAt: new Date() },
+  });
+
+  await logActivity({
+    userId: options.actorId ?? userId,
+    action: 'SESSION_INVALIDATED',
+    entityType: 'User',
+    entityId: userId,
+    metadata: { scope: 'one', device: getDeviceLabel(session.userAgent) },
+    ipAddress: options.ipAddress,
+  });
+  return true;
+}
+
+/**
+ * Sign out every session of a user except one
+ */
+export async function revokeOtherUserSessions(
+  userId: string,
+  keepSessionId: string | null,
+  options: RevokeOptions = {}
+): Promise<number> {
+  const { count } = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(keepSessionId && { id: { not: keepSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  if (count > 0) {
+    await logActivity({
+      userId: options.actorId ?? userId,
+      action: 'SESSION_INVALIDATED',
+      entityType: 'User',
+      entityId: userId,
+      metadata: { scope: 'others', count },
+      ipAddress: options.ipAddress,
+    });
+  }
+  return count;
+}
+
+/**
+ * Sign a user out everywhere, including sessions from before sessions
+ * were tracked, by bumping their session version
+ */
+export async function revokeAllUserSessions(userId: string, options: RevokeOptions = {}): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { sessionVersion: { increment: 1 } },
+    }),
+    prisma.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+
+  await logActivity({
+    userId: options.actorId ?? userId,
+    action: 'SESSION_INVALIDATED',
+    entityType: 'User',
+    entityId: userId,
+    metadata: { scope: 'all' },
+    ipAddress: options.ipAddress,
+  });
+}
+
+/**
+ * Keep one session signed in after the user's session version was bumped,
+ * e.g. the session that just changed the password
+ */
+export async function keepUserSession(userId: string, sessionId: string, sessionVersion: number): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { sessionVersion },
+  });
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Delete sessions that ended longer ago than the retention period
+ */
+export async function purgeUserSessions(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - SESSION_RETENTION_DAYS * 86400000);
+  const { count } = await prisma.userSession.deleteMany({
+    where: {
+      OR: [
+        { expiresAt: { lt: cutoff } },
+        { revokedAt: { lt: cutoff } },
+      ],
+    },
+  });
+  return count;
+}
@@ -0,0 +1,120 @@
+/**
+ * Session State
+ *
+ * Lifetimes of signed-in sessions and how their browsers and devices are
+ * described. Pure functions only - safe to import from client components.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long a session lasts without being used (the NextAuth default) */
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/** How often a session's last-seen time and address are updated */
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/** How long ended sessions are kept to recognize returning devices */
+export const SESSION_RETENTION_DAYS = 180;
+
+/** Long-lived cookie identifying a browser across sign-ins */
+export const DEVICE_COOKIE = 'cfp-device';
+
+export const DEVICE_COOKIE_MAX_AGE_SECONDS = 2 * 365 * 24 * 60 * 60;
+
+// ============================================================================
+// Devices
+// ============================================================================
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet';
+
+export interface DeviceInfo {
+  browser: string | null;
+  os: string | null;
+  type: DeviceType;
+}
+
+// Order matters: Edge and Opera also say Chrome, Chrome also says Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Browser, operating system and kind of device from a User-Agent header
+ */
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  const ua = userAgent || '';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+
+  let type: DeviceType = 'desktop';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    type = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(ua)) {
+    type = 'mobile';
+  }
+
+  return { browser, os, type };
+}
+
+/**
+ * A short description of a device, e.g. "Chrome on macOS"
+ */
+export function getDeviceLabel(userAgent: string | null | undefined): string {
+  const { browser, os } = parseUserAgent(userAgent);
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Where a session signed in from, e.g. "Berlin, Germany (203.0.113.7)"
+ */
+export function formatSessionLocation(location: string | null, ipAddress: string | null): string {
+  if (location && ipAddress) return `${location} (${ipAddress})`;
+  return location || ipAddress || 'Unknown location';
+}
+
+// ============================================================================
+// Lifetimes
+// ============================================================================
+
+export function getSessionExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + SESSION_MAX_AGE_SECONDS * 1000);
+}
+
+/**
+ * Whether a session's last-seen time is old enough to update
+ */
+export function shouldTouchSession(lastSeenAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS;
+}
+
+/**
+ * Whether a session row still signs its user in. Sessions end when they
+ * are revoked or expire, and all at once when the user's session version
+ * is bumped (role change, password reset, two-factor reset).
+ */
+export function isSessionActive(
+  session: { revokedAt: Date | null; expiresAt: Date; sessionVersion: number },
+  userSessionVersion: number,
+  now: Date = new Date()
+): boolean {
+  return !session.revokedAt &&
+    session.expiresAt > now &&
+    session.sessionVersion === userSessionVersion;
+}
@@ -0,0 +1,231 @@
+/**
+ * Single Sign-On Accounts
+ *
+ * Matching a confirmed SSO identity to a local user. Identities already
+ * linked sign straight in. An unlinked identity is only attached to an
+ * existing account with the same email when the provider is restricted
+ * to that email's domain and vouches for the address - anyone else has
+ * to sign in first and connect the provider themselves, so an IdP user
+ * cannot take over an account just by claiming its email. New accounts
+ * are created only when the provider allows it and public signup is on.
+ */
+
+import type { IdentityProvider, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { encryptPiiFields, USER_PII_FIELDS } from '@/lib/security/encryption';
+import { logActivity } from '@/lib/activity-logger';
+import { getRoleMappings } from './providers';
+import {
+  SsoError,
+  getSsoAccountProvider,
+  isEmailDomainAllowed,
+  mapClaimsToRole,
+  type SsoIdentity,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SsoUser {
+  id: string;
+  role: UserRole;
+}
+
+export interface ResolveSsoUserOptions {
+  /** Signed-in user connecting the provider to their account */
+  linkUserId?: string;
+}
+
+const USER_SELECT = { id: true, role: true } as const;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function linkAccount(
+  provider: IdentityProvider,
+  identity: SsoIdentity,
+  userId: string
+): Promise<void> {
+  await prisma.account.create({
+    data: {
+      userId,
+      type: provider.type.toLowerCase(),
+      provider: getSsoAccountProvider(provider.id),
+      providerAccountId: identity.subject,
+    },
+  });
+}
+
+/**
+ * Apply the provider's role mapping. Only a matching mapping changes the
+ * role; users the mapping says nothing about keep theirs.
+ */
+async function syncRole(
+  provider: IdentityProvider,
+  identity: SsoIdentity,
+  user: SsoUser
+): Promise<SsoUser> {
+  const role = mapClaimsToRole(identity.claims, provider.roleClaim, getRoleMappings(provider));
+  if (!role || role === user.role) return user;
+
+  await prisma.user.update({ where: { id: user.id }, data: { role } });
+  await logActivity({
+    userId: user.id,
+    action: 'USER_ROLE_CHANGED',
+    entityType: 'User',
+    entityId: user.id,
+    metadata: { previousRole: user.role, newRole: role, source: 'sso', provider: provider.slug },
+  });
+  return { ...user, role };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * The local user for an SSO identity, linking or creating one where the
+ * rules above allow. Throws SsoError when the sign-in is refused.
+ */
+export async function resolveSsoUser(
+  provider: IdentityProvider,
+  identity: SsoIdentity,
+  options: ResolveSsoUserOptions = {}
+): Promise<SsoUser> {
+  if (provider.allowedDomains.length > 0) {
+    if (!identity.email) throw new SsoError('SsoEmailMissing');
+    if (!isEmailDomainAllowed(identity.email, provider.allowedDomains)) {
+      throw new SsoError('SsoDomainNotAllowed');
+    }
+  }
+
+  const account = await prisma.account.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider: getSsoAccountProvider(provider.id),
+        providerAccountId: identity.subject,
+      },
+    },
+    select: { user: { select: USER_SELECT } },
+  });
+
+  // Connecting the provider from account settings
+  if (options.linkUserId) {
+    if (account && account.user.id !== options.linkUserId) {
+      throw new SsoError('SsoAlreadyLinked');
+    }
+    const user = await prisma.user.findUnique({ where: { id: options.linkUserId }, select: USER_SELECT });
+    if (!user) throw new SsoError('SsoFailed');
+    if (!account) {
+      await linkAccount(provider, identity, user.id);
+    }
+    return syncRole(provider, identity, user);
+  }
+
+  if (account) {
+    return syncRole(provider, identity, account.user);
+  }
+
+  if (!identity.email) throw new SsoError('SsoEmailMissing');
+
+  const existing = await prisma.user.findFirst({
+    where: { email: { equals: identity.email, mode: 'insensitive' } },
+    select: USER_SELECT,
+  });
+
+  if (existing) {
+    // Only a domain-restricted provider that vouches for the address may
+    // claim an existing account by email
+    if (!identity.emailVerified || provider.allowedDomains.length === 0) {
+      throw new SsoError('SsoAccountExists');
+    }
+    await linkAccount(provider, identity, existing.id);
+    return syncRole(provider, identity, existing);
+  }
+
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: 'default' },
+    select: { allowPublicSignup: true },
+  });
+  if (!provider.jitProvisioning || !settings?.allowPublicSignup || !identity.emailVerified) {
+    throw new SsoError('SsoSignupDisabled');
+  }
+
+  const role = mapClaimsToRole(identity.claims, provider.roleClaim, getRoleMappings(provider))
+    ?? provider.defaultRole;
+  const encrypted = encryptPiiFields({ name: identity.name ?? undefined }, USER_PII_FIELDS);
+  const user = await prisma.user.create({
+    data: {
+      email: identity.email,
+      name: encrypted.name as string | undefined,
+      role,
+      emailVerified: new Date(),
+      accounts: {
+        create: {
+          type: provider.type.toLowerCase(),
+          provider: getSsoAccountProvider(provider.id),
+          providerAccountId: identity.subject,
+        },
+      },
+    },
+    select: USER_SELECT,
+  });
+
+  await logActivity({
+    userId: user.id,
+    action: 'USER_REGISTERED',
+    entityType: 'User',
+    entityId: user.id,
+    metadata: { role, source: 'sso', provider: provider.slug },
+  });
+
+  return user;
+}
+
+// ============================================================================
+// Connections
+// ============================================================================
+
+export interface SsoConnection {
+  slug: string;
+  name: string;
+  connected: boolean;
+}
+
+/**
+ * Enabled providers and whether the user has connected each one
+ */
+export async function getSsoConnections(userId: string): Promise<SsoConnection[]> {
+  const [providers, accounts] = await Promise.all([
+    prisma.identityProvider.findMany({
+      where: { enabled: true },
+      select: { id: true, slug: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.account.findMany({
+      where: { userId, provider: { startsWith: 'sso:' } },
+      select: { provider: true },
+    }),
+  ]);
+
+  const linked = new Set(accounts.map(account => account.provider));
+  return providers.map(provider => ({
+    slug: provider.slug,
+    name: provider.name,
+    connected: linked.has(getSsoAccountProvider(provider.id)),
+  }));
+}
+
+/**
+ * Whether the user could still sign in without the given account:
+ * with a password or through another connected account
+ */
+export async function canDisconnectAccount(userId: string, accountProvider: string): Promise<boolean> {
+  const [user, otherAccounts] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { passwordHash: true } }),
+    prisma.account.count({ where: { userId, provider: { not: accountProvider } } }),
+  ]);
+  return !!user?.passwordHash || otherAccounts > 0;
+}
@@ -0,0 +1,172 @@
+/**
+ * Single Sign-On Flow State
+ *
+ * What a sign-in started with has to survive the round trip to the
+ * identity provider. It is kept in a short-lived, HMAC-signed cookie
+ * keyed from NEXTAUTH_SECRET, so nothing is stored server-side. After
+ * the provider confirms the user, a one-minute login ticket carries the
+ * user ID into the NextAuth "sso" credentials provider. Users with
+ * two-factor authentication get a longer ticket in a second cookie while
+ * they enter their code.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '@/lib/env';
+import { SsoError } from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SsoFlowState {
+  providerId: string;
+  /** OIDC state / SAML RelayState, echoed back by the provider */
+  state: string;
+  /** OIDC nonce bound into the ID token */
+  nonce?: string;
+  /** OIDC PKCE code verifier */
+  codeVerifier?: string;
+  /** SAML AuthnRequest ID, matched against InResponseTo */
+  requestId?: string;
+  /** Where to go after signing in (a path on this site) */
+  callbackUrl: string;
+  /** Set when a signed-in user connects the provider to their account */
+  linkUserId?: string;
+}
+
+export const SSO_STATE_COOKIE = 'cfp-sso-state';
+
+/** How long users have to finish signing in at the provider */
+export const SSO_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+/** Cookie holding the login ticket while a user enters their two-factor code */
+export const SSO_TWO_FACTOR_COOKIE = 'cfp-sso-two-factor';
+
+/** How long users have to enter their two-factor code */
+export const SSO_TWO_FACTOR_MAX_AGE_SECONDS = 5 * 60;
+
+const LOGIN_TICKET_TTL_MS = 60 * 1000;
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+function sign(purpose: string, payload: string): string {
+  const key = createHmac('sha256', config.nextAuthSecret).update(purpose).digest();
+  return createHmac('sha256', key).update(payload).digest('base64url');
+}
+
+function verifySignature(purpose: string, payload: string, signature: string): boolean {
+  const expected = sign(purpose, payload);
+  return signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+export function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * A path on this site to return to; anything else falls back to the
+ * dashboard so the flow cannot be used as an open redirect
+ */
+export function safeCallbackUrl(url: string | null | undefined): string {
+  if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')) {
+    return '/dashboard';
+  }
+  return url;
+}
+
+/**
+ * Auth error page for a failed sign-in. Refusals show their own message;
+ * anything unexpected is logged and shown as a generic failure.
+ */
+export function getSsoErrorUrl(error: unknown): string {
+  if (error instanceof SsoError) {
+    console.warn(`[SSO] Sign-in refused (${error.code}): ${error.message}`);
+  } else {
+    console.error('[SSO] Sign-in failed:', error);
+  }
+  const code = error instanceof SsoError ? error.code : 'SsoFailed';
+  return `${config.app.url}/auth/error?error=${code}`;
+}
+
+// ============================================================================
+// Flow Cookie
+// ============================================================================
+
+/**
+ * Cookie value for a sign-in in progress
+ */
+export function encodeFlowState(flow: SsoFlowState, now: Date = new Date()): string {
+  const payload = Buffer.from(JSON.stringify({
+    ...flow,
+    expiresAt: now.getTime() + SSO_STATE_MAX_AGE_SECONDS * 1000,
+  })).toString('base64url');
+  return `${payload}.${sign('sso-flow-state', payload)}`;
+}
+
+/**
+ * The sign-in in progress, or null if the cookie is missing, forged or
+ * expired
+ */
+export function decodeFlowState(value: string | undefined, now: Date = new Date()): SsoFlowState | null {
+  if (!value) return null;
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature || !verifySignature('sso-flow-state', payload, signature)) {
+    return null;
+  }
+
+  try {
+    const { expiresAt, ...flow } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof expiresAt !== 'number' || expiresAt < now.getTime()) return null;
+    return flow as SsoFlowState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Options for the flow cookie. SAML responses arrive as a cross-site POST,
+ * which only carries SameSite=None cookies, so those need HTTPS.
+ */
+export function flowCookieOptions() {
+  const secure = (config.app.url || '').startsWith('https://');
+  return {
+    httpOnly: true,
+    secure,
+    sameSite: secure ? 'none' as const : 'lax' as const,
+    path: '/api/auth/sso',
+    maxAge: SSO_STATE_MAX_AGE_SECONDS,
+  };
+}
+
+// ============================================================================
+// Login Tickets
+// ============================================================================
+
+/**
+ * One-minute ticket exchanged for a session by the "sso" credentials
+ * provider. Only ever handed to NextAuth server-side, or kept in an
+ * httpOnly cookie for the two-factor step.
+ */
+export function createLoginTicket(
+  userId: string,
+  now: Date = new Date(),
+  ttlMs: number = LOGIN_TICKET_TTL_MS
+): string {
+  const payload = `${userId}.${now.getTime() + ttlMs}`;
+  return `${payload}.${sign('sso-login-ticket', payload)}`;
+}
+
+/**
+ * The user a ticket signs in, or null if it is invalid or expired
+ */
+export function verifyLoginTicket(ticket: string, now: Date = new Date()): string | null {
+  const parts = ticket.split('.');
+  if (parts.length !== 3) return null;
+  const [userId, expiresAt, signature] = parts;
+  if (!verifySignature('sso-login-ticket', `${userId}.${expiresAt}`, signature)) return null;
+  if (!(Number(expiresAt) > now.getTime())) return null;
+  return userId;
+}
@@ -0,0 +1,77 @@
+/**
+ * Single Sign-On Module Index
+ *
+ * Re-exports identity provider state, the flow cookie and login tickets,
+ * the OIDC and SAML clients, provider loading and account resolution.
+ */
+
+export {
+  type RoleMapping,
+  type SsoIdentity,
+  type SsoErrorCode,
+  SsoError,
+  IDENTITY_PROVIDER_TYPE_LABELS,
+  SSO_ERROR_MESSAGES,
+  SSO_ROLE_PRIORITY,
+  IDENTITY_PROVIDER_REQUIRED_FIELDS,
+  getMissingProviderFields,
+  getClaimValues,
+  mapClaimsToRole,
+  normalizeDomains,
+  getEmailDomain,
+  isEmailDomainAllowed,
+  getSsoAccountProvider,
+} from './state';
+
+export {
+  type SsoFlowState,
+  SSO_STATE_COOKIE,
+  SSO_STATE_MAX_AGE_SECONDS,
+  SSO_TWO_FACTOR_COOKIE,
+  SSO_TWO_FACTOR_MAX_AGE_SECONDS,
+  randomToken,
+  safeCallbackUrl,
+  getSsoErrorUrl,
+  encodeFlowState,
+  decodeFlowState,
+  flowCookieOptions,
+  createLoginTicket,
+  verifyLoginTicket,
+} from './flow';
+
+export {
+  type OidcClient,
+  discoverOidc,
+  getOidcAuthorizationUrl,
+  exchangeOidcCode,
+} from './oidc';
+
+export {
+  type SamlClient,
+  samlProfileToIdentity,
+  createSamlRequestId,
+  getSamlAuthorizationUrl,
+  validateSamlResponse,
+  getSamlMetadata,
+} from './saml';
+
+export {
+  type SsoProviderOption,
+  type SsoProviderUrls,
+  getEnabledSsoProviders,
+  getEnabledIdentityProvider,
+  getSsoProviderUrls,
+  getRoleMappings,
+  toIdentityProviderResponse,
+  toOidcClient,
+  toSamlClient,
+} from './providers';
+
+export {
+  type SsoUser,
+  type ResolveSsoUserOptions,
+  type SsoConnection,
+  resolveSsoUser,
+  getSsoConnections,
+  canDisconnectAccount,
+} from './accounts';
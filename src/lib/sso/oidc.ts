@@ -0,0 +1,196 @@
+/**
+ * OpenID Connect
+ *
+ * Authorization code flow with PKCE against any OIDC provider: discovery,
+ * the authorization URL, the code exchange, and ID token verification
+ * (signature from the provider's JWKS, issuer, audience and nonce).
+ */
+
+import { createHash } from 'crypto';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { SsoError, type SsoIdentity } from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OidcClient {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  redirectUri: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const discoveryCache = new Map<string, { document: OidcDiscovery; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * The provider's configuration from /.well-known/openid-configuration,
+ * cached for an hour
+ */
+export async function discoverOidc(issuer: string): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.document;
+  }
+
+  const response = await fetch(`${trimSlash(issuer)}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new SsoError('SsoUnavailable', `OIDC discovery failed with HTTP ${response.status}`);
+  }
+
+  const document = await response.json() as OidcDiscovery;
+  if (trimSlash(document.issuer ?? '') !== trimSlash(issuer) ||
+      !document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new SsoError('SsoUnavailable', 'OIDC discovery document does not match the configured issuer');
+  }
+
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+function getJwks(jwksUri: string) {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Where to send the user to sign in at the provider
+ */
+export async function getOidcAuthorizationUrl(
+  client: OidcClient,
+  params: { state: string; nonce: string; codeVerifier: string }
+): Promise<string> {
+  const discovery = await discoverOidc(client.issuer);
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', client.clientId);
+  url.searchParams.set('redirect_uri', client.redirectUri);
+  url.searchParams.set('scope', client.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', createCodeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+// ============================================================================
+// Callback
+// ============================================================================
+
+function toIdentity(claims: Record<string, unknown>): SsoIdentity {
+  const name = typeof claims.name === 'string'
+    ? claims.name
+    : [claims.given_name, claims.family_name].filter(part => typeof part === 'string').join(' ');
+
+  return {
+    subject: String(claims.sub),
+    email: typeof claims.email === 'string' ? claims.email : null,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: name || null,
+    claims,
+  };
+}
+
+/**
+ * Exchange the authorization code and verify the ID token. Claims from
+ * the userinfo endpoint are added when the provider has one, as many
+ * providers only put email and groups there.
+ */
+export async function exchangeOidcCode(
+  client: OidcClient,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<SsoIdentity> {
+  const discovery = await discoverOidc(client.issuer);
+
+  const tokenResponse = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      Authorization: `Basic ${Buffer.from(
+        `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`
+      ).toString('base64')}`,
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: client.redirectUri,
+      code_verifier: params.codeVerifier,
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!tokenResponse.ok) {
+    throw new SsoError('SsoFailed', `OIDC token exchange failed with HTTP ${tokenResponse.status}`);
+  }
+
+  const tokens = await tokenResponse.json() as { id_token?: string; access_token?: string };
+  if (!tokens.id_token) {
+    throw new SsoError('SsoFailed', 'OIDC token response has no ID token');
+  }
+
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(tokens.id_token, getJwks(discovery.jwks_uri), {
+      issuer: discovery.issuer,
+      audience: client.clientId,
+    }));
+  } catch (error) {
+    throw new SsoError('SsoFailed', `OIDC ID token is invalid: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!payload.sub || payload.nonce !== params.nonce) {
+    throw new SsoError('SsoFailed', 'OIDC ID token does not match this sign-in');
+  }
+
+  let userinfo: Record<string, unknown> = {};
+  if (discovery.userinfo_endpoint && tokens.access_token) {
+    const response = await fetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) {
+      const claims = await response.json() as Record<string, unknown>;
+      // Userinfo for another subject must be ignored (OIDC Core 5.3.2)
+      if (claims.sub === payload.sub) {
+        userinfo = claims;
+      }
+    }
+  }
+
+  return toIdentity({ ...userinfo, ...payload });
+}
@@ -0,0 +1,128 @@
+/**
+ * Identity Providers
+ *
+ * Loading configured identity providers and turning them into OIDC or
+ * SAML clients. Client secrets are stored encrypted and only decrypted
+ * here, when a sign-in needs them.
+ */
+
+import type { IdentityProvider, IdentityProviderType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { decryptString, isEncrypted } from '@/lib/security/encryption';
+import { SSO_ROLE_PRIORITY, SsoError, type RoleMapping } from './state';
+import type { OidcClient } from './oidc';
+import type { SamlClient } from './saml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the sign-in page needs to show a provider */
+export interface SsoProviderOption {
+  slug: string;
+  name: string;
+  type: IdentityProviderType;
+}
+
+export interface SsoProviderUrls {
+  /** Starts a sign-in (or, with ?link=1, connects the provider) */
+  loginUrl: string;
+  /** OIDC redirect URI / SAML assertion consumer service URL */
+  callbackUrl: string;
+  /** SAML service provider metadata; also the SP entity ID */
+  metadataUrl: string;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Enabled providers for the sign-in page, in name order
+ */
+export async function getEnabledSsoProviders(): Promise<SsoProviderOption[]> {
+  return prisma.identityProvider.findMany({
+    where: { enabled: true },
+    select: { slug: true, name: true, type: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * An enabled provider by slug, or null
+ */
+export async function getEnabledIdentityProvider(slug: string): Promise<IdentityProvider | null> {
+  return prisma.identityProvider.findFirst({ where: { slug, enabled: true } });
+}
+
+export function getSsoProviderUrls(slug: string): SsoProviderUrls {
+  const base = `${config.app.url}/api/auth/sso/${encodeURIComponent(slug)}`;
+  return {
+    loginUrl: `${base}/login`,
+    callbackUrl: `${base}/callback`,
+    metadataUrl: `${base}/metadata`,
+  };
+}
+
+/**
+ * A provider as shown to admins: the secret replaced by whether one is
+ * set, plus the URLs to register with the identity provider
+ */
+export function toIdentityProviderResponse(provider: IdentityProvider) {
+  const { clientSecret, ...rest } = provider;
+  return {
+    ...rest,
+    clientSecretSet: !!clientSecret,
+    urls: getSsoProviderUrls(provider.slug),
+  };
+}
+
+/**
+ * Stored role mappings, skipping malformed entries
+ */
+export function getRoleMappings(provider: Pick<IdentityProvider, 'roleMappings'>): RoleMapping[] {
+  if (!Array.isArray(provider.roleMappings)) return [];
+  return provider.roleMappings.flatMap(entry => {
+    const mapping = entry as Partial<RoleMapping> | null;
+    return mapping && typeof mapping.value === 'string' &&
+      SSO_ROLE_PRIORITY.includes(mapping.role as RoleMapping['role'])
+      ? [{ value: mapping.value, role: mapping.role as RoleMapping['role'] }]
+      : [];
+  });
+}
+
+// ============================================================================
+// Clients
+// ============================================================================
+
+export function toOidcClient(provider: IdentityProvider): OidcClient {
+  if (provider.type !== 'OIDC' || !provider.issuer || !provider.clientId || !provider.clientSecret) {
+    throw new SsoError('SsoUnavailable', `Identity provider ${provider.slug} is not fully configured`);
+  }
+
+  return {
+    issuer: provider.issuer,
+    clientId: provider.clientId,
+    clientSecret: isEncrypted(provider.clientSecret)
+      ? decryptString(provider.clientSecret)
+      : provider.clientSecret,
+    scopes: provider.scopes,
+    redirectUri: getSsoProviderUrls(provider.slug).callbackUrl,
+  };
+}
+
+export function toSamlClient(provider: IdentityProvider): SamlClient {
+  if (provider.type !== 'SAML' || !provider.ssoUrl || !provider.idpCertificate) {
+    throw new SsoError('SsoUnavailable', `Identity provider ${provider.slug} is not fully configured`);
+  }
+
+  const urls = getSsoProviderUrls(provider.slug);
+  return {
+    ssoUrl: provider.ssoUrl,
+    idpEntityId: provider.idpEntityId,
+    idpCertificate: provider.idpCertificate,
+    spEntityId: urls.metadataUrl,
+    callbackUrl: urls.callbackUrl,
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * SAML 2.0
+ *
+ * SP-initiated sign-in with the HTTP-Redirect binding and responses on
+ * the HTTP-POST binding, via node-saml. Assertions must be signed with
+ * the configured IdP certificate, addressed to this service provider and
+ * in response to the request this browser started (IdP-initiated sign-in
+ * is refused).
+ */
+
+import {
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+  type CacheProvider,
+  type Profile,
+} from '@node-saml/node-saml';
+import { SsoError, type SsoIdentity } from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SamlClient {
+  ssoUrl: string;
+  idpEntityId: string | null;
+  idpCertificate: string;
+  /** This service provider's entity ID (also the expected audience) */
+  spEntityId: string;
+  /** Assertion consumer service URL */
+  callbackUrl: string;
+}
+
+const EMAIL_ATTRIBUTES = [
+  'email',
+  'mail',
+  'urn:oid:0.9.2342.19200300.100.1.3',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+];
+
+const NAME_ATTRIBUTES = [
+  'displayName',
+  'name',
+  'urn:oid:2.16.840.1.113730.3.1.241',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A cache that knows only the one request this browser started, so
+ * InResponseTo is checked without server-side state
+ */
+function singleRequestCache(requestId: string | undefined): CacheProvider {
+  return {
+    saveAsync: async (_key, value) => ({ value, createdAt: Date.now() }),
+    getAsync: async (key) => (requestId && key === requestId ? requestId : null),
+    removeAsync: async (key) => key,
+  };
+}
+
+function createSaml(client: SamlClient, options: { requestId?: string } = {}): SAML {
+  return new SAML({
+    entryPoint: client.ssoUrl,
+    issuer: client.spEntityId,
+    audience: client.spEntityId,
+    callbackUrl: client.callbackUrl,
+    idpCert: client.idpCertificate,
+    idpIssuer: client.idpEntityId || undefined,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    validateInResponseTo: ValidateInResponseTo.always,
+    cacheProvider: singleRequestCache(options.requestId),
+    generateUniqueId: options.requestId ? () => options.requestId! : undefined,
+    acceptedClockSkewMs: 60_000,
+    identifierFormat: null,
+    disableRequestedAuthnContext: true,
+  });
+}
+
+function firstString(value: unknown): string | null {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : null;
+}
+
+/**
+ * Identity from a validated SAML profile. Attributes are read from the
+ * profile's attribute statement, falling back to common attribute names.
+ */
+export function samlProfileToIdentity(profile: Profile): SsoIdentity {
+  const attributes = {
+    ...(profile.attributes && typeof profile.attributes === 'object'
+      ? profile.attributes as Record<string, unknown>
+      : {}),
+  };
+  const find = (names: string[]) =>
+    names.map(name => firstString(attributes[name] ?? profile[name])).find(Boolean) ?? null;
+
+  const email = find(EMAIL_ATTRIBUTES) ??
+    (profile.nameIDFormat?.endsWith(':emailAddress') ? profile.nameID : null);
+
+  return {
+    subject: profile.nameID,
+    email,
+    // The IdP is the directory the admin configured; it vouches for the address
+    emailVerified: email !== null,
+    name: find(NAME_ATTRIBUTES),
+    claims: attributes,
+  };
+}
+
+// ============================================================================
+// Flow
+// ============================================================================
+
+/**
+ * A SAML request ID; must not start with a digit
+ */
+export function createSamlRequestId(token: string): string {
+  return `_${token}`;
+}
+
+/**
+ * Where to send the user to sign in at the IdP
+ */
+export async function getSamlAuthorizationUrl(
+  client: SamlClient,
+  params: { relayState: string; requestId: string }
+): Promise<string> {
+  return createSaml(client, { requestId: params.requestId })
+    .getAuthorizeUrlAsync(params.relayState, undefined, {});
+}
+
+/**
+ * Validate the IdP's POSTed response against the request this browser
+ * started
+ */
+export async function validateSamlResponse(
+  client: SamlClient,
+  params: { samlResponse: string; requestId: string }
+): Promise<SsoIdentity> {
+  let profile: Profile | null;
+  try {
+    ({ profile } = await createSaml(client, { requestId: params.requestId })
+      .validatePostResponseAsync({ SAMLResponse: params.samlResponse }));
+  } catch (error) {
+    throw new SsoError('SsoFailed', `SAML response is invalid: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!profile?.nameID) {
+    throw new SsoError('SsoFailed', 'SAML response has no NameID');
+  }
+  return samlProfileToIdentity(profile);
+}
+
+/**
+ * Service provider metadata to register with the IdP
+ */
+export function getSamlMetadata(client: Pick<SamlClient, 'spEntityId' | 'callbackUrl'>): string {
+  return generateServiceProviderMetadata({
+    issuer: client.spEntityId,
+    callbackUrl: client.callbackUrl,
+    identifierFormat: null,
+    wantAssertionsSigned: true,
+  });
+}
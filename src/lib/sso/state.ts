@@ -0,0 +1,176 @@
+/**
+ * Single Sign-On State
+ *
+ * Labels, claim-to-role mapping and domain rules for identity providers.
+ * Pure functions only - safe to import from client components.
+ */
+
+import type { IdentityProviderType, UserRole } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A claim (OIDC) or attribute (SAML) value that grants a role */
+export interface RoleMapping {
+  value: string;
+  role: UserRole;
+}
+
+/** Who the identity provider says signed in */
+export interface SsoIdentity {
+  /** Stable ID at the provider: OIDC `sub` or SAML NameID */
+  subject: string;
+  email: string | null;
+  /** Whether the provider vouches for the email address */
+  emailVerified: boolean;
+  name: string | null;
+  /** All claims / attributes, for role mapping */
+  claims: Record<string, unknown>;
+}
+
+export type SsoErrorCode =
+  | 'SsoUnavailable'
+  | 'SsoFailed'
+  | 'SsoEmailMissing'
+  | 'SsoDomainNotAllowed'
+  | 'SsoAccountExists'
+  | 'SsoSignupDisabled'
+  | 'SsoAlreadyLinked';
+
+/**
+ * A sign-in the app refuses; the code is shown on the auth error page
+ */
+export class SsoError extends Error {
+  constructor(public code: SsoErrorCode, message?: string) {
+    super(message ?? SSO_ERROR_MESSAGES[code]);
+    this.name = 'SsoError';
+  }
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+export const IDENTITY_PROVIDER_TYPE_LABELS: Record<IdentityProviderType, string> = {
+  OIDC: 'OpenID Connect',
+  SAML: 'SAML 2.0',
+};
+
+export const SSO_ERROR_MESSAGES: Record<SsoErrorCode, string> = {
+  SsoUnavailable: 'This sign-in method is not available.',
+  SsoFailed: 'The identity provider did not confirm your sign-in. Please try again.',
+  SsoEmailMissing: 'The identity provider did not share an email address for your account.',
+  SsoDomainNotAllowed: 'Your email domain is not allowed to sign in with this provider.',
+  SsoAccountExists: 'An account with this email already exists. Sign in with your password, then connect this provider from your account settings.',
+  SsoSignupDisabled: 'No account exists for this email. Please ask an organizer for an invitation.',
+  SsoAlreadyLinked: 'This identity is already connected to another account.',
+};
+
+/** Settings each provider type needs before it can sign anyone in */
+export const IDENTITY_PROVIDER_REQUIRED_FIELDS: Record<IdentityProviderType, Array<{ field: string; label: string }>> = {
+  OIDC: [
+    { field: 'issuer', label: 'Issuer URL' },
+    { field: 'clientId', label: 'Client ID' },
+    { field: 'clientSecret', label: 'Client secret' },
+  ],
+  SAML: [
+    { field: 'ssoUrl', label: 'SSO URL' },
+    { field: 'idpCertificate', label: 'IdP certificate' },
+  ],
+};
+
+/**
+ * Labels of the required settings a provider is missing
+ */
+export function getMissingProviderFields(
+  type: IdentityProviderType,
+  values: Record<string, unknown>
+): string[] {
+  return IDENTITY_PROVIDER_REQUIRED_FIELDS[type]
+    .filter(({ field }) => typeof values[field] !== 'string' || !(values[field] as string).trim())
+    .map(({ label }) => label);
+}
+
+// ============================================================================
+// Role Mapping
+// ============================================================================
+
+/** Roles from least to most privileged */
+export const SSO_ROLE_PRIORITY: UserRole[] = ['USER', 'SPEAKER', 'REVIEWER', 'ORGANIZER', 'ADMIN'];
+
+/**
+ * Values of a claim as strings. Dotted names read nested claims
+ * (e.g. "realm_access.roles"); arrays give one value per entry.
+ */
+export function getClaimValues(claims: Record<string, unknown>, claimName: string): string[] {
+  let value: unknown = claimName in claims ? claims[claimName] : undefined;
+  if (value === undefined && claimName.includes('.')) {
+    value = claimName.split('.').reduce<unknown>(
+      (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+      claims
+    );
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter(entry => typeof entry === 'string' || typeof entry === 'number' || typeof entry === 'boolean')
+    .map(entry => String(entry));
+}
+
+/**
+ * The most privileged role whose mapped value appears in the role claim,
+ * or null when none does
+ */
+export function mapClaimsToRole(
+  claims: Record<string, unknown>,
+  roleClaim: string | null,
+  mappings: RoleMapping[]
+): UserRole | null {
+  if (!roleClaim || mappings.length === 0) return null;
+
+  const values = new Set(getClaimValues(claims, roleClaim));
+  const granted = mappings.filter(mapping => values.has(mapping.value)).map(mapping => mapping.role);
+  if (granted.length === 0) return null;
+
+  return granted.reduce((best, role) =>
+    SSO_ROLE_PRIORITY.indexOf(role) > SSO_ROLE_PRIORITY.indexOf(best) ? role : best
+  );
+}
+
+// ============================================================================
+// Domains
+// ============================================================================
+
+/**
+ * Lowercased domains without "@" or duplicates
+ */
+export function normalizeDomains(domains: string[]): string[] {
+  return [...new Set(
+    domains.map(domain => domain.trim().toLowerCase().replace(/^@/, '')).filter(Boolean)
+  )];
+}
+
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at > 0 && at < email.length - 1 ? email.slice(at + 1).toLowerCase() : null;
+}
+
+/**
+ * Whether an email may sign in with a provider; any domain when the
+ * provider has no restriction
+ */
+export function isEmailDomainAllowed(email: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) return true;
+  const domain = getEmailDomain(email);
+  return domain !== null && normalizeDomains(allowedDomains).includes(domain);
+}
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+/** Account.provider for users linked to an identity provider */
+export function getSsoAccountProvider(identityProviderId: string): string {
+  return `sso:${identityProviderId}`;
+}
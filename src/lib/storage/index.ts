@@ -13,8 +13,10 @@ export {
   StorageError,
   StoragePaths,
   MIME_EXTENSIONS,
+  SUBMISSION_MATERIAL_MIME_TYPES,
   getExtensionFromMime,
   validateFile,
+  validateMagicBytes,
 } from './storage-provider';
 
 // Local storage implementation
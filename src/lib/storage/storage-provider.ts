@@ -181,6 +181,16 @@ export const StoragePaths = {
   
   /** Temporary upload path */
   temp: (filename: string) => `temp/${filename}`,
+  
+  /**
+   * Storage path of a file served by the files route, or null for
+   * external URLs
+   */
+  fromUrl: (url: string): string | null => {
+    const pathname = /^https?:\/\//i.test(url) ? new URL(url).pathname : url;
+    const match = pathname.match(/^\/api\/files\/(.+)$/);
+    return match ? decodeURIComponent(match[1]) : null;
+  },
 };
 
 /**
@@ -202,6 +212,20 @@ export const MIME_EXTENSIONS: Record<string, string> = {
   'video/webm': '.webm',
 };
 
+/**
+ * MIME types accepted for submission materials
+ */
+export const SUBMISSION_MATERIAL_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.oasis.opendocument.presentation',
+  'video/mp4',
+  'video/webm',
+  'image/jpeg',
+  'image/png',
+];
+
 /**
  * Get file extension from MIME type
  */
@@ -233,3 +257,50 @@ export function validateFile(
     );
   }
 }
+
+/**
+ * Magic byte signatures for file type validation
+ * SECURITY: Validates actual file content matches claimed type
+ */
+const MAGIC_BYTES: Record<string, { bytes: number[]; offset?: number }[]> = {
+  'application/pdf': [{ bytes: [0x25, 0x50, 0x44, 0x46] }], // %PDF
+  'image/jpeg': [{ bytes: [0xFF, 0xD8, 0xFF] }],
+  'image/png': [{ bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] }],
+  'image/gif': [{ bytes: [0x47, 0x49, 0x46, 0x38] }], // GIF8
+  'image/webp': [{ bytes: [0x52, 0x49, 0x46, 0x46], offset: 0 }, { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 }], // RIFF...WEBP
+  'video/mp4': [{ bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 }], // ftyp at offset 4
+};
+
+/**
+ * Validate file content matches expected MIME type using magic bytes
+ * SECURITY: Prevents type spoofing where clients send malicious content
+ * with an incorrect MIME type header
+ * 
+ * @returns true if file matches expected type, or if no signature check is available
+ */
+export function validateMagicBytes(buffer: Buffer, mimeType: string): boolean {
+  const signatures = MAGIC_BYTES[mimeType];
+  
+  // If no signature defined for this type, allow (can't validate)
+  if (!signatures) {
+    return true;
+  }
+  
+  // Check all required signatures
+  for (const sig of signatures) {
+    const offset = sig.offset || 0;
+    
+    // Ensure buffer is long enough
+    if (buffer.length < offset + sig.bytes.length) {
+      return false;
+    }
+    
+    // Check bytes match
+    const matches = sig.bytes.every((byte, i) => buffer[offset + i] === byte);
+    if (!matches) {
+      return false;
+    }
+  }
+  
+  return true;
+}
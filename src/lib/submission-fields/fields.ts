@@ -0,0 +1,262 @@
+/**
+ * Submission Fields
+ *
+ * Validation and display of answers to the extra questions organizers add
+ * to an event's submission form. Answers are stored on the submission as a
+ * JSON object keyed by field id. Pure functions only - safe to import from
+ * client components.
+ */
+
+import type { SubmissionFieldType } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SubmissionFieldDefinition {
+  id: string;
+  label: string;
+  description?: string | null;
+  type: SubmissionFieldType;
+  required: boolean;
+  options: string[];
+  maxLength?: number | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+export type SubmissionFieldValue = string | string[] | number | boolean;
+
+export type SubmissionFieldValues = Record<string, SubmissionFieldValue>;
+
+export interface SubmissionFieldAnswer {
+  fieldId: string;
+  label: string;
+  type: SubmissionFieldType;
+  value: SubmissionFieldValue | null;
+}
+
+export interface SubmissionFieldValidation {
+  values: SubmissionFieldValues;
+  /** Error message per field id; empty when every answer is valid */
+  errors: Record<string, string>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SUBMISSION_FIELD_TYPE_LABELS: Record<SubmissionFieldType, string> = {
+  TEXT: 'Short text',
+  RICH_TEXT: 'Rich text',
+  SELECT: 'Single choice',
+  MULTI_SELECT: 'Multiple choice',
+  CHECKBOX: 'Checkbox',
+  URL: 'URL',
+  NUMBER: 'Number',
+};
+
+/** Most fields an event's submission form may have */
+export const MAX_SUBMISSION_FIELDS = 30;
+
+/** Length limits used when a text field does not set its own */
+export const DEFAULT_FIELD_MAX_LENGTH: Partial<Record<SubmissionFieldType, number>> = {
+  TEXT: 1000,
+  RICH_TEXT: 10000,
+  URL: 2000,
+};
+
+/** Field types that offer a fixed list of choices */
+export function hasFieldOptions(type: SubmissionFieldType): boolean {
+  return type === 'SELECT' || type === 'MULTI_SELECT';
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+type FieldCheck = { value: SubmissionFieldValue | null; error?: string };
+
+function checkText(field: SubmissionFieldDefinition, raw: unknown): FieldCheck {
+  if (raw === undefined || raw === null) return { value: null };
+  if (typeof raw !== 'string') return { value: null, error: 'Must be text' };
+
+  const value = field.type === 'RICH_TEXT' ? raw : raw.trim();
+  const isEmpty = field.type === 'RICH_TEXT' ? htmlToText(value) === '' : value === '';
+  if (isEmpty) return { value: null };
+
+  // Rich text limits count visible characters, as the editor does
+  const length = field.type === 'RICH_TEXT' ? htmlToText(value).length : value.length;
+  const maxLength = field.maxLength ?? DEFAULT_FIELD_MAX_LENGTH[field.type];
+  if (maxLength && length > maxLength) {
+    return { value: null, error: `Must be at most ${maxLength} characters` };
+  }
+  if (field.type === 'URL' && !isHttpUrl(value)) {
+    return { value: null, error: 'Must be a valid http(s) URL' };
+  }
+  return { value };
+}
+
+function checkField(field: SubmissionFieldDefinition, raw: unknown): FieldCheck {
+  switch (field.type) {
+    case 'TEXT':
+    case 'RICH_TEXT':
+    case 'URL':
+      return checkText(field, raw);
+
+    case 'SELECT': {
+      if (raw === undefined || raw === null || raw === '') return { value: null };
+      if (typeof raw !== 'string' || !field.options.includes(raw)) {
+        return { value: null, error: 'Choose one of the listed options' };
+      }
+      return { value: raw };
+    }
+
+    case 'MULTI_SELECT': {
+      if (raw === undefined || raw === null) return { value: null };
+      if (!Array.isArray(raw) || raw.some(choice => typeof choice !== 'string' || !field.options.includes(choice))) {
+        return { value: null, error: 'Choose from the listed options' };
+      }
+      const choices = field.options.filter(option => raw.includes(option));
+      return { value: choices.length > 0 ? choices : null };
+    }
+
+    case 'CHECKBOX': {
+      if (raw === undefined || raw === null) return { value: false };
+      if (typeof raw !== 'boolean') return { value: null, error: 'Must be checked or unchecked' };
+      return { value: raw };
+    }
+
+    case 'NUMBER': {
+      if (raw === undefined || raw === null || raw === '') return { value: null };
+      const value = typeof raw === 'string' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { value: null, error: 'Must be a number' };
+      }
+      if (field.minValue !== null && field.minValue !== undefined && value < field.minValue) {
+        return { value: null, error: `Must be at least ${field.minValue}` };
+      }
+      if (field.maxValue !== null && field.maxValue !== undefined && value > field.maxValue) {
+        return { value: null, error: `Must be at most ${field.maxValue}` };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Check a speaker's answers against the event's fields. Unknown keys are
+ * dropped; required checkboxes must be ticked.
+ */
+export function validateSubmissionFieldValues(
+  fields: SubmissionFieldDefinition[],
+  input: unknown
+): SubmissionFieldValidation {
+  const answers = input && typeof input === 'object' && !Array.isArray(input)
+    ? (input as Record<string, unknown>)
+    : {};
+  const values: SubmissionFieldValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    const { value, error } = checkField(field, answers[field.id]);
+    if (error) {
+      errors[field.id] = `${field.label}: ${error}`;
+      continue;
+    }
+
+    const missing = value === null || (field.type === 'CHECKBOX' && value === false);
+    if (field.required && missing) {
+      errors[field.id] = `${field.label} is required`;
+      continue;
+    }
+    if (value !== null) {
+      values[field.id] = value;
+    }
+  }
+
+  return { values, errors };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+/**
+ * A submission's answers in the event's field order. Answers to fields
+ * that were since removed are left out.
+ */
+export function getSubmissionFieldAnswers(
+  fields: SubmissionFieldDefinition[],
+  stored: unknown
+): SubmissionFieldAnswer[] {
+  const values = stored && typeof stored === 'object' && !Array.isArray(stored)
+    ? (stored as Record<string, SubmissionFieldValue>)
+    : {};
+
+  return fields.map(field => ({
+    fieldId: field.id,
+    label: field.label,
+    type: field.type,
+    value: values[field.id] ?? null,
+  }));
+}
+
+/**
+ * An answer as plain text, for exports and compact lists
+ */
+export function formatSubmissionFieldValue(
+  type: SubmissionFieldType,
+  value: SubmissionFieldValue | null
+): string {
+  if (value === null) return type === 'CHECKBOX' ? 'No' : '';
+
+  switch (type) {
+    case 'CHECKBOX':
+      return value === true ? 'Yes' : 'No';
+    case 'MULTI_SELECT':
+      return Array.isArray(value) ? value.join('; ') : String(value);
+    case 'RICH_TEXT':
+      return htmlToText(String(value));
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Column values for storing a field, dropping settings its type ignores
+ */
+export function toSubmissionFieldData(
+  field: Omit<SubmissionFieldDefinition, 'id'>,
+  sortOrder: number
+) {
+  const isText = field.type === 'TEXT' || field.type === 'RICH_TEXT' || field.type === 'URL';
+  return {
+    label: field.label,
+    description: field.description || null,
+    type: field.type,
+    required: field.required,
+    options: hasFieldOptions(field.type) ? field.options : [],
+    maxLength: isText ? field.maxLength ?? null : null,
+    minValue: field.type === 'NUMBER' ? field.minValue ?? null : null,
+    maxValue: field.type === 'NUMBER' ? field.maxValue ?? null : null,
+    sortOrder,
+  };
+}
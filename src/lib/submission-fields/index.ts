@@ -0,0 +1,24 @@
+/**
+ * Submission Fields Module Index
+ *
+ * Re-exports submission field validation and display helpers and the
+ * field queries.
+ */
+
+export {
+  type SubmissionFieldDefinition,
+  type SubmissionFieldValue,
+  type SubmissionFieldValues,
+  type SubmissionFieldAnswer,
+  type SubmissionFieldValidation,
+  SUBMISSION_FIELD_TYPE_LABELS,
+  MAX_SUBMISSION_FIELDS,
+  DEFAULT_FIELD_MAX_LENGTH,
+  hasFieldOptions,
+  validateSubmissionFieldValues,
+  getSubmissionFieldAnswers,
+  formatSubmissionFieldValue,
+  toSubmissionFieldData,
+} from './fields';
+
+export { SUBMISSION_FIELD_SELECT, getEventSubmissionFields } from './queries';
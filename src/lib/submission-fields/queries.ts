@@ -0,0 +1,31 @@
+/**
+ * Submission Field Queries
+ *
+ * Loads an event's submission form fields in display order.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import type { SubmissionFieldDefinition } from './fields';
+
+export const SUBMISSION_FIELD_SELECT = {
+  id: true,
+  label: true,
+  description: true,
+  type: true,
+  required: true,
+  options: true,
+  maxLength: true,
+  minValue: true,
+  maxValue: true,
+} as const;
+
+/**
+ * The event's submission fields in form order
+ */
+export async function getEventSubmissionFields(eventId: string): Promise<SubmissionFieldDefinition[]> {
+  return prisma.eventSubmissionField.findMany({
+    where: { eventId },
+    select: SUBMISSION_FIELD_SELECT,
+    orderBy: { sortOrder: 'asc' },
+  });
+}
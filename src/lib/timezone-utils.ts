@@ -92,6 +92,54 @@ const TIMEZONE_DATA: { value: string; region: string }[] = [
   { value: 'Africa/Casablanca', region: 'Africa' },
 ];
 
+/**
+ * Offset of a timezone from UTC at an instant, in minutes (UTC+5:30 = 330).
+ * Throws a RangeError for unknown timezones.
+ */
+export function getTimezoneOffsetMinutes(timezone: string, at: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  const instant = at.getTime();
+  const truncated = instant - (((instant % 1000) + 1000) % 1000);
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Format an offset in minutes as "+05:30" / "-08:00"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const mins = String(absolute % 60).padStart(2, '0');
+  return `${sign}${hours}:${mins}`;
+}
+
+/**
+ * The UTC offset of a timezone at an instant ("+05:30", "+00:00").
+ * Returns an empty string for unknown timezones.
+ */
+export function getUtcOffsetAt(timezone: string, at: Date): string {
+  try {
+    return formatUtcOffset(getTimezoneOffsetMinutes(timezone, at));
+  } catch {
+    return '';
+  }
+}
+
 /**
  * Get the UTC offset for a timezone
  */
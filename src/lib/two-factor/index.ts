@@ -0,0 +1,48 @@
+/**
+ * Two-Factor Authentication Module Index
+ *
+ * Re-exports enforcement state, TOTP, recovery codes and the enrollment
+ * and sign-in service.
+ */
+
+export {
+  type TwoFactorEnforceableRole,
+  TWO_FACTOR_ENFORCEABLE_ROLES,
+  TWO_FACTOR_ROLE_LABELS,
+  RECOVERY_CODE_COUNT,
+  TWO_FACTOR_SETUP_PATH,
+  TWO_FACTOR_SETUP_API_ROUTES,
+  normalizeCode,
+  isTotpCode,
+  formatRecoveryCode,
+  isTwoFactorSetupRequired,
+  isTwoFactorSetupApiRoute,
+} from './state';
+
+export {
+  generateTotpSecret,
+  getTotpUri,
+  getTotpStep,
+  generateTotp,
+  verifyTotp,
+} from './totp';
+
+export {
+  hashRecoveryCode,
+  generateRecoveryCodes,
+  consumeRecoveryCode,
+} from './recovery-codes';
+
+export {
+  type TwoFactorEnrollment,
+  type TwoFactorStatus,
+  TwoFactorError,
+  verifySecondFactor,
+  getTwoFactorStatus,
+  needsTwoFactorSetup,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  resetTwoFactor,
+} from './service';
@@ -0,0 +1,41 @@
+/**
+ * Recovery Codes
+ *
+ * Single-use codes for signing in without the authenticator app. Only
+ * SHA-256 hashes are stored; the codes are shown to the user once.
+ */
+
+import { createHash, randomInt } from 'crypto';
+import { RECOVERY_CODE_COUNT, normalizeCode } from './state';
+
+// Unambiguous lowercase letters and digits
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const RECOVERY_CODE_LENGTH = 10;
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeCode(code)).digest('hex');
+}
+
+/**
+ * New recovery codes with their hashes
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: count }, () =>
+    Array.from(
+      { length: RECOVERY_CODE_LENGTH },
+      () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+    ).join('')
+  );
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * The stored hashes left after using a code, or null if the code is not
+ * one of them
+ */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const hash = hashRecoveryCode(code);
+  const index = hashes.indexOf(hash);
+  if (index === -1) return null;
+  return [...hashes.slice(0, index), ...hashes.slice(index + 1)];
+}
@@ -0,0 +1,359 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * Enrollment, the sign-in check, recovery codes and resets. A secret is
+ * stored (encrypted) as soon as enrollment starts but only protects the
+ * account once the user has confirmed a code from their app. Turning
+ * two-factor off or regenerating recovery codes needs a current code.
+ */
+
+import type { User } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { config } from '@/lib/env';
+import { decryptString, encryptString, isEncrypted } from '@/lib/security/encryption';
+import { logActivity } from '@/lib/activity-logger';
+import { generateTotpSecret, getTotpUri, verifyTotp } from './totp';
+import { consumeRecoveryCode, generateRecoveryCodes } from './recovery-codes';
+import { isTotpCode, isTwoFactorSetupRequired, normalizeCode } from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A two-factor request the app refuses; the message is shown to the user
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export interface TwoFactorEnrollment {
+  /** Base32 secret for typing into an app by hand */
+  secret: string;
+  uri: string;
+  /** QR code of the URI as a PNG data URL */
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  /** Whether the user's role must use two-factor authentication */
+  required: boolean;
+}
+
+type TwoFactorUser = Pick<
+  User,
+  'id' | 'twoFactorSecret' | 'twoFactorEnabledAt' | 'twoFactorLastUsedStep' | 'twoFactorRecoveryCodes'
+>;
+
+const TWO_FACTOR_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorLastUsedStep: true,
+  twoFactorRecoveryCodes: true,
+} as const;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function readSecret(user: Pick<User, 'twoFactorSecret'>): string | null {
+  if (!user.twoFactorSecret) return null;
+  return isEncrypted(user.twoFactorSecret) ? decryptString(user.twoFactorSecret) : user.twoFactorSecret;
+}
+
+function getTwoFactorSettings() {
+  return prisma.siteSettings.findUnique({
+    where: { id: 'default' },
+    select: { twoFactorRequiredRoles: true, name: true },
+  });
+}
+
+async function loadUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: TWO_FACTOR_SELECT });
+  if (!user) throw new TwoFactorError('User not found');
+  return user;
+}
+
+async function requireEnabledUser(userId: string) {
+  const user = await loadUser(userId);
+  if (!user.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is not enabled');
+  }
+  return user;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Check an authenticator or recovery code for a user with two-factor
+ * authentication enabled. An accepted authenticator code's time step is
+ * recorded and a recovery code is used up, so neither works twice.
+ */
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  input: string,
+  ipAddress?: string | null
+): Promise<boolean> {
+  const secret = readSecret(user);
+  if (!user.twoFactorEnabledAt || !secret) return false;
+
+  const code = normalizeCode(input);
+
+  if (isTotpCode(code)) {
+    const step = verifyTotp(secret, code, { lastUsedStep: user.twoFactorLastUsedStep });
+    if (step === null) return false;
+
+    // Conditional on the step we checked against, so two concurrent
+    // sign-ins cannot both use the same code
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorLastUsedStep: user.twoFactorLastUsedStep },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return count === 1;
+  }
+
+  const remaining = consumeRecoveryCode(user.twoFactorRecoveryCodes, code);
+  if (!remaining) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes } },
+    data: { twoFactorRecoveryCodes: remaining },
+  });
+  if (count !== 1) return false;
+
+  await logActivity({
+    userId: user.id,
+    action: 'USER_TWO_FACTOR_RECOVERY_CODE_USED',
+    entityType: 'User',
+    entityId: user.id,
+    metadata: { remaining: remaining.length },
+    ipAddress,
+  });
+  return true;
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const [user, settings] = await Promise.all([loadUser(userId), getTwoFactorSettings()]);
+  const requiredRoles = settings?.twoFactorRequiredRoles ?? [];
+  return {
+    enabled: !!user.twoFactorEnabledAt,
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining: user.twoFactorEnabledAt ? user.twoFactorRecoveryCodes.length : 0,
+    required: requiredRoles.includes(user.role),
+  };
+}
+
+/**
+ * Whether the user must set up two-factor authentication before using
+ * the app, because an admin requires it for their role
+ */
+export async function needsTwoFactorSetup(userId: string): Promise<boolean> {
+  const [user, settings] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, twoFactorEnabledAt: true },
+    }),
+    getTwoFactorSettings(),
+  ]);
+  if (!user) return false;
+  return isTwoFactorSetupRequired(
+    { role: user.role, twoFactorEnabled: !!user.twoFactorEnabledAt },
+    settings?.twoFactorRequiredRoles ?? []
+  );
+}
+
+// ============================================================================
+// Enrollment
+// ============================================================================
+
+/**
+ * Start enrollment with a new secret. Starting again replaces a secret
+ * that was never confirmed.
+ */
+export async function startTwoFactorEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+  const [user, settings] = await Promise.all([loadUser(userId), getTwoFactorSettings()]);
+  if (user.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: encryptString(secret),
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: [],
+    },
+  });
+
+  const uri = getTotpUri({
+    secret,
+    accountName: user.email,
+    issuer: settings?.name || config.app.name,
+  });
+  // Loaded here so the sign-in check doesn't pull in the QR encoder
+  const { toDataURL } = await import('qrcode');
+  return { secret, uri, qrCode: await toDataURL(uri, { margin: 1, width: 220 }) };
+}
+
+/**
+ * Finish enrollment with a code from the app. Returns the recovery codes,
+ * which are shown once.
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string,
+  ipAddress?: string | null
+): Promise<string[]> {
+  const user = await loadUser(userId);
+  if (user.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled');
+  }
+  const secret = readSecret(user);
+  if (!secret) {
+    throw new TwoFactorError('Start setting up two-factor authentication first');
+  }
+
+  const step = verifyTotp(secret, normalizeCode(code));
+  if (step === null) {
+    throw new TwoFactorError('That code is not valid. Check the time on your device and try again.');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastUsedStep: step,
+      twoFactorRecoveryCodes: hashes,
+    },
+  });
+
+  await logActivity({
+    userId,
+    action: 'USER_TWO_FACTOR_ENABLED',
+    entityType: 'User',
+    entityId: userId,
+    ipAddress,
+  });
+
+  return codes;
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+/**
+ * Replace the recovery codes after checking a current code
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string,
+  ipAddress?: string | null
+): Promise<string[]> {
+  const user = await requireEnabledUser(userId);
+  if (!(await verifySecondFactor(user, code, ipAddress))) {
+    throw new TwoFactorError('That code is not valid');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: hashes },
+  });
+
+  await logActivity({
+    userId,
+    action: 'USER_TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+    entityType: 'User',
+    entityId: userId,
+    ipAddress,
+  });
+
+  return codes;
+}
+
+/**
+ * Turn two-factor authentication off after checking a current code.
+ * Refused while the user's role requires it.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  code: string,
+  ipAddress?: string | null
+): Promise<void> {
+  const [user, settings] = await Promise.all([requireEnabledUser(userId), getTwoFactorSettings()]);
+  if (settings?.twoFactorRequiredRoles.includes(user.role)) {
+    throw new TwoFactorError('Two-factor authentication is required for your role');
+  }
+  if (!(await verifySecondFactor(user, code, ipAddress))) {
+    throw new TwoFactorError('That code is not valid');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: [],
+    },
+  });
+
+  await logActivity({
+    userId,
+    action: 'USER_TWO_FACTOR_DISABLED',
+    entityType: 'User',
+    entityId: userId,
+    ipAddress,
+  });
+}
+
+/**
+ * Admin reset for a user who lost their authenticator and recovery codes.
+ * Signs the user out everywhere; they set two-factor up again at their
+ * next sign-in if their role requires it.
+ */
+export async function resetTwoFactor(
+  userId: string,
+  adminId: string,
+  ipAddress?: string | null
+): Promise<void> {
+  const user = await requireEnabledUser(userId);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: [],
+      sessionVersion: { increment: 1 }, // Forces re-authentication
+    },
+  });
+
+  await logActivity({
+    userId: adminId,
+    action: 'USER_TWO_FACTOR_RESET',
+    entityType: 'User',
+    entityId: userId,
+    metadata: { targetEmail: user.email },
+    ipAddress,
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Two-Factor Authentication State
+ *
+ * Which roles can be required to use two-factor authentication, and the
+ * shape of codes users type in. Pure functions only - safe to import
+ * from client components.
+ */
+
+import type { UserRole } from '@prisma/client';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Roles an admin can require two-factor authentication for */
+export const TWO_FACTOR_ENFORCEABLE_ROLES = ['ADMIN', 'ORGANIZER', 'REVIEWER'] as const satisfies readonly UserRole[];
+
+export type TwoFactorEnforceableRole = typeof TWO_FACTOR_ENFORCEABLE_ROLES[number];
+
+export const TWO_FACTOR_ROLE_LABELS: Record<TwoFactorEnforceableRole, string> = {
+  ADMIN: 'Admins',
+  ORGANIZER: 'Organizers',
+  REVIEWER: 'Reviewers',
+};
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/** Where users who must set up two-factor authentication are sent */
+export const TWO_FACTOR_SETUP_PATH = '/onboarding/two-factor';
+
+/** API routes still open to users who must set up two-factor authentication */
+export const TWO_FACTOR_SETUP_API_ROUTES = ['/api/account/two-factor', '/api/auth'] as const;
+
+// ============================================================================
+// Codes
+// ============================================================================
+
+/**
+ * A code as typed, without spaces or dashes and lowercased
+ */
+export function normalizeCode(input: string): string {
+  return input.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/**
+ * Whether a code looks like an authenticator code rather than a
+ * recovery code
+ */
+export function isTotpCode(input: string): boolean {
+  return /^\d{6}$/.test(normalizeCode(input));
+}
+
+/**
+ * A recovery code split in two for reading, e.g. "k3x9p-7mq2z"
+ */
+export function formatRecoveryCode(code: string): string {
+  const normalized = normalizeCode(code);
+  const half = Math.ceil(normalized.length / 2);
+  return `${normalized.slice(0, half)}-${normalized.slice(half)}`;
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+/**
+ * Whether a user has to set up two-factor authentication before using the
+ * app. Applies however they sign in; single sign-on asks for the code too.
+ */
+export function isTwoFactorSetupRequired(
+  user: { role: UserRole; twoFactorEnabled: boolean },
+  requiredRoles: UserRole[]
+): boolean {
+  return !user.twoFactorEnabled && requiredRoles.includes(user.role);
+}
+
+/**
+ * Whether an API route can be used before required two-factor
+ * authentication is set up: enrolling, and signing in and out
+ */
+export function isTwoFactorSetupApiRoute(path: string): boolean {
+  return TWO_FACTOR_SETUP_API_ROUTES.some(route => path === route || path.startsWith(`${route}/`));
+}
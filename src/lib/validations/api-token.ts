@@ -0,0 +1,26 @@
+/**
+ * API Token Validation Schemas
+ *
+ * Zod schemas for creating personal API tokens.
+ */
+
+import { z } from 'zod';
+import { API_TOKEN_EXPIRY_DAYS, API_TOKEN_SCOPES, DEFAULT_API_TOKEN_EXPIRY_DAYS } from '@/lib/api-tokens/state';
+
+// ============================================================================
+// Token Schemas
+// ============================================================================
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES))
+    .min(1, 'Choose at least one scope')
+    .transform(scopes => [...new Set(scopes)]),
+  expiresInDays: z.literal(API_TOKEN_EXPIRY_DAYS).default(DEFAULT_API_TOKEN_EXPIRY_DAYS),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
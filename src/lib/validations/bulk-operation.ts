@@ -0,0 +1,76 @@
+/**
+ * Bulk Submission Operation Validation Schemas
+ *
+ * Zod schemas for changes an organizer applies to many submissions at once
+ * from the submissions table.
+ */
+
+import { z } from 'zod';
+
+/** Most submissions one bulk operation may touch */
+export const MAX_BULK_SUBMISSIONS = 500;
+
+/** Decision email templates organizers may send in bulk */
+export const BULK_DECISION_TEMPLATES = [
+  'submission_accepted',
+  'submission_rejected',
+  'submission_waitlisted',
+  'submission_under_review',
+] as const;
+
+const submissionIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, 'Select at least one submission')
+  .max(MAX_BULK_SUBMISSIONS, `At most ${MAX_BULK_SUBMISSIONS} submissions per bulk action`)
+  .transform(ids => [...new Set(ids)]);
+
+// ============================================================================
+// Operation Schema
+// ============================================================================
+
+export const bulkOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('status'),
+    submissionIds: submissionIdsSchema,
+    status: z.enum(['PENDING', 'UNDER_REVIEW', 'ACCEPTED', 'REJECTED', 'WAITLISTED', 'WITHDRAWN']),
+    // Send the decision (or confirmation) email, as a single status change does
+    notifySpeakers: z.boolean().default(true),
+    // Include reviewers' public notes in decision emails
+    includeFeedback: z.boolean().default(false),
+  }),
+  z.object({
+    action: z.literal('track'),
+    submissionIds: submissionIdsSchema,
+    trackId: z.string().min(1).nullable(),
+  }),
+  z.object({
+    action: z.literal('format'),
+    submissionIds: submissionIdsSchema,
+    formatId: z.string().min(1).nullable(),
+  }),
+  z.object({
+    action: z.literal('notify'),
+    submissionIds: submissionIdsSchema,
+    templateType: z.enum(BULK_DECISION_TEMPLATES),
+    includeFeedback: z.boolean().default(false),
+  }),
+]);
+
+// ============================================================================
+// Email Preview Schema
+// ============================================================================
+
+export const bulkEmailPreviewSchema = z.object({
+  submissionIds: submissionIdsSchema,
+  templateType: z.enum(BULK_DECISION_TEMPLATES),
+  includeFeedback: z.boolean().default(false),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BulkOperationInput = z.infer<typeof bulkOperationSchema>;
+export type BulkOperationAction = BulkOperationInput['action'];
+export type BulkDecisionTemplate = (typeof BULK_DECISION_TEMPLATES)[number];
+export type BulkEmailPreviewInput = z.infer<typeof bulkEmailPreviewSchema>;
@@ -0,0 +1,34 @@
+/**
+ * Co-Speaker Invitation Validation Schemas
+ *
+ * Zod schemas for a co-speaker's answer on the invitation page.
+ */
+
+import { z } from 'zod';
+import { passwordSchema } from '@/lib/auth/validation';
+
+// ============================================================================
+// Response Schema
+// ============================================================================
+
+export const respondCoSpeakerInvitationSchema = z.discriminatedUnion('action', [
+  // Accept as the signed-in user
+  z.object({
+    action: z.literal('accept'),
+  }),
+  z.object({
+    action: z.literal('decline'),
+  }),
+  // Create an account for the invited email and accept
+  z.object({
+    action: z.literal('register'),
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(200),
+    password: passwordSchema,
+  }),
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RespondCoSpeakerInvitationInput = z.infer<typeof respondCoSpeakerInvitationSchema>;
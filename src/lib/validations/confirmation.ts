@@ -0,0 +1,33 @@
+/**
+ * Speaker Confirmation Validation Schemas
+ *
+ * Zod schemas for an accepted speaker's answer on the confirmation page.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Response Schema
+// ============================================================================
+
+export const respondConfirmationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('confirm'),
+    agreedToCodeOfConduct: z.boolean().refine(
+      agreed => agreed,
+      'You must agree to the code of conduct to confirm'
+    ),
+    agreedToRecording: z.boolean().default(false),
+    travelNeeds: z.string().max(2000).optional().nullable(),
+  }),
+  z.object({
+    action: z.literal('decline'),
+    reason: z.string().max(2000).optional().nullable(),
+  }),
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RespondConfirmationInput = z.infer<typeof respondConfirmationSchema>;
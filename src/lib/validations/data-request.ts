@@ -0,0 +1,29 @@
+/**
+ * Data Request Validation Schemas
+ *
+ * Zod schemas for account erasure requests and their admin review.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Erasure Request Schemas
+// ============================================================================
+
+export const createErasureRequestSchema = z.object({
+  reason: z.string().max(2000).optional().nullable(),
+  // The user retypes their email to confirm
+  confirmEmail: z.string().min(1, 'Type your email to confirm'),
+});
+
+export const reviewErasureRequestSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().max(2000).optional().nullable(),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreateErasureRequestInput = z.infer<typeof createErasureRequestSchema>;
+export type ReviewErasureRequestInput = z.infer<typeof reviewErasureRequestSchema>;
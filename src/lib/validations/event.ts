@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { MAX_SUBMISSION_FIELDS } from '@/lib/submission-fields/fields';
 
 // ============================================================================
 // Nested Schemas
@@ -27,6 +28,30 @@ export const reviewCriteriaSchema = z.object({
   sortOrder: z.number().int().optional(),
 });
 
+export const submissionFieldSchema = z.object({
+  id: z.string().optional(),
+  label: z.string().min(1, 'Field label is required').max(200),
+  description: z.string().max(500).optional().nullable(),
+  type: z.enum(['TEXT', 'RICH_TEXT', 'SELECT', 'MULTI_SELECT', 'CHECKBOX', 'URL', 'NUMBER']),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1).max(200)).max(50).default([]),
+  maxLength: z.number().int().min(1).max(10000).optional().nullable(),
+  minValue: z.number().optional().nullable(),
+  maxValue: z.number().optional().nullable(),
+})
+  .refine(
+    field => !['SELECT', 'MULTI_SELECT'].includes(field.type) || field.options.length > 0,
+    { message: 'Choice fields need at least one option', path: ['options'] }
+  )
+  .refine(
+    field => new Set(field.options).size === field.options.length,
+    { message: 'Options must be unique', path: ['options'] }
+  )
+  .refine(
+    field => field.minValue == null || field.maxValue == null || field.minValue <= field.maxValue,
+    { message: 'Minimum must not be greater than maximum', path: ['minValue'] }
+  );
+
 // ============================================================================
 // Event Schemas
 // ============================================================================
@@ -72,15 +97,28 @@ export const createEventSchema = z.object({
   cfpGuidelines: z.string().max(10000).optional().nullable(),
   speakerBenefits: z.string().max(5000).optional().nullable(),
   
+  // Speaker Confirmation
+  confirmationDeadlineDays: z.number().int().min(1).max(90).default(14),
+  codeOfConductUrl: z.string().url().max(500).optional().nullable().or(z.literal('')),
+  
   // Talk Formats
   talkFormats: z.array(talkFormatSchema).optional().default([]),
   
   // Review Settings
-  reviewType: z.string().default('scoring'),
+  reviewType: z.enum(['scoring', 'voting', 'ranking']).default('scoring'),
+  reviewAnonymity: z.enum(['OPEN', 'SPEAKER_HIDDEN', 'DOUBLE_BLIND']).default('OPEN'),
   minReviewsPerTalk: z.number().int().min(1).max(10).default(2),
   enableSpeakerFeedback: z.boolean().default(false),
   reviewCriteria: z.array(reviewCriteriaSchema).optional().default([]),
   
+  // Review Period (whole days in the event timezone)
+  reviewStartDate: z.string().optional().nullable(),
+  reviewEndDate: z.string().optional().nullable(),
+  
+  // Extra submission form questions (answers are keyed by field id, so
+  // updates keep ids of fields that stay)
+  submissionFields: z.array(submissionFieldSchema).max(MAX_SUBMISSION_FIELDS).optional(),
+  
   // Notification Settings
   notifyOnNewSubmission: z.boolean().default(true),
   notifyOnNewReview: z.boolean().default(false),
@@ -143,6 +181,7 @@ export const updateReviewerRoleSchema = z.object({
 export type CreateEventInput = z.infer<typeof createEventSchema>;
 export type UpdateEventInput = z.infer<typeof updateEventSchema>;
 export type EventFilters = z.infer<typeof eventFiltersSchema>;
+export type SubmissionFieldInput = z.infer<typeof submissionFieldSchema>;
 export type CreateTrackInput = z.infer<typeof createTrackSchema>;
 export type UpdateTrackInput = z.infer<typeof updateTrackSchema>;
 export type CreateFormatInput = z.infer<typeof createFormatSchema>;
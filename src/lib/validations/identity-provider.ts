@@ -0,0 +1,78 @@
+/**
+ * Identity Provider Validation Schemas
+ *
+ * Zod schemas for the single sign-on providers managed under settings.
+ * Which settings a provider type requires is checked by the API against
+ * the saved provider, since updates may leave the secret unchanged.
+ */
+
+import { z } from 'zod';
+import { normalizeDomains } from '@/lib/sso/state';
+
+// ============================================================================
+// Field Schemas
+// ============================================================================
+
+const userRoleSchema = z.enum(['USER', 'SPEAKER', 'REVIEWER', 'ORGANIZER', 'ADMIN']);
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).transform(value => value || null).nullable().optional();
+
+export const roleMappingSchema = z.object({
+  value: z.string().trim().min(1, 'Claim value is required').max(200),
+  role: userRoleSchema,
+});
+
+const identityProviderFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  enabled: z.boolean(),
+  // OIDC
+  issuer: z.string().trim().url('Issuer must be a URL').max(500).nullable().optional()
+    .or(z.literal('').transform(() => null)),
+  clientId: optionalText(500),
+  // Blank keeps the saved secret
+  clientSecret: z.string().max(2000).optional(),
+  scopes: z.string().trim().min(1).max(500)
+    .refine(scopes => scopes.split(/\s+/).includes('openid'), 'Scopes must include openid'),
+  // SAML
+  ssoUrl: z.string().trim().url('SSO URL must be a URL').max(2000).nullable().optional()
+    .or(z.literal('').transform(() => null)),
+  idpEntityId: optionalText(500),
+  idpCertificate: optionalText(20000),
+  // Access
+  roleClaim: optionalText(200),
+  roleMappings: z.array(roleMappingSchema).max(50),
+  defaultRole: userRoleSchema.exclude(['ADMIN']),
+  allowedDomains: z.array(z.string().max(253)).max(100).transform(normalizeDomains),
+  jitProvisioning: z.boolean(),
+};
+
+// ============================================================================
+// Provider Schemas
+// ============================================================================
+
+export const createIdentityProviderSchema = z.object({
+  ...identityProviderFields,
+  slug: z.string()
+    .min(2, 'Slug must be at least 2 characters')
+    .max(50)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens'),
+  type: z.enum(['OIDC', 'SAML']),
+  enabled: identityProviderFields.enabled.default(false),
+  scopes: identityProviderFields.scopes.default('openid email profile'),
+  roleMappings: identityProviderFields.roleMappings.default([]),
+  defaultRole: identityProviderFields.defaultRole.default('SPEAKER'),
+  allowedDomains: identityProviderFields.allowedDomains.default([]),
+  jitProvisioning: identityProviderFields.jitProvisioning.default(false),
+});
+
+// Slug and type are fixed once created: the slug is in URLs registered
+// with the identity provider
+export const updateIdentityProviderSchema = z.object(identityProviderFields).partial();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreateIdentityProviderInput = z.infer<typeof createIdentityProviderSchema>;
+export type UpdateIdentityProviderInput = z.infer<typeof updateIdentityProviderSchema>;
@@ -0,0 +1,62 @@
+/**
+ * Notification Preference Validation Schemas
+ *
+ * Zod schemas for the account notification settings, unsubscribe links
+ * and the notification center.
+ */
+
+import { z } from 'zod';
+import { isValidNotificationSetting } from '@/lib/notifications/state';
+
+// ============================================================================
+// Preference Schemas
+// ============================================================================
+
+export const notificationPreferenceSchema = z.object({
+  channel: z.enum(['IN_APP', 'EMAIL']),
+  category: z.enum([
+    'NEW_SUBMISSION',
+    'NEW_REVIEW',
+    'DISCUSSION_REPLY',
+    'MENTION',
+    'REVIEW_DEADLINE',
+    'MESSAGE',
+    'STATUS_CHANGE',
+    'PLUGIN_NOTICE',
+  ]),
+  frequency: z.enum(['IMMEDIATE', 'DAILY', 'WEEKLY', 'OFF']),
+}).refine(
+  pref => isValidNotificationSetting(pref.channel, pref.category, pref.frequency),
+  { message: 'This channel does not offer that setting' }
+);
+
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z.array(notificationPreferenceSchema).min(1).max(20),
+});
+
+export const unsubscribeSchema = z.object({
+  token: z.string().min(1).max(200),
+});
+
+// ============================================================================
+// Notification Center Schemas
+// ============================================================================
+
+export const notificationListSchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const markNotificationsReadSchema = z.union([
+  z.object({ ids: z.array(z.string().min(1)).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationPreferenceInput = z.infer<typeof notificationPreferenceSchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>;
@@ -5,11 +5,17 @@
  */
 
 import { z } from 'zod';
+import { MAX_DISCUSSION_LENGTH } from '@/lib/reviews/discussion-threads';
 
 // ============================================================================
 // Review Schemas
 // ============================================================================
 
+export const criterionScoreSchema = z.object({
+  criteriaId: z.string().min(1),
+  score: z.number().int().min(1).max(5),
+});
+
 export const createReviewSchema = z.object({
   contentScore: z.number().int().min(1).max(5).optional(),
   presentationScore: z.number().int().min(1).max(5).optional(),
@@ -18,10 +24,52 @@ export const createReviewSchema = z.object({
   privateNotes: z.string().max(10000).optional(),
   publicNotes: z.string().max(5000).optional(),
   recommendation: z.enum(['STRONG_ACCEPT', 'ACCEPT', 'NEUTRAL', 'REJECT', 'STRONG_REJECT']).optional(),
+  vote: z.enum(['YES', 'NO', 'ABSTAIN']).optional(),
+  criterionScores: z.array(criterionScoreSchema)
+    .max(50)
+    .refine(
+      scores => new Set(scores.map(s => s.criteriaId)).size === scores.length,
+      'Each criterion can only be scored once'
+    )
+    .optional(),
 });
 
 export const updateReviewSchema = createReviewSchema.partial();
 
+// ============================================================================
+// Ranking Schemas
+// ============================================================================
+
+export const saveRankingSchema = z.object({
+  trackId: z.string().nullable().optional(),
+  submissionIds: z.array(z.string().min(1))
+    .max(1000)
+    .refine(ids => new Set(ids).size === ids.length, 'Each submission can only be ranked once'),
+});
+
+// ============================================================================
+// Assignment Schemas
+// ============================================================================
+
+export const commitAssignmentsSchema = z.object({
+  assignments: z.array(z.object({
+    submissionId: z.string().min(1),
+    reviewerId: z.string().min(1),
+    // Proposed by the assignment engine rather than picked by hand
+    isAutomatic: z.boolean().default(true),
+  }))
+    .min(1, 'Select at least one assignment')
+    .max(5000)
+    .refine(
+      pairs => new Set(pairs.map(p => `${p.submissionId}:${p.reviewerId}`)).size === pairs.length,
+      'Each reviewer can only be assigned to a submission once'
+    ),
+});
+
+export const declareConflictSchema = z.object({
+  reason: z.string().max(1000).optional().nullable(),
+});
+
 // ============================================================================
 // Discussion Schemas
 // ============================================================================
@@ -30,10 +78,29 @@ export const createDiscussionSchema = z.object({
   content: z.string().min(1, 'Comment is required').max(5000),
 });
 
+export const createSubmissionDiscussionSchema = z.object({
+  content: z.string().min(1, 'Comment is required').max(MAX_DISCUSSION_LENGTH),
+  parentId: z.string().min(1).optional().nullable(),
+});
+
+export const updateDiscussionThreadSchema = z.object({
+  isPinned: z.boolean().optional(),
+  resolved: z.boolean().optional(),
+}).refine(
+  data => data.isPinned !== undefined || data.resolved !== undefined,
+  'Nothing to update'
+);
+
 // ============================================================================
 // Types
 // ============================================================================
 
+export type CriterionScoreInput = z.infer<typeof criterionScoreSchema>;
 export type CreateReviewInput = z.infer<typeof createReviewSchema>;
 export type UpdateReviewInput = z.infer<typeof updateReviewSchema>;
 export type CreateDiscussionInput = z.infer<typeof createDiscussionSchema>;
+export type CreateSubmissionDiscussionInput = z.infer<typeof createSubmissionDiscussionSchema>;
+export type UpdateDiscussionThreadInput = z.infer<typeof updateDiscussionThreadSchema>;
+export type SaveRankingInput = z.infer<typeof saveRankingSchema>;
+export type CommitAssignmentsInput = z.infer<typeof commitAssignmentsSchema>;
+export type DeclareConflictInput = z.infer<typeof declareConflictSchema>;
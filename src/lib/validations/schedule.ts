@@ -0,0 +1,70 @@
+/**
+ * Schedule Validation Schemas
+ *
+ * Zod schemas for rooms and schedule slots. Slot times are wall-clock
+ * values in the event's timezone; the API converts them to UTC.
+ */
+
+import { z } from 'zod';
+import { isValidDate, isValidTime } from '@/lib/schedule/time';
+
+const dateSchema = z.string().refine(isValidDate, 'Date must be in YYYY-MM-DD format');
+const timeSchema = z.string().refine(isValidTime, 'Time must be in HH:mm format');
+
+// ============================================================================
+// Room Schemas
+// ============================================================================
+
+export const createRoomSchema = z.object({
+  name: z.string().min(1, 'Room name is required').max(100),
+  capacity: z.number().int().min(1).max(100000).optional().nullable(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+export const updateRoomSchema = createRoomSchema.partial();
+
+// ============================================================================
+// Slot Schemas
+// ============================================================================
+
+export const createSlotSchema = z.object({
+  roomId: z.string().min(1),
+  date: dateSchema,
+  startTime: timeSchema,
+  // Slot length comes from the talk format unless given explicitly
+  talkFormatId: z.string().optional().nullable(),
+  durationMin: z.number().int().min(5).max(600).optional().nullable(),
+  title: z.string().max(200).optional().nullable(),
+  submissionId: z.string().optional().nullable(),
+  // Create this many back-to-back slots
+  count: z.number().int().min(1).max(50).default(1),
+}).refine(
+  (data) => !!data.talkFormatId || !!data.durationMin,
+  { message: 'Choose a talk format or a duration', path: ['durationMin'] }
+).refine(
+  (data) => !data.submissionId || data.count === 1,
+  { message: 'A submission can only be placed in one slot', path: ['count'] }
+);
+
+export const updateSlotSchema = z.object({
+  roomId: z.string().min(1).optional(),
+  date: dateSchema.optional(),
+  startTime: timeSchema.optional(),
+  talkFormatId: z.string().optional().nullable(),
+  durationMin: z.number().int().min(5).max(600).optional(),
+  title: z.string().max(200).optional().nullable(),
+  // null takes the submission out of the slot
+  submissionId: z.string().optional().nullable(),
+}).refine(
+  (data) => (data.date === undefined) === (data.startTime === undefined),
+  { message: 'Date and start time must be changed together', path: ['startTime'] }
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreateRoomInput = z.infer<typeof createRoomSchema>;
+export type UpdateRoomInput = z.infer<typeof updateRoomSchema>;
+export type CreateSlotInput = z.infer<typeof createSlotSchema>;
+export type UpdateSlotInput = z.infer<typeof updateSlotSchema>;
@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { TWO_FACTOR_ENFORCEABLE_ROLES } from '@/lib/two-factor/state';
 
 // ============================================================================
 // Site Settings Schemas
@@ -31,6 +32,8 @@ export const updateSiteSettingsSchema = z.object({
   termsOfServiceContent: z.string().max(100000).optional().or(z.literal('')), // Terms of service HTML
   // Registration settings
   allowPublicSignup: z.boolean().optional(), // Allow speakers to self-register
+  // Roles that must use two-factor authentication
+  twoFactorRequiredRoles: z.array(z.enum(TWO_FACTOR_ENFORCEABLE_ROLES)).optional(),
 });
 
 export const updateFederationSettingsSchema = z.object({
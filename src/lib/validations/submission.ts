@@ -29,6 +29,9 @@ export const createSubmissionSchema = z.object({
   targetAudience: z.string().max(500).optional(),
   prerequisites: z.string().max(2000).optional(),
   coSpeakers: z.array(coSpeakerInputSchema).max(10).optional(), // Up to 10 co-speakers
+  // Answers to the event's own questions, keyed by field id; checked
+  // against the field definitions by the route
+  customFields: z.record(z.string(), z.unknown()).optional(),
 });
 
 export const updateSubmissionSchema = createSubmissionSchema
@@ -49,6 +52,14 @@ export const submissionFiltersSchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 });
 
+// Same filters as the list, without paging; the whole result is exported
+export const submissionExportSchema = submissionFiltersSchema
+  .pick({ status: true, trackId: true, formatId: true, search: true })
+  .extend({
+    format: z.enum(['csv', 'xlsx', 'json']).default('csv'),
+    normalized: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  });
+
 // ============================================================================
 // Material Schemas
 // ============================================================================
@@ -87,6 +98,7 @@ export type CreateSubmissionInput = z.infer<typeof createSubmissionSchema>;
 export type UpdateSubmissionInput = z.infer<typeof updateSubmissionSchema>;
 export type UpdateSubmissionStatusInput = z.infer<typeof updateSubmissionStatusSchema>;
 export type SubmissionFilters = z.infer<typeof submissionFiltersSchema>;
+export type SubmissionExportInput = z.infer<typeof submissionExportSchema>;
 export type CreateMaterialInput = z.infer<typeof createMaterialSchema>;
 export type UpdateMaterialInput = z.infer<typeof updateMaterialSchema>;
 export type CreateCoSpeakerInput = z.infer<typeof createCoSpeakerSchema>;
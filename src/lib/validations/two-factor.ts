@@ -0,0 +1,23 @@
+/**
+ * Two-Factor Authentication Validation Schemas
+ *
+ * Zod schemas for enrollment, recovery codes and turning two-factor
+ * authentication off.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Code Schemas
+// ============================================================================
+
+/** An authenticator code or a recovery code, as typed */
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the code from your authenticator app').max(32),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
@@ -0,0 +1,55 @@
+/**
+ * Webhook Validation Schemas
+ *
+ * Zod schemas for registering outbound webhook endpoints and browsing
+ * their delivery log. Which hooks an event's endpoint may subscribe to is
+ * checked by the webhook service.
+ */
+
+import { z } from 'zod';
+import { HOOK_NAMES } from '@/lib/plugins/hooks/types';
+import { getWebhookUrlError } from '@/lib/webhooks/state';
+
+// ============================================================================
+// Endpoint Schemas
+// ============================================================================
+
+const webhookEndpointFields = {
+  url: z.string().trim().max(2000).superRefine((url, ctx) => {
+    // Event endpoints are held to public hosts by the webhook service
+    const error = getWebhookUrlError(url, 'instance');
+    if (error) ctx.addIssue({ code: 'custom', message: error });
+  }),
+  description: z.string().trim().max(200).transform(value => value || null).nullable().optional(),
+  hooks: z.array(z.enum(HOOK_NAMES))
+    .min(1, 'Choose at least one hook')
+    .transform(hooks => [...new Set(hooks)]),
+  enabled: z.boolean(),
+};
+
+export const createWebhookEndpointSchema = z.object({
+  ...webhookEndpointFields,
+  enabled: webhookEndpointFields.enabled.default(true),
+  // Omitted for an instance-wide endpoint
+  eventId: z.string().min(1).nullable().optional(),
+});
+
+export const updateWebhookEndpointSchema = z.object(webhookEndpointFields).partial();
+
+// ============================================================================
+// Delivery Log Schemas
+// ============================================================================
+
+export const webhookDeliveryFiltersSchema = z.object({
+  status: z.enum(['PENDING', 'DELIVERING', 'SUCCEEDED', 'FAILED']).optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
+export type WebhookDeliveryFilters = z.infer<typeof webhookDeliveryFiltersSchema>;
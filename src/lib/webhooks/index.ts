@@ -0,0 +1,54 @@
+/**
+ * Webhooks Module Index
+ *
+ * Re-exports webhook hook options, payload and retry rules, and managing
+ * endpoints, delivering hooks to them and the delivery log.
+ */
+
+export {
+  type WebhookBody,
+  WEBHOOK_TEST_HOOK,
+  WEBHOOK_SECRET_PREFIX,
+  MAX_WEBHOOK_ENDPOINTS,
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_RETRY_DELAYS_MS,
+  WEBHOOK_TIMEOUT_MS,
+  WEBHOOK_RESPONSE_BODY_LIMIT,
+  STALE_DELIVERING_WEBHOOK_MS,
+  WEBHOOK_QUEUE_BATCH_SIZE,
+  WEBHOOK_LOG_RETENTION_DAYS,
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  EVENT_WEBHOOK_HOOKS,
+  getWebhookHookOptions,
+  getHookEventId,
+  toWebhookData,
+  type WebhookAddressKind,
+  getIpAddressKind,
+  getHostnameKind,
+  getWebhookAddressError,
+  getWebhookUrlError,
+  getNextWebhookAttemptAt,
+  canRedeliverWebhook,
+  truncateResponseBody,
+} from './state';
+
+export {
+  type WebhookEndpointListItem,
+  type WebhookDeliveryLogItem,
+  type WebhookDeliveryResult,
+  type WebhookQueueSummary,
+  WebhookError,
+  canManageWebhooks,
+  listWebhookEndpoints,
+  getWebhookEndpoint,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  sendWebhookDelivery,
+  queueHookWebhooks,
+  sendTestWebhook,
+  redeliverWebhook,
+  processWebhookQueue,
+  purgeWebhookLog,
+  listWebhookDeliveries,
+} from './service';
@@ -0,0 +1,542 @@
+/**
+ * Outbound Webhook Service
+ *
+ * Generic webhooks for local integrations, separate from federation.
+ * Admins register instance-wide endpoints and event organizers register
+ * endpoints for their event; each subscribes to plugin hooks. Every
+ * dispatched hook is stored as one delivery per subscribed endpoint and
+ * POSTed straight away, signed like federation webhooks. Failures are
+ * retried with backoff by the webhook-deliveries scheduled task until the
+ * last attempt, after which the delivery stays in the log as failed and
+ * can be redelivered by hand.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import type { Prisma, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logActivity } from '@/lib/activity-logger';
+import { canManageEvent, isAdmin, type AuthenticatedUser } from '@/lib/api/auth';
+import { encryptString, decryptString } from '@/lib/security/encryption';
+import { signWebhookPayload } from '@/lib/federation/webhook-sender';
+import type { HookName } from '@/lib/plugins/hooks/types';
+import type {
+  CreateWebhookEndpointInput,
+  UpdateWebhookEndpointInput,
+  WebhookDeliveryFilters,
+} from '@/lib/validations/webhook';
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  STALE_DELIVERING_WEBHOOK_MS,
+  WEBHOOK_LOG_RETENTION_DAYS,
+  WEBHOOK_QUEUE_BATCH_SIZE,
+  WEBHOOK_SECRET_PREFIX,
+  WEBHOOK_TEST_HOOK,
+  canRedeliverWebhook,
+  getHookEventId,
+  getNextWebhookAttemptAt,
+  getWebhookHookOptions,
+  getWebhookUrlError,
+  toWebhookData,
+  type WebhookBody,
+} from './state';
+import { postWebhook } from './transport';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/** An endpoint without its signing secret */
+export type WebhookEndpointListItem = Omit<WebhookEndpoint, 'secret'>;
+
+/** A delivery log row with its request body decrypted */
+export type WebhookDeliveryLogItem = WebhookDelivery;
+
+export interface WebhookDeliveryResult {
+  success: boolean;
+  /** Set when the delivery failed and will be retried */
+  queued?: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookQueueSummary {
+  requeued: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+const withoutSecret = { secret: true } as const;
+
+const USER_AGENT = 'CFP-Directory-Self-Hosted-Webhook/1.0';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+function toLogItem(delivery: WebhookDelivery): WebhookDeliveryLogItem {
+  return { ...delivery, requestBody: decryptString(delivery.requestBody) };
+}
+
+function assertHooksAllowed(hooks: readonly string[], eventId: string | null): void {
+  const allowed: readonly string[] = getWebhookHookOptions(eventId ? 'event' : 'instance');
+  const notAllowed = hooks.filter(hook => !allowed.includes(hook));
+  if (notAllowed.length > 0) {
+    throw new WebhookError(`${notAllowed.join(', ')} can't be sent to an event's webhooks`);
+  }
+}
+
+function assertUrlAllowed(url: string, eventId: string | null): void {
+  const error = getWebhookUrlError(url, eventId ? 'event' : 'instance');
+  if (error) {
+    throw new WebhookError(error);
+  }
+}
+
+/**
+ * Headers for one attempt. The signature covers the timestamp and body,
+ * in the same format as federation webhooks.
+ */
+function createWebhookHeaders(
+  delivery: Pick<WebhookDelivery, 'id' | 'hookName'>,
+  body: string,
+  secret: string,
+  now: Date
+): Record<string, string> {
+  const timestamp = now.getTime().toString();
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': USER_AGENT,
+    'X-Webhook-Id': delivery.id,
+    'X-Webhook-Event': delivery.hookName,
+    'X-Webhook-Timestamp': timestamp,
+    'X-Webhook-Signature': `sha256=${signWebhookPayload(`${timestamp}.${body}`, secret)}`,
+  };
+}
+
+function logEndpointActivity(
+  action: 'WEBHOOK_CREATED' | 'WEBHOOK_UPDATED' | 'WEBHOOK_DELETED' | 'WEBHOOK_REDELIVERED',
+  user: { id: string },
+  endpoint: Pick<WebhookEndpoint, 'id' | 'eventId' | 'url'>,
+  metadata: Record<string, string | number | boolean | null>,
+  ipAddress?: string | null
+): Promise<void> {
+  return logActivity({
+    userId: user.id,
+    action,
+    entityType: endpoint.eventId ? 'Event' : 'Settings',
+    entityId: endpoint.eventId ?? endpoint.id,
+    metadata: { url: endpoint.url, ...metadata },
+    ipAddress,
+  });
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+/**
+ * Whether a user can manage the instance-wide endpoints (admins) or an
+ * event's endpoints (those who can manage the event)
+ */
+export async function canManageWebhooks(
+  user: AuthenticatedUser,
+  eventId: string | null
+): Promise<boolean> {
+  return eventId ? canManageEvent(user, eventId) : isAdmin(user);
+}
+
+/**
+ * The instance-wide endpoints, or one event's, oldest first
+ */
+export async function listWebhookEndpoints(eventId: string | null): Promise<WebhookEndpointListItem[]> {
+  return prisma.webhookEndpoint.findMany({
+    where: { eventId },
+    omit: withoutSecret,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function getWebhookEndpoint(id: string): Promise<WebhookEndpointListItem | null> {
+  return prisma.webhookEndpoint.findUnique({ where: { id }, omit: withoutSecret });
+}
+
+/**
+ * Register an endpoint. Returns its signing secret, which is never shown
+ * again.
+ */
+export async function createWebhookEndpoint(
+  user: { id: string },
+  input: CreateWebhookEndpointInput,
+  ipAddress?: string | null
+): Promise<{ secret: string; endpoint: WebhookEndpointListItem }> {
+  const eventId = input.eventId ?? null;
+  assertHooksAllowed(input.hooks, eventId);
+  assertUrlAllowed(input.url, eventId);
+
+  if (eventId && !(await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } }))) {
+    throw new WebhookError('Event not found');
+  }
+
+  const count = await prisma.webhookEndpoint.count({ where: { eventId } });
+  if (count >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new WebhookError(`You can register at most ${MAX_WEBHOOK_ENDPOINTS} webhooks here. Remove one first.`);
+  }
+
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      eventId,
+      url: input.url,
+      description: input.description ?? null,
+      hooks: input.hooks,
+      enabled: input.enabled,
+      secret: encryptString(secret),
+    },
+    omit: withoutSecret,
+  });
+
+  await logEndpointActivity('WEBHOOK_CREATED', user, endpoint, { hooks: input.hooks.join(', ') }, ipAddress);
+
+  return { secret, endpoint };
+}
+
+export async function updateWebhookEndpoint(
+  user: { id: string },
+  endpoint: WebhookEndpointListItem,
+  input: UpdateWebhookEndpointInput,
+  ipAddress?: string | null
+): Promise<WebhookEndpointListItem> {
+  if (input.hooks) {
+    assertHooksAllowed(input.hooks, endpoint.eventId);
+  }
+  if (input.url) {
+    assertUrlAllowed(input.url, endpoint.eventId);
+  }
+
+  const updated = await prisma.webhookEndpoint.update({
+    where: { id: endpoint.id },
+    data: input,
+    omit: withoutSecret,
+  });
+
+  await logEndpointActivity('WEBHOOK_UPDATED', user, updated, {
+    enabled: updated.enabled,
+    hooks: updated.hooks.join(', '),
+  }, ipAddress);
+
+  return updated;
+}
+
+/**
+ * Remove an endpoint along with its delivery log
+ */
+export async function deleteWebhookEndpoint(
+  user: { id: string },
+  endpoint: WebhookEndpointListItem,
+  ipAddress?: string | null
+): Promise<void> {
+  await prisma.webhookEndpoint.delete({ where: { id: endpoint.id } });
+  await logEndpointActivity('WEBHOOK_DELETED', user, endpoint, {}, ipAddress);
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * POST a claimed delivery to its endpoint and record the outcome
+ */
+async function deliverClaimedWebhook(
+  delivery: WebhookDelivery & { endpoint: WebhookEndpoint },
+  now: Date
+): Promise<WebhookDeliveryResult> {
+  const body = decryptString(delivery.requestBody);
+  const headers = createWebhookHeaders(delivery, body, decryptString(delivery.endpoint.secret), now);
+
+  let statusCode: number | undefined;
+  let responseBody: string | null = null;
+  let error: string | undefined;
+  const startedAt = Date.now();
+  try {
+    const response = await postWebhook(delivery.endpoint.url, {
+      headers,
+      body,
+      scope: delivery.endpoint.eventId ? 'event' : 'instance',
+    });
+    statusCode = response.status;
+    responseBody = response.body;
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `Endpoint responded with ${statusCode}`;
+    }
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : 'Unknown error';
+  }
+
+  const attempts = delivery.attempts + 1;
+  const outcome = {
+    attempts,
+    lastAttemptAt: now,
+    responseStatus: statusCode ?? null,
+    responseBody,
+    durationMs: Date.now() - startedAt,
+  };
+
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...outcome, status: 'SUCCEEDED', deliveredAt: new Date(), lastError: null },
+    });
+    return { success: true, statusCode };
+  }
+
+  // Test events are sent once, while someone is watching
+  const nextAttemptAt = delivery.hookName === WEBHOOK_TEST_HOOK
+    ? null
+    : getNextWebhookAttemptAt(attempts, now);
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: nextAttemptAt
+      ? { ...outcome, status: 'PENDING', nextAttemptAt, lastError: error }
+      : { ...outcome, status: 'FAILED', lastError: error },
+  });
+
+  if (!nextAttemptAt) {
+    console.error(`[Webhooks] Giving up on delivery ${delivery.id} after ${attempts} attempt(s): ${error}`);
+  }
+  return { success: false, queued: !!nextAttemptAt, statusCode, error };
+}
+
+/**
+ * Try one pending delivery now. Returns null if it is not due or was
+ * picked up elsewhere.
+ */
+export async function sendWebhookDelivery(
+  id: string,
+  now: Date = new Date()
+): Promise<WebhookDeliveryResult | null> {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: { status: 'DELIVERING' },
+  });
+  if (count === 0) {
+    return null;
+  }
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id },
+    include: { endpoint: true },
+  });
+  return deliverClaimedWebhook(delivery, now);
+}
+
+/**
+ * Store a delivery of `body` for each endpoint
+ */
+async function createDeliveries(
+  endpointIds: string[],
+  hookName: string,
+  body: WebhookBody,
+  now: Date
+): Promise<WebhookDelivery[]> {
+  const requestBody = encryptString(JSON.stringify(body));
+  return prisma.$transaction(
+    endpointIds.map(endpointId =>
+      prisma.webhookDelivery.create({
+        data: { endpointId, hookName, requestBody, nextAttemptAt: now },
+      })
+    )
+  );
+}
+
+/**
+ * Queue a dispatched hook for every enabled endpoint subscribed to it:
+ * instance-wide endpoints, plus the endpoints of the hook's event.
+ * Returns the number of deliveries created.
+ */
+export async function queueHookWebhooks(
+  hookName: HookName,
+  payload: unknown,
+  now: Date = new Date()
+): Promise<number> {
+  const eventId = getHookEventId(payload);
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: {
+      enabled: true,
+      hooks: { has: hookName },
+      OR: [{ eventId: null }, ...(eventId ? [{ eventId }] : [])],
+    },
+    select: { id: true },
+  });
+  if (endpoints.length === 0) {
+    return 0;
+  }
+
+  const deliveries = await createDeliveries(endpoints.map(endpoint => endpoint.id), hookName, {
+    id: randomUUID(),
+    type: hookName,
+    timestamp: now.toISOString(),
+    eventId,
+    data: toWebhookData(hookName, payload),
+  }, now);
+
+  // One slow endpoint shouldn't hold up the others
+  await Promise.all(deliveries.map(delivery => sendWebhookDelivery(delivery.id, now)));
+  return deliveries.length;
+}
+
+/**
+ * Send a test event to an endpoint, even while it is disabled. Test
+ * events are not retried.
+ */
+export async function sendTestWebhook(
+  endpoint: WebhookEndpointListItem,
+  now: Date = new Date()
+): Promise<{ delivery: WebhookDeliveryLogItem; result: WebhookDeliveryResult | null }> {
+  const [created] = await createDeliveries([endpoint.id], WEBHOOK_TEST_HOOK, {
+    id: randomUUID(),
+    type: WEBHOOK_TEST_HOOK,
+    timestamp: now.toISOString(),
+    eventId: endpoint.eventId,
+    test: true,
+    data: { message: 'Test event from CFP Directory', endpointId: endpoint.id },
+  }, now);
+
+  const result = await sendWebhookDelivery(created.id, now);
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id: created.id } });
+  return { delivery: toLogItem(delivery), result };
+}
+
+/**
+ * Send a delivery again. Failed deliveries are requeued with fresh
+ * attempts; succeeded ones are copied so the log keeps the original. The
+ * copy keeps the body, including its `id`, so receivers can spot repeats.
+ */
+export async function redeliverWebhook(
+  endpoint: WebhookEndpointListItem,
+  deliveryId: string,
+  user: { id: string },
+  ipAddress?: string | null
+): Promise<WebhookDeliveryLogItem | null> {
+  const existing = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, endpointId: endpoint.id },
+  });
+  if (!existing) {
+    return null;
+  }
+  if (!canRedeliverWebhook(existing.status)) {
+    throw new WebhookError('Only succeeded or failed deliveries can be redelivered');
+  }
+
+  let delivery: WebhookDelivery;
+  if (existing.status === 'SUCCEEDED') {
+    delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: endpoint.id,
+        hookName: existing.hookName,
+        requestBody: existing.requestBody,
+        nextAttemptAt: new Date(),
+      },
+    });
+  } else {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'FAILED' },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    if (count === 0) {
+      throw new WebhookError('This delivery changed in the meantime - reload and try again');
+    }
+    delivery = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
+  }
+
+  await logEndpointActivity('WEBHOOK_REDELIVERED', user, endpoint, {
+    hookName: existing.hookName,
+    originalId: existing.id,
+  }, ipAddress);
+
+  return toLogItem(delivery);
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Requeue deliveries left in DELIVERING by a crashed worker, then retry
+ * the next batch of due deliveries. Deliveries to disabled endpoints wait
+ * until the endpoint is enabled again.
+ */
+export async function processWebhookQueue(now: Date = new Date()): Promise<WebhookQueueSummary> {
+  const { count: requeued } = await prisma.webhookDelivery.updateMany({
+    where: { status: 'DELIVERING', updatedAt: { lt: new Date(now.getTime() - STALE_DELIVERING_WEBHOOK_MS) } },
+    data: { status: 'PENDING', nextAttemptAt: now },
+  });
+
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: now }, endpoint: { enabled: true } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: WEBHOOK_QUEUE_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  const summary: WebhookQueueSummary = { requeued, delivered: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const result = await sendWebhookDelivery(id, now);
+    if (!result) continue;
+    if (result.success) summary.delivered++;
+    else if (result.queued) summary.retrying++;
+    else summary.failed++;
+  }
+  return summary;
+}
+
+/**
+ * Delete succeeded and failed deliveries past the retention period.
+ * Returns the number deleted.
+ */
+export async function purgeWebhookLog(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.webhookDelivery.deleteMany({
+    where: {
+      status: { in: ['SUCCEEDED', 'FAILED'] },
+      createdAt: { lt: new Date(now.getTime() - WEBHOOK_LOG_RETENTION_DAYS * 86400000) },
+    },
+  });
+  return count;
+}
+
+// ============================================================================
+// Delivery Log
+// ============================================================================
+
+/**
+ * An endpoint's deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+  endpointId: string,
+  filters: Partial<WebhookDeliveryFilters> = {}
+): Promise<{ deliveries: WebhookDeliveryLogItem[]; total: number }> {
+  const where: Prisma.WebhookDeliveryWhereInput = { endpointId };
+  if (filters.status) where.status = filters.status;
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 25,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ]);
+
+  return { deliveries: deliveries.map(toLogItem), total };
+}
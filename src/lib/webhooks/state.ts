@@ -0,0 +1,302 @@
+/**
+ * Outbound Webhook State
+ *
+ * Which hooks endpoints can subscribe to, how hook payloads are turned into
+ * request bodies, and the retry schedule for deliveries. Pure functions
+ * only - safe to import from client components.
+ */
+
+import type { WebhookDeliveryStatus } from '@prisma/client';
+import { HOOK_METADATA, HOOK_NAMES, type HookName } from '@/lib/plugins/hooks/types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Hook name of the deliveries sent by "Send test event" */
+export const WEBHOOK_TEST_HOOK = 'webhook.test';
+
+/** Every signing secret starts with this */
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export const MAX_WEBHOOK_ENDPOINTS = 20;
+
+/** Delivery attempts before a delivery is marked failed */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/** Wait after each failed attempt before the next one */
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+] as const;
+
+/** How long an endpoint has to answer */
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/** Characters of each response body kept in the delivery log */
+export const WEBHOOK_RESPONSE_BODY_LIMIT = 4000;
+
+/** Delivering rows not updated for this long are queued again */
+export const STALE_DELIVERING_WEBHOOK_MS = 10 * 60 * 1000;
+
+/** Deliveries attempted per scheduled run */
+export const WEBHOOK_QUEUE_BATCH_SIZE = 50;
+
+/** Succeeded and failed deliveries are deleted after this many days */
+export const WEBHOOK_LOG_RETENTION_DAYS = 30;
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  PENDING: 'Pending',
+  DELIVERING: 'Delivering',
+  SUCCEEDED: 'Succeeded',
+  FAILED: 'Failed',
+};
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Hooks an event's endpoints can subscribe to. User and email hooks don't
+ * belong to an event, so only instance-wide endpoints receive them.
+ */
+export const EVENT_WEBHOOK_HOOKS: HookName[] = HOOK_METADATA
+  .filter(hook => hook.category === 'submission' || hook.category === 'review' || hook.category === 'event')
+  .map(hook => hook.name);
+
+export function getWebhookHookOptions(scope: 'instance' | 'event'): HookName[] {
+  return scope === 'event' ? EVENT_WEBHOOK_HOOKS : HOOK_NAMES;
+}
+
+/**
+ * The event a hook payload belongs to, or null for user and email hooks
+ */
+export function getHookEventId(payload: unknown): string | null {
+  const data = payload as {
+    event?: { id?: unknown };
+    submission?: { eventId?: unknown };
+    eventId?: unknown;
+  } | null;
+  const eventId = data?.event?.id ?? data?.submission?.eventId ?? data?.eventId;
+  return typeof eventId === 'string' ? eventId : null;
+}
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+/** Fields never sent to an endpoint, wherever they appear in a payload */
+const WEBHOOK_OMITTED_FIELDS = new Set([
+  'passwordHash',
+  'sessionVersion',
+  'twoFactorSecret',
+  'twoFactorRecoveryCodes',
+  'twoFactorLastUsedStep',
+  'webhookSecret',
+]);
+
+/**
+ * A hook payload as JSON, without secrets. Template variables of
+ * email.beforeSend are left out since they can hold sign-in links.
+ */
+export function toWebhookData(hookName: string, payload: unknown): unknown {
+  const data = hookName === 'email.beforeSend' && payload && typeof payload === 'object'
+    ? { ...payload, variables: undefined }
+    : payload;
+  return JSON.parse(
+    JSON.stringify(data ?? null, (key, value) => (WEBHOOK_OMITTED_FIELDS.has(key) ? undefined : value))
+  );
+}
+
+export interface WebhookBody {
+  /** Identifies the occurrence; redeliveries keep it, so receivers can dedupe */
+  id: string;
+  type: string;
+  timestamp: string;
+  /** Event the hook belongs to, null for instance-wide hooks */
+  eventId: string | null;
+  test?: true;
+  data: unknown;
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+/**
+ * Where a webhook would be sent. Blocked addresses (link-local, cloud
+ * metadata, unspecified, multicast) never receive webhooks; private ones
+ * (loopback and private networks) only receive them from instance-wide
+ * endpoints, which only admins register.
+ */
+export type WebhookAddressKind = 'public' | 'private' | 'blocked';
+
+/** Cloud metadata services reachable by name */
+const METADATA_HOSTNAMES = new Set(['metadata.google.internal', 'metadata.goog', 'metadata']);
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if it isn't one
+ */
+function parseIpv6(address: string): number[] | null {
+  let input = address.replace(/^\[|\]$/g, '').split('%')[0];
+  if (!input.includes(':')) return null;
+
+  // Dotted IPv4 tail, as in ::ffff:169.254.169.254
+  const tail = input.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const octets = parseIpv4(tail[2]);
+    if (!octets) return null;
+    input = `${tail[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = input.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function getIpv4Kind([a, b, c, d]: number[]): WebhookAddressKind {
+  // "This network", link-local (where cloud metadata lives), multicast and reserved
+  if (a === 0 || (a === 169 && b === 254) || a >= 224) return 'blocked';
+  // Alibaba Cloud metadata
+  if (a === 100 && b === 100 && c === 100 && d === 200) return 'blocked';
+  if (
+    a === 127 ||
+    a === 10 ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127)
+  ) {
+    return 'private';
+  }
+  return 'public';
+}
+
+/**
+ * What an IP address points at, or null if it isn't an IP address.
+ * IPv4-mapped, IPv4-compatible and NAT64 IPv6 addresses are judged by the
+ * IPv4 address they carry.
+ */
+export function getIpAddressKind(address: string): WebhookAddressKind | null {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return getIpv4Kind(ipv4);
+
+  const groups = parseIpv6(address);
+  if (!groups) return null;
+
+  const zeroes = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+  if (zeroes(0, 8)) return 'blocked';
+  if (zeroes(0, 7) && groups[7] === 1) return 'private';
+
+  const embedsIpv4 = zeroes(0, 6) ||
+    (zeroes(0, 5) && groups[5] === 0xffff) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && zeroes(2, 6));
+  if (embedsIpv4) {
+    return getIpv4Kind([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+
+  // Link-local and multicast
+  if ((groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00) return 'blocked';
+  // AWS metadata (fd00:ec2::254)
+  if (groups[0] === 0xfd00 && groups[1] === 0x0ec2 && zeroes(2, 7) && groups[7] === 0x254) return 'blocked';
+  // Unique local
+  if ((groups[0] & 0xfe00) === 0xfc00) return 'private';
+  return 'public';
+}
+
+/**
+ * What a URL hostname points at, or null for names that have to be
+ * resolved first
+ */
+export function getHostnameKind(hostname: string): WebhookAddressKind | null {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  if (METADATA_HOSTNAMES.has(name)) return 'blocked';
+  if (name === 'localhost' || name.endsWith('.localhost')) return 'private';
+  return getIpAddressKind(name);
+}
+
+/**
+ * Why an address can't receive an endpoint's webhooks, or null if it can
+ */
+export function getWebhookAddressError(
+  kind: WebhookAddressKind | null,
+  scope: 'instance' | 'event'
+): string | null {
+  if (kind === 'blocked') {
+    return 'Link-local and cloud metadata addresses are not allowed';
+  }
+  if (kind === 'private' && scope === 'event') {
+    return 'Local network addresses can only receive instance-wide webhooks';
+  }
+  return null;
+}
+
+/**
+ * Whether a URL can receive an endpoint's webhooks. Instance-wide endpoints
+ * can reach local services; event endpoints, which organizers register,
+ * only public hosts. Names are resolved and checked again on delivery.
+ */
+export function getWebhookUrlError(url: string, scope: 'instance' | 'event'): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Enter a valid URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'URL must start with http:// or https://';
+  }
+  if (parsed.username || parsed.password) {
+    return 'URL must not contain credentials';
+  }
+  return getWebhookAddressError(getHostnameKind(parsed.hostname), scope);
+}
+
+// ============================================================================
+// Deliveries
+// ============================================================================
+
+/**
+ * When to try again after `attempts` failed attempts. Null once the last
+ * attempt has been used up.
+ */
+export function getNextWebhookAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    return null;
+  }
+  const index = Math.min(Math.max(attempts, 1), WEBHOOK_RETRY_DELAYS_MS.length) - 1;
+  return new Date(now.getTime() + WEBHOOK_RETRY_DELAYS_MS[index]);
+}
+
+/**
+ * Delivered and failed deliveries can be sent again; delivered ones are
+ * copied so the log keeps the original
+ */
+export function canRedeliverWebhook(status: WebhookDeliveryStatus): boolean {
+  return status === 'SUCCEEDED' || status === 'FAILED';
+}
+
+/**
+ * Cut a response body down to what the delivery log keeps
+ */
+export function truncateResponseBody(body: string): string {
+  return body.length > WEBHOOK_RESPONSE_BODY_LIMIT
+    ? `${body.slice(0, WEBHOOK_RESPONSE_BODY_LIMIT)}…`
+    : body;
+}
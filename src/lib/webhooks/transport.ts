@@ -0,0 +1,142 @@
+/**
+ * Webhook Transport
+ *
+ * POSTs a delivery and reads the start of the response. The endpoint's
+ * host is resolved once, by the connection itself, and every address it
+ * resolves to is checked before connecting, so a name can't pass the
+ * check with one address and then connect to another. Redirects are not
+ * followed.
+ */
+
+import http from 'http';
+import https from 'https';
+import { lookup } from 'dns';
+import type { LookupFunction } from 'net';
+import { StringDecoder } from 'string_decoder';
+import {
+  WEBHOOK_RESPONSE_BODY_LIMIT,
+  WEBHOOK_TIMEOUT_MS,
+  getHostnameKind,
+  getIpAddressKind,
+  getWebhookAddressError,
+  truncateResponseBody,
+} from './state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  /** Event endpoints may only reach public addresses */
+  scope: 'instance' | 'event';
+}
+
+export interface WebhookResponse {
+  status: number;
+  /** The start of the body, cut down to what the delivery log keeps */
+  body: string;
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+/**
+ * DNS lookup for the connection that refuses names resolving to an
+ * address the endpoint's scope can't reach
+ */
+function createCheckedLookup(scope: WebhookRequest['scope']): LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { family: options.family, hints: options.hints, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+      for (const { address } of addresses) {
+        const addressError = getWebhookAddressError(getIpAddressKind(address), scope);
+        if (addressError) {
+          callback(new Error(`${hostname} resolves to ${address}. ${addressError}`), '', 0);
+          return;
+        }
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * POST a webhook body. Resolves with the response status and the start of
+ * its body; rejects when the address is not allowed, the connection fails
+ * or no response arrives in time.
+ */
+export function postWebhook(url: string, request: WebhookRequest): Promise<WebhookResponse> {
+  const target = new URL(url);
+
+  // Addresses written into the URL are connected to without a lookup
+  const literalError = getWebhookAddressError(getHostnameKind(target.hostname), request.scope);
+  if (literalError) {
+    return Promise.reject(new Error(literalError));
+  }
+
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      outcome();
+    };
+    const fail = (error: Error) => settle(() => {
+      outgoing.destroy();
+      reject(error);
+    });
+
+    const timer = setTimeout(
+      () => fail(new Error(`No response within ${WEBHOOK_TIMEOUT_MS / 1000} seconds`)),
+      WEBHOOK_TIMEOUT_MS
+    );
+
+    const outgoing = client.request(target, {
+      method: 'POST',
+      headers: { ...request.headers, 'Content-Length': Buffer.byteLength(request.body).toString() },
+      lookup: createCheckedLookup(request.scope),
+      // A pooled socket may have been checked for another endpoint's scope
+      agent: false,
+    }, response => {
+      const decoder = new StringDecoder('utf8');
+      let text = '';
+      const finish = () => settle(() => {
+        // Large or endless bodies are cut off rather than read to the end
+        response.destroy();
+        resolve({ status: response.statusCode ?? 0, body: truncateResponseBody(text) });
+      });
+
+      response.on('data', (chunk: Buffer) => {
+        text += decoder.write(chunk);
+        if (text.length > WEBHOOK_RESPONSE_BODY_LIMIT) {
+          finish();
+        }
+      });
+      response.on('end', () => {
+        text += decoder.end();
+        finish();
+      });
+      response.on('error', fail);
+    });
+
+    outgoing.on('error', fail);
+    outgoing.end(request.body);
+  });
+}
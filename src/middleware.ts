@@ -10,10 +10,23 @@
  * 
  * SECURITY: Public API routes use EXACT MATCH to prevent accidental
  * exposure of new endpoints under "public" prefixes.
+ * 
+ * SECURITY: Requests carrying a personal API token are only let through
+ * to API routes the token's scopes cover. Handlers trust auth() to return
+ * the token owner's session, so every token request must pass here first.
+ * 
+ * SECURITY: Users who haven't set up two-factor authentication their role
+ * requires can only reach the API routes for setting it up, by session or
+ * by token, matching the dashboard's redirect to the setup page.
  */
 
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/auth';
+import { getApiTokenFromHeader, getRequiredScope, hasScope } from '@/lib/api-tokens/state';
+import { authenticateApiToken } from '@/lib/api-tokens/service';
+import { isTwoFactorSetupApiRoute } from '@/lib/two-factor/state';
+import { needsTwoFactorSetup } from '@/lib/two-factor/service';
+import { getClientIp } from '@/lib/rate-limit';
 
 // Whether we're in production mode
 const isProduction = process.env.NODE_ENV === 'production';
@@ -126,11 +139,20 @@ const publicApiRoutes: PublicApiRoute[] = [
   // Cron endpoints - protected by CRON_SECRET in handler
   { path: '/api/cron/heartbeat', methods: ['GET', 'POST'], note: 'Federation heartbeat (requires CRON_SECRET)' },
   { path: '/api/cron/cleanup', methods: ['POST'], note: 'Cleanup job (requires CRON_SECRET)' },
+  { path: '/api/cron/speaker-confirmations', methods: ['GET', 'POST'], note: 'Speaker confirmation expiry (requires CRON_SECRET)' },
+  { path: '/api/cron/bulk-operations', methods: ['GET', 'POST'], note: 'Bulk submission operations (requires CRON_SECRET)' },
+  { path: '/api/cron/data-erasure', methods: ['GET', 'POST'], note: 'Account erasure processing (requires CRON_SECRET)' },
+  { path: '/api/cron/key-rotation', methods: ['GET', 'POST'], note: 'Encryption key rotation (requires CRON_SECRET)' },
+  { path: '/api/cron/email-queue', methods: ['GET', 'POST'], note: 'Outbound email retries (requires CRON_SECRET)' },
+  { path: '/api/cron/notification-digests', methods: ['GET', 'POST'], note: 'Notification digest emails (requires CRON_SECRET)' },
   
   // Federation endpoints - protected by signature/license in handlers
   { path: '/api/federation/consent', methods: ['GET', 'POST'], note: 'Federation consent callback' },
   { path: '/api/federation/heartbeat', methods: ['POST'], note: 'Federation heartbeat (requires license)' },
   { path: '/api/federation/incoming-message', methods: ['POST'], note: 'Webhook (requires valid signature)' },
+
+  // Inbound email replies - protected by INBOUND_EMAIL_SECRET in handler
+  { path: '/api/inbound-email', methods: ['POST'], note: 'Raw email ingestion (requires INBOUND_EMAIL_SECRET)' },
 ];
 
 // Onboarding routes (authenticated but don't require profile completion)
@@ -245,7 +267,60 @@ function matchesPublicApiRoute(path: string, method: string): boolean {
   });
 }
 
-export default auth((req) => {
+/**
+ * Check whether an API request must wait for two-factor setup
+ */
+async function isBlockedByTwoFactorSetup(userId: string, path: string): Promise<boolean> {
+  return !isTwoFactorSetupApiRoute(path) && needsTwoFactorSetup(userId);
+}
+
+const twoFactorSetupRequiredError = 'Set up two-factor authentication to continue';
+
+/**
+ * Check a request made with a personal API token
+ * 
+ * SECURITY: Tokens only work on the API routes their scopes cover. Pages,
+ * public routes and API routes outside the token API (account security,
+ * settings, plugins) reject them outright rather than falling back to
+ * cookies or anonymous access.
+ */
+async function authorizeApiTokenRequest(
+  token: string,
+  path: string,
+  method: string,
+  headers: Headers
+): Promise<NextResponse> {
+  const jsonError = (error: string, status: number) => new NextResponse(
+    JSON.stringify({ error }),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  );
+  
+  const requiredScope = path.startsWith('/api/') ? getRequiredScope(path, method) : null;
+  if (!requiredScope) {
+    return jsonError('This endpoint is not available to API tokens', 403);
+  }
+  
+  const principal = await authenticateApiToken(token, getClientIp(headers));
+  if (!principal) {
+    return jsonError('Invalid or expired API token', 401);
+  }
+  
+  if (!hasScope(principal.scopes, requiredScope)) {
+    return jsonError(`API token is missing the ${requiredScope} scope`, 403);
+  }
+  
+  if (await isBlockedByTwoFactorSetup(principal.user.id, path)) {
+    return jsonError(twoFactorSetupRequiredError, 403);
+  }
+  
+  if (matchesRoute(path, adminRoutes) && principal.user.role !== 'ADMIN') {
+    return jsonError('Admin access required', 403);
+  }
+  
+  return applySecurityHeaders(NextResponse.next());
+}
+
+export default auth(async (req) => {
   const { nextUrl } = req;
   const isLoggedIn = !!req.auth;
   const userRole = req.auth?.user?.role;
@@ -254,6 +329,12 @@ export default auth((req) => {
   const method = req.method;
   const isApiRoute = path.startsWith('/api/');
   
+  // Personal API tokens are checked on their own, before any other rule
+  const apiToken = getApiTokenFromHeader(req.headers.get('authorization'));
+  if (apiToken) {
+    return authorizeApiTokenRequest(apiToken, path, method, req.headers);
+  }
+  
   // Allow public routes (non-API)
   if (matchesRoute(path, publicRoutes) || isPublicEventRoute(path)) {
     // Redirect logged-in users away from auth pages
@@ -268,6 +349,14 @@ export default auth((req) => {
     return applySecurityHeaders(NextResponse.next());
   }
   
+  // Users who must set up two-factor authentication can only set it up
+  if (isApiRoute && req.auth?.user?.id && await isBlockedByTwoFactorSetup(req.auth.user.id, path)) {
+    return new NextResponse(
+      JSON.stringify({ error: twoFactorSetupRequiredError }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  
   // Check admin routes (including /api/admin)
   if (matchesRoute(path, adminRoutes)) {
     if (!isLoggedIn) {
@@ -14,16 +14,26 @@ export type EmailTemplateType =
   | 'password_reset'
   | 'user_invitation'
   | 'email_verification'
+  | 'new_sign_in'
   // Submissions
   | 'submission_confirmation'
   | 'submission_accepted'
   | 'submission_rejected'
   | 'submission_waitlisted'
   | 'submission_under_review'
+  | 'speaker_confirmation'
+  | 'co_speaker_invitation'
   // Communication
   | 'new_message'
   | 'review_invitation'
   | 'review_assignment'
+  | 'new_submission'
+  | 'new_review'
+  | 'discussion_reply'
+  | 'discussion_mention'
+  | 'review_deadline_reminder'
+  | 'review_deadline_escalation'
+  | 'notification_digest'
   // Announcements
   | 'event_published'
   | 'cfp_opening'
@@ -85,16 +95,26 @@ export const EMAIL_TEMPLATE_TYPE_LABELS: Record<EmailTemplateType, string> = {
   password_reset: 'Password Reset',
   user_invitation: 'Platform Invitation',
   email_verification: 'Email Verification',
+  new_sign_in: 'New Sign-In Alert',
   // Submissions
   submission_confirmation: 'Submission Confirmation',
   submission_accepted: 'Submission Accepted',
   submission_rejected: 'Submission Not Selected',
   submission_waitlisted: 'Submission Waitlisted',
   submission_under_review: 'Submission Under Review',
+  speaker_confirmation: 'Speaker Confirmation Request',
+  co_speaker_invitation: 'Co-Speaker Invitation',
   // Communication
   new_message: 'New Message',
   review_invitation: 'Review Team Invitation',
   review_assignment: 'Review Assignment',
+  new_submission: 'New Submission',
+  new_review: 'New Review',
+  discussion_reply: 'Review Discussion Reply',
+  discussion_mention: 'Discussion Mention',
+  review_deadline_reminder: 'Review Deadline Reminder',
+  review_deadline_escalation: 'Review Deadline Escalation',
+  notification_digest: 'Notification Digest',
   // Announcements
   event_published: 'Event Published',
   cfp_opening: 'CFP Opening',
@@ -162,6 +182,8 @@ export interface EmailSendResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  /** Delivery failed or was deferred and the queue will retry */
+  queued?: boolean;
 }
 
 // =============================================================================